@@ -0,0 +1,489 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLoader } from '@/components/ui/page-loader';
+import { toast } from 'sonner';
+import { AlertTriangle, BellRing, CalendarClock, CheckCircle2, FileCheck, FileX, Loader2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getDocumentComplianceDashboard,
+  getMissingMandatoryDocuments,
+  sendDocumentReminders,
+  ComplianceDocument,
+  ComplianceGroup,
+  DocumentComplianceDashboard,
+  MissingMandatoryDocumentsResponse,
+} from '@/lib/api/org/employee-documents';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { getAllBranches, Branch } from '@/lib/api/org/branches';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+const WINDOW_OPTIONS = [7, 30, 60, 90];
+const ALL = 'all';
+
+export default function DocumentCompliancePage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('employees', false);
+  const { hasPermission } = useOrgPermissions();
+  const canSendReminders = hasPermission('employees', 'canUpdate');
+
+  const [dashboard, setDashboard] = useState<DocumentComplianceDashboard | null>(null);
+  const [missing, setMissing] = useState<MissingMandatoryDocumentsResponse | null>(null);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const [days, setDays] = useState(30);
+  const [departmentId, setDepartmentId] = useState(ALL);
+  const [branchId, setBranchId] = useState(ALL);
+  const [missingPage, setMissingPage] = useState(1);
+
+  const filters = {
+    departmentId: departmentId !== ALL ? parseInt(departmentId) : undefined,
+    branchId: branchId !== ALL ? parseInt(branchId) : undefined,
+  };
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [dashboardData, missingData] = await Promise.all([
+        getDocumentComplianceDashboard(orgSlug, { days, ...filters }),
+        getMissingMandatoryDocuments(orgSlug, { page: missingPage, limit: 10, ...filters }),
+      ]);
+      setDashboard(dashboardData);
+      setMissing(missingData);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load document compliance');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      loadData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasAccess, permissionLoading, orgSlug, days, departmentId, branchId, missingPage]);
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      getAllDepartments(orgSlug, true).then(setDepartments).catch(() => setDepartments([]));
+      getAllBranches(orgSlug, true).then(setBranches).catch(() => setBranches([]));
+    }
+  }, [hasAccess, permissionLoading, orgSlug]);
+
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  if (isLoading && !dashboard) {
+    return <PageLoader message="Loading document compliance..." />;
+  }
+
+  const handleSendReminders = async () => {
+    setIsSending(true);
+    try {
+      const result = await sendDocumentReminders(orgSlug);
+      toast.success(result.message);
+      loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send reminders');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const formatDate = (date: string) => format(new Date(date), 'dd MMM yyyy');
+  const employeeName = (employee: { firstName: string; lastName: string | null }) =>
+    [employee.firstName, employee.lastName].filter(Boolean).join(' ');
+
+  const renderDocuments = (documents: ComplianceDocument[], emptyMessage: string) =>
+    documents.length === 0 ? (
+      <p className="text-gray-500 text-center py-6">{emptyMessage}</p>
+    ) : (
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Employee</TableHead>
+            <TableHead>Document</TableHead>
+            <TableHead>Department</TableHead>
+            <TableHead>Expiry</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {documents.map((document) => (
+            <TableRow key={document.id}>
+              <TableCell>
+                <Link href={`/${orgSlug}/employees/${document.employee.id}`} className="font-medium hover:underline">
+                  {employeeName(document.employee)}
+                </Link>
+                <p className="text-xs text-gray-500">{document.employee.employeeCode}</p>
+              </TableCell>
+              <TableCell>
+                {document.documentTypeMaster?.name || document.documentName}
+                {document.documentTypeMaster && document.documentName !== document.documentTypeMaster.name && (
+                  <p className="text-xs text-gray-500">{document.documentName}</p>
+                )}
+              </TableCell>
+              <TableCell>{document.employee.department?.name || '-'}</TableCell>
+              <TableCell>
+                {formatDate(document.expiryDate)}
+                <Badge
+                  className={`ml-2 ${
+                    document.daysUntilExpiry < 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {document.daysUntilExpiry < 0
+                    ? `${Math.abs(document.daysUntilExpiry)}d overdue`
+                    : document.daysUntilExpiry === 0
+                      ? 'Today'
+                      : `in ${document.daysUntilExpiry}d`}
+                </Badge>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    );
+
+  const renderGroups = (title: string, groups: ComplianceGroup[]) => (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {groups.length === 0 ? (
+          <p className="text-gray-500 text-center py-6">No employees</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead className="text-right">Employees</TableHead>
+                <TableHead className="text-right">Expired</TableHead>
+                <TableHead className="text-right">Expiring</TableHead>
+                <TableHead className="text-right">Missing Mandatory</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {groups.map((group) => (
+                <TableRow key={group.id ?? 'unassigned'}>
+                  <TableCell className="font-medium">{group.name}</TableCell>
+                  <TableCell className="text-right">{group.employees}</TableCell>
+                  <TableCell className={`text-right ${group.expired > 0 ? 'text-red-600 font-medium' : ''}`}>
+                    {group.expired}
+                  </TableCell>
+                  <TableCell className="text-right">{group.expiring}</TableCell>
+                  <TableCell
+                    className={`text-right ${group.employeesMissingMandatory > 0 ? 'text-red-600 font-medium' : ''}`}
+                  >
+                    {group.employeesMissingMandatory}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  const summary = dashboard?.summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <FileCheck className="w-8 h-8 text-blue-600" />
+            Document Compliance
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Expiring, expired and missing employee documents
+            {dashboard && ` · reminders are sent ${dashboard.reminderDays.join(', ')} day(s) before expiry`}
+          </p>
+        </div>
+        {canSendReminders && (
+          <Button onClick={handleSendReminders} disabled={isSending}>
+            {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BellRing className="h-4 w-4 mr-2" />}
+            Send Due Reminders
+          </Button>
+        )}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3">
+        <Select value={String(days)} onValueChange={(value) => setDays(parseInt(value))}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {WINDOW_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                Expiring in {option} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={departmentId}
+          onValueChange={(value) => {
+            setDepartmentId(value);
+            setMissingPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Department" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All departments</SelectItem>
+            {departments.map((department) => (
+              <SelectItem key={department.id} value={String(department.id)}>
+                {department.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={branchId}
+          onValueChange={(value) => {
+            setBranchId(value);
+            setMissingPage(1);
+          }}
+        >
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Branch" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All branches</SelectItem>
+            {branches.map((branch) => (
+              <SelectItem key={branch.id} value={String(branch.id)}>
+                {branch.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400 self-center" />}
+      </div>
+
+      {/* Summary */}
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <CheckCircle2 className="h-8 w-8 text-green-600" />
+              <div>
+                <p className="text-2xl font-bold">
+                  {summary.compliantEmployees}/{summary.activeEmployees}
+                </p>
+                <p className="text-sm text-gray-500">Compliant employees</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <CalendarClock className="h-8 w-8 text-yellow-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.expiringSoon}</p>
+                <p className="text-sm text-gray-500">Expiring in {dashboard.days} days</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <FileX className="h-8 w-8 text-red-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.expired}</p>
+                <p className="text-sm text-gray-500">Expired documents</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <AlertTriangle className="h-8 w-8 text-red-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.employeesMissingMandatory}</p>
+                <p className="text-sm text-gray-500">Missing mandatory documents</p>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {dashboard && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>Expired</CardTitle>
+            </CardHeader>
+            <CardContent>{renderDocuments(dashboard.expired, 'No expired documents')}</CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Expiring in the next {dashboard.days} days</CardTitle>
+            </CardHeader>
+            <CardContent>{renderDocuments(dashboard.expiring, 'No documents expiring soon')}</CardContent>
+          </Card>
+        </>
+      )}
+
+      {/* Missing mandatory documents */}
+      {missing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Missing Mandatory Documents</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {dashboard && dashboard.missingMandatoryByType.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {dashboard.missingMandatoryByType.map((type) => (
+                  <Badge key={type.id} variant="outline">
+                    {type.name}: {type.missing} missing, {type.expired} expired
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {missing.employees.length === 0 ? (
+              <p className="text-gray-500 text-center py-6">Every employee has their mandatory documents</p>
+            ) : (
+              <>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Department</TableHead>
+                      <TableHead>Branch</TableHead>
+                      <TableHead>Missing</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {missing.employees.map((employee) => (
+                      <TableRow key={employee.id}>
+                        <TableCell>
+                          <Link href={`/${orgSlug}/employees/${employee.id}`} className="font-medium hover:underline">
+                            {employeeName(employee)}
+                          </Link>
+                          <p className="text-xs text-gray-500">{employee.employeeCode}</p>
+                        </TableCell>
+                        <TableCell>{employee.department?.name || '-'}</TableCell>
+                        <TableCell>{employee.branch?.name || '-'}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {employee.missingTypes.map((type) => (
+                              <Badge
+                                key={type.id}
+                                className={
+                                  type.reason === 'expired' ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-800'
+                                }
+                              >
+                                {type.name}
+                                {type.reason === 'expired' && ' (expired)'}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {missing.pagination.totalPages > 1 && (
+                  <div className="flex items-center justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={missingPage <= 1}
+                      onClick={() => setMissingPage(missingPage - 1)}
+                    >
+                      Previous
+                    </Button>
+                    <span className="text-sm text-gray-500">
+                      Page {missing.pagination.page} of {missing.pagination.totalPages}
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={missingPage >= missing.pagination.totalPages}
+                      onClick={() => setMissingPage(missingPage + 1)}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {dashboard && (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {renderGroups('By Department', dashboard.byDepartment)}
+            {renderGroups('By Branch', dashboard.byBranch)}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Recent Reminders</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {dashboard.recentReminders.length === 0 ? (
+                <p className="text-gray-500 text-center py-6">No reminders sent yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sent</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Document</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Recipients</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {dashboard.recentReminders.map((reminder) => (
+                      <TableRow key={reminder.id}>
+                        <TableCell>{format(new Date(reminder.sentAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                        <TableCell>{employeeName(reminder.document.employee)}</TableCell>
+                        <TableCell>{reminder.document.documentName}</TableCell>
+                        <TableCell>{reminder.stage === 0 ? 'On expiry' : `${reminder.stage} days before`}</TableCell>
+                        <TableCell className="text-xs text-gray-500">{reminder.recipients.split(',').length}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,534 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import {
+  ArrowRightLeft,
+  BadgeCheck,
+  Ban,
+  IndianRupee,
+  Loader2,
+  LogOut,
+  Pencil,
+  Plus,
+  TrendingUp,
+  UserPlus,
+  XCircle,
+} from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getEmployeeTimeline,
+  createEmployeeEvent,
+  cancelEmployeeEvent,
+  EmployeeEvent,
+  EmployeeEventData,
+  EmployeeEventType,
+  EmployeeTimeline,
+  EMPLOYEE_EVENT_LABELS,
+} from '@/lib/api/org/employee-events';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { getAllDesignations, Designation } from '@/lib/api/org/designations';
+import { getAllBranches, Branch } from '@/lib/api/org/branches';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+interface CareerTimelineProps {
+  orgSlug: string;
+  employeeId: number;
+  // Called when an event was applied right away, so the page can reload the employee
+  onEmployeeChanged: () => void;
+}
+
+type RecordableEventType = EmployeeEventData['eventType'];
+
+interface EventForm {
+  eventType: RecordableEventType | '';
+  effectiveDate: string;
+  reason: string;
+  departmentId: string;
+  designationId: string;
+  branchId: string;
+  salary: string;
+}
+
+const emptyForm: EventForm = {
+  eventType: '',
+  effectiveDate: format(new Date(), 'yyyy-MM-dd'),
+  reason: '',
+  departmentId: '',
+  designationId: '',
+  branchId: '',
+  salary: '',
+};
+
+const RECORDABLE_TYPES: RecordableEventType[] = [
+  'promotion',
+  'transfer',
+  'salary_revision',
+  'confirmation',
+  'resignation',
+  'termination',
+];
+
+// Fields asked for each event type (required ones are checked by the API)
+const EVENT_FIELDS: Record<RecordableEventType, ('departmentId' | 'designationId' | 'branchId' | 'salary')[]> = {
+  promotion: ['designationId', 'departmentId', 'branchId', 'salary'],
+  transfer: ['departmentId', 'branchId'],
+  salary_revision: ['salary'],
+  confirmation: [],
+  resignation: [],
+  termination: [],
+};
+
+const EVENT_ICONS: Record<EmployeeEventType, typeof TrendingUp> = {
+  promotion: TrendingUp,
+  transfer: ArrowRightLeft,
+  salary_revision: IndianRupee,
+  confirmation: BadgeCheck,
+  resignation: LogOut,
+  termination: Ban,
+  update: Pencil,
+};
+
+/**
+ * Career timeline: promotions, transfers, salary revisions, confirmation and exit of an employee
+ */
+export function CareerTimeline({ orgSlug, employeeId, onEmployeeChanged }: CareerTimelineProps) {
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+
+  const [timeline, setTimeline] = useState<EmployeeTimeline | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [designations, setDesignations] = useState<Designation[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [formData, setFormData] = useState<EventForm>(emptyForm);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancellingEvent, setCancellingEvent] = useState<EmployeeEvent | null>(null);
+
+  const loadTimeline = async () => {
+    try {
+      setIsLoading(true);
+      setTimeline(await getEmployeeTimeline(orgSlug, employeeId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load career timeline');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTimeline();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug, employeeId]);
+
+  const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+  const formatSalary = (salary: string | null) => `₹${Number(salary).toLocaleString('en-IN')}`;
+
+  const handleOpenDialog = async () => {
+    setFormData(emptyForm);
+    setIsDialogOpen(true);
+
+    if (departments.length === 0) {
+      try {
+        const [depts, desigs, branchesList] = await Promise.all([
+          getAllDepartments(orgSlug, true),
+          getAllDesignations(orgSlug, true),
+          getAllBranches(orgSlug, true),
+        ]);
+        setDepartments(depts);
+        setDesignations(desigs);
+        setBranches(branchesList);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load form data');
+      }
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.eventType) {
+      toast.error('Please select an event type');
+      return;
+    }
+
+    const fields = EVENT_FIELDS[formData.eventType];
+    const data: EmployeeEventData = {
+      eventType: formData.eventType,
+      effectiveDate: formData.effectiveDate,
+      reason: formData.reason,
+      ...(fields.includes('departmentId') && formData.departmentId && { departmentId: parseInt(formData.departmentId) }),
+      ...(fields.includes('designationId') && formData.designationId && { designationId: parseInt(formData.designationId) }),
+      ...(fields.includes('branchId') && formData.branchId && { branchId: parseInt(formData.branchId) }),
+      ...(fields.includes('salary') && formData.salary && { salary: parseFloat(formData.salary) }),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const event = await createEmployeeEvent(orgSlug, employeeId, data);
+      toast.success(
+        event.status === 'applied'
+          ? `${EMPLOYEE_EVENT_LABELS[event.eventType]} recorded and applied`
+          : `${EMPLOYEE_EVENT_LABELS[event.eventType]} scheduled for ${formatDate(event.effectiveDate)}`
+      );
+      setIsDialogOpen(false);
+      loadTimeline();
+      if (event.status === 'applied') {
+        onEmployeeChanged();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to record event');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelEvent = async () => {
+    if (!cancellingEvent) return;
+
+    setIsSubmitting(true);
+    try {
+      await cancelEmployeeEvent(orgSlug, employeeId, cancellingEvent.id);
+      toast.success('Scheduled event cancelled');
+      setCancellingEvent(null);
+      loadTimeline();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel event');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // "Old → New" lines for the values an event changes
+  const describeChanges = (event: EmployeeEvent) => {
+    const applied = event.status === 'applied';
+    const change = (label: string, previous: string | null | undefined, next: string | null | undefined) => ({
+      label,
+      previous: applied ? previous || '-' : null,
+      next: next || '-',
+    });
+
+    const changes: ReturnType<typeof change>[] = [];
+    if (event.designationId !== null) {
+      changes.push(change('Designation', event.previousDesignation?.name, event.designation?.name));
+    }
+    if (event.departmentId !== null) {
+      changes.push(change('Department', event.previousDepartment?.name, event.department?.name));
+    }
+    if (event.branchId !== null) {
+      changes.push(change('Branch', event.previousBranch?.name, event.branch?.name));
+    }
+    if (event.salary !== null) {
+      changes.push(
+        change('Salary', event.previousSalary !== null ? formatSalary(event.previousSalary) : null, formatSalary(event.salary))
+      );
+    }
+    if (event.employeeStatus !== null) {
+      changes.push(change('Status', event.previousStatus, event.employeeStatus));
+    }
+    return changes;
+  };
+
+  const renderStatus = (event: EmployeeEvent) => {
+    if (event.status === 'scheduled') {
+      return <Badge className="bg-blue-100 text-blue-800">Scheduled</Badge>;
+    }
+    if (event.status === 'cancelled') {
+      return <Badge className="bg-gray-100 text-gray-600">Cancelled</Badge>;
+    }
+    return null;
+  };
+
+  const selectedFields = formData.eventType ? EVENT_FIELDS[formData.eventType] : [];
+  const canEditSalary = hasPermission('employees', 'canViewCompensation');
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Career Timeline</CardTitle>
+          {canUpdate && (
+            <Button size="sm" onClick={handleOpenDialog}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Event
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading || !timeline ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-4">
+              {timeline.events.map((event) => {
+                const Icon = EVENT_ICONS[event.eventType] || Pencil;
+                const changes = describeChanges(event);
+
+                return (
+                  <li key={event.id} className="mb-8 ml-6">
+                    <span
+                      className={`absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full ring-4 ring-white ${
+                        event.status === 'scheduled' ? 'bg-blue-100' : 'bg-gray-100'
+                      }`}
+                    >
+                      <Icon className="h-4 w-4 text-gray-700" />
+                    </span>
+                    <div className="flex items-start justify-between gap-4">
+                      <div className={event.status === 'cancelled' ? 'opacity-60' : ''}>
+                        <div className="flex items-center gap-2">
+                          <h4
+                            className={`font-semibold text-gray-900 ${event.status === 'cancelled' ? 'line-through' : ''}`}
+                          >
+                            {EMPLOYEE_EVENT_LABELS[event.eventType] || event.eventType}
+                          </h4>
+                          {renderStatus(event)}
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {event.status === 'scheduled' ? 'Effective ' : ''}
+                          {formatDate(event.effectiveDate)}
+                        </p>
+                        {changes.length > 0 && (
+                          <ul className="mt-2 space-y-0.5 text-sm">
+                            {changes.map((item) => (
+                              <li key={item.label}>
+                                <span className="text-gray-500">{item.label}: </span>
+                                {item.previous !== null && (
+                                  <span className="text-gray-500">{item.previous} → </span>
+                                )}
+                                <span className="font-medium text-gray-900">{item.next}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {event.reason && <p className="mt-2 text-sm text-gray-600">{event.reason}</p>}
+                      </div>
+                      {canUpdate && event.status === 'scheduled' && (
+                        <Button variant="ghost" size="sm" title="Cancel event" onClick={() => setCancellingEvent(event)}>
+                          <XCircle className="h-4 w-4 text-red-600" />
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+
+              <li className="ml-6">
+                <span className="absolute -left-4 flex h-8 w-8 items-center justify-center rounded-full bg-green-100 ring-4 ring-white">
+                  <UserPlus className="h-4 w-4 text-green-700" />
+                </span>
+                <h4 className="font-semibold text-gray-900">Joined</h4>
+                <p className="text-sm text-gray-500">{formatDate(timeline.employee.dateOfJoining)}</p>
+              </li>
+            </ol>
+          )}
+          {timeline && !timeline.canViewCompensation && (
+            <p className="mt-4 text-xs text-gray-500">Salary changes are hidden without the compensation permission.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Add Event Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>Add Career Event</DialogTitle>
+              <DialogDescription>
+                Events effective today or earlier update the employee right away. Future-dated events are applied on
+                their effective date.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Event Type *</Label>
+                  <Select
+                    value={formData.eventType}
+                    onValueChange={(value) => setFormData({ ...formData, eventType: value as RecordableEventType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select event type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RECORDABLE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {EMPLOYEE_EVENT_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="effectiveDate">Effective Date *</Label>
+                  <Input
+                    id="effectiveDate"
+                    type="date"
+                    value={formData.effectiveDate}
+                    onChange={(e) => setFormData({ ...formData, effectiveDate: e.target.value })}
+                    required
+                  />
+                </div>
+              </div>
+
+              {selectedFields.includes('designationId') && (
+                <div className="space-y-2">
+                  <Label>New Designation{formData.eventType === 'promotion' ? ' *' : ''}</Label>
+                  <Select
+                    value={formData.designationId}
+                    onValueChange={(value) => setFormData({ ...formData, designationId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select designation" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {designations.map((designation) => (
+                        <SelectItem key={designation.id} value={String(designation.id)}>
+                          {designation.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {(selectedFields.includes('departmentId') || selectedFields.includes('branchId')) && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>New Department</Label>
+                    <Select
+                      value={formData.departmentId}
+                      onValueChange={(value) => setFormData({ ...formData, departmentId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Unchanged" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {departments.map((department) => (
+                          <SelectItem key={department.id} value={String(department.id)}>
+                            {department.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>New Branch</Label>
+                    <Select
+                      value={formData.branchId}
+                      onValueChange={(value) => setFormData({ ...formData, branchId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Unchanged" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {branches.map((branch) => (
+                          <SelectItem key={branch.id} value={String(branch.id)}>
+                            {branch.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+
+              {selectedFields.includes('salary') && canEditSalary && (
+                <div className="space-y-2">
+                  <Label htmlFor="salary">
+                    New Salary{formData.eventType === 'salary_revision' ? ' *' : ''}
+                  </Label>
+                  <Input
+                    id="salary"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.salary}
+                    onChange={(e) => setFormData({ ...formData, salary: e.target.value })}
+                    placeholder={formData.eventType === 'promotion' ? 'Unchanged' : undefined}
+                  />
+                </div>
+              )}
+
+              {(formData.eventType === 'resignation' || formData.eventType === 'termination') && (
+                <p className="text-sm text-amber-700">
+                  On the effective date the employee is marked {formData.eventType === 'resignation' ? 'Resigned' : 'Terminated'},
+                  deactivated, and the effective date becomes the date of leaving.
+                </p>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="reason">Reason *</Label>
+                <Textarea
+                  id="reason"
+                  value={formData.reason}
+                  onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                  rows={3}
+                  required
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting || (formData.eventType === 'salary_revision' && !canEditSalary)}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save Event
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog open={!!cancellingEvent} onOpenChange={(open) => !open && setCancellingEvent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Scheduled Event</DialogTitle>
+            <DialogDescription>
+              The {cancellingEvent ? EMPLOYEE_EVENT_LABELS[cancellingEvent.eventType].toLowerCase() : 'event'} effective{' '}
+              {formatDate(cancellingEvent?.effectiveDate ?? null)} will not be applied. It stays on the timeline as
+              cancelled.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCancellingEvent(null)}>
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleCancelEvent} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Event
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,503 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { AlertTriangle, Eye, History, Loader2, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getDocumentTypes,
+  getEmployeeDocuments,
+  getEmployeeDocumentVersions,
+  uploadEmployeeDocument,
+  updateEmployeeDocument,
+  deleteEmployeeDocument,
+  EmployeeDocument,
+  EmployeeDocumentType,
+  MissingDocumentType,
+} from '@/lib/api/org/employee-documents';
+import { openFile } from '@/lib/api/org/files';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+// Documents expiring within this many days are highlighted
+const EXPIRING_SOON_DAYS = 30;
+
+interface DocumentVaultProps {
+  orgSlug: string;
+  employeeId: number;
+}
+
+interface DocumentForm {
+  documentTypeId: string;
+  documentName: string;
+  issueDate: string;
+  expiryDate: string;
+  notes: string;
+}
+
+const emptyForm: DocumentForm = {
+  documentTypeId: '',
+  documentName: '',
+  issueDate: '',
+  expiryDate: '',
+  notes: '',
+};
+
+/**
+ * Employee document vault: typed documents with expiry tracking and version history
+ */
+export function DocumentVault({ orgSlug, employeeId }: DocumentVaultProps) {
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+  const canDelete = hasPermission('employees', 'canDelete');
+
+  const [documents, setDocuments] = useState<EmployeeDocument[]>([]);
+  const [missingTypes, setMissingTypes] = useState<MissingDocumentType[]>([]);
+  const [documentTypes, setDocumentTypes] = useState<EmployeeDocumentType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDocument, setEditingDocument] = useState<EmployeeDocument | null>(null);
+  const [formData, setFormData] = useState<DocumentForm>(emptyForm);
+  const [file, setFile] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const [versionsDocument, setVersionsDocument] = useState<EmployeeDocument | null>(null);
+  const [versions, setVersions] = useState<EmployeeDocument[]>([]);
+  const [deletingDocument, setDeletingDocument] = useState<EmployeeDocument | null>(null);
+
+  const loadDocuments = async () => {
+    try {
+      setIsLoading(true);
+      const data = await getEmployeeDocuments(orgSlug, employeeId);
+      setDocuments(data.documents);
+      setMissingTypes(data.missingMandatoryTypes);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load documents');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadDocuments();
+    getDocumentTypes(orgSlug)
+      .then(setDocumentTypes)
+      .catch((error) => console.error('Failed to load document types:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug, employeeId]);
+
+  const toDateInput = (date: string | null) => (date ? format(new Date(date), 'yyyy-MM-dd') : '');
+  const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+
+  const handleOpenDialog = (document?: EmployeeDocument, documentTypeId?: number) => {
+    setEditingDocument(document || null);
+    setFormData(
+      document
+        ? {
+            documentTypeId: String(document.documentTypeId ?? ''),
+            documentName: document.documentName,
+            issueDate: toDateInput(document.issueDate),
+            expiryDate: toDateInput(document.expiryDate),
+            notes: document.notes || '',
+          }
+        : { ...emptyForm, documentTypeId: documentTypeId ? String(documentTypeId) : '' }
+    );
+    setFile(null);
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data = {
+      documentName: formData.documentName || undefined,
+      issueDate: formData.issueDate || null,
+      expiryDate: formData.expiryDate || null,
+      notes: formData.notes || null,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (editingDocument) {
+        await updateEmployeeDocument(orgSlug, employeeId, editingDocument.id, data, file);
+        toast.success(file ? 'New version uploaded successfully' : 'Document updated successfully');
+      } else {
+        if (!formData.documentTypeId || !file) {
+          toast.error('Please select a document type and a file');
+          return;
+        }
+        await uploadEmployeeDocument(orgSlug, employeeId, file, {
+          ...data,
+          documentTypeId: parseInt(formData.documentTypeId),
+        });
+        toast.success('Document uploaded successfully');
+      }
+      setIsDialogOpen(false);
+      loadDocuments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save document');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleShowVersions = async (document: EmployeeDocument) => {
+    setVersionsDocument(document);
+    setVersions([]);
+    try {
+      setVersions(await getEmployeeDocumentVersions(orgSlug, employeeId, document.id));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load versions');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingDocument) return;
+
+    setIsSubmitting(true);
+    try {
+      await deleteEmployeeDocument(orgSlug, employeeId, deletingDocument.id);
+      toast.success('Document deleted successfully');
+      setDeletingDocument(null);
+      loadDocuments();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete document');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleView = async (document: EmployeeDocument) => {
+    try {
+      await openFile(orgSlug, document.filePath);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to open document');
+    }
+  };
+
+  const renderExpiry = (document: EmployeeDocument) => {
+    if (document.daysUntilExpiry === null) {
+      return <span className="text-gray-500">No expiry</span>;
+    }
+    if (document.isExpired) {
+      return <Badge className="bg-red-100 text-red-800">Expired {formatDate(document.expiryDate)}</Badge>;
+    }
+    if (document.daysUntilExpiry <= EXPIRING_SOON_DAYS) {
+      return (
+        <Badge className="bg-yellow-100 text-yellow-800">
+          Expires in {document.daysUntilExpiry} day{document.daysUntilExpiry === 1 ? '' : 's'}
+        </Badge>
+      );
+    }
+    return <span>{formatDate(document.expiryDate)}</span>;
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Document Vault</CardTitle>
+          {canUpdate && (
+            <Button size="sm" onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Upload Document
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {missingTypes.length > 0 && (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-4">
+              <div className="flex items-center gap-2 font-medium text-yellow-800 mb-2">
+                <AlertTriangle className="h-4 w-4" />
+                Missing mandatory documents
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {missingTypes.map((type) => (
+                  <Badge
+                    key={type.id}
+                    variant="outline"
+                    className={`border-yellow-300 text-yellow-800 ${canUpdate ? 'cursor-pointer' : ''}`}
+                    onClick={() => canUpdate && handleOpenDialog(undefined, type.id)}
+                  >
+                    {type.name}
+                    {type.reason === 'expired' && ' (expired)'}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : documents.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No documents uploaded yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Expiry</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {documents.map((document) => (
+                  <TableRow key={document.id}>
+                    <TableCell>
+                      <p className="font-medium">{document.documentName}</p>
+                      {document.notes && <p className="text-xs text-gray-500">{document.notes}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {document.documentTypeMaster?.name || '-'}
+                      {document.documentTypeMaster && (
+                        <p className="text-xs text-gray-500">{document.documentTypeMaster.category}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatDate(document.issueDate)}</TableCell>
+                    <TableCell>{renderExpiry(document)}</TableCell>
+                    <TableCell>v{document.version}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" title="View" onClick={() => handleView(document)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                        {document.version > 1 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Version history"
+                            onClick={() => handleShowVersions(document)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canUpdate && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Edit or replace"
+                            onClick={() => handleOpenDialog(document)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Delete"
+                            onClick={() => setDeletingDocument(document)}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-600" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Upload / Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingDocument ? 'Edit Document' : 'Upload Document'}</DialogTitle>
+              <DialogDescription>
+                {editingDocument
+                  ? 'Update the details, or choose a file to upload a new version. Earlier versions are kept.'
+                  : "Add a document to the employee's vault."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label>Document Type *</Label>
+                <Select
+                  value={formData.documentTypeId}
+                  onValueChange={(value) => setFormData({ ...formData, documentTypeId: value })}
+                  disabled={!!editingDocument}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select document type" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {documentTypes.map((type) => (
+                      <SelectItem key={type.id} value={String(type.id)}>
+                        {type.name} ({type.category}){type.isMandatory ? ' *' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="documentName">Document Name</Label>
+                <Input
+                  id="documentName"
+                  value={formData.documentName}
+                  onChange={(e) => setFormData({ ...formData, documentName: e.target.value })}
+                  placeholder="Defaults to the document type"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="issueDate">Issue Date</Label>
+                  <Input
+                    id="issueDate"
+                    type="date"
+                    value={formData.issueDate}
+                    onChange={(e) => setFormData({ ...formData, issueDate: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="expiryDate">Expiry Date</Label>
+                  <Input
+                    id="expiryDate"
+                    type="date"
+                    value={formData.expiryDate}
+                    min={formData.issueDate || undefined}
+                    onChange={(e) => setFormData({ ...formData, expiryDate: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea
+                  id="notes"
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  rows={2}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="file">{editingDocument ? 'New Version (optional)' : 'File *'}</Label>
+                <Input
+                  id="file"
+                  type="file"
+                  accept=".pdf,.jpg,.jpeg,.png"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                />
+                <p className="text-xs text-gray-500">PDF, JPEG or PNG up to 10MB</p>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {editingDocument ? 'Save' : 'Upload'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Version History Dialog */}
+      <Dialog open={!!versionsDocument} onOpenChange={(open) => !open && setVersionsDocument(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>{versionsDocument?.documentName}</DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">File</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    v{version.version}
+                    {version.isLatest && <Badge className="ml-2 bg-green-100 text-green-800">Current</Badge>}
+                  </TableCell>
+                  <TableCell>{formatDate(version.uploadedAt)}</TableCell>
+                  <TableCell>{formatDate(version.expiryDate)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleView(version)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deletingDocument} onOpenChange={(open) => !open && setDeletingDocument(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Document</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete &quot;{deletingDocument?.documentName}&quot;? All its versions will be
+              removed. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingDocument(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
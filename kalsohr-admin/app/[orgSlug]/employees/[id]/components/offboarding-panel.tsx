@@ -0,0 +1,508 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { Loader2, LogOut, Pencil, XCircle } from 'lucide-react';
+import { addDays, format } from 'date-fns';
+import {
+  getEmployeeOffboarding,
+  startOffboarding,
+  updateOffboarding,
+  cancelOffboarding,
+  updateOffboardingItem,
+  EmployeeOffboarding,
+  EmployeeOffboardingResponse,
+  OffboardingChecklistItem,
+  OffboardingData,
+  OffboardingExitType,
+  OFFBOARDING_CATEGORY_LABELS,
+} from '@/lib/api/org/employee-offboarding';
+import { getAllEmployees } from '@/lib/api/org/employees';
+import { Employee } from '@/lib/types/employee';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+interface OffboardingPanelProps {
+  orgSlug: string;
+  employeeId: number;
+  // Whether the employee has already left (no new offboarding can be started)
+  hasLeft: boolean;
+  // Called after the offboarding changed, so the page can reload the employee and the timeline
+  onChanged: () => void;
+}
+
+interface OffboardingForm {
+  exitType: OffboardingExitType | '';
+  noticeDate: string;
+  noticePeriodDays: string;
+  lastWorkingDay: string;
+  reason: string;
+  successorEmployeeId: string;
+}
+
+const NO_SUCCESSOR = 'none';
+
+const STATUS_BADGES: Record<EmployeeOffboarding['status'], { label: string; className: string }> = {
+  in_progress: { label: 'In Progress', className: 'bg-amber-100 text-amber-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-600' },
+};
+
+/**
+ * Offboarding of an employee: notice period, last working day, successor and exit checklist
+ */
+export function OffboardingPanel({ orgSlug, employeeId, hasLeft, onChanged }: OffboardingPanelProps) {
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+
+  const [data, setData] = useState<EmployeeOffboardingResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+
+  const [dialogMode, setDialogMode] = useState<'start' | 'edit' | null>(null);
+  const [formData, setFormData] = useState<OffboardingForm | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+  const [updatingItemId, setUpdatingItemId] = useState<number | null>(null);
+
+  const loadOffboarding = async () => {
+    try {
+      setIsLoading(true);
+      setData(await getEmployeeOffboarding(orgSlug, employeeId));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load offboarding');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadOffboarding();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug, employeeId]);
+
+  const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+  const toInputDate = (date: string) => format(new Date(date), 'yyyy-MM-dd');
+
+  const offboarding = data?.offboarding?.status !== 'cancelled' ? data?.offboarding ?? null : null;
+  const responsibilities = data
+    ? [
+        ...data.responsibilities.departments.map((department) => `Head of ${department.name}`),
+        ...data.responsibilities.branches.map((branch) => `Manager of ${branch.name}`),
+      ]
+    : [];
+
+  const handleOpenDialog = async (mode: 'start' | 'edit') => {
+    if (!data) return;
+
+    if (mode === 'edit' && offboarding) {
+      setFormData({
+        exitType: offboarding.exitType,
+        noticeDate: toInputDate(offboarding.noticeDate),
+        noticePeriodDays: String(offboarding.noticePeriodDays),
+        lastWorkingDay: toInputDate(offboarding.lastWorkingDay),
+        reason: offboarding.reason || '',
+        successorEmployeeId: offboarding.successorEmployeeId ? String(offboarding.successorEmployeeId) : NO_SUCCESSOR,
+      });
+    } else {
+      const today = new Date();
+      setFormData({
+        exitType: '',
+        noticeDate: format(today, 'yyyy-MM-dd'),
+        noticePeriodDays: String(data.defaultNoticePeriodDays),
+        lastWorkingDay: format(addDays(today, data.defaultNoticePeriodDays), 'yyyy-MM-dd'),
+        reason: '',
+        successorEmployeeId: NO_SUCCESSOR,
+      });
+    }
+    setDialogMode(mode);
+
+    if (employees.length === 0) {
+      try {
+        const response = await getAllEmployees(orgSlug, { isActive: true, limit: 100 });
+        setEmployees(response.employees.filter((employee) => employee.id !== employeeId));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load employees');
+      }
+    }
+  };
+
+  // The last working day follows the notice date and period until it is picked by hand
+  const handleNoticeChange = (changes: Partial<Pick<OffboardingForm, 'noticeDate' | 'noticePeriodDays'>>) => {
+    if (!formData) return;
+
+    const next = { ...formData, ...changes };
+    const days = parseInt(next.noticePeriodDays);
+    if (next.noticeDate && !isNaN(days)) {
+      next.lastWorkingDay = format(addDays(new Date(next.noticeDate), days), 'yyyy-MM-dd');
+    }
+    setFormData(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData) return;
+
+    if (dialogMode === 'start' && !formData.exitType) {
+      toast.error('Please select an exit type');
+      return;
+    }
+
+    const payload: OffboardingData = {
+      ...(dialogMode === 'start' && { exitType: formData.exitType as OffboardingExitType }),
+      noticeDate: formData.noticeDate,
+      noticePeriodDays: parseInt(formData.noticePeriodDays) || 0,
+      lastWorkingDay: formData.lastWorkingDay,
+      reason: formData.reason,
+      successorEmployeeId:
+        formData.successorEmployeeId === NO_SUCCESSOR ? null : parseInt(formData.successorEmployeeId),
+    };
+
+    setIsSubmitting(true);
+    try {
+      const result =
+        dialogMode === 'start'
+          ? await startOffboarding(orgSlug, employeeId, payload)
+          : await updateOffboarding(orgSlug, employeeId, payload);
+
+      toast.success(
+        result.exitedAt
+          ? 'Offboarding saved and exit applied'
+          : `Offboarding saved. Last working day: ${formatDate(result.lastWorkingDay)}`
+      );
+      setDialogMode(null);
+      loadOffboarding();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save offboarding');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    setIsSubmitting(true);
+    try {
+      await cancelOffboarding(orgSlug, employeeId);
+      toast.success('Offboarding cancelled');
+      setIsCancelOpen(false);
+      loadOffboarding();
+      onChanged();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel offboarding');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleItem = async (item: OffboardingChecklistItem) => {
+    setUpdatingItemId(item.id);
+    try {
+      const updated = await updateOffboardingItem(orgSlug, employeeId, item.id, { isCompleted: !item.isCompleted });
+      setData((previous) => (previous ? { ...previous, offboarding: updated } : previous));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update checklist item');
+    } finally {
+      setUpdatingItemId(null);
+    }
+  };
+
+  if (isLoading || !data) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Nothing to show for an employee without an offboarding who cannot be offboarded from here
+  if (!offboarding && (hasLeft || !canUpdate)) {
+    return null;
+  }
+
+  const completedItems = offboarding?.items.filter((item) => item.isCompleted).length ?? 0;
+  const isEditable = !!offboarding && offboarding.status === 'in_progress' && !offboarding.exitedAt && canUpdate;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CardTitle>Offboarding</CardTitle>
+            {offboarding && (
+              <Badge className={STATUS_BADGES[offboarding.status].className}>
+                {STATUS_BADGES[offboarding.status].label}
+              </Badge>
+            )}
+          </div>
+          {!offboarding && (
+            <Button size="sm" variant="outline" onClick={() => handleOpenDialog('start')}>
+              <LogOut className="h-4 w-4 mr-2" />
+              Start Offboarding
+            </Button>
+          )}
+          {isEditable && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleOpenDialog('edit')}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsCancelOpen(true)}>
+                <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {offboarding ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Exit Type</p>
+                  <p className="font-medium capitalize">{offboarding.exitType}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Notice Date</p>
+                  <p className="font-medium">{formatDate(offboarding.noticeDate)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Notice Period</p>
+                  <p className="font-medium">{offboarding.noticePeriodDays} days</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Last Working Day</p>
+                  <p className="font-medium">{formatDate(offboarding.lastWorkingDay)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Successor</p>
+                  <p className="font-medium">
+                    {offboarding.successor
+                      ? `${offboarding.successor.firstName} ${offboarding.successor.lastName || ''} (${offboarding.successor.employeeCode})`
+                      : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Exit Applied</p>
+                  <p className="font-medium">{offboarding.exitedAt ? formatDate(offboarding.exitedAt) : 'Pending'}</p>
+                </div>
+                {offboarding.reason && (
+                  <div className="col-span-2">
+                    <p className="text-gray-500">Reason</p>
+                    <p className="font-medium">{offboarding.reason}</p>
+                  </div>
+                )}
+              </div>
+
+              {!offboarding.exitedAt && (
+                <p className="text-sm text-amber-700">
+                  On the last working day the employee and their user account are deactivated
+                  {responsibilities.length > 0 &&
+                    `, and their roles (${responsibilities.join(', ')}) ${offboarding.successor ? 'pass to the successor' : 'are cleared'}`}
+                  .
+                </p>
+              )}
+
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-2">
+                  Exit Checklist ({completedItems}/{offboarding.items.length})
+                </h4>
+                <ul className="space-y-2">
+                  {offboarding.items.map((item) => (
+                    <li key={item.id} className="flex items-start gap-3">
+                      <Checkbox
+                        id={`offboarding-item-${item.id}`}
+                        checked={item.isCompleted}
+                        disabled={!canUpdate || offboarding.status === 'cancelled' || updatingItemId === item.id}
+                        onCheckedChange={() => handleToggleItem(item)}
+                        className="mt-0.5"
+                      />
+                      <div className="flex-1">
+                        <label
+                          htmlFor={`offboarding-item-${item.id}`}
+                          className={`text-sm font-medium ${item.isCompleted ? 'text-gray-500 line-through' : 'text-gray-900'}`}
+                        >
+                          {item.title}
+                        </label>
+                        <p className="text-xs text-gray-500">
+                          {OFFBOARDING_CATEGORY_LABELS[item.category] || item.category}
+                          {item.completedAt && ` · Done ${formatDate(item.completedAt)}`}
+                        </p>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Record a resignation or termination with its notice period. The exit checklist is created from the
+              organization&apos;s template.
+              {responsibilities.length > 0 && ` This employee is ${responsibilities.join(', ')}.`}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Start / Edit Offboarding Dialog */}
+      <Dialog open={!!dialogMode} onOpenChange={(open) => !open && setDialogMode(null)}>
+        <DialogContent>
+          {formData && (
+            <form onSubmit={handleSubmit}>
+              <DialogHeader>
+                <DialogTitle>{dialogMode === 'start' ? 'Start Offboarding' : 'Edit Offboarding'}</DialogTitle>
+                <DialogDescription>
+                  The exit is applied on the last working day. A last working day of today or earlier applies it right
+                  away.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-4">
+                {dialogMode === 'start' && (
+                  <div className="space-y-2">
+                    <Label>Exit Type *</Label>
+                    <Select
+                      value={formData.exitType}
+                      onValueChange={(value) => setFormData({ ...formData, exitType: value as OffboardingExitType })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select exit type" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="resignation">Resignation</SelectItem>
+                        <SelectItem value="termination">Termination</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="noticeDate">Notice Date *</Label>
+                    <Input
+                      id="noticeDate"
+                      type="date"
+                      value={formData.noticeDate}
+                      onChange={(e) => handleNoticeChange({ noticeDate: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="noticePeriodDays">Notice Period (days)</Label>
+                    <Input
+                      id="noticePeriodDays"
+                      type="number"
+                      min="0"
+                      max="365"
+                      value={formData.noticePeriodDays}
+                      onChange={(e) => handleNoticeChange({ noticePeriodDays: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="lastWorkingDay">Last Working Day *</Label>
+                    <Input
+                      id="lastWorkingDay"
+                      type="date"
+                      value={formData.lastWorkingDay}
+                      onChange={(e) => setFormData({ ...formData, lastWorkingDay: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Successor</Label>
+                  <Select
+                    value={formData.successorEmployeeId}
+                    onValueChange={(value) => setFormData({ ...formData, successorEmployeeId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select successor" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SUCCESSOR}>No successor (clear roles)</SelectItem>
+                      {employees.map((employee) => (
+                        <SelectItem key={employee.id} value={String(employee.id)}>
+                          {employee.firstName} {employee.lastName} ({employee.employeeCode})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {responsibilities.length > 0 && (
+                    <p className="text-xs text-gray-500">Takes over: {responsibilities.join(', ')}</p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="offboardingReason">Reason *</Label>
+                  <Textarea
+                    id="offboardingReason"
+                    value={formData.reason}
+                    onChange={(e) => setFormData({ ...formData, reason: e.target.value })}
+                    rows={3}
+                    required
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogMode(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {dialogMode === 'start' ? 'Start Offboarding' : 'Save Changes'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Offboarding</DialogTitle>
+            <DialogDescription>
+              The scheduled {offboarding?.exitType ?? 'exit'} on {formatDate(offboarding?.lastWorkingDay ?? null)} will
+              not be applied and the employee stays active.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelOpen(false)}>
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Offboarding
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
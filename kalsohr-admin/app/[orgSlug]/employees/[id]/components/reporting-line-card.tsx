@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { getEmployeeReportingLine, OrgChartOccupant, ReportingLine } from '@/lib/api/org/org-chart';
+
+interface ReportingLineCardProps {
+  orgSlug: string;
+  employeeId: number;
+}
+
+const SOURCE_LABELS: Record<NonNullable<ReportingLine['managerSource']>, string> = {
+  position: 'Reporting position',
+  department_head: 'Head of department',
+  branch_manager: 'Branch manager',
+};
+
+/**
+ * Reporting line of an employee: who they report to, the chain above and their direct reports
+ */
+export function ReportingLineCard({ orgSlug, employeeId }: ReportingLineCardProps) {
+  const [line, setLine] = useState<ReportingLine | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadReportingLine = async () => {
+      try {
+        setIsLoading(true);
+        setLine(await getEmployeeReportingLine(orgSlug, employeeId));
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load reporting line');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadReportingLine();
+  }, [orgSlug, employeeId]);
+
+  const personName = (person: OrgChartOccupant) => [person.firstName, person.lastName].filter(Boolean).join(' ');
+
+  const renderPeople = (people: OrgChartOccupant[]) =>
+    people.map((person, index) => (
+      <span key={person.id}>
+        {index > 0 && ', '}
+        <Link href={`/${orgSlug}/employees/${person.id}`} className="font-semibold text-gray-900 hover:underline">
+          {personName(person)}
+        </Link>
+      </span>
+    ));
+
+  return (
+    <Card className="border-0 shadow-md">
+      <CardHeader>
+        <CardTitle className="text-xl font-semibold">Reporting Line</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !line ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-x-8 gap-y-6">
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Position</p>
+              <p className="font-semibold text-gray-900">{line.position?.title || 'Not assigned'}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-500 mb-1">Reports To</p>
+              {line.managers.length > 0 ? (
+                <>
+                  <p>{renderPeople(line.managers)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {line.managerPosition?.title || SOURCE_LABELS[line.managerSource!]}
+                    {line.skippedVacantPositions.length > 0 &&
+                      ` · via vacant ${line.skippedVacantPositions.map((position) => position.title).join(', ')}`}
+                  </p>
+                </>
+              ) : (
+                <p className="font-semibold text-gray-900">-</p>
+              )}
+            </div>
+            {line.chain.length > 1 && (
+              <div className="col-span-2">
+                <p className="text-sm text-gray-500 mb-1">Chain Above</p>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {line.chain.slice(1).map((level) => (
+                    <Badge key={level.position.id} variant="outline">
+                      {level.position.title}:{' '}
+                      {level.employees.map((person) => personName(person)).join(', ')}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="col-span-2">
+              <p className="text-sm text-gray-500 mb-1">Direct Reports ({line.directReports.length})</p>
+              {line.directReports.length > 0 ? (
+                <ul className="space-y-1">
+                  {line.directReports.map((report) => (
+                    <li key={report.id} className="text-sm">
+                      {renderPeople([report])}
+                      <span className="text-gray-500"> · {report.position.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="font-semibold text-gray-900">-</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
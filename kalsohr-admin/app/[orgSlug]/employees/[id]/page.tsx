@@ -8,13 +8,6 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
 import {
   Dialog,
   DialogContent,
@@ -27,6 +20,15 @@ import { toast } from 'sonner';
 import { getEmployeeById, deleteEmployee } from '@/lib/api/org/employees';
 import { Employee, EMPLOYEE_STATUS } from '@/lib/types/employee';
 import { EditEmployeeDialog } from '../edit-employee-dialog';
+import { getEmployeeHistory } from '@/lib/api/org/audit-logs';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
+import { AuditHistory } from '@/components/ui/audit-history';
+import { DocumentVault } from './components/document-vault';
+import { CareerTimeline } from './components/career-timeline';
+import { OffboardingPanel } from './components/offboarding-panel';
+import { ReportingLineCard } from './components/reporting-line-card';
+import { OnboardingPanel } from '@/components/onboarding/onboarding-panel';
 import {
   ArrowLeft,
   Mail,
@@ -53,6 +55,7 @@ export default function EmployeeProfilePage() {
   const employeeId = parseInt(params.id as string);
 
   const [employee, setEmployee] = useState<Employee | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [employee?.profilePicture, employee?.idProof]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -61,6 +64,15 @@ export default function EmployeeProfilePage() {
   const [isExporting, setIsExporting] = useState(false);
   const [isImageModalOpen, setIsImageModalOpen] = useState(false);
 
+  const { hasPermission } = useOrgPermissions();
+  // Change history is audit information: requires approve permission
+  const canViewHistory = hasPermission('employees', 'canApprove');
+  // Sensitive field groups the role may not see come back empty from the API
+  const canViewCompensation = hasPermission('employees', 'canViewCompensation');
+  const canViewGovernmentIds = hasPermission('employees', 'canViewGovernmentIds');
+  const canViewBankDetails = hasPermission('employees', 'canViewBankDetails');
+  const canViewFamilyDetails = hasPermission('employees', 'canViewFamilyDetails');
+
   useEffect(() => {
     loadEmployee();
   }, [employeeId]);
@@ -320,7 +332,7 @@ export default function EmployeeProfilePage() {
                   className="h-32 w-32 border-4 border-white shadow-xl cursor-pointer hover:opacity-90 transition-opacity"
                   onClick={() => employee.profilePicture && setIsImageModalOpen(true)}
                 >
-                  <AvatarImage src={getImageUrl(employee.profilePicture)} alt={employee.firstName} />
+                  <AvatarImage src={getFileUrl(employee.profilePicture)} alt={employee.firstName} />
                   <AvatarFallback className="bg-gradient-to-br from-blue-500 via-blue-600 to-indigo-600 text-white text-3xl font-bold">
                     {getInitials()}
                   </AvatarFallback>
@@ -398,12 +410,14 @@ export default function EmployeeProfilePage() {
       <Card className="border-0 shadow-lg">
         <CardContent className="p-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-5 mb-6">
+            <TabsList className={`grid w-full ${canViewHistory ? 'grid-cols-7' : 'grid-cols-6'} mb-6`}>
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="employment">Employment</TabsTrigger>
+              <TabsTrigger value="career">Career</TabsTrigger>
               <TabsTrigger value="personal">Personal</TabsTrigger>
               <TabsTrigger value="documents">Documents</TabsTrigger>
-              <TabsTrigger value="family">Family</TabsTrigger>
+              {canViewFamilyDetails && <TabsTrigger value="family">Family</TabsTrigger>}
+              {canViewHistory && <TabsTrigger value="history">History</TabsTrigger>}
             </TabsList>
 
             {/* Overview Tab */}
@@ -610,7 +624,11 @@ export default function EmployeeProfilePage() {
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Salary</p>
                   <p className="font-semibold text-gray-900">
-                    {employee.salary ? `₹${employee.salary.toLocaleString('en-IN')}` : 'N/A'}
+                    {!canViewCompensation
+                      ? 'Hidden'
+                      : employee.salary
+                        ? `₹${employee.salary.toLocaleString('en-IN')}`
+                        : 'N/A'}
                   </p>
                 </div>
                 <div>
@@ -622,6 +640,24 @@ export default function EmployeeProfilePage() {
               </div>
             </CardContent>
           </Card>
+
+          <ReportingLineCard orgSlug={orgSlug} employeeId={employee.id} />
+        </TabsContent>
+
+        {/* Career Tab */}
+        <TabsContent value="career" className="space-y-6">
+          <OnboardingPanel
+            orgSlug={orgSlug}
+            subject={{ type: 'employee', id: employee.id }}
+            canStart={employee.status !== EMPLOYEE_STATUS.RESIGNED && employee.status !== EMPLOYEE_STATUS.TERMINATED}
+          />
+          <OffboardingPanel
+            orgSlug={orgSlug}
+            employeeId={employee.id}
+            hasLeft={employee.status === EMPLOYEE_STATUS.RESIGNED || employee.status === EMPLOYEE_STATUS.TERMINATED}
+            onChanged={loadEmployee}
+          />
+          <CareerTimeline orgSlug={orgSlug} employeeId={employee.id} onEmployeeChanged={loadEmployee} />
         </TabsContent>
 
         {/* Personal Tab */}
@@ -830,17 +866,17 @@ export default function EmployeeProfilePage() {
               <div className="grid grid-cols-2 gap-6">
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Aadhar Number</p>
-                  <p className="font-medium font-mono">{employee.aadharNumber || '-'}</p>
+                  <p className="font-medium font-mono">{canViewGovernmentIds ? employee.aadharNumber || '-' : 'Hidden'}</p>
                 </div>
                 <div>
                   <p className="text-sm text-gray-500 mb-1">PAN Number</p>
-                  <p className="font-medium font-mono">{employee.panNumber || '-'}</p>
+                  <p className="font-medium font-mono">{canViewGovernmentIds ? employee.panNumber || '-' : 'Hidden'}</p>
                 </div>
                 <div className="col-span-2">
                   <p className="text-sm text-gray-500 mb-1">Profile Picture</p>
                   {employee.profilePicture ? (
                     <a
-                      href={getImageUrl(employee.profilePicture)}
+                      href={getFileUrl(employee.profilePicture)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:underline"
@@ -855,7 +891,7 @@ export default function EmployeeProfilePage() {
                   <p className="text-sm text-gray-500 mb-1">ID Proof</p>
                   {employee.idProof ? (
                     <a
-                      href={employee.idProof.startsWith('http') ? employee.idProof : `http://localhost:3000${employee.idProof}`}
+                      href={getFileUrl(employee.idProof)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-blue-600 hover:underline"
@@ -869,6 +905,8 @@ export default function EmployeeProfilePage() {
               </div>
             </CardContent>
           </Card>
+
+          <DocumentVault orgSlug={orgSlug} employeeId={employee.id} />
         </TabsContent>
 
         {/* Banking Tab */}
@@ -881,15 +919,15 @@ export default function EmployeeProfilePage() {
               <div className="grid grid-cols-2 gap-6">
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Bank Account Number</p>
-                  <p className="font-medium font-mono">{employee.bankAccountNumber || '-'}</p>
+                  <p className="font-medium font-mono">{canViewBankDetails ? employee.bankAccountNumber || '-' : 'Hidden'}</p>
                 </div>
                 <div>
                   <p className="text-sm text-gray-500 mb-1">Bank IFSC Code</p>
-                  <p className="font-medium font-mono">{employee.bankIfscCode || '-'}</p>
+                  <p className="font-medium font-mono">{canViewBankDetails ? employee.bankIfscCode || '-' : 'Hidden'}</p>
                 </div>
                 <div>
                   <p className="text-sm text-gray-500 mb-1">UAN Number</p>
-                  <p className="font-medium font-mono">{employee.uanNumber || '-'}</p>
+                  <p className="font-medium font-mono">{canViewGovernmentIds ? employee.uanNumber || '-' : 'Hidden'}</p>
                 </div>
               </div>
             </CardContent>
@@ -925,6 +963,20 @@ export default function EmployeeProfilePage() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* History Tab */}
+        {canViewHistory && (
+          <TabsContent value="history" className="space-y-6 mt-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Change History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AuditHistory loadHistory={() => getEmployeeHistory(orgSlug, employeeId)} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
           </Tabs>
         </CardContent>
       </Card>
@@ -989,7 +1041,7 @@ export default function EmployeeProfilePage() {
           <div className="flex items-center justify-center p-4">
             {employee?.profilePicture ? (
               <img
-                src={getImageUrl(employee.profilePicture)}
+                src={getFileUrl(employee.profilePicture)}
                 alt={`${employee.firstName} ${employee.lastName}`}
                 className="max-w-full max-h-[70vh] object-contain rounded-lg"
               />
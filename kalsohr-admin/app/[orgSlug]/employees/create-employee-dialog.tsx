@@ -9,7 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { createEmployee, getAllEmployees } from '@/lib/api/org/employees';
+import { createEmployee, previewEmployeeCode } from '@/lib/api/org/employees';
 import { getAllDepartments } from '@/lib/api/org/departments';
 import { getAllDesignations } from '@/lib/api/org/designations';
 import { getAllBranches } from '@/lib/api/org/branches';
@@ -18,15 +18,16 @@ import { getAllOrganizationalPositions } from '@/lib/api/org/organizational-posi
 import { getAllCountries, getAllStates, getAllCities } from '@/lib/api/org/locations';
 import { getAllMaritalStatuses } from '@/lib/api/masters/marital-status';
 import { getAllReligionsForOrg } from '@/lib/api/masters/religions';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import {
   CreateEmployeeData,
+  EmployeeCodePreview,
   EMPLOYEE_STATUS,
   MARITAL_STATUS,
   BLOOD_GROUPS,
   EDUCATION_LEVELS,
   PARENT_STATUS,
 } from '@/lib/types/employee';
-import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import { ChevronLeft, ChevronRight, Plus, Trash2, Loader2, Wand2, Upload, User, Camera, Mail, Phone, Calendar, Briefcase, Home, Users, FileText, Building, DollarSign, MapPin, Heart, GraduationCap, UserCircle2 } from 'lucide-react';
 
 interface CreateEmployeeDialogProps {
@@ -69,8 +70,14 @@ const FormSection = ({ children, className = '' }: { children: React.ReactNode;
 );
 
 export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }: CreateEmployeeDialogProps) {
-  const { organization } = useOrgPermissions();
   const [currentStep, setCurrentStep] = useState(1);
+
+  // Fields of the sensitive field groups the role may not see are ignored by the API
+  const { hasPermission } = useOrgPermissions();
+  const canViewCompensation = hasPermission('employees', 'canViewCompensation');
+  const canViewGovernmentIds = hasPermission('employees', 'canViewGovernmentIds');
+  const canViewBankDetails = hasPermission('employees', 'canViewBankDetails');
+  const canViewFamilyDetails = hasPermission('employees', 'canViewFamilyDetails');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -83,6 +90,10 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
     isActive: true,
   });
 
+  // Next generated employee code (organizations with automatic codes may leave the code empty)
+  const [codePreview, setCodePreview] = useState<EmployeeCodePreview | null>(null);
+  const autoCode = !!codePreview?.autoGenerate;
+
   // Organizational position (not part of employee data, just for auto-filling dept & designation)
   const [selectedOrgPositionId, setSelectedOrgPositionId] = useState<number | undefined>(undefined);
 
@@ -128,6 +139,14 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
     }
   }, [open, orgSlug]);
 
+  // Refresh the code preview when the values the pattern may use change
+  useEffect(() => {
+    if (open) {
+      loadCodePreview();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, formData.branchId, formData.departmentId, formData.dateOfJoining]);
+
   // Load states when country changes
   useEffect(() => {
     if (formData.cityId) {
@@ -217,46 +236,35 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
     }
   };
 
+  const loadCodePreview = async () => {
+    try {
+      const preview = await previewEmployeeCode(orgSlug, {
+        branchId: formData.branchId,
+        departmentId: formData.departmentId,
+        dateOfJoining: formData.dateOfJoining,
+      });
+      setCodePreview(preview);
+    } catch (error) {
+      console.error('Failed to preview employee code:', error);
+    }
+  };
+
+  // Fill in the next code from the organization's pattern (it can still be edited)
   const generateEmployeeCode = async () => {
     try {
-      // Generate prefix from organization name initials
-      // e.g., "Bawa Medical Mart" -> "BMM"
-      const orgName = organization?.name || 'ORG';
-      const prefix = orgName
-        .split(' ')
-        .map(word => word.charAt(0).toUpperCase())
-        .join('');
-
-      // Fetch all employees to get the last employee code
-      const employeesData = await getAllEmployees(orgSlug, { page: 1, limit: 1 });
-      const employees = employeesData.employees || [];
-
-      // Find the highest sequence number from existing employee codes with this prefix
-      let nextSequence = 1;
-
-      if (employees.length > 0) {
-        // Get all employee codes that match the prefix pattern
-        const allEmployeesData = await getAllEmployees(orgSlug, { page: 1, limit: 1000 });
-        const allEmployees = allEmployeesData.employees || [];
-
-        const matchingCodes = allEmployees
-          .filter(emp => emp.employeeCode?.startsWith(prefix + '-'))
-          .map(emp => {
-            const parts = emp.employeeCode?.split('-');
-            const numPart = parts?.[parts.length - 1];
-            return parseInt(numPart || '0');
-          })
-          .filter(num => !isNaN(num));
-
-        if (matchingCodes.length > 0) {
-          nextSequence = Math.max(...matchingCodes) + 1;
-        }
+      const preview = await previewEmployeeCode(orgSlug, {
+        branchId: formData.branchId,
+        departmentId: formData.departmentId,
+        dateOfJoining: formData.dateOfJoining,
+      });
+
+      if (!preview.code) {
+        toast.error(preview.error || 'Failed to generate employee code');
+        return;
       }
 
-      // Format: PREFIX-####
-      const code = `${prefix}-${String(nextSequence).padStart(4, '0')}`;
-      setFormData({ ...formData, employeeCode: code });
-      toast.success(`Generated employee code: ${code}`);
+      setFormData({ ...formData, employeeCode: preview.code });
+      toast.success(`Generated employee code: ${preview.code}`);
     } catch (error) {
       console.error('Failed to generate employee code:', error);
       toast.error('Failed to generate employee code');
@@ -267,27 +275,12 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
     try {
       const randomNum = Math.floor(Math.random() * 1000);
 
-      // Generate employee code inline
-      const orgName = organization?.name || 'ORG';
-      const prefix = orgName
-        .split(' ')
-        .map(word => word.charAt(0).toUpperCase())
-        .join('');
-
-      const employeesData = await getAllEmployees(orgSlug, { page: 1, limit: 1000 });
-      const allEmployees = employeesData.employees || [];
-
-      const matchingCodes = allEmployees
-        .filter(emp => emp.employeeCode?.startsWith(prefix + '-'))
-        .map(emp => {
-          const parts = emp.employeeCode?.split('-');
-          const numPart = parts?.[parts.length - 1];
-          return parseInt(numPart || '0');
-        })
-        .filter(num => !isNaN(num));
-
-      const nextSequence = matchingCodes.length > 0 ? Math.max(...matchingCodes) + 1 : 1;
-      const generatedCode = `${prefix}-${String(nextSequence).padStart(4, '0')}`;
+      // Leave the code empty when it is generated on save
+      const preview = await previewEmployeeCode(orgSlug, {
+        branchId: branches[0]?.id,
+        departmentId: departments[0]?.id,
+      });
+      const generatedCode = preview.autoGenerate ? '' : preview.code || '';
 
       // Set all form data in one update
       setFormData({
@@ -347,7 +340,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
       setProfilePicturePreview(null);
       setIdProofFile(null);
 
-      toast.success(`Auto-filled with dummy data! Employee code: ${generatedCode}`);
+      toast.success(`Auto-filled with dummy data! Employee code: ${generatedCode || 'generated on save'}`);
     } catch (error) {
       console.error('Failed to fill dummy data:', error);
       toast.error('Failed to auto-fill data');
@@ -399,7 +392,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
     switch (currentStep) {
       case 1:
         // Required fields: First Name, Last Name, Employee Code, Email, Date of Birth, Date of Joining
-        if (!formData.firstName || !formData.lastName || !formData.employeeCode || !formData.email || !formData.dateOfBirth || !formData.dateOfJoining) {
+        if (!formData.firstName || !formData.lastName || (!formData.employeeCode && !autoCode) || !formData.email || !formData.dateOfBirth || !formData.dateOfJoining) {
           return false;
         }
         // Email format validation
@@ -458,7 +451,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
           toast.error('Last name is required');
           return false;
         }
-        if (!formData.employeeCode) {
+        if (!formData.employeeCode && !autoCode) {
           toast.error('Employee code is required');
           return false;
         }
@@ -558,8 +551,8 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
         siblings: siblings.length > 0 ? siblings : undefined,
       };
 
-      await createEmployee(orgSlug, data, profilePictureFile, idProofFile);
-      toast.success('Employee created successfully');
+      const employee = await createEmployee(orgSlug, data, profilePictureFile, idProofFile);
+      toast.success(`Employee ${employee.employeeCode} created successfully`);
       onOpenChange(false);
       resetForm();
       onSuccess();
@@ -778,14 +771,14 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                         <div className="space-y-2">
                           <Label htmlFor="employeeCode" className="text-sm font-semibold text-gray-700 flex items-center gap-2">
                             <Briefcase className="w-4 h-4 text-blue-600" />
-                            Employee Code <span className="text-red-500">*</span>
+                            Employee Code {!autoCode && <span className="text-red-500">*</span>}
                           </Label>
                           <div className="flex gap-2">
                             <Input
                               id="employeeCode"
                               value={formData.employeeCode}
                               onChange={(e) => setFormData({ ...formData, employeeCode: e.target.value })}
-                              placeholder="Enter employee code"
+                              placeholder={autoCode ? 'Generated when saved' : 'Enter employee code'}
                               className="h-11 border-gray-200 focus:border-blue-500 focus:ring-blue-500"
                             />
                             <Button
@@ -797,6 +790,13 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                               Generate
                             </Button>
                           </div>
+                          {autoCode && !formData.employeeCode && (
+                            <p className="text-xs text-gray-500">
+                              {codePreview?.code
+                                ? `Leave empty to assign the next code (currently ${codePreview.code}) when the employee is saved.`
+                                : `Leave empty to assign a code from the pattern ${codePreview?.pattern} when the employee is saved.`}
+                            </p>
+                          )}
                         </div>
 
                         {/* Contact Fields */}
@@ -1034,6 +1034,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="salary"
+                            disabled={!canViewCompensation}
                             type="number"
                             value={formData.salary || ''}
                             onChange={(e) => setFormData({ ...formData, salary: parseFloat(e.target.value) })}
@@ -1358,6 +1359,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="fatherName"
+                            disabled={!canViewFamilyDetails}
                             value={formData.fatherName || ''}
                             onChange={(e) => setFormData({ ...formData, fatherName: e.target.value })}
                             placeholder="Enter father's name"
@@ -1372,6 +1374,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="fatherOccupation"
+                            disabled={!canViewFamilyDetails}
                             value={formData.fatherOccupation || ''}
                             onChange={(e) => setFormData({ ...formData, fatherOccupation: e.target.value })}
                             placeholder="Enter occupation"
@@ -1386,6 +1389,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="fatherContact"
+                            disabled={!canViewFamilyDetails}
                             value={formData.fatherContact || ''}
                             onChange={(e) => setFormData({ ...formData, fatherContact: e.target.value })}
                             placeholder="10-digit phone number"
@@ -1403,7 +1407,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           value={formData.fatherStatus || ''}
                           onValueChange={(value) => setFormData({ ...formData, fatherStatus: value })}
                         >
-                          <SelectTrigger id="fatherStatus" className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
+                          <SelectTrigger id="fatherStatus" disabled={!canViewFamilyDetails} className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
@@ -1423,6 +1427,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="motherName"
+                            disabled={!canViewFamilyDetails}
                             value={formData.motherName || ''}
                             onChange={(e) => setFormData({ ...formData, motherName: e.target.value })}
                             placeholder="Enter mother's name"
@@ -1437,6 +1442,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="motherOccupation"
+                            disabled={!canViewFamilyDetails}
                             value={formData.motherOccupation || ''}
                             onChange={(e) => setFormData({ ...formData, motherOccupation: e.target.value })}
                             placeholder="Enter occupation"
@@ -1451,6 +1457,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="motherContact"
+                            disabled={!canViewFamilyDetails}
                             value={formData.motherContact || ''}
                             onChange={(e) => setFormData({ ...formData, motherContact: e.target.value })}
                             placeholder="10-digit phone number"
@@ -1468,7 +1475,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           value={formData.motherStatus || ''}
                           onValueChange={(value) => setFormData({ ...formData, motherStatus: value })}
                         >
-                          <SelectTrigger id="motherStatus" className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
+                          <SelectTrigger id="motherStatus" disabled={!canViewFamilyDetails} className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
@@ -1517,6 +1524,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                         </Label>
                         <Textarea
                           id="familyAddress"
+                          disabled={!canViewFamilyDetails}
                           value={formData.familyAddress || ''}
                           onChange={(e) => setFormData({ ...formData, familyAddress: e.target.value })}
                           placeholder="Enter family address"
@@ -1535,6 +1543,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                         variant="outline"
                         size="sm"
                         onClick={() => setShowAddSibling(true)}
+                        disabled={!canViewFamilyDetails}
                         className="text-blue-600 border-blue-200 hover:bg-blue-50"
                       >
                         <Plus className="w-4 h-4 mr-1" />
@@ -1710,6 +1719,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="aadhar"
+                            disabled={!canViewGovernmentIds}
                             value={formData.aadharNumber || ''}
                             onChange={(e) => setFormData({ ...formData, aadharNumber: e.target.value })}
                             placeholder="12-digit Aadhar number"
@@ -1725,6 +1735,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="pan"
+                            disabled={!canViewGovernmentIds}
                             value={formData.panNumber || ''}
                             onChange={(e) =>
                               setFormData({ ...formData, panNumber: e.target.value.toUpperCase() })
@@ -1782,6 +1793,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="bankAccount"
+                            disabled={!canViewBankDetails}
                             value={formData.bankAccountNumber || ''}
                             onChange={(e) => setFormData({ ...formData, bankAccountNumber: e.target.value })}
                             placeholder="Enter account number"
@@ -1796,6 +1808,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                           </Label>
                           <Input
                             id="ifsc"
+                            disabled={!canViewBankDetails}
                             value={formData.bankIfscCode || ''}
                             onChange={(e) =>
                               setFormData({ ...formData, bankIfscCode: e.target.value.toUpperCase() })
@@ -1814,6 +1827,7 @@ export function CreateEmployeeDialog({ open, onOpenChange, orgSlug, onSuccess }:
                         </Label>
                         <Input
                           id="uan"
+                          disabled={!canViewGovernmentIds}
                           value={formData.uanNumber || ''}
                           onChange={(e) => setFormData({ ...formData, uanNumber: e.target.value })}
                           placeholder="Enter UAN number"
@@ -10,6 +10,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
 import { getEmployeeById, updateEmployee } from '@/lib/api/org/employees';
+import { getSignedFileUrls, toAbsoluteFileUrl } from '@/lib/api/org/files';
 import { getAllDepartments } from '@/lib/api/org/departments';
 import { getAllDesignations } from '@/lib/api/org/designations';
 import { getAllBranches } from '@/lib/api/org/branches';
@@ -18,6 +19,7 @@ import { getAllOrganizationalPositions } from '@/lib/api/org/organizational-posi
 import { getAllCountries, getAllStates, getAllCities } from '@/lib/api/org/locations';
 import { getAllMaritalStatuses } from '@/lib/api/masters/marital-status';
 import { getAllReligionsForOrg } from '@/lib/api/masters/religions';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import {
   Employee,
   UpdateEmployeeData,
@@ -73,6 +75,13 @@ const FormSection = ({ children, className = '' }: { children: React.ReactNode;
 
 export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSuccess }: EditEmployeeDialogProps) {
   const [currentStep, setCurrentStep] = useState(1);
+
+  // Fields of the sensitive field groups the role may not see are ignored by the API
+  const { hasPermission } = useOrgPermissions();
+  const canViewCompensation = hasPermission('employees', 'canViewCompensation');
+  const canViewGovernmentIds = hasPermission('employees', 'canViewGovernmentIds');
+  const canViewBankDetails = hasPermission('employees', 'canViewBankDetails');
+  const canViewFamilyDetails = hasPermission('employees', 'canViewFamilyDetails');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(false);
 
@@ -175,29 +184,22 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
       // Fetch full employee data with siblings
       const fullEmployee = await getEmployeeById(orgSlug, employee.id);
 
-      // Set profile picture preview if exists (with full URL)
-      if (fullEmployee.profilePicture) {
-        const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-        const imageUrl = fullEmployee.profilePicture.startsWith('http')
-          ? fullEmployee.profilePicture
-          : `${baseUrl}${fullEmployee.profilePicture}`;
-        setProfilePicturePreview(imageUrl);
+      // Uploads are private, previews use signed URLs (the form still loads without them)
+      const filePaths = [fullEmployee.profilePicture, fullEmployee.idProof].filter(
+        (path): path is string => !!path
+      );
+      const { urls } = filePaths.length
+        ? await getSignedFileUrls(orgSlug, filePaths).catch(() => ({ urls: {} as Record<string, string | null> }))
+        : { urls: {} as Record<string, string | null> };
+
+      // Set profile picture preview if exists
+      if (fullEmployee.profilePicture && urls[fullEmployee.profilePicture]) {
+        setProfilePicturePreview(toAbsoluteFileUrl(urls[fullEmployee.profilePicture]!));
       }
 
       // Load ID proof preview if exists
-      if (fullEmployee.idProof) {
-        // Use hardcoded backend URL since environment variable might not be available
-        const API_URL = 'http://localhost:3000';
-        console.log('🔍 ID Proof Loading:', {
-          envApiUrl: process.env.NEXT_PUBLIC_API_URL,
-          apiUrl: API_URL,
-          idProofPath: fullEmployee.idProof,
-        });
-        const docUrl = fullEmployee.idProof.startsWith('http')
-          ? fullEmployee.idProof
-          : `${API_URL}${fullEmployee.idProof}`;
-        console.log('✅ ID Proof URL constructed:', docUrl);
-        setIdProofPreview(docUrl);
+      if (fullEmployee.idProof && urls[fullEmployee.idProof]) {
+        setIdProofPreview(toAbsoluteFileUrl(urls[fullEmployee.idProof]!));
       }
 
       // Populate form data (convert null to undefined for type compatibility)
@@ -988,6 +990,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="salary"
+                          disabled={!canViewCompensation}
                           type="number"
                           value={formData.salary || ''}
                           onChange={(e) => setFormData({ ...formData, salary: parseFloat(e.target.value) })}
@@ -1315,6 +1318,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="fatherName"
+                          disabled={!canViewFamilyDetails}
                           value={formData.fatherName || ''}
                           onChange={(e) => setFormData({ ...formData, fatherName: e.target.value })}
                           placeholder="Enter father's name"
@@ -1329,6 +1333,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="fatherOccupation"
+                          disabled={!canViewFamilyDetails}
                           value={formData.fatherOccupation || ''}
                           onChange={(e) => setFormData({ ...formData, fatherOccupation: e.target.value })}
                           placeholder="Enter occupation"
@@ -1345,6 +1350,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="fatherContact"
+                          disabled={!canViewFamilyDetails}
                           value={formData.fatherContact || ''}
                           onChange={(e) => setFormData({ ...formData, fatherContact: e.target.value })}
                           placeholder="10-digit phone number"
@@ -1361,7 +1367,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                           value={formData.fatherStatus || ''}
                           onValueChange={(value) => setFormData({ ...formData, fatherStatus: value })}
                         >
-                          <SelectTrigger id="fatherStatus" className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
+                          <SelectTrigger id="fatherStatus" disabled={!canViewFamilyDetails} className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
@@ -1382,6 +1388,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="motherName"
+                          disabled={!canViewFamilyDetails}
                           value={formData.motherName || ''}
                           onChange={(e) => setFormData({ ...formData, motherName: e.target.value })}
                           placeholder="Enter mother's name"
@@ -1396,6 +1403,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="motherOccupation"
+                          disabled={!canViewFamilyDetails}
                           value={formData.motherOccupation || ''}
                           onChange={(e) => setFormData({ ...formData, motherOccupation: e.target.value })}
                           placeholder="Enter occupation"
@@ -1412,6 +1420,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="motherContact"
+                          disabled={!canViewFamilyDetails}
                           value={formData.motherContact || ''}
                           onChange={(e) => setFormData({ ...formData, motherContact: e.target.value })}
                           placeholder="10-digit phone number"
@@ -1428,7 +1437,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                           value={formData.motherStatus || ''}
                           onValueChange={(value) => setFormData({ ...formData, motherStatus: value })}
                         >
-                          <SelectTrigger id="motherStatus" className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
+                          <SelectTrigger id="motherStatus" disabled={!canViewFamilyDetails} className="h-11 w-full border-gray-200 focus:border-blue-500 focus:ring-blue-500">
                             <SelectValue placeholder="Select status" />
                           </SelectTrigger>
                           <SelectContent>
@@ -1478,6 +1487,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                       </Label>
                       <Textarea
                         id="familyAddress"
+                        disabled={!canViewFamilyDetails}
                         value={formData.familyAddress || ''}
                         onChange={(e) => setFormData({ ...formData, familyAddress: e.target.value })}
                         placeholder="Enter family address"
@@ -1496,6 +1506,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                       variant="outline"
                       size="sm"
                       onClick={() => setShowAddSibling(true)}
+                      disabled={!canViewFamilyDetails}
                       className="text-blue-600 border-blue-200 hover:bg-blue-50 hover:text-blue-700"
                     >
                       <Plus className="w-4 h-4 mr-1" />
@@ -1797,6 +1808,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="aadhar"
+                          disabled={!canViewGovernmentIds}
                           value={formData.aadharNumber || ''}
                           onChange={(e) => setFormData({ ...formData, aadharNumber: e.target.value })}
                           placeholder="12-digit Aadhar number"
@@ -1812,6 +1824,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="pan"
+                          disabled={!canViewGovernmentIds}
                           value={formData.panNumber || ''}
                           onChange={(e) =>
                             setFormData({ ...formData, panNumber: e.target.value.toUpperCase() })
@@ -1851,6 +1864,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="bankAccount"
+                          disabled={!canViewBankDetails}
                           value={formData.bankAccountNumber || ''}
                           onChange={(e) => setFormData({ ...formData, bankAccountNumber: e.target.value })}
                           placeholder="Enter account number"
@@ -1865,6 +1879,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                         </Label>
                         <Input
                           id="ifsc"
+                          disabled={!canViewBankDetails}
                           value={formData.bankIfscCode || ''}
                           onChange={(e) =>
                             setFormData({ ...formData, bankIfscCode: e.target.value.toUpperCase() })
@@ -1883,6 +1898,7 @@ export function EditEmployeeDialog({ open, onOpenChange, orgSlug, employee, onSu
                       </Label>
                       <Input
                         id="uan"
+                        disabled={!canViewGovernmentIds}
                         value={formData.uanNumber || ''}
                         onChange={(e) => setFormData({ ...formData, uanNumber: e.target.value })}
                         placeholder="Enter UAN number"
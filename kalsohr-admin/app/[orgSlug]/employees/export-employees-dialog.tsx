@@ -0,0 +1,235 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { Download, FileSpreadsheet, FileText, Loader2, Lock, Sheet } from 'lucide-react';
+import { exportEmployees, getEmployeeExportColumns, downloadEmployeesCSV } from '@/lib/api/org/employees';
+import { EmployeeExportColumns, EmployeeExportFormat, EmployeeFieldGroup, EmployeeFilters } from '@/lib/types/employee';
+
+// Keep in sync with EMPLOYEE_EXPORT.MAX_PDF_COLUMNS in the API
+const MAX_PDF_COLUMNS = 10;
+
+const FIELD_GROUP_LABELS: Record<EmployeeFieldGroup, string> = {
+  compensation: 'Compensation',
+  governmentIds: 'Government IDs',
+  bankDetails: 'Bank details',
+  familyDetails: 'Family details',
+};
+
+const FORMATS: { value: EmployeeExportFormat; label: string; icon: typeof Sheet }[] = [
+  { value: 'csv', label: 'CSV', icon: FileText },
+  { value: 'xlsx', label: 'Excel', icon: FileSpreadsheet },
+  { value: 'pdf', label: 'PDF Roster', icon: Sheet },
+];
+
+interface ExportEmployeesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgSlug: string;
+  // Current list filters, or employeeIds when exporting a selection
+  filters: EmployeeFilters;
+}
+
+export function ExportEmployeesDialog({ open, onOpenChange, orgSlug, filters }: ExportEmployeesDialogProps) {
+  const [available, setAvailable] = useState<EmployeeExportColumns | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [format, setFormat] = useState<EmployeeExportFormat>('csv');
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  useEffect(() => {
+    if (open && !available) {
+      loadColumns();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const loadColumns = async () => {
+    try {
+      setLoading(true);
+      const data = await getEmployeeExportColumns(orgSlug);
+      setAvailable(data);
+      setSelected(data.defaultColumns);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load export columns');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    setSelected((prev) => (checked ? [...prev, key] : prev.filter((k) => k !== key)));
+  };
+
+  const toggleGroup = (keys: string[], checked: boolean) => {
+    setSelected((prev) => {
+      const rest = prev.filter((k) => !keys.includes(k));
+      return checked ? [...rest, ...keys] : rest;
+    });
+  };
+
+  const handleExport = async () => {
+    if (!available) return;
+
+    try {
+      setExporting(true);
+      // Export in the order the columns are listed, not the order they were ticked
+      const columns = available.columns.filter((c) => selected.includes(c.key)).map((c) => c.key);
+      const blob = await exportEmployees(orgSlug, filters, { format, columns });
+      const filename = `employees_${orgSlug}_${new Date().toISOString().split('T')[0]}.${format}`;
+      downloadEmployeesCSV(blob, filename);
+      toast.success('Employees exported successfully');
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to export employees');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const groups = available
+    ? available.columns.reduce<Record<string, EmployeeExportColumns['columns']>>((acc, column) => {
+        (acc[column.group] = acc[column.group] || []).push(column);
+        return acc;
+      }, {})
+    : {};
+  const selectionCount = filters.employeeIds?.length || 0;
+  const tooManyForPdf = format === 'pdf' && selected.length > MAX_PDF_COLUMNS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export Employees</DialogTitle>
+          <DialogDescription>
+            {selectionCount > 0
+              ? `Export the ${selectionCount} selected employee(s).`
+              : 'Export all employees matching the current search and filters.'}{' '}
+            Choose a format and the columns to include.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !available ? (
+          <div className="py-12 flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            <RadioGroup
+              value={format}
+              onValueChange={(value) => setFormat(value as EmployeeExportFormat)}
+              className="grid grid-cols-3 gap-3"
+            >
+              {FORMATS.map(({ value, label, icon: Icon }) => (
+                <div key={value}>
+                  <RadioGroupItem value={value} id={`export-${value}`} className="peer sr-only" />
+                  <Label
+                    htmlFor={`export-${value}`}
+                    className="flex items-center justify-center gap-2 rounded-md border-2 border-muted p-3 hover:bg-accent cursor-pointer peer-data-[state=checked]:border-blue-600 peer-data-[state=checked]:bg-blue-50"
+                  >
+                    <Icon className="h-4 w-4" />
+                    {label}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="space-y-4">
+              {Object.entries(groups).map(([group, columns]) => {
+                const allowedKeys = columns.filter((c) => c.allowed).map((c) => c.key);
+                const allSelected = allowedKeys.length > 0 && allowedKeys.every((k) => selected.includes(k));
+
+                return (
+                  <div key={group} className="space-y-2">
+                    <div className="flex items-center justify-between border-b pb-1">
+                      <h4 className="text-sm font-semibold text-gray-900">{group}</h4>
+                      {allowedKeys.length > 0 && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 text-xs"
+                          onClick={() => toggleGroup(allowedKeys, !allSelected)}
+                        >
+                          {allSelected ? 'Clear' : 'Select all'}
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {columns.map((column) => (
+                        <div key={column.key} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`column-${column.key}`}
+                            checked={selected.includes(column.key)}
+                            disabled={!column.allowed}
+                            onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                          />
+                          <Label
+                            htmlFor={`column-${column.key}`}
+                            className={`text-sm font-normal ${column.allowed ? '' : 'text-gray-400'}`}
+                          >
+                            {column.header}
+                          </Label>
+                          {column.fieldGroup && (
+                            <span
+                              title={
+                                column.allowed
+                                  ? `${FIELD_GROUP_LABELS[column.fieldGroup]} (sensitive data)`
+                                  : `Requires the ${FIELD_GROUP_LABELS[column.fieldGroup].toLowerCase()} permission`
+                              }
+                            >
+                              <Lock className="h-3 w-3 text-amber-600" />
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {available.hiddenFieldGroups.length > 0 && (
+              <p className="text-xs text-gray-500 flex items-center gap-1">
+                <Lock className="h-3 w-3" />
+                Your role cannot export{' '}
+                {available.hiddenFieldGroups.map((group) => FIELD_GROUP_LABELS[group].toLowerCase()).join(', ')}.
+              </p>
+            )}
+            {tooManyForPdf && (
+              <p className="text-xs text-red-600">
+                A PDF roster can have at most {MAX_PDF_COLUMNS} columns. Deselect some columns or use CSV/Excel.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleExport}
+            disabled={!available || selected.length === 0 || tooManyForPdf || exporting}
+          >
+            {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+            Export {selected.length} Column(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, CheckCircle2, Download, Loader2, Upload } from 'lucide-react';
+import { importEmployees, getEmployeeImportTemplate, downloadEmployeesCSV } from '@/lib/api/org/employees';
+import { EmployeeImportResult } from '@/lib/types/employee';
+
+interface ImportEmployeesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orgSlug: string;
+  onSuccess: () => void;
+}
+
+export function ImportEmployeesDialog({ open, onOpenChange, orgSlug, onSuccess }: ImportEmployeesDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<EmployeeImportResult | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) {
+      setFile(null);
+      setResult(null);
+    }
+    onOpenChange(value);
+  };
+
+  const handleDownloadTemplate = async (format: 'csv' | 'xlsx') => {
+    try {
+      const blob = await getEmployeeImportTemplate(orgSlug, format);
+      downloadEmployeesCSV(blob, `employee_import_template.${format}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to download template');
+    }
+  };
+
+  // Dry run: validate every row without importing anything
+  const handleValidate = async () => {
+    if (!file) {
+      toast.error('Please choose a CSV or XLSX file');
+      return;
+    }
+
+    try {
+      setIsValidating(true);
+      const validation = await importEmployees(orgSlug, file, true);
+      setResult(validation);
+
+      if (validation.summary.invalidRows > 0) {
+        toast.error(validation.message);
+      } else {
+        toast.success(validation.message);
+      }
+    } catch (error) {
+      setResult(null);
+      toast.error(error instanceof Error ? error.message : 'Failed to validate file');
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const imported = await importEmployees(orgSlug, file, false);
+
+      if (!imported.imported) {
+        // The data changed since validation (e.g. a code was taken meanwhile)
+        setResult(imported);
+        toast.error(imported.message);
+        return;
+      }
+
+      toast.success(imported.message);
+      onSuccess();
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import employees');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  // Rows with errors first, in file order
+  const rows = result
+    ? [...result.rows].sort((a, b) => Number(b.errors.length > 0) - Number(a.errors.length > 0) || a.row - b.row)
+    : [];
+  const canImport = !!result && result.summary.invalidRows === 0 && result.summary.totalRows > 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Employees</DialogTitle>
+          <DialogDescription>
+            Upload a CSV or Excel file with one employee per row. Department, designation, branch, employment type,
+            city and other master data are matched by name. The file is validated first, and employees are only
+            imported when every row is valid.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Download template:</span>
+            <Button type="button" variant="outline" size="sm" onClick={() => handleDownloadTemplate('csv')}>
+              <Download className="h-4 w-4 mr-1" />
+              CSV
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => handleDownloadTemplate('xlsx')}>
+              <Download className="h-4 w-4 mr-1" />
+              Excel
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="importFile">File *</Label>
+            <Input
+              id="importFile"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={(e) => {
+                setFile(e.target.files?.[0] || null);
+                setResult(null);
+              }}
+            />
+            <p className="text-xs text-gray-500">
+              CSV or XLSX up to 5MB and 1000 rows. Dates as YYYY-MM-DD or DD/MM/YYYY.
+            </p>
+          </div>
+
+          {result && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="outline">{result.summary.totalRows} row(s)</Badge>
+                <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+                  {result.summary.validRows} valid
+                </Badge>
+                {result.summary.invalidRows > 0 && (
+                  <Badge className="bg-red-100 text-red-700 hover:bg-red-100">
+                    {result.summary.invalidRows} with errors
+                  </Badge>
+                )}
+                {result.employeeLimit && (
+                  <span className="text-gray-500">
+                    Plan limit: {result.employeeLimit.current}/{result.employeeLimit.max} active employees
+                  </span>
+                )}
+              </div>
+
+              {result.columns.ignored.length > 0 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Ignored columns: {result.columns.ignored.join(', ')}
+                </p>
+              )}
+
+              {result.columns.hidden.length > 0 && (
+                <p className="text-xs text-amber-700 flex items-center gap-1">
+                  <AlertTriangle className="h-3 w-3" />
+                  Not imported (your role cannot see these fields): {result.columns.hidden.join(', ')}
+                </p>
+              )}
+
+              <div className="max-h-72 overflow-y-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Row</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.row}>
+                        <TableCell className="text-gray-500">{row.row}</TableCell>
+                        <TableCell>
+                          <div className="font-medium">{row.name || '—'}</div>
+                          <div className="text-xs text-gray-500">{row.employeeCode || (row.errors.length > 0 ? 'No code' : 'Code generated on import')}</div>
+                        </TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <ul className="text-xs text-red-600 list-disc pl-4 space-y-0.5">
+                              {row.errors.map((error) => (
+                                <li key={error}>{error}</li>
+                              ))}
+                            </ul>
+                          ) : (
+                            <span className="text-xs text-green-700 flex items-center gap-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Ready to import
+                            </span>
+                          )}
+                          {row.hiddenColumns.length > 0 && (
+                            <div className="text-xs text-amber-700 mt-0.5">
+                              Not imported: {row.hiddenColumns.join(', ')}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {canImport ? (
+            <Button type="button" onClick={handleImport} disabled={isImporting}>
+              {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+              Import {result.summary.totalRows} Employee(s)
+            </Button>
+          ) : (
+            <Button type="button" onClick={handleValidate} disabled={!file || isValidating}>
+              {isValidating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Validate File
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
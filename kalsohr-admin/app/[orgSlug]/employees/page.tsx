@@ -47,27 +47,24 @@ import {
   X,
   CheckSquare,
   Square,
+  Upload,
 } from 'lucide-react';
 import { toast } from 'sonner';
-import { getAllEmployees, deleteEmployee, exportEmployeesCSV, downloadEmployeesCSV, bulkUpdateEmployeeStatus } from '@/lib/api/org/employees';
+import { getAllEmployees, deleteEmployee, bulkUpdateEmployeeStatus } from '@/lib/api/org/employees';
 import { getAllDepartments } from '@/lib/api/org/departments';
 import { getAllDesignations } from '@/lib/api/org/designations';
 import { getAllBranches } from '@/lib/api/org/branches';
 import { getAllEmploymentTypes } from '@/lib/api/org/employment-types';
 import { Employee, EmployeeFilters, EMPLOYEE_STATUS } from '@/lib/types/employee';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { AuditHoverIcon } from '@/components/ui/audit-hover-card';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
 import { CreateEmployeeDialog } from './create-employee-dialog';
 import { EditEmployeeDialog } from './edit-employee-dialog';
+import { ImportEmployeesDialog } from './import-employees-dialog';
+import { ExportEmployeesDialog } from './export-employees-dialog';
 
 export default function EmployeesPage() {
   const params = useParams();
@@ -85,8 +82,10 @@ export default function EmployeesPage() {
 
   // State
   const [employees, setEmployees] = useState<Employee[]>([]);
+
+  // Signed URLs for employee photos
+  const { getFileUrl } = useSignedFileUrls(orgSlug, employees.map((employee) => employee.profilePicture));
   const [loading, setLoading] = useState(true);
-  const [exporting, setExporting] = useState(false);
   const [searchInput, setSearchInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
   const [filters, setFilters] = useState<EmployeeFilters>({
@@ -108,6 +107,8 @@ export default function EmployeesPage() {
 
   // Dialogs
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [exportFilters, setExportFilters] = useState<EmployeeFilters | null>(null);
   const [editingEmployee, setEditingEmployee] = useState<Employee | null>(null);
   const [deletingEmployee, setDeletingEmployee] = useState<Employee | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
@@ -215,27 +216,14 @@ export default function EmployeesPage() {
     }
   };
 
-  const handleExportCSV = async () => {
+  const handleExport = () => {
     if (!canExport) {
       toast.error('You do not have permission to export employees');
       return;
     }
 
-    try {
-      setExporting(true);
-      const combinedFilters: EmployeeFilters = {
-        ...filters,
-        search: searchQuery || undefined,
-      };
-      const blob = await exportEmployeesCSV(orgSlug, combinedFilters);
-      const filename = `employees_${orgSlug}_${new Date().toISOString().split('T')[0]}.csv`;
-      downloadEmployeesCSV(blob, filename);
-      toast.success('Employees exported successfully');
-    } catch (error) {
-      toast.error(error instanceof Error ? error.message : 'Failed to export employees');
-    } finally {
-      setExporting(false);
-    }
+    // Exports everything matching the current search and filters (page and limit are not sent)
+    setExportFilters({ ...filters, search: searchQuery || undefined });
   };
 
   const getStatusBadge = (status: string) => {
@@ -356,13 +344,22 @@ export default function EmployeesPage() {
         <div className="flex gap-2">
           {canExport && (
             <Button
-              onClick={handleExportCSV}
+              onClick={handleExport}
               variant="outline"
-              disabled={exporting}
               className="border-green-200 hover:bg-green-50"
             >
               <Download className="w-4 h-4 mr-2" />
-              {exporting ? 'Exporting...' : 'Export CSV'}
+              Export
+            </Button>
+          )}
+          {canWrite && (
+            <Button
+              onClick={() => setIsImportDialogOpen(true)}
+              variant="outline"
+              className="border-blue-200 hover:bg-blue-50"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
             </Button>
           )}
           {canWrite && (
@@ -677,17 +674,7 @@ export default function EmployeesPage() {
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={async () => {
-                            try {
-                              await exportEmployeesCSV(orgSlug, {
-                                ...filters,
-                                employeeIds: selectedEmployees,
-                              });
-                              toast.success(`Exported ${selectedEmployees.length} employee(s)`);
-                            } catch (error) {
-                              toast.error('Failed to export employees');
-                            }
-                          }}
+                          onClick={() => setExportFilters({ employeeIds: selectedEmployees })}
                           className="bg-white"
                         >
                           <Download className="w-4 h-4 mr-2" />
@@ -791,7 +778,7 @@ export default function EmployeesPage() {
                           <TableCell>
                             <div className="flex items-center gap-3">
                               <Avatar className="h-10 w-10">
-                                <AvatarImage src={getImageUrl(employee.profilePicture)} alt={employee.firstName} />
+                                <AvatarImage src={getFileUrl(employee.profilePicture)} alt={employee.firstName} />
                                 <AvatarFallback className="bg-gradient-to-br from-blue-600 to-blue-700 text-white font-semibold text-sm">
                                   {getInitials(employee)}
                                 </AvatarFallback>
@@ -989,6 +976,23 @@ export default function EmployeesPage() {
         onSuccess={() => setRefreshTrigger((prev) => prev + 1)}
       />
 
+      {exportFilters && (
+        <ExportEmployeesDialog
+          open={!!exportFilters}
+          onOpenChange={(open) => !open && setExportFilters(null)}
+          orgSlug={orgSlug}
+          filters={exportFilters}
+        />
+      )}
+
+      {/* Import Employees Dialog */}
+      <ImportEmployeesDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        orgSlug={orgSlug}
+        onSuccess={() => setRefreshTrigger((prev) => prev + 1)}
+      />
+
       {/* Edit Employee Dialog */}
       <EditEmployeeDialog
         open={!!editingEmployee}
@@ -0,0 +1,361 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLoader } from '@/components/ui/page-loader';
+import { toast } from 'sonner';
+import { ClipboardList, Loader2, Plus } from 'lucide-react';
+import {
+  getHeadcountPlan,
+  raiseRequisition,
+  HeadcountGroupBy,
+  HeadcountPlan,
+  PositionSeats,
+  RaiseRequisitionData,
+} from '@/lib/api/org/headcount';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+export default function HeadcountPlanPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('employees', false);
+  const { hasPermission } = useOrgPermissions();
+  const canRaise = hasPermission('master_data', 'canWrite');
+
+  const [plan, setPlan] = useState<HeadcountPlan | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [groupBy, setGroupBy] = useState<HeadcountGroupBy>('department');
+  const [includeInactive, setIncludeInactive] = useState(false);
+
+  const [raisingPosition, setRaisingPosition] = useState<PositionSeats | null>(null);
+  const [requisition, setRequisition] = useState<RaiseRequisitionData>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadPlan = async () => {
+    try {
+      setIsLoading(true);
+      setPlan(await getHeadcountPlan(orgSlug, groupBy, includeInactive));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load headcount plan');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      loadPlan();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasAccess, permissionLoading, orgSlug, groupBy, includeInactive]);
+
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  if (isLoading && !plan) {
+    return <PageLoader message="Loading headcount plan..." />;
+  }
+
+  const openRaiseDialog = (position: PositionSeats) => {
+    setRaisingPosition(position);
+    setRequisition({ vacancies: position.uncovered, priority: 'Medium' });
+  };
+
+  const handleRaise = async () => {
+    if (!raisingPosition) return;
+
+    setIsSubmitting(true);
+    try {
+      const jobPosition = await raiseRequisition(orgSlug, raisingPosition.id, requisition);
+      toast.success(`Job position "${jobPosition.title}" raised for ${jobPosition.vacancies} seat(s)`);
+      setRaisingPosition(null);
+      loadPlan();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to raise job position');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const totals = plan?.totals;
+
+  return (
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <ClipboardList className="w-8 h-8 text-blue-600" />
+            Headcount Plan
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Planned seats of the organizational positions, the employees filling them and the open seats in recruitment
+          </p>
+        </div>
+
+        {/* Summary */}
+        {totals && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Planned seats', value: totals.planned },
+              { label: 'Filled', value: totals.filled },
+              { label: 'Open', value: totals.open },
+              { label: 'In recruitment', value: totals.inRecruitment },
+              { label: 'Without a job position', value: totals.uncovered },
+            ].map((item) => (
+              <Card key={item.label}>
+                <CardContent className="pt-6">
+                  <p className="text-2xl font-bold">{item.value}</p>
+                  <p className="text-sm text-gray-500">{item.label}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as HeadcountGroupBy)}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="department">By department</SelectItem>
+              <SelectItem value="branch">By branch</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2">
+            <Switch id="includeInactive" checked={includeInactive} onCheckedChange={setIncludeInactive} />
+            <Label htmlFor="includeInactive">Inactive positions</Label>
+          </div>
+          {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+        </div>
+
+        {/* Groups */}
+        {!plan || plan.groups.length === 0 ? (
+          <Card>
+            <CardContent className="py-12">
+              <p className="text-gray-500 text-center">
+                No organizational positions yet. Plan seats by adding positions with a head count under Masters.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          plan.groups.map((group) => (
+            <Card key={group.id ?? 'none'}>
+              <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <CardTitle className="text-lg">{group.name}</CardTitle>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge variant="outline">
+                      {group.filled}/{group.planned} filled
+                    </Badge>
+                    {group.open > 0 && <Badge className="bg-amber-100 text-amber-800">{group.open} open</Badge>}
+                    {group.inRecruitment > 0 && (
+                      <Badge className="bg-blue-100 text-blue-800">{group.inRecruitment} in recruitment</Badge>
+                    )}
+                    {group.overfilled > 0 && (
+                      <Badge className="bg-red-100 text-red-800">{group.overfilled} over plan</Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="h-2 w-full overflow-hidden rounded-full bg-gray-100">
+                  <div
+                    className="h-full bg-green-500"
+                    style={{ width: `${group.planned > 0 ? (group.filled / group.planned) * 100 : 0}%` }}
+                  />
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-gray-50">
+                      <TableHead className="font-semibold">Position</TableHead>
+                      <TableHead className="font-semibold">
+                        {groupBy === 'department' ? 'Branch' : 'Department'}
+                      </TableHead>
+                      <TableHead className="font-semibold text-right">Planned</TableHead>
+                      <TableHead className="font-semibold text-right">Filled</TableHead>
+                      <TableHead className="font-semibold text-right">Open</TableHead>
+                      <TableHead className="font-semibold">In Recruitment</TableHead>
+                      <TableHead className="font-semibold text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {group.positions.map((position) => (
+                      <TableRow key={position.id}>
+                        <TableCell>
+                          <p className="font-medium">{position.title}</p>
+                          <p className="text-xs text-gray-500">
+                            {position.designation.name}
+                            {!position.isActive && ' · Inactive'}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {groupBy === 'department' ? position.branch?.name || '-' : position.department.name}
+                        </TableCell>
+                        <TableCell className="text-right">{position.planned}</TableCell>
+                        <TableCell className="text-right">
+                          {position.filled}
+                          {position.overfilled > 0 && (
+                            <span className="text-xs text-red-600"> +{position.overfilled}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{position.open}</TableCell>
+                        <TableCell>
+                          {position.requisitions.length === 0 ? (
+                            <span className="text-gray-400 text-sm">-</span>
+                          ) : (
+                            <div className="space-y-1">
+                              {position.requisitions.map((req) => (
+                                <Link
+                                  key={req.id}
+                                  href={`/${orgSlug}/masters/job-positions`}
+                                  className="block text-sm text-blue-600 hover:underline"
+                                >
+                                  {req.hired}/{req.vacancies} hired · {req.status}
+                                </Link>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {position.uncovered > 0 && position.isActive && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => openRaiseDialog(position)}
+                              disabled={!canRaise}
+                            >
+                              <Plus className="w-3 h-3 mr-1" />
+                              Raise Job Position
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      {/* Raise Job Position Dialog */}
+      <Dialog open={!!raisingPosition} onOpenChange={(open) => !open && setRaisingPosition(null)}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Raise Job Position</DialogTitle>
+            <DialogDescription>
+              Open a job position for {raisingPosition?.title}. Hiring a candidate through it places the new
+              employee in this position.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="vacancies">Vacancies *</Label>
+                <Input
+                  id="vacancies"
+                  type="number"
+                  min={1}
+                  max={raisingPosition?.uncovered}
+                  value={requisition.vacancies ?? ''}
+                  onChange={(e) => setRequisition({ ...requisition, vacancies: parseInt(e.target.value) || undefined })}
+                />
+                <p className="text-xs text-gray-500">
+                  {raisingPosition?.uncovered} open seat(s) without a job position
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={requisition.priority}
+                  onValueChange={(value) =>
+                    setRequisition({ ...requisition, priority: value as RaiseRequisitionData['priority'] })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="High">High</SelectItem>
+                    <SelectItem value="Medium">Medium</SelectItem>
+                    <SelectItem value="Low">Low</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="closingDate">Closing Date</Label>
+              <Input
+                id="closingDate"
+                type="date"
+                value={requisition.closingDate ?? ''}
+                onChange={(e) => setRequisition({ ...requisition, closingDate: e.target.value || undefined })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                rows={3}
+                value={requisition.description ?? ''}
+                onChange={(e) => setRequisition({ ...requisition, description: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRaisingPosition(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleRaise}
+              disabled={isSubmitting || !requisition.vacancies}
+              className="bg-gradient-to-r from-blue-600 to-indigo-600"
+            >
+              {isSubmitting ? 'Raising...' : 'Raise Job Position'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -398,6 +398,9 @@ export default function JobPositionsPage() {
                               {item.description && (
                                 <p className="text-xs text-gray-500 line-clamp-1">{item.description}</p>
                               )}
+                              {item.organizationalPosition && (
+                                <p className="text-xs text-blue-600">Fills seat: {item.organizationalPosition.title}</p>
+                              )}
                             </div>
                           </div>
                         </TableCell>
@@ -65,6 +65,11 @@ export default function LeaveTypesPage() {
     isPaid: true,
     requiresApproval: true,
     maxConsecutiveDays: undefined,
+    isProrated: true,
+    carryForwardEnabled: false,
+    maxCarryForwardDays: undefined,
+    encashmentEnabled: false,
+    maxEncashmentDays: undefined,
     isActive: true,
   });
 
@@ -111,6 +116,11 @@ export default function LeaveTypesPage() {
         isPaid: item.isPaid,
         requiresApproval: item.requiresApproval,
         maxConsecutiveDays: item.maxConsecutiveDays ?? undefined,
+        isProrated: item.isProrated,
+        carryForwardEnabled: item.carryForwardEnabled,
+        maxCarryForwardDays: item.maxCarryForwardDays ?? undefined,
+        encashmentEnabled: item.encashmentEnabled,
+        maxEncashmentDays: item.maxEncashmentDays ?? undefined,
         isActive: item.isActive,
       });
     } else {
@@ -123,6 +133,11 @@ export default function LeaveTypesPage() {
         isPaid: true,
         requiresApproval: true,
         maxConsecutiveDays: undefined,
+        isProrated: true,
+        carryForwardEnabled: false,
+        maxCarryForwardDays: undefined,
+        encashmentEnabled: false,
+        maxEncashmentDays: undefined,
         isActive: true,
       });
     }
@@ -140,6 +155,11 @@ export default function LeaveTypesPage() {
       isPaid: true,
       requiresApproval: true,
       maxConsecutiveDays: undefined,
+      isProrated: true,
+      carryForwardEnabled: false,
+      maxCarryForwardDays: undefined,
+      encashmentEnabled: false,
+      maxEncashmentDays: undefined,
       isActive: true,
     });
   };
@@ -150,7 +170,12 @@ export default function LeaveTypesPage() {
 
     try {
       if (editingItem) {
-        await updateLeaveType(orgSlug, editingItem.id, formData);
+        await updateLeaveType(orgSlug, editingItem.id, {
+          ...formData,
+          // Send null so a cleared cap is removed rather than left unchanged
+          maxCarryForwardDays: formData.maxCarryForwardDays ?? null,
+          maxEncashmentDays: formData.maxEncashmentDays ?? null,
+        });
         toast.success('Leave type updated successfully');
       } else {
         await createLeaveType(orgSlug, formData);
@@ -505,6 +530,72 @@ export default function LeaveTypesPage() {
                   </div>
                 </div>
               </div>
+
+              <div className="space-y-4 rounded-lg border p-4">
+                <div>
+                  <p className="text-sm font-medium">Year-Opening Allocation</p>
+                  <p className="text-xs text-gray-500">
+                    Applied when balances are allocated for a new year
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="isProrated" className="text-sm">
+                    Prorate for mid-year joiners
+                  </Label>
+                  <Switch
+                    id="isProrated"
+                    checked={formData.isProrated}
+                    onCheckedChange={(checked) => setFormData({ ...formData, isProrated: checked })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="carryForwardEnabled" className="text-sm">
+                        Carry Forward
+                      </Label>
+                      <Switch
+                        id="carryForwardEnabled"
+                        checked={formData.carryForwardEnabled}
+                        onCheckedChange={(checked) => setFormData({ ...formData, carryForwardEnabled: checked })}
+                      />
+                    </div>
+                    <Input
+                      id="maxCarryForwardDays"
+                      type="number"
+                      min="0"
+                      value={formData.maxCarryForwardDays ?? ''}
+                      onChange={(e) => setFormData({ ...formData, maxCarryForwardDays: e.target.value ? parseInt(e.target.value) : undefined })}
+                      placeholder="Max days (blank = no cap)"
+                      disabled={!formData.carryForwardEnabled}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="encashmentEnabled" className="text-sm">
+                        Encashment
+                      </Label>
+                      <Switch
+                        id="encashmentEnabled"
+                        checked={formData.encashmentEnabled}
+                        onCheckedChange={(checked) => setFormData({ ...formData, encashmentEnabled: checked })}
+                      />
+                    </div>
+                    <Input
+                      id="maxEncashmentDays"
+                      type="number"
+                      min="0"
+                      value={formData.maxEncashmentDays ?? ''}
+                      onChange={(e) => setFormData({ ...formData, maxEncashmentDays: e.target.value ? parseInt(e.target.value) : undefined })}
+                      placeholder="Max days (blank = no cap)"
+                      disabled={!formData.encashmentEnabled}
+                    />
+                  </div>
+                </div>
+              </div>
             </div>
 
             <DialogFooter>
@@ -0,0 +1,253 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { AlertTriangle, ArrowRight, Loader2 } from 'lucide-react';
+import {
+  moveOrganizationalPosition,
+  previewMoveOrganizationalPosition,
+  OrganizationalPosition,
+  PositionMoveMode,
+  RestructurePreview,
+} from '@/lib/api/org/organizational-positions';
+import { OrgChartOccupant } from '@/lib/api/org/org-chart';
+
+interface MovePositionDialogProps {
+  orgSlug: string;
+  position: OrganizationalPosition | null;
+  positions: OrganizationalPosition[];
+  onOpenChange: (open: boolean) => void;
+  onMoved: () => void;
+}
+
+const TOP_LEVEL = 'none';
+
+/**
+ * Move a position under a new reporting position, with a preview of the reporting lines that change
+ */
+export function MovePositionDialog({ orgSlug, position, positions, onOpenChange, onMoved }: MovePositionDialogProps) {
+  const [target, setTarget] = useState(TOP_LEVEL);
+  const [mode, setMode] = useState<PositionMoveMode>('subtree');
+  const [preview, setPreview] = useState<RestructurePreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (position) {
+      setTarget(position.reportingPositionId ? String(position.reportingPositionId) : TOP_LEVEL);
+      setMode('subtree');
+    }
+  }, [position]);
+
+  const reportingPositionId = target === TOP_LEVEL ? null : parseInt(target);
+
+  useEffect(() => {
+    if (!position) return;
+
+    setPreview(null);
+    setPreviewError(null);
+    if (reportingPositionId === position.reportingPositionId && mode === 'subtree') return;
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      try {
+        setIsPreviewing(true);
+        const result = await previewMoveOrganizationalPosition(orgSlug, position.id, { reportingPositionId, mode });
+        if (!cancelled) setPreview(result);
+      } catch (error) {
+        if (!cancelled) setPreviewError(error instanceof Error ? error.message : 'Failed to preview the move');
+      } finally {
+        if (!cancelled) setIsPreviewing(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug, position, target, mode]);
+
+  const handleMove = async () => {
+    if (!position) return;
+
+    setIsSubmitting(true);
+    try {
+      await moveOrganizationalPosition(orgSlug, position.id, { reportingPositionId, mode });
+      toast.success(`${position.title} moved successfully`);
+      onOpenChange(false);
+      onMoved();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to move organizational position');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const personNames = (people: OrgChartOccupant[]) =>
+    people.length > 0
+      ? people.map((person) => [person.firstName, person.lastName].filter(Boolean).join(' ')).join(', ')
+      : 'Nobody';
+
+  return (
+    <Dialog open={!!position} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px]">
+        <DialogHeader>
+          <DialogTitle>Move {position?.title}</DialogTitle>
+          <DialogDescription>
+            Choose the new reporting position. Review the reporting lines that change before moving.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Report To</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select reporting position" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>None (top of the hierarchy)</SelectItem>
+                  {positions
+                    .filter((pos) => pos.id !== position?.id)
+                    .map((pos) => (
+                      <SelectItem key={pos.id} value={String(pos.id)}>
+                        {pos.title}
+                        {pos.department && ` - ${pos.department.name}`}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Subordinate Positions</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as PositionMoveMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="subtree">Move with this position</SelectItem>
+                  <SelectItem value="position">Stay behind (report to its current manager position)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isPreviewing ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : previewError ? (
+            <p className="rounded-md bg-red-50 px-3 py-2 text-sm text-red-700">{previewError}</p>
+          ) : preview ? (
+            <div className="space-y-4">
+              {preview.plan.warnings.map((warning) => (
+                <p key={warning} className="flex items-start gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                  {warning}
+                </p>
+              ))}
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Positions with a new reporting position ({preview.plan.changes.length})
+                  {preview.plan.mode === 'subtree' && preview.plan.movedPositions > 1 && (
+                    <span className="font-normal text-gray-500">
+                      {' '}
+                      · {preview.plan.movedPositions - 1} position(s) below move along
+                    </span>
+                  )}
+                </p>
+                <ul className="space-y-1 text-sm">
+                  {preview.plan.changes.map((change) => (
+                    <li key={change.position.id} className="flex items-center gap-2">
+                      <span className="font-medium">{change.position.title}</span>
+                      <span className="text-gray-500">{change.from?.title || 'Top'}</span>
+                      <ArrowRight className="h-3 w-3 text-gray-400" />
+                      <span className="text-gray-900">{change.to?.title || 'Top'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  Employees whose manager changes ({preview.reportingLineChanges.length})
+                </p>
+                {preview.reportingLineChanges.length === 0 ? (
+                  <p className="text-sm text-gray-500">No reporting lines change.</p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto rounded-md border border-gray-200">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 text-left text-gray-600">
+                        <tr>
+                          <th className="px-3 py-2 font-medium">Employee</th>
+                          <th className="px-3 py-2 font-medium">Reports to now</th>
+                          <th className="px-3 py-2 font-medium">After the move</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {preview.reportingLineChanges.map((change) => (
+                          <tr key={change.employee.id} className="border-t border-gray-100">
+                            <td className="px-3 py-2">
+                              <p className="font-medium">{personNames([change.employee])}</p>
+                              <p className="text-xs text-gray-500">{change.position.title}</p>
+                            </td>
+                            <td className="px-3 py-2">{personNames(change.before.managers)}</td>
+                            <td className="px-3 py-2">
+                              {personNames(change.after.managers)}
+                              {change.after.managerSource && change.after.managerSource !== 'position' && (
+                                <Badge variant="outline" className="ml-2 text-xs">
+                                  {change.after.managerSource === 'department_head' ? 'Dept head' : 'Branch manager'}
+                                </Badge>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Pick a new reporting position to see what changes.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleMove}
+            disabled={isSubmitting || isPreviewing || !preview}
+            className="bg-gradient-to-r from-blue-600 to-indigo-600"
+          >
+            {isSubmitting ? 'Moving...' : 'Move'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
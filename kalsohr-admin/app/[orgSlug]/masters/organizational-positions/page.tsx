@@ -33,21 +33,25 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
-import { Plus, Pencil, Trash2, Building2, Users, TrendingUp } from 'lucide-react';
+import { Plus, Pencil, Trash2, Building2, Users, TrendingUp, Move, AlertTriangle } from 'lucide-react';
 import { PageLoader } from '@/components/ui/page-loader';
 import {
   getAllOrganizationalPositions,
   createOrganizationalPosition,
   updateOrganizationalPosition,
   deleteOrganizationalPosition,
+  getPositionHierarchyIssues,
   OrganizationalPosition,
   CreateOrganizationalPositionData,
+  PositionHierarchyIssue,
 } from '@/lib/api/org/organizational-positions';
 import { getAllDepartments, Department } from '@/lib/api/org/departments';
 import { getAllDesignations, Designation } from '@/lib/api/org/designations';
+import { getAllBranches, Branch } from '@/lib/api/org/branches';
 import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
 import { usePermissions } from '@/lib/hooks/usePermissions';
 import { AuditHoverIcon } from '@/components/ui/audit-hover-card';
+import { MovePositionDialog } from './components/move-position-dialog';
 
 export default function OrganizationalPositionsPage() {
   const params = useParams();
@@ -60,11 +64,15 @@ export default function OrganizationalPositionsPage() {
   const [organizationalPositions, setOrganizationalPositions] = useState<OrganizationalPosition[]>([]);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [designations, setDesignations] = useState<Designation[]>([]);
+  const [branches, setBranches] = useState<Branch[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<OrganizationalPosition | null>(null);
   const [deletingItem, setDeletingItem] = useState<OrganizationalPosition | null>(null);
+  const [reattachSubordinates, setReattachSubordinates] = useState(false);
+  const [movingItem, setMovingItem] = useState<OrganizationalPosition | null>(null);
+  const [hierarchyIssues, setHierarchyIssues] = useState<PositionHierarchyIssue[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
 
@@ -74,6 +82,7 @@ export default function OrganizationalPositionsPage() {
     description: '',
     departmentId: 0,
     designationId: 0,
+    branchId: null,
     reportingPositionId: undefined,
     headCount: 1,
     isActive: true,
@@ -82,15 +91,19 @@ export default function OrganizationalPositionsPage() {
   const loadData = async () => {
     try {
       setIsLoading(true);
-      const [positionsData, departmentsData, designationsData] = await Promise.all([
+      const [positionsData, departmentsData, designationsData, branchesData, issuesData] = await Promise.all([
         getAllOrganizationalPositions(orgSlug),
         getAllDepartments(orgSlug),
         getAllDesignations(orgSlug),
+        getAllBranches(orgSlug),
+        getPositionHierarchyIssues(orgSlug),
       ]);
 
       setOrganizationalPositions(positionsData);
+      setHierarchyIssues(issuesData);
       setDepartments(departmentsData);
       setDesignations(designationsData);
+      setBranches(branchesData);
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to load data');
     } finally {
@@ -123,6 +136,7 @@ export default function OrganizationalPositionsPage() {
         description: item.description || '',
         departmentId: item.departmentId,
         designationId: item.designationId,
+        branchId: item.branchId,
         reportingPositionId: item.reportingPositionId || undefined,
         headCount: item.headCount,
         isActive: item.isActive,
@@ -135,6 +149,7 @@ export default function OrganizationalPositionsPage() {
         description: '',
         departmentId: 0,
         designationId: 0,
+        branchId: null,
         reportingPositionId: undefined,
         headCount: 1,
         isActive: true,
@@ -152,6 +167,7 @@ export default function OrganizationalPositionsPage() {
       description: '',
       departmentId: 0,
       designationId: 0,
+      branchId: null,
       reportingPositionId: undefined,
       headCount: 1,
       isActive: true,
@@ -184,7 +200,7 @@ export default function OrganizationalPositionsPage() {
 
     setIsSubmitting(true);
     try {
-      await deleteOrganizationalPosition(orgSlug, deletingItem.id);
+      await deleteOrganizationalPosition(orgSlug, deletingItem.id, reattachSubordinates);
       toast.success('Organizational position deleted successfully');
       setIsDeleteDialogOpen(false);
       setDeletingItem(null);
@@ -196,6 +212,26 @@ export default function OrganizationalPositionsPage() {
     }
   };
 
+  // A position cannot report to itself or to any position below it
+  const getSubtreeIds = (positionId: number): Set<number> => {
+    const ids = new Set<number>([positionId]);
+    let added = true;
+    while (added) {
+      added = false;
+      for (const pos of organizationalPositions) {
+        if (pos.reportingPositionId && ids.has(pos.reportingPositionId) && !ids.has(pos.id)) {
+          ids.add(pos.id);
+          added = true;
+        }
+      }
+    }
+    return ids;
+  };
+
+  const excludedReportingIds = editingItem ? getSubtreeIds(editingItem.id) : new Set<number>();
+
+  const deletingParent = organizationalPositions.find((pos) => pos.id === deletingItem?.reportingPositionId);
+
   const totalEmployees = organizationalPositions.reduce(
     (sum, pos) => sum + (pos._count?.employees || 0),
     0
@@ -264,6 +300,21 @@ export default function OrganizationalPositionsPage() {
           </div>
         </div>
 
+        {/* Hierarchy issues */}
+        {hierarchyIssues.length > 0 && (
+          <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3">
+            <p className="flex items-center gap-2 text-sm font-medium text-amber-900">
+              <AlertTriangle className="w-4 h-4" />
+              {hierarchyIssues.length} reporting hierarchy issue(s)
+            </p>
+            <ul className="mt-2 space-y-1 text-sm text-amber-800">
+              {hierarchyIssues.map((issue, index) => (
+                <li key={index}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Table */}
         <Card className="border border-gray-200">
           <CardContent className="p-0">
@@ -327,7 +378,10 @@ export default function OrganizationalPositionsPage() {
                         </TableCell>
                         <TableCell>
                           {item.department ? (
-                            <span className="text-sm">{item.department.name}</span>
+                            <div>
+                              <span className="text-sm">{item.department.name}</span>
+                              {item.branch && <p className="text-xs text-gray-500">{item.branch.name}</p>}
+                            </div>
                           ) : (
                             <span className="text-gray-400 text-sm">-</span>
                           )}
@@ -381,11 +435,21 @@ export default function OrganizationalPositionsPage() {
                             >
                               <Pencil className="w-3 h-3" />
                             </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Move in the hierarchy"
+                              onClick={() => setMovingItem(item)}
+                              disabled={!hasPermission('master_data', 'canUpdate')}
+                            >
+                              <Move className="w-3 h-3" />
+                            </Button>
                             <Button
                               variant="outline"
                               size="sm"
                               onClick={() => {
                                 setDeletingItem(item);
+                                setReattachSubordinates(false);
                                 setIsDeleteDialogOpen(true);
                               }}
                               disabled={!hasPermission('master_data', 'canDelete')}
@@ -501,6 +565,28 @@ export default function OrganizationalPositionsPage() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="branchId">Branch</Label>
+                <Select
+                  value={formData.branchId ? String(formData.branchId) : 'none'}
+                  onValueChange={(value) =>
+                    setFormData({ ...formData, branchId: value !== 'none' ? parseInt(value) : null })
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select branch" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Any branch</SelectItem>
+                    {branches.map((branch) => (
+                      <SelectItem key={branch.id} value={String(branch.id)}>
+                        {branch.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="reportingPositionId">Reporting Position</Label>
                 <Select
@@ -515,7 +601,7 @@ export default function OrganizationalPositionsPage() {
                   <SelectContent>
                     <SelectItem value="none">None</SelectItem>
                     {organizationalPositions
-                      .filter((pos) => !editingItem || pos.id !== editingItem.id)
+                      .filter((pos) => !excludedReportingIds.has(pos.id))
                       .map((pos) => (
                         <SelectItem key={pos.id} value={String(pos.id)}>
                           {pos.title}
@@ -579,14 +665,26 @@ export default function OrganizationalPositionsPage() {
                 </span>
               ) : deletingItem?._count?.subordinatePositions && deletingItem._count.subordinatePositions > 0 ? (
                 <span className="block mt-2 text-red-600">
-                  This position has {deletingItem._count.subordinatePositions} subordinate position(s) and cannot be deleted.
-                  Please reassign them first.
+                  This position has {deletingItem._count.subordinatePositions} subordinate position(s). Move them up to{' '}
+                  {deletingParent ? deletingParent.title : 'the top of the hierarchy'} to delete it.
                 </span>
               ) : (
                 <span className="block mt-2">This action cannot be undone.</span>
               )}
             </DialogDescription>
           </DialogHeader>
+          {(deletingItem?._count?.employees || 0) === 0 && (deletingItem?._count?.subordinatePositions || 0) > 0 && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="reattachSubordinates" className="text-sm font-medium">
+                Move subordinate positions up to {deletingParent ? deletingParent.title : 'the top'}
+              </Label>
+              <Switch
+                id="reattachSubordinates"
+                checked={reattachSubordinates}
+                onCheckedChange={setReattachSubordinates}
+              />
+            </div>
+          )}
           <DialogFooter>
             <Button
               variant="outline"
@@ -603,7 +701,7 @@ export default function OrganizationalPositionsPage() {
               disabled={
                 isSubmitting ||
                 (deletingItem?._count?.employees || 0) > 0 ||
-                (deletingItem?._count?.subordinatePositions || 0) > 0
+                ((deletingItem?._count?.subordinatePositions || 0) > 0 && !reattachSubordinates)
               }
             >
               {isSubmitting ? 'Deleting...' : 'Delete'}
@@ -611,6 +709,15 @@ export default function OrganizationalPositionsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Move Dialog */}
+      <MovePositionDialog
+        orgSlug={orgSlug}
+        position={movingItem}
+        positions={organizationalPositions}
+        onOpenChange={(open) => !open && setMovingItem(null)}
+        onMoved={loadData}
+      />
     </>
   );
 }
@@ -0,0 +1,372 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLoader } from '@/components/ui/page-loader';
+import { toast } from 'sonner';
+import { AlertTriangle, CalendarClock, Check, ClipboardList, Loader2, Rocket, Settings2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getOverdueOnboardingTasks,
+  getOnboardings,
+  updateOnboardingTask,
+  OnboardingAssignee,
+  OnboardingListItem,
+  OverdueOnboardingResponse,
+  OverdueOnboardingTask,
+  ONBOARDING_ASSIGNEE_LABELS,
+} from '@/lib/api/org/employee-onboarding';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+const ALL = 'all';
+
+export default function OnboardingPage() {
+  const params = useParams();
+  const router = useRouter();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('employees', false);
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+
+  const [overdue, setOverdue] = useState<OverdueOnboardingResponse | null>(null);
+  const [onboardings, setOnboardings] = useState<OnboardingListItem[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [completingTaskId, setCompletingTaskId] = useState<number | null>(null);
+
+  const [assigneeRole, setAssigneeRole] = useState(ALL);
+  const [departmentId, setDepartmentId] = useState(ALL);
+  const [page, setPage] = useState(1);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      const [overdueData, onboardingData] = await Promise.all([
+        getOverdueOnboardingTasks(orgSlug, {
+          assigneeRole: assigneeRole !== ALL ? (assigneeRole as OnboardingAssignee) : undefined,
+          departmentId: departmentId !== ALL ? parseInt(departmentId) : undefined,
+          page,
+          limit: 20,
+        }),
+        getOnboardings(orgSlug, { status: 'in_progress', limit: 50 }),
+      ]);
+      setOverdue(overdueData);
+      setOnboardings(onboardingData.onboardings);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load onboarding');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      loadData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasAccess, permissionLoading, orgSlug, assigneeRole, departmentId, page]);
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      getAllDepartments(orgSlug, true).then(setDepartments).catch(() => setDepartments([]));
+    }
+  }, [hasAccess, permissionLoading, orgSlug]);
+
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  if (isLoading && !overdue) {
+    return <PageLoader message="Loading onboarding..." />;
+  }
+
+  const handleComplete = async (task: OverdueOnboardingTask) => {
+    setCompletingTaskId(task.id);
+    try {
+      await updateOnboardingTask(orgSlug, task.onboardingId, task.id, { isCompleted: true });
+      toast.success('Task completed');
+      loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update task');
+    } finally {
+      setCompletingTaskId(null);
+    }
+  };
+
+  const formatDate = (date: string) => format(new Date(date), 'dd MMM yyyy');
+  const personName = (person: { firstName: string; lastName: string | null }) =>
+    [person.firstName, person.lastName].filter(Boolean).join(' ');
+
+  // An onboarding belongs to an employee, or to a selected candidate who has not joined yet
+  const renderNewHire = (onboarding: Pick<OnboardingListItem, 'employee' | 'candidate'>) =>
+    onboarding.employee ? (
+      <>
+        <Link href={`/${orgSlug}/employees/${onboarding.employee.id}`} className="font-medium hover:underline">
+          {personName(onboarding.employee)}
+        </Link>
+        <p className="text-xs text-gray-500">{onboarding.employee.employeeCode}</p>
+      </>
+    ) : onboarding.candidate ? (
+      <>
+        <Link
+          href={`/${orgSlug}/recruitment/candidates/${onboarding.candidate.id}`}
+          className="font-medium hover:underline"
+        >
+          {personName(onboarding.candidate)}
+        </Link>
+        <p className="text-xs text-gray-500">Candidate · not joined yet</p>
+      </>
+    ) : (
+      '-'
+    );
+
+  const summary = overdue?.summary;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+            <Rocket className="w-8 h-8 text-blue-600" />
+            Onboarding
+          </h1>
+          <p className="text-gray-600 mt-2">New hire checklists and their overdue tasks</p>
+        </div>
+        <Button variant="outline" onClick={() => router.push(`/${orgSlug}/onboarding/templates`)}>
+          <Settings2 className="h-4 w-4 mr-2" />
+          Templates
+        </Button>
+      </div>
+
+      {/* Summary */}
+      {summary && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <ClipboardList className="h-8 w-8 text-blue-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.inProgress}</p>
+                <p className="text-sm text-gray-500">Onboardings in progress</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <AlertTriangle className="h-8 w-8 text-red-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.overdueTasks}</p>
+                <p className="text-sm text-gray-500">Overdue tasks</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6 flex items-center gap-3">
+              <CalendarClock className="h-8 w-8 text-yellow-600" />
+              <div>
+                <p className="text-2xl font-bold">{summary.dueThisWeek}</p>
+                <p className="text-sm text-gray-500">Due in the next 7 days</p>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-gray-500 mb-2">Overdue by assignee</p>
+              <div className="flex flex-wrap gap-1">
+                {(Object.keys(ONBOARDING_ASSIGNEE_LABELS) as OnboardingAssignee[]).map((role) => (
+                  <Badge
+                    key={role}
+                    className={
+                      summary.overdueByAssignee[role] > 0 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-600'
+                    }
+                  >
+                    {ONBOARDING_ASSIGNEE_LABELS[role]}: {summary.overdueByAssignee[role] ?? 0}
+                  </Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Overdue tasks */}
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3">
+          <CardTitle>Overdue Tasks</CardTitle>
+          <div className="flex flex-wrap gap-3">
+            <Select
+              value={assigneeRole}
+              onValueChange={(value) => {
+                setAssigneeRole(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue placeholder="Assignee" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All assignees</SelectItem>
+                {(Object.keys(ONBOARDING_ASSIGNEE_LABELS) as OnboardingAssignee[]).map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {ONBOARDING_ASSIGNEE_LABELS[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={departmentId}
+              onValueChange={(value) => {
+                setDepartmentId(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Department" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All departments</SelectItem>
+                {departments.map((department) => (
+                  <SelectItem key={department.id} value={String(department.id)}>
+                    {department.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400 self-center" />}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!overdue || overdue.tasks.length === 0 ? (
+            <p className="text-gray-500 text-center py-6">No overdue onboarding tasks</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>New Hire</TableHead>
+                    <TableHead>Task</TableHead>
+                    <TableHead>Assignee</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Due</TableHead>
+                    {canUpdate && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overdue.tasks.map((task) => (
+                    <TableRow key={task.id}>
+                      <TableCell>{renderNewHire(task.onboarding)}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{task.title}</p>
+                        <p className="text-xs text-gray-500">{task.onboarding.templateName}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{ONBOARDING_ASSIGNEE_LABELS[task.assigneeRole] || task.assigneeRole}</Badge>
+                      </TableCell>
+                      <TableCell>{task.onboarding.employee?.department?.name || '-'}</TableCell>
+                      <TableCell>
+                        {formatDate(task.dueDate)}
+                        <Badge className="ml-2 bg-red-100 text-red-800">{task.daysOverdue}d overdue</Badge>
+                      </TableCell>
+                      {canUpdate && (
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={completingTaskId === task.id}
+                            onClick={() => handleComplete(task)}
+                          >
+                            {completingTaskId === task.id ? (
+                              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                            ) : (
+                              <Check className="h-4 w-4 mr-2" />
+                            )}
+                            Done
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {overdue.pagination.totalPages > 1 && (
+                <div className="flex items-center justify-end gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <span className="text-sm text-gray-500">
+                    Page {overdue.pagination.page} of {overdue.pagination.totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= overdue.pagination.totalPages}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Onboardings in progress */}
+      <Card>
+        <CardHeader>
+          <CardTitle>In Progress</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {onboardings.length === 0 ? (
+            <p className="text-gray-500 text-center py-6">No onboardings in progress</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>New Hire</TableHead>
+                  <TableHead>Template</TableHead>
+                  <TableHead>Joining Date</TableHead>
+                  <TableHead className="text-right">Progress</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {onboardings.map((onboarding) => (
+                  <TableRow key={onboarding.id}>
+                    <TableCell>{renderNewHire(onboarding)}</TableCell>
+                    <TableCell>{onboarding.templateName}</TableCell>
+                    <TableCell>{formatDate(onboarding.joiningDate)}</TableCell>
+                    <TableCell className="text-right">
+                      {onboarding.progress.completed}/{onboarding.progress.total}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,472 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLoader } from '@/components/ui/page-loader';
+import { toast } from 'sonner';
+import { ArrowLeft, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import {
+  getOnboardingTemplates,
+  getOnboardingTemplateById,
+  createOnboardingTemplate,
+  updateOnboardingTemplate,
+  deleteOnboardingTemplate,
+  OnboardingAssignee,
+  OnboardingTemplate,
+  OnboardingTemplateTask,
+  ONBOARDING_ASSIGNEE_LABELS,
+} from '@/lib/api/org/employee-onboarding';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { getAllEmploymentTypes, EmploymentType } from '@/lib/api/org/employment-types';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+interface TemplateForm {
+  name: string;
+  description: string;
+  departmentId: string;
+  employmentTypeId: string;
+  isActive: boolean;
+  tasks: OnboardingTemplateTask[];
+}
+
+const ANY = 'any';
+
+const EMPTY_TASK: OnboardingTemplateTask = { title: '', assigneeRole: 'hr', dueDayOffset: 0 };
+
+const EMPTY_FORM: TemplateForm = {
+  name: '',
+  description: '',
+  departmentId: ANY,
+  employmentTypeId: ANY,
+  isActive: true,
+  tasks: [EMPTY_TASK],
+};
+
+export default function OnboardingTemplatesPage() {
+  const params = useParams();
+  const router = useRouter();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('employees', false);
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+
+  const [templates, setTemplates] = useState<OnboardingTemplate[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [employmentTypes, setEmploymentTypes] = useState<EmploymentType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingTemplate, setEditingTemplate] = useState<OnboardingTemplate | null>(null);
+  const [formData, setFormData] = useState<TemplateForm>(EMPTY_FORM);
+  const [deletingTemplate, setDeletingTemplate] = useState<OnboardingTemplate | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      setTemplates(await getOnboardingTemplates(orgSlug));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load onboarding templates');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      loadData();
+      getAllDepartments(orgSlug, true).then(setDepartments).catch(() => setDepartments([]));
+      getAllEmploymentTypes(orgSlug, true).then(setEmploymentTypes).catch(() => setEmploymentTypes([]));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasAccess, permissionLoading, orgSlug]);
+
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  if (isLoading) {
+    return <PageLoader message="Loading onboarding templates..." />;
+  }
+
+  const handleOpenDialog = async (template?: OnboardingTemplate) => {
+    if (!template) {
+      setEditingTemplate(null);
+      setFormData(EMPTY_FORM);
+      setIsDialogOpen(true);
+      return;
+    }
+
+    try {
+      const full = await getOnboardingTemplateById(orgSlug, template.id);
+      setEditingTemplate(full);
+      setFormData({
+        name: full.name,
+        description: full.description || '',
+        departmentId: full.departmentId ? String(full.departmentId) : ANY,
+        employmentTypeId: full.employmentTypeId ? String(full.employmentTypeId) : ANY,
+        isActive: full.isActive,
+        tasks: (full.tasks || []).map(({ title, description, assigneeRole, dueDayOffset }) => ({
+          title,
+          description,
+          assigneeRole,
+          dueDayOffset,
+        })),
+      });
+      setIsDialogOpen(true);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load onboarding template');
+    }
+  };
+
+  const updateTask = (index: number, changes: Partial<OnboardingTemplateTask>) => {
+    setFormData({
+      ...formData,
+      tasks: formData.tasks.map((task, i) => (i === index ? { ...task, ...changes } : task)),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const payload = {
+      name: formData.name,
+      description: formData.description || null,
+      departmentId: formData.departmentId === ANY ? null : parseInt(formData.departmentId),
+      employmentTypeId: formData.employmentTypeId === ANY ? null : parseInt(formData.employmentTypeId),
+      isActive: formData.isActive,
+      tasks: formData.tasks,
+    };
+
+    setIsSubmitting(true);
+    try {
+      if (editingTemplate) {
+        await updateOnboardingTemplate(orgSlug, editingTemplate.id, payload);
+        toast.success('Onboarding template updated successfully');
+      } else {
+        await createOnboardingTemplate(orgSlug, payload);
+        toast.success('Onboarding template created successfully');
+      }
+      setIsDialogOpen(false);
+      loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save onboarding template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingTemplate) return;
+
+    setIsSubmitting(true);
+    try {
+      await deleteOnboardingTemplate(orgSlug, deletingTemplate.id);
+      toast.success('Onboarding template deleted successfully');
+      setDeletingTemplate(null);
+      loadData();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete onboarding template');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" className="mb-2" onClick={() => router.push(`/${orgSlug}/onboarding`)}>
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Onboarding
+            </Button>
+            <h1 className="text-3xl font-bold text-gray-900">Onboarding Templates</h1>
+            <p className="text-gray-600 mt-2">
+              New hires get the most specific active template for their department and employment type
+            </p>
+          </div>
+          {canUpdate && (
+            <Button onClick={() => handleOpenDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Template
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            {templates.length === 0 ? (
+              <p className="text-gray-500 text-center py-6">
+                No onboarding templates yet. New hires get no onboarding until one is created.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Department</TableHead>
+                    <TableHead>Employment Type</TableHead>
+                    <TableHead className="text-right">Tasks</TableHead>
+                    <TableHead className="text-right">Onboardings</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canUpdate && <TableHead className="text-right">Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map((template) => (
+                    <TableRow key={template.id}>
+                      <TableCell>
+                        <p className="font-medium">{template.name}</p>
+                        {template.description && <p className="text-xs text-gray-500">{template.description}</p>}
+                      </TableCell>
+                      <TableCell>{template.department?.name || 'Any'}</TableCell>
+                      <TableCell>{template.employmentType?.name || 'Any'}</TableCell>
+                      <TableCell className="text-right">{template._count?.tasks ?? 0}</TableCell>
+                      <TableCell className="text-right">{template._count?.onboardings ?? 0}</TableCell>
+                      <TableCell>
+                        {template.isActive ? (
+                          <Badge className="bg-green-100 text-green-700 border-green-200">Active</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-gray-500">
+                            Inactive
+                          </Badge>
+                        )}
+                      </TableCell>
+                      {canUpdate && (
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button variant="outline" size="sm" onClick={() => handleOpenDialog(template)}>
+                              <Pencil className="w-3 h-3" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => setDeletingTemplate(template)}>
+                              <Trash2 className="w-3 h-3 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit}>
+            <DialogHeader>
+              <DialogTitle>{editingTemplate ? 'Edit Onboarding Template' : 'Add Onboarding Template'}</DialogTitle>
+              <DialogDescription>
+                Changes apply to onboardings started afterwards. Due days count from the date of joining; use a
+                negative number for tasks before day one.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <div className="space-y-2">
+                <Label htmlFor="templateName">Name *</Label>
+                <Input
+                  id="templateName"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="e.g., Engineering - Full-time"
+                  maxLength={100}
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="templateDescription">Description</Label>
+                <Textarea
+                  id="templateDescription"
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Department</Label>
+                  <Select
+                    value={formData.departmentId}
+                    onValueChange={(value) => setFormData({ ...formData, departmentId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any department</SelectItem>
+                      {departments.map((department) => (
+                        <SelectItem key={department.id} value={String(department.id)}>
+                          {department.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Employment Type</Label>
+                  <Select
+                    value={formData.employmentTypeId}
+                    onValueChange={(value) => setFormData({ ...formData, employmentTypeId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY}>Any employment type</SelectItem>
+                      {employmentTypes.map((employmentType) => (
+                        <SelectItem key={employmentType.id} value={String(employmentType.id)}>
+                          {employmentType.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="templateActive" className="text-sm font-medium">
+                  Active Status
+                </Label>
+                <Switch
+                  id="templateActive"
+                  checked={formData.isActive}
+                  onCheckedChange={(checked) => setFormData({ ...formData, isActive: checked })}
+                />
+              </div>
+
+              <div className="space-y-3">
+                <Label>Tasks *</Label>
+                {formData.tasks.map((task, index) => (
+                  <div key={index} className="flex gap-3">
+                    <Input
+                      value={task.title}
+                      onChange={(e) => updateTask(index, { title: e.target.value })}
+                      placeholder="e.g. Set up laptop and email"
+                      maxLength={200}
+                      required
+                    />
+                    <Select
+                      value={task.assigneeRole}
+                      onValueChange={(value) => updateTask(index, { assigneeRole: value as OnboardingAssignee })}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ONBOARDING_ASSIGNEE_LABELS) as OnboardingAssignee[]).map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ONBOARDING_ASSIGNEE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min="-365"
+                      max="365"
+                      value={task.dueDayOffset}
+                      onChange={(e) => updateTask(index, { dueDayOffset: parseInt(e.target.value) || 0 })}
+                      className="w-24"
+                      title="Due day, relative to the date of joining"
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      title="Remove task"
+                      onClick={() =>
+                        setFormData({ ...formData, tasks: formData.tasks.filter((_, i) => i !== index) })
+                      }
+                      disabled={formData.tasks.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, tasks: [...formData.tasks, EMPTY_TASK] })}
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Task
+                </Button>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                {editingTemplate ? 'Update' : 'Create'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deletingTemplate} onOpenChange={(open) => !open && setDeletingTemplate(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Onboarding Template</DialogTitle>
+            <DialogDescription>
+              Are you sure you want to delete <strong>{deletingTemplate?.name}</strong>? Onboardings already started
+              from it keep their tasks.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeletingTemplate(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleDelete} disabled={isSubmitting}>
+              {isSubmitting ? 'Deleting...' : 'Delete'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,342 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PageLoader } from '@/components/ui/page-loader';
+import { toast } from 'sonner';
+import {
+  ChevronDown,
+  ChevronRight,
+  Crosshair,
+  Loader2,
+  Maximize2,
+  Network,
+  ZoomIn,
+  ZoomOut,
+} from 'lucide-react';
+import { getOrgChart, OrgChart, OrgChartNode } from '@/lib/api/org/org-chart';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+
+const ALL = 'all';
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 2;
+const ZOOM_STEP = 0.1;
+const MAX_LISTED_OCCUPANTS = 3;
+
+export default function OrgChartPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('employees', false);
+
+  const [chart, setChart] = useState<OrgChart | null>(null);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [departmentId, setDepartmentId] = useState(ALL);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [focusPosition, setFocusPosition] = useState<{ id: number; title: string } | null>(null);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const [zoom, setZoom] = useState(1);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; y: number; left: number; top: number } | null>(null);
+
+  const loadChart = async () => {
+    try {
+      setIsLoading(true);
+      setChart(
+        await getOrgChart(orgSlug, {
+          rootPositionId: focusPosition?.id,
+          departmentId: departmentId !== ALL ? parseInt(departmentId) : undefined,
+          includeInactive,
+        })
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load org chart');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      loadChart();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasAccess, permissionLoading, orgSlug, departmentId, includeInactive, focusPosition]);
+
+  useEffect(() => {
+    if (hasAccess && !permissionLoading) {
+      getAllDepartments(orgSlug, true).then(setDepartments).catch(() => setDepartments([]));
+    }
+  }, [hasAccess, permissionLoading, orgSlug]);
+
+  // Ctrl/Cmd + wheel zooms the chart (the listener is not passive so the page itself does not zoom)
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return;
+      e.preventDefault();
+      setZoom((current) => clampZoom(current + (e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP)));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [chart]);
+
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  if (isLoading && !chart) {
+    return <PageLoader message="Loading org chart..." />;
+  }
+
+  // Drag the background to pan
+  const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!viewportRef.current || (e.target as HTMLElement).closest('a, button')) return;
+    dragRef.current = {
+      x: e.clientX,
+      y: e.clientY,
+      left: viewportRef.current.scrollLeft,
+      top: viewportRef.current.scrollTop,
+    };
+  };
+
+  const handleMouseMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!dragRef.current || !viewportRef.current) return;
+    viewportRef.current.scrollLeft = dragRef.current.left - (e.clientX - dragRef.current.x);
+    viewportRef.current.scrollTop = dragRef.current.top - (e.clientY - dragRef.current.y);
+  };
+
+  const toggleCollapsed = (positionId: number) => {
+    const next = new Set(collapsed);
+    if (next.has(positionId)) {
+      next.delete(positionId);
+    } else {
+      next.add(positionId);
+    }
+    setCollapsed(next);
+  };
+
+  const personName = (person: { firstName: string; lastName: string | null }) =>
+    [person.firstName, person.lastName].filter(Boolean).join(' ');
+
+  const renderNode = (node: OrgChartNode) => {
+    const isCollapsed = collapsed.has(node.id);
+    const hiddenOccupants = node.occupants.length - MAX_LISTED_OCCUPANTS;
+
+    return (
+      <div className="flex flex-col items-center">
+        <div
+          className={`w-60 rounded-lg border bg-white shadow-sm ${
+            node.isActive ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-70'
+          }`}
+        >
+          <div className="border-b border-gray-100 px-3 py-2">
+            <div className="flex items-start justify-between gap-2">
+              <p className="font-semibold text-gray-900 leading-tight">{node.title}</p>
+              <button
+                type="button"
+                title="Show only this branch"
+                className="text-gray-400 hover:text-blue-600"
+                onClick={() => setFocusPosition({ id: node.id, title: node.title })}
+              >
+                <Crosshair className="h-4 w-4" />
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              {node.department.name} · {node.designation.name}
+            </p>
+          </div>
+
+          <div className="space-y-1 px-3 py-2 text-sm">
+            {node.occupants.slice(0, MAX_LISTED_OCCUPANTS).map((occupant) => (
+              <Link
+                key={occupant.id}
+                href={`/${orgSlug}/employees/${occupant.id}`}
+                className="block truncate text-gray-800 hover:text-blue-600 hover:underline"
+              >
+                {personName(occupant)}
+              </Link>
+            ))}
+            {hiddenOccupants > 0 && <p className="text-xs text-gray-500">+{hiddenOccupants} more</p>}
+            <div className="flex flex-wrap gap-1 pt-1">
+              {node.vacancies > 0 && (
+                <Badge className="bg-amber-100 text-amber-800">
+                  {node.vacancies} of {node.headCount} vacant
+                </Badge>
+              )}
+              {node.occupants.length > node.headCount && (
+                <Badge className="bg-red-100 text-red-800">
+                  {node.occupants.length - node.headCount} over head count
+                </Badge>
+              )}
+              {!node.isActive && <Badge variant="outline">Inactive</Badge>}
+            </div>
+          </div>
+
+          {node.children.length > 0 && (
+            <button
+              type="button"
+              onClick={() => toggleCollapsed(node.id)}
+              className="flex w-full items-center justify-between border-t border-gray-100 px-3 py-1.5 text-xs text-gray-600 hover:bg-gray-50"
+            >
+              <span>
+                {node.rollup.employees - node.occupants.length} below · {node.rollup.vacancies - node.vacancies} vacant
+              </span>
+              {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+        </div>
+
+        {node.children.length > 0 && !isCollapsed && (
+          <>
+            <div className="h-5 w-px bg-gray-300" />
+            <div className="flex">
+              {node.children.map((child, index) => (
+                <div key={child.id} className="relative flex flex-col items-center px-3">
+                  {index > 0 && <div className="absolute left-0 top-0 h-px w-1/2 bg-gray-300" />}
+                  {index < node.children.length - 1 && (
+                    <div className="absolute right-0 top-0 h-px w-1/2 bg-gray-300" />
+                  )}
+                  <div className="h-5 w-px bg-gray-300" />
+                  {renderNode(child)}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const totals = chart?.totals;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <Network className="w-8 h-8 text-blue-600" />
+          Org Chart
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Reporting lines from the organizational positions, with the employees filling each position
+        </p>
+      </div>
+
+      {/* Summary */}
+      {totals && chart && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: 'Positions', value: totals.positions },
+            { label: 'Head count', value: totals.headCount },
+            { label: 'Employees placed', value: totals.employees },
+            { label: 'Vacancies', value: totals.vacancies },
+            { label: 'Without a position', value: chart.unassignedEmployees },
+          ].map((item) => (
+            <Card key={item.label}>
+              <CardContent className="pt-6">
+                <p className="text-2xl font-bold">{item.value}</p>
+                <p className="text-sm text-gray-500">{item.label}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Filters and zoom */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select value={departmentId} onValueChange={setDepartmentId}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Department" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All departments</SelectItem>
+            {departments.map((department) => (
+              <SelectItem key={department.id} value={String(department.id)}>
+                {department.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Switch id="includeInactive" checked={includeInactive} onCheckedChange={setIncludeInactive} />
+          <Label htmlFor="includeInactive">Inactive positions</Label>
+        </div>
+        {focusPosition && (
+          <Button variant="outline" size="sm" onClick={() => setFocusPosition(null)}>
+            Showing {focusPosition.title} · Show full chart
+          </Button>
+        )}
+        {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" />}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="outline" size="sm" title="Zoom out" onClick={() => setZoom(clampZoom(zoom - ZOOM_STEP))}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-14 text-center text-sm text-gray-600">{Math.round(zoom * 100)}%</span>
+          <Button variant="outline" size="sm" title="Zoom in" onClick={() => setZoom(clampZoom(zoom + ZOOM_STEP))}>
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" title="Reset zoom" onClick={() => setZoom(1)}>
+            <Maximize2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Chart */}
+      <Card>
+        <CardContent className="p-0">
+          {!chart || chart.roots.length === 0 ? (
+            <p className="text-gray-500 text-center py-12">
+              No organizational positions yet. Add positions with their reporting position under Masters.
+            </p>
+          ) : (
+            <div
+              ref={viewportRef}
+              className="h-[70vh] overflow-auto cursor-grab active:cursor-grabbing select-none"
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={() => (dragRef.current = null)}
+              onMouseLeave={() => (dragRef.current = null)}
+            >
+              <div
+                className="inline-block min-w-full p-8"
+                style={{ transform: `scale(${zoom})`, transformOrigin: 'top left' }}
+              >
+                <div className="flex justify-center gap-10">
+                  {chart.roots.map((root) => (
+                    <div key={root.id}>{renderNode(root)}</div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      <p className="text-xs text-gray-500">Drag to pan · Ctrl + scroll to zoom</p>
+    </div>
+  );
+}
+
+function clampZoom(value: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round(value * 10) / 10));
+}
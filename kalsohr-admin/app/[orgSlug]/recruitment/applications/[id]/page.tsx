@@ -34,6 +34,7 @@ import { toast } from 'sonner';
 import { getApplicationById, deleteApplication, updateApplicationStatus } from '@/lib/api/org/recruitment';
 import { Application, APPLICATION_STATUS } from '@/lib/types/recruitment';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import {
   Select,
   SelectContent,
@@ -50,14 +51,6 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 // Helper component for info rows
 interface InfoRowProps {
   icon: React.ReactNode;
@@ -91,6 +84,7 @@ export default function ApplicationDetailPage() {
   const canDelete = hasPermission('recruitment', 'canDelete');
 
   const [application, setApplication] = useState<Application | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [application?.candidate?.profilePicture]);
   const [loading, setLoading] = useState(true);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
@@ -256,7 +250,7 @@ export default function ApplicationDetailPage() {
         <div className="flex items-start gap-6">
           {/* Avatar */}
           <Avatar className="w-24 h-24 border-4 border-white shadow-lg">
-            <AvatarImage src={getImageUrl(candidate?.profilePicture)} alt={candidate?.firstName || 'Candidate'} />
+            <AvatarImage src={getFileUrl(candidate?.profilePicture)} alt={candidate?.firstName || 'Candidate'} />
             <AvatarFallback className="text-2xl bg-gradient-to-br from-blue-500 to-purple-600 text-white">
               {candidate?.firstName?.[0]}{candidate?.lastName?.[0]}
             </AvatarFallback>
@@ -80,24 +80,18 @@ import {
   APPLICATION_STATUS,
 } from '@/lib/types/recruitment';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { CreateApplicationDialog } from './create-application-dialog';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 // Draggable Application Card Component
 interface DraggableCardProps {
   application: Application;
   orgSlug: string;
   onViewClick: (id: number) => void;
+  getFileUrl: (path: string | null | undefined) => string;
 }
 
-function DraggableCard({ application, orgSlug, onViewClick }: DraggableCardProps) {
+function DraggableCard({ application, orgSlug, onViewClick, getFileUrl }: DraggableCardProps) {
   const {
     attributes,
     listeners,
@@ -146,7 +140,7 @@ function DraggableCard({ application, orgSlug, onViewClick }: DraggableCardProps
         <div className="flex items-start gap-3">
           <Avatar className="h-11 w-11 flex-shrink-0 ring-2 ring-offset-2 ring-gray-100">
             <AvatarImage
-              src={getImageUrl(application.candidate?.profilePicture)}
+              src={getFileUrl(application.candidate?.profilePicture)}
               alt={application.candidate?.firstName}
             />
             <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-600 text-white font-semibold">
@@ -210,6 +204,7 @@ interface DroppableColumnProps {
   colorClass: string;
   orgSlug: string;
   onViewClick: (id: number) => void;
+  getFileUrl: (path: string | null | undefined) => string;
 }
 
 function DroppableColumn({
@@ -221,6 +216,7 @@ function DroppableColumn({
   colorClass,
   orgSlug,
   onViewClick,
+  getFileUrl,
 }: DroppableColumnProps) {
   const { setNodeRef } = useSortable({ id });
 
@@ -263,6 +259,7 @@ function DroppableColumn({
                 application={app}
                 orgSlug={orgSlug}
                 onViewClick={onViewClick}
+                getFileUrl={getFileUrl}
               />
             ))
           )}
@@ -312,6 +309,15 @@ export default function ApplicationsPage() {
   const [deletingApplication, setDeletingApplication] = useState<Application | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
+  // Signed URLs for candidate photos in the list and the pipeline
+  const pipelineApplications: Application[] = pipelineData
+    ? Object.values(pipelineData.pipeline as Record<string, Application[]>).flat()
+    : [];
+  const { getFileUrl } = useSignedFileUrls(
+    orgSlug,
+    [...applications, ...pipelineApplications].map((app) => app.candidate?.profilePicture)
+  );
+
   // Drag and Drop state
   const [activeId, setActiveId] = useState<string | null>(null);
   const sensors = useSensors(
@@ -572,6 +578,7 @@ export default function ApplicationsPage() {
                   colorClass={column.color}
                   orgSlug={orgSlug}
                   onViewClick={handleViewClick}
+                  getFileUrl={getFileUrl}
                 />
               );
             })}
@@ -623,7 +630,7 @@ export default function ApplicationsPage() {
                     <div className="flex items-center gap-3">
                       <Avatar className="h-9 w-9">
                         <AvatarImage
-                          src={getImageUrl(app.candidate?.profilePicture)}
+                          src={getFileUrl(app.candidate?.profilePicture)}
                           alt={app.candidate?.firstName}
                         />
                         <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-500 text-white text-xs">
@@ -19,8 +19,13 @@ import { toast } from 'sonner';
 import { getCandidateById, deleteCandidate, getCandidateComments } from '@/lib/api/org/recruitment';
 import { Candidate, CANDIDATE_STATUS, SECTION_KEYS } from '@/lib/types/recruitment';
 import { EditCandidateDialog } from '../edit-candidate-dialog';
+import { OnboardingPanel } from '@/components/onboarding/onboarding-panel';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
+import { openFile } from '@/lib/api/org/files';
 import { SectionCommentsIcon } from './components/section-comments-icon';
+import { getCandidateHistory } from '@/lib/api/org/audit-logs';
+import { AuditHistory } from '@/components/ui/audit-history';
 import {
   ArrowLeft,
   Mail,
@@ -45,14 +50,6 @@ import {
 } from 'lucide-react';
 import { format } from 'date-fns';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 export default function CandidateProfilePage() {
   const params = useParams();
   const router = useRouter();
@@ -65,8 +62,11 @@ export default function CandidateProfilePage() {
   const canRead = hasPermission('recruitment', 'canRead');
   const canUpdate = hasPermission('recruitment', 'canUpdate');
   const canDelete = hasPermission('recruitment', 'canDelete');
+  // Change history is audit information: requires approve permission
+  const canViewHistory = hasPermission('recruitment', 'canApprove');
 
   const [candidate, setCandidate] = useState<Candidate | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [candidate?.profilePicture]);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState('overview');
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
@@ -165,10 +165,13 @@ export default function CandidateProfilePage() {
     }
   };
 
-  const handleDownloadResume = () => {
+  const handleDownloadResume = async () => {
     if ((candidate as any)?.resumePath) {
-      const resumeUrl = getImageUrl((candidate as any).resumePath);
-      window.open(resumeUrl, '_blank');
+      try {
+        await openFile(orgSlug, (candidate as any).resumePath);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to open resume');
+      }
     }
   };
 
@@ -274,7 +277,7 @@ export default function CandidateProfilePage() {
                 className="h-32 w-32 border-4 border-white shadow-xl cursor-pointer hover:opacity-90 transition-opacity"
                 onClick={() => candidate.profilePicture && setIsImageModalOpen(true)}
               >
-                <AvatarImage src={getImageUrl(candidate.profilePicture)} alt={candidate.firstName} />
+                <AvatarImage src={getFileUrl(candidate.profilePicture)} alt={candidate.firstName} />
                 <AvatarFallback className="bg-gradient-to-br from-blue-500 via-blue-600 to-indigo-600 text-white text-3xl font-bold">
                   {getInitials()}
                 </AvatarFallback>
@@ -332,11 +335,12 @@ export default function CandidateProfilePage() {
       <Card className="border-0 shadow-lg">
         <CardContent className="p-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4 mb-6">
+            <TabsList className={`grid w-full ${canViewHistory ? 'grid-cols-5' : 'grid-cols-4'} mb-6`}>
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="professional">Professional</TabsTrigger>
               <TabsTrigger value="personal">Personal</TabsTrigger>
               <TabsTrigger value="family">Family</TabsTrigger>
+              {canViewHistory && <TabsTrigger value="history">History</TabsTrigger>}
             </TabsList>
 
             {/* Overview Tab */}
@@ -522,6 +526,13 @@ export default function CandidateProfilePage() {
                   </CardContent>
                 </Card>
               )}
+
+              {/* Onboarding (selected candidates) */}
+              <OnboardingPanel
+                orgSlug={orgSlug}
+                subject={{ type: 'candidate', id: candidateId }}
+                canStart={canUpdate && candidate.status === CANDIDATE_STATUS.SELECTED}
+              />
             </TabsContent>
 
             {/* Professional Tab */}
@@ -1012,6 +1023,23 @@ export default function CandidateProfilePage() {
                 )}
               </div>
             </TabsContent>
+
+            {/* History Tab */}
+            {canViewHistory && (
+              <TabsContent value="history" className="space-y-6">
+                <Card className="border-0 shadow-md">
+                  <CardHeader>
+                    <CardTitle className="text-lg font-bold flex items-center gap-2">
+                      <Clock className="w-5 h-5 text-blue-600" />
+                      Change History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <AuditHistory loadHistory={() => getCandidateHistory(orgSlug, candidateId)} />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            )}
           </Tabs>
         </CardContent>
       </Card>
@@ -1063,7 +1091,7 @@ export default function CandidateProfilePage() {
             </DialogHeader>
             <div className="flex justify-center">
               <img
-                src={getImageUrl(candidate.profilePicture)}
+                src={getFileUrl(candidate.profilePicture)}
                 alt={`${candidate.firstName} ${candidate.lastName}`}
                 className="max-w-full h-auto rounded-lg"
               />
@@ -12,6 +12,7 @@ import { toast } from 'sonner';
 import { updateCandidate } from '@/lib/api/org/recruitment';
 import { getAllCountries, getAllStates, getAllCities } from '@/lib/api/org/locations';
 import { getAllMaritalStatuses } from '@/lib/api/masters/marital-status';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { getAllEducationLevels } from '@/lib/api/org/education-levels';
 import {
   Candidate,
@@ -60,14 +61,6 @@ const FormSection = ({ children, className = '' }: { children: React.ReactNode;
   </div>
 );
 
-// Helper to get image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 export function EditCandidateDialog({ open, onOpenChange, orgSlug, candidate, onSuccess }: EditCandidateDialogProps) {
   const [currentStep, setCurrentStep] = useState(1);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -79,6 +72,7 @@ export function EditCandidateDialog({ open, onOpenChange, orgSlug, candidate, on
   // File uploads
   const [profilePictureFile, setProfilePictureFile] = useState<File | null>(null);
   const [profilePicturePreview, setProfilePicturePreview] = useState<string | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [candidate?.profilePicture]);
   const [resumeFile, setResumeFile] = useState<File | null>(null);
 
   // Master data
@@ -134,7 +128,7 @@ export function EditCandidateDialog({ open, onOpenChange, orgSlug, candidate, on
         notes: candidate.notes || undefined,
         status: candidate.status,
       });
-      setProfilePicturePreview(getImageUrl(candidate.profilePicture));
+      setProfilePicturePreview(null);
       setProfilePictureFile(null);
       setResumeFile(null);
       loadMasterData();
@@ -286,9 +280,9 @@ export function EditCandidateDialog({ open, onOpenChange, orgSlug, candidate, on
               <div className="mb-6 flex flex-col items-center">
                 <div className="relative">
                   <div className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-100 to-indigo-100 flex items-center justify-center overflow-hidden border-2 border-blue-200">
-                    {profilePicturePreview ? (
+                    {profilePicturePreview || getFileUrl(candidate.profilePicture) ? (
                       <img
-                        src={profilePicturePreview}
+                        src={profilePicturePreview || getFileUrl(candidate.profilePicture)}
                         alt="Profile preview"
                         className="w-full h-full object-cover"
                       />
@@ -62,18 +62,11 @@ import {
   CANDIDATE_SOURCE,
 } from '@/lib/types/recruitment';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { AuditHoverIcon } from '@/components/ui/audit-hover-card';
 import { CreateCandidateDialog } from './create-candidate-dialog';
 import { EditCandidateDialog } from './edit-candidate-dialog';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 export default function CandidatesPage() {
   const params = useParams();
   const router = useRouter();
@@ -90,6 +83,9 @@ export default function CandidatesPage() {
 
   // State
   const [candidates, setCandidates] = useState<Candidate[]>([]);
+
+  // Signed URLs for candidate photos
+  const { getFileUrl } = useSignedFileUrls(orgSlug, candidates.map((candidate) => candidate.profilePicture));
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [searchInput, setSearchInput] = useState('');
@@ -609,7 +605,7 @@ export default function CandidatesPage() {
                       <div className="flex items-center gap-3">
                         <Avatar className="h-9 w-9">
                           <AvatarImage
-                            src={getImageUrl(candidate.profilePicture)}
+                            src={getFileUrl(candidate.profilePicture)}
                             alt={candidate.firstName}
                           />
                           <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-500 text-white text-xs">
@@ -51,16 +51,9 @@ import {
 } from '@/lib/api/org/recruitment';
 import { InterviewSchedule, INTERVIEW_STATUS, INTERVIEW_MODE } from '@/lib/types/recruitment';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { formatDistanceToNow } from 'date-fns';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 interface FeedbackForm {
   feedback: string;
   rating: number;
@@ -83,6 +76,7 @@ export default function InterviewDetailPage() {
 
   // State
   const [interview, setInterview] = useState<InterviewSchedule | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [interview?.application?.candidate?.profilePicture]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
   const [feedbackDialogOpen, setFeedbackDialogOpen] = useState(false);
@@ -383,7 +377,7 @@ export default function InterviewDetailPage() {
               <div className="flex items-start gap-4">
                 <Avatar className="h-16 w-16">
                   <AvatarImage
-                    src={getImageUrl(candidate?.profilePicture)}
+                    src={getFileUrl(candidate?.profilePicture)}
                     alt={candidate?.firstName}
                   />
                   <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-500 text-white text-xl">
@@ -63,16 +63,9 @@ import {
   INTERVIEW_MODE,
 } from '@/lib/types/recruitment';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 import { CreateInterviewDialog } from './create-interview-dialog';
 
-// Helper function to get full image URL
-const getImageUrl = (path: string | null | undefined): string => {
-  if (!path) return '';
-  if (path.startsWith('http')) return path;
-  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
-  return `${baseUrl}${path}`;
-};
-
 type ViewMode = 'calendar' | 'list';
 
 export default function InterviewsPage() {
@@ -93,6 +86,9 @@ export default function InterviewsPage() {
   // State
   const [viewMode, setViewMode] = useState<ViewMode>('calendar');
   const [interviews, setInterviews] = useState<InterviewSchedule[]>([]);
+
+  // Signed URLs for candidate photos
+  const { getFileUrl } = useSignedFileUrls(orgSlug, interviews.map((interview) => interview.application?.candidate?.profilePicture));
   const [calendarData, setCalendarData] = useState<Record<string, InterviewSchedule[]>>({});
   const [loading, setLoading] = useState(true);
   const [filters, setFilters] = useState<InterviewFilters>({
@@ -460,7 +456,7 @@ export default function InterviewsPage() {
                     <div className="flex items-center gap-3">
                       <Avatar className="h-9 w-9">
                         <AvatarImage
-                          src={getImageUrl(interview.application?.candidate?.profilePicture)}
+                          src={getFileUrl(interview.application?.candidate?.profilePicture)}
                           alt={interview.application?.candidate?.firstName}
                         />
                         <AvatarFallback className="bg-gradient-to-br from-blue-500 to-indigo-500 text-white text-xs">
@@ -17,6 +17,7 @@ const schema = z.object({
   name: z.string().min(2, 'Role name must be at least 2 characters'),
   description: z.string().optional(),
   isActive: z.boolean(),
+  requireTwoFactor: z.boolean(),
 });
 
 type FormData = z.infer<typeof schema>;
@@ -48,6 +49,7 @@ export function EditRoleDialog({
     resolver: zodResolver(schema),
     defaultValues: {
       isActive: true,
+      requireTwoFactor: false,
     },
   });
 
@@ -56,21 +58,19 @@ export function EditRoleDialog({
       setValue('name', role.name);
       setValue('description', role.description || '');
       setValue('isActive', role.isActive);
+      setValue('requireTwoFactor', role.requireTwoFactor ?? false);
     }
   }, [open, role, setValue]);
 
   const onSubmit = async (data: FormData) => {
-    if (role.isSystem) {
-      toast.error('Cannot edit system roles');
-      return;
-    }
-
     setIsSubmitting(true);
     try {
-      await updateOrgRole(orgSlug, role.id, {
+      // System roles only accept the two-factor requirement
+      await updateOrgRole(orgSlug, role.id, role.isSystem ? { requireTwoFactor: data.requireTwoFactor } : {
         name: data.name,
         description: data.description,
         isActive: data.isActive,
+        requireTwoFactor: data.requireTwoFactor,
       });
 
       toast.success('Role updated successfully');
@@ -163,11 +163,33 @@ export function EditRoleDialog({
           {role.isSystem && (
             <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
               <p className="text-sm text-yellow-800">
-                <strong>System Role:</strong> This role cannot be modified as it is a system-defined role.
+                <strong>System Role:</strong> Only the two-factor requirement of a system-defined role can be changed.
               </p>
             </div>
           )}
 
+          {/* Security */}
+          <div className="space-y-4 pt-4 border-t border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Security</h3>
+            <div className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                id="requireTwoFactor"
+                {...register('requireTwoFactor')}
+                disabled={isSubmitting}
+                className="mt-0.5 h-4 w-4 rounded text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <div>
+                <Label htmlFor="requireTwoFactor" className="text-sm font-medium text-gray-700 cursor-pointer">
+                  Require two-factor authentication
+                </Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Users with this role must set up an authenticator app before they can continue
+                </p>
+              </div>
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-3 pt-6 border-t border-gray-100">
             <Button
@@ -184,7 +206,7 @@ export function EditRoleDialog({
             </Button>
             <Button
               type="submit"
-              disabled={isSubmitting || role.isSystem}
+              disabled={isSubmitting}
               className="px-6 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
             >
               {isSubmitting ? 'Updating...' : 'Update Role'}
@@ -3,9 +3,16 @@
 import { useState, useEffect, useMemo } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { toast } from 'sonner';
 import { getOrgRolePermissions, updateOrgRolePermissions } from '@/lib/api/org/roles';
-import { OrgRole, RolePermission } from '@/lib/types/org';
+import { DataScope, OrgRole, RolePermission } from '@/lib/types/org';
 import { ORG_MODULES } from '@/lib/constants/org-modules';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import { Check, X, Shield } from 'lucide-react';
@@ -25,6 +32,10 @@ interface PermissionSet {
   canDelete: boolean;
   canApprove: boolean;
   canExport: boolean;
+  canViewCompensation: boolean;
+  canViewGovernmentIds: boolean;
+  canViewBankDetails: boolean;
+  canViewFamilyDetails: boolean;
 }
 
 const DEFAULT_PERMISSIONS: PermissionSet = {
@@ -34,6 +45,10 @@ const DEFAULT_PERMISSIONS: PermissionSet = {
   canDelete: false,
   canApprove: false,
   canExport: false,
+  canViewCompensation: false,
+  canViewGovernmentIds: false,
+  canViewBankDetails: false,
+  canViewFamilyDetails: false,
 };
 
 // Module dependency rules - when a module has any permission,
@@ -59,15 +74,56 @@ const FULL_ACCESS_PERMISSIONS: PermissionSet = {
   canDelete: true,
   canApprove: true,
   canExport: true,
+  canViewCompensation: true,
+  canViewGovernmentIds: true,
+  canViewBankDetails: true,
+  canViewFamilyDetails: true,
 };
 
-const PERMISSION_ACTIONS = [
-  { key: 'canRead' as keyof PermissionSet, label: 'Read', description: 'View records' },
-  { key: 'canWrite' as keyof PermissionSet, label: 'Create', description: 'Create new records' },
-  { key: 'canUpdate' as keyof PermissionSet, label: 'Update', description: 'Edit existing records' },
-  { key: 'canDelete' as keyof PermissionSet, label: 'Delete', description: 'Remove records' },
-  { key: 'canApprove' as keyof PermissionSet, label: 'Approve', description: 'Approve workflows' },
-  { key: 'canExport' as keyof PermissionSet, label: 'Export', description: 'Export data' },
+// Actions with `modules` only apply to those modules
+const PERMISSION_ACTIONS: { key: keyof PermissionSet; label: string; description: string; modules?: string[] }[] = [
+  { key: 'canRead', label: 'Read', description: 'View records' },
+  { key: 'canWrite', label: 'Create', description: 'Create new records' },
+  { key: 'canUpdate', label: 'Update', description: 'Edit existing records' },
+  { key: 'canDelete', label: 'Delete', description: 'Remove records' },
+  { key: 'canApprove', label: 'Approve', description: 'Approve workflows' },
+  { key: 'canExport', label: 'Export', description: 'Export data' },
+  // Field groups of sensitive employee data; without them the fields are masked in responses and exports
+  {
+    key: 'canViewCompensation',
+    label: 'Compensation',
+    description: 'See salaries and salary changes (employees)',
+    modules: ['employees'],
+  },
+  {
+    key: 'canViewGovernmentIds',
+    label: 'Gov IDs',
+    description: 'See Aadhar, PAN and UAN numbers (employees)',
+    modules: ['employees'],
+  },
+  {
+    key: 'canViewBankDetails',
+    label: 'Bank',
+    description: 'See bank account numbers and IFSC codes (employees)',
+    modules: ['employees'],
+  },
+  {
+    key: 'canViewFamilyDetails',
+    label: 'Family',
+    description: 'See parents, family address and siblings (employees)',
+    modules: ['employees'],
+  },
+];
+
+// Modules whose records belong to an employee; their permissions only reach the employees in the data scope
+const DATA_SCOPE_MODULES = ['employees', 'attendance', 'leave'];
+
+const DATA_SCOPE_OPTIONS: { value: DataScope; label: string }[] = [
+  { value: 'own', label: 'Own record' },
+  { value: 'reports', label: 'Direct & indirect reports' },
+  { value: 'department', label: 'Own department' },
+  { value: 'branch', label: 'Own branch' },
+  { value: 'organization', label: 'Whole organization' },
 ];
 
 export function ManagePermissionsDialog({
@@ -81,6 +137,7 @@ export function ManagePermissionsDialog({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [loading, setLoading] = useState(false);
   const [permissions, setPermissions] = useState<Map<string, PermissionSet>>(new Map());
+  const [dataScopes, setDataScopes] = useState<Map<string, DataScope>>(new Map());
 
   // Filter modules to only show those enabled for the organization
   const enabledModules = useMemo(() => {
@@ -131,6 +188,7 @@ export function ManagePermissionsDialog({
 
       // Convert permissions array to Map
       const permMap = new Map<string, PermissionSet>();
+      const scopeMap = new Map<string, DataScope>();
 
       // Initialize only enabled org modules with default permissions
       enabledModules.forEach((module) => {
@@ -143,13 +201,19 @@ export function ManagePermissionsDialog({
             canDelete: existingPerm.canDelete,
             canApprove: existingPerm.canApprove,
             canExport: existingPerm.canExport,
+            canViewCompensation: existingPerm.canViewCompensation,
+            canViewGovernmentIds: existingPerm.canViewGovernmentIds,
+            canViewBankDetails: existingPerm.canViewBankDetails,
+            canViewFamilyDetails: existingPerm.canViewFamilyDetails,
           });
+          scopeMap.set(module.code, existingPerm.dataScope || 'organization');
         } else {
           permMap.set(module.code, { ...DEFAULT_PERMISSIONS });
         }
       });
 
       setPermissions(permMap);
+      setDataScopes(scopeMap);
     } catch (error) {
       toast.error('Failed to load permissions');
       console.error(error);
@@ -232,6 +296,10 @@ export function ManagePermissionsDialog({
     });
   };
 
+  const updateDataScope = (moduleCode: string, scope: DataScope) => {
+    setDataScopes(prev => new Map(prev).set(moduleCode, scope));
+  };
+
   const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
@@ -239,6 +307,7 @@ export function ManagePermissionsDialog({
       const permissionsArray = Array.from(permissions.entries()).map(([moduleCode, perms]) => ({
         moduleCode,
         ...perms,
+        dataScope: dataScopes.get(moduleCode) || 'organization',
       }));
 
       await updateOrgRolePermissions(orgSlug, role.id, { permissions: permissionsArray });
@@ -307,6 +376,9 @@ export function ManagePermissionsDialog({
                           </div>
                         </th>
                       ))}
+                      <th className="px-4 py-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                        Data Scope
+                      </th>
                       <th className="px-4 py-3 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">
                         Quick Actions
                       </th>
@@ -335,6 +407,14 @@ export function ManagePermissionsDialog({
                             const isReadAction = action.key === 'canRead';
                             const isLockedDependency = isReadAction && isRequiredDependency(module.code);
 
+                            if (action.modules && !action.modules.includes(module.code)) {
+                              return (
+                                <td key={action.key} className="px-4 py-4 text-center text-gray-300">
+                                  —
+                                </td>
+                              );
+                            }
+
                             return (
                               <td key={action.key} className="px-4 py-4 text-center">
                                 <div className="flex justify-center items-center gap-1">
@@ -361,6 +441,28 @@ export function ManagePermissionsDialog({
                               </td>
                             );
                           })}
+                          <td className="px-4 py-4 text-center">
+                            {DATA_SCOPE_MODULES.includes(module.code) ? (
+                              <Select
+                                value={dataScopes.get(module.code) || 'organization'}
+                                onValueChange={(value) => updateDataScope(module.code, value as DataScope)}
+                                disabled={isSubmitting}
+                              >
+                                <SelectTrigger className="h-8 w-[190px] text-xs">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {DATA_SCOPE_OPTIONS.map((option) => (
+                                    <SelectItem key={option.value} value={option.value}>
+                                      {option.label}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              <span className="text-gray-300">—</span>
+                            )}
+                          </td>
                           <td className="px-4 py-4">
                             <div className="flex justify-center gap-2">
                               <Button
@@ -405,6 +507,13 @@ export function ManagePermissionsDialog({
                     <span className="text-gray-600 ml-1">{action.description}</span>
                   </div>
                 ))}
+                <div>
+                  <span className="font-semibold text-gray-700">Data Scope:</span>
+                  <span className="text-gray-600 ml-1">
+                    Which employees&apos; records the permissions reach (employees, attendance, leave). Every scope
+                    includes the user&apos;s own record; reports follow the organizational position tree
+                  </span>
+                </div>
               </div>
 
               {/* Add dependency legend */}
@@ -189,6 +189,11 @@ export default function OrgRolesPage() {
                           System
                         </span>
                       )}
+                      {role.requireTwoFactor && (
+                        <span className="px-2 py-1 text-xs font-medium bg-green-100 text-green-700 rounded">
+                          2FA Required
+                        </span>
+                      )}
                       {!role.isActive && (
                         <span className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded">
                           Inactive
@@ -237,7 +242,6 @@ export default function OrgRolesPage() {
                         variant="outline"
                         size="sm"
                         onClick={() => handleEdit(role)}
-                        disabled={role.isSystem}
                       >
                         <Edit className="w-4 h-4" />
                       </Button>
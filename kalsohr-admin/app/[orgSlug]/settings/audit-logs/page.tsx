@@ -0,0 +1,51 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { History, Shield } from 'lucide-react';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { PageLoader } from '@/components/ui/page-loader';
+import { AuditLogViewer } from '@/components/ui/audit-log-viewer';
+import { getAuditLogs, getAuditEntityTypes } from '@/lib/api/org/audit-logs';
+
+export default function AuditLogsPage() {
+  const params = useParams();
+  const orgSlug = params.orgSlug as string;
+
+  const { hasPermission, isLoading: permissionLoading } = useOrgPermissions();
+  const canRead = hasPermission('settings', 'canRead');
+
+  if (permissionLoading) {
+    return <PageLoader />;
+  }
+
+  if (!canRead) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="text-center">
+          <Shield className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">You don&apos;t have permission to view the audit trail.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center gap-3">
+          <History className="w-8 h-8 text-blue-600" />
+          Audit Trail
+        </h1>
+        <p className="text-gray-600 mt-2">
+          Who changed what and when across your organization
+        </p>
+      </div>
+
+      <AuditLogViewer
+        fetchLogs={(filters) => getAuditLogs(orgSlug, filters)}
+        fetchEntityTypes={() => getAuditEntityTypes(orgSlug)}
+      />
+    </div>
+  );
+}
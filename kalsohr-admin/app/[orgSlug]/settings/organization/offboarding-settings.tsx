@@ -0,0 +1,224 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LogOut, Plus, Save, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { updateOrganizationSettings } from '@/lib/api/org/organization';
+import {
+  getOffboardingChecklistTemplate,
+  updateOffboardingChecklistTemplate,
+  ChecklistTemplateItem,
+  OffboardingCategory,
+  OFFBOARDING_CATEGORY_LABELS,
+} from '@/lib/api/org/employee-offboarding';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+interface OffboardingSettingsProps {
+  orgSlug: string;
+  defaultNoticePeriodDays: number;
+  // Called after the notice period was saved, so the page reloads the organization
+  onSaved: () => void;
+}
+
+/**
+ * Offboarding settings: default notice period and the exit checklist new offboardings start with
+ */
+export function OffboardingSettings({ orgSlug, defaultNoticePeriodDays, onSaved }: OffboardingSettingsProps) {
+  const { hasPermission } = useOrgPermissions();
+  const canUpdateSettings = hasPermission('settings', 'canUpdate');
+  const canUpdateChecklist = hasPermission('employees', 'canUpdate');
+
+  const [noticePeriodDays, setNoticePeriodDays] = useState(String(defaultNoticePeriodDays));
+  const [savingNoticePeriod, setSavingNoticePeriod] = useState(false);
+
+  const [items, setItems] = useState<ChecklistTemplateItem[]>([]);
+  const [categories, setCategories] = useState<OffboardingCategory[]>([]);
+  const [isDefault, setIsDefault] = useState(false);
+  const [checklistChanged, setChecklistChanged] = useState(false);
+  const [savingChecklist, setSavingChecklist] = useState(false);
+
+  useEffect(() => {
+    setNoticePeriodDays(String(defaultNoticePeriodDays));
+  }, [defaultNoticePeriodDays]);
+
+  useEffect(() => {
+    loadChecklist();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug]);
+
+  const loadChecklist = async () => {
+    try {
+      const template = await getOffboardingChecklistTemplate(orgSlug);
+      setItems(template.items);
+      setCategories(template.categories);
+      setIsDefault(template.isDefault);
+      setChecklistChanged(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load offboarding checklist');
+    }
+  };
+
+  const handleSaveNoticePeriod = async () => {
+    try {
+      setSavingNoticePeriod(true);
+      await updateOrganizationSettings(orgSlug, { defaultNoticePeriodDays: parseInt(noticePeriodDays) || 0 });
+      toast.success('Notice period updated successfully');
+      onSaved();
+    } catch (error) {
+      console.error('Failed to update notice period:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update settings');
+    } finally {
+      setSavingNoticePeriod(false);
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<ChecklistTemplateItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+    setChecklistChanged(true);
+  };
+
+  const handleAddItem = () => {
+    setItems([...items, { title: '', category: 'other' }]);
+    setChecklistChanged(true);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+    setChecklistChanged(true);
+  };
+
+  const handleSaveChecklist = async () => {
+    try {
+      setSavingChecklist(true);
+      const template = await updateOffboardingChecklistTemplate(orgSlug, items);
+      setItems(template.items);
+      setIsDefault(template.isDefault);
+      setChecklistChanged(false);
+      toast.success('Offboarding checklist updated successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update offboarding checklist');
+    } finally {
+      setSavingChecklist(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-blue-600 rounded-lg">
+            <LogOut className="w-5 h-5 text-white" />
+          </div>
+          <div>
+            <CardTitle>Offboarding</CardTitle>
+            <CardDescription className="mt-1">
+              Notice period and exit checklist used when an employee&apos;s offboarding is started.
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="pt-6 space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="defaultNoticePeriodDays" className="text-sm font-medium text-gray-700">
+            Default notice period (days)
+          </Label>
+          <div className="flex gap-3">
+            <Input
+              id="defaultNoticePeriodDays"
+              type="number"
+              min="0"
+              max="365"
+              value={noticePeriodDays}
+              onChange={(e) => setNoticePeriodDays(e.target.value)}
+              className="w-32"
+              disabled={!canUpdateSettings}
+            />
+            {canUpdateSettings && (
+              <Button
+                onClick={handleSaveNoticePeriod}
+                disabled={savingNoticePeriod || noticePeriodDays === String(defaultNoticePeriodDays)}
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {savingNoticePeriod ? 'Saving...' : 'Save'}
+              </Button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500">The last working day defaults to the notice date plus this period.</p>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <Label className="text-sm font-medium text-gray-700">Exit checklist</Label>
+            <p className="text-xs text-gray-500 mt-1">
+              {isDefault
+                ? 'The default checklist is used until you save your own.'
+                : 'Changes apply to offboardings started afterwards.'}
+            </p>
+          </div>
+
+          {items.map((item, index) => (
+            <div key={index} className="flex gap-3">
+              <Input
+                value={item.title}
+                onChange={(e) => updateItem(index, { title: e.target.value })}
+                placeholder="e.g. Return laptop"
+                disabled={!canUpdateChecklist}
+              />
+              <Select
+                value={item.category}
+                onValueChange={(value) => updateItem(index, { category: value as OffboardingCategory })}
+                disabled={!canUpdateChecklist}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {OFFBOARDING_CATEGORY_LABELS[category] || category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canUpdateChecklist && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove item"
+                  onClick={() => handleRemoveItem(index)}
+                  disabled={items.length === 1}
+                >
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              )}
+            </div>
+          ))}
+
+          {canUpdateChecklist && (
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={handleAddItem}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Item
+              </Button>
+              <Button onClick={handleSaveChecklist} disabled={savingChecklist || !checklistChanged}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingChecklist ? 'Saving...' : 'Save Checklist'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
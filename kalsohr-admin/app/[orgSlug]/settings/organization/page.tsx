@@ -5,6 +5,8 @@ import { useParams } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
 import { PageLoader } from '@/components/ui/page-loader';
 import {
   Select,
@@ -18,11 +20,15 @@ import {
   Clock,
   Save,
   Info,
+  FileWarning,
+  Hash,
 } from 'lucide-react';
 import { getOrganizationProfile, updateOrganizationSettings } from '@/lib/api/org/organization';
+import { previewEmployeeCode } from '@/lib/api/org/employees';
 import { OrganizationProfileData } from '@/lib/types/organization';
 import { toast } from 'sonner';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+import { OffboardingSettings } from './offboarding-settings';
 
 // Common timezones grouped by region
 const TIMEZONE_OPTIONS = [
@@ -62,6 +68,12 @@ export default function OrganizationSettingsPage() {
   const [profileData, setProfileData] = useState<OrganizationProfileData | null>(null);
   const [timezone, setTimezone] = useState<string>('UTC');
   const [hasChanges, setHasChanges] = useState(false);
+  const [reminderDays, setReminderDays] = useState<string>('30,7,0');
+  const [savingReminders, setSavingReminders] = useState(false);
+  const [autoEmployeeCodes, setAutoEmployeeCodes] = useState(false);
+  const [employeeCodePattern, setEmployeeCodePattern] = useState<string>('{ORG}-{SEQ:4}');
+  const [patternPreview, setPatternPreview] = useState<string | null>(null);
+  const [savingEmployeeCodes, setSavingEmployeeCodes] = useState(false);
 
   useEffect(() => {
     loadOrganizationData();
@@ -73,6 +85,10 @@ export default function OrganizationSettingsPage() {
       const data = await getOrganizationProfile(orgSlug);
       setProfileData(data);
       setTimezone(data.organization.timezone || 'UTC');
+      setReminderDays(data.organization.documentReminderDays || '30,7,0');
+      setAutoEmployeeCodes(!!data.organization.employeeCodeAutoGenerate);
+      setEmployeeCodePattern(data.organization.employeeCodePattern || '{ORG}-{SEQ:4}');
+      setPatternPreview(null);
     } catch (error) {
       console.error('Failed to load organization data:', error);
       toast.error('Failed to load organization settings');
@@ -107,6 +123,46 @@ export default function OrganizationSettingsPage() {
     }
   };
 
+  const handleSaveReminderDays = async () => {
+    try {
+      setSavingReminders(true);
+      await updateOrganizationSettings(orgSlug, { documentReminderDays: reminderDays });
+      toast.success('Document reminder settings updated successfully');
+      await loadOrganizationData();
+    } catch (error) {
+      console.error('Failed to update document reminder settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update settings');
+    } finally {
+      setSavingReminders(false);
+    }
+  };
+
+  const handlePreviewPattern = async () => {
+    try {
+      const preview = await previewEmployeeCode(orgSlug, { pattern: employeeCodePattern });
+      setPatternPreview(preview.code ? `Next code: ${preview.code}` : preview.error);
+    } catch (error) {
+      setPatternPreview(error instanceof Error ? error.message : 'Invalid pattern');
+    }
+  };
+
+  const handleSaveEmployeeCodes = async () => {
+    try {
+      setSavingEmployeeCodes(true);
+      await updateOrganizationSettings(orgSlug, {
+        employeeCodeAutoGenerate: autoEmployeeCodes,
+        employeeCodePattern,
+      });
+      toast.success('Employee code settings updated successfully');
+      await loadOrganizationData();
+    } catch (error) {
+      console.error('Failed to update employee code settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update settings');
+    } finally {
+      setSavingEmployeeCodes(false);
+    }
+  };
+
   const handleCancel = () => {
     setTimezone(profileData?.organization.timezone || 'UTC');
     setHasChanges(false);
@@ -243,6 +299,134 @@ export default function OrganizationSettingsPage() {
         </CardContent>
       </Card>
 
+      {/* Document Reminders Card */}
+      <Card className="mb-6">
+        <CardHeader className="border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-lg">
+              <FileWarning className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle>Document Expiry Reminders</CardTitle>
+              <CardDescription className="mt-1">
+                HR and the employee are emailed when an employee document reaches each of these days before expiry (0 = on expiry).
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <div className="space-y-2">
+            <Label htmlFor="reminderDays" className="text-sm font-medium text-gray-700">
+              Days before expiry
+            </Label>
+            <div className="flex gap-3">
+              <Input
+                id="reminderDays"
+                value={reminderDays}
+                onChange={(e) => setReminderDays(e.target.value)}
+                placeholder="30,7,0"
+                disabled={!canUpdate}
+              />
+              {canUpdate && (
+                <Button
+                  onClick={handleSaveReminderDays}
+                  disabled={savingReminders || reminderDays === (organization.documentReminderDays || '30,7,0')}
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {savingReminders ? 'Saving...' : 'Save'}
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">Up to 5 comma-separated values between 0 and 365.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Employee Codes Card */}
+      <Card className="mb-6">
+        <CardHeader className="border-b border-gray-200 bg-gray-50">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-600 rounded-lg">
+              <Hash className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle>Employee Codes</CardTitle>
+              <CardDescription className="mt-1">
+                Generate employee codes from a pattern when an employee is added or imported without a code.
+              </CardDescription>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="autoEmployeeCodes" className="text-sm font-medium text-gray-700">
+                Generate employee codes automatically
+              </Label>
+              <p className="text-xs text-gray-500 mt-1">
+                When off, every employee code is entered manually.
+              </p>
+            </div>
+            <Switch
+              id="autoEmployeeCodes"
+              checked={autoEmployeeCodes}
+              onCheckedChange={setAutoEmployeeCodes}
+              disabled={!canUpdate}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="employeeCodePattern" className="text-sm font-medium text-gray-700">
+              Pattern
+            </Label>
+            <div className="flex gap-3">
+              <Input
+                id="employeeCodePattern"
+                value={employeeCodePattern}
+                onChange={(e) => {
+                  setEmployeeCodePattern(e.target.value);
+                  setPatternPreview(null);
+                }}
+                placeholder="{ORG}-{BRANCH}-{YYYY}-{SEQ:4}"
+                disabled={!canUpdate}
+              />
+              <Button type="button" variant="outline" onClick={handlePreviewPattern}>
+                Preview
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Tokens: {'{ORG}'} organization code, {'{BRANCH}'} and {'{DEPT}'} branch and department codes,{' '}
+              {'{YYYY}'}, {'{YY}'} and {'{MM}'} joining date, {'{SEQ:4}'} sequence padded to 4 digits (required).
+              Each branch, department or year in the pattern numbers from 1.
+            </p>
+            {patternPreview && <p className="text-sm text-gray-700">{patternPreview}</p>}
+          </div>
+
+          {canUpdate && (
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSaveEmployeeCodes}
+                disabled={
+                  savingEmployeeCodes ||
+                  (autoEmployeeCodes === !!organization.employeeCodeAutoGenerate &&
+                    employeeCodePattern === (organization.employeeCodePattern || '{ORG}-{SEQ:4}'))
+                }
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {savingEmployeeCodes ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Offboarding Card */}
+      <OffboardingSettings
+        orgSlug={orgSlug}
+        defaultNoticePeriodDays={organization.defaultNoticePeriodDays ?? 30}
+        onSaved={loadOrganizationData}
+      />
+
       {/* Organization Info Card (Read-only) */}
       <Card>
         <CardHeader className="border-b border-gray-200 bg-gray-50">
@@ -2,7 +2,7 @@
 
 import { useParams, useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { Globe, User, ChevronRight } from 'lucide-react';
+import { Globe, User, History, ChevronRight } from 'lucide-react';
 import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import { PageLoader } from '@/components/ui/page-loader';
 
@@ -42,6 +42,15 @@ export default function SettingsPage() {
       moduleCode: 'settings',
       permissionType: 'canRead',
     },
+    {
+      title: 'Audit Trail',
+      description: 'Review who changed what and when, with before/after values',
+      icon: History,
+      href: `/${orgSlug}/settings/audit-logs`,
+      iconBgColor: 'bg-amber-600',
+      moduleCode: 'settings',
+      permissionType: 'canRead',
+    },
   ];
 
   if (isLoading) {
@@ -27,6 +27,7 @@ import { Loader2, Upload, ChevronLeft, ChevronRight, Check } from 'lucide-react'
 import { Organization, UpdateOrganizationProfileData } from '@/lib/types/organization';
 import { updateOrganizationProfile } from '@/lib/api/org/organization';
 import { getAllCities } from '@/lib/api/org/locations';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 
 const formSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
@@ -64,6 +65,7 @@ export function EditProfileDialog({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [logoFile, setLogoFile] = useState<File | null>(null);
   const [logoPreview, setLogoPreview] = useState<string | null>(null);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [organization?.logo]);
   const [cities, setCities] = useState<any[]>([]);
   const [loadingCities, setLoadingCities] = useState(false);
 
@@ -227,7 +229,7 @@ export function EditProfileDialog({
               <img src={logoPreview} alt="Logo preview" className="w-full h-full object-cover" />
             ) : organization.logo ? (
               <img
-                src={`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}${organization.logo}`}
+                src={getFileUrl(organization.logo)}
                 alt="Current logo"
                 className="w-full h-full object-cover"
               />
@@ -24,15 +24,18 @@ import { getOrganizationProfile } from '@/lib/api/org/organization';
 import { OrganizationProfileData } from '@/lib/types/organization';
 import { toast } from 'sonner';
 import { EditProfileDialog } from './edit-profile-dialog';
+import { StorageUsageBar } from '@/components/ui/storage-usage-bar';
+import { useSignedFileUrls } from '@/lib/hooks/useSignedFileUrls';
 
 interface StatCardProps {
   icon: any;
   label: string;
-  value: number | string;
+  value?: number | string;
   color: 'blue' | 'green' | 'purple' | 'indigo';
+  children?: React.ReactNode; // Replaces the plain value
 }
 
-const StatCard = ({ icon: Icon, label, value, color }: StatCardProps) => {
+const StatCard = ({ icon: Icon, label, value, color, children }: StatCardProps) => {
   const colorClasses = {
     blue: 'bg-blue-100 text-blue-600',
     green: 'bg-green-100 text-green-600',
@@ -51,7 +54,7 @@ const StatCard = ({ icon: Icon, label, value, color }: StatCardProps) => {
         </div>
       </CardHeader>
       <CardContent>
-        <p className="text-3xl font-bold text-gray-900">{value}</p>
+        {children ?? <p className="text-3xl font-bold text-gray-900">{value}</p>}
       </CardContent>
     </Card>
   );
@@ -64,6 +67,7 @@ export default function OrganizationProfilePage() {
   const [profileData, setProfileData] = useState<OrganizationProfileData | null>(null);
   const [loading, setLoading] = useState(true);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  const { getFileUrl } = useSignedFileUrls(orgSlug, [profileData?.organization.logo]);
 
   const fetchProfile = async () => {
     setLoading(true);
@@ -111,7 +115,7 @@ export default function OrganizationProfilePage() {
             <div className="w-32 h-32 rounded-2xl overflow-hidden bg-gradient-to-br from-blue-600 to-indigo-600 flex-shrink-0 shadow-lg">
               {organization.logo ? (
                 <img
-                  src={`${process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000'}${organization.logo}`}
+                  src={getFileUrl(organization.logo)}
                   alt={organization.name}
                   className="w-full h-full object-cover"
                 />
@@ -174,12 +178,9 @@ export default function OrganizationProfilePage() {
             value={statistics.totalEmployees}
             color="green"
           />
-          <StatCard
-            icon={HardDrive}
-            label="Storage Used"
-            value={`${statistics.storageUsedMb} MB`}
-            color="purple"
-          />
+          <StatCard icon={HardDrive} label="Storage Used" color="purple">
+            <StorageUsageBar usage={statistics.storageUsage} />
+          </StatCard>
           <StatCard
             icon={Grid3x3}
             label="Enabled Modules"
@@ -13,19 +13,31 @@ import { toast } from 'sonner';
 import { createOrgUser } from '@/lib/api/org/users';
 import { OrgRole } from '@/lib/types/org';
 import { Eye, EyeOff } from 'lucide-react';
+import { passwordSchema } from '@/components/forms';
 
 const schema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number'),
+  password: z.string().optional(),
+  sendInvite: z.boolean(),
   phone: z.string().optional(),
   roleId: z.number().optional(),
   isActive: z.boolean(),
-});
+}).superRefine(
+  (data, ctx) => {
+    // Invited users set their own password from the invitation email
+    if (data.sendInvite) return;
+    const result = passwordSchema.safeParse(data.password ?? '');
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: result.error.issues[0].message,
+        path: ['password'],
+      });
+    }
+  }
+);
 
 type FormData = z.infer<typeof schema>;
 
@@ -58,15 +70,19 @@ export function CreateUserDialog({
     resolver: zodResolver(schema),
     defaultValues: {
       isActive: true,
+      sendInvite: false,
     },
   });
 
+  const sendInvite = watch('sendInvite');
+
   const onSubmit = async (data: FormData) => {
     setIsSubmitting(true);
     try {
       await createOrgUser(orgSlug, {
         email: data.email,
-        password: data.password,
+        password: data.sendInvite ? undefined : data.password,
+        sendInvite: data.sendInvite,
         firstName: data.firstName,
         lastName: data.lastName,
         phone: data.phone,
@@ -74,7 +90,7 @@ export function CreateUserDialog({
         isActive: data.isActive,
       });
 
-      toast.success('User created successfully');
+      toast.success(data.sendInvite ? 'User created and invitation sent' : 'User created successfully');
       reset();
       onOpenChange(false);
       onSuccess();
@@ -159,32 +175,46 @@ export function CreateUserDialog({
               />
               {errors.email && <p className="text-xs text-red-600">{errors.email.message}</p>}
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="password" className="text-sm font-medium text-gray-700">
-                Password <span className="text-red-500">*</span>
+            <div className="flex items-center space-x-3">
+              <input
+                type="checkbox"
+                id="sendInvite"
+                {...register('sendInvite')}
+                disabled={isSubmitting}
+                className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <Label htmlFor="sendInvite" className="text-sm font-medium text-gray-700 cursor-pointer">
+                Send invite email (user sets their own password)
               </Label>
-              <div className="relative">
-                <Input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  {...register('password')}
-                  disabled={isSubmitting}
-                  className="h-11 pr-10"
-                  placeholder="Strong password"
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                >
-                  {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                </button>
-              </div>
-              {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
-              <p className="text-xs text-gray-500">
-                Password must be at least 8 characters with uppercase, lowercase, and numbers
-              </p>
             </div>
+            {!sendInvite && (
+              <div className="space-y-2">
+                <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                  Password <span className="text-red-500">*</span>
+                </Label>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    {...register('password')}
+                    disabled={isSubmitting}
+                    className="h-11 pr-10"
+                    placeholder="Strong password"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  >
+                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                  </button>
+                </div>
+                {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
+                <p className="text-xs text-gray-500">
+                  Password must be at least 8 characters with uppercase, lowercase, and numbers
+                </p>
+              </div>
+            )}
           </div>
 
           {/* Role Assignment */}
@@ -10,9 +10,12 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { updateOrgUser } from '@/lib/api/org/users';
+import { updateOrgUser, unlockOrgUser, resendOrgUserInvite, resetOrgUserTwoFactor } from '@/lib/api/org/users';
 import { OrgUser, OrgRole } from '@/lib/types/org';
 import { Eye, EyeOff } from 'lucide-react';
+import { AccountLockAlert } from '@/components/ui/account-lock-alert';
+import { InvitePendingAlert } from '@/components/ui/invite-pending-alert';
+import { TwoFactorResetAlert } from '@/components/ui/two-factor-reset-alert';
 
 const schema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
@@ -124,6 +127,35 @@ export function EditUserDialog({
           </p>
         </DialogHeader>
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6 pt-4">
+          {/* Lockout Status */}
+          <AccountLockAlert
+            failedLoginAttempts={user.failedLoginAttempts}
+            lockedUntil={user.lockedUntil}
+            onUnlock={async () => {
+              await unlockOrgUser(orgSlug, user.id);
+              onSuccess();
+            }}
+            disabled={isSubmitting}
+          />
+
+          {/* Activation Status */}
+          <InvitePendingAlert
+            emailVerified={user.emailVerified}
+            lastLoginAt={user.lastLoginAt}
+            onResend={() => resendOrgUserInvite(orgSlug, user.id)}
+            disabled={isSubmitting}
+          />
+
+          {/* Two-Factor Status */}
+          <TwoFactorResetAlert
+            twoFactorEnabled={user.twoFactorEnabled}
+            onReset={async () => {
+              await resetOrgUserTwoFactor(orgSlug, user.id);
+              onSuccess();
+            }}
+            disabled={isSubmitting}
+          />
+
           {/* Non-editable Fields Display */}
           <div className="space-y-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
             <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Account Information</h3>
@@ -0,0 +1,103 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { Loader2, XCircle } from 'lucide-react';
+import { acceptInvite, getInvite } from '@/lib/api/auth';
+import { InviteDetails } from '@/lib/types/auth';
+import { SetPasswordForm } from '@/components/forms';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+function AcceptInviteContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [invite, setInvite] = useState<InviteDetails | null>(null);
+  const [isLoadingInvite, setIsLoadingInvite] = useState(!!token);
+  const [error, setError] = useState<string | null>(
+    token ? null : 'This invitation link is invalid.'
+  );
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    getInvite(token)
+      .then(setInvite)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load invitation'))
+      .finally(() => setIsLoadingInvite(false));
+  }, [token]);
+
+  const handleSubmit = async (password: string) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      await acceptInvite(token, password);
+      toast.success('Your account is ready. Please sign in.');
+      router.push('/login');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to accept invitation');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md shadow-lg">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+          {invite?.organization ? `Join ${invite.organization.name}` : 'Accept Invitation'}
+        </CardTitle>
+        <CardDescription className="text-center">
+          {invite
+            ? `Welcome${invite.firstName ? `, ${invite.firstName}` : ''}! Set a password for ${invite.email}`
+            : 'Set a password to activate your account'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoadingInvite ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+          </div>
+        ) : error ? (
+          <div className="flex flex-col items-center gap-3 text-center">
+            <XCircle className="w-12 h-12 text-red-600" />
+            <p className="text-sm text-gray-700">{error}</p>
+            <p className="text-xs text-gray-500">Ask your administrator to resend the invitation.</p>
+          </div>
+        ) : (
+          <SetPasswordForm
+            onSubmit={handleSubmit}
+            submitLabel="Activate account"
+            isLoading={isLoading}
+          />
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/login" className="text-sm text-blue-600 hover:underline font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AcceptInvitePage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 px-4">
+      <Suspense>
+        <AcceptInviteContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -1,12 +1,14 @@
 'use client';
 
 import { useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { toast } from 'sonner';
 import { useAuthStore } from '@/lib/stores/auth-store';
+import { TwoFactorCodeForm } from '@/components/forms';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -27,8 +29,9 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 export default function LoginPage() {
   const router = useRouter();
-  const { login } = useAuthStore();
+  const { login, verifyTwoFactor } = useAuthStore();
   const [isLoading, setIsLoading] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
 
   const {
     register,
@@ -39,29 +42,58 @@ export default function LoginPage() {
     resolver: zodResolver(loginSchema),
   });
 
+  const completeSignIn = () => {
+    const { user } = useAuthStore.getState();
+
+    // Block super admins from this login page
+    if (user?.isSuperAdmin) {
+      toast.error('Super admins must use the admin login at /superadmin/login');
+      useAuthStore.getState().logout();
+      return;
+    }
+
+    // Roles that make two-factor mandatory send unenrolled users to set it up first
+    if (user?.twoFactor?.setupRequired) {
+      toast.info('Your role requires two-factor authentication. Please set it up to continue.');
+      router.push('/two-factor-setup');
+      return;
+    }
+
+    // Redirect organization users to their dashboard
+    if (user?.organization?.slug) {
+      toast.success('Welcome back!');
+      router.push(`/${user.organization.slug}/dashboard`);
+    } else {
+      toast.error('No organization found for this account');
+    }
+  };
+
+  const onVerifyCode = async (code: string) => {
+    if (!challengeToken) return;
+    setIsLoading(true);
+    try {
+      await verifyTwoFactor(challengeToken, code);
+      completeSignIn();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Verification failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setIsLoading(true);
     try {
       // Login without orgSlug
-      await login(data);
+      const challenge = await login(data);
 
-      const { user } = useAuthStore.getState();
-
-      // Block super admins from this login page
-      if (user?.isSuperAdmin) {
-        toast.error('Super admins must use the admin login at /superadmin/login');
-        useAuthStore.getState().logout();
-        setIsLoading(false);
+      // Two-factor accounts continue with a code step
+      if (challenge) {
+        setChallengeToken(challenge.challengeToken);
         return;
       }
 
-      // Redirect organization users to their dashboard
-      if (user?.organization?.slug) {
-        toast.success('Welcome back!');
-        router.push(`/${user.organization.slug}/dashboard`);
-      } else {
-        toast.error('No organization found for this account');
-      }
+      completeSignIn();
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Login failed');
     } finally {
@@ -81,43 +113,56 @@ export default function LoginPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="your.email@company.com"
-                {...register('email')}
-                disabled={isLoading}
-              />
-              {errors.email && (
-                <p className="text-sm text-red-500">{errors.email.message}</p>
-              )}
-            </div>
+          {challengeToken ? (
+            <TwoFactorCodeForm
+              onSubmit={onVerifyCode}
+              onCancel={() => setChallengeToken(null)}
+              isLoading={isLoading}
+            />
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="your.email@company.com"
+                  {...register('email')}
+                  disabled={isLoading}
+                />
+                {errors.email && (
+                  <p className="text-sm text-red-500">{errors.email.message}</p>
+                )}
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                placeholder="••••••••"
-                {...register('password')}
-                disabled={isLoading}
-              />
-              {errors.password && (
-                <p className="text-sm text-red-500">{errors.password.message}</p>
-              )}
-            </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link href="/forgot-password" className="text-sm text-blue-600 hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+                <Input
+                  id="password"
+                  type="password"
+                  placeholder="••••••••"
+                  {...register('password')}
+                  disabled={isLoading}
+                />
+                {errors.password && (
+                  <p className="text-sm text-red-500">{errors.password.message}</p>
+                )}
+              </div>
 
-            <Button
-              type="submit"
-              className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
-              disabled={isLoading}
-            >
-              {isLoading ? 'Signing in...' : 'Sign in'}
-            </Button>
-          </form>
+              <Button
+                type="submit"
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                disabled={isLoading}
+              >
+                {isLoading ? 'Signing in...' : 'Sign in'}
+              </Button>
+            </form>
+          )}
 
           <div className="mt-4">
             <div className="relative">
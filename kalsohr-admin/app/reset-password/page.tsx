@@ -0,0 +1,79 @@
+'use client';
+
+import { Suspense, useState } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { toast } from 'sonner';
+import { resetPassword } from '@/lib/api/auth';
+import { SetPasswordForm } from '@/components/forms';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+function ResetPasswordContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (password: string) => {
+    if (!token) return;
+
+    setIsLoading(true);
+    try {
+      await resetPassword(token, password);
+      toast.success('Password reset successfully. Please sign in with your new password.');
+      router.push('/login');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset password');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md shadow-lg">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+          Reset Password
+        </CardTitle>
+        <CardDescription className="text-center">
+          Choose a new password for your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {token ? (
+          <SetPasswordForm
+            onSubmit={handleSubmit}
+            submitLabel="Reset password"
+            isLoading={isLoading}
+          />
+        ) : (
+          <p className="text-sm text-center text-red-600">
+            This reset link is invalid. Please request a new one.
+          </p>
+        )}
+
+        <div className="mt-6 text-center">
+          <Link href="/forgot-password" className="text-sm text-blue-600 hover:underline font-medium">
+            Request a new link
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 px-4">
+      <Suspense>
+        <ResetPasswordContent />
+      </Suspense>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { DashboardLayout } from '@/components/layout/dashboard-layout';
+import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
+import { AuditLogViewer } from '@/components/ui/audit-log-viewer';
+import { getPlatformAuditLogs, getPlatformAuditEntityTypes } from '@/lib/api/audit-logs';
+import { getOrganizations } from '@/lib/api/organizations';
+import { Organization } from '@/lib/types/organization';
+
+export default function AuditLogsPage() {
+  // Check module access
+  const { hasAccess, isLoading: permissionLoading } = useModuleAccess('audit_logs', true);
+
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+
+  useEffect(() => {
+    const loadOrganizations = async () => {
+      try {
+        const data = await getOrganizations({ limit: 100 });
+        setOrganizations(data.organizations);
+      } catch (error) {
+        console.error('Failed to load organizations:', error);
+      }
+    };
+
+    loadOrganizations();
+  }, []);
+
+  // Don't render until permission check is complete
+  if (permissionLoading || !hasAccess) {
+    return null;
+  }
+
+  return (
+    <DashboardLayout requireSuperAdmin>
+      <div className="space-y-8">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent">
+            Audit Logs
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Changes across all organizations and platform settings
+          </p>
+        </div>
+
+        <AuditLogViewer
+          fetchLogs={getPlatformAuditLogs}
+          fetchEntityTypes={getPlatformAuditEntityTypes}
+          organizations={organizations}
+        />
+      </div>
+    </DashboardLayout>
+  );
+}
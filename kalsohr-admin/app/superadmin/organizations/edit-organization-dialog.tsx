@@ -19,7 +19,8 @@ import { getAllCities, City } from '@/lib/api/masters/cities';
 import { getAllOrganizationTypes, OrganizationType } from '@/lib/api/masters/organization-types';
 import { getAllIndustryTypes, IndustryType } from '@/lib/api/masters/industry-types';
 import { getAllBusinessCategories, BusinessCategory } from '@/lib/api/masters/business-categories';
-import { Organization, SubscriptionPlan } from '@/lib/types/organization';
+import { Organization, SubscriptionPlan, StorageUsage } from '@/lib/types/organization';
+import { StorageUsageBar } from '@/components/ui/storage-usage-bar';
 import { Info, Package } from 'lucide-react';
 
 const schema = z.object({
@@ -79,6 +80,7 @@ export function EditOrganizationDialog({
   const [businessCategories, setBusinessCategories] = useState<BusinessCategory[]>([]);
   const [orgModules, setOrgModules] = useState<OrganizationModuleWithStatus[]>([]);
   const [moduleChanges, setModuleChanges] = useState<Map<number, boolean>>(new Map());
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
   const { register, handleSubmit, formState: { errors }, reset, setValue, watch } = useForm<FormData>({
     resolver: zodResolver(schema),
@@ -137,6 +139,7 @@ export function EditOrganizationDialog({
       setValue('address', fullOrg.address || '');
       setValue('subscriptionPlanId', fullOrg.subscriptionPlanId);
       setValue('status', fullOrg.status);
+      setStorageUsage(fullOrg.storageUsage || null);
 
       // Set location fields
       if (fullOrg.countryId) {
@@ -530,6 +533,12 @@ export function EditOrganizationDialog({
                 </Select>
               </div>
             </div>
+            {storageUsage && (
+              <div className="space-y-2 max-w-sm">
+                <Label className="text-sm font-medium text-gray-700">Storage Used</Label>
+                <StorageUsageBar usage={storageUsage} />
+              </div>
+            )}
           </div>
 
           {/* Modules Section */}
@@ -37,6 +37,7 @@ import { Organization, SubscriptionPlan } from '@/lib/types/organization';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { CreateOrganizationDialog } from './create-organization-dialog';
 import { EditOrganizationDialog } from './edit-organization-dialog';
+import { StorageUsageBar } from '@/components/ui/storage-usage-bar';
 import { usePermissions } from '@/lib/hooks/usePermissions';
 import { useModuleAccess } from '@/lib/hooks/useModuleAccess';
 import { PageLoader } from '@/components/ui/page-loader';
@@ -316,6 +317,7 @@ export default function OrganizationsPage() {
                     <TableHead>Subscription</TableHead>
                     <TableHead>Users</TableHead>
                     <TableHead>Employees</TableHead>
+                    <TableHead>Storage</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead className="text-right">Actions</TableHead>
                   </TableRow>
@@ -361,6 +363,9 @@ export default function OrganizationsPage() {
                         </div>
                       </TableCell>
                       <TableCell>{org._count?.employees || 0}</TableCell>
+                      <TableCell>
+                        {org.storageUsage && <StorageUsageBar usage={org.storageUsage} compact />}
+                      </TableCell>
                       <TableCell>{getStatusBadge(org.status)}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
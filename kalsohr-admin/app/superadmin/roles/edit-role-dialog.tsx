@@ -17,6 +17,7 @@ const schema = z.object({
   code: z.string().min(2, 'Role code must be at least 2 characters').optional(),
   description: z.string().optional(),
   isActive: z.boolean(),
+  requireTwoFactor: z.boolean(),
 });
 
 type FormData = z.infer<typeof schema>;
@@ -46,6 +47,7 @@ export function EditRoleDialog({
     resolver: zodResolver(schema),
     defaultValues: {
       isActive: true,
+      requireTwoFactor: false,
     },
   });
 
@@ -55,22 +57,20 @@ export function EditRoleDialog({
       setValue('code', role.code || '');
       setValue('description', role.description || '');
       setValue('isActive', role.isActive);
+      setValue('requireTwoFactor', role.requireTwoFactor ?? false);
     }
   }, [open, role, setValue]);
 
   const onSubmit = async (data: FormData) => {
-    if (role.isSystem) {
-      toast.error('Cannot edit system roles');
-      return;
-    }
-
     setIsSubmitting(true);
     try {
-      await updateRole(role.id, {
+      // System roles only accept the two-factor requirement
+      await updateRole(role.id, role.isSystem ? { requireTwoFactor: data.requireTwoFactor } : {
         name: data.name,
         code: data.code,
         description: data.description,
         isActive: data.isActive,
+        requireTwoFactor: data.requireTwoFactor,
       });
 
       toast.success('Role updated successfully');
@@ -161,6 +161,28 @@ export function EditRoleDialog({
             </div>
           </div>
 
+          {/* Security */}
+          <div className="space-y-4 pt-4 border-t border-gray-100">
+            <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Security</h3>
+            <div className="flex items-start space-x-3">
+              <input
+                type="checkbox"
+                id="requireTwoFactor"
+                {...register('requireTwoFactor')}
+                disabled={isSubmitting}
+                className="mt-0.5 h-4 w-4 rounded text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <div>
+                <Label htmlFor="requireTwoFactor" className="text-sm font-medium text-gray-700 cursor-pointer">
+                  Require two-factor authentication
+                </Label>
+                <p className="text-xs text-gray-500 mt-1">
+                  Users with this role must set up an authenticator app before they can continue
+                </p>
+              </div>
+            </div>
+          </div>
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-3 pt-6 border-t border-gray-100">
             <Button
@@ -177,7 +199,7 @@ export function EditRoleDialog({
             </Button>
             <Button
               type="submit"
-              disabled={isSubmitting || role.isSystem}
+              disabled={isSubmitting}
               className="px-6 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
             >
               {isSubmitting ? 'Updating...' : 'Update Role'}
@@ -14,15 +14,14 @@ import { createUser } from '@/lib/api/users';
 import { Organization } from '@/lib/types/organization';
 import { getOrganizationRoles, getPlatformRoles, Role } from '@/lib/api/roles';
 import { Eye, EyeOff } from 'lucide-react';
+import { passwordSchema } from '@/components/forms';
 
 const schema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
   lastName: z.string().min(2, 'Last name must be at least 2 characters'),
   email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters')
-    .regex(/[A-Z]/, 'Password must contain at least one uppercase letter')
-    .regex(/[a-z]/, 'Password must contain at least one lowercase letter')
-    .regex(/[0-9]/, 'Password must contain at least one number'),
+  password: z.string().optional(),
+  sendInvite: z.boolean(),
   phone: z.string().optional(),
   isPlatformUser: z.boolean(),
   organizationId: z.number().optional(),
@@ -40,6 +39,19 @@ const schema = z.object({
     message: 'Organization is required for non-platform users',
     path: ['organizationId'],
   }
+).superRefine(
+  (data, ctx) => {
+    // Invited users set their own password from the invitation email
+    if (data.sendInvite) return;
+    const result = passwordSchema.safeParse(data.password ?? '');
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: result.error.issues[0].message,
+        path: ['password'],
+      });
+    }
+  }
 );
 
 type FormData = z.infer<typeof schema>;
@@ -75,12 +87,14 @@ export function CreateUserDialog({
     resolver: zodResolver(schema),
     defaultValues: {
       isActive: true,
+      sendInvite: false,
       isPlatformUser: false,
     },
   });
 
   const selectedOrgId = watch('organizationId');
   const isPlatformUser = watch('isPlatformUser');
+  const sendInvite = watch('sendInvite');
 
   // Fetch platform roles when dialog opens
   useEffect(() => {
@@ -132,7 +146,8 @@ export function CreateUserDialog({
       // Prepare user data
       const userData: any = {
         email: data.email,
-        password: data.password,
+        password: data.sendInvite ? undefined : data.password,
+        sendInvite: data.sendInvite,
         firstName: data.firstName,
         lastName: data.lastName,
         phone: data.phone,
@@ -151,7 +166,11 @@ export function CreateUserDialog({
       }
 
       await createUser(userData);
-      toast.success(data.isPlatformUser ? 'Platform user created successfully' : 'User created successfully');
+      if (data.sendInvite) {
+        toast.success('User created and invitation sent');
+      } else {
+        toast.success(data.isPlatformUser ? 'Platform user created successfully' : 'User created successfully');
+      }
       reset();
       onOpenChange(false);
       onSuccess();
@@ -262,34 +281,50 @@ export function CreateUserDialog({
                 />
                 {errors.email && <p className="text-xs text-red-600">{errors.email.message}</p>}
               </div>
-              <div className="space-y-1.5">
-                <Label htmlFor="password" className="text-sm font-medium text-gray-700">
-                  Password <span className="text-red-500">*</span>
-                </Label>
-                <div className="relative">
-                  <Input
-                    id="password"
-                    type={showPassword ? 'text' : 'password'}
-                    {...register('password')}
-                    disabled={isSubmitting}
-                    className="h-10 pr-10"
-                    placeholder="Strong password"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setShowPassword(!showPassword)}
-                    className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                  >
-                    {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                  </button>
+              {!sendInvite && (
+                <div className="space-y-1.5">
+                  <Label htmlFor="password" className="text-sm font-medium text-gray-700">
+                    Password <span className="text-red-500">*</span>
+                  </Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? 'text' : 'password'}
+                      {...register('password')}
+                      disabled={isSubmitting}
+                      className="h-10 pr-10"
+                      placeholder="Strong password"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                    >
+                      {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                    </button>
+                  </div>
+                  {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
                 </div>
-                {errors.password && <p className="text-xs text-red-600">{errors.password.message}</p>}
-              </div>
+              )}
               <div></div>
             </div>
-            <p className="text-xs text-gray-500 -mt-2">
-              Password must be at least 8 characters with uppercase, lowercase, and numbers
-            </p>
+            {!sendInvite && (
+              <p className="text-xs text-gray-500 -mt-2">
+                Password must be at least 8 characters with uppercase, lowercase, and numbers
+              </p>
+            )}
+            <div className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                id="sendInvite"
+                {...register('sendInvite')}
+                disabled={isSubmitting}
+                className="h-4 w-4 rounded text-blue-600 focus:ring-blue-500 border-gray-300"
+              />
+              <Label htmlFor="sendInvite" className="text-sm font-medium text-gray-700 cursor-pointer">
+                Send invite email (user sets their own password)
+              </Label>
+            </div>
           </div>
 
           {/* Separator line before platform role */}
@@ -10,11 +10,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
-import { updateUser } from '@/lib/api/users';
+import { updateUser, unlockUser, resendInvite, resetUserTwoFactor } from '@/lib/api/users';
 import { User } from '@/lib/types/user';
 import { Organization } from '@/lib/types/organization';
 import { getOrganizationRoles, getPlatformRoles, Role } from '@/lib/api/roles';
 import { Eye, EyeOff, AlertCircle } from 'lucide-react';
+import { AccountLockAlert } from '@/components/ui/account-lock-alert';
+import { InvitePendingAlert } from '@/components/ui/invite-pending-alert';
+import { TwoFactorResetAlert } from '@/components/ui/two-factor-reset-alert';
 
 const schema = z.object({
   firstName: z.string().min(2, 'First name must be at least 2 characters'),
@@ -166,6 +169,35 @@ export function EditUserDialog({
             </div>
           )}
 
+          {/* Lockout Status */}
+          <AccountLockAlert
+            failedLoginAttempts={user.failedLoginAttempts}
+            lockedUntil={user.lockedUntil}
+            onUnlock={async () => {
+              await unlockUser(user.id);
+              onSuccess();
+            }}
+            disabled={isSubmitting}
+          />
+
+          {/* Activation Status */}
+          <InvitePendingAlert
+            emailVerified={user.emailVerified}
+            lastLoginAt={user.lastLoginAt}
+            onResend={() => resendInvite(user.id)}
+            disabled={isSubmitting}
+          />
+
+          {/* Two-Factor Status */}
+          <TwoFactorResetAlert
+            twoFactorEnabled={user.twoFactorEnabled}
+            onReset={async () => {
+              await resetUserTwoFactor(user.id);
+              onSuccess();
+            }}
+            disabled={isSubmitting}
+          />
+
           {/* Non-editable Fields Display */}
           <div className="space-y-4 bg-gray-50 border border-gray-200 rounded-lg p-4">
             <h3 className="text-sm font-semibold text-gray-900 uppercase tracking-wide">Account Information</h3>
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuthStore } from '@/lib/stores/auth-store';
+import { TwoFactorSetup } from '@/components/ui/two-factor-setup';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+/**
+ * Mandatory two-factor enrolment
+ * Users whose role requires two-factor land here after sign-in (the API refuses other requests until they enrol)
+ */
+export default function TwoFactorSetupPage() {
+  const router = useRouter();
+  const { user, isAuthenticated, _hasHydrated, refreshUserData, logout } = useAuthStore();
+
+  const loginPath = user?.isSuperAdmin ? '/superadmin/login' : '/login';
+  const homePath = user?.isSuperAdmin
+    ? '/superadmin/organizations'
+    : user?.organization?.slug
+      ? `/${user.organization.slug}/dashboard`
+      : '/login';
+
+  useEffect(() => {
+    if (_hasHydrated && !isAuthenticated) {
+      router.replace('/login');
+    }
+  }, [_hasHydrated, isAuthenticated, router]);
+
+  const handleComplete = async () => {
+    try {
+      await refreshUserData();
+    } catch {
+      // The next page load refreshes the user anyway
+    }
+    router.push(homePath);
+  };
+
+  const handleSignOut = async () => {
+    await logout();
+    toast.success('Signed out');
+    router.push(loginPath);
+  };
+
+  if (!_hasHydrated || !isAuthenticated) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 px-4">
+      <Card className="w-full max-w-md shadow-lg">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+            Set Up Two-Factor Authentication
+          </CardTitle>
+          <CardDescription className="text-center">
+            {user?.twoFactor?.required
+              ? 'Your role requires two-factor authentication before you can continue'
+              : 'Protect your account with a second sign-in step'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <TwoFactorSetup onComplete={handleComplete} />
+
+          <div className="mt-6 text-center">
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="text-sm text-blue-600 hover:underline font-medium"
+            >
+              Sign out
+            </button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
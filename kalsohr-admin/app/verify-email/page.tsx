@@ -0,0 +1,89 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { verifyEmail } from '@/lib/api/auth';
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+
+function VerifyEmailContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<'verifying' | 'success' | 'error'>(
+    token ? 'verifying' : 'error'
+  );
+  const [message, setMessage] = useState(
+    token ? '' : 'This verification link is invalid.'
+  );
+  // Verify once, even when effects run twice in development
+  const hasVerified = useRef(false);
+
+  useEffect(() => {
+    if (!token || hasVerified.current) return;
+    hasVerified.current = true;
+
+    verifyEmail(token)
+      .then((resultMessage) => {
+        setStatus('success');
+        setMessage(resultMessage);
+      })
+      .catch((error) => {
+        setStatus('error');
+        setMessage(error instanceof Error ? error.message : 'Failed to verify email');
+      });
+  }, [token]);
+
+  return (
+    <Card className="w-full max-w-md shadow-lg">
+      <CardHeader className="space-y-1">
+        <CardTitle className="text-2xl font-bold text-center bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+          Email Verification
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col items-center gap-3 text-center">
+          {status === 'verifying' && (
+            <>
+              <Loader2 className="w-12 h-12 text-blue-600 animate-spin" />
+              <p className="text-sm text-gray-700">Verifying your email address...</p>
+            </>
+          )}
+          {status === 'success' && (
+            <>
+              <CheckCircle2 className="w-12 h-12 text-green-600" />
+              <p className="text-sm text-gray-700">{message}</p>
+            </>
+          )}
+          {status === 'error' && (
+            <>
+              <XCircle className="w-12 h-12 text-red-600" />
+              <p className="text-sm text-gray-700">{message}</p>
+            </>
+          )}
+        </div>
+
+        <div className="mt-6 text-center">
+          <Link href="/login" className="text-sm text-blue-600 hover:underline font-medium">
+            Go to sign in
+          </Link>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function VerifyEmailPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-blue-50 via-white to-indigo-50 px-4">
+      <Suspense>
+        <VerifyEmailContent />
+      </Suspense>
+    </div>
+  );
+}
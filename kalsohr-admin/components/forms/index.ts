@@ -1,2 +1,4 @@
 export { CountrySelect } from './country-select';
 export { StateSelect } from './state-select';
+export { SetPasswordForm, passwordSchema } from './set-password-form';
+export { TwoFactorCodeForm } from './two-factor-code-form';
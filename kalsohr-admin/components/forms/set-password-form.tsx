@@ -0,0 +1,97 @@
+'use client';
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+// Mirrors PASSWORD_POLICY on the API
+export const passwordSchema = z
+  .string()
+  .min(8, 'Password must be at least 8 characters')
+  .regex(/[A-Z]/, 'Password must contain an uppercase letter')
+  .regex(/[a-z]/, 'Password must contain a lowercase letter')
+  .regex(/[0-9]/, 'Password must contain a number');
+
+const setPasswordSchema = z
+  .object({
+    password: passwordSchema,
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: 'Passwords do not match',
+    path: ['confirmPassword'],
+  });
+
+type SetPasswordFormData = z.infer<typeof setPasswordSchema>;
+
+interface SetPasswordFormProps {
+  onSubmit: (password: string) => Promise<void>;
+  submitLabel?: string;
+  isLoading?: boolean;
+}
+
+/**
+ * New password + confirmation form used by the reset password and accept invite pages
+ */
+export function SetPasswordForm({
+  onSubmit,
+  submitLabel = 'Set password',
+  isLoading = false,
+}: SetPasswordFormProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<SetPasswordFormData>({
+    resolver: zodResolver(setPasswordSchema),
+  });
+
+  return (
+    <form onSubmit={handleSubmit((data) => onSubmit(data.password))} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          placeholder="••••••••"
+          autoComplete="new-password"
+          {...register('password')}
+          disabled={isLoading}
+        />
+        {errors.password ? (
+          <p className="text-sm text-red-500">{errors.password.message}</p>
+        ) : (
+          <p className="text-xs text-gray-500">
+            At least 8 characters with uppercase, lowercase and a number
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          placeholder="••••••••"
+          autoComplete="new-password"
+          {...register('confirmPassword')}
+          disabled={isLoading}
+        />
+        {errors.confirmPassword && (
+          <p className="text-sm text-red-500">{errors.confirmPassword.message}</p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+        disabled={isLoading}
+      >
+        {isLoading ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+interface TwoFactorCodeFormProps {
+  onSubmit: (code: string) => Promise<void>;
+  onCancel?: () => void;
+  submitLabel?: string;
+  isLoading?: boolean;
+  allowRecoveryCode?: boolean;
+}
+
+/**
+ * Single code input for the authenticator app (or a recovery code)
+ * Used by the login pages and the two-factor settings
+ */
+export function TwoFactorCodeForm({
+  onSubmit,
+  onCancel,
+  submitLabel = 'Verify',
+  isLoading = false,
+  allowRecoveryCode = true,
+}: TwoFactorCodeFormProps) {
+  const [code, setCode] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    await onSubmit(code.trim());
+    setCode('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="twoFactorCode">Authentication Code</Label>
+        <Input
+          id="twoFactorCode"
+          inputMode={allowRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          disabled={isLoading}
+          autoFocus
+        />
+        <p className="text-xs text-gray-500">
+          {allowRecoveryCode
+            ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
+            Back
+          </Button>
+        )}
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          disabled={isLoading || !code.trim()}
+        >
+          {isLoading ? 'Verifying...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
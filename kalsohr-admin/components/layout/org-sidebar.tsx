@@ -7,6 +7,10 @@ import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { toast } from 'sonner';
+import { SessionsDialog } from './sessions-dialog';
+import { ChangePasswordDialog } from './change-password-dialog';
+import { TwoFactorDialog } from './two-factor-dialog';
+import { resendVerification } from '@/lib/api/auth';
 import {
   LayoutDashboard,
   Users,
@@ -25,6 +29,13 @@ import {
   Database,
   ChevronDown,
   ChevronRight,
+  MonitorSmartphone,
+  KeyRound,
+  ShieldCheck,
+  FileCheck,
+  Rocket,
+  Network,
+  ClipboardList,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
@@ -44,6 +55,9 @@ export function OrgSidebar() {
   const { user, logout } = useAuthStore();
   const { hasAnyPermission, organization } = useOrgPermissions();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
   const [isMastersOpen, setIsMastersOpen] = useState(false);
   const [isRecruitmentOpen, setIsRecruitmentOpen] = useState(false);
 
@@ -75,6 +89,30 @@ export function OrgSidebar() {
       icon: <UserCog className="w-5 h-5" />,
       moduleCode: 'employees',
     },
+    {
+      href: `/${orgSlug}/documents`,
+      label: 'Document Compliance',
+      icon: <FileCheck className="w-5 h-5" />,
+      moduleCode: 'employees',
+    },
+    {
+      href: `/${orgSlug}/onboarding`,
+      label: 'Onboarding',
+      icon: <Rocket className="w-5 h-5" />,
+      moduleCode: 'employees',
+    },
+    {
+      href: `/${orgSlug}/org-chart`,
+      label: 'Org Chart',
+      icon: <Network className="w-5 h-5" />,
+      moduleCode: 'employees',
+    },
+    {
+      href: `/${orgSlug}/headcount`,
+      label: 'Headcount Plan',
+      icon: <ClipboardList className="w-5 h-5" />,
+      moduleCode: 'employees',
+    },
     {
       href: `/${orgSlug}/roles`,
       label: 'Roles & Permissions',
@@ -192,6 +230,15 @@ export function OrgSidebar() {
     return true;
   });
 
+  const handleResendVerification = async () => {
+    try {
+      await resendVerification();
+      toast.success(`Verification email sent to ${user?.email}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification email');
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -420,8 +467,41 @@ export function OrgSidebar() {
               <p className="text-xs text-gray-500 truncate">
                 {user?.role?.name || 'User'}
               </p>
+              {user && !user.emailVerified && (
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  className="text-xs text-amber-600 hover:underline"
+                >
+                  Email not verified · Resend link
+                </button>
+              )}
             </div>
           </div>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsChangePasswordOpen(true)}
+          >
+            <KeyRound className="w-4 h-4 mr-2" />
+            Change Password
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsTwoFactorOpen(true)}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Two-Factor Authentication
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsSessionsOpen(true)}
+          >
+            <MonitorSmartphone className="w-4 h-4 mr-2" />
+            Active Sessions
+          </Button>
           <Button
             variant="outline"
             className="w-full justify-start hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
@@ -433,6 +513,10 @@ export function OrgSidebar() {
         </div>
       </aside>
 
+      <SessionsDialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen} />
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
+
       {/* Overlay for mobile */}
       {isMobileMenuOpen && (
         <div
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { getSessions, revokeSession, revokeOtherSessions } from '@/lib/api/auth';
+import { UserSession } from '@/lib/types/auth';
+
+interface SessionsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Turn a user agent into a short "Browser on OS" label
+ */
+const describeDevice = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Unknown browser';
+
+  const os =
+    /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+
+  return `${browser} on ${os}`;
+};
+
+/**
+ * Lists the current user's active sessions and lets them sign out other devices
+ */
+export function SessionsDialog({ open, onOpenChange }: SessionsDialogProps) {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = async () => {
+    try {
+      setLoading(true);
+      setSessions(await getSessions());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (open) {
+      loadSessions();
+    }
+  }, [open]);
+
+  const handleRevoke = async (sessionId: string) => {
+    try {
+      setRevokingId(sessionId);
+      await revokeSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+      toast.success('Session signed out');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out session');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    try {
+      setRevokingId('others');
+      const count = await revokeOtherSessions();
+      setSessions((prev) => prev.filter((session) => session.isCurrent));
+      toast.success(`Signed out of ${count} other session${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out other sessions');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const otherSessions = sessions.filter((session) => !session.isCurrent);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Active Sessions</DialogTitle>
+          <DialogDescription>
+            Devices where you are currently signed in. Sign out any session you don&apos;t recognise.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8 text-gray-500">
+            <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            Loading sessions...
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {sessions.map((session) => {
+              const isMobile = /Mobile|Android|iPhone/.test(session.userAgent || '');
+              const DeviceIcon = isMobile ? Smartphone : Monitor;
+
+              return (
+                <li key={session.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="flex items-start gap-3 min-w-0">
+                    <DeviceIcon className="w-5 h-5 text-gray-400 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {describeDevice(session.userAgent)}
+                        </p>
+                        {session.isCurrent && (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                            This device
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {session.ipAddress || 'Unknown IP'} · Active{' '}
+                        {formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                  {!session.isCurrent && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={revokingId !== null}
+                      onClick={() => handleRevoke(session.id)}
+                      className="hover:bg-red-50 hover:text-red-600 hover:border-red-200"
+                    >
+                      {revokingId === session.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        'Sign out'
+                      )}
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={loading || otherSessions.length === 0 || revokingId !== null}
+            onClick={handleRevokeOthers}
+            className="hover:bg-red-50 hover:text-red-600 hover:border-red-200"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out all other sessions
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
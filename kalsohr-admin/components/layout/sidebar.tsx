@@ -7,6 +7,10 @@ import { usePermissions } from '@/lib/hooks/usePermissions';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { toast } from 'sonner';
+import { SessionsDialog } from './sessions-dialog';
+import { ChangePasswordDialog } from './change-password-dialog';
+import { TwoFactorDialog } from './two-factor-dialog';
+import { resendVerification } from '@/lib/api/auth';
 import {
   LayoutDashboard,
   Building2,
@@ -29,6 +33,10 @@ import {
   CreditCard,
   Factory,
   BarChart3,
+  History,
+  MonitorSmartphone,
+  KeyRound,
+  ShieldCheck,
 } from 'lucide-react';
 import { useState, useEffect } from 'react';
 
@@ -46,6 +54,9 @@ export function Sidebar() {
   const { user, logout } = useAuthStore();
   const { hasAnyPermission, isSuperAdmin } = usePermissions();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isChangePasswordOpen, setIsChangePasswordOpen] = useState(false);
+  const [isTwoFactorOpen, setIsTwoFactorOpen] = useState(false);
   const [isMastersOpen, setIsMastersOpen] = useState(false);
 
   // Auto-expand Masters dropdown if on a masters page
@@ -89,6 +100,13 @@ export function Sidebar() {
       superAdminOnly: true,
       moduleCode: 'platform_roles',
     },
+    {
+      href: '/superadmin/audit-logs',
+      label: 'Audit Logs',
+      icon: <History className="w-5 h-5" />,
+      superAdminOnly: true,
+      moduleCode: 'audit_logs',
+    },
   ];
 
   // Masters submenu (only for super admin)
@@ -202,6 +220,15 @@ export function Sidebar() {
     return true;
   });
 
+  const handleResendVerification = async () => {
+    try {
+      await resendVerification();
+      toast.success(`Verification email sent to ${user?.email}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send verification email');
+    }
+  };
+
   const handleLogout = async () => {
     try {
       await logout();
@@ -382,8 +409,41 @@ export function Sidebar() {
                 {user?.firstName} {user?.lastName}
               </p>
               <p className="text-xs text-gray-500 truncate">{user?.email}</p>
+              {user && !user.emailVerified && (
+                <button
+                  type="button"
+                  onClick={handleResendVerification}
+                  className="text-xs text-amber-600 hover:underline"
+                >
+                  Email not verified · Resend link
+                </button>
+              )}
             </div>
           </div>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsChangePasswordOpen(true)}
+          >
+            <KeyRound className="w-4 h-4 mr-2" />
+            Change Password
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsTwoFactorOpen(true)}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Two-Factor Authentication
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start mb-2 text-gray-700"
+            onClick={() => setIsSessionsOpen(true)}
+          >
+            <MonitorSmartphone className="w-4 h-4 mr-2" />
+            Active Sessions
+          </Button>
           <Button
             variant="outline"
             className="w-full justify-start hover:bg-red-50 hover:text-red-600 hover:border-red-200 transition-colors"
@@ -395,6 +455,10 @@ export function Sidebar() {
         </div>
       </aside>
 
+      <SessionsDialog open={isSessionsOpen} onOpenChange={setIsSessionsOpen} />
+      <ChangePasswordDialog open={isChangePasswordOpen} onOpenChange={setIsChangePasswordOpen} />
+      <TwoFactorDialog open={isTwoFactorOpen} onOpenChange={setIsTwoFactorOpen} />
+
       {/* Overlay for mobile */}
       {isMobileMenuOpen && (
         <div
@@ -0,0 +1,207 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { TwoFactorCodeForm } from '@/components/forms';
+import { RecoveryCodesList, TwoFactorSetup } from '@/components/ui/two-factor-setup';
+import { disableTwoFactor, regenerateRecoveryCodes } from '@/lib/api/auth';
+import { useAuthStore } from '@/lib/stores/auth-store';
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type View = 'overview' | 'setup' | 'regenerate' | 'disable';
+
+/**
+ * Two-factor settings of the current user: enrol, regenerate recovery codes or turn it off
+ */
+export function TwoFactorDialog({ open, onOpenChange }: TwoFactorDialogProps) {
+  const { user, refreshUserData } = useAuthStore();
+  const [view, setView] = useState<View>('overview');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const status = user?.twoFactor;
+  const isEnabled = !!status?.enabled;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      setView('overview');
+      setRecoveryCodes(null);
+      setPassword('');
+    }
+    onOpenChange(isOpen);
+  };
+
+  const refreshStatus = async () => {
+    try {
+      await refreshUserData();
+    } catch {
+      // Status is refreshed again on the next page load
+    }
+  };
+
+  const handleSetupComplete = async () => {
+    await refreshStatus();
+    handleOpenChange(false);
+  };
+
+  const handleRegenerate = async (code: string) => {
+    setIsSubmitting(true);
+    try {
+      setRecoveryCodes(await regenerateRecoveryCodes(code));
+      toast.success('New recovery codes generated');
+      await refreshStatus();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to regenerate recovery codes');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDisable = async (code: string) => {
+    if (!password) {
+      toast.error('Please enter your password');
+      return;
+    }
+    setIsSubmitting(true);
+    try {
+      await disableTwoFactor(password, code);
+      toast.success('Two-factor authentication disabled');
+      await refreshStatus();
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to disable two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+          <DialogDescription>
+            Require a code from an authenticator app in addition to your password when signing in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {view === 'overview' && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3 rounded-lg border p-4">
+              {isEnabled ? (
+                <ShieldCheck className="h-6 w-6 text-green-600" />
+              ) : (
+                <ShieldOff className="h-6 w-6 text-gray-400" />
+              )}
+              <div className="flex-1">
+                <p className="text-sm font-semibold text-gray-900">
+                  {isEnabled ? 'Enabled' : 'Not enabled'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {isEnabled
+                    ? `${status?.recoveryCodesRemaining ?? 0} recovery codes remaining`
+                    : status?.required
+                      ? 'Required by your role'
+                      : 'Recommended for all accounts'}
+                </p>
+              </div>
+            </div>
+
+            {isEnabled ? (
+              <div className="flex flex-col gap-2">
+                <Button variant="outline" onClick={() => setView('regenerate')}>
+                  Regenerate Recovery Codes
+                </Button>
+                {status?.required ? (
+                  <p className="text-xs text-gray-500 text-center">
+                    Your role requires two-factor authentication, so it cannot be turned off.
+                  </p>
+                ) : (
+                  <Button
+                    variant="outline"
+                    className="hover:bg-red-50 hover:text-red-600 hover:border-red-200"
+                    onClick={() => setView('disable')}
+                  >
+                    Disable Two-Factor Authentication
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <Button
+                className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+                onClick={() => setView('setup')}
+              >
+                Set Up Two-Factor Authentication
+              </Button>
+            )}
+          </div>
+        )}
+
+        {view === 'setup' && (
+          <TwoFactorSetup onComplete={handleSetupComplete} onCancel={() => setView('overview')} />
+        )}
+
+        {view === 'regenerate' &&
+          (recoveryCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodesList codes={recoveryCodes} />
+              <Button className="w-full" variant="outline" onClick={() => handleOpenChange(false)}>
+                Done
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Your existing recovery codes will stop working. Confirm with a code from your authenticator app.
+              </p>
+              <TwoFactorCodeForm
+                onSubmit={handleRegenerate}
+                onCancel={() => setView('overview')}
+                submitLabel="Regenerate"
+                isLoading={isSubmitting}
+                allowRecoveryCode={false}
+              />
+            </div>
+          ))}
+
+        {view === 'disable' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="disableTwoFactorPassword">Current Password</Label>
+              <Input
+                id="disableTwoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+            <TwoFactorCodeForm
+              onSubmit={handleDisable}
+              onCancel={() => setView('overview')}
+              submitLabel="Disable"
+              isLoading={isSubmitting}
+            />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,576 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { CalendarClock, Link2, Loader2, Rocket, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  getEmployeeOnboarding,
+  getCandidateOnboarding,
+  getOnboardingTemplates,
+  startEmployeeOnboarding,
+  startCandidateOnboarding,
+  updateOnboarding,
+  cancelOnboarding,
+  updateOnboardingTask,
+  EmployeeOnboarding,
+  OnboardingTask,
+  OnboardingTemplate,
+  ONBOARDING_ASSIGNEE_LABELS,
+} from '@/lib/api/org/employee-onboarding';
+import { getAllEmployees } from '@/lib/api/org/employees';
+import { getAllDepartments, Department } from '@/lib/api/org/departments';
+import { getAllEmploymentTypes, EmploymentType } from '@/lib/api/org/employment-types';
+import { Employee } from '@/lib/types/employee';
+import { useOrgPermissions } from '@/lib/hooks/useOrgPermissions';
+
+interface OnboardingPanelProps {
+  orgSlug: string;
+  // The new hire: an employee, or a selected candidate who has not joined yet
+  subject: { type: 'employee' | 'candidate'; id: number };
+  // Whether a new onboarding can be started from here
+  canStart: boolean;
+}
+
+interface StartForm {
+  templateId: string;
+  joiningDate: string;
+  departmentId: string;
+  employmentTypeId: string;
+}
+
+const AUTOMATIC = 'auto';
+const ANY = 'any';
+
+const STATUS_BADGES: Record<EmployeeOnboarding['status'], { label: string; className: string }> = {
+  in_progress: { label: 'In Progress', className: 'bg-amber-100 text-amber-800' },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-gray-100 text-gray-600' },
+};
+
+/**
+ * Onboarding checklist of a new hire, with the tasks for HR, the manager, IT and the employee
+ */
+export function OnboardingPanel({ orgSlug, subject, canStart }: OnboardingPanelProps) {
+  const { hasPermission } = useOrgPermissions();
+  const canUpdate = hasPermission('employees', 'canUpdate');
+  const isCandidate = subject.type === 'candidate';
+
+  const [onboarding, setOnboarding] = useState<EmployeeOnboarding | null>(null);
+  const [suggestedTemplate, setSuggestedTemplate] = useState<{ id: number; name: string } | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const [templates, setTemplates] = useState<OnboardingTemplate[]>([]);
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [employmentTypes, setEmploymentTypes] = useState<EmploymentType[]>([]);
+  const [employees, setEmployees] = useState<Employee[]>([]);
+
+  const [isStartOpen, setIsStartOpen] = useState(false);
+  const [startForm, setStartForm] = useState<StartForm | null>(null);
+  const [isRescheduleOpen, setIsRescheduleOpen] = useState(false);
+  const [joiningDate, setJoiningDate] = useState('');
+  const [isLinkOpen, setIsLinkOpen] = useState(false);
+  const [linkEmployeeId, setLinkEmployeeId] = useState('');
+  const [isCancelOpen, setIsCancelOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [updatingTaskId, setUpdatingTaskId] = useState<number | null>(null);
+
+  const loadOnboarding = async () => {
+    try {
+      setIsLoading(true);
+      if (isCandidate) {
+        setOnboarding(await getCandidateOnboarding(orgSlug, subject.id));
+      } else {
+        const data = await getEmployeeOnboarding(orgSlug, subject.id);
+        setOnboarding(data.onboarding);
+        setSuggestedTemplate(data.suggestedTemplate);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load onboarding');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadOnboarding();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [orgSlug, subject.type, subject.id]);
+
+  const formatDate = (date: string | null) => (date ? format(new Date(date), 'dd MMM yyyy') : '-');
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const isOverdue = (task: OnboardingTask) => !task.isCompleted && task.dueDate.slice(0, 10) < today;
+
+  const handleOpenStart = async () => {
+    setStartForm({ templateId: AUTOMATIC, joiningDate: today, departmentId: ANY, employmentTypeId: ANY });
+    setIsStartOpen(true);
+
+    if (templates.length === 0) {
+      try {
+        const [templateList, departmentList, employmentTypeList] = await Promise.all([
+          getOnboardingTemplates(orgSlug),
+          isCandidate ? getAllDepartments(orgSlug, true) : Promise.resolve([]),
+          isCandidate ? getAllEmploymentTypes(orgSlug, true) : Promise.resolve([]),
+        ]);
+        setTemplates(templateList.filter((template) => template.isActive));
+        setDepartments(departmentList);
+        setEmploymentTypes(employmentTypeList);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load onboarding templates');
+      }
+    }
+  };
+
+  const handleStart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!startForm) return;
+
+    const templateId = startForm.templateId === AUTOMATIC ? undefined : parseInt(startForm.templateId);
+
+    setIsSubmitting(true);
+    try {
+      const started = isCandidate
+        ? await startCandidateOnboarding(orgSlug, subject.id, {
+            joiningDate: startForm.joiningDate,
+            templateId,
+            departmentId: startForm.departmentId === ANY ? undefined : parseInt(startForm.departmentId),
+            employmentTypeId: startForm.employmentTypeId === ANY ? undefined : parseInt(startForm.employmentTypeId),
+          })
+        : await startEmployeeOnboarding(orgSlug, subject.id, { templateId, joiningDate: startForm.joiningDate });
+
+      toast.success(`Onboarding started from "${started.templateName}"`);
+      setIsStartOpen(false);
+      setOnboarding(started);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start onboarding');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleReschedule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onboarding) return;
+
+    setIsSubmitting(true);
+    try {
+      setOnboarding(await updateOnboarding(orgSlug, onboarding.id, { joiningDate }));
+      toast.success('Joining date updated and open tasks rescheduled');
+      setIsRescheduleOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update joining date');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleOpenLink = async () => {
+    setLinkEmployeeId('');
+    setIsLinkOpen(true);
+
+    if (employees.length === 0) {
+      try {
+        const response = await getAllEmployees(orgSlug, { isActive: true, limit: 100 });
+        setEmployees(response.employees);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load employees');
+      }
+    }
+  };
+
+  const handleLink = async () => {
+    if (!onboarding || !linkEmployeeId) {
+      toast.error('Please select an employee');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      setOnboarding(await updateOnboarding(orgSlug, onboarding.id, { employeeId: parseInt(linkEmployeeId) }));
+      toast.success('Onboarding linked to the employee');
+      setIsLinkOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to link employee');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!onboarding) return;
+
+    setIsSubmitting(true);
+    try {
+      setOnboarding(await cancelOnboarding(orgSlug, onboarding.id));
+      toast.success('Onboarding cancelled');
+      setIsCancelOpen(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel onboarding');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggleTask = async (task: OnboardingTask) => {
+    if (!onboarding) return;
+
+    setUpdatingTaskId(task.id);
+    try {
+      setOnboarding(await updateOnboardingTask(orgSlug, onboarding.id, task.id, { isCompleted: !task.isCompleted }));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update task');
+    } finally {
+      setUpdatingTaskId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const active = onboarding?.status !== 'cancelled' ? onboarding : null;
+
+  // Nothing to show without an onboarding when none can be started from here
+  if (!active && !(canStart && canUpdate)) {
+    return null;
+  }
+
+  const completedTasks = active?.tasks.filter((task) => task.isCompleted).length ?? 0;
+  const isEditable = !!active && active.status === 'in_progress' && canUpdate;
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CardTitle>Onboarding</CardTitle>
+            {active && (
+              <Badge className={STATUS_BADGES[active.status].className}>{STATUS_BADGES[active.status].label}</Badge>
+            )}
+          </div>
+          {!active && (
+            <Button size="sm" variant="outline" onClick={handleOpenStart}>
+              <Rocket className="h-4 w-4 mr-2" />
+              Start Onboarding
+            </Button>
+          )}
+          {isEditable && (
+            <div className="flex gap-2">
+              {isCandidate && !active.employee && (
+                <Button size="sm" variant="outline" onClick={handleOpenLink}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Link Employee
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setJoiningDate(active.joiningDate.slice(0, 10));
+                  setIsRescheduleOpen(true);
+                }}
+              >
+                <CalendarClock className="h-4 w-4 mr-2" />
+                Joining Date
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsCancelOpen(true)}>
+                <XCircle className="h-4 w-4 mr-2 text-red-600" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {active ? (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Template</p>
+                  <p className="font-medium">{active.templateName}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Joining Date</p>
+                  <p className="font-medium">{formatDate(active.joiningDate)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Progress</p>
+                  <p className="font-medium">
+                    {completedTasks}/{active.tasks.length} tasks
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">{isCandidate ? 'Employee' : 'Completed'}</p>
+                  <p className="font-medium">
+                    {isCandidate
+                      ? active.employee
+                        ? `${active.employee.firstName} ${active.employee.lastName || ''} (${active.employee.employeeCode})`
+                        : 'Not joined yet'
+                      : formatDate(active.completedAt)}
+                  </p>
+                </div>
+              </div>
+
+              <ul className="space-y-2">
+                {active.tasks.map((task) => (
+                  <li key={task.id} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`onboarding-task-${task.id}`}
+                      checked={task.isCompleted}
+                      disabled={!canUpdate || updatingTaskId === task.id}
+                      onCheckedChange={() => handleToggleTask(task)}
+                      className="mt-0.5"
+                    />
+                    <div className="flex-1">
+                      <label
+                        htmlFor={`onboarding-task-${task.id}`}
+                        className={`text-sm font-medium ${task.isCompleted ? 'text-gray-500 line-through' : 'text-gray-900'}`}
+                      >
+                        {task.title}
+                      </label>
+                      {task.description && <p className="text-xs text-gray-600">{task.description}</p>}
+                      <p className={`text-xs ${isOverdue(task) ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {ONBOARDING_ASSIGNEE_LABELS[task.assigneeRole] || task.assigneeRole} · Due{' '}
+                        {formatDate(task.dueDate)}
+                        {isOverdue(task) && ' (overdue)'}
+                        {task.completedAt && ` · Done ${formatDate(task.completedAt)}`}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {isCandidate
+                ? 'Start onboarding once the joining date is agreed, so the tasks before day one can begin. It moves to the employee when they are created from this candidate.'
+                : suggestedTemplate
+                  ? `No onboarding yet. Starting one uses the "${suggestedTemplate.name}" template.`
+                  : 'No onboarding yet, and no active template matches this employee. Pick a template to start one.'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Start Onboarding Dialog */}
+      <Dialog open={isStartOpen} onOpenChange={setIsStartOpen}>
+        <DialogContent>
+          {startForm && (
+            <form onSubmit={handleStart}>
+              <DialogHeader>
+                <DialogTitle>Start Onboarding</DialogTitle>
+                <DialogDescription>
+                  The tasks are copied from the template, with due dates relative to the joining date.
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4 py-4">
+                <div className="space-y-2">
+                  <Label>Template</Label>
+                  <Select
+                    value={startForm.templateId}
+                    onValueChange={(value) => setStartForm({ ...startForm, templateId: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select template" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTOMATIC}>
+                        {!isCandidate && suggestedTemplate
+                          ? `Automatic (${suggestedTemplate.name})`
+                          : 'Automatic (matching template)'}
+                      </SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={String(template.id)}>
+                          {template.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {isCandidate && startForm.templateId === AUTOMATIC && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Department</Label>
+                      <Select
+                        value={startForm.departmentId}
+                        onValueChange={(value) => setStartForm({ ...startForm, departmentId: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select department" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any department</SelectItem>
+                          {departments.map((department) => (
+                            <SelectItem key={department.id} value={String(department.id)}>
+                              {department.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Employment Type</Label>
+                      <Select
+                        value={startForm.employmentTypeId}
+                        onValueChange={(value) => setStartForm({ ...startForm, employmentTypeId: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select employment type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any employment type</SelectItem>
+                          {employmentTypes.map((employmentType) => (
+                            <SelectItem key={employmentType.id} value={String(employmentType.id)}>
+                              {employmentType.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="onboardingJoiningDate">Joining Date {isCandidate && '*'}</Label>
+                  <Input
+                    id="onboardingJoiningDate"
+                    type="date"
+                    value={startForm.joiningDate}
+                    onChange={(e) => setStartForm({ ...startForm, joiningDate: e.target.value })}
+                    required={isCandidate}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsStartOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Start Onboarding
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Joining Date Dialog */}
+      <Dialog open={isRescheduleOpen} onOpenChange={setIsRescheduleOpen}>
+        <DialogContent>
+          <form onSubmit={handleReschedule}>
+            <DialogHeader>
+              <DialogTitle>Change Joining Date</DialogTitle>
+              <DialogDescription>Open tasks move with the joining date; completed tasks are kept as they are.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2 py-4">
+              <Label htmlFor="onboardingNewJoiningDate">Joining Date *</Label>
+              <Input
+                id="onboardingNewJoiningDate"
+                type="date"
+                value={joiningDate}
+                onChange={(e) => setJoiningDate(e.target.value)}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsRescheduleOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Link Employee Dialog */}
+      <Dialog open={isLinkOpen} onOpenChange={setIsLinkOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Link Employee</DialogTitle>
+            <DialogDescription>
+              Move this onboarding to the employee record created for the candidate.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label>Employee *</Label>
+            <Select value={linkEmployeeId} onValueChange={setLinkEmployeeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select employee" />
+              </SelectTrigger>
+              <SelectContent>
+                {employees.map((employee) => (
+                  <SelectItem key={employee.id} value={String(employee.id)}>
+                    {employee.firstName} {employee.lastName} ({employee.employeeCode})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsLinkOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleLink} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Link Employee
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Confirmation Dialog */}
+      <Dialog open={isCancelOpen} onOpenChange={setIsCancelOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel Onboarding</DialogTitle>
+            <DialogDescription>
+              The open tasks of this onboarding will no longer be tracked. A new onboarding can be started afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCancelOpen(false)}>
+              Keep
+            </Button>
+            <Button variant="destructive" onClick={handleCancel} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Cancel Onboarding
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Loader2, Lock, Unlock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface AccountLockAlertProps {
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+  onUnlock: () => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Lockout status of a user account with an unlock action
+ * Renders nothing when the account has no failed logins
+ *
+ * Usage:
+ * ```tsx
+ * <AccountLockAlert
+ *   failedLoginAttempts={user.failedLoginAttempts}
+ *   lockedUntil={user.lockedUntil}
+ *   onUnlock={() => unlockUser(user.id)}
+ * />
+ * ```
+ */
+export function AccountLockAlert({
+  failedLoginAttempts = 0,
+  lockedUntil,
+  onUnlock,
+  disabled = false,
+}: AccountLockAlertProps) {
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isUnlocked, setIsUnlocked] = useState(false);
+
+  if (isUnlocked || failedLoginAttempts === 0) {
+    return null;
+  }
+
+  const lockedUntilDate = lockedUntil ? new Date(lockedUntil) : null;
+  const isLocked = !!lockedUntilDate && lockedUntilDate > new Date();
+
+  const handleUnlock = async () => {
+    try {
+      setIsUnlocking(true);
+      await onUnlock();
+      setIsUnlocked(true);
+      toast.success('User unlocked successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to unlock user');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <div
+      className={`rounded-lg p-4 flex items-start justify-between gap-4 border ${
+        isLocked ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+      }`}
+    >
+      <div className="flex items-start gap-3">
+        <Lock className={`w-5 h-5 flex-shrink-0 mt-0.5 ${isLocked ? 'text-red-600' : 'text-amber-600'}`} />
+        <div>
+          <h4 className={`text-sm font-semibold ${isLocked ? 'text-red-800' : 'text-amber-800'}`}>
+            {isLocked ? 'Account Locked' : 'Failed Login Attempts'}
+          </h4>
+          <p className={`text-xs mt-1 ${isLocked ? 'text-red-700' : 'text-amber-700'}`}>
+            {failedLoginAttempts} consecutive failed login attempt{failedLoginAttempts === 1 ? '' : 's'}.
+            {isLocked && ` Locked until ${format(lockedUntilDate, 'MMM dd, yyyy h:mm a')}.`}
+          </p>
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleUnlock}
+        disabled={disabled || isUnlocking}
+        className="bg-white flex-shrink-0"
+      >
+        {isUnlocking ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Unlock className="w-4 h-4 mr-2" />
+        )}
+        {isLocked ? 'Unlock' : 'Reset Attempts'}
+      </Button>
+    </div>
+  );
+}
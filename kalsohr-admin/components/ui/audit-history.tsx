@@ -0,0 +1,124 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, History, Loader2, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { AuditActionBadge, AuditLogDiff, getAuditUserName } from '@/components/ui/audit-log-diff';
+import { AuditLog } from '@/lib/types/audit-log';
+
+interface AuditHistoryProps {
+  // Loads the history of the record, newest first
+  loadHistory: () => Promise<AuditLog[]>;
+  className?: string;
+}
+
+/**
+ * Timeline of changes to a single record with expandable field-level diffs
+ *
+ * Usage:
+ * ```tsx
+ * <AuditHistory loadHistory={() => getEmployeeHistory(orgSlug, employeeId)} />
+ * ```
+ */
+export function AuditHistory({ loadHistory, className = '' }: AuditHistoryProps) {
+  const [history, setHistory] = useState<AuditLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await loadHistory();
+        setHistory(data);
+        // Expand the latest change by default
+        setExpanded(new Set(data.length > 0 ? [data[0].id] : []));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load history');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const toggle = (id: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-gray-500">
+        <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (error) {
+    return <p className="text-red-600 text-center py-8">{error}</p>;
+  }
+
+  if (history.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-gray-500">
+        <History className="w-10 h-10 text-gray-300 mb-2" />
+        No changes recorded yet
+      </div>
+    );
+  }
+
+  return (
+    <ol className={`relative border-l border-gray-200 ml-3 space-y-6 ${className}`}>
+      {history.map((entry) => {
+        const isOpen = expanded.has(entry.id);
+        const changedFields = Object.keys(entry.newValues || entry.oldValues || {}).length;
+
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-blue-500" />
+            <button
+              type="button"
+              onClick={() => toggle(entry.id)}
+              className="flex w-full items-center justify-between gap-4 text-left"
+            >
+              <div className="flex flex-wrap items-center gap-2">
+                <AuditActionBadge action={entry.action} />
+                <span className="font-medium text-gray-900">{getAuditUserName(entry)}</span>
+                {entry.isImpersonation && (
+                  <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                    <ShieldAlert className="w-3 h-3 mr-1" />
+                    Support access
+                  </Badge>
+                )}
+                {entry.action === 'UPDATE' && (
+                  <span className="text-xs text-gray-500">
+                    {changedFields} field{changedFields === 1 ? '' : 's'} changed
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-xs text-gray-500 flex-shrink-0">
+                {format(new Date(entry.createdAt), 'MMM dd, yyyy h:mm a')}
+                {isOpen ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </div>
+            </button>
+            {isOpen && <AuditLogDiff auditLog={entry} className="mt-3" />}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
@@ -0,0 +1,131 @@
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { AuditLog } from '@/lib/types/audit-log';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/;
+
+/**
+ * Turn a field key into a readable label (e.g. "dateOfJoining" -> "Date Of Joining",
+ * "employees.canRead" -> "Employees › Can Read")
+ */
+export function formatAuditField(field: string): string {
+  return field
+    .split('.')
+    .map((part) =>
+      part
+        .replace(/_/g, ' ')
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .replace(/^./, (char) => char.toUpperCase())
+    )
+    .join(' › ');
+}
+
+/**
+ * Render an audit value for display
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value);
+    if (!isNaN(date.getTime())) {
+      // Date-only fields are stored at UTC midnight
+      return value.endsWith('T00:00:00.000Z')
+        ? format(date, 'MMM dd, yyyy')
+        : format(date, 'MMM dd, yyyy h:mm a');
+    }
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Display name of the user who performed an audited action
+ */
+export function getAuditUserName(auditLog: AuditLog): string {
+  if (!auditLog.user) return 'System';
+  const name = `${auditLog.user.firstName || ''} ${auditLog.user.lastName || ''}`.trim();
+  return name || auditLog.user.email;
+}
+
+/**
+ * Badge for an audit action (CREATE / UPDATE / DELETE / LOCK / UNLOCK)
+ */
+export function AuditActionBadge({ action }: { action: string }) {
+  const styles: Record<string, string> = {
+    CREATE: 'bg-green-100 text-green-700 border-green-200',
+    UPDATE: 'bg-blue-100 text-blue-700 border-blue-200',
+    DELETE: 'bg-red-100 text-red-700 border-red-200',
+    LOCK: 'bg-amber-100 text-amber-700 border-amber-200',
+    UNLOCK: 'bg-purple-100 text-purple-700 border-purple-200',
+  };
+
+  return (
+    <Badge variant="outline" className={styles[action] || 'bg-gray-100 text-gray-700 border-gray-200'}>
+      {action.charAt(0) + action.slice(1).toLowerCase()}
+    </Badge>
+  );
+}
+
+interface AuditLogDiffProps {
+  auditLog: AuditLog;
+  className?: string;
+}
+
+/**
+ * Field-level diff of an audit log entry
+ * Changes show before/after side by side; creates, deletes and lockouts show the single snapshot
+ *
+ * Usage:
+ * ```tsx
+ * <AuditLogDiff auditLog={auditLog} />
+ * ```
+ */
+export function AuditLogDiff({ auditLog, className = '' }: AuditLogDiffProps) {
+  const oldValues = auditLog.oldValues || {};
+  const newValues = auditLog.newValues || {};
+  const fields = Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)])).sort();
+
+  const showBefore = auditLog.action !== 'CREATE' && auditLog.oldValues !== null;
+  const showAfter = auditLog.action !== 'DELETE' && auditLog.newValues !== null;
+  const isChange = showBefore && showAfter;
+
+  if (fields.length === 0) {
+    return <p className={`text-sm text-gray-500 ${className}`}>No field changes recorded</p>;
+  }
+
+  return (
+    <div className={`overflow-hidden rounded-lg border border-gray-200 ${className}`}>
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+          <tr>
+            <th className="px-3 py-2 font-medium w-1/4">Field</th>
+            {showBefore && <th className="px-3 py-2 font-medium">Before</th>}
+            {showAfter && <th className="px-3 py-2 font-medium">After</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {fields.map((field) => (
+            <tr key={field} className="align-top">
+              <td className="px-3 py-2 font-medium text-gray-700">{formatAuditField(field)}</td>
+              {showBefore && (
+                <td className="px-3 py-2 break-all">
+                  <span className={isChange ? 'rounded bg-red-50 px-1 text-red-700 line-through' : 'text-gray-700'}>
+                    {formatAuditValue(oldValues[field])}
+                  </span>
+                </td>
+              )}
+              {showAfter && (
+                <td className="px-3 py-2 break-all">
+                  <span className={isChange ? 'rounded bg-green-50 px-1 text-green-700' : 'text-gray-700'}>
+                    {formatAuditValue(newValues[field])}
+                  </span>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
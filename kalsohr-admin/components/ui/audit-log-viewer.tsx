@@ -0,0 +1,338 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { FileText, Loader2, ShieldAlert } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AuditActionBadge,
+  AuditLogDiff,
+  formatAuditField,
+  getAuditUserName,
+} from '@/components/ui/audit-log-diff';
+import { AuditLog, AuditLogFilters, AuditLogsData } from '@/lib/types/audit-log';
+
+interface AuditLogViewerProps {
+  fetchLogs: (filters: AuditLogFilters) => Promise<AuditLogsData>;
+  fetchEntityTypes: () => Promise<string[]>;
+  // Super admin: show the organization column and filter
+  organizations?: { id: number; name: string }[];
+}
+
+/**
+ * Filterable, paginated audit log table with a field-level diff dialog
+ * Shared by the organization and super admin audit trail pages
+ */
+export function AuditLogViewer({ fetchLogs, fetchEntityTypes, organizations }: AuditLogViewerProps) {
+  const showOrganization = organizations !== undefined;
+
+  const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
+  const [entityTypes, setEntityTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+
+  const [entityTypeFilter, setEntityTypeFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+  const [organizationFilter, setOrganizationFilter] = useState('all');
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [pagination, setPagination] = useState({
+    page: 1,
+    limit: 20,
+    total: 0,
+    totalPages: 0,
+  });
+
+  useEffect(() => {
+    fetchEntityTypes()
+      .then(setEntityTypes)
+      .catch((error) => console.error('Failed to load audit entity types:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Reset to page 1 when filters change
+  useEffect(() => {
+    setPagination((prev) => ({ ...prev, page: 1 }));
+  }, [entityTypeFilter, actionFilter, organizationFilter, entityIdFilter, startDate, endDate]);
+
+  useEffect(() => {
+    const loadLogs = async () => {
+      try {
+        setLoading(true);
+        const filters: AuditLogFilters = {
+          page: pagination.page,
+          limit: pagination.limit,
+        };
+
+        if (entityTypeFilter !== 'all') filters.entityType = entityTypeFilter;
+        if (actionFilter === 'impersonation') {
+          filters.isImpersonation = true;
+        } else if (actionFilter !== 'all') {
+          filters.action = actionFilter;
+        }
+        if (organizationFilter !== 'all') {
+          filters.organizationId = organizationFilter === 'platform' ? 'platform' : parseInt(organizationFilter);
+        }
+        if (entityIdFilter && !isNaN(parseInt(entityIdFilter))) filters.entityId = parseInt(entityIdFilter);
+        if (startDate) filters.startDate = startDate;
+        if (endDate) filters.endDate = endDate;
+
+        const data = await fetchLogs(filters);
+        setAuditLogs(data.auditLogs);
+        setPagination(data.pagination);
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to load audit logs');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadLogs();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pagination.page, entityTypeFilter, actionFilter, organizationFilter, entityIdFilter, startDate, endDate]);
+
+  const getChangeSummary = (log: AuditLog) => {
+    const fields = Object.keys(log.newValues || log.oldValues || {});
+    if (log.action !== 'UPDATE') return null;
+    const preview = fields.slice(0, 3).map(formatAuditField).join(', ');
+    return fields.length > 3 ? `${preview} +${fields.length - 3} more` : preview;
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="flex items-center gap-3 px-4 py-3 bg-gray-50 border border-gray-200 rounded-lg flex-wrap">
+        {showOrganization && (
+          <Select value={organizationFilter} onValueChange={setOrganizationFilter}>
+            <SelectTrigger className="w-48 h-9 bg-white">
+              <SelectValue placeholder="All Organizations" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Organizations</SelectItem>
+              <SelectItem value="platform">Platform (no organization)</SelectItem>
+              {organizations.map((org) => (
+                <SelectItem key={org.id} value={org.id.toString()}>
+                  {org.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select value={entityTypeFilter} onValueChange={setEntityTypeFilter}>
+          <SelectTrigger className="w-48 h-9 bg-white">
+            <SelectValue placeholder="All Records" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Records</SelectItem>
+            {entityTypes.map((type) => (
+              <SelectItem key={type} value={type}>
+                {formatAuditField(type)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          placeholder="Record ID"
+          value={entityIdFilter}
+          onChange={(e) => setEntityIdFilter(e.target.value)}
+          className="w-28 h-9 bg-white"
+        />
+        <Select value={actionFilter} onValueChange={setActionFilter}>
+          <SelectTrigger className="w-44 h-9 bg-white">
+            <SelectValue placeholder="All Actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            <SelectItem value="CREATE">Created</SelectItem>
+            <SelectItem value="UPDATE">Updated</SelectItem>
+            <SelectItem value="DELETE">Deleted</SelectItem>
+            <SelectItem value="LOCK">Locked</SelectItem>
+            <SelectItem value="UNLOCK">Unlocked</SelectItem>
+            <SelectItem value="impersonation">Support access only</SelectItem>
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="w-40 h-9 bg-white"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <Input
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="w-40 h-9 bg-white"
+          />
+        </div>
+        {loading && <Loader2 className="w-5 h-5 text-blue-600 animate-spin" />}
+      </div>
+
+      {/* Table */}
+      <Card className="border border-gray-200">
+        <CardContent className="p-0">
+          {!loading && auditLogs.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-64">
+              <FileText className="w-16 h-16 text-gray-300 mb-4" />
+              <p className="text-gray-500 text-lg">No audit entries found</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>User</TableHead>
+                  {showOrganization && <TableHead>Organization</TableHead>}
+                  <TableHead>Action</TableHead>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {auditLogs.map((log) => (
+                  <TableRow
+                    key={log.id}
+                    className="cursor-pointer hover:bg-gray-50"
+                    onClick={() => setSelectedLog(log)}
+                  >
+                    <TableCell className="whitespace-nowrap text-sm">
+                      {format(new Date(log.createdAt), 'MMM dd, yyyy h:mm a')}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{getAuditUserName(log)}</span>
+                        {log.isImpersonation && (
+                          <Badge variant="outline" className="bg-amber-50 text-amber-700 border-amber-200">
+                            <ShieldAlert className="w-3 h-3 mr-1" />
+                            Support
+                          </Badge>
+                        )}
+                      </div>
+                      {log.user && <div className="text-xs text-gray-500">{log.user.email}</div>}
+                    </TableCell>
+                    {showOrganization && (
+                      <TableCell>
+                        {log.organization ? (
+                          log.organization.name
+                        ) : (
+                          <span className="text-gray-400 text-sm">Platform</span>
+                        )}
+                      </TableCell>
+                    )}
+                    <TableCell>
+                      <AuditActionBadge action={log.action} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{formatAuditField(log.entityType)}</div>
+                      {log.entityId && <div className="text-xs text-gray-500">#{log.entityId}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600 max-w-xs truncate">
+                      {getChangeSummary(log) || <span className="text-gray-400">View snapshot</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Pagination */}
+      {pagination.totalPages > 1 && (
+        <Card className="border border-gray-200">
+          <CardContent className="py-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600 font-medium">
+                Showing {(pagination.page - 1) * pagination.limit + 1} to{' '}
+                {Math.min(pagination.page * pagination.limit, pagination.total)} of{' '}
+                {pagination.total} entries
+              </p>
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  disabled={pagination.page === 1}
+                  onClick={() => setPagination((prev) => ({ ...prev, page: prev.page - 1 }))}
+                  className="px-6"
+                >
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  disabled={pagination.page === pagination.totalPages}
+                  onClick={() => setPagination((prev) => ({ ...prev, page: prev.page + 1 }))}
+                  className="px-6"
+                >
+                  Next
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Diff Dialog */}
+      <Dialog open={!!selectedLog} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {selectedLog && (
+            <>
+              <DialogHeader>
+                <DialogTitle className="flex items-center gap-3">
+                  <AuditActionBadge action={selectedLog.action} />
+                  {formatAuditField(selectedLog.entityType)}
+                  {selectedLog.entityId && <span className="text-gray-500">#{selectedLog.entityId}</span>}
+                </DialogTitle>
+                <DialogDescription>
+                  {getAuditUserName(selectedLog)} ·{' '}
+                  {format(new Date(selectedLog.createdAt), 'MMM dd, yyyy h:mm:ss a')}
+                  {selectedLog.isImpersonation && ' · performed by platform support (impersonation)'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <AuditLogDiff auditLog={selectedLog} />
+
+              <div className="grid grid-cols-2 gap-4 text-xs text-gray-500">
+                <div>
+                  <span className="block text-gray-400">IP Address</span>
+                  {selectedLog.ipAddress || '—'}
+                </div>
+                <div>
+                  <span className="block text-gray-400">User Agent</span>
+                  <span className="break-all">{selectedLog.userAgent || '—'}</span>
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
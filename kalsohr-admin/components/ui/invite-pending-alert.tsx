@@ -0,0 +1,80 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, Mail, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface InvitePendingAlertProps {
+  emailVerified: boolean;
+  lastLoginAt: string | null;
+  onResend: () => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Pending activation notice for a user who has never signed in, with a resend invitation action
+ * Renders nothing once the user verified their email or signed in
+ *
+ * Usage:
+ * ```tsx
+ * <InvitePendingAlert
+ *   emailVerified={user.emailVerified}
+ *   lastLoginAt={user.lastLoginAt}
+ *   onResend={() => resendInvite(user.id)}
+ * />
+ * ```
+ */
+export function InvitePendingAlert({
+  emailVerified,
+  lastLoginAt,
+  onResend,
+  disabled = false,
+}: InvitePendingAlertProps) {
+  const [isSending, setIsSending] = useState(false);
+
+  if (emailVerified || lastLoginAt) {
+    return null;
+  }
+
+  const handleResend = async () => {
+    try {
+      setIsSending(true);
+      await onResend();
+      toast.success('Invitation sent successfully');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to send invitation');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg p-4 flex items-start justify-between gap-4 border bg-blue-50 border-blue-200">
+      <div className="flex items-start gap-3">
+        <Mail className="w-5 h-5 flex-shrink-0 mt-0.5 text-blue-600" />
+        <div>
+          <h4 className="text-sm font-semibold text-blue-800">Pending Activation</h4>
+          <p className="text-xs mt-1 text-blue-700">
+            This user has not verified their email or signed in yet. Send an invitation to let them set their own password.
+          </p>
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleResend}
+        disabled={disabled || isSending}
+        className="bg-white flex-shrink-0"
+      >
+        {isSending ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <Send className="w-4 h-4 mr-2" />
+        )}
+        Send Invite
+      </Button>
+    </div>
+  );
+}
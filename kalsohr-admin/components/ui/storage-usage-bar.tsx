@@ -0,0 +1,49 @@
+import { StorageUsage } from '@/lib/types/organization';
+
+interface StorageUsageBarProps {
+  usage: StorageUsage;
+  compact?: boolean;
+}
+
+/**
+ * Storage used by an organization against its subscription plan limit
+ * Turns amber from 80% and red from 95%; plans without a limit show the usage only
+ *
+ * Usage:
+ * ```tsx
+ * <StorageUsageBar usage={statistics.storageUsage} />
+ * <StorageUsageBar usage={org.storageUsage} compact />
+ * ```
+ */
+export function StorageUsageBar({ usage, compact = false }: StorageUsageBarProps) {
+  const percent = usage.percentUsed ?? 0;
+  const barColor = percent >= 95 ? 'bg-red-500' : percent >= 80 ? 'bg-amber-500' : 'bg-blue-600';
+
+  return (
+    <div className={compact ? 'space-y-1 min-w-[120px]' : 'space-y-2'}>
+      <p className={compact ? 'text-sm text-gray-900' : 'text-sm text-gray-600'}>
+        <span className={compact ? 'font-medium' : 'text-2xl font-bold text-gray-900'}>
+          {formatMb(usage.usedMb)}
+        </span>
+        {usage.limitMb ? ` of ${formatMb(usage.limitMb)}` : ' (no limit)'}
+      </p>
+      {usage.limitMb !== null && (
+        <div className={`w-full rounded-full bg-gray-200 ${compact ? 'h-1.5' : 'h-2'}`}>
+          <div
+            className={`rounded-full ${barColor} ${compact ? 'h-1.5' : 'h-2'}`}
+            style={{ width: `${Math.max(percent, usage.usedBytes > 0 ? 1 : 0)}%` }}
+          />
+        </div>
+      )}
+      {!compact && usage.percentUsed !== null && (
+        <p className={`text-xs ${percent >= 95 ? 'text-red-600' : 'text-gray-500'}`}>
+          {percent >= 100 ? 'Storage limit reached - uploads are blocked' : `${percent}% used`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function formatMb(mb: number): string {
+  return mb >= 1024 ? `${(mb / 1024).toFixed(2)} GB` : `${mb} MB`;
+}
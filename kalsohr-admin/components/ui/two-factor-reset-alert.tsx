@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Loader2, RotateCcw, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface TwoFactorResetAlertProps {
+  twoFactorEnabled?: boolean;
+  onReset: () => Promise<void>;
+  disabled?: boolean;
+}
+
+/**
+ * Two-factor status of a user account with a reset action for lost devices
+ * Renders nothing when two-factor is not enabled
+ *
+ * Usage:
+ * ```tsx
+ * <TwoFactorResetAlert
+ *   twoFactorEnabled={user.twoFactorEnabled}
+ *   onReset={() => resetUserTwoFactor(user.id)}
+ * />
+ * ```
+ */
+export function TwoFactorResetAlert({
+  twoFactorEnabled = false,
+  onReset,
+  disabled = false,
+}: TwoFactorResetAlertProps) {
+  const [isResetting, setIsResetting] = useState(false);
+  const [isReset, setIsReset] = useState(false);
+
+  if (isReset || !twoFactorEnabled) {
+    return null;
+  }
+
+  const handleReset = async () => {
+    if (!confirm('Reset two-factor authentication for this user? They will be signed out and must set it up again.')) {
+      return;
+    }
+
+    try {
+      setIsResetting(true);
+      await onReset();
+      setIsReset(true);
+      toast.success('Two-factor authentication reset');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to reset two-factor authentication');
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg p-4 flex items-start justify-between gap-4 border bg-green-50 border-green-200">
+      <div className="flex items-start gap-3">
+        <ShieldCheck className="w-5 h-5 flex-shrink-0 mt-0.5 text-green-600" />
+        <div>
+          <h4 className="text-sm font-semibold text-green-800">Two-Factor Authentication Enabled</h4>
+          <p className="text-xs mt-1 text-green-700">
+            Reset it if the user lost access to their authenticator app and recovery codes.
+          </p>
+        </div>
+      </div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleReset}
+        disabled={disabled || isResetting}
+        className="bg-white flex-shrink-0"
+      >
+        {isResetting ? (
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        ) : (
+          <RotateCcw className="w-4 h-4 mr-2" />
+        )}
+        Reset 2FA
+      </Button>
+    </div>
+  );
+}
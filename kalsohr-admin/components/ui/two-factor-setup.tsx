@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Copy, Download, Loader2, ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { TwoFactorCodeForm } from '@/components/forms';
+import { enableTwoFactor, setupTwoFactor } from '@/lib/api/auth';
+import { TwoFactorSetup as TwoFactorSetupData } from '@/lib/types/auth';
+
+interface TwoFactorSetupProps {
+  onComplete: () => void;
+  onCancel?: () => void;
+}
+
+/**
+ * Two-factor enrolment: scan the QR code, confirm a code, then save the recovery codes
+ * Used by the /two-factor-setup page and the two-factor settings dialog
+ */
+export function TwoFactorSetup({ onComplete, onCancel }: TwoFactorSetupProps) {
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleStart = async () => {
+    setIsLoading(true);
+    try {
+      setSetup(await setupTwoFactor());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start two-factor setup');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (code: string) => {
+    setIsLoading(true);
+    try {
+      setRecoveryCodes(await enableTwoFactor(code));
+      toast.success('Two-factor authentication enabled');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid code');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <RecoveryCodesList codes={recoveryCodes} />
+        <Button
+          className="w-full bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+          onClick={onComplete}
+        >
+          I have saved my recovery codes
+        </Button>
+      </div>
+    );
+  }
+
+  if (!setup) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-start gap-3 rounded-lg border border-blue-200 bg-blue-50 p-4">
+          <ShieldCheck className="h-5 w-5 shrink-0 text-blue-600" />
+          <p className="text-sm text-blue-900">
+            You will need an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password.
+            After setup, signing in asks for a code from the app in addition to your password.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button variant="outline" className="flex-1" onClick={onCancel} disabled={isLoading}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            className="flex-1 bg-gradient-to-r from-blue-600 to-indigo-600 hover:from-blue-700 hover:to-indigo-700"
+            onClick={handleStart}
+            disabled={isLoading}
+          >
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Begin Setup
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+      </p>
+      <div className="flex justify-center">
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={setup.qrCode} alt="Two-factor QR code" className="h-48 w-48 rounded border" />
+      </div>
+      <div className="space-y-1 text-center">
+        <p className="text-xs text-gray-500">Can&apos;t scan? Enter this key manually:</p>
+        <code className="block break-all rounded bg-gray-100 px-2 py-1 font-mono text-sm">
+          {setup.secret}
+        </code>
+      </div>
+      <TwoFactorCodeForm
+        onSubmit={handleConfirm}
+        onCancel={onCancel}
+        submitLabel="Enable"
+        isLoading={isLoading}
+        allowRecoveryCode={false}
+      />
+    </div>
+  );
+}
+
+/**
+ * One-time display of recovery codes with copy and download actions
+ */
+export function RecoveryCodesList({ codes }: { codes: string[] }) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'kalsohr-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+        Save these recovery codes somewhere safe. Each code can be used once to sign in if you lose
+        access to your authenticator app. They will not be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border bg-gray-50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleCopy}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" className="flex-1" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download
+        </Button>
+      </div>
+    </div>
+  );
+}
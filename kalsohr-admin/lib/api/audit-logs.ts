@@ -0,0 +1,61 @@
+import apiClient, { handleApiError } from './client';
+import { ApiResponse } from '@/lib/types/api';
+import { AuditLog, AuditLogFilters, AuditLogsData } from '@/lib/types/audit-log';
+import { buildAuditLogQuery } from './org/audit-logs';
+
+/**
+ * Get audit logs across all organizations (Super Admin only)
+ */
+export const getPlatformAuditLogs = async (filters?: AuditLogFilters): Promise<AuditLogsData> => {
+  try {
+    const response = await apiClient.get<ApiResponse<AuditLogsData>>(
+      `/api/v1/superadmin/audit-logs?${buildAuditLogQuery(filters)}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit logs');
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get entity types present in the audit log (Super Admin only)
+ */
+export const getPlatformAuditEntityTypes = async (): Promise<string[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ entityTypes: string[] }>>(
+      '/api/v1/superadmin/audit-logs/entity-types'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit entity types');
+    }
+
+    return response.data.data.entityTypes;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get a single audit log entry (Super Admin only)
+ */
+export const getPlatformAuditLogById = async (id: string): Promise<AuditLog> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ auditLog: AuditLog }>>(
+      `/api/v1/superadmin/audit-logs/${id}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit log');
+    }
+
+    return response.data.data.auditLog;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
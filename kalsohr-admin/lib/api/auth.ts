@@ -1,13 +1,25 @@
 import apiClient, { handleApiError } from './client';
 import { ApiResponse } from '@/lib/types/api';
-import { LoginCredentials, LoginResponse, User } from '@/lib/types/auth';
+import {
+  AuthTokens,
+  InviteDetails,
+  LoginCredentials,
+  LoginResponse,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  User,
+  UserSession,
+} from '@/lib/types/auth';
 
 /**
  * Login user
+ * Accounts with two-factor enabled get a challenge to complete with verifyLoginTwoFactor
  */
-export const login = async (credentials: LoginCredentials): Promise<LoginResponse> => {
+export const login = async (
+  credentials: LoginCredentials
+): Promise<LoginResponse | TwoFactorChallenge> => {
   try {
-    const response = await apiClient.post<ApiResponse<LoginResponse>>(
+    const response = await apiClient.post<ApiResponse<LoginResponse | TwoFactorChallenge>>(
       '/api/v1/auth/login',
       credentials
     );
@@ -55,10 +67,11 @@ export const logout = async (): Promise<void> => {
 
 /**
  * Refresh access token
+ * The refresh token is single-use; the response carries its replacement
  */
-export const refreshToken = async (refreshToken: string): Promise<string> => {
+export const refreshToken = async (refreshToken: string): Promise<AuthTokens> => {
   try {
-    const response = await apiClient.post<ApiResponse<{ accessToken: string }>>(
+    const response = await apiClient.post<ApiResponse<AuthTokens>>(
       '/api/v1/auth/refresh',
       { refreshToken }
     );
@@ -67,7 +80,300 @@ export const refreshToken = async (refreshToken: string): Promise<string> => {
       throw new Error(response.data.message);
     }
 
-    return response.data.data.accessToken;
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get active sessions of the current user
+ */
+export const getSessions = async (): Promise<UserSession[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ sessions: UserSession[] }>>(
+      '/api/v1/auth/sessions'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.sessions;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  try {
+    const response = await apiClient.delete<ApiResponse>(
+      `/api/v1/auth/sessions/${sessionId}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Revoke all sessions of the current user except the current one
+ */
+export const revokeOtherSessions = async (): Promise<number> => {
+  try {
+    const response = await apiClient.delete<ApiResponse<{ revokedCount: number }>>(
+      '/api/v1/auth/sessions'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.revokedCount;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Request a password reset email
+ */
+export const forgotPassword = async (email: string): Promise<string> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/api/v1/auth/forgot-password',
+      { email }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.message;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Set a new password with a reset token
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/api/v1/auth/reset-password',
+      { token, password }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Change the current user's password
+ * Other sessions are signed out; the returned tokens replace the current ones
+ */
+export const changePassword = async (
+  currentPassword: string,
+  newPassword: string
+): Promise<AuthTokens> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ tokens: AuthTokens }>>(
+      '/api/v1/auth/change-password',
+      { currentPassword, newPassword }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.tokens;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Verify email address with a verification token
+ */
+export const verifyEmail = async (token: string): Promise<string> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/api/v1/auth/verify-email',
+      { token }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.message;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Resend the verification email to the current user
+ */
+export const resendVerification = async (): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/api/v1/auth/resend-verification'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get invitation details for an invite token
+ */
+export const getInvite = async (token: string): Promise<InviteDetails> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ invite: InviteDetails }>>(
+      '/api/v1/auth/invite',
+      { params: { token } }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.invite;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Accept an invitation by setting a password
+ */
+export const acceptInvite = async (token: string, password: string): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      '/api/v1/auth/accept-invite',
+      { token, password }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Complete a login with a two-factor or recovery code
+ */
+export const verifyLoginTwoFactor = async (
+  challengeToken: string,
+  code: string
+): Promise<LoginResponse> => {
+  try {
+    const response = await apiClient.post<ApiResponse<LoginResponse>>(
+      '/api/v1/auth/login/2fa',
+      { challengeToken, code }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Start two-factor enrolment: returns a new secret and its QR code
+ */
+export const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+  try {
+    const response = await apiClient.post<ApiResponse<TwoFactorSetup>>(
+      '/api/v1/auth/2fa/setup'
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Confirm enrolment with a code from the authenticator app
+ * Returns the recovery codes, which are only shown once
+ */
+export const enableTwoFactor = async (code: string): Promise<string[]> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>(
+      '/api/v1/auth/2fa/enable',
+      { code }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.recoveryCodes;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Turn two-factor authentication off
+ */
+export const disableTwoFactor = async (password: string, code: string): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse<null>>('/api/v1/auth/2fa/disable', {
+      password,
+      code,
+    });
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Replace the recovery codes with a fresh set
+ */
+export const regenerateRecoveryCodes = async (code: string): Promise<string[]> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ recoveryCodes: string[] }>>(
+      '/api/v1/auth/2fa/recovery-codes',
+      { code }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.recoveryCodes;
   } catch (error) {
     throw new Error(handleApiError(error));
   }
@@ -64,6 +64,26 @@ apiClient.interceptors.request.use(
   }
 );
 
+// In-flight refresh shared by concurrent 401s. Refresh tokens are single-use,
+// so refreshing twice with the same token would be treated as reuse and end the session.
+let refreshPromise: Promise<string> | null = null;
+
+const refreshTokens = async (refreshToken: string): Promise<string> => {
+  const response = await axios.post<ApiResponse<{ accessToken: string; refreshToken: string }>>(
+    `${process.env.NEXT_PUBLIC_API_URL}/api/v1/auth/refresh`,
+    { refreshToken }
+  );
+
+  if (!response.data.success || !response.data.data.accessToken) {
+    throw new Error(response.data.message || 'Failed to refresh token');
+  }
+
+  localStorage.setItem('accessToken', response.data.data.accessToken);
+  localStorage.setItem('refreshToken', response.data.data.refreshToken);
+
+  return response.data.data.accessToken;
+};
+
 // Response interceptor to handle errors
 apiClient.interceptors.response.use(
   (response) => {
@@ -89,6 +109,14 @@ apiClient.interceptors.response.use(
 
     const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
 
+    // Role requires two-factor authentication and the user has not enrolled yet
+    if (error.response?.status === 403 && error.response.data?.code === 'TWO_FACTOR_SETUP_REQUIRED') {
+      if (typeof window !== 'undefined' && window.location.pathname !== '/two-factor-setup') {
+        window.location.href = '/two-factor-setup';
+      }
+      return Promise.reject(error);
+    }
+
     // Handle forbidden access (403)
     if (error.response?.status === 403) {
       console.log('🚫 API Client: Forbidden - redirecting to /forbidden');
@@ -106,21 +134,18 @@ apiClient.interceptors.response.use(
         // Try to refresh token
         const refreshToken = localStorage.getItem('refreshToken');
         if (refreshToken) {
-          const response = await axios.post<ApiResponse>(
-            `${process.env.NEXT_PUBLIC_API_URL}/api/v1/auth/refresh`,
-            { refreshToken }
-          );
-
-          if (response.data.success && response.data.data.accessToken) {
-            const newAccessToken = response.data.data.accessToken;
-            localStorage.setItem('accessToken', newAccessToken);
-
-            // Retry original request with new token
-            if (originalRequest.headers) {
-              originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
-            }
-            return apiClient(originalRequest);
+          if (!refreshPromise) {
+            refreshPromise = refreshTokens(refreshToken).finally(() => {
+              refreshPromise = null;
+            });
+          }
+          const newAccessToken = await refreshPromise;
+
+          // Retry original request with new token
+          if (originalRequest.headers) {
+            originalRequest.headers.Authorization = `Bearer ${newAccessToken}`;
           }
+          return apiClient(originalRequest);
         }
       } catch (refreshError) {
         // Refresh failed, logout user
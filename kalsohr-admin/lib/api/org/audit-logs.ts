@@ -0,0 +1,118 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+import { AuditLog, AuditLogFilters, AuditLogsData } from '@/lib/types/audit-log';
+
+/**
+ * Build query string from audit log filters
+ */
+export const buildAuditLogQuery = (filters?: AuditLogFilters): string => {
+  const params = new URLSearchParams();
+
+  if (filters?.page) params.append('page', filters.page.toString());
+  if (filters?.limit) params.append('limit', filters.limit.toString());
+  if (filters?.userId) params.append('userId', filters.userId.toString());
+  if (filters?.entityType) params.append('entityType', filters.entityType);
+  if (filters?.entityId) params.append('entityId', filters.entityId.toString());
+  if (filters?.action) params.append('action', filters.action);
+  if (filters?.isImpersonation !== undefined) params.append('isImpersonation', String(filters.isImpersonation));
+  if (filters?.startDate) params.append('startDate', filters.startDate);
+  if (filters?.endDate) params.append('endDate', filters.endDate);
+  if (filters?.organizationId) params.append('organizationId', filters.organizationId.toString());
+
+  return params.toString();
+};
+
+/**
+ * Get audit logs for an organization
+ */
+export const getAuditLogs = async (orgSlug: string, filters?: AuditLogFilters): Promise<AuditLogsData> => {
+  try {
+    const response = await apiClient.get<ApiResponse<AuditLogsData>>(
+      `/api/v1/${orgSlug}/audit-logs?${buildAuditLogQuery(filters)}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit logs');
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get entity types present in the organization's audit log
+ */
+export const getAuditEntityTypes = async (orgSlug: string): Promise<string[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ entityTypes: string[] }>>(
+      `/api/v1/${orgSlug}/audit-logs/entity-types`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit entity types');
+    }
+
+    return response.data.data.entityTypes;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get a single audit log entry
+ */
+export const getAuditLogById = async (orgSlug: string, id: string): Promise<AuditLog> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ auditLog: AuditLog }>>(
+      `/api/v1/${orgSlug}/audit-logs/${id}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch audit log');
+    }
+
+    return response.data.data.auditLog;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get change history of an employee
+ */
+export const getEmployeeHistory = async (orgSlug: string, employeeId: number): Promise<AuditLog[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ history: AuditLog[] }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/history`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch employee history');
+    }
+
+    return response.data.data.history;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get change history of a candidate
+ */
+export const getCandidateHistory = async (orgSlug: string, candidateId: number): Promise<AuditLog[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ history: AuditLog[] }>>(
+      `/api/v1/${orgSlug}/recruitment/candidates/${candidateId}/history`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to fetch candidate history');
+    }
+
+    return response.data.data.history;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
@@ -0,0 +1,390 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export interface EmployeeDocumentType {
+  id: number;
+  name: string;
+  code: string;
+  category: string; // Identity, Education, Employment, Financial, Medical
+  isMandatory: boolean;
+}
+
+export interface EmployeeDocument {
+  id: number;
+  organizationId: number;
+  employeeId: number;
+  documentTypeId: number | null;
+  documentTypeMaster: EmployeeDocumentType | null;
+  documentName: string;
+  filePath: string;
+  fileSize: number | null;
+  mimeType: string | null;
+  issueDate: string | null;
+  expiryDate: string | null;
+  notes: string | null;
+  version: number;
+  isLatest: boolean;
+  rootDocumentId: number | null;
+  uploadedAt: string;
+  uploadedBy: number | null;
+  isExpired: boolean;
+  daysUntilExpiry: number | null; // null when the document does not expire
+}
+
+export interface MissingDocumentType {
+  id: number;
+  name: string;
+  code: string;
+  category: string;
+  reason: 'missing' | 'expired';
+}
+
+export interface EmployeeDocumentsResponse {
+  documents: EmployeeDocument[];
+  missingMandatoryTypes: MissingDocumentType[];
+}
+
+export interface EmployeeDocumentData {
+  documentTypeId?: number;
+  documentName?: string;
+  issueDate?: string | null;
+  expiryDate?: string | null;
+  notes?: string | null;
+}
+
+export interface MissingMandatoryDocumentsResponse {
+  mandatoryTypes: Omit<MissingDocumentType, 'reason'>[];
+  employees: {
+    id: number;
+    employeeCode: string;
+    firstName: string;
+    lastName: string | null;
+    department: { id: number; name: string } | null;
+    branch: { id: number; name: string } | null;
+    missingTypes: MissingDocumentType[];
+  }[];
+  summary: {
+    employeesChecked: number;
+    employeesWithMissingDocuments: number;
+  };
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface ComplianceDocument {
+  id: number;
+  documentName: string;
+  documentTypeId: number | null;
+  documentTypeMaster: { id: number; name: string; category: string } | null;
+  expiryDate: string;
+  daysUntilExpiry: number;
+  employee: {
+    id: number;
+    employeeCode: string;
+    firstName: string;
+    lastName: string | null;
+    department: { id: number; name: string } | null;
+    branch: { id: number; name: string } | null;
+  };
+}
+
+export interface ComplianceGroup {
+  id: number | null; // null for employees without a department/branch
+  name: string;
+  employees: number;
+  expired: number;
+  expiring: number;
+  employeesMissingMandatory: number;
+}
+
+export interface DocumentComplianceDashboard {
+  days: number;
+  reminderDays: number[];
+  summary: {
+    activeEmployees: number;
+    compliantEmployees: number;
+    employeesMissingMandatory: number;
+    expiringSoon: number;
+    expired: number;
+  };
+  expiring: ComplianceDocument[];
+  expired: ComplianceDocument[];
+  missingMandatoryByType: (Omit<MissingDocumentType, 'reason'> & { missing: number; expired: number })[];
+  byDepartment: ComplianceGroup[];
+  byBranch: ComplianceGroup[];
+  recentReminders: {
+    id: number;
+    stage: number;
+    expiryDate: string;
+    recipients: string;
+    sentAt: string;
+    document: {
+      id: number;
+      documentName: string;
+      employee: { id: number; employeeCode: string; firstName: string; lastName: string | null };
+    };
+  }[];
+}
+
+export interface DocumentReminderResult {
+  reminders: {
+    documentId: number;
+    documentName: string;
+    documentType: string | null;
+    employeeId: number;
+    employeeCode: string;
+    employeeName: string;
+    expiryDate: string;
+    daysUntilExpiry: number;
+    stage: number;
+  }[];
+  summary: {
+    documentsDue: number;
+    hrRecipients: number;
+    employeeEmails: number;
+  };
+}
+
+/**
+ * Get the active document types (read-only global master)
+ */
+export const getDocumentTypes = async (orgSlug: string, category?: string): Promise<EmployeeDocumentType[]> => {
+  try {
+    const params = new URLSearchParams({ isActive: 'true' });
+    if (category) params.append('category', category);
+
+    const response = await apiClient.get<ApiResponse<{ documentTypes: EmployeeDocumentType[] }>>(
+      `/api/v1/${orgSlug}/masters/document-types?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.documentTypes;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the document vault of an employee (latest version of each document)
+ */
+export const getEmployeeDocuments = async (
+  orgSlug: string,
+  employeeId: number
+): Promise<EmployeeDocumentsResponse> => {
+  try {
+    const response = await apiClient.get<ApiResponse<EmployeeDocumentsResponse>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/documents`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get all versions of an employee document (newest first)
+ */
+export const getEmployeeDocumentVersions = async (
+  orgSlug: string,
+  employeeId: number,
+  documentId: number
+): Promise<EmployeeDocument[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ versions: EmployeeDocument[] }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/documents/${documentId}/versions`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.versions;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Upload a document to an employee's vault
+ */
+export const uploadEmployeeDocument = async (
+  orgSlug: string,
+  employeeId: number,
+  file: File,
+  data: EmployeeDocumentData
+): Promise<EmployeeDocument> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ document: EmployeeDocument }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/documents`,
+      toFormData(data, file),
+      // Remove Content-Type header - browser will set it with boundary
+      { headers: { 'Content-Type': undefined } }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.document;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Update document details, or upload a new version when a file is given
+ */
+export const updateEmployeeDocument = async (
+  orgSlug: string,
+  employeeId: number,
+  documentId: number,
+  data: EmployeeDocumentData,
+  file?: File | null
+): Promise<EmployeeDocument> => {
+  try {
+    const response = await apiClient.put<ApiResponse<{ document: EmployeeDocument }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/documents/${documentId}`,
+      toFormData(data, file),
+      { headers: { 'Content-Type': undefined } }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.document;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Delete an employee document with all its versions
+ */
+export const deleteEmployeeDocument = async (
+  orgSlug: string,
+  employeeId: number,
+  documentId: number
+): Promise<void> => {
+  try {
+    const response = await apiClient.delete<ApiResponse<null>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/documents/${documentId}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get active employees without a valid document of every mandatory type
+ */
+export const getMissingMandatoryDocuments = async (
+  orgSlug: string,
+  filters?: { page?: number; limit?: number; departmentId?: number; branchId?: number; documentTypeId?: number }
+): Promise<MissingMandatoryDocumentsResponse> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+    if (filters?.departmentId) params.append('departmentId', String(filters.departmentId));
+    if (filters?.branchId) params.append('branchId', String(filters.branchId));
+    if (filters?.documentTypeId) params.append('documentTypeId', String(filters.documentTypeId));
+
+    const response = await apiClient.get<ApiResponse<MissingMandatoryDocumentsResponse>>(
+      `/api/v1/${orgSlug}/employees/documents/missing-mandatory?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the document compliance dashboard (expiring, expired and missing documents)
+ */
+export const getDocumentComplianceDashboard = async (
+  orgSlug: string,
+  filters?: { days?: number; departmentId?: number; branchId?: number }
+): Promise<DocumentComplianceDashboard> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters?.days !== undefined) params.append('days', String(filters.days));
+    if (filters?.departmentId) params.append('departmentId', String(filters.departmentId));
+    if (filters?.branchId) params.append('branchId', String(filters.branchId));
+
+    const response = await apiClient.get<ApiResponse<DocumentComplianceDashboard>>(
+      `/api/v1/${orgSlug}/employees/documents/compliance?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Send the document expiry reminders that are due now (dryRun only lists them)
+ */
+export const sendDocumentReminders = async (
+  orgSlug: string,
+  dryRun = false
+): Promise<DocumentReminderResult & { message: string }> => {
+  try {
+    const response = await apiClient.post<ApiResponse<DocumentReminderResult>>(
+      `/api/v1/${orgSlug}/employees/documents/reminders`,
+      { dryRun }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return { ...response.data.data, message: response.data.message };
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Build the multipart body of a document upload (empty dates and notes are sent to clear them)
+ */
+const toFormData = (data: EmployeeDocumentData, file?: File | null): FormData => {
+  const formData = new FormData();
+
+  if (file) {
+    formData.append('file', file);
+  }
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (value !== undefined) {
+      formData.append(key, value === null ? '' : String(value));
+    }
+  });
+
+  return formData;
+};
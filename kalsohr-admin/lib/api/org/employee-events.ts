@@ -0,0 +1,145 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export type EmployeeEventType =
+  | 'promotion'
+  | 'transfer'
+  | 'salary_revision'
+  | 'confirmation'
+  | 'resignation'
+  | 'termination'
+  | 'update'; // recorded automatically when the employee is edited directly
+
+export type EmployeeEventStatus = 'scheduled' | 'applied' | 'cancelled';
+
+type NamedRef = { id: number; name: string } | null;
+
+export interface EmployeeEvent {
+  id: number;
+  employeeId: number;
+  eventType: EmployeeEventType;
+  effectiveDate: string;
+  reason: string | null;
+  status: EmployeeEventStatus;
+  // New values (null = unchanged); previous values are filled in when the event is applied
+  departmentId: number | null;
+  department: NamedRef;
+  previousDepartment: NamedRef;
+  designationId: number | null;
+  designation: NamedRef;
+  previousDesignation: NamedRef;
+  branchId: number | null;
+  branch: NamedRef;
+  previousBranch: NamedRef;
+  salary: string | null; // null without the compensation permission
+  previousSalary: string | null;
+  employeeStatus: string | null;
+  previousStatus: string | null;
+  appliedAt: string | null;
+  cancelledAt: string | null;
+  createdAt: string;
+}
+
+export interface EmployeeTimeline {
+  employee: {
+    id: number;
+    employeeCode: string;
+    firstName: string;
+    lastName: string | null;
+    status: string;
+    isActive: boolean;
+    dateOfJoining: string | null;
+    dateOfLeaving: string | null;
+    department: NamedRef;
+    designation: NamedRef;
+    branch: NamedRef;
+  };
+  events: EmployeeEvent[];
+  canViewCompensation: boolean;
+}
+
+export interface EmployeeEventData {
+  eventType: Exclude<EmployeeEventType, 'update'>;
+  effectiveDate: string;
+  reason: string;
+  departmentId?: number;
+  designationId?: number;
+  branchId?: number;
+  salary?: number;
+}
+
+export const EMPLOYEE_EVENT_LABELS: Record<EmployeeEventType, string> = {
+  promotion: 'Promotion',
+  transfer: 'Transfer',
+  salary_revision: 'Salary Revision',
+  confirmation: 'Confirmation',
+  resignation: 'Resignation',
+  termination: 'Termination',
+  update: 'Record Update',
+};
+
+/**
+ * Get the career timeline of an employee (newest first)
+ */
+export const getEmployeeTimeline = async (orgSlug: string, employeeId: number): Promise<EmployeeTimeline> => {
+  try {
+    const response = await apiClient.get<ApiResponse<EmployeeTimeline>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/events`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Record a lifecycle event (applied right away when effective today or earlier, scheduled otherwise)
+ */
+export const createEmployeeEvent = async (
+  orgSlug: string,
+  employeeId: number,
+  data: EmployeeEventData
+): Promise<EmployeeEvent> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ event: EmployeeEvent }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/events`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.event;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Cancel a scheduled event
+ */
+export const cancelEmployeeEvent = async (
+  orgSlug: string,
+  employeeId: number,
+  eventId: number
+): Promise<EmployeeEvent> => {
+  try {
+    const response = await apiClient.patch<ApiResponse<{ event: EmployeeEvent }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/events/${eventId}/cancel`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.event;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
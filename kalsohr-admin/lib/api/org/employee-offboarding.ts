@@ -0,0 +1,234 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export type OffboardingExitType = 'resignation' | 'termination';
+export type OffboardingStatus = 'in_progress' | 'completed' | 'cancelled';
+export type OffboardingCategory = 'asset_return' | 'clearance' | 'exit_interview' | 'other';
+
+type EmployeeRef = { id: number; employeeCode: string; firstName: string; lastName: string | null };
+
+export interface OffboardingChecklistItem {
+  id: number;
+  offboardingId: number;
+  title: string;
+  category: OffboardingCategory;
+  description: string | null;
+  sortOrder: number;
+  isCompleted: boolean;
+  completedAt: string | null;
+  completedBy: number | null;
+  notes: string | null;
+}
+
+export interface EmployeeOffboarding {
+  id: number;
+  employeeId: number;
+  exitType: OffboardingExitType;
+  noticeDate: string;
+  noticePeriodDays: number;
+  lastWorkingDay: string;
+  reason: string | null;
+  successorEmployeeId: number | null;
+  successor: EmployeeRef | null;
+  event: { id: number; status: string; effectiveDate: string; appliedAt: string | null } | null;
+  status: OffboardingStatus;
+  exitedAt: string | null; // when the user was deactivated and roles handed over
+  completedAt: string | null;
+  cancelledAt: string | null;
+  items: OffboardingChecklistItem[];
+  createdAt: string;
+}
+
+export interface EmployeeOffboardingResponse {
+  offboarding: EmployeeOffboarding | null;
+  // Headships and branches handed over to the successor (or cleared) on exit
+  responsibilities: {
+    departments: { id: number; name: string }[];
+    branches: { id: number; name: string }[];
+  };
+  defaultNoticePeriodDays: number;
+}
+
+export interface OffboardingData {
+  exitType?: OffboardingExitType; // required to start
+  reason?: string;
+  noticeDate?: string;
+  noticePeriodDays?: number;
+  lastWorkingDay?: string;
+  successorEmployeeId?: number | null;
+}
+
+export interface ChecklistTemplateItem {
+  title: string;
+  category: OffboardingCategory;
+  description?: string | null;
+}
+
+export interface ChecklistTemplate {
+  items: ChecklistTemplateItem[];
+  isDefault: boolean; // true until the organization saves its own checklist
+  categories: OffboardingCategory[];
+}
+
+export const OFFBOARDING_CATEGORY_LABELS: Record<OffboardingCategory, string> = {
+  asset_return: 'Asset Return',
+  clearance: 'Clearance',
+  exit_interview: 'Exit Interview',
+  other: 'Other',
+};
+
+/**
+ * Get the offboarding of an employee, with the roles they hand over
+ */
+export const getEmployeeOffboarding = async (
+  orgSlug: string,
+  employeeId: number
+): Promise<EmployeeOffboardingResponse> => {
+  try {
+    const response = await apiClient.get<ApiResponse<EmployeeOffboardingResponse>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/offboarding`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Start the offboarding of an employee
+ */
+export const startOffboarding = async (
+  orgSlug: string,
+  employeeId: number,
+  data: OffboardingData
+): Promise<EmployeeOffboarding> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ offboarding: EmployeeOffboarding }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/offboarding`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.offboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Update the notice period, last working day, reason or successor of an offboarding
+ */
+export const updateOffboarding = async (
+  orgSlug: string,
+  employeeId: number,
+  data: OffboardingData
+): Promise<EmployeeOffboarding> => {
+  try {
+    const response = await apiClient.put<ApiResponse<{ offboarding: EmployeeOffboarding }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/offboarding`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.offboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Cancel an offboarding and its scheduled exit
+ */
+export const cancelOffboarding = async (orgSlug: string, employeeId: number): Promise<EmployeeOffboarding> => {
+  try {
+    const response = await apiClient.patch<ApiResponse<{ offboarding: EmployeeOffboarding }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/offboarding/cancel`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.offboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Complete or reopen a checklist item
+ */
+export const updateOffboardingItem = async (
+  orgSlug: string,
+  employeeId: number,
+  itemId: number,
+  data: { isCompleted?: boolean; notes?: string | null }
+): Promise<EmployeeOffboarding> => {
+  try {
+    const response = await apiClient.patch<ApiResponse<{ offboarding: EmployeeOffboarding }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/offboarding/items/${itemId}`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.offboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the organization's exit checklist template
+ */
+export const getOffboardingChecklistTemplate = async (orgSlug: string): Promise<ChecklistTemplate> => {
+  try {
+    const response = await apiClient.get<ApiResponse<ChecklistTemplate>>(
+      `/api/v1/${orgSlug}/employees/offboarding/checklist-template`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Replace the organization's exit checklist template (used for offboardings started afterwards)
+ */
+export const updateOffboardingChecklistTemplate = async (
+  orgSlug: string,
+  items: ChecklistTemplateItem[]
+): Promise<ChecklistTemplate> => {
+  try {
+    const response = await apiClient.put<ApiResponse<ChecklistTemplate>>(
+      `/api/v1/${orgSlug}/employees/offboarding/checklist-template`,
+      { items }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
@@ -0,0 +1,428 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export type OnboardingAssignee = 'hr' | 'manager' | 'it' | 'employee';
+export type OnboardingStatus = 'in_progress' | 'completed' | 'cancelled';
+
+type EmployeeRef = { id: number; employeeCode: string; firstName: string; lastName: string | null };
+type CandidateRef = { id: number; firstName: string; lastName: string | null; email: string };
+type NamedRef = { id: number; name: string };
+
+export interface OnboardingTemplateTask {
+  id?: number;
+  title: string;
+  description?: string | null;
+  assigneeRole: OnboardingAssignee;
+  dueDayOffset: number; // days relative to the date of joining (negative = before joining)
+}
+
+export interface OnboardingTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  departmentId: number | null;
+  department: NamedRef | null;
+  employmentTypeId: number | null;
+  employmentType: NamedRef | null;
+  isActive: boolean;
+  tasks?: OnboardingTemplateTask[];
+  _count?: { tasks: number; onboardings: number };
+}
+
+export interface OnboardingTemplateData {
+  name: string;
+  description?: string | null;
+  departmentId?: number | null;
+  employmentTypeId?: number | null;
+  isActive?: boolean;
+  tasks: OnboardingTemplateTask[];
+}
+
+export interface OnboardingTask {
+  id: number;
+  onboardingId: number;
+  title: string;
+  description: string | null;
+  assigneeRole: OnboardingAssignee;
+  dueDayOffset: number;
+  dueDate: string;
+  sortOrder: number;
+  isCompleted: boolean;
+  completedAt: string | null;
+  completedBy: number | null;
+  notes: string | null;
+}
+
+export interface EmployeeOnboarding {
+  id: number;
+  employeeId: number | null;
+  employee: EmployeeRef | null;
+  candidateId: number | null;
+  candidate: CandidateRef | null;
+  templateId: number | null;
+  templateName: string;
+  joiningDate: string;
+  status: OnboardingStatus;
+  completedAt: string | null;
+  cancelledAt: string | null;
+  tasks: OnboardingTask[];
+  createdAt: string;
+}
+
+export interface OnboardingListItem extends Omit<EmployeeOnboarding, 'tasks' | 'employee'> {
+  employee: (EmployeeRef & { department: NamedRef | null }) | null;
+  progress: { total: number; completed: number };
+}
+
+export interface OverdueOnboardingTask extends OnboardingTask {
+  daysOverdue: number;
+  onboarding: {
+    id: number;
+    joiningDate: string;
+    templateName: string;
+    employee: (EmployeeRef & { department: NamedRef | null }) | null;
+    candidate: CandidateRef | null;
+  };
+}
+
+export interface OverdueOnboardingResponse {
+  summary: {
+    inProgress: number;
+    overdueTasks: number;
+    dueThisWeek: number;
+    overdueByAssignee: Record<OnboardingAssignee, number>;
+  };
+  tasks: OverdueOnboardingTask[];
+  pagination: { page: number; limit: number; total: number; totalPages: number };
+}
+
+export interface OverdueOnboardingFilters {
+  assigneeRole?: OnboardingAssignee;
+  departmentId?: number;
+  page?: number;
+  limit?: number;
+}
+
+export const ONBOARDING_ASSIGNEE_LABELS: Record<OnboardingAssignee, string> = {
+  hr: 'HR',
+  manager: 'Manager',
+  it: 'IT',
+  employee: 'Employee',
+};
+
+/**
+ * Get onboarding templates
+ */
+export const getOnboardingTemplates = async (orgSlug: string): Promise<OnboardingTemplate[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ templates: OnboardingTemplate[] }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/templates`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.templates;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get an onboarding template with its tasks
+ */
+export const getOnboardingTemplateById = async (orgSlug: string, templateId: number): Promise<OnboardingTemplate> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ template: OnboardingTemplate }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/templates/${templateId}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.template;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Create an onboarding template
+ */
+export const createOnboardingTemplate = async (
+  orgSlug: string,
+  data: OnboardingTemplateData
+): Promise<OnboardingTemplate> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ template: OnboardingTemplate }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/templates`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.template;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Update an onboarding template (replaces its tasks; onboardings already started keep theirs)
+ */
+export const updateOnboardingTemplate = async (
+  orgSlug: string,
+  templateId: number,
+  data: OnboardingTemplateData
+): Promise<OnboardingTemplate> => {
+  try {
+    const response = await apiClient.put<ApiResponse<{ template: OnboardingTemplate }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/templates/${templateId}`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.template;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Delete an onboarding template
+ */
+export const deleteOnboardingTemplate = async (orgSlug: string, templateId: number): Promise<void> => {
+  try {
+    const response = await apiClient.delete<ApiResponse<null>>(
+      `/api/v1/${orgSlug}/employees/onboarding/templates/${templateId}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get onboardings with task progress
+ */
+export const getOnboardings = async (
+  orgSlug: string,
+  filters?: { status?: OnboardingStatus; page?: number; limit?: number }
+): Promise<{ onboardings: OnboardingListItem[]; pagination: OverdueOnboardingResponse['pagination'] }> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters?.status) params.append('status', filters.status);
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+
+    const response = await apiClient.get<
+      ApiResponse<{ onboardings: OnboardingListItem[]; pagination: OverdueOnboardingResponse['pagination'] }>
+    >(`/api/v1/${orgSlug}/employees/onboarding?${params.toString()}`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the overdue tasks of onboardings in progress, with a summary
+ */
+export const getOverdueOnboardingTasks = async (
+  orgSlug: string,
+  filters?: OverdueOnboardingFilters
+): Promise<OverdueOnboardingResponse> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters?.assigneeRole) params.append('assigneeRole', filters.assigneeRole);
+    if (filters?.departmentId) params.append('departmentId', String(filters.departmentId));
+    if (filters?.page) params.append('page', String(filters.page));
+    if (filters?.limit) params.append('limit', String(filters.limit));
+
+    const response = await apiClient.get<ApiResponse<OverdueOnboardingResponse>>(
+      `/api/v1/${orgSlug}/employees/onboarding/overdue?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the onboarding of an employee, with the template a new one would use
+ */
+export const getEmployeeOnboarding = async (
+  orgSlug: string,
+  employeeId: number
+): Promise<{ onboarding: EmployeeOnboarding | null; suggestedTemplate: NamedRef | null }> => {
+  try {
+    const response = await apiClient.get<
+      ApiResponse<{ onboarding: EmployeeOnboarding | null; suggestedTemplate: NamedRef | null }>
+    >(`/api/v1/${orgSlug}/employees/${employeeId}/onboarding`);
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Start the onboarding of an employee (from the matching template unless one is picked)
+ */
+export const startEmployeeOnboarding = async (
+  orgSlug: string,
+  employeeId: number,
+  data: { templateId?: number; joiningDate?: string }
+): Promise<EmployeeOnboarding> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ onboarding: EmployeeOnboarding }>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/onboarding`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the onboarding of a candidate
+ */
+export const getCandidateOnboarding = async (
+  orgSlug: string,
+  candidateId: number
+): Promise<EmployeeOnboarding | null> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ onboarding: EmployeeOnboarding | null }>>(
+      `/api/v1/${orgSlug}/recruitment/candidates/${candidateId}/onboarding`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Start the onboarding of a selected candidate before they join
+ */
+export const startCandidateOnboarding = async (
+  orgSlug: string,
+  candidateId: number,
+  data: { joiningDate: string; templateId?: number; departmentId?: number; employmentTypeId?: number }
+): Promise<EmployeeOnboarding> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ onboarding: EmployeeOnboarding }>>(
+      `/api/v1/${orgSlug}/recruitment/candidates/${candidateId}/onboarding`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Move an onboarding to another joining date, or link a candidate's onboarding to their employee
+ */
+export const updateOnboarding = async (
+  orgSlug: string,
+  onboardingId: number,
+  data: { joiningDate?: string; employeeId?: number }
+): Promise<EmployeeOnboarding> => {
+  try {
+    const response = await apiClient.put<ApiResponse<{ onboarding: EmployeeOnboarding }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/${onboardingId}`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Cancel an onboarding
+ */
+export const cancelOnboarding = async (orgSlug: string, onboardingId: number): Promise<EmployeeOnboarding> => {
+  try {
+    const response = await apiClient.patch<ApiResponse<{ onboarding: EmployeeOnboarding }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/${onboardingId}/cancel`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Complete or reopen an onboarding task
+ */
+export const updateOnboardingTask = async (
+  orgSlug: string,
+  onboardingId: number,
+  taskId: number,
+  data: { isCompleted?: boolean; notes?: string | null }
+): Promise<EmployeeOnboarding> => {
+  try {
+    const response = await apiClient.patch<ApiResponse<{ onboarding: EmployeeOnboarding }>>(
+      `/api/v1/${orgSlug}/employees/onboarding/${onboardingId}/tasks/${taskId}`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.onboarding;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
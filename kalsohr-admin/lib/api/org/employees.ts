@@ -1,3 +1,4 @@
+import axios from 'axios';
 import apiClient, { handleApiError } from '../client';
 import { ApiResponse } from '@/lib/types/api';
 import {
@@ -8,6 +9,10 @@ import {
   UpdateEmployeeData,
   EmployeeFilters,
   BulkUpdateStatusData,
+  EmployeeImportResult,
+  EmployeeExportFormat,
+  EmployeeExportColumns,
+  EmployeeCodePreview,
 } from '@/lib/types/employee';
 
 /**
@@ -228,15 +233,67 @@ export const deleteEmployee = async (orgSlug: string, id: number): Promise<void>
 };
 
 /**
- * Export employees to CSV
+ * Preview the next generated employee code for the given branch, department and joining date
+ * Pass `pattern` to preview an unsaved pattern
+ */
+export const previewEmployeeCode = async (
+  orgSlug: string,
+  params: { branchId?: number; departmentId?: number; dateOfJoining?: string; pattern?: string } = {}
+): Promise<EmployeeCodePreview> => {
+  try {
+    const query = new URLSearchParams();
+    if (params.branchId) query.append('branchId', String(params.branchId));
+    if (params.departmentId) query.append('departmentId', String(params.departmentId));
+    if (params.dateOfJoining) query.append('dateOfJoining', params.dateOfJoining);
+    if (params.pattern) query.append('pattern', params.pattern);
+
+    const response = await apiClient.get<ApiResponse<EmployeeCodePreview>>(
+      `/api/v1/${orgSlug}/employees/code-preview?${query.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data!;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the columns that can be picked for the employee export
+ */
+export const getEmployeeExportColumns = async (orgSlug: string): Promise<EmployeeExportColumns> => {
+  try {
+    const response = await apiClient.get<ApiResponse<EmployeeExportColumns>>(
+      `/api/v1/${orgSlug}/employees/export/columns`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data!;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Export employees as CSV, XLSX or a PDF roster
+ * Uses the same filters as getAllEmployees (or employeeIds for a selection)
  * Returns a Blob that can be downloaded
  */
-export const exportEmployeesCSV = async (
+export const exportEmployees = async (
   orgSlug: string,
-  filters?: EmployeeFilters
+  filters: EmployeeFilters | undefined,
+  options: { format: EmployeeExportFormat; columns: string[] }
 ): Promise<Blob> => {
   try {
     const params = new URLSearchParams();
+    params.append('format', options.format);
+    params.append('columns', options.columns.join(','));
 
     // Apply same filters as getAllEmployees
     if (filters?.search) params.append('search', filters.search);
@@ -250,18 +307,25 @@ export const exportEmployeesCSV = async (
     if (filters?.dateOfJoiningTo) params.append('dateOfJoiningTo', filters.dateOfJoiningTo);
     if (filters?.salaryMin) params.append('salaryMin', String(filters.salaryMin));
     if (filters?.salaryMax) params.append('salaryMax', String(filters.salaryMax));
+    if (filters?.employeeIds?.length) params.append('employeeIds', filters.employeeIds.join(','));
 
-    const queryString = params.toString();
-    const url = queryString
-      ? `/api/v1/${orgSlug}/employees/export/csv?${queryString}`
-      : `/api/v1/${orgSlug}/employees/export/csv`;
-
-    const response = await apiClient.get(url, {
+    const response = await apiClient.get(`/api/v1/${orgSlug}/employees/export?${params.toString()}`, {
       responseType: 'blob',
     });
 
     return response.data;
   } catch (error) {
+    // Error responses arrive as a Blob too, so read the JSON message out of it
+    if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+      const body = await error.response.data.text();
+      let message = 'Failed to export employees';
+      try {
+        message = JSON.parse(body).message || message;
+      } catch {
+        // Not JSON, keep the generic message
+      }
+      throw new Error(message);
+    }
     throw new Error(handleApiError(error));
   }
 };
@@ -287,6 +351,54 @@ export const bulkUpdateEmployeeStatus = async (
   }
 };
 
+/**
+ * Import employees from a CSV or XLSX file
+ * With dryRun the file is only validated; nothing is imported when any row has an error
+ */
+export const importEmployees = async (
+  orgSlug: string,
+  file: File,
+  dryRun: boolean
+): Promise<EmployeeImportResult & { message: string }> => {
+  try {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const response = await apiClient.post<ApiResponse<EmployeeImportResult>>(
+      `/api/v1/${orgSlug}/employees/import?dryRun=${dryRun}`,
+      formData,
+      // Remove Content-Type header - browser will set it with boundary
+      { headers: { 'Content-Type': undefined } }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return { ...response.data.data, message: response.data.message };
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Download the employee import template (CSV or XLSX)
+ */
+export const getEmployeeImportTemplate = async (
+  orgSlug: string,
+  format: 'csv' | 'xlsx' = 'csv'
+): Promise<Blob> => {
+  try {
+    const response = await apiClient.get(`/api/v1/${orgSlug}/employees/import/template?format=${format}`, {
+      responseType: 'blob',
+    });
+
+    return response.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
 /**
  * Helper function to download CSV blob
  */
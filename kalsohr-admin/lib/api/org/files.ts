@@ -0,0 +1,51 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export interface SignedFileUrls {
+  urls: Record<string, string | null>; // null when the user cannot read the file
+  expiresAt: string | null;
+}
+
+/**
+ * Get short-lived signed URLs for uploaded files (profile pictures, ID proofs, resumes, logos)
+ * Uploads are not public; use these URLs in <img> tags and download links
+ */
+export const getSignedFileUrls = async (orgSlug: string, paths: string[]): Promise<SignedFileUrls> => {
+  try {
+    const response = await apiClient.post<ApiResponse<SignedFileUrls>>(
+      `/api/v1/${orgSlug}/files/signed-urls`,
+      { paths }
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to sign file URLs');
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Open an uploaded file in a new tab through a fresh signed URL
+ */
+export const openFile = async (orgSlug: string, path: string): Promise<void> => {
+  const { urls } = await getSignedFileUrls(orgSlug, [path]);
+  const url = urls[path];
+
+  if (!url) {
+    throw new Error('File not found or access denied');
+  }
+
+  window.open(toAbsoluteFileUrl(url), '_blank');
+};
+
+/**
+ * Prefix an API-relative file URL with the API host
+ */
+export const toAbsoluteFileUrl = (url: string): string => {
+  if (/^(https?:|blob:|data:)/.test(url)) return url;
+  const baseUrl = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000';
+  return `${baseUrl}${url}`;
+};
@@ -0,0 +1,93 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+import { JobPosition } from './job-positions';
+
+export type HeadcountGroupBy = 'department' | 'branch';
+
+export interface HeadcountCounts {
+  planned: number;
+  filled: number;
+  open: number;
+  inRecruitment: number; // open seats covered by Open / On Hold job positions
+  uncovered: number; // open seats without a job position
+  overfilled: number;
+}
+
+export interface PositionSeats extends HeadcountCounts {
+  id: number;
+  title: string;
+  code: string | null;
+  isActive: boolean;
+  department: { id: number; name: string };
+  designation: { id: number; name: string };
+  branch: { id: number; name: string } | null;
+  requisitions: { id: number; title: string; status: string; vacancies: number; hired: number }[];
+}
+
+export interface HeadcountGroup extends HeadcountCounts {
+  id: number | null;
+  name: string;
+  positions: PositionSeats[];
+}
+
+export interface HeadcountPlan {
+  groups: HeadcountGroup[];
+  totals: HeadcountCounts;
+}
+
+export interface RaiseRequisitionData {
+  vacancies?: number; // defaults to the open seats without a job position
+  priority?: 'High' | 'Medium' | 'Low';
+  description?: string;
+  closingDate?: string;
+}
+
+/**
+ * Get the headcount plan (planned, filled and open seats per department or branch)
+ */
+export const getHeadcountPlan = async (
+  orgSlug: string,
+  groupBy: HeadcountGroupBy,
+  includeInactive?: boolean
+): Promise<HeadcountPlan> => {
+  try {
+    const params = new URLSearchParams({ groupBy });
+    if (includeInactive) params.append('includeInactive', 'true');
+
+    const response = await apiClient.get<ApiResponse<HeadcountPlan>>(
+      `/api/v1/${orgSlug}/employees/headcount-plan?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Raise a job position for the open seats of an organizational position
+ */
+export const raiseRequisition = async (
+  orgSlug: string,
+  organizationalPositionId: number,
+  data: RaiseRequisitionData
+): Promise<JobPosition> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ jobPosition: JobPosition }>>(
+      `/api/v1/${orgSlug}/masters/organizational-positions/${organizationalPositionId}/requisitions`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.jobPosition;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
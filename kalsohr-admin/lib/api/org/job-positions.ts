@@ -8,6 +8,7 @@ export interface JobPosition {
   code: string | null;
   description: string | null;
   departmentId: number | null;
+  organizationalPositionId: number | null; // the organizational position whose seats this job position fills
   requiredSkills: string | null;
   requiredQualifications: string | null;
   minExperience: number;
@@ -38,6 +39,11 @@ export interface JobPosition {
     name: string;
     code: string | null;
   };
+  organizationalPosition?: {
+    id: number;
+    title: string;
+    code: string | null;
+  } | null;
   _count?: {
     applications: number;
   };
@@ -48,6 +54,7 @@ export interface CreateJobPositionData {
   code?: string;
   description?: string;
   departmentId?: number;
+  organizationalPositionId?: number | null;
   requiredSkills?: string;
   requiredQualifications?: string;
   minExperience?: number;
@@ -11,6 +11,11 @@ export interface LeaveType {
   isPaid: boolean;
   requiresApproval: boolean;
   maxConsecutiveDays: number | null;
+  isProrated: boolean;
+  carryForwardEnabled: boolean;
+  maxCarryForwardDays: number | null;
+  encashmentEnabled: boolean;
+  maxEncashmentDays: number | null;
   isActive: boolean;
   createdAt: string;
   updatedAt: string;
@@ -42,6 +47,11 @@ export interface CreateLeaveTypeData {
   isPaid?: boolean;
   requiresApproval?: boolean;
   maxConsecutiveDays?: number;
+  isProrated?: boolean;
+  carryForwardEnabled?: boolean;
+  maxCarryForwardDays?: number | null;
+  encashmentEnabled?: boolean;
+  maxEncashmentDays?: number | null;
   isActive?: boolean;
 }
 
@@ -0,0 +1,99 @@
+import apiClient, { handleApiError } from '../client';
+import { ApiResponse } from '@/lib/types/api';
+
+export interface OrgChartOccupant {
+  id: number;
+  employeeCode: string;
+  firstName: string;
+  lastName: string | null;
+  email: string | null;
+  profilePicture: string | null;
+}
+
+export interface OrgChartRollup {
+  positions: number;
+  headCount: number;
+  employees: number;
+  vacancies: number;
+}
+
+export interface OrgChartNode {
+  id: number;
+  title: string;
+  code: string | null;
+  isActive: boolean;
+  department: { id: number; name: string };
+  designation: { id: number; name: string; level: number | null };
+  headCount: number;
+  occupants: OrgChartOccupant[];
+  vacancies: number;
+  rollup: OrgChartRollup; // this position and every position below it
+  children: OrgChartNode[];
+}
+
+export interface OrgChart {
+  roots: OrgChartNode[];
+  totals: OrgChartRollup;
+  unassignedEmployees: number;
+}
+
+export interface OrgChartFilters {
+  rootPositionId?: number;
+  departmentId?: number;
+  includeInactive?: boolean;
+}
+
+type PositionRef = { id: number; title: string };
+
+export interface ReportingLine {
+  position: PositionRef | null;
+  managers: OrgChartOccupant[];
+  managerSource: 'position' | 'department_head' | 'branch_manager' | null;
+  managerPosition: PositionRef | null;
+  skippedVacantPositions: PositionRef[];
+  chain: { position: PositionRef; employees: OrgChartOccupant[] }[];
+  directReports: (OrgChartOccupant & { position: PositionRef })[];
+}
+
+/**
+ * Get the org chart (position hierarchy with occupants, vacancies and rollups)
+ */
+export const getOrgChart = async (orgSlug: string, filters?: OrgChartFilters): Promise<OrgChart> => {
+  try {
+    const params = new URLSearchParams();
+    if (filters?.rootPositionId) params.append('rootPositionId', String(filters.rootPositionId));
+    if (filters?.departmentId) params.append('departmentId', String(filters.departmentId));
+    if (filters?.includeInactive) params.append('includeInactive', 'true');
+
+    const response = await apiClient.get<ApiResponse<OrgChart>>(
+      `/api/v1/${orgSlug}/employees/org-chart?${params.toString()}`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Get the reporting line of an employee (manager, chain above and direct reports)
+ */
+export const getEmployeeReportingLine = async (orgSlug: string, employeeId: number): Promise<ReportingLine> => {
+  try {
+    const response = await apiClient.get<ApiResponse<ReportingLine>>(
+      `/api/v1/${orgSlug}/employees/${employeeId}/manager`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
@@ -1,5 +1,6 @@
 import apiClient, { handleApiError } from '../client';
 import { ApiResponse } from '@/lib/types/api';
+import { OrgChartOccupant, ReportingLine } from './org-chart';
 
 export interface OrganizationalPosition {
   id: number;
@@ -9,6 +10,7 @@ export interface OrganizationalPosition {
   description: string | null;
   departmentId: number;
   designationId: number;
+  branchId: number | null;
   reportingPositionId: number | null;
   headCount: number;
   isActive: boolean;
@@ -39,6 +41,11 @@ export interface OrganizationalPosition {
     code: string | null;
     level: number | null;
   };
+  branch?: {
+    id: number;
+    name: string;
+    code: string | null;
+  } | null;
   reportingPosition?: {
     id: number;
     title: string;
@@ -56,6 +63,7 @@ export interface CreateOrganizationalPositionData {
   description?: string;
   departmentId: number;
   designationId: number;
+  branchId?: number | null;
   reportingPositionId?: number;
   headCount?: number;
   isActive?: boolean;
@@ -69,6 +77,47 @@ export interface OrganizationalPositionFilters {
   designationId?: number;
 }
 
+type PositionRef = { id: number; title: string };
+
+export type PositionMoveMode = 'subtree' | 'position';
+
+export interface PositionMoveData {
+  reportingPositionId: number | null; // null moves the position to the top of the hierarchy
+  mode?: PositionMoveMode; // 'subtree' (default) moves the whole branch, 'position' leaves its subordinates behind
+}
+
+export interface PositionMovePlan {
+  position: PositionRef;
+  from: PositionRef | null;
+  to: PositionRef | null;
+  mode: PositionMoveMode;
+  changes: { position: PositionRef; from: PositionRef | null; to: PositionRef | null }[];
+  movedPositions: number;
+  warnings: string[];
+}
+
+interface PositionManager {
+  managers: OrgChartOccupant[];
+  managerSource: ReportingLine['managerSource'];
+  managerPosition: PositionRef | null;
+}
+
+export interface RestructurePreview {
+  plan: PositionMovePlan;
+  reportingLineChanges: {
+    employee: OrgChartOccupant;
+    position: PositionRef;
+    before: PositionManager;
+    after: PositionManager;
+  }[];
+}
+
+export interface PositionHierarchyIssue {
+  type: 'cycle' | 'missing_parent' | 'inactive_parent';
+  positions: PositionRef[];
+  message: string;
+}
+
 /**
  * Get all organizational positions for an organization
  */
@@ -177,11 +226,16 @@ export const updateOrganizationalPosition = async (
 
 /**
  * Delete organizational position
+ * reattachSubordinates moves its subordinate positions up to its reporting position
  */
-export const deleteOrganizationalPosition = async (orgSlug: string, id: number): Promise<void> => {
+export const deleteOrganizationalPosition = async (
+  orgSlug: string,
+  id: number,
+  reattachSubordinates?: boolean
+): Promise<void> => {
   try {
     const response = await apiClient.delete<ApiResponse>(
-      `/api/v1/${orgSlug}/masters/organizational-positions/${id}`
+      `/api/v1/${orgSlug}/masters/organizational-positions/${id}${reattachSubordinates ? '?reattachSubordinates=true' : ''}`
     );
 
     if (!response.data.success) {
@@ -191,3 +245,70 @@ export const deleteOrganizationalPosition = async (orgSlug: string, id: number):
     throw new Error(handleApiError(error));
   }
 };
+
+/**
+ * Preview moving a position (positions re-parented and employees whose manager changes)
+ */
+export const previewMoveOrganizationalPosition = async (
+  orgSlug: string,
+  id: number,
+  data: PositionMoveData
+): Promise<RestructurePreview> => {
+  try {
+    const response = await apiClient.post<ApiResponse<RestructurePreview>>(
+      `/api/v1/${orgSlug}/masters/organizational-positions/${id}/move/preview`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Move a position (and by default its subtree) under a new reporting position
+ */
+export const moveOrganizationalPosition = async (
+  orgSlug: string,
+  id: number,
+  data: PositionMoveData
+): Promise<PositionMovePlan> => {
+  try {
+    const response = await apiClient.post<ApiResponse<{ plan: PositionMovePlan }>>(
+      `/api/v1/${orgSlug}/masters/organizational-positions/${id}/move`,
+      data
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.plan;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Check the position hierarchy for reporting cycles, missing and inactive reporting positions
+ */
+export const getPositionHierarchyIssues = async (orgSlug: string): Promise<PositionHierarchyIssue[]> => {
+  try {
+    const response = await apiClient.get<ApiResponse<{ issues: PositionHierarchyIssue[] }>>(
+      `/api/v1/${orgSlug}/masters/organizational-positions/hierarchy/issues`
+    );
+
+    if (!response.data.success) {
+      throw new Error(response.data.message);
+    }
+
+    return response.data.data.issues;
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
@@ -120,3 +120,55 @@ export const deleteOrgUser = async (orgSlug: string, id: number): Promise<void>
     throw new Error(handleApiError(error));
   }
 };
+
+/**
+ * Unlock a user locked after failed logins
+ */
+export const unlockOrgUser = async (orgSlug: string, id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/${orgSlug}/users/${id}/unlock`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to unlock user');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Resend the invitation email to a user who has not accepted it yet
+ */
+export const resendOrgUserInvite = async (orgSlug: string, id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/${orgSlug}/users/${id}/resend-invite`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to resend invitation');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Reset a user's two-factor authentication (e.g. lost device)
+ * The user is signed out everywhere and can enrol again
+ */
+export const resetOrgUserTwoFactor = async (orgSlug: string, id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/${orgSlug}/users/${id}/reset-2fa`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to reset two-factor authentication');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
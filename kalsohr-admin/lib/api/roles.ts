@@ -17,6 +17,7 @@ export interface Role {
   organizationId: number | null;
   isSystem: boolean;
   isActive: boolean;
+  requireTwoFactor: boolean;
   createdAt: string;
   updatedAt?: string;
   createdBy?: number | null;
@@ -139,6 +140,7 @@ export const createRole = async (data: {
   code?: string;
   description?: string;
   organizationId?: number | null;
+  requireTwoFactor?: boolean;
   permissions?: Array<{
     moduleCode: string;
     canRead?: boolean;
@@ -175,6 +177,7 @@ export const updateRole = async (
     code?: string;
     description?: string;
     isActive?: boolean;
+    requireTwoFactor?: boolean;
   }
 ): Promise<Role> => {
   try {
@@ -111,3 +111,55 @@ export const deleteUser = async (id: number): Promise<void> => {
     throw new Error(handleApiError(error));
   }
 };
+
+/**
+ * Unlock user locked after failed logins (Super Admin only)
+ */
+export const unlockUser = async (id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/v1/superadmin/users/${id}/unlock`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to unlock user');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Resend the invitation email to a user who has not accepted it yet (Super Admin only)
+ */
+export const resendInvite = async (id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/v1/superadmin/users/${id}/resend-invite`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to resend invitation');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
+
+/**
+ * Reset a user's two-factor authentication (e.g. lost device)
+ * The user is signed out everywhere and can enrol again
+ */
+export const resetUserTwoFactor = async (id: number): Promise<void> => {
+  try {
+    const response = await apiClient.post<ApiResponse>(
+      `/api/v1/superadmin/users/${id}/reset-2fa`
+    );
+
+    if (!response.data.success) {
+      throw new Error('Failed to reset two-factor authentication');
+    }
+  } catch (error) {
+    throw new Error(handleApiError(error));
+  }
+};
@@ -4,7 +4,17 @@ import { useState, useEffect } from 'react';
 import { useAuthStore } from '@/lib/stores/auth-store';
 import { Permission } from '@/lib/types/auth';
 
-export type PermissionAction = 'canRead' | 'canWrite' | 'canUpdate' | 'canDelete' | 'canApprove' | 'canExport';
+export type PermissionAction =
+  | 'canRead'
+  | 'canWrite'
+  | 'canUpdate'
+  | 'canDelete'
+  | 'canApprove'
+  | 'canExport'
+  | 'canViewCompensation'
+  | 'canViewGovernmentIds'
+  | 'canViewBankDetails'
+  | 'canViewFamilyDetails';
 
 /**
  * Hook to check organization-scoped user permissions
@@ -60,7 +70,7 @@ export function useOrgPermissions() {
   /**
    * Check if user has a specific permission for a module
    * Organization users must have explicit permissions
-   * Super admins impersonating have full access except delete/export (support mode restrictions)
+   * Super admins impersonating have full access except delete/export/sensitive data (support mode restrictions)
    */
   const hasPermission = (moduleCode: string, action: PermissionAction): boolean => {
     // Block super admins who are NOT impersonating
@@ -73,9 +83,9 @@ export function useOrgPermissions() {
       return false;
     }
 
-    // Super admin impersonating: grant all permissions except delete and export (safety restriction)
+    // Super admin impersonating: grant all permissions except delete, export and sensitive data (safety restriction)
     if (user?.isSuperAdmin && impersonatedOrg) {
-      if (action === 'canDelete' || action === 'canExport') {
+      if (action === 'canDelete' || action === 'canExport' || action.startsWith('canView')) {
         return false; // Safety: prevent accidental data loss/export in support mode
       }
       return true; // Grant all other permissions (read, write, update, approve)
@@ -0,0 +1,88 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getSignedFileUrls, toAbsoluteFileUrl } from '@/lib/api/org/files';
+
+// Signed URLs are reused across components until shortly before they expire
+const REFRESH_MARGIN_MS = 60 * 1000;
+const MAX_PATHS_PER_REQUEST = 100;
+
+const cache = new Map<string, { url: string | null; expiresAt: number }>();
+
+const cacheKey = (orgSlug: string, path: string) => `${orgSlug}:${path}`;
+
+const isFresh = (orgSlug: string, path: string) => {
+  const entry = cache.get(cacheKey(orgSlug, path));
+  return !!entry && entry.expiresAt - REFRESH_MARGIN_MS > Date.now();
+};
+
+// Paths that are already absolute URLs or local previews need no signing
+const needsSigning = (path: string | null | undefined): path is string =>
+  !!path && !/^(https?:|blob:|data:)/.test(path);
+
+/**
+ * Hook to resolve uploaded file paths to signed URLs for <img> tags and links
+ * Fetches all missing paths in one request and re-signs them before they expire
+ *
+ * Usage:
+ * ```tsx
+ * const { getFileUrl } = useSignedFileUrls(orgSlug, employees.map((e) => e.profilePicture));
+ * <AvatarImage src={getFileUrl(employee.profilePicture)} />
+ * ```
+ */
+export function useSignedFileUrls(orgSlug: string, paths: (string | null | undefined)[]) {
+  // Bumped when new URLs arrive or cached ones are about to expire
+  const [tick, setTick] = useState(0);
+
+  const pathsKey = Array.from(new Set(paths.filter(needsSigning))).sort().join('\n');
+
+  useEffect(() => {
+    const all = pathsKey ? pathsKey.split('\n') : [];
+    if (!orgSlug || all.length === 0) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const missing = all.filter((path) => !isFresh(orgSlug, path));
+
+    if (missing.length > 0) {
+      // The API signs at most MAX_PATHS_PER_REQUEST paths per call
+      const chunks: string[][] = [];
+      for (let i = 0; i < missing.length; i += MAX_PATHS_PER_REQUEST) {
+        chunks.push(missing.slice(i, i + MAX_PATHS_PER_REQUEST));
+      }
+
+      Promise.all(chunks.map((chunk) => getSignedFileUrls(orgSlug, chunk)))
+        .then((results) => {
+          results.forEach(({ urls, expiresAt }, index) => {
+            const expiry = expiresAt ? new Date(expiresAt).getTime() : Date.now() + REFRESH_MARGIN_MS * 2;
+            chunks[index].forEach((path) => {
+              cache.set(cacheKey(orgSlug, path), { url: urls[path] ?? null, expiresAt: expiry });
+            });
+          });
+          if (!cancelled) setTick((value) => value + 1);
+        })
+        .catch((error) => {
+          console.error('Failed to sign file URLs:', error);
+        });
+    } else {
+      // Re-sign shortly before the first URL expires
+      const earliest = Math.min(...all.map((path) => cache.get(cacheKey(orgSlug, path))?.expiresAt ?? Infinity));
+      const delay = Math.max(earliest - REFRESH_MARGIN_MS - Date.now(), REFRESH_MARGIN_MS);
+      timer = setTimeout(() => setTick((value) => value + 1), delay);
+    }
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [orgSlug, pathsKey, tick]);
+
+  const getFileUrl = (path: string | null | undefined): string => {
+    if (!path) return '';
+    if (!needsSigning(path)) return path;
+    const entry = cache.get(cacheKey(orgSlug, path));
+    return entry?.url ? toAbsoluteFileUrl(entry.url) : '';
+  };
+
+  return { getFileUrl };
+}
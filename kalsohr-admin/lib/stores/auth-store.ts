@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { AuthState, LoginCredentials, User } from '@/lib/types/auth';
+import { AuthState, LoginCredentials, LoginResponse, User } from '@/lib/types/auth';
 import * as authApi from '@/lib/api/auth';
 
 export const useAuthStore = create<AuthState>()(
@@ -19,23 +19,45 @@ export const useAuthStore = create<AuthState>()(
         try {
           const data = await authApi.login(credentials);
 
-          // Store tokens in localStorage
-          localStorage.setItem('accessToken', data.tokens.accessToken);
-          localStorage.setItem('refreshToken', data.tokens.refreshToken);
+          // Two-factor accounts must still enter a code
+          if ('twoFactorRequired' in data) {
+            set({ isLoading: false });
+            return data;
+          }
 
-          set({
-            user: data.user,
-            accessToken: data.tokens.accessToken,
-            refreshToken: data.tokens.refreshToken,
-            isAuthenticated: true,
-            isLoading: false,
-          });
+          get().setSession(data);
+          return null;
+        } catch (error) {
+          set({ isLoading: false });
+          throw error;
+        }
+      },
+
+      verifyTwoFactor: async (challengeToken: string, code: string) => {
+        set({ isLoading: true });
+        try {
+          const data = await authApi.verifyLoginTwoFactor(challengeToken, code);
+          get().setSession(data);
         } catch (error) {
           set({ isLoading: false });
           throw error;
         }
       },
 
+      setSession: (data: LoginResponse) => {
+        // Store tokens in localStorage
+        localStorage.setItem('accessToken', data.tokens.accessToken);
+        localStorage.setItem('refreshToken', data.tokens.refreshToken);
+
+        set({
+          user: data.user,
+          accessToken: data.tokens.accessToken,
+          refreshToken: data.tokens.refreshToken,
+          isAuthenticated: true,
+          isLoading: false,
+        });
+      },
+
       logout: async () => {
         try {
           await authApi.logout();
@@ -59,16 +81,18 @@ export const useAuthStore = create<AuthState>()(
       },
 
       refreshAccessToken: async () => {
-        const { refreshToken } = get();
+        // The API client may already have rotated the token, localStorage holds the latest one
+        const refreshToken = localStorage.getItem('refreshToken') || get().refreshToken;
         if (!refreshToken) {
           throw new Error('No refresh token available');
         }
 
         try {
-          const newAccessToken = await authApi.refreshToken(refreshToken);
-          localStorage.setItem('accessToken', newAccessToken);
+          const tokens = await authApi.refreshToken(refreshToken);
+          localStorage.setItem('accessToken', tokens.accessToken);
+          localStorage.setItem('refreshToken', tokens.refreshToken);
 
-          set({ accessToken: newAccessToken });
+          set({ accessToken: tokens.accessToken, refreshToken: tokens.refreshToken });
         } catch (error) {
           // If refresh fails, logout user
           get().logout();
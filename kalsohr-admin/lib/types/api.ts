@@ -15,5 +15,6 @@ export interface ApiResponse<T = any> {
 export interface ApiError {
   success: false;
   message: string;
+  code?: string; // Machine-readable reason, e.g. TWO_FACTOR_SETUP_REQUIRED
   error?: any;
 }
@@ -0,0 +1,54 @@
+// Audit Log Types
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'LOCK' | 'UNLOCK';
+
+export interface AuditLog {
+  id: string;
+  organizationId: number | null;
+  userId: number | null;
+  action: AuditAction | string;
+  entityType: string;
+  entityId: number | null;
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  isImpersonation: boolean;
+  createdAt: string;
+  user?: {
+    id: number;
+    firstName: string | null;
+    lastName: string | null;
+    email: string;
+    isSuperAdmin: boolean;
+  } | null;
+  organization?: {
+    id: number;
+    name: string;
+    slug: string;
+  } | null;
+}
+
+export interface AuditLogFilters {
+  page?: number;
+  limit?: number;
+  userId?: number;
+  entityType?: string;
+  entityId?: number;
+  action?: string;
+  isImpersonation?: boolean;
+  startDate?: string;
+  endDate?: string;
+  // Super admin only: organization ID or 'platform' for platform-level entries
+  organizationId?: number | 'platform';
+}
+
+export interface AuditLogsData {
+  auditLogs: AuditLog[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
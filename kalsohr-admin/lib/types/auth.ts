@@ -8,6 +8,10 @@ export interface Permission {
   canDelete: boolean;
   canApprove: boolean;
   canExport: boolean;
+  canViewCompensation: boolean;
+  canViewGovernmentIds: boolean;
+  canViewBankDetails: boolean;
+  canViewFamilyDetails: boolean;
 }
 
 // User info for audit fields
@@ -29,6 +33,10 @@ export interface User {
   isActive: boolean;
   emailVerified: boolean;
   lastLoginAt: string | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
+  twoFactorEnabled?: boolean;
+  twoFactor?: TwoFactorStatus; // Only on the signed-in user (/auth/me and login)
   createdAt: string;
   updatedAt?: string;
   createdBy?: number | null;
@@ -45,6 +53,7 @@ export interface Role {
   name: string;
   code: string;
   description: string | null;
+  requireTwoFactor?: boolean;
 }
 
 export interface OrganizationModule {
@@ -76,12 +85,55 @@ export interface LoginCredentials {
   orgSlug?: string; // Optional: for organization-scoped login
 }
 
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
 export interface LoginResponse {
   user: User;
-  tokens: {
-    accessToken: string;
-    refreshToken: string;
-  };
+  tokens: AuthTokens;
+}
+
+// Returned by login instead of tokens when the account has two-factor enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean; // The user's role makes two-factor mandatory
+  setupRequired: boolean; // Required but not enrolled yet
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL of a PNG QR code
+}
+
+export interface UserSession {
+  id: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastActiveAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface InviteDetails {
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+  organization: {
+    id: number;
+    name: string;
+    slug: string;
+  } | null;
 }
 
 export interface ImpersonatedOrganization {
@@ -98,7 +150,9 @@ export interface AuthState {
   isLoading: boolean;
   _hasHydrated: boolean; // Track if Zustand has loaded from localStorage
   impersonatedOrg: ImpersonatedOrganization | null; // Organization being impersonated by super admin
-  login: (credentials: LoginCredentials) => Promise<void>;
+  login: (credentials: LoginCredentials) => Promise<TwoFactorChallenge | null>; // Challenge when a code is still needed
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  setSession: (data: LoginResponse) => void;
   logout: () => void;
   refreshAccessToken: () => Promise<void>;
   setUser: (user: User | null) => void;
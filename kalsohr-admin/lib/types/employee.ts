@@ -254,7 +254,7 @@ export interface EmployeeResponse {
 export interface CreateEmployeeData {
   // Required fields
   firstName: string;
-  employeeCode: string;
+  employeeCode: string; // Empty to have it generated (organizations with automatic codes)
   dateOfJoining: string;
 
   // Basic Information (optional)
@@ -452,6 +452,75 @@ export interface BulkUpdateStatusData {
   isActive?: boolean;
 }
 
+/**
+ * Bulk Import Result (one entry per file row)
+ */
+export interface EmployeeImportRow {
+  row: number;
+  employeeCode: string | null;
+  name: string | null;
+  status: 'valid' | 'invalid' | 'created';
+  errors: string[];
+  hiddenColumns: string[]; // columns of hidden field groups with a value in this row (not imported)
+  employeeId?: number;
+}
+
+export interface EmployeeImportResult {
+  dryRun: boolean;
+  imported: boolean;
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    created: number;
+  };
+  columns: {
+    mapped: string[];
+    ignored: string[];
+    hidden: string[];
+  };
+  employeeLimit: {
+    max: number;
+    current: number;
+    remaining: number;
+  } | null;
+  rows: EmployeeImportRow[];
+}
+
+/**
+ * Employee Code Preview (next generated code, not reserved)
+ */
+export interface EmployeeCodePreview {
+  autoGenerate: boolean;
+  pattern: string;
+  code: string | null;
+  error: string | null; // e.g. the pattern needs a branch that is not selected yet
+}
+
+/**
+ * Employee Export (CSV, XLSX or PDF roster with picked columns)
+ */
+export type EmployeeExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+/**
+ * Groups of sensitive employee fields, granted per role on the employees permission
+ */
+export type EmployeeFieldGroup = 'compensation' | 'governmentIds' | 'bankDetails' | 'familyDetails';
+
+export interface EmployeeExportColumn {
+  key: string;
+  header: string;
+  group: string;
+  fieldGroup: EmployeeFieldGroup | null;
+  allowed: boolean; // false for columns of a field group the role may not see
+}
+
+export interface EmployeeExportColumns {
+  columns: EmployeeExportColumn[];
+  defaultColumns: string[];
+  hiddenFieldGroups: EmployeeFieldGroup[];
+}
+
 /**
  * Employee Stats (for dashboard cards)
  */
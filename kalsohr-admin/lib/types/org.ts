@@ -11,6 +11,7 @@ export interface OrgRole {
   description: string | null;
   isSystem: boolean;
   isActive: boolean;
+  requireTwoFactor: boolean;
   organizationId: number;
   createdAt: string;
   updatedAt: string;
@@ -20,6 +21,9 @@ export interface OrgRole {
   };
 }
 
+// Which employees a role's permissions reach (employees, attendance and leave modules)
+export type DataScope = 'own' | 'reports' | 'department' | 'branch' | 'organization';
+
 // Role Permission for display/edit
 export interface RolePermission {
   id: number;
@@ -31,6 +35,11 @@ export interface RolePermission {
   canDelete: boolean;
   canApprove: boolean;
   canExport: boolean;
+  canViewCompensation: boolean;
+  canViewGovernmentIds: boolean;
+  canViewBankDetails: boolean;
+  canViewFamilyDetails: boolean;
+  dataScope: DataScope;
 }
 
 // API Response Types
@@ -59,12 +68,14 @@ export interface CreateOrgRoleData {
   code: string;
   description?: string;
   isActive?: boolean;
+  requireTwoFactor?: boolean;
 }
 
 export interface UpdateOrgRoleData {
   name?: string;
   description?: string;
   isActive?: boolean;
+  requireTwoFactor?: boolean;
 }
 
 export interface UpdateRolePermissionsData {
@@ -76,6 +87,11 @@ export interface UpdateRolePermissionsData {
     canDelete: boolean;
     canApprove: boolean;
     canExport: boolean;
+    canViewCompensation?: boolean;
+    canViewGovernmentIds?: boolean;
+    canViewBankDetails?: boolean;
+    canViewFamilyDetails?: boolean;
+    dataScope?: DataScope;
   }[];
 }
 
@@ -89,7 +105,10 @@ export interface OrgUser {
   avatar: string | null;
   isActive: boolean;
   emailVerified: boolean;
+  twoFactorEnabled?: boolean;
   lastLoginAt: string | null;
+  failedLoginAttempts?: number;
+  lockedUntil?: string | null;
   createdAt: string;
   updatedAt: string;
   roleId: number | null;
@@ -120,12 +139,13 @@ export interface OrgUserResponse {
 
 export interface CreateOrgUserData {
   email: string;
-  password: string;
+  password?: string;
   firstName: string;
   lastName: string;
   phone?: string;
   roleId?: number;
   isActive?: boolean;
+  sendInvite?: boolean; // Email an invitation instead of setting a password
 }
 
 export interface UpdateOrgUserData {
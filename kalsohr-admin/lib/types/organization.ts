@@ -70,6 +70,10 @@ export interface Organization {
   cityId: number | null;
   postalCode: string | null;
   timezone: string | null;
+  documentReminderDays?: string | null; // Days before expiry for document reminders, e.g. "30,7,0"
+  employeeCodeAutoGenerate?: boolean; // Generate employee codes from employeeCodePattern
+  employeeCodePattern?: string; // e.g. "{ORG}-{BRANCH}-{YYYY}-{SEQ:4}"
+  defaultNoticePeriodDays?: number; // Used when an offboarding does not give a notice period
   organizationTypeId: number | null;
   industryTypeId: number | null;
   businessCategoryId: number | null;
@@ -101,6 +105,7 @@ export interface Organization {
   industryType?: IndustryType;
   businessCategory?: BusinessCategory;
   organizationModules?: OrganizationModule[];
+  storageUsage?: StorageUsage;
   _count?: {
     users: number;
     employees: number;
@@ -108,6 +113,14 @@ export interface Organization {
   };
 }
 
+// Storage used by an organization against its subscription plan's maxStorageMb
+export interface StorageUsage {
+  usedBytes: number;
+  usedMb: number;
+  limitMb: number | null; // null when the plan has no storage limit
+  percentUsed: number | null;
+}
+
 // User info for audit fields
 export interface AuditUser {
   id: number;
@@ -271,6 +284,7 @@ export interface OrganizationStatistics {
   totalUsers: number;
   totalEmployees: number;
   storageUsedMb: number;
+  storageUsage: StorageUsage;
   enabledModulesCount: number;
 }
 
@@ -296,4 +310,8 @@ export interface UpdateOrganizationProfileData {
 
 export interface UpdateOrganizationSettingsData {
   timezone?: string;
+  documentReminderDays?: string;
+  employeeCodeAutoGenerate?: boolean;
+  employeeCodePattern?: string;
+  defaultNoticePeriodDays?: number;
 }
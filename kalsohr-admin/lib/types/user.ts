@@ -34,13 +34,14 @@ export interface UserResponse {
 // Request Types
 export interface CreateUserData {
   email: string;
-  password: string;
+  password?: string;
   firstName: string;
   lastName: string;
   phone?: string;
   organizationId: number;
   roleId?: number;
   isActive?: boolean;
+  sendInvite?: boolean; // Email an invitation instead of setting a password
 }
 
 export interface UpdateUserData {
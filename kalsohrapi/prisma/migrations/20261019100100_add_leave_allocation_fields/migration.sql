@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE `leave_balances` ADD COLUMN `allocatedDays` DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `carriedForwardDays` DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    ADD COLUMN `encashedDays` DECIMAL(5, 2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE `leave_types` ADD COLUMN `carryForwardEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `encashmentEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `isProrated` BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN `maxCarryForwardDays` INTEGER NULL,
+    ADD COLUMN `maxEncashmentDays` INTEGER NULL;
+
+-- Existing balances were allocated in full: record their total as the allocation
+UPDATE `leave_balances` SET `allocatedDays` = `totalDays`;
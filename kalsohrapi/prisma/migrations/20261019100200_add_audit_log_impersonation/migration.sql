@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `audit_logs` ADD COLUMN `isImpersonation` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE `roles` ADD COLUMN `requireTwoFactor` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `users` ADD COLUMN `twoFactorEnabled` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `twoFactorEnabledAt` DATETIME(3) NULL,
+    ADD COLUMN `twoFactorLastUsedStep` INTEGER NULL,
+    ADD COLUMN `twoFactorSecret` VARCHAR(255) NULL;
+
+-- CreateTable
+CREATE TABLE `two_factor_recovery_codes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `userId` INTEGER NOT NULL,
+    `codeHash` VARCHAR(64) NOT NULL,
+    `usedAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `two_factor_recovery_codes_userId_usedAt_idx`(`userId`, `usedAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `two_factor_recovery_codes` ADD CONSTRAINT `two_factor_recovery_codes_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
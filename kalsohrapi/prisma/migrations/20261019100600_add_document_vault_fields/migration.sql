@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE `employee_documents` ADD COLUMN `expiryDate` DATE NULL,
+    ADD COLUMN `isLatest` BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN `issueDate` DATE NULL,
+    ADD COLUMN `notes` TEXT NULL,
+    ADD COLUMN `rootDocumentId` INTEGER NULL,
+    ADD COLUMN `version` INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX `employee_documents_organizationId_expiryDate_idx` ON `employee_documents`(`organizationId`, `expiryDate`);
+
+-- CreateIndex
+CREATE INDEX `employee_documents_rootDocumentId_idx` ON `employee_documents`(`rootDocumentId`);
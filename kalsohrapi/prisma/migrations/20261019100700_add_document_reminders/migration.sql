@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `documentReminderDays` VARCHAR(50) NULL DEFAULT '30,7,0';
+
+-- CreateTable
+CREATE TABLE `document_reminders` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `documentId` INTEGER NOT NULL,
+    `employeeId` INTEGER NOT NULL,
+    `stage` INTEGER NOT NULL,
+    `expiryDate` DATE NOT NULL,
+    `recipients` TEXT NOT NULL,
+    `sentAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `document_reminders_organizationId_sentAt_idx`(`organizationId`, `sentAt`),
+    UNIQUE INDEX `document_reminders_documentId_stage_key`(`documentId`, `stage`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `document_reminders` ADD CONSTRAINT `document_reminders_documentId_fkey` FOREIGN KEY (`documentId`) REFERENCES `employee_documents`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
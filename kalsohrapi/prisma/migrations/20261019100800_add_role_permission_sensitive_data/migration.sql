@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `role_permissions` ADD COLUMN `canViewSensitive` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `employeeCodeAutoGenerate` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `employeeCodePattern` VARCHAR(100) NOT NULL DEFAULT '{ORG}-{SEQ:4}';
+
+-- CreateTable
+CREATE TABLE `employee_code_sequences` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `scope` VARCHAR(150) NOT NULL,
+    `lastValue` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    UNIQUE INDEX `employee_code_sequences_organizationId_scope_key`(`organizationId`, `scope`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `employee_code_sequences` ADD CONSTRAINT `employee_code_sequences_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE `employee_events` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `employeeId` INTEGER NOT NULL,
+    `eventType` VARCHAR(30) NOT NULL,
+    `effectiveDate` DATE NOT NULL,
+    `reason` TEXT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+    `departmentId` INTEGER NULL,
+    `previousDepartmentId` INTEGER NULL,
+    `designationId` INTEGER NULL,
+    `previousDesignationId` INTEGER NULL,
+    `branchId` INTEGER NULL,
+    `previousBranchId` INTEGER NULL,
+    `salary` DECIMAL(10, 2) NULL,
+    `previousSalary` DECIMAL(10, 2) NULL,
+    `employeeStatus` VARCHAR(20) NULL,
+    `previousStatus` VARCHAR(20) NULL,
+    `appliedAt` DATETIME(3) NULL,
+    `cancelledAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `createdBy` INTEGER NULL,
+    `updatedBy` INTEGER NULL,
+
+    INDEX `employee_events_organizationId_status_effectiveDate_idx`(`organizationId`, `status`, `effectiveDate`),
+    INDEX `employee_events_employeeId_effectiveDate_idx`(`employeeId`, `effectiveDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `employees`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_departmentId_fkey` FOREIGN KEY (`departmentId`) REFERENCES `departments`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_previousDepartmentId_fkey` FOREIGN KEY (`previousDepartmentId`) REFERENCES `departments`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_designationId_fkey` FOREIGN KEY (`designationId`) REFERENCES `designations`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_previousDesignationId_fkey` FOREIGN KEY (`previousDesignationId`) REFERENCES `designations`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_branchId_fkey` FOREIGN KEY (`branchId`) REFERENCES `branches`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_events` ADD CONSTRAINT `employee_events_previousBranchId_fkey` FOREIGN KEY (`previousBranchId`) REFERENCES `branches`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,83 @@
+-- AlterTable
+ALTER TABLE `organizations` ADD COLUMN `defaultNoticePeriodDays` INTEGER NOT NULL DEFAULT 30;
+
+-- CreateTable
+CREATE TABLE `employee_offboardings` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `employeeId` INTEGER NOT NULL,
+    `exitType` VARCHAR(20) NOT NULL,
+    `noticeDate` DATE NOT NULL,
+    `noticePeriodDays` INTEGER NOT NULL,
+    `lastWorkingDay` DATE NOT NULL,
+    `reason` TEXT NULL,
+    `successorEmployeeId` INTEGER NULL,
+    `eventId` INTEGER NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+    `exitedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `cancelledAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `createdBy` INTEGER NULL,
+    `updatedBy` INTEGER NULL,
+
+    UNIQUE INDEX `employee_offboardings_eventId_key`(`eventId`),
+    INDEX `employee_offboardings_organizationId_status_idx`(`organizationId`, `status`),
+    INDEX `employee_offboardings_employeeId_idx`(`employeeId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `offboarding_checklist_items` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `offboardingId` INTEGER NOT NULL,
+    `title` VARCHAR(200) NOT NULL,
+    `category` VARCHAR(30) NOT NULL,
+    `description` TEXT NULL,
+    `sortOrder` INTEGER NOT NULL DEFAULT 0,
+    `isCompleted` BOOLEAN NOT NULL DEFAULT false,
+    `completedAt` DATETIME(3) NULL,
+    `completedBy` INTEGER NULL,
+    `notes` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `offboarding_checklist_items_offboardingId_idx`(`offboardingId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `offboarding_task_templates` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `title` VARCHAR(200) NOT NULL,
+    `category` VARCHAR(30) NOT NULL,
+    `description` TEXT NULL,
+    `sortOrder` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `createdBy` INTEGER NULL,
+    `updatedBy` INTEGER NULL,
+
+    INDEX `offboarding_task_templates_organizationId_idx`(`organizationId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `employee_offboardings` ADD CONSTRAINT `employee_offboardings_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_offboardings` ADD CONSTRAINT `employee_offboardings_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `employees`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_offboardings` ADD CONSTRAINT `employee_offboardings_successorEmployeeId_fkey` FOREIGN KEY (`successorEmployeeId`) REFERENCES `employees`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_offboardings` ADD CONSTRAINT `employee_offboardings_eventId_fkey` FOREIGN KEY (`eventId`) REFERENCES `employee_events`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `offboarding_checklist_items` ADD CONSTRAINT `offboarding_checklist_items_offboardingId_fkey` FOREIGN KEY (`offboardingId`) REFERENCES `employee_offboardings`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `offboarding_task_templates` ADD CONSTRAINT `offboarding_task_templates_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,105 @@
+-- CreateTable
+CREATE TABLE `onboarding_templates` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `name` VARCHAR(100) NOT NULL,
+    `description` TEXT NULL,
+    `departmentId` INTEGER NULL,
+    `employmentTypeId` INTEGER NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `createdBy` INTEGER NULL,
+    `updatedBy` INTEGER NULL,
+
+    INDEX `onboarding_templates_organizationId_isActive_idx`(`organizationId`, `isActive`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `onboarding_template_tasks` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `templateId` INTEGER NOT NULL,
+    `title` VARCHAR(200) NOT NULL,
+    `description` TEXT NULL,
+    `assigneeRole` VARCHAR(20) NOT NULL,
+    `dueDayOffset` INTEGER NOT NULL DEFAULT 0,
+    `sortOrder` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `onboarding_template_tasks_templateId_idx`(`templateId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `employee_onboardings` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `organizationId` INTEGER NOT NULL,
+    `employeeId` INTEGER NULL,
+    `candidateId` INTEGER NULL,
+    `templateId` INTEGER NULL,
+    `templateName` VARCHAR(100) NOT NULL,
+    `joiningDate` DATE NOT NULL,
+    `status` VARCHAR(20) NOT NULL DEFAULT 'in_progress',
+    `completedAt` DATETIME(3) NULL,
+    `cancelledAt` DATETIME(3) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `createdBy` INTEGER NULL,
+    `updatedBy` INTEGER NULL,
+
+    INDEX `employee_onboardings_organizationId_status_idx`(`organizationId`, `status`),
+    INDEX `employee_onboardings_employeeId_idx`(`employeeId`),
+    INDEX `employee_onboardings_candidateId_idx`(`candidateId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `employee_onboarding_tasks` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `onboardingId` INTEGER NOT NULL,
+    `title` VARCHAR(200) NOT NULL,
+    `description` TEXT NULL,
+    `assigneeRole` VARCHAR(20) NOT NULL,
+    `dueDayOffset` INTEGER NOT NULL DEFAULT 0,
+    `dueDate` DATE NOT NULL,
+    `sortOrder` INTEGER NOT NULL DEFAULT 0,
+    `isCompleted` BOOLEAN NOT NULL DEFAULT false,
+    `completedAt` DATETIME(3) NULL,
+    `completedBy` INTEGER NULL,
+    `notes` TEXT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    INDEX `employee_onboarding_tasks_onboardingId_idx`(`onboardingId`),
+    INDEX `employee_onboarding_tasks_isCompleted_dueDate_idx`(`isCompleted`, `dueDate`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `onboarding_templates` ADD CONSTRAINT `onboarding_templates_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `onboarding_templates` ADD CONSTRAINT `onboarding_templates_departmentId_fkey` FOREIGN KEY (`departmentId`) REFERENCES `departments`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `onboarding_templates` ADD CONSTRAINT `onboarding_templates_employmentTypeId_fkey` FOREIGN KEY (`employmentTypeId`) REFERENCES `employment_types`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `onboarding_template_tasks` ADD CONSTRAINT `onboarding_template_tasks_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `onboarding_templates`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_onboardings` ADD CONSTRAINT `employee_onboardings_organizationId_fkey` FOREIGN KEY (`organizationId`) REFERENCES `organizations`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_onboardings` ADD CONSTRAINT `employee_onboardings_employeeId_fkey` FOREIGN KEY (`employeeId`) REFERENCES `employees`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_onboardings` ADD CONSTRAINT `employee_onboardings_candidateId_fkey` FOREIGN KEY (`candidateId`) REFERENCES `candidates`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_onboardings` ADD CONSTRAINT `employee_onboardings_templateId_fkey` FOREIGN KEY (`templateId`) REFERENCES `onboarding_templates`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `employee_onboarding_tasks` ADD CONSTRAINT `employee_onboarding_tasks_onboardingId_fkey` FOREIGN KEY (`onboardingId`) REFERENCES `employee_onboardings`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+/*
+  Warnings:
+
+  - A unique constraint covering the columns `[hiredEmployeeId]` on the table `applications` will be added. If there are existing duplicate values, this will fail.
+
+*/
+-- AlterTable
+ALTER TABLE `applications` ADD COLUMN `hiredAt` DATETIME(3) NULL,
+    ADD COLUMN `hiredEmployeeId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `job_positions` ADD COLUMN `organizationalPositionId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `organizational_positions` ADD COLUMN `branchId` INTEGER NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `applications_hiredEmployeeId_key` ON `applications`(`hiredEmployeeId`);
+
+-- CreateIndex
+CREATE INDEX `job_positions_organizationalPositionId_idx` ON `job_positions`(`organizationalPositionId`);
+
+-- AddForeignKey
+ALTER TABLE `organizational_positions` ADD CONSTRAINT `organizational_positions_branchId_fkey` FOREIGN KEY (`branchId`) REFERENCES `branches`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `job_positions` ADD CONSTRAINT `job_positions_organizationalPositionId_fkey` FOREIGN KEY (`organizationalPositionId`) REFERENCES `organizational_positions`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `applications` ADD CONSTRAINT `applications_hiredEmployeeId_fkey` FOREIGN KEY (`hiredEmployeeId`) REFERENCES `employees`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
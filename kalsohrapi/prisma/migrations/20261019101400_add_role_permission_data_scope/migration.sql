@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `role_permissions` ADD COLUMN `dataScope` VARCHAR(20) NOT NULL DEFAULT 'organization';
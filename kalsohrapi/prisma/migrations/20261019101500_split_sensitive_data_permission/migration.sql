@@ -0,0 +1,23 @@
+/*
+  Warnings:
+
+  - You are about to drop the column `canViewSensitive` on the `role_permissions` table. Its value is copied to the compensation, government ID and bank details flags first.
+
+*/
+-- AlterTable
+ALTER TABLE `role_permissions` ADD COLUMN `canViewBankDetails` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `canViewCompensation` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `canViewFamilyDetails` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `canViewGovernmentIds` BOOLEAN NOT NULL DEFAULT false;
+
+-- Carry the single sensitive-data flag over to the field groups it covered; family details were readable by
+-- every role that could read employees
+UPDATE `role_permissions`
+SET `canViewCompensation` = `canViewSensitive`,
+    `canViewGovernmentIds` = `canViewSensitive`,
+    `canViewBankDetails` = `canViewSensitive`,
+    `canViewFamilyDetails` = `canRead`
+WHERE `moduleCode` = 'employees';
+
+-- AlterTable
+ALTER TABLE `role_permissions` DROP COLUMN `canViewSensitive`;
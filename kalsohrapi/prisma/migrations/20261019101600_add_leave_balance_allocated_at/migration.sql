@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `leave_balances` ADD COLUMN `allocatedAt` DATETIME(3) NULL;
+
+-- Existing balances cannot be told apart from allocated ones: treat them as allocated so no carry forward is added twice
+UPDATE `leave_balances` SET `allocatedAt` = `createdAt`;
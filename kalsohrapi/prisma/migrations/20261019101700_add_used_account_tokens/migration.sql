@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE `used_account_tokens` (
+    `id` VARCHAR(64) NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `purpose` VARCHAR(30) NOT NULL,
+    `expiresAt` DATETIME(3) NOT NULL,
+    `usedAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `used_account_tokens_userId_idx`(`userId`),
+    INDEX `used_account_tokens_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `used_account_tokens` ADD CONSTRAINT `used_account_tokens_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
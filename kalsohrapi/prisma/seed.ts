@@ -841,6 +841,10 @@ async function main() {
         canDelete: true,
         canApprove: true,
         canExport: true,
+        canViewCompensation: true,
+        canViewGovernmentIds: true,
+        canViewBankDetails: true,
+        canViewFamilyDetails: true,
       },
     });
   }
@@ -872,6 +876,10 @@ async function main() {
         canDelete: moduleCode !== 'reports',
         canApprove: ['leave', 'recruitment'].includes(moduleCode),
         canExport: true,
+        canViewCompensation: moduleCode === 'employees',
+        canViewGovernmentIds: moduleCode === 'employees',
+        canViewBankDetails: moduleCode === 'employees',
+        canViewFamilyDetails: moduleCode === 'employees',
       },
     });
   }
@@ -888,13 +896,13 @@ async function main() {
     },
   });
 
-  // Manager permissions
+  // Manager permissions (employees, attendance and leave of their direct and indirect reports)
   await prisma.rolePermission.createMany({
     data: [
       { roleId: managerRole.id, moduleCode: 'dashboard', orgModuleId: createdOrgModules['dashboard'], canRead: true, canExport: false },
-      { roleId: managerRole.id, moduleCode: 'employees', orgModuleId: createdOrgModules['employees'], canRead: true, canExport: true },
-      { roleId: managerRole.id, moduleCode: 'attendance', orgModuleId: createdOrgModules['attendance'], canRead: true, canWrite: true, canUpdate: true, canExport: true },
-      { roleId: managerRole.id, moduleCode: 'leave', orgModuleId: createdOrgModules['leave'], canRead: true, canWrite: true, canUpdate: true, canApprove: true, canExport: true },
+      { roleId: managerRole.id, moduleCode: 'employees', orgModuleId: createdOrgModules['employees'], canRead: true, canExport: true, dataScope: 'reports' },
+      { roleId: managerRole.id, moduleCode: 'attendance', orgModuleId: createdOrgModules['attendance'], canRead: true, canWrite: true, canUpdate: true, canExport: true, dataScope: 'reports' },
+      { roleId: managerRole.id, moduleCode: 'leave', orgModuleId: createdOrgModules['leave'], canRead: true, canWrite: true, canUpdate: true, canApprove: true, canExport: true, dataScope: 'reports' },
       { roleId: managerRole.id, moduleCode: 'reports', orgModuleId: createdOrgModules['reports'], canRead: true, canExport: true },
     ],
   });
@@ -915,8 +923,8 @@ async function main() {
   await prisma.rolePermission.createMany({
     data: [
       { roleId: employeeRole.id, moduleCode: 'dashboard', orgModuleId: createdOrgModules['dashboard'], canRead: true },
-      { roleId: employeeRole.id, moduleCode: 'attendance', orgModuleId: createdOrgModules['attendance'], canRead: true }, // Own attendance only
-      { roleId: employeeRole.id, moduleCode: 'leave', orgModuleId: createdOrgModules['leave'], canRead: true, canWrite: true }, // Apply for leave
+      { roleId: employeeRole.id, moduleCode: 'attendance', orgModuleId: createdOrgModules['attendance'], canRead: true, dataScope: 'own' }, // Own attendance only
+      { roleId: employeeRole.id, moduleCode: 'leave', orgModuleId: createdOrgModules['leave'], canRead: true, canWrite: true, dataScope: 'own' }, // Apply for leave
     ],
   });
 
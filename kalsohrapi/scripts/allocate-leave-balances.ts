@@ -0,0 +1,50 @@
+import { PrismaClient } from '@prisma/client';
+import { allocateLeaveBalances } from '../src/utils/leave-allocation';
+
+const prisma = new PrismaClient();
+
+/**
+ * Year-opening leave allocation job
+ * Usage: npm run leave:allocate -- [year] [--org=<slug>] [--dry-run]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const orgArg = args.find((arg) => arg.startsWith('--org='));
+  const yearArg = args.find((arg) => /^\d{4}$/.test(arg));
+  const year = yearArg ? parseInt(yearArg) : new Date().getFullYear();
+
+  console.log(`Allocating leave balances for ${year}${dryRun ? ' (dry run)' : ''}...`);
+
+  const organizations = await prisma.organization.findMany({
+    where: {
+      isActive: true,
+      status: 'active',
+      ...(orgArg && { slug: orgArg.replace('--org=', '') }),
+    },
+    select: { id: true, name: true, slug: true },
+    orderBy: { id: 'asc' },
+  });
+
+  for (const org of organizations) {
+    const result = await allocateLeaveBalances({ organizationId: org.id, year, dryRun });
+    const { summary } = result;
+
+    console.log(
+      `✓ ${org.name} (${org.slug}): ${summary.created} created, ${summary.updated} updated, ${summary.skipped} skipped, ` +
+        `${summary.carriedForwardDays} day(s) carried forward, ${summary.encashedDays} encashed, ` +
+        `${summary.lapsedDays} lapsed`
+    );
+  }
+
+  console.log(`\n✅ Leave allocation ${dryRun ? 'preview' : 'run'} completed for ${organizations.length} organization(s)!`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,65 @@
+import { PrismaClient } from '@prisma/client';
+import { applyDueEmployeeEvents } from '../src/utils/employee-events';
+
+const prisma = new PrismaClient();
+
+/**
+ * Daily job applying future-dated employee events on their effective date (schedule it with cron, e.g. `5 0 * * *`)
+ * Usage: npm run employees:apply-events -- [--org=<slug>] [--dry-run]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const orgArg = args.find((arg) => arg.startsWith('--org='));
+
+  console.log(`Applying due employee events${dryRun ? ' (dry run)' : ''}...`);
+
+  const organizations = await prisma.organization.findMany({
+    where: {
+      isActive: true,
+      status: 'active',
+      ...(orgArg && { slug: orgArg.replace('--org=', '') }),
+    },
+    select: { id: true, name: true, slug: true },
+    orderBy: { id: 'asc' },
+  });
+
+  let failures = 0;
+
+  for (const org of organizations) {
+    try {
+      const result = await applyDueEmployeeEvents({ organizationId: org.id, dryRun });
+
+      console.log(
+        `✓ ${org.name} (${org.slug}): ${result.due} event(s) due` +
+          `${dryRun ? '' : `, ${result.applied.length} applied`}`
+      );
+
+      for (const failed of result.failed) {
+        console.error(`  ❌ Event ${failed.eventId} (employee ${failed.employeeId}): ${failed.error}`);
+        failures++;
+      }
+    } catch (error) {
+      console.error(`  ❌ ${org.name} (${org.slug}): failed to apply events:`, error);
+      failures++;
+    }
+  }
+
+  console.log(
+    `\n✅ Employee event ${dryRun ? 'preview' : 'run'} completed for ${organizations.length} organization(s)` +
+      `${failures ? `, ${failures} failure(s)` : ''}`
+  );
+
+  if (failures) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
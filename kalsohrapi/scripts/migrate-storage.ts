@@ -0,0 +1,128 @@
+import { Readable } from 'stream';
+import { PrismaClient } from '@prisma/client';
+import { createStorageDriver, parseStoredPath } from '../src/utils/storage';
+import { FILE_COLUMNS, renameOrganizationFile } from '../src/utils/storage-usage';
+
+const prisma = new PrismaClient();
+
+/**
+ * Move uploaded files to another storage backend and rewrite their stored paths
+ * The target backend is configured through the usual STORAGE/S3 environment variables
+ * Usage: npm run storage:migrate -- --to=<local|s3> [--org=<slug>] [--dry-run] [--keep-source]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const keepSource = args.includes('--keep-source');
+  const toArg = args.find((arg) => arg.startsWith('--to='));
+  const orgArg = args.find((arg) => arg.startsWith('--org='));
+
+  if (!toArg) {
+    throw new Error('Missing --to=<local|s3>');
+  }
+
+  const target = createStorageDriver(toArg.replace('--to=', ''));
+
+  let organizationId: number | undefined;
+  if (orgArg) {
+    const slug = orgArg.replace('--org=', '');
+    const organization = await prisma.organization.findUnique({ where: { slug }, select: { id: true } });
+    if (!organization) {
+      throw new Error(`Organization "${slug}" not found`);
+    }
+    organizationId = organization.id;
+  }
+
+  console.log(`Migrating uploaded files to ${target.name} storage${dryRun ? ' (dry run)' : ''}...`);
+
+  // Source path -> target path, so files referenced twice are copied once
+  const copied = new Map<string, string>();
+  let failures = 0;
+
+  for (const column of FILE_COLUMNS) {
+    const summary = { moved: 0, unchanged: 0, missing: 0, skipped: 0 };
+
+    for (const row of await column.find(organizationId)) {
+      const source = parseStoredPath(row.path);
+
+      // External URLs and other values that are not stored files
+      if (!source) {
+        summary.skipped++;
+        continue;
+      }
+
+      const targetPath = target.toStoredPath(source.key);
+      if (targetPath === source.storedPath) {
+        summary.unchanged++;
+        continue;
+      }
+
+      if (!dryRun && !copied.has(source.storedPath)) {
+        try {
+          const file = await source.driver.get(source.key);
+          if (!file) {
+            console.warn(`  ⚠️  ${column.label} #${row.id}: ${row.path} not found`);
+            summary.missing++;
+            continue;
+          }
+          await target.put(source.key, await streamToBuffer(file.body), file.contentType);
+          copied.set(source.storedPath, targetPath);
+        } catch (error) {
+          console.error(`  ❌ ${column.label} #${row.id}: failed to copy ${row.path}:`, error);
+          failures++;
+          continue;
+        }
+      }
+
+      if (!dryRun) {
+        await column.update(row.id, row.path, targetPath);
+        await renameOrganizationFile(source.storedPath, targetPath);
+      }
+      summary.moved++;
+    }
+
+    console.log(
+      `✓ ${column.label}: ${summary.moved} ${dryRun ? 'to move' : 'moved'}, ${summary.unchanged} already in place, ` +
+        `${summary.missing} missing, ${summary.skipped} skipped`
+    );
+  }
+
+  // Remove the originals only after every reference has been rewritten
+  if (!dryRun && !keepSource) {
+    for (const sourcePath of copied.keys()) {
+      const source = parseStoredPath(sourcePath);
+      if (source) {
+        await source.driver.remove(source.key);
+      }
+    }
+  }
+
+  console.log(
+    `\n✅ Storage migration ${dryRun ? 'preview' : 'run'} completed: ${copied.size} file(s) copied` +
+      `${failures ? `, ${failures} failure(s)` : ''}`
+  );
+
+  if (failures) {
+    process.exitCode = 1;
+  }
+}
+
+/**
+ * Helper function to read a whole stream into memory
+ */
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,50 @@
+import { PrismaClient } from '@prisma/client';
+import { recalculateStorageUsage, getStorageUsage } from '../src/utils/storage-usage';
+
+const prisma = new PrismaClient();
+
+/**
+ * Rebuild per-organization storage usage from the files the database references
+ * Run once after upgrading so files uploaded earlier count towards the quota
+ * Usage: npm run storage:usage -- [--org=<slug>]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const orgArg = args.find((arg) => arg.startsWith('--org='));
+
+  const organizations = await prisma.organization.findMany({
+    where: orgArg ? { slug: orgArg.replace('--org=', '') } : {},
+    select: { id: true, name: true, slug: true },
+    orderBy: { id: 'asc' },
+  });
+
+  if (orgArg && organizations.length === 0) {
+    throw new Error(`Organization "${orgArg.replace('--org=', '')}" not found`);
+  }
+
+  console.log('Recalculating storage usage...');
+
+  const result = await recalculateStorageUsage(orgArg ? organizations[0].id : undefined);
+
+  for (const org of organizations) {
+    const usage = await getStorageUsage(org.id);
+    console.log(
+      `✓ ${org.name} (${org.slug}): ${usage.usedMb} MB used` +
+        `${usage.limitMb ? ` of ${usage.limitMb} MB (${usage.percentUsed}%)` : ' (no limit)'}`
+    );
+  }
+
+  console.log(
+    `\n✅ Storage usage recalculated: ${result.tracked} file(s) tracked, ${result.missing} missing, ` +
+      `${result.removed} stale record(s) removed`
+  );
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,60 @@
+import { PrismaClient } from '@prisma/client';
+import { sendDocumentReminders } from '../src/utils/document-compliance';
+
+const prisma = new PrismaClient();
+
+/**
+ * Daily document expiry reminder job (schedule it with cron, e.g. `0 8 * * *`)
+ * Usage: npm run documents:remind -- [--org=<slug>] [--dry-run]
+ */
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const orgArg = args.find((arg) => arg.startsWith('--org='));
+
+  console.log(`Sending document expiry reminders${dryRun ? ' (dry run)' : ''}...`);
+
+  const organizations = await prisma.organization.findMany({
+    where: {
+      isActive: true,
+      status: 'active',
+      ...(orgArg && { slug: orgArg.replace('--org=', '') }),
+    },
+    select: { id: true, name: true, slug: true },
+    orderBy: { id: 'asc' },
+  });
+
+  let failures = 0;
+
+  for (const org of organizations) {
+    try {
+      const { summary } = await sendDocumentReminders({ organizationId: org.id, dryRun });
+
+      console.log(
+        `✓ ${org.name} (${org.slug}): ${summary.documentsDue} document(s) due, ` +
+          `${summary.hrRecipients} HR recipient(s), ${summary.employeeEmails} employee email(s)`
+      );
+    } catch (error) {
+      console.error(`  ❌ ${org.name} (${org.slug}): failed to send reminders:`, error);
+      failures++;
+    }
+  }
+
+  console.log(
+    `\n✅ Document reminder ${dryRun ? 'preview' : 'run'} completed for ${organizations.length} organization(s)` +
+      `${failures ? `, ${failures} failure(s)` : ''}`
+  );
+
+  if (failures) {
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -5,12 +5,37 @@ export const MESSAGES = {
     LOGIN_SUCCESS: 'Login successful',
     LOGOUT_SUCCESS: 'Logout successful',
     INVALID_CREDENTIALS: 'Invalid email or password',
-    ACCOUNT_LOCKED: 'Account is locked. Please contact administrator',
+    ACCOUNT_LOCKED: 'Account is temporarily locked after too many failed login attempts. Please try again later or contact your administrator',
     ACCOUNT_INACTIVE: 'Account is inactive',
     TOKEN_EXPIRED: 'Token has expired',
     TOKEN_INVALID: 'Invalid token',
     UNAUTHORIZED: 'Unauthorized access',
     EMAIL_NOT_VERIFIED: 'Email not verified',
+    SESSION_REVOKED: 'Your session has ended. Please log in again',
+    SESSION_NOT_FOUND: 'Session not found',
+    TOO_MANY_ATTEMPTS: 'Too many attempts. Please try again later',
+    PASSWORD_RESET_SENT: 'If an account exists for this email, a password reset link has been sent',
+    PASSWORD_RESET_SUCCESS: 'Password has been reset. Please log in with your new password',
+    PASSWORD_CHANGED: 'Password changed successfully',
+    PASSWORD_INCORRECT: 'Current password is incorrect',
+    ACCOUNT_TOKEN_INVALID: 'This link is invalid or has expired',
+    EMAIL_VERIFIED: 'Email verified successfully',
+    EMAIL_ALREADY_VERIFIED: 'Email is already verified',
+    VERIFICATION_SENT: 'Verification email sent',
+    INVITE_SENT: 'Invitation email sent',
+    INVITE_ACCEPTED: 'Your password has been set. You can now log in',
+    TWO_FACTOR_REQUIRED: 'Enter the code from your authenticator app to continue',
+    TWO_FACTOR_INVALID_CODE: 'Invalid authentication code',
+    TWO_FACTOR_CHALLENGE_INVALID: 'Your sign-in attempt has expired. Please log in again',
+    TWO_FACTOR_ENABLED: 'Two-factor authentication enabled',
+    TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+    TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+    TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled',
+    TWO_FACTOR_SETUP_NOT_STARTED: 'Start two-factor setup before confirming a code',
+    TWO_FACTOR_SETUP_REQUIRED: 'Your role requires two-factor authentication. Please set it up to continue',
+    TWO_FACTOR_MANDATORY: 'Two-factor authentication is mandatory for your role and cannot be disabled',
+    TWO_FACTOR_RESET: 'Two-factor authentication has been reset',
+    RECOVERY_CODES_REGENERATED: 'New recovery codes generated. Previous codes no longer work',
   },
 
   // Organization
@@ -38,6 +63,13 @@ export const MESSAGES = {
     MODULE_DISABLED: 'This module is not enabled for your organization',
   },
 
+  // Files
+  FILE: {
+    NOT_FOUND: 'File not found',
+    INVALID_PATH: 'Invalid file path',
+    LINK_EXPIRED: 'This file link is invalid or has expired',
+  },
+
   // General
   GENERAL: {
     SUCCESS: 'Operation completed successfully',
@@ -60,6 +92,7 @@ export const STATUS_CODES = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
 };
 
@@ -67,6 +100,59 @@ export const STATUS_CODES = {
 export const TOKEN_EXPIRY = {
   ACCESS_TOKEN: process.env.JWT_EXPIRES_IN || '7d',
   REFRESH_TOKEN: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
+  // Emailed one-time links
+  PASSWORD_RESET: '1h',
+  EMAIL_VERIFICATION: '24h',
+  INVITE: '7d',
+  // Between a correct password and the second factor
+  TWO_FACTOR_CHALLENGE: '5m',
+};
+
+// Login Security
+// Accounts lock after MAX_FAILED_ATTEMPTS consecutive failures; every further
+// MAX_FAILED_ATTEMPTS failures doubles the lockout (15m, 30m, 1h, ... capped at 24h)
+export const LOGIN_SECURITY = {
+  MAX_FAILED_ATTEMPTS: parseInt(process.env.LOGIN_MAX_FAILED_ATTEMPTS || '5'),
+  LOCKOUT_BASE_MINUTES: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15'),
+  LOCKOUT_MAX_MINUTES: 24 * 60,
+};
+
+// Request Throttling (per window, per key)
+export const RATE_LIMITS = {
+  LOGIN_PER_IP: { windowMs: 15 * 60 * 1000, max: 50 },
+  LOGIN_PER_EMAIL: { windowMs: 15 * 60 * 1000, max: 10 },
+  REFRESH_PER_IP: { windowMs: 15 * 60 * 1000, max: 100 },
+  REFRESH_PER_USER: { windowMs: 15 * 60 * 1000, max: 30 },
+  ACCOUNT_EMAIL_PER_IP: { windowMs: 60 * 60 * 1000, max: 20 },
+  ACCOUNT_EMAIL_PER_EMAIL: { windowMs: 60 * 60 * 1000, max: 5 },
+};
+
+// Password Policy (mirrors the admin panel forms)
+export const PASSWORD_POLICY = {
+  MIN_LENGTH: 8,
+  MESSAGE: 'Password must be at least 8 characters and contain an uppercase letter, a lowercase letter and a number',
+};
+
+// Two-Factor Authentication (TOTP, RFC 6238)
+export const TWO_FACTOR = {
+  ISSUER: process.env.TWO_FACTOR_ISSUER || 'KalsoHR',
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  // Accept codes one step either side of the current one to allow for clock drift
+  WINDOW: 1,
+  RECOVERY_CODE_COUNT: 10,
+  // Sent as `code` in 403 responses so clients can send the user to enrolment
+  SETUP_REQUIRED_CODE: 'TWO_FACTOR_SETUP_REQUIRED',
+};
+
+// Why a session was revoked (stored on user_sessions.revoked_reason)
+export const SESSION_REVOKE_REASONS = {
+  LOGOUT: 'logout',
+  REVOKED: 'revoked',
+  PASSWORD_CHANGED: 'password_changed',
+  ROLE_CHANGED: 'role_changed',
+  DEACTIVATED: 'deactivated',
+  TOKEN_REUSE: 'token_reuse',
 };
 
 // Pagination
@@ -89,6 +175,114 @@ export const FILE_UPLOAD = {
   ],
 };
 
+// File Access
+export const FILE_ACCESS = {
+  // Files on the local storage driver are stored under this path prefix (mapped to the uploads directory)
+  PATH_PREFIX: '/uploads/',
+  // Lifetime of signed file URLs used by <img> tags and download links
+  SIGNED_URL_TTL_SECONDS: 15 * 60,
+  MAX_SIGNED_URLS_PER_REQUEST: 100,
+};
+
+// Storage Quota (subscription plan maxStorageMb)
+export const STORAGE_QUOTA = {
+  // Sent as `code` in 400 responses when an upload would exceed the organization's storage limit
+  EXCEEDED_CODE: 'STORAGE_QUOTA_EXCEEDED',
+};
+
+// Employee document expiry tracking
+export const DOCUMENT_REMINDERS = {
+  // Days before expiry at which reminders are sent when the organization has not configured its own (0 = on/after expiry)
+  DEFAULT_DAYS: [30, 7, 0],
+  MAX_DAYS: 365,
+  MAX_STAGES: 5,
+  // Default window of the compliance dashboard's "expiring soon" list
+  DASHBOARD_DEFAULT_DAYS: 30,
+};
+
+// Bulk employee import (CSV/XLSX)
+export const EMPLOYEE_IMPORT = {
+  MAX_FILE_SIZE: 5 * 1024 * 1024, // 5MB
+  MAX_ROWS: 1000,
+  // All rows are created in one transaction
+  TRANSACTION_TIMEOUT_MS: 60 * 1000,
+  // employees.salary is DECIMAL(10, 2)
+  MAX_SALARY: 100000000,
+};
+
+// Employee export (CSV/XLSX/PDF)
+export const EMPLOYEE_EXPORT = {
+  MAX_ROWS: 10000,
+  // A landscape A4 page stays readable up to about this many columns
+  MAX_PDF_COLUMNS: 10,
+};
+
+// Automatic employee codes (see utils/employee-code.ts for the pattern tokens)
+export const EMPLOYEE_CODE = {
+  DEFAULT_PATTERN: '{ORG}-{SEQ:4}',
+  MAX_PATTERN_LENGTH: 100,
+  MAX_SEQ_DIGITS: 10,
+  // employees.employee_code is VARCHAR(50)
+  MAX_LENGTH: 50,
+  // Generated codes already taken by a manually entered code are skipped, up to this many times
+  MAX_ATTEMPTS: 50,
+  // Marks errors raised when a code cannot be generated (e.g. the branch has no code), reported as 400
+  GENERATION_FAILED_CODE: 'EMPLOYEE_CODE_GENERATION_FAILED',
+};
+
+// Employee lifecycle events (see utils/employee-events.ts)
+export const EMPLOYEE_EVENT_TYPES = {
+  PROMOTION: 'promotion',
+  TRANSFER: 'transfer',
+  SALARY_REVISION: 'salary_revision',
+  CONFIRMATION: 'confirmation',
+  RESIGNATION: 'resignation',
+  TERMINATION: 'termination',
+  // Recorded automatically when an employee's department, designation, branch, salary or status is edited directly
+  UPDATE: 'update',
+};
+
+export const EMPLOYEE_EVENT_STATUS = {
+  SCHEDULED: 'scheduled',
+  APPLIED: 'applied',
+  CANCELLED: 'cancelled',
+};
+
+// Employee offboarding (see utils/employee-offboarding.ts)
+export const OFFBOARDING = {
+  STATUS: {
+    IN_PROGRESS: 'in_progress',
+    COMPLETED: 'completed',
+    CANCELLED: 'cancelled',
+  },
+  CATEGORIES: ['asset_return', 'clearance', 'exit_interview', 'other'],
+  MAX_NOTICE_PERIOD_DAYS: 365,
+  MAX_CHECKLIST_ITEMS: 50,
+  // Checklist used until the organization saves its own
+  DEFAULT_CHECKLIST: [
+    { title: 'Return laptop and other company assets', category: 'asset_return' },
+    { title: 'Return ID card and access cards', category: 'asset_return' },
+    { title: 'Revoke system and email access', category: 'clearance' },
+    { title: 'Department clearance from reporting manager', category: 'clearance' },
+    { title: 'Finance clearance and final settlement', category: 'clearance' },
+    { title: 'Conduct exit interview', category: 'exit_interview' },
+  ],
+};
+
+// Employee Onboarding
+export const ONBOARDING = {
+  STATUS: {
+    IN_PROGRESS: 'in_progress',
+    COMPLETED: 'completed',
+    CANCELLED: 'cancelled',
+  },
+  ASSIGNEES: ['hr', 'manager', 'it', 'employee'],
+  MAX_TASKS: 50,
+  MAX_DUE_DAY_OFFSET: 365, // Tasks are due at most this many days before or after joining
+  // New employees get an onboarding automatically unless they joined longer ago than this
+  AUTO_START_MAX_DAYS_AGO: 30,
+};
+
 // Module Codes
 export const MODULES = {
   DASHBOARD: 'dashboard',
@@ -111,6 +305,19 @@ export const PERMISSIONS = {
   EXPORT: 'export',
 };
 
+// Role Data Scopes: which employees a role's permissions on a module reach
+// Every scope includes the user's own employee record; reports follow the organizational position tree
+export const DATA_SCOPES = {
+  OWN: 'own',
+  REPORTS: 'reports',
+  DEPARTMENT: 'department',
+  BRANCH: 'branch',
+  ORGANIZATION: 'organization',
+};
+
+// Modules whose records belong to an employee, so their permissions carry a data scope
+export const DATA_SCOPED_MODULES = [MODULES.EMPLOYEES, MODULES.ATTENDANCE, MODULES.LEAVE];
+
 // Default System Roles
 export const SYSTEM_ROLES = {
   ORG_ADMIN: 'org_admin',
@@ -136,6 +343,13 @@ export const ATTENDANCE_STATUS = {
   HOLIDAY: 'Holiday',
 };
 
+// Attendance Work Hours (used to derive overtime and half days from check-in/check-out)
+export const WORK_HOURS = {
+  STANDARD: parseFloat(process.env.STANDARD_WORK_HOURS || '8'),
+  HALF_DAY_THRESHOLD: parseFloat(process.env.HALF_DAY_THRESHOLD_HOURS || '4'),
+  MAX_SHIFT: 24, // Longest check-in to check-out span; work hours are stored as Decimal(4, 2)
+};
+
 // Leave Request Status
 export const LEAVE_STATUS = {
   PENDING: 'Pending',
@@ -144,6 +358,11 @@ export const LEAVE_STATUS = {
   CANCELLED: 'Cancelled',
 };
 
+export const LEAVE_BALANCE = {
+  // Marks errors raised when an approved leave would overdraw the balance, reported as 400
+  INSUFFICIENT_CODE: 'LEAVE_BALANCE_INSUFFICIENT',
+};
+
 // Organization Status
 export const ORG_STATUS = {
   ACTIVE: 'active',
@@ -157,3 +376,12 @@ export const SUBSCRIPTION_PLANS = {
   PREMIUM: 'premium',
   ENTERPRISE: 'enterprise',
 };
+
+// Audit Log Actions
+export const AUDIT_ACTIONS = {
+  CREATE: 'CREATE',
+  UPDATE: 'UPDATE',
+  DELETE: 'DELETE',
+  LOCK: 'LOCK',
+  UNLOCK: 'UNLOCK',
+};
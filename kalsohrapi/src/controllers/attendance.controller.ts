@@ -0,0 +1,925 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES, ATTENDANCE_STATUS, WORK_HOURS } from '../config/constants';
+import {
+  toDateOnly,
+  formatDateKey,
+  getTodayInTimezone,
+  getDateInTimezone,
+  computeWorkHours,
+  isWeekend,
+  eachDateInRange,
+} from '../utils/attendance';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+
+const VALID_ATTENDANCE_STATUSES = Object.values(ATTENDANCE_STATUS);
+
+const attendanceInclude = {
+  employee: {
+    select: {
+      id: true,
+      employeeCode: true,
+      firstName: true,
+      lastName: true,
+      profilePicture: true,
+      department: { select: { id: true, name: true } },
+      designation: { select: { id: true, name: true } },
+    },
+  },
+  branch: { select: { id: true, name: true, code: true } },
+};
+
+/**
+ * Get all attendance records for the organization
+ * GET /api/:orgSlug/attendance?date=2025-01-15&employeeId=1&branchId=1&departmentId=1&status=Present
+ */
+export const getAllAttendance = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const {
+      page = 1,
+      limit = 20,
+      date,
+      startDate,
+      endDate,
+      employeeId,
+      branchId,
+      departmentId,
+      status,
+    } = req.query;
+
+    const where: any = { organizationId };
+
+    // Single date takes precedence over a date range
+    if (date) {
+      const attendanceDate = toDateOnly(date);
+      if (!attendanceDate) {
+        return sendError(res, 'Invalid date format', STATUS_CODES.BAD_REQUEST);
+      }
+      where.attendanceDate = attendanceDate;
+    } else if (startDate || endDate) {
+      where.attendanceDate = {};
+      if (startDate) where.attendanceDate.gte = toDateOnly(startDate);
+      if (endDate) where.attendanceDate.lte = toDateOnly(endDate);
+    }
+
+    if (employeeId) where.employeeId = parseInt(employeeId as string);
+    if (branchId) where.branchId = parseInt(branchId as string);
+    if (departmentId) where.employee = { departmentId: parseInt(departmentId as string) };
+    if (status) where.status = status as string;
+
+    // Only the attendance of employees in the user's data scope
+    where.AND = [{ employee: await getAttendanceScope(req) }];
+
+    const pageNum = parseInt(page as string);
+    const limitNum = Math.min(parseInt(limit as string), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [total, attendance] = await Promise.all([
+      prisma.attendance.count({ where }),
+      prisma.attendance.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: [{ attendanceDate: 'desc' }, { employeeId: 'asc' }],
+        include: attendanceInclude,
+      }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        attendance,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Attendance retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get attendance error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get attendance record by ID
+ * GET /api/:orgSlug/attendance/:id
+ */
+export const getAttendanceById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const attendance = await prisma.attendance.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getAttendanceScope(req),
+      },
+      include: attendanceInclude,
+    });
+
+    if (!attendance) {
+      return sendError(res, 'Attendance record not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    return sendSuccess(res, { attendance }, 'Attendance retrieved successfully');
+  } catch (error) {
+    console.error('Get attendance by ID error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Mark attendance for a single employee (creates or replaces the record for that date)
+ * POST /api/:orgSlug/attendance
+ */
+export const markAttendance = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { employeeId, date, ...record } = req.body;
+
+    if (!employeeId) {
+      return sendError(res, 'Employee is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const attendanceDate = toDateOnly(date);
+    if (!attendanceDate) {
+      return sendError(res, 'A valid date is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const timezone = await getOrganizationTimezone(organizationId);
+    if (attendanceDate > getTodayInTimezone(timezone)) {
+      return sendError(res, 'Attendance cannot be marked for a future date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const employee = await prisma.employee.findFirst({
+      where: { id: parseInt(employeeId), organizationId, isActive: true, AND: [await getAttendanceScope(req)] },
+    });
+
+    if (!employee) {
+      return sendError(
+        res,
+        'Employee not found or is not active in this organization',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const validation = buildAttendanceData(record, employee, attendanceDate, timezone);
+    if ('error' in validation) {
+      return sendError(res, validation.error, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const attendance = await prisma.attendance.upsert({
+      where: {
+        organizationId_employeeId_attendanceDate: {
+          organizationId,
+          employeeId: employee.id,
+          attendanceDate,
+        },
+      },
+      create: {
+        ...validation.data,
+        organizationId,
+        employeeId: employee.id,
+        branchId: employee.branchId,
+        attendanceDate,
+        markedBy: userId,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      update: {
+        ...validation.data,
+        markedBy: userId,
+        markedAt: new Date(),
+        updatedBy: userId,
+      },
+      include: attendanceInclude,
+    });
+
+    return sendSuccess(res, { attendance }, 'Attendance marked successfully', STATUS_CODES.CREATED);
+  } catch (error) {
+    console.error('Mark attendance error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Mark attendance for many employees on one date
+ * POST /api/:orgSlug/attendance/bulk
+ * Body: { date, status, employeeIds: [] } or { date, records: [{ employeeId, status, checkInTime, ... }] }
+ */
+export const bulkMarkAttendance = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { date, status, employeeIds, records } = req.body;
+
+    const attendanceDate = toDateOnly(date);
+    if (!attendanceDate) {
+      return sendError(res, 'A valid date is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const timezone = await getOrganizationTimezone(organizationId);
+    if (attendanceDate > getTodayInTimezone(timezone)) {
+      return sendError(res, 'Attendance cannot be marked for a future date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Normalise both payload shapes into a list of per-employee records
+    let entries: any[] = [];
+    if (Array.isArray(records) && records.length > 0) {
+      entries = records;
+    } else if (Array.isArray(employeeIds) && employeeIds.length > 0) {
+      entries = employeeIds.map((employeeId: any) => ({ employeeId, status }));
+    } else {
+      return sendError(res, 'Employee IDs or attendance records are required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const ids = entries.map((entry) => parseInt(entry.employeeId));
+    if (ids.some((id) => isNaN(id))) {
+      return sendError(res, 'Every record must have a valid employee ID', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (new Set(ids).size !== ids.length) {
+      return sendError(res, 'Duplicate employees in attendance records', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const employees = await prisma.employee.findMany({
+      where: { id: { in: ids }, organizationId, isActive: true, AND: [await getAttendanceScope(req)] },
+    });
+
+    if (employees.length !== ids.length) {
+      return sendError(
+        res,
+        'One or more employees not found or are not active in this organization',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const employeeMap = new Map(employees.map((emp) => [emp.id, emp]));
+
+    // Validate every record before writing anything
+    const prepared: { employee: any; data: any }[] = [];
+    for (const entry of entries) {
+      const employee = employeeMap.get(parseInt(entry.employeeId))!;
+      const { employeeId, ...record } = entry;
+      const validation = buildAttendanceData(record, employee, attendanceDate, timezone);
+
+      if ('error' in validation) {
+        return sendError(
+          res,
+          `${employee.employeeCode}: ${validation.error}`,
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+
+      prepared.push({ employee, data: validation.data });
+    }
+
+    const attendance = await prisma.$transaction(
+      prepared.map(({ employee, data }) =>
+        prisma.attendance.upsert({
+          where: {
+            organizationId_employeeId_attendanceDate: {
+              organizationId,
+              employeeId: employee.id,
+              attendanceDate,
+            },
+          },
+          create: {
+            ...data,
+            organizationId,
+            employeeId: employee.id,
+            branchId: employee.branchId,
+            attendanceDate,
+            markedBy: userId,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+          update: {
+            ...data,
+            markedBy: userId,
+            markedAt: new Date(),
+            updatedBy: userId,
+          },
+        })
+      )
+    );
+
+    return sendSuccess(
+      res,
+      { count: attendance.length, attendance },
+      `Attendance marked for ${attendance.length} employee(s)`,
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    console.error('Bulk mark attendance error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Record check-in for today
+ * POST /api/:orgSlug/attendance/check-in
+ * Body: { employeeId?, checkInTime? } - defaults to the employee linked to the current user and now
+ */
+export const checkIn = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { employeeId, checkInTime, notes } = req.body;
+
+    const employee = await resolveEmployee(organizationId, userId, employeeId, await getAttendanceScope(req));
+    if (!employee) {
+      return sendError(res, 'Employee not found or is not active in this organization', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const checkInAt = checkInTime ? new Date(checkInTime) : new Date();
+    if (isNaN(checkInAt.getTime())) {
+      return sendError(res, 'Invalid check-in time', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const timezone = await getOrganizationTimezone(organizationId);
+    const attendanceDate = getTodayInTimezone(timezone);
+
+    const shiftError = validateShiftTimes(checkInAt, null, attendanceDate, timezone);
+    if (shiftError) {
+      return sendError(res, shiftError, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const existing = await prisma.attendance.findUnique({
+      where: {
+        organizationId_employeeId_attendanceDate: {
+          organizationId,
+          employeeId: employee.id,
+          attendanceDate,
+        },
+      },
+    });
+
+    if (existing?.checkInTime) {
+      return sendError(res, 'Employee has already checked in today', STATUS_CODES.CONFLICT);
+    }
+
+    if (existing && [ATTENDANCE_STATUS.LEAVE, ATTENDANCE_STATUS.HOLIDAY].includes(existing.status)) {
+      return sendError(
+        res,
+        `Cannot check in on a day marked as ${existing.status}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const attendance = await prisma.attendance.upsert({
+      where: {
+        organizationId_employeeId_attendanceDate: {
+          organizationId,
+          employeeId: employee.id,
+          attendanceDate,
+        },
+      },
+      create: {
+        organizationId,
+        employeeId: employee.id,
+        branchId: employee.branchId,
+        attendanceDate,
+        status: ATTENDANCE_STATUS.PRESENT,
+        checkInTime: checkInAt,
+        notes: notes || null,
+        markedBy: userId,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      update: {
+        status: ATTENDANCE_STATUS.PRESENT,
+        checkInTime: checkInAt,
+        ...(notes !== undefined && { notes }),
+        markedBy: userId,
+        markedAt: new Date(),
+        updatedBy: userId,
+      },
+      include: attendanceInclude,
+    });
+
+    return sendSuccess(res, { attendance }, 'Checked in successfully');
+  } catch (error) {
+    console.error('Check-in error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Record check-out and compute work/overtime hours
+ * The check-out closes the record of its own day, or of the previous day for overnight shifts
+ * POST /api/:orgSlug/attendance/check-out
+ * Body: { employeeId?, checkOutTime? }
+ */
+export const checkOut = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { employeeId, checkOutTime, notes } = req.body;
+
+    const employee = await resolveEmployee(organizationId, userId, employeeId, await getAttendanceScope(req));
+    if (!employee) {
+      return sendError(res, 'Employee not found or is not active in this organization', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const checkOutAt = checkOutTime ? new Date(checkOutTime) : new Date();
+    if (isNaN(checkOutAt.getTime())) {
+      return sendError(res, 'Invalid check-out time', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const timezone = await getOrganizationTimezone(organizationId);
+    const existing = await findCheckOutAttendance(organizationId, employee.id, checkOutAt, timezone);
+
+    if (!existing?.checkInTime) {
+      return sendError(res, 'Employee has not checked in for this check-out time', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (existing.checkOutTime) {
+      return sendError(res, 'Employee has already checked out for this day', STATUS_CODES.CONFLICT);
+    }
+
+    if (checkOutAt <= existing.checkInTime) {
+      return sendError(res, 'Check-out time must be after check-in time', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const shiftError = validateShiftTimes(existing.checkInTime, checkOutAt, existing.attendanceDate, timezone);
+    if (shiftError) {
+      return sendError(res, shiftError, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const { workHours, overtimeHours } = computeWorkHours(existing.checkInTime, checkOutAt);
+
+    const attendance = await prisma.attendance.update({
+      where: { id: existing.id },
+      data: {
+        checkOutTime: checkOutAt,
+        workHours,
+        overtimeHours,
+        // Short days are downgraded to half days automatically
+        status: workHours < WORK_HOURS.HALF_DAY_THRESHOLD ? ATTENDANCE_STATUS.HALF_DAY : existing.status,
+        ...(notes !== undefined && { notes }),
+        updatedBy: userId,
+      },
+      include: attendanceInclude,
+    });
+
+    return sendSuccess(res, { attendance }, 'Checked out successfully');
+  } catch (error) {
+    console.error('Check-out error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Update attendance record
+ * PUT /api/:orgSlug/attendance/:id
+ */
+export const updateAttendance = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id } = req.params;
+
+    const existing = await prisma.attendance.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getAttendanceScope(req),
+      },
+      include: { employee: true },
+    });
+
+    if (!existing) {
+      return sendError(res, 'Attendance record not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    // Merge with the stored record so partial updates still recompute hours correctly
+    const merged = {
+      status: req.body.status !== undefined ? req.body.status : existing.status,
+      checkInTime: req.body.checkInTime !== undefined ? req.body.checkInTime : existing.checkInTime,
+      checkOutTime: req.body.checkOutTime !== undefined ? req.body.checkOutTime : existing.checkOutTime,
+      notes: req.body.notes !== undefined ? req.body.notes : existing.notes,
+      absenceReason: req.body.absenceReason !== undefined ? req.body.absenceReason : existing.absenceReason,
+    };
+
+    const validation = buildAttendanceData(
+      merged,
+      existing.employee,
+      existing.attendanceDate,
+      await getOrganizationTimezone(organizationId)
+    );
+    if ('error' in validation) {
+      return sendError(res, validation.error, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const attendance = await prisma.attendance.update({
+      where: { id: existing.id },
+      data: {
+        ...validation.data,
+        markedBy: userId,
+        markedAt: new Date(),
+        updatedBy: userId,
+      },
+      include: attendanceInclude,
+    });
+
+    return sendSuccess(res, { attendance }, 'Attendance updated successfully');
+  } catch (error) {
+    console.error('Update attendance error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Delete attendance record
+ * DELETE /api/:orgSlug/attendance/:id
+ */
+export const deleteAttendance = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const existing = await prisma.attendance.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getAttendanceScope(req),
+      },
+    });
+
+    if (!existing) {
+      return sendError(res, 'Attendance record not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    await prisma.attendance.delete({
+      where: { id: existing.id },
+    });
+
+    return sendSuccess(res, null, 'Attendance deleted successfully');
+  } catch (error) {
+    console.error('Delete attendance error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get monthly attendance register
+ * GET /api/:orgSlug/attendance/register?year=2025&month=1&branchId=1&departmentId=1
+ * Returns one row per employee with a day-by-day status map and monthly totals
+ */
+export const getMonthlyRegister = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { year, month, branchId, departmentId } = req.query;
+
+    const today = await getOrganizationToday(organizationId);
+    const yearNum = year ? parseInt(year as string) : today.getUTCFullYear();
+    const monthNum = month ? parseInt(month as string) : today.getUTCMonth() + 1;
+
+    if (isNaN(yearNum) || isNaN(monthNum) || monthNum < 1 || monthNum > 12) {
+      return sendError(res, 'Invalid year or month', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const startDate = new Date(Date.UTC(yearNum, monthNum - 1, 1));
+    const endDate = new Date(Date.UTC(yearNum, monthNum, 0));
+
+    // Employees who were on the rolls at any point during the month
+    const employeeWhere: any = {
+      organizationId,
+      AND: [
+        { OR: [{ dateOfJoining: null }, { dateOfJoining: { lte: endDate } }] },
+        { OR: [{ dateOfLeaving: null }, { dateOfLeaving: { gte: startDate } }] },
+        await getAttendanceScope(req),
+      ],
+    };
+    if (branchId) employeeWhere.branchId = parseInt(branchId as string);
+    if (departmentId) employeeWhere.departmentId = parseInt(departmentId as string);
+
+    const [employees, holidays] = await Promise.all([
+      prisma.employee.findMany({
+        where: employeeWhere,
+        orderBy: { employeeCode: 'asc' },
+        select: {
+          id: true,
+          employeeCode: true,
+          firstName: true,
+          lastName: true,
+          dateOfJoining: true,
+          dateOfLeaving: true,
+          department: { select: { id: true, name: true } },
+          designation: { select: { id: true, name: true } },
+          branch: { select: { id: true, name: true } },
+        },
+      }),
+      prisma.holiday.findMany({
+        where: {
+          organizationId,
+          isActive: true,
+          date: { gte: startDate, lte: endDate },
+        },
+        orderBy: { date: 'asc' },
+        select: { id: true, date: true, name: true, type: true, isOptional: true },
+      }),
+    ]);
+
+    const attendance = await prisma.attendance.findMany({
+      where: {
+        organizationId,
+        employeeId: { in: employees.map((emp) => emp.id) },
+        attendanceDate: { gte: startDate, lte: endDate },
+      },
+      select: {
+        employeeId: true,
+        attendanceDate: true,
+        status: true,
+        checkInTime: true,
+        checkOutTime: true,
+        workHours: true,
+        overtimeHours: true,
+      },
+    });
+
+    // Group attendance by employee and date
+    const attendanceMap = new Map<number, Map<string, any>>();
+    attendance.forEach((record) => {
+      if (!attendanceMap.has(record.employeeId)) {
+        attendanceMap.set(record.employeeId, new Map());
+      }
+      attendanceMap.get(record.employeeId)!.set(formatDateKey(record.attendanceDate), record);
+    });
+
+    const holidayKeys = new Set(holidays.filter((h) => !h.isOptional).map((h) => formatDateKey(h.date)));
+    const days = eachDateInRange(startDate, endDate).map((date) => ({
+      date: formatDateKey(date),
+      isWeekend: isWeekend(date),
+      isHoliday: holidayKeys.has(formatDateKey(date)),
+    }));
+
+    const register = employees.map((employee) => {
+      const records = attendanceMap.get(employee.id) || new Map();
+      const summary = {
+        present: 0,
+        absent: 0,
+        halfDay: 0,
+        leave: 0,
+        holiday: 0,
+        unmarked: 0,
+        workHours: 0,
+        overtimeHours: 0,
+      };
+
+      const dayStatuses: Record<string, any> = {};
+      days.forEach((day) => {
+        const record = records.get(day.date);
+
+        if (record) {
+          dayStatuses[day.date] = {
+            status: record.status,
+            checkInTime: record.checkInTime,
+            checkOutTime: record.checkOutTime,
+            workHours: record.workHours,
+          };
+
+          if (record.status === ATTENDANCE_STATUS.PRESENT) summary.present++;
+          else if (record.status === ATTENDANCE_STATUS.ABSENT) summary.absent++;
+          else if (record.status === ATTENDANCE_STATUS.HALF_DAY) summary.halfDay++;
+          else if (record.status === ATTENDANCE_STATUS.LEAVE) summary.leave++;
+          else if (record.status === ATTENDANCE_STATUS.HOLIDAY) summary.holiday++;
+
+          summary.workHours += record.workHours ? Number(record.workHours) : 0;
+          summary.overtimeHours += record.overtimeHours ? Number(record.overtimeHours) : 0;
+          return;
+        }
+
+        dayStatuses[day.date] = null;
+
+        // Working days in the past with no record are counted as unmarked
+        const dayDate = toDateOnly(day.date) as Date;
+        const isEmployed =
+          (!employee.dateOfJoining || dayDate >= toDateOnly(employee.dateOfJoining)!) &&
+          (!employee.dateOfLeaving || dayDate <= toDateOnly(employee.dateOfLeaving)!);
+        if (isEmployed && dayDate <= today && !day.isWeekend && !day.isHoliday) {
+          summary.unmarked++;
+        }
+      });
+
+      summary.workHours = Math.round(summary.workHours * 100) / 100;
+      summary.overtimeHours = Math.round(summary.overtimeHours * 100) / 100;
+
+      return {
+        employee,
+        days: dayStatuses,
+        summary,
+      };
+    });
+
+    return sendSuccess(
+      res,
+      {
+        period: {
+          year: yearNum,
+          month: monthNum,
+          startDate: formatDateKey(startDate),
+          endDate: formatDateKey(endDate),
+          workingDays: days.filter((day) => !day.isWeekend && !day.isHoliday).length,
+        },
+        days,
+        holidays,
+        register,
+      },
+      'Attendance register retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get attendance register error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to get today's date in the organization's timezone
+ */
+async function getOrganizationToday(organizationId: number): Promise<Date> {
+  return getTodayInTimezone(await getOrganizationTimezone(organizationId));
+}
+
+/**
+ * Helper function to find the attendance record a check-out belongs to
+ * That is the record of the day the check-out falls on, or the previous day's record while it is still open
+ * (checked in, not checked out) and the check-out is within WORK_HOURS.MAX_SHIFT hours of its check-in
+ */
+async function findCheckOutAttendance(
+  organizationId: number,
+  employeeId: number,
+  checkOutAt: Date,
+  timezone: string | null
+) {
+  const findByDate = (attendanceDate: Date) =>
+    prisma.attendance.findUnique({
+      where: {
+        organizationId_employeeId_attendanceDate: { organizationId, employeeId, attendanceDate },
+      },
+    });
+
+  const attendanceDate = getDateInTimezone(checkOutAt, timezone);
+  const sameDay = await findByDate(attendanceDate);
+  if (sameDay?.checkInTime && sameDay.checkInTime < checkOutAt) {
+    return sameDay;
+  }
+
+  const previousDate = new Date(attendanceDate);
+  previousDate.setUTCDate(previousDate.getUTCDate() - 1);
+  const previousDay = await findByDate(previousDate);
+  const maxShiftMs = WORK_HOURS.MAX_SHIFT * 60 * 60 * 1000;
+  if (
+    previousDay?.checkInTime &&
+    !previousDay.checkOutTime &&
+    checkOutAt.getTime() - previousDay.checkInTime.getTime() <= maxShiftMs
+  ) {
+    return previousDay;
+  }
+
+  return sameDay;
+}
+
+/**
+ * Helper function to get the organization's timezone
+ */
+async function getOrganizationTimezone(organizationId: number): Promise<string | null> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+
+  return organization?.timezone ?? null;
+}
+
+/**
+ * Helper function to get the employees in the user's data scope on attendance
+ */
+function getAttendanceScope(req: Request): Promise<Prisma.EmployeeWhereInput> {
+  return getEmployeeScopeWhere(prisma, (req as any).user, (req as any).organizationId, 'attendance');
+}
+
+/**
+ * Helper function to find the employee for check-in/check-out
+ * Falls back to the employee linked to the logged-in user when no ID is given
+ */
+async function resolveEmployee(
+  organizationId: number,
+  userId: number,
+  employeeId: any,
+  scopeWhere: Prisma.EmployeeWhereInput
+) {
+  return prisma.employee.findFirst({
+    where: {
+      organizationId,
+      isActive: true,
+      ...(employeeId ? { id: parseInt(employeeId) } : { userId }),
+      AND: [scopeWhere],
+    },
+  });
+}
+
+/**
+ * Helper function to validate an attendance payload and derive work/overtime hours
+ */
+function buildAttendanceData(
+  record: any,
+  employee: any,
+  attendanceDate: Date,
+  timezone: string | null
+): { data: any } | { error: string } {
+  const { status, checkInTime, checkOutTime, notes, absenceReason } = record;
+
+  if (!status) {
+    return { error: 'Status is required' };
+  }
+
+  if (!VALID_ATTENDANCE_STATUSES.includes(status)) {
+    return { error: `Invalid status. Must be one of: ${VALID_ATTENDANCE_STATUSES.join(', ')}` };
+  }
+
+  if (employee.dateOfJoining && attendanceDate < toDateOnly(employee.dateOfJoining)!) {
+    return { error: 'Attendance cannot be marked before the date of joining' };
+  }
+
+  if (employee.dateOfLeaving && attendanceDate > toDateOnly(employee.dateOfLeaving)!) {
+    return { error: 'Attendance cannot be marked after the date of leaving' };
+  }
+
+  const checkInAt = checkInTime ? new Date(checkInTime) : null;
+  const checkOutAt = checkOutTime ? new Date(checkOutTime) : null;
+
+  if (checkInAt && isNaN(checkInAt.getTime())) {
+    return { error: 'Invalid check-in time' };
+  }
+
+  if (checkOutAt && isNaN(checkOutAt.getTime())) {
+    return { error: 'Invalid check-out time' };
+  }
+
+  if (checkOutAt && !checkInAt) {
+    return { error: 'Check-out time requires a check-in time' };
+  }
+
+  if (checkInAt && checkOutAt && checkOutAt <= checkInAt) {
+    return { error: 'Check-out time must be after check-in time' };
+  }
+
+  const shiftError = validateShiftTimes(checkInAt, checkOutAt, attendanceDate, timezone);
+  if (shiftError) {
+    return { error: shiftError };
+  }
+
+  // Times only make sense for days the employee actually worked
+  const isWorkingStatus = [ATTENDANCE_STATUS.PRESENT, ATTENDANCE_STATUS.HALF_DAY].includes(status);
+  if (!isWorkingStatus && (checkInAt || checkOutAt)) {
+    return { error: `Check-in/check-out times cannot be recorded for status ${status}` };
+  }
+
+  const hours = checkInAt && checkOutAt ? computeWorkHours(checkInAt, checkOutAt) : null;
+
+  return {
+    data: {
+      status,
+      checkInTime: checkInAt,
+      checkOutTime: checkOutAt,
+      workHours: hours ? hours.workHours : null,
+      overtimeHours: hours ? hours.overtimeHours : null,
+      notes: notes || null,
+      absenceReason: status === ATTENDANCE_STATUS.ABSENT ? absenceReason || null : null,
+    },
+  };
+}
+
+/**
+ * Helper function to check check-in/check-out times against the attendance date
+ * Check-in must fall on the attendance date (organization timezone); check-out may run into the next day for
+ * overnight shifts, but no more than WORK_HOURS.MAX_SHIFT hours after check-in
+ */
+function validateShiftTimes(
+  checkInAt: Date | null,
+  checkOutAt: Date | null,
+  attendanceDate: Date,
+  timezone: string | null
+): string | null {
+  if (checkInAt && getDateInTimezone(checkInAt, timezone).getTime() !== attendanceDate.getTime()) {
+    return `Check-in time must fall on the attendance date (${formatDateKey(attendanceDate)})`;
+  }
+
+  const maxShiftMs = WORK_HOURS.MAX_SHIFT * 60 * 60 * 1000;
+  if (checkInAt && checkOutAt && checkOutAt.getTime() - checkInAt.getTime() > maxShiftMs) {
+    return `Check-out time cannot be more than ${WORK_HOURS.MAX_SHIFT} hours after check-in time`;
+  }
+
+  return null;
+}
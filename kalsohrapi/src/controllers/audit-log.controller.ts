@@ -0,0 +1,324 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES, PAGINATION } from '../config/constants';
+import {
+  FieldGroup,
+  getHiddenFieldGroups,
+  maskEmployeeFields,
+  maskCompensationValues,
+} from '../utils/field-permissions';
+
+const auditLogInclude = {
+  user: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      isSuperAdmin: true,
+    },
+  },
+};
+
+/**
+ * Get audit logs for the organization
+ * GET /api/:orgSlug/audit-logs?userId=&entityType=&entityId=&action=&startDate=&endDate=&page=&limit=
+ */
+export const getAllAuditLogs = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const where = buildAuditLogWhere(req.query);
+    where.organizationId = organizationId;
+
+    const result = await findAuditLogs(where, req.query);
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+
+    return sendSuccess(
+      res,
+      { ...result, auditLogs: result.auditLogs.map((auditLog) => maskAuditLogFields(auditLog, hiddenFieldGroups)) },
+      'Audit logs retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get audit logs error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get distinct entity types logged for the organization (for filters)
+ * GET /api/:orgSlug/audit-logs/entity-types
+ */
+export const getAuditEntityTypes = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const entityTypes = await findEntityTypes({ organizationId });
+
+    return sendSuccess(res, { entityTypes }, 'Audit entity types retrieved successfully');
+  } catch (error) {
+    console.error('Get audit entity types error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get audit log by ID
+ * GET /api/:orgSlug/audit-logs/:id
+ */
+export const getAuditLogById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    if (!/^\d+$/.test(id)) {
+      return sendError(res, 'Invalid audit log ID', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const auditLog = await prisma.auditLog.findFirst({
+      where: { id: BigInt(id), organizationId },
+      include: auditLogInclude,
+    });
+
+    if (!auditLog) {
+      return sendError(res, 'Audit log not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+
+    return sendSuccess(
+      res,
+      { auditLog: maskAuditLogFields(formatAuditLog(auditLog), hiddenFieldGroups) },
+      'Audit log retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get audit log error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get change history of an employee
+ * GET /api/:orgSlug/employees/:id/history
+ */
+export const getEmployeeHistory = async (req: Request, res: Response): Promise<Response> => {
+  return getEntityHistory(req, res, 'Employee');
+};
+
+/**
+ * Get change history of a candidate
+ * GET /api/:orgSlug/recruitment/candidates/:id/history
+ */
+export const getCandidateHistory = async (req: Request, res: Response): Promise<Response> => {
+  return getEntityHistory(req, res, 'Candidate');
+};
+
+/**
+ * Get audit logs across the platform (Super Admin only)
+ * GET /api/superadmin/audit-logs?organizationId=&userId=&entityType=&entityId=&action=&startDate=&endDate=&page=&limit=
+ * organizationId=platform returns only platform-level entries (no organization)
+ */
+export const getPlatformAuditLogs = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { organizationId } = req.query;
+
+    const where = buildAuditLogWhere(req.query);
+    if (organizationId === 'platform') {
+      where.organizationId = null;
+    } else if (organizationId) {
+      where.organizationId = parseInt(organizationId as string);
+    }
+
+    const result = await findAuditLogs(where, req.query, true);
+
+    return sendSuccess(res, result, 'Audit logs retrieved successfully');
+  } catch (error) {
+    console.error('Get platform audit logs error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get distinct entity types logged across the platform (Super Admin only)
+ * GET /api/superadmin/audit-logs/entity-types
+ */
+export const getPlatformAuditEntityTypes = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const entityTypes = await findEntityTypes({});
+
+    return sendSuccess(res, { entityTypes }, 'Audit entity types retrieved successfully');
+  } catch (error) {
+    console.error('Get platform audit entity types error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get any audit log by ID (Super Admin only)
+ * GET /api/superadmin/audit-logs/:id
+ */
+export const getPlatformAuditLogById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    if (!/^\d+$/.test(id)) {
+      return sendError(res, 'Invalid audit log ID', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const auditLog = await prisma.auditLog.findUnique({
+      where: { id: BigInt(id) },
+      include: {
+        ...auditLogInclude,
+        organization: { select: { id: true, name: true, slug: true } },
+      },
+    });
+
+    if (!auditLog) {
+      return sendError(res, 'Audit log not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    return sendSuccess(res, { auditLog: formatAuditLog(auditLog) }, 'Audit log retrieved successfully');
+  } catch (error) {
+    console.error('Get platform audit log error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to return the full history of one record in the organization
+ */
+async function getEntityHistory(req: Request, res: Response, entityType: string): Promise<Response> {
+  try {
+    const organizationId = (req as any).organizationId;
+    const entityId = parseInt(req.params.id);
+
+    if (isNaN(entityId)) {
+      return sendError(res, `Invalid ${entityType.toLowerCase()} ID`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const auditLogs = await prisma.auditLog.findMany({
+      where: { organizationId, entityType, entityId },
+      orderBy: { createdAt: 'desc' },
+      include: auditLogInclude,
+    });
+
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+
+    return sendSuccess(
+      res,
+      { history: auditLogs.map((auditLog) => maskAuditLogFields(formatAuditLog(auditLog), hiddenFieldGroups)) },
+      `${entityType} history retrieved successfully`
+    );
+  } catch (error) {
+    console.error(`Get ${entityType.toLowerCase()} history error:`, error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+}
+
+/**
+ * Helper function to build the shared audit log filters from the query string
+ */
+function buildAuditLogWhere(query: any): any {
+  const { userId, entityType, entityId, action, isImpersonation, startDate, endDate } = query;
+  const where: any = {};
+
+  if (userId) where.userId = parseInt(userId as string);
+  if (entityType) where.entityType = entityType as string;
+  if (entityId) where.entityId = parseInt(entityId as string);
+  if (action) where.action = (action as string).toUpperCase();
+  if (isImpersonation !== undefined) where.isImpersonation = isImpersonation === 'true';
+
+  if (startDate || endDate) {
+    where.createdAt = {};
+    if (startDate) where.createdAt.gte = new Date(startDate as string);
+    if (endDate) {
+      // Inclusive end date: include the whole day
+      const end = new Date(endDate as string);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(endDate as string)) end.setUTCHours(23, 59, 59, 999);
+      where.createdAt.lte = end;
+    }
+  }
+
+  return where;
+}
+
+/**
+ * Helper function to run a paginated audit log query
+ */
+async function findAuditLogs(where: any, query: any, includeOrganization: boolean = false) {
+  const pageNum = Math.max(parseInt(query.page as string) || PAGINATION.DEFAULT_PAGE, 1);
+  const limitNum = Math.min(parseInt(query.limit as string) || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+
+  const [auditLogs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      skip: (pageNum - 1) * limitNum,
+      take: limitNum,
+      include: {
+        ...auditLogInclude,
+        ...(includeOrganization && {
+          organization: { select: { id: true, name: true, slug: true } },
+        }),
+      },
+    }),
+    prisma.auditLog.count({ where }),
+  ]);
+
+  return {
+    auditLogs: auditLogs.map(formatAuditLog),
+    pagination: {
+      page: pageNum,
+      limit: limitNum,
+      total,
+      totalPages: Math.ceil(total / limitNum),
+    },
+  };
+}
+
+/**
+ * Helper function to list the entity types present in the audit log
+ */
+async function findEntityTypes(where: any): Promise<string[]> {
+  const groups = await prisma.auditLog.groupBy({
+    by: ['entityType'],
+    where,
+    orderBy: { entityType: 'asc' },
+  });
+
+  return groups.map((group) => group.entityType);
+}
+
+/**
+ * Helper function to make an audit log JSON-serializable (BigInt ID)
+ */
+function formatAuditLog<T extends { id: bigint }>(auditLog: T): Omit<T, 'id'> & { id: string } {
+  return {
+    ...auditLog,
+    id: auditLog.id.toString(),
+  };
+}
+
+/**
+ * Helper function to mask the employee fields the user's role may not see in an audit log's values
+ * Compensation (salary, previous salary) is masked on every entity, e.g. lifecycle events and offboardings;
+ * the other field groups only exist on employees
+ */
+function maskAuditLogFields<T extends { entityType: string; oldValues: unknown; newValues: unknown }>(
+  auditLog: T,
+  hidden: FieldGroup[]
+): T {
+  const oldValues = maskCompensationValues(auditLog.oldValues, hidden);
+  const newValues = maskCompensationValues(auditLog.newValues, hidden);
+
+  if (auditLog.entityType !== 'Employee') {
+    return { ...auditLog, oldValues, newValues };
+  }
+
+  return {
+    ...auditLog,
+    oldValues: maskEmployeeFields(oldValues, hidden),
+    newValues: maskEmployeeFields(newValues, hidden),
+  };
+}
@@ -1,9 +1,45 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { generateAccessToken, generateRefreshToken } from '../utils/jwt';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  reissueSessionTokens,
+} from '../utils/session';
+import { logAudit } from '../utils/audit';
+import {
+  sendPasswordResetEmail,
+  sendVerificationEmail,
+  resolveAccountToken,
+  consumeAccountToken,
+  releaseAccountToken,
+  isStrongPassword,
+  isIssuedBeforePasswordChange,
+} from '../utils/account-email';
+import { generateAccountToken, verifyAccountToken } from '../utils/jwt';
+import {
+  createTwoFactorSetup,
+  encryptSecret,
+  decryptSecret,
+  verifyTotpCode,
+  verifySecondFactor,
+  regenerateRecoveryCodes,
+  getTwoFactorStatus,
+  removeTwoFactor,
+} from '../utils/two-factor';
+import {
+  STATUS_CODES,
+  MESSAGES,
+  SESSION_REVOKE_REASONS,
+  AUDIT_ACTIONS,
+  LOGIN_SECURITY,
+  PASSWORD_POLICY,
+  TOKEN_EXPIRY,
+} from '../config/constants';
 
 /**
  * Login
@@ -27,62 +63,7 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
     }
 
     // Find user
-    const user = await prisma.user.findUnique({
-      where: { email: email.toLowerCase() },
-      include: {
-        role: {
-          select: {
-            id: true,
-            name: true,
-            code: true,
-          },
-        },
-        organization: {
-          select: {
-            id: true,
-            name: true,
-            slug: true,
-            isActive: true,
-            status: true,
-            organizationModules: {
-              where: {
-                isEnabled: true,
-              },
-              select: {
-                id: true,
-                orgModuleId: true,
-                isEnabled: true,
-                orgModule: {
-                  select: {
-                    id: true,
-                    code: true,
-                    name: true,
-                    isCore: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
-    });
-
-    // Fetch user permissions if they have a role
-    let permissions: any[] = [];
-    if (user && user.roleId) {
-      permissions = await prisma.rolePermission.findMany({
-        where: { roleId: user.roleId },
-        select: {
-          moduleCode: true,
-          canRead: true,
-          canWrite: true,
-          canUpdate: true,
-          canDelete: true,
-          canApprove: true,
-          canExport: true,
-        },
-      });
-    }
+    const user = await findLoginUser({ email: email.toLowerCase() });
 
     if (!user) {
       return sendError(
@@ -159,17 +140,7 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
     const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
 
     if (!isPasswordValid) {
-      // Increment failed login attempts
-      await prisma.user.update({
-        where: { id: user.id },
-        data: {
-          failedLoginAttempts: user.failedLoginAttempts + 1,
-          // Lock account after 5 failed attempts
-          ...(user.failedLoginAttempts + 1 >= 5 && {
-            lockedUntil: new Date(Date.now() + 30 * 60 * 1000), // 30 minutes
-          }),
-        },
-      });
+      await recordFailedLogin(req, user);
 
       return sendError(
         res,
@@ -178,61 +149,74 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
       );
     }
 
-    // Generate tokens
-    const tokenPayload = {
-      userId: user.id,
-      email: user.email,
-      organizationId: user.organizationId,
-      roleId: user.roleId,
-      isSuperAdmin: user.isSuperAdmin,
-    };
-
-    const accessToken = generateAccessToken(tokenPayload);
-    const refreshToken = generateRefreshToken(tokenPayload);
-
-    // Update user login info
-    await prisma.user.update({
-      where: { id: user.id },
-      data: {
-        lastLoginAt: new Date(),
-        failedLoginAttempts: 0,
-        lockedUntil: null,
-      },
-    });
+    // Two-step login: the password is correct, now ask for the second factor
+    if (user.twoFactorEnabled) {
+      const challengeToken = generateAccountToken(
+        { userId: user.id, email: user.email },
+        'two_factor',
+        TOKEN_EXPIRY.TWO_FACTOR_CHALLENGE
+      );
 
-    // Prepare response data
-    const responseData = {
-      user: {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        avatar: user.avatar,
-        isSuperAdmin: user.isSuperAdmin,
-        role: user.role,
-        organization: user.organization
-          ? {
-              id: user.organization.id,
-              name: user.organization.name,
-              slug: user.organization.slug,
-            }
-          : null,
-        permissions: permissions,
-      },
-      tokens: {
-        accessToken,
-        refreshToken,
-      },
-    };
+      return sendSuccess(
+        res,
+        { twoFactorRequired: true, challengeToken },
+        MESSAGES.AUTH.TWO_FACTOR_REQUIRED
+      );
+    }
 
-    return sendSuccess(
+    return completeLogin(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    return sendError(
       res,
-      responseData,
-      MESSAGES.AUTH.LOGIN_SUCCESS,
-      STATUS_CODES.OK
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
     );
+  }
+};
+
+/**
+ * Login - second step for users with two-factor authentication
+ * Accepts a code from the authenticator app or an unused recovery code
+ * POST /api/auth/login/2fa
+ */
+export const verifyLoginTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (!challengeToken || !code) {
+      return sendError(res, 'Challenge token and code are required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const decoded = verifyAccountToken(challengeToken, 'two_factor');
+    const user = decoded ? await findLoginUser({ id: decoded.userId }) : null;
+
+    if (
+      !decoded ||
+      !user ||
+      !user.isActive ||
+      !user.twoFactorEnabled ||
+      user.email !== decoded.email ||
+      isIssuedBeforePasswordChange(decoded.iat, user.passwordChangedAt)
+    ) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_CHALLENGE_INVALID, STATUS_CODES.UNAUTHORIZED);
+    }
+
+    if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+      return sendError(res, MESSAGES.AUTH.ACCOUNT_LOCKED, STATUS_CODES.FORBIDDEN);
+    }
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const method = await verifySecondFactor(user, String(code));
+    if (!method) {
+      await recordFailedLogin(req, user);
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE, STATUS_CODES.UNAUTHORIZED);
+    }
+
+    return completeLogin(req, res, user);
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Two-factor login error:', error);
     return sendError(
       res,
       MESSAGES.GENERAL.ERROR,
@@ -272,6 +256,8 @@ export const getCurrentUser = async (
         isSuperAdmin: true,
         isActive: true,
         emailVerified: true,
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: true,
         lastLoginAt: true,
         createdAt: true,
         role: {
@@ -280,6 +266,7 @@ export const getCurrentUser = async (
             name: true,
             code: true,
             description: true,
+            requireTwoFactor: true,
           },
         },
         organization: {
@@ -340,6 +327,11 @@ export const getCurrentUser = async (
             canDelete: true,
             canApprove: true,
             canExport: true,
+            canViewCompensation: true,
+            canViewGovernmentIds: true,
+            canViewBankDetails: true,
+            canViewFamilyDetails: true,
+            dataScope: true,
           },
         });
       } else {
@@ -354,12 +346,25 @@ export const getCurrentUser = async (
             canDelete: true,
             canApprove: true,
             canExport: true,
+            canViewCompensation: true,
+            canViewGovernmentIds: true,
+            canViewBankDetails: true,
+            canViewFamilyDetails: true,
+            dataScope: true,
           },
         });
       }
     }
 
-    return sendSuccess(res, { user: { ...user, permissions } }, 'User data retrieved successfully');
+    // Two-factor enrolment status, so the admin app can nudge or require setup
+    const { twoFactorEnabled, twoFactorEnabledAt, ...userData } = user;
+    const twoFactor = await getTwoFactorStatus(user);
+
+    return sendSuccess(
+      res,
+      { user: { ...userData, twoFactor, permissions } },
+      'User data retrieved successfully'
+    );
   } catch (error) {
     console.error('Get current user error:', error);
     return sendError(
@@ -373,17 +378,30 @@ export const getCurrentUser = async (
 
 /**
  * Logout
+ * Revokes the current session so its access and refresh tokens stop working
  * POST /api/auth/logout
  */
 export const logout = async (req: Request, res: Response): Promise<Response> => {
-  // In a stateless JWT system, logout is handled client-side by removing the token
-  // Optionally, you can implement a token blacklist here
+  try {
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId, SESSION_REVOKE_REASONS.LOGOUT);
+    }
 
-  return sendSuccess(res, null, MESSAGES.AUTH.LOGOUT_SUCCESS);
+    return sendSuccess(res, null, MESSAGES.AUTH.LOGOUT_SUCCESS);
+  } catch (error) {
+    console.error('Logout error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
 };
 
 /**
  * Refresh token
+ * Rotates the refresh token: the presented token is consumed and a new pair is returned
  * POST /api/auth/refresh
  */
 export const refreshToken = async (
@@ -401,10 +419,9 @@ export const refreshToken = async (
       );
     }
 
-    // Verify refresh token
-    const decoded = await import('../utils/jwt').then((m) => m.verifyToken(token));
+    const tokens = await rotateRefreshToken(token);
 
-    if (!decoded) {
+    if (!tokens) {
       return sendError(
         res,
         MESSAGES.AUTH.TOKEN_INVALID,
@@ -412,18 +429,9 @@ export const refreshToken = async (
       );
     }
 
-    // Generate new access token
-    const newAccessToken = generateAccessToken({
-      userId: decoded.userId,
-      email: decoded.email,
-      organizationId: decoded.organizationId,
-      roleId: decoded.roleId,
-      isSuperAdmin: decoded.isSuperAdmin,
-    });
-
     return sendSuccess(
       res,
-      { accessToken: newAccessToken },
+      tokens,
       'Token refreshed successfully'
     );
   } catch (error) {
@@ -436,3 +444,850 @@ export const refreshToken = async (
     );
   }
 };
+
+/**
+ * Get active sessions of the current user
+ * GET /api/auth/sessions
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const sessions = await prisma.userSession.findMany({
+      where: {
+        userId: req.user!.userId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: {
+        id: true,
+        ipAddress: true,
+        userAgent: true,
+        createdAt: true,
+        lastActiveAt: true,
+        expiresAt: true,
+      },
+      orderBy: { lastActiveAt: 'desc' },
+    });
+
+    return sendSuccess(
+      res,
+      {
+        sessions: sessions.map((session) => ({
+          ...session,
+          isCurrent: session.id === req.user!.sessionId,
+        })),
+      },
+      'Sessions retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Revoke one of the current user's sessions
+ * DELETE /api/auth/sessions/:id
+ */
+export const deleteSession = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { id } = req.params;
+
+    const session = await prisma.userSession.findFirst({
+      where: {
+        id,
+        userId: req.user!.userId,
+        revokedAt: null,
+      },
+    });
+
+    if (!session) {
+      return sendError(
+        res,
+        MESSAGES.AUTH.SESSION_NOT_FOUND,
+        STATUS_CODES.NOT_FOUND
+      );
+    }
+
+    await revokeSession(session.id, SESSION_REVOKE_REASONS.REVOKED);
+
+    return sendSuccess(res, null, 'Session revoked successfully');
+  } catch (error) {
+    console.error('Delete session error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Revoke all sessions of the current user except the current one
+ * DELETE /api/auth/sessions
+ */
+export const deleteOtherSessions = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const revokedCount = await revokeUserSessions(
+      req.user!.userId,
+      SESSION_REVOKE_REASONS.REVOKED,
+      req.user!.sessionId
+    );
+
+    return sendSuccess(
+      res,
+      { revokedCount },
+      `${revokedCount} session(s) revoked successfully`
+    );
+  } catch (error) {
+    console.error('Delete other sessions error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Forgot password - email a reset link
+ * Always responds the same way so the endpoint cannot be used to discover accounts
+ * POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return sendError(res, 'Email is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() },
+      select: { id: true, email: true, firstName: true, isActive: true },
+    });
+
+    if (user && user.isActive) {
+      try {
+        await sendPasswordResetEmail(user);
+      } catch (mailError) {
+        console.error('Password reset email error:', mailError);
+      }
+    }
+
+    return sendSuccess(res, null, MESSAGES.AUTH.PASSWORD_RESET_SENT);
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Reset password with an emailed token
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token) {
+      return sendError(res, 'Token is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!isStrongPassword(password)) {
+      return sendError(res, PASSWORD_POLICY.MESSAGE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await resolveAccountToken(token, 'password_reset');
+
+    if (!user || !(await consumeAccountToken(token, 'password_reset', user.id))) {
+      return sendError(res, MESSAGES.AUTH.ACCOUNT_TOKEN_INVALID, STATUS_CODES.BAD_REQUEST);
+    }
+
+    try {
+      await setUserPassword(req, user, password);
+    } catch (error) {
+      await releaseAccountToken(token, 'password_reset');
+      throw error;
+    }
+
+    return sendSuccess(res, null, MESSAGES.AUTH.PASSWORD_RESET_SUCCESS);
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Change password of the current user
+ * Other sessions are signed out; the current session receives new tokens
+ * POST /api/auth/change-password
+ */
+export const changePassword = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return sendError(
+        res,
+        'Current password and new password are required',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (!isStrongPassword(newPassword)) {
+      return sendError(res, PASSWORD_POLICY.MESSAGE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    // 400 rather than 401 so the client does not treat it as an expired session
+    const isPasswordValid = await bcrypt.compare(currentPassword, user.passwordHash);
+    if (!isPasswordValid) {
+      return sendError(res, MESSAGES.AUTH.PASSWORD_INCORRECT, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (await bcrypt.compare(newPassword, user.passwordHash)) {
+      return sendError(
+        res,
+        'New password must be different from the current password',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    await setUserPassword(req, user, newPassword, req.user!.sessionId);
+
+    const tokens = await reissueSessionTokens(req.user!.sessionId, {
+      userId: user.id,
+      email: user.email,
+      organizationId: user.organizationId,
+      roleId: user.roleId,
+      isSuperAdmin: user.isSuperAdmin,
+    });
+
+    return sendSuccess(res, { tokens }, MESSAGES.AUTH.PASSWORD_CHANGED);
+  } catch (error) {
+    console.error('Change password error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Verify email address with an emailed token
+ * POST /api/auth/verify-email
+ */
+export const verifyEmail = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return sendError(res, 'Token is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await resolveAccountToken(token, 'email_verification');
+
+    if (!user) {
+      return sendError(res, MESSAGES.AUTH.ACCOUNT_TOKEN_INVALID, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (user.emailVerified) {
+      return sendSuccess(res, null, MESSAGES.AUTH.EMAIL_ALREADY_VERIFIED);
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerified: true },
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: { emailVerified: false },
+      newValues: { emailVerified: true },
+      organizationId: user.organizationId,
+    });
+
+    return sendSuccess(res, null, MESSAGES.AUTH.EMAIL_VERIFIED);
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Resend the verification email to the current user
+ * POST /api/auth/resend-verification
+ */
+export const resendVerification = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, email: true, firstName: true, emailVerified: true },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    if (user.emailVerified) {
+      return sendError(res, MESSAGES.AUTH.EMAIL_ALREADY_VERIFIED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    await sendVerificationEmail(user);
+
+    return sendSuccess(res, null, MESSAGES.AUTH.VERIFICATION_SENT);
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Get invitation details for the set-password page
+ * GET /api/auth/invite?token=...
+ */
+export const getInvite = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token } = req.query;
+
+    const user = token ? await resolveAccountToken(String(token), 'invite') : null;
+
+    if (!user) {
+      return sendError(res, MESSAGES.AUTH.ACCOUNT_TOKEN_INVALID, STATUS_CODES.BAD_REQUEST);
+    }
+
+    return sendSuccess(
+      res,
+      {
+        invite: {
+          email: user.email,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          organization: user.organization,
+        },
+      },
+      'Invitation retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get invite error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Accept an invitation by setting a password
+ * POST /api/auth/accept-invite
+ */
+export const acceptInvite = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token) {
+      return sendError(res, 'Token is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!isStrongPassword(password)) {
+      return sendError(res, PASSWORD_POLICY.MESSAGE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await resolveAccountToken(token, 'invite');
+
+    if (!user || !(await consumeAccountToken(token, 'invite', user.id))) {
+      return sendError(res, MESSAGES.AUTH.ACCOUNT_TOKEN_INVALID, STATUS_CODES.BAD_REQUEST);
+    }
+
+    try {
+      await setUserPassword(req, user, password);
+    } catch (error) {
+      await releaseAccountToken(token, 'invite');
+      throw error;
+    }
+
+    return sendSuccess(
+      res,
+      { organization: user.organization },
+      MESSAGES.AUTH.INVITE_ACCEPTED
+    );
+  } catch (error) {
+    console.error('Accept invite error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Start two-factor enrolment
+ * Generates a new secret; it only takes effect once confirmed with a code
+ * POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, email: true, twoFactorEnabled: true },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    if (user.twoFactorEnabled) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_ALREADY_ENABLED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const setup = await createTwoFactorSetup(user.email);
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorSecret: encryptSecret(setup.secret),
+        twoFactorLastUsedStep: null,
+      },
+    });
+
+    return sendSuccess(res, setup, 'Scan the QR code with your authenticator app');
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Confirm two-factor enrolment with a code from the authenticator app
+ * Returns the recovery codes; they are only shown once
+ * POST /api/auth/2fa/enable
+ */
+export const enableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, organizationId: true, twoFactorEnabled: true, twoFactorSecret: true },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    if (user.twoFactorEnabled) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_ALREADY_ENABLED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!user.twoFactorSecret) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_SETUP_NOT_STARTED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const step = code ? verifyTotpCode(decryptSecret(user.twoFactorSecret), String(code), null) : null;
+    if (step === null) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const twoFactorEnabledAt = new Date();
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt,
+        twoFactorLastUsedStep: step,
+      },
+    });
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: { twoFactorEnabled: false },
+      newValues: { twoFactorEnabled: true, twoFactorEnabledAt },
+      organizationId: user.organizationId,
+    });
+
+    return sendSuccess(res, { recoveryCodes }, MESSAGES.AUTH.TWO_FACTOR_ENABLED);
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Disable two-factor authentication
+ * Requires the password and a current code; not allowed when the role makes it mandatory
+ * POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { password, code } = req.body;
+
+    if (!password || !code) {
+      return sendError(res, 'Password and authentication code are required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      include: { role: { select: { requireTwoFactor: true } } },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!user.twoFactorEnabled) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_NOT_ENABLED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (user.role?.requireTwoFactor) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_MANDATORY, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!(await bcrypt.compare(password, user.passwordHash))) {
+      return sendError(res, MESSAGES.AUTH.PASSWORD_INCORRECT, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!(await verifySecondFactor(user, String(code)))) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    await removeTwoFactor(user.id);
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: { twoFactorEnabled: true, twoFactorEnabledAt: user.twoFactorEnabledAt },
+      newValues: { twoFactorEnabled: false, twoFactorEnabledAt: null },
+      organizationId: user.organizationId,
+    });
+
+    return sendSuccess(res, null, MESSAGES.AUTH.TWO_FACTOR_DISABLED);
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Replace the recovery codes of the current user
+ * POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateTwoFactorRecoveryCodes = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const { code } = req.body;
+
+    const user = await prisma.user.findUnique({
+      where: { id: req.user!.userId },
+      select: { id: true, twoFactorEnabled: true, twoFactorSecret: true, twoFactorLastUsedStep: true },
+    });
+
+    if (!user) {
+      return sendError(res, MESSAGES.USER.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!user.twoFactorEnabled) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_NOT_ENABLED, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!code || !(await verifySecondFactor(user, String(code)))) {
+      return sendError(res, MESSAGES.AUTH.TWO_FACTOR_INVALID_CODE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+
+    return sendSuccess(res, { recoveryCodes }, MESSAGES.AUTH.RECOVERY_CODES_REGENERATED);
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Helper function to store a new password
+ * Stamps passwordChangedAt (invalidating earlier reset/invite links and access tokens),
+ * clears any lockout, marks the email verified and signs out other sessions
+ */
+async function setUserPassword(
+  req: Request,
+  user: { id: number; organizationId: number | null; passwordHash: string; emailVerified: boolean },
+  password: string,
+  currentSessionId?: string
+): Promise<void> {
+  const passwordHash = await bcrypt.hash(password, 10);
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      passwordHash,
+      passwordChangedAt: new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      emailVerified: true,
+    },
+  });
+
+  await revokeUserSessions(user.id, SESSION_REVOKE_REASONS.PASSWORD_CHANGED, currentSessionId);
+
+  await logAudit(req, {
+    action: AUDIT_ACTIONS.UPDATE,
+    entityType: 'User',
+    entityId: user.id,
+    oldValues: { passwordHash: user.passwordHash, emailVerified: user.emailVerified },
+    newValues: { passwordHash, emailVerified: true },
+    organizationId: user.organizationId,
+  });
+}
+
+/**
+ * Helper function to get the lockout duration after a failed login
+ * Returns null when this failure does not trigger a lockout
+ */
+function getLockoutMinutes(failedLoginAttempts: number): number | null {
+  const { MAX_FAILED_ATTEMPTS, LOCKOUT_BASE_MINUTES, LOCKOUT_MAX_MINUTES } = LOGIN_SECURITY;
+
+  if (failedLoginAttempts % MAX_FAILED_ATTEMPTS !== 0) {
+    return null;
+  }
+
+  const lockoutNumber = failedLoginAttempts / MAX_FAILED_ATTEMPTS;
+  return Math.min(LOCKOUT_BASE_MINUTES * 2 ** (lockoutNumber - 1), LOCKOUT_MAX_MINUTES);
+}
+
+/**
+ * Helper function to load a user with everything needed to sign them in
+ */
+async function findLoginUser(where: Prisma.UserWhereUniqueInput) {
+  return prisma.user.findUnique({
+    where,
+    include: {
+      role: {
+        select: {
+          id: true,
+          name: true,
+          code: true,
+          requireTwoFactor: true,
+        },
+      },
+      organization: {
+        select: {
+          id: true,
+          name: true,
+          slug: true,
+          isActive: true,
+          status: true,
+          organizationModules: {
+            where: {
+              isEnabled: true,
+            },
+            select: {
+              id: true,
+              orgModuleId: true,
+              isEnabled: true,
+              orgModule: {
+                select: {
+                  id: true,
+                  code: true,
+                  name: true,
+                  isCore: true,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+}
+
+type LoginUser = NonNullable<Awaited<ReturnType<typeof findLoginUser>>>;
+
+/**
+ * Helper function to count a failed sign-in (wrong password or wrong second factor)
+ * Progressive lockout: lock on every MAX_FAILED_ATTEMPTS-th consecutive failure
+ */
+async function recordFailedLogin(req: Request, user: LoginUser): Promise<void> {
+  // Increment in the database so concurrent failures are all counted
+  const { failedLoginAttempts } = await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginAttempts: { increment: 1 } },
+    select: { failedLoginAttempts: true },
+  });
+
+  const lockoutMinutes = getLockoutMinutes(failedLoginAttempts);
+  const lockedUntil = lockoutMinutes ? new Date(Date.now() + lockoutMinutes * 60 * 1000) : null;
+
+  if (lockedUntil) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lockedUntil },
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.LOCK,
+      entityType: 'User',
+      entityId: user.id,
+      newValues: { email: user.email, failedLoginAttempts, lockedUntil, lockoutMinutes },
+      organizationId: user.organizationId,
+    });
+  }
+}
+
+/**
+ * Helper function to start a session for a fully authenticated user and send the login response
+ */
+async function completeLogin(req: Request, res: Response, user: LoginUser): Promise<Response> {
+  // Fetch user permissions if they have a role
+  let permissions: any[] = [];
+  if (user.roleId) {
+    permissions = await prisma.rolePermission.findMany({
+      where: { roleId: user.roleId },
+      select: {
+        moduleCode: true,
+        canRead: true,
+        canWrite: true,
+        canUpdate: true,
+        canDelete: true,
+        canApprove: true,
+        canExport: true,
+        canViewCompensation: true,
+        canViewGovernmentIds: true,
+        canViewBankDetails: true,
+        canViewFamilyDetails: true,
+        dataScope: true,
+      },
+    });
+  }
+
+  // Generate tokens
+  const tokenPayload = {
+    userId: user.id,
+    email: user.email,
+    organizationId: user.organizationId,
+    roleId: user.roleId,
+    isSuperAdmin: user.isSuperAdmin,
+  };
+
+  const { accessToken, refreshToken } = await createSession(req, tokenPayload);
+
+  // Update user login info
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      lastLoginAt: new Date(),
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+    },
+  });
+
+  // Prepare response data
+  const responseData = {
+    user: {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      avatar: user.avatar,
+      isSuperAdmin: user.isSuperAdmin,
+      role: user.role,
+      organization: user.organization
+        ? {
+            id: user.organization.id,
+            name: user.organization.name,
+            slug: user.organization.slug,
+          }
+        : null,
+      permissions: permissions,
+      // Same shape as /auth/me; when setupRequired, other API calls are blocked until the user enrols
+      twoFactor: await getTwoFactorStatus(user),
+    },
+    tokens: {
+      accessToken,
+      refreshToken,
+    },
+  };
+
+  return sendSuccess(
+    res,
+    responseData,
+    MESSAGES.AUTH.LOGIN_SUCCESS,
+    STATUS_CODES.OK
+  );
+}
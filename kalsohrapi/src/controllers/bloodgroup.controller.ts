@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -162,6 +163,13 @@ export const createBloodGroup = async (req: Request, res: Response): Promise<Res
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'BloodGroup',
+      entityId: bloodGroup.id,
+      newValues: bloodGroup,
+    });
+
     return sendSuccess(res, { bloodGroup }, 'Blood group created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create blood group error:', error);
@@ -210,6 +218,14 @@ export const updateBloodGroup = async (req: Request, res: Response): Promise<Res
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'BloodGroup',
+      entityId: bloodGroup.id,
+      oldValues: existingBloodGroup,
+      newValues: bloodGroup,
+    });
+
     return sendSuccess(res, { bloodGroup }, 'Blood group updated successfully');
   } catch (error) {
     console.error('Update blood group error:', error);
@@ -248,6 +264,13 @@ export const deleteBloodGroup = async (req: Request, res: Response): Promise<Res
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'BloodGroup',
+      entityId: existingBloodGroup.id,
+      oldValues: existingBloodGroup,
+    });
+
     return sendSuccess(res, null, 'Blood group deleted successfully');
   } catch (error) {
     console.error('Delete blood group error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -263,6 +264,13 @@ export const createBranch = async (req: Request, res: Response): Promise<Respons
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Branch',
+      entityId: branch.id,
+      newValues: branch,
+    });
+
     return sendSuccess(res, { branch }, 'Branch created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create branch error:', error);
@@ -377,6 +385,14 @@ export const updateBranch = async (req: Request, res: Response): Promise<Respons
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Branch',
+      entityId: branch.id,
+      oldValues: existing,
+      newValues: branch,
+    });
+
     return sendSuccess(res, { branch }, 'Branch updated successfully');
   } catch (error) {
     console.error('Update branch error:', error);
@@ -431,6 +447,13 @@ export const deleteBranch = async (req: Request, res: Response): Promise<Respons
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Branch',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Branch deleted successfully');
   } catch (error) {
     console.error('Delete branch error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -164,6 +165,13 @@ export const createBusinessCategory = async (req: Request, res: Response): Promi
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'BusinessCategory',
+      entityId: businessCategory.id,
+      newValues: businessCategory,
+    });
+
     return sendSuccess(res, { businessCategory }, 'Business category created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create business category error:', error);
@@ -213,6 +221,14 @@ export const updateBusinessCategory = async (req: Request, res: Response): Promi
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'BusinessCategory',
+      entityId: businessCategory.id,
+      oldValues: existingBusinessCategory,
+      newValues: businessCategory,
+    });
+
     return sendSuccess(res, { businessCategory }, 'Business category updated successfully');
   } catch (error) {
     console.error('Update business category error:', error);
@@ -251,6 +267,13 @@ export const deleteBusinessCategory = async (req: Request, res: Response): Promi
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'BusinessCategory',
+      entityId: existingBusinessCategory.id,
+      oldValues: existingBusinessCategory,
+    });
+
     return sendSuccess(res, null, 'Business category deleted successfully');
   } catch (error) {
     console.error('Delete business category error:', error);
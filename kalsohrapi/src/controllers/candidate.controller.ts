@@ -1,8 +1,9 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
-import { deleteOldFile } from '../middleware/upload.middleware';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
+import { deleteOrganizationFile } from '../utils/storage-usage';
 import { canViewAuditInfo } from '../utils/permissions';
 
 // Validation constants
@@ -412,8 +413,8 @@ export const createCandidate = async (req: Request, res: Response): Promise<Resp
 
     // Handle file uploads
     const files = req.files as { [fieldname: string]: Express.Multer.File[] };
-    const resumePath = files?.resume?.[0]?.filename ? `/uploads/candidates/resumes/${files.resume[0].filename}` : null;
-    const profilePicture = files?.profilePicture?.[0]?.filename ? `/uploads/candidates/profiles/${files.profilePicture[0].filename}` : null;
+    const resumePath = files?.resume?.[0]?.path || null;
+    const profilePicture = files?.profilePicture?.[0]?.path || null;
 
     // Create candidate
     const candidate = await prisma.candidate.create({
@@ -531,6 +532,13 @@ export const createCandidate = async (req: Request, res: Response): Promise<Resp
       }
     }
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Candidate',
+      entityId: candidate.id,
+      newValues: candidate,
+    });
+
     return sendSuccess(
       res,
       {
@@ -723,21 +731,17 @@ export const updateCandidate = async (req: Request, res: Response): Promise<Resp
     // Update resume if new file uploaded
     if (files?.resume?.[0]) {
       if (existingCandidate.resumePath) {
-        // Extract filename from path if it's a full path
-        const oldFilename = existingCandidate.resumePath.split('/').pop() || existingCandidate.resumePath;
-        await deleteOldFile(oldFilename, 'candidates/resumes');
+        await deleteOrganizationFile(existingCandidate.resumePath);
       }
-      updateData.resumePath = `/uploads/candidates/resumes/${files.resume[0].filename}`;
+      updateData.resumePath = files.resume[0].path;
     }
 
     // Update profile picture if new file uploaded
     if (files?.profilePicture?.[0]) {
       if (existingCandidate.profilePicture) {
-        // Extract filename from path if it's a full path
-        const oldFilename = existingCandidate.profilePicture.split('/').pop() || existingCandidate.profilePicture;
-        await deleteOldFile(oldFilename, 'candidates/profiles');
+        await deleteOrganizationFile(existingCandidate.profilePicture);
       }
-      updateData.profilePicture = `/uploads/candidates/profiles/${files.profilePicture[0].filename}`;
+      updateData.profilePicture = files.profilePicture[0].path;
     }
 
     // Update candidate
@@ -784,6 +788,14 @@ export const updateCandidate = async (req: Request, res: Response): Promise<Resp
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Candidate',
+      entityId: candidate.id,
+      oldValues: existingCandidate,
+      newValues: candidate,
+    });
+
     return sendSuccess(res, { candidate }, 'Candidate updated successfully');
   } catch (error) {
     console.error('Update candidate error:', error);
@@ -832,14 +844,10 @@ export const deleteCandidate = async (req: Request, res: Response): Promise<Resp
 
     // Delete files if they exist
     if (candidate.resumePath) {
-      // Extract filename from path if it's a full path
-      const resumeFilename = candidate.resumePath.split('/').pop() || candidate.resumePath;
-      await deleteOldFile(resumeFilename, 'candidates/resumes');
+      await deleteOrganizationFile(candidate.resumePath);
     }
     if (candidate.profilePicture) {
-      // Extract filename from path if it's a full path
-      const profileFilename = candidate.profilePicture.split('/').pop() || candidate.profilePicture;
-      await deleteOldFile(profileFilename, 'candidates/profiles');
+      await deleteOrganizationFile(candidate.profilePicture);
     }
 
     // Delete candidate
@@ -847,6 +855,13 @@ export const deleteCandidate = async (req: Request, res: Response): Promise<Resp
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Candidate',
+      entityId: candidate.id,
+      oldValues: candidate,
+    });
+
     return sendSuccess(res, null, 'Candidate deleted successfully');
   } catch (error) {
     console.error('Delete candidate error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -235,6 +236,13 @@ export const createCity = async (req: Request, res: Response): Promise<Response>
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'City',
+      entityId: city.id,
+      newValues: city,
+    });
+
     return sendSuccess(res, { city }, 'City created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create city error:', error);
@@ -320,6 +328,14 @@ export const updateCity = async (req: Request, res: Response): Promise<Response>
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'City',
+      entityId: city.id,
+      oldValues: existingCity,
+      newValues: city,
+    });
+
     return sendSuccess(res, { city }, 'City updated successfully');
   } catch (error) {
     console.error('Update city error:', error);
@@ -358,6 +374,13 @@ export const deleteCity = async (req: Request, res: Response): Promise<Response>
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'City',
+      entityId: existingCity.id,
+      oldValues: existingCity,
+    });
+
     return sendSuccess(res, null, 'City deleted successfully');
   } catch (error) {
     console.error('Delete city error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -175,6 +176,13 @@ export const createCountry = async (req: Request, res: Response): Promise<Respon
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Country',
+      entityId: country.id,
+      newValues: country,
+    });
+
     return sendSuccess(res, { country }, 'Country created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create country error:', error);
@@ -225,6 +233,14 @@ export const updateCountry = async (req: Request, res: Response): Promise<Respon
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Country',
+      entityId: country.id,
+      oldValues: existing,
+      newValues: country,
+    });
+
     return sendSuccess(res, { country }, 'Country updated successfully');
   } catch (error) {
     console.error('Update country error:', error);
@@ -265,6 +281,13 @@ export const deleteCountry = async (req: Request, res: Response): Promise<Respon
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Country',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Country deleted successfully');
   } catch (error) {
     console.error('Delete country error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -235,6 +236,13 @@ export const createDepartment = async (req: Request, res: Response): Promise<Res
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Department',
+      entityId: department.id,
+      newValues: department,
+    });
+
     return sendSuccess(res, { department }, 'Department created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create department error:', error);
@@ -322,6 +330,14 @@ export const updateDepartment = async (req: Request, res: Response): Promise<Res
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Department',
+      entityId: department.id,
+      oldValues: existing,
+      newValues: department,
+    });
+
     return sendSuccess(res, { department }, 'Department updated successfully');
   } catch (error) {
     console.error('Update department error:', error);
@@ -376,6 +392,13 @@ export const deleteDepartment = async (req: Request, res: Response): Promise<Res
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Department',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Department deleted successfully');
   } catch (error) {
     console.error('Delete department error:', error);
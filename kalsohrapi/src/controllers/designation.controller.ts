@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -205,6 +206,13 @@ export const createDesignation = async (req: Request, res: Response): Promise<Re
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Designation',
+      entityId: designation.id,
+      newValues: designation,
+    });
+
     return sendSuccess(res, { designation }, 'Designation created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create designation error:', error);
@@ -276,6 +284,14 @@ export const updateDesignation = async (req: Request, res: Response): Promise<Re
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Designation',
+      entityId: designation.id,
+      oldValues: existing,
+      newValues: designation,
+    });
+
     return sendSuccess(res, { designation }, 'Designation updated successfully');
   } catch (error) {
     console.error('Update designation error:', error);
@@ -320,6 +336,13 @@ export const deleteDesignation = async (req: Request, res: Response): Promise<Re
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Designation',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Designation deleted successfully');
   } catch (error) {
     console.error('Delete designation error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -184,6 +185,13 @@ export const createDocumentType = async (req: Request, res: Response): Promise<R
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'DocumentType',
+      entityId: documentType.id,
+      newValues: documentType,
+    });
+
     return sendSuccess(res, { documentType }, 'Document type created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create document type error:', error);
@@ -242,6 +250,14 @@ export const updateDocumentType = async (req: Request, res: Response): Promise<R
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'DocumentType',
+      entityId: documentType.id,
+      oldValues: existingDocumentType,
+      newValues: documentType,
+    });
+
     return sendSuccess(res, { documentType }, 'Document type updated successfully');
   } catch (error) {
     console.error('Update document type error:', error);
@@ -280,6 +296,13 @@ export const deleteDocumentType = async (req: Request, res: Response): Promise<R
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'DocumentType',
+      entityId: existingDocumentType.id,
+      oldValues: existingDocumentType,
+    });
+
     return sendSuccess(res, null, 'Document type deleted successfully');
   } catch (error) {
     console.error('Delete document type error:', error);
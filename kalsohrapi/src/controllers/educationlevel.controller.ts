@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -171,6 +172,13 @@ export const createEducationLevel = async (req: Request, res: Response): Promise
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EducationLevel',
+      entityId: educationLevel.id,
+      newValues: educationLevel,
+    });
+
     return sendSuccess(res, { educationLevel }, 'Education level created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create education level error:', error);
@@ -220,6 +228,14 @@ export const updateEducationLevel = async (req: Request, res: Response): Promise
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EducationLevel',
+      entityId: educationLevel.id,
+      oldValues: existingEducationLevel,
+      newValues: educationLevel,
+    });
+
     return sendSuccess(res, { educationLevel }, 'Education level updated successfully');
   } catch (error) {
     console.error('Update education level error:', error);
@@ -258,6 +274,13 @@ export const deleteEducationLevel = async (req: Request, res: Response): Promise
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'EducationLevel',
+      entityId: existingEducationLevel.id,
+      oldValues: existingEducationLevel,
+    });
+
     return sendSuccess(res, null, 'Education level deleted successfully');
   } catch (error) {
     console.error('Delete education level error:', error);
@@ -0,0 +1,692 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS, PAGINATION, DOCUMENT_REMINDERS } from '../config/constants';
+import { deleteOrganizationFile } from '../utils/storage-usage';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+import { toDateOnly, getTodayInTimezone } from '../utils/attendance';
+import {
+  getOrganizationToday,
+  getMandatoryDocumentTypes,
+  findMissingMandatoryTypes,
+  withExpiryStatus,
+  getDaysUntilExpiry,
+  parseReminderDays,
+  sendDocumentReminders,
+} from '../utils/document-compliance';
+
+const documentTypeSelect = {
+  id: true,
+  name: true,
+  code: true,
+  category: true,
+  isMandatory: true,
+};
+
+interface ComplianceGroup {
+  id: number | null;
+  name: string;
+  employees: number;
+  expired: number;
+  expiring: number;
+  employeesMissingMandatory: number;
+}
+
+/**
+ * Get the document vault of an employee (latest version of each document)
+ * GET /api/:orgSlug/employees/:id/documents
+ * Query: ?documentTypeId=&category=
+ * Also lists the mandatory document types the employee has no valid document for
+ */
+export const getEmployeeDocuments = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+    const { documentTypeId, category } = req.query;
+
+    const employee = await findEmployee(organizationId, parseInt(id));
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const [documents, mandatoryTypes] = await Promise.all([
+      prisma.employeeDocument.findMany({
+        where: {
+          organizationId,
+          employeeId: employee.id,
+          isLatest: true,
+          ...(documentTypeId && { documentTypeId: parseInt(documentTypeId as string) }),
+          ...(category && { documentTypeMaster: { category: category as string } }),
+        },
+        include: { documentTypeMaster: { select: documentTypeSelect } },
+        orderBy: { uploadedAt: 'desc' },
+      }),
+      getMandatoryDocumentTypes(),
+    ]);
+
+    const today = await getOrganizationToday(organizationId);
+
+    // Mandatory types are checked against all documents, not just the filtered ones
+    const allDocuments = documentTypeId || category
+      ? await prisma.employeeDocument.findMany({
+          where: { organizationId, employeeId: employee.id, isLatest: true },
+          select: { documentTypeId: true, expiryDate: true },
+        })
+      : documents;
+
+    return sendSuccess(
+      res,
+      {
+        documents: documents.map((document) => withExpiryStatus(document, today)),
+        missingMandatoryTypes: findMissingMandatoryTypes(allDocuments, mandatoryTypes, today),
+      },
+      'Employee documents retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee documents error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get all versions of an employee document (newest first)
+ * GET /api/:orgSlug/employees/:id/documents/:documentId/versions
+ */
+export const getEmployeeDocumentVersions = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id, documentId } = req.params;
+
+    const document = await findDocument(organizationId, parseInt(id), parseInt(documentId));
+    if (!document) {
+      return sendError(res, 'Document not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const rootId = document.rootDocumentId ?? document.id;
+    const versions = await prisma.employeeDocument.findMany({
+      where: {
+        organizationId,
+        employeeId: document.employeeId,
+        OR: [{ id: rootId }, { rootDocumentId: rootId }],
+      },
+      include: { documentTypeMaster: { select: documentTypeSelect } },
+      orderBy: { version: 'desc' },
+    });
+
+    const today = await getOrganizationToday(organizationId);
+
+    return sendSuccess(
+      res,
+      { versions: versions.map((version) => withExpiryStatus(version, today)) },
+      'Document versions retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee document versions error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Upload a document to an employee's vault
+ * POST /api/:orgSlug/employees/:id/documents
+ * Multipart: file, documentTypeId, documentName?, issueDate?, expiryDate?, notes?
+ */
+export const uploadEmployeeDocument = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id } = req.params;
+    const { documentTypeId, documentName, notes } = req.body;
+
+    const employee = await findEmployee(organizationId, parseInt(id));
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!req.file) {
+      return sendError(res, 'Document file is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!documentTypeId) {
+      return sendError(res, 'Document type is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const documentType = await prisma.documentType.findFirst({
+      where: { id: parseInt(documentTypeId), isActive: true },
+    });
+    if (!documentType) {
+      return sendError(res, 'Document type not found or inactive', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const dates = parseDocumentDates(req.body);
+    if ('error' in dates) {
+      return sendError(res, dates.error, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const document = await prisma.employeeDocument.create({
+      data: {
+        organizationId,
+        employeeId: employee.id,
+        documentType: documentType.code,
+        documentTypeId: documentType.id,
+        documentName: documentName || documentType.name,
+        filePath: req.file.path,
+        fileSize: req.file.size,
+        mimeType: req.file.mimetype,
+        issueDate: dates.issueDate ?? null,
+        expiryDate: dates.expiryDate ?? null,
+        notes: notes || null,
+        uploadedBy: userId || null,
+      },
+      include: { documentTypeMaster: { select: documentTypeSelect } },
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmployeeDocument',
+      entityId: document.id,
+      newValues: document,
+    });
+
+    const today = await getOrganizationToday(organizationId);
+
+    return sendSuccess(
+      res,
+      { document: withExpiryStatus(document, today) },
+      'Document uploaded successfully',
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    console.error('Upload employee document error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Update an employee document
+ * PUT /api/:orgSlug/employees/:id/documents/:documentId
+ * Multipart: file?, documentName?, issueDate?, expiryDate?, notes?
+ * With a file a new version is added (the previous versions are kept); without one the details of the latest version are updated
+ */
+export const updateEmployeeDocument = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id, documentId } = req.params;
+    const { documentName, notes } = req.body;
+
+    const existing = await findDocument(organizationId, parseInt(id), parseInt(documentId));
+    if (!existing) {
+      return sendError(res, 'Document not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!existing.isLatest) {
+      return sendError(res, 'Only the latest version of a document can be changed', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const dates = parseDocumentDates(req.body, existing);
+    if ('error' in dates) {
+      return sendError(res, dates.error, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const details = {
+      ...(documentName !== undefined && { documentName: documentName || existing.documentName }),
+      ...(notes !== undefined && { notes: notes || null }),
+      ...(dates.issueDate !== undefined && { issueDate: dates.issueDate }),
+      ...(dates.expiryDate !== undefined && { expiryDate: dates.expiryDate }),
+    };
+
+    let document;
+
+    if (req.file) {
+      const file = req.file;
+
+      // Replace: the new version carries over the details that were not changed
+      document = await prisma.$transaction(async (tx) => {
+        await tx.employeeDocument.update({
+          where: { id: existing.id },
+          data: { isLatest: false },
+        });
+
+        return tx.employeeDocument.create({
+          data: {
+            organizationId,
+            employeeId: existing.employeeId,
+            documentType: existing.documentType,
+            documentTypeId: existing.documentTypeId,
+            documentName: existing.documentName,
+            issueDate: existing.issueDate,
+            expiryDate: existing.expiryDate,
+            notes: existing.notes,
+            ...details,
+            filePath: file.path,
+            fileSize: file.size,
+            mimeType: file.mimetype,
+            version: existing.version + 1,
+            rootDocumentId: existing.rootDocumentId ?? existing.id,
+            uploadedBy: userId || null,
+          },
+          include: { documentTypeMaster: { select: documentTypeSelect } },
+        });
+      });
+
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entityType: 'EmployeeDocument',
+        entityId: document.id,
+        oldValues: existing,
+        newValues: document,
+      });
+    } else {
+      document = await prisma.employeeDocument.update({
+        where: { id: existing.id },
+        data: details,
+        include: { documentTypeMaster: { select: documentTypeSelect } },
+      });
+
+      // A new expiry date starts the reminder stages again
+      if (document.expiryDate?.getTime() !== existing.expiryDate?.getTime()) {
+        await prisma.documentReminder.deleteMany({ where: { documentId: document.id } });
+      }
+
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entityType: 'EmployeeDocument',
+        entityId: document.id,
+        oldValues: existing,
+        newValues: document,
+      });
+    }
+
+    const today = await getOrganizationToday(organizationId);
+
+    return sendSuccess(
+      res,
+      { document: withExpiryStatus(document, today) },
+      req.file ? 'New document version uploaded successfully' : 'Document updated successfully'
+    );
+  } catch (error) {
+    console.error('Update employee document error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Delete an employee document with all its versions
+ * DELETE /api/:orgSlug/employees/:id/documents/:documentId
+ */
+export const deleteEmployeeDocument = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id, documentId } = req.params;
+
+    const document = await findDocument(organizationId, parseInt(id), parseInt(documentId));
+    if (!document) {
+      return sendError(res, 'Document not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const rootId = document.rootDocumentId ?? document.id;
+    const versions = await prisma.employeeDocument.findMany({
+      where: {
+        organizationId,
+        employeeId: document.employeeId,
+        OR: [{ id: rootId }, { rootDocumentId: rootId }],
+      },
+    });
+
+    await prisma.employeeDocument.deleteMany({
+      where: { id: { in: versions.map((version) => version.id) } },
+    });
+
+    for (const version of versions) {
+      await deleteOrganizationFile(version.filePath);
+    }
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'EmployeeDocument',
+      entityId: document.id,
+      oldValues: document,
+    });
+
+    return sendSuccess(res, null, 'Document deleted successfully');
+  } catch (error) {
+    console.error('Delete employee document error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get active employees that are missing mandatory documents (no document, or only an expired one)
+ * GET /api/:orgSlug/employees/documents/missing-mandatory
+ * Query: ?page=&limit=&departmentId=&branchId=&documentTypeId=
+ */
+export const getMissingMandatoryDocuments = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { page = 1, limit = 10, departmentId, branchId, documentTypeId } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string) || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+
+    let mandatoryTypes = await getMandatoryDocumentTypes();
+    if (documentTypeId) {
+      mandatoryTypes = mandatoryTypes.filter((type) => type.id === parseInt(documentTypeId as string));
+    }
+
+    const employees = await prisma.employee.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(departmentId && { departmentId: parseInt(departmentId as string) }),
+        ...(branchId && { branchId: parseInt(branchId as string) }),
+        AND: [await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'employees')],
+      },
+      select: {
+        id: true,
+        employeeCode: true,
+        firstName: true,
+        lastName: true,
+        department: { select: { id: true, name: true } },
+        branch: { select: { id: true, name: true } },
+        documents: {
+          where: { isLatest: true, documentTypeId: { in: mandatoryTypes.map((type) => type.id) } },
+          select: { documentTypeId: true, expiryDate: true },
+        },
+      },
+      orderBy: [{ firstName: 'asc' }, { lastName: 'asc' }],
+    });
+
+    const today = await getOrganizationToday(organizationId);
+
+    const incomplete = employees
+      .map(({ documents, ...employee }) => ({
+        ...employee,
+        missingTypes: findMissingMandatoryTypes(documents, mandatoryTypes, today),
+      }))
+      .filter((employee) => employee.missingTypes.length > 0);
+
+    const total = incomplete.length;
+
+    return sendSuccess(
+      res,
+      {
+        mandatoryTypes,
+        employees: incomplete.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+        summary: {
+          employeesChecked: employees.length,
+          employeesWithMissingDocuments: total,
+        },
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Missing mandatory documents retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get missing mandatory documents error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Document compliance dashboard
+ * GET /api/:orgSlug/employees/documents/compliance
+ * Query: ?days=30&departmentId=&branchId=
+ * Documents expiring within the window, expired documents, missing mandatory documents
+ * and a breakdown by department and branch (active employees only)
+ */
+export const getDocumentComplianceDashboard = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { departmentId, branchId } = req.query;
+
+    const days = req.query.days !== undefined ? parseInt(req.query.days as string) : DOCUMENT_REMINDERS.DASHBOARD_DEFAULT_DAYS;
+    if (isNaN(days) || days < 0 || days > DOCUMENT_REMINDERS.MAX_DAYS) {
+      return sendError(res, `days must be between 0 and ${DOCUMENT_REMINDERS.MAX_DAYS}`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const scopeWhere = await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'employees');
+
+    const [employees, mandatoryTypes, organization, recentReminders] = await Promise.all([
+      prisma.employee.findMany({
+        where: {
+          organizationId,
+          isActive: true,
+          ...(departmentId && { departmentId: parseInt(departmentId as string) }),
+          ...(branchId && { branchId: parseInt(branchId as string) }),
+          AND: [scopeWhere],
+        },
+        select: {
+          id: true,
+          employeeCode: true,
+          firstName: true,
+          lastName: true,
+          department: { select: { id: true, name: true } },
+          branch: { select: { id: true, name: true } },
+          documents: {
+            where: { isLatest: true },
+            select: {
+              id: true,
+              documentName: true,
+              documentTypeId: true,
+              expiryDate: true,
+              documentTypeMaster: { select: { id: true, name: true, category: true } },
+            },
+          },
+        },
+      }),
+      getMandatoryDocumentTypes(),
+      prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { timezone: true, documentReminderDays: true },
+      }),
+      prisma.documentReminder.findMany({
+        where: { organizationId, document: { employee: scopeWhere } },
+        include: {
+          document: {
+            select: {
+              id: true,
+              documentName: true,
+              employee: { select: { id: true, employeeCode: true, firstName: true, lastName: true } },
+            },
+          },
+        },
+        orderBy: { sentAt: 'desc' },
+        take: 10,
+      }),
+    ]);
+
+    const today = getTodayInTimezone(organization?.timezone);
+
+    const expiring = [];
+    const expired = [];
+    const missingByType = new Map(mandatoryTypes.map((type) => [type.id, { ...type, missing: 0, expired: 0 }]));
+    const byDepartment = new Map<number | null, ComplianceGroup>();
+    const byBranch = new Map<number | null, ComplianceGroup>();
+    let employeesMissingMandatory = 0;
+    let compliantEmployees = 0;
+
+    for (const { documents, ...employee } of employees) {
+      const departmentGroup = getComplianceGroup(byDepartment, employee.department);
+      const branchGroup = getComplianceGroup(byBranch, employee.branch);
+      let expiredCount = 0;
+      let expiringCount = 0;
+
+      for (const document of documents) {
+        const daysUntilExpiry = getDaysUntilExpiry(document.expiryDate, today);
+        if (daysUntilExpiry === null || daysUntilExpiry > days) continue;
+
+        const row = { ...document, daysUntilExpiry, employee };
+        if (daysUntilExpiry < 0) {
+          expired.push(row);
+          expiredCount++;
+        } else {
+          expiring.push(row);
+          expiringCount++;
+        }
+      }
+
+      const missingTypes = findMissingMandatoryTypes(documents, mandatoryTypes, today);
+      for (const type of missingTypes) {
+        missingByType.get(type.id)![type.reason]++;
+      }
+
+      if (missingTypes.length > 0) employeesMissingMandatory++;
+      if (missingTypes.length === 0 && expiredCount === 0) compliantEmployees++;
+
+      for (const group of [departmentGroup, branchGroup]) {
+        group.employees++;
+        group.expired += expiredCount;
+        group.expiring += expiringCount;
+        if (missingTypes.length > 0) group.employeesMissingMandatory++;
+      }
+    }
+
+    const byExpiry = (a: { daysUntilExpiry: number }, b: { daysUntilExpiry: number }) =>
+      a.daysUntilExpiry - b.daysUntilExpiry;
+    const byOverdue = (a: ComplianceGroup, b: ComplianceGroup) =>
+      b.expired + b.employeesMissingMandatory - (a.expired + a.employeesMissingMandatory) || a.name.localeCompare(b.name);
+
+    return sendSuccess(
+      res,
+      {
+        days,
+        reminderDays: parseReminderDays(organization?.documentReminderDays) ?? DOCUMENT_REMINDERS.DEFAULT_DAYS,
+        summary: {
+          activeEmployees: employees.length,
+          compliantEmployees,
+          employeesMissingMandatory,
+          expiringSoon: expiring.length,
+          expired: expired.length,
+        },
+        expiring: expiring.sort(byExpiry),
+        expired: expired.sort(byExpiry),
+        missingMandatoryByType: Array.from(missingByType.values()),
+        byDepartment: Array.from(byDepartment.values()).sort(byOverdue),
+        byBranch: Array.from(byBranch.values()).sort(byOverdue),
+        recentReminders,
+      },
+      'Document compliance retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get document compliance dashboard error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Send the document expiry reminders that are due now
+ * POST /api/:orgSlug/employees/documents/reminders
+ * Body: { dryRun?: boolean }
+ * The same reminders are sent daily by `npm run documents:remind`; a document is reminded once per stage
+ */
+export const sendDocumentExpiryReminders = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const dryRun = req.body?.dryRun === true || req.body?.dryRun === 'true';
+
+    const result = await sendDocumentReminders({ organizationId, dryRun });
+
+    if (!dryRun && result.reminders.length > 0) {
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.CREATE,
+        entityType: 'DocumentReminder',
+        entityId: organizationId,
+        newValues: result.summary,
+      });
+    }
+
+    return sendSuccess(
+      res,
+      result,
+      dryRun
+        ? `${result.summary.documentsDue} document reminder(s) due`
+        : `${result.summary.documentsDue} document reminder(s) sent`
+    );
+  } catch (error) {
+    console.error('Send document expiry reminders error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to find an employee of the organization
+ */
+async function findEmployee(organizationId: number, employeeId: number) {
+  if (isNaN(employeeId)) return null;
+
+  return prisma.employee.findFirst({
+    where: { id: employeeId, organizationId },
+    select: { id: true },
+  });
+}
+
+/**
+ * Helper function to find a document of an employee of the organization
+ */
+async function findDocument(organizationId: number, employeeId: number, documentId: number) {
+  if (isNaN(employeeId) || isNaN(documentId)) return null;
+
+  return prisma.employeeDocument.findFirst({
+    where: { id: documentId, employeeId, organizationId },
+  });
+}
+
+/**
+ * Helper function to parse the optional issue and expiry dates of a document
+ * Empty values clear a date; omitted values are returned as undefined
+ */
+function parseDocumentDates(
+  body: Record<string, any>,
+  existing?: { issueDate: Date | null; expiryDate: Date | null }
+): { issueDate?: Date | null; expiryDate?: Date | null } | { error: string } {
+  const result: { issueDate?: Date | null; expiryDate?: Date | null } = {};
+
+  for (const field of ['issueDate', 'expiryDate'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+
+    if (value === null || value === '' || value === 'null') {
+      result[field] = null;
+      continue;
+    }
+
+    const date = toDateOnly(value);
+    if (!date) {
+      return { error: `Invalid ${field === 'issueDate' ? 'issue' : 'expiry'} date` };
+    }
+    result[field] = date;
+  }
+
+  const issueDate = result.issueDate !== undefined ? result.issueDate : existing?.issueDate;
+  const expiryDate = result.expiryDate !== undefined ? result.expiryDate : existing?.expiryDate;
+
+  if (issueDate && expiryDate && expiryDate < issueDate) {
+    return { error: 'Expiry date cannot be before the issue date' };
+  }
+
+  return result;
+}
+
+/**
+ * Helper function to get (or start) the compliance counts of a department or branch
+ */
+function getComplianceGroup(
+  groups: Map<number | null, ComplianceGroup>,
+  owner: { id: number; name: string } | null
+): ComplianceGroup {
+  const id = owner?.id ?? null;
+  let group = groups.get(id);
+
+  if (!group) {
+    group = { id, name: owner?.name || 'Unassigned', employees: 0, expired: 0, expiring: 0, employeesMissingMandatory: 0 };
+    groups.set(id, group);
+  }
+
+  return group;
+}
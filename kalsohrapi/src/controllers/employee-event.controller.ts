@@ -0,0 +1,407 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAudit } from '../utils/audit';
+import { hasOrgPermission } from '../utils/permissions';
+import { toDateOnly } from '../utils/attendance';
+import {
+  STATUS_CODES,
+  MESSAGES,
+  AUDIT_ACTIONS,
+  EMPLOYEE_EVENT_TYPES,
+  EMPLOYEE_EVENT_STATUS,
+  EMPLOYEE_IMPORT,
+  EMPLOYEE_STATUS,
+} from '../config/constants';
+import {
+  RECORDABLE_EVENT_TYPES,
+  applyEmployeeEvent,
+  applyDueEmployeeEvents,
+  getEventToday,
+} from '../utils/employee-events';
+
+const nameSelect = { select: { id: true, name: true } };
+
+const eventInclude = {
+  department: nameSelect,
+  previousDepartment: nameSelect,
+  designation: nameSelect,
+  previousDesignation: nameSelect,
+  branch: nameSelect,
+  previousBranch: nameSelect,
+};
+
+const EXIT_EVENT_TYPES = [EMPLOYEE_EVENT_TYPES.RESIGNATION, EMPLOYEE_EVENT_TYPES.TERMINATION];
+
+/**
+ * Get the career timeline of an employee (newest first)
+ * GET /api/:orgSlug/employees/:id/events
+ * Salaries are only included with the sensitive data permission
+ */
+export const getEmployeeEvents = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const employeeId = parseInt(req.params.id);
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({
+          where: { id: employeeId, organizationId },
+          select: {
+            id: true,
+            employeeCode: true,
+            firstName: true,
+            lastName: true,
+            status: true,
+            isActive: true,
+            dateOfJoining: true,
+            dateOfLeaving: true,
+            department: nameSelect,
+            designation: nameSelect,
+            branch: nameSelect,
+          },
+        });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const [events, canViewCompensation] = await Promise.all([
+      prisma.employeeEvent.findMany({
+        where: { organizationId, employeeId },
+        include: eventInclude,
+        orderBy: [{ effectiveDate: 'desc' }, { id: 'desc' }],
+      }),
+      hasOrgPermission((req as any).user, organizationId, 'employees', 'canViewCompensation', (req as any).isImpersonating),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        employee,
+        events: canViewCompensation ? events : events.map((event) => ({ ...event, salary: null, previousSalary: null })),
+        canViewCompensation,
+      },
+      'Employee events retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee events error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Record a lifecycle event for an employee
+ * POST /api/:orgSlug/employees/:id/events
+ * Body: eventType, effectiveDate, reason, and depending on the type departmentId, designationId, branchId, salary
+ * Events effective today or earlier are applied right away; later ones are scheduled
+ */
+export const createEmployeeEvent = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+    const { eventType, reason } = req.body;
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({ where: { id: employeeId, organizationId } });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!RECORDABLE_EVENT_TYPES.includes(eventType)) {
+      return sendError(
+        res,
+        `Invalid event type. Must be one of: ${RECORDABLE_EVENT_TYPES.join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const effectiveDate = toDateOnly(req.body.effectiveDate);
+    if (!effectiveDate) {
+      return sendError(res, 'A valid effective date is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (employee.dateOfJoining && effectiveDate < toDateOnly(employee.dateOfJoining)!) {
+      return sendError(res, 'Effective date cannot be before the date of joining', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return sendError(res, 'Reason is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Only the values that apply to the event type are kept
+    const changes = parseEventChanges(eventType, req.body);
+    if (typeof changes === 'string') {
+      return sendError(res, changes, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const masterDataError = await validateMasterData(organizationId, changes);
+    if (masterDataError) {
+      return sendError(res, masterDataError, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (changes.salary !== undefined) {
+      const canViewCompensation = await hasOrgPermission(
+        (req as any).user,
+        organizationId,
+        'employees',
+        'canViewCompensation',
+        (req as any).isImpersonating
+      );
+
+      if (!canViewCompensation) {
+        return sendError(res, 'You do not have permission to change salaries', STATUS_CODES.FORBIDDEN);
+      }
+    }
+
+    if (EXIT_EVENT_TYPES.includes(eventType)) {
+      if (
+        employee.status === EMPLOYEE_STATUS.RESIGNED ||
+        employee.status === EMPLOYEE_STATUS.TERMINATED
+      ) {
+        return sendError(res, `Employee has already left (${employee.status})`, STATUS_CODES.BAD_REQUEST);
+      }
+
+      const scheduledExit = await prisma.employeeEvent.findFirst({
+        where: {
+          employeeId,
+          status: EMPLOYEE_EVENT_STATUS.SCHEDULED,
+          eventType: { in: EXIT_EVENT_TYPES },
+        },
+        select: { id: true },
+      });
+
+      if (scheduledExit) {
+        return sendError(
+          res,
+          'Employee already has a scheduled resignation or termination. Cancel it first',
+          STATUS_CODES.CONFLICT
+        );
+      }
+    }
+
+    const today = await getEventToday(organizationId);
+
+    const { event, applied } = await prisma.$transaction(async (tx) => {
+      const created = await tx.employeeEvent.create({
+        data: {
+          organizationId,
+          employeeId,
+          eventType,
+          effectiveDate,
+          reason: reason.trim(),
+          ...changes,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+
+      if (effectiveDate > today) {
+        return { event: created, applied: null };
+      }
+
+      const result = await applyEmployeeEvent(tx, created.id, userId);
+      return { event: result.event, applied: result };
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmployeeEvent',
+      entityId: event.id,
+      newValues: event,
+    });
+
+    if (applied) {
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entityType: 'Employee',
+        entityId: employeeId,
+        oldValues: applied.before,
+        newValues: applied.after,
+      });
+    }
+
+    const result = await prisma.employeeEvent.findUnique({ where: { id: event.id }, include: eventInclude });
+
+    return sendSuccess(
+      res,
+      { event: result },
+      applied ? 'Employee event recorded and applied' : 'Employee event scheduled successfully',
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    console.error('Create employee event error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Cancel a scheduled event
+ * PATCH /api/:orgSlug/employees/:id/events/:eventId/cancel
+ * Applied events cannot be cancelled; record a new event to reverse them
+ */
+export const cancelEmployeeEvent = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+    const eventId = parseInt(req.params.eventId);
+
+    const event = isNaN(employeeId) || isNaN(eventId)
+      ? null
+      : await prisma.employeeEvent.findFirst({
+          where: { id: eventId, employeeId, organizationId },
+          include: { offboarding: { select: { id: true } } },
+        });
+
+    if (!event) {
+      return sendError(res, 'Employee event not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (event.status !== EMPLOYEE_EVENT_STATUS.SCHEDULED) {
+      return sendError(res, `Only scheduled events can be cancelled (this one is ${event.status})`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (event.offboarding) {
+      return sendError(
+        res,
+        'This exit belongs to an offboarding. Cancel the offboarding instead',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const cancelled = await prisma.employeeEvent.update({
+      where: { id: event.id },
+      data: { status: EMPLOYEE_EVENT_STATUS.CANCELLED, cancelledAt: new Date(), updatedBy: userId },
+      include: eventInclude,
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeEvent',
+      entityId: event.id,
+      oldValues: event,
+      newValues: cancelled,
+    });
+
+    return sendSuccess(res, { event: cancelled }, 'Employee event cancelled successfully');
+  } catch (error) {
+    console.error('Cancel employee event error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Apply the scheduled events whose effective date has come
+ * POST /api/:orgSlug/employees/events/apply-due
+ * Body: { dryRun?: boolean } (also run daily by `npm run employees:apply-events`)
+ */
+export const applyDueEvents = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const dryRun = req.body?.dryRun === true || req.body?.dryRun === 'true';
+
+    const result = await applyDueEmployeeEvents({ organizationId, dryRun, userId });
+
+    for (const applied of result.applied) {
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entityType: 'Employee',
+        entityId: applied.event.employeeId,
+        oldValues: applied.before,
+        newValues: applied.after,
+      });
+    }
+
+    return sendSuccess(
+      res,
+      {
+        due: result.due,
+        applied: result.applied.map(({ event }) => event),
+        failed: result.failed,
+      },
+      dryRun
+        ? `${result.due} employee event(s) due`
+        : `${result.applied.length} employee event(s) applied${result.failed.length ? `, ${result.failed.length} failed` : ''}`
+    );
+  } catch (error) {
+    console.error('Apply due employee events error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+interface EventChanges {
+  departmentId?: number;
+  designationId?: number;
+  branchId?: number;
+  salary?: number;
+  employeeStatus?: string;
+}
+
+/**
+ * Helper function to read the changes an event type makes from the request body
+ * Returns an error message when a required value is missing or invalid
+ */
+function parseEventChanges(eventType: string, body: any): EventChanges | string {
+  const id = (value: any) => (value === undefined || value === null || value === '' ? undefined : parseInt(value));
+  const departmentId = id(body.departmentId);
+  const designationId = id(body.designationId);
+  const branchId = id(body.branchId);
+  const salary = body.salary === undefined || body.salary === null || body.salary === '' ? undefined : Number(body.salary);
+
+  if ([departmentId, designationId, branchId].some((value) => value !== undefined && isNaN(value))) {
+    return 'Department, designation and branch must be valid IDs';
+  }
+
+  // employees.salary is DECIMAL(10, 2)
+  if (salary !== undefined && (isNaN(salary) || salary <= 0 || salary >= EMPLOYEE_IMPORT.MAX_SALARY)) {
+    return 'Salary must be a positive amount';
+  }
+
+  switch (eventType) {
+    case EMPLOYEE_EVENT_TYPES.PROMOTION:
+      if (designationId === undefined) return 'A promotion needs the new designation';
+      return { designationId, departmentId, branchId, salary };
+    case EMPLOYEE_EVENT_TYPES.TRANSFER:
+      if (departmentId === undefined && branchId === undefined) {
+        return 'A transfer needs the new department or branch';
+      }
+      return { departmentId, branchId };
+    case EMPLOYEE_EVENT_TYPES.SALARY_REVISION:
+      if (salary === undefined) return 'A salary revision needs the new salary';
+      return { salary };
+    case EMPLOYEE_EVENT_TYPES.RESIGNATION:
+      return { employeeStatus: EMPLOYEE_STATUS.RESIGNED };
+    case EMPLOYEE_EVENT_TYPES.TERMINATION:
+      return { employeeStatus: EMPLOYEE_STATUS.TERMINATED };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Helper function to check that the department, designation and branch of an event belong to the organization
+ */
+async function validateMasterData(organizationId: number, changes: EventChanges): Promise<string | null> {
+  const [department, designation, branch] = await Promise.all([
+    changes.departmentId !== undefined
+      ? prisma.department.findFirst({ where: { id: changes.departmentId, organizationId }, select: { id: true } })
+      : true,
+    changes.designationId !== undefined
+      ? prisma.designation.findFirst({ where: { id: changes.designationId, organizationId }, select: { id: true } })
+      : true,
+    changes.branchId !== undefined
+      ? prisma.branch.findFirst({ where: { id: changes.branchId, organizationId }, select: { id: true } })
+      : true,
+  ]);
+
+  if (!department) return 'Department not found';
+  if (!designation) return 'Designation not found';
+  if (!branch) return 'Branch not found';
+
+  return null;
+}
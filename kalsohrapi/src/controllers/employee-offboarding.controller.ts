@@ -0,0 +1,680 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAudit } from '../utils/audit';
+import { toDateOnly } from '../utils/attendance';
+import {
+  STATUS_CODES,
+  MESSAGES,
+  AUDIT_ACTIONS,
+  PAGINATION,
+  OFFBOARDING,
+  EMPLOYEE_EVENT_TYPES,
+  EMPLOYEE_EVENT_STATUS,
+  EMPLOYEE_STATUS,
+} from '../config/constants';
+import { applyEmployeeEvent, getEventToday, AppliedEmployeeEvent } from '../utils/employee-events';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+import {
+  getOffboardingChecklistTemplate,
+  refreshOffboardingStatus,
+  validateChecklistItems,
+} from '../utils/employee-offboarding';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXIT_TYPES = [EMPLOYEE_EVENT_TYPES.RESIGNATION, EMPLOYEE_EVENT_TYPES.TERMINATION];
+
+const employeeSelect = { select: { id: true, employeeCode: true, firstName: true, lastName: true } };
+
+const offboardingInclude = {
+  successor: employeeSelect,
+  event: { select: { id: true, status: true, effectiveDate: true, appliedAt: true } },
+  items: { orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }] },
+};
+
+/**
+ * Get offboardings (with checklist progress)
+ * GET /api/:orgSlug/employees/offboarding
+ * Query: ?status=in_progress|completed|cancelled&page=&limit=
+ */
+export const getOffboardings = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { page = 1, limit = 10, status } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string) || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const where = {
+      organizationId,
+      ...(status && { status: status as string }),
+      employee: await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'employees'),
+    };
+
+    const [offboardings, total] = await Promise.all([
+      prisma.employeeOffboarding.findMany({
+        where,
+        include: {
+          employee: {
+            select: {
+              ...employeeSelect.select,
+              department: { select: { id: true, name: true } },
+              designation: { select: { id: true, name: true } },
+            },
+          },
+          successor: employeeSelect,
+          items: { select: { isCompleted: true } },
+        },
+        orderBy: [{ lastWorkingDay: 'asc' }, { id: 'asc' }],
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.employeeOffboarding.count({ where }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        offboardings: offboardings.map(({ items, ...offboarding }) => ({
+          ...offboarding,
+          checklist: { total: items.length, completed: items.filter((item) => item.isCompleted).length },
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Offboardings retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get offboardings error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the organization's exit checklist template
+ * GET /api/:orgSlug/employees/offboarding/checklist-template
+ */
+export const getChecklistTemplate = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const template = await getOffboardingChecklistTemplate(prisma, organizationId);
+
+    return sendSuccess(
+      res,
+      { ...template, categories: OFFBOARDING.CATEGORIES },
+      'Offboarding checklist retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get offboarding checklist template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Replace the organization's exit checklist template
+ * PUT /api/:orgSlug/employees/offboarding/checklist-template
+ * Body: { items: [{ title, category, description? }] } (in order). Offboardings already started keep their items
+ */
+export const updateChecklistTemplate = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { items } = req.body;
+
+    const validationError = validateChecklistItems(items);
+    if (validationError) {
+      return sendError(res, validationError, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const previous = await getOffboardingChecklistTemplate(prisma, organizationId);
+
+    await prisma.$transaction([
+      prisma.offboardingTaskTemplate.deleteMany({ where: { organizationId } }),
+      prisma.offboardingTaskTemplate.createMany({
+        data: items.map((item: any, index: number) => ({
+          organizationId,
+          title: item.title.trim(),
+          category: item.category,
+          description: item.description?.trim() || null,
+          sortOrder: index,
+          createdBy: userId,
+          updatedBy: userId,
+        })),
+      }),
+    ]);
+
+    const template = await getOffboardingChecklistTemplate(prisma, organizationId);
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OffboardingChecklist',
+      entityId: organizationId,
+      oldValues: previous,
+      newValues: template,
+    });
+
+    return sendSuccess(
+      res,
+      { ...template, categories: OFFBOARDING.CATEGORIES },
+      'Offboarding checklist updated successfully'
+    );
+  } catch (error) {
+    console.error('Update offboarding checklist template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the offboarding of an employee (the latest one), with the roles that will be handed over
+ * GET /api/:orgSlug/employees/:id/offboarding
+ */
+export const getEmployeeOffboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const employeeId = parseInt(req.params.id);
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({
+          where: { id: employeeId, organizationId },
+          select: {
+            id: true,
+            status: true,
+            managedDepartments: { select: { id: true, name: true } },
+            managedBranches: { select: { id: true, name: true } },
+          },
+        });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const [offboarding, organization] = await Promise.all([
+      prisma.employeeOffboarding.findFirst({
+        where: { organizationId, employeeId },
+        include: offboardingInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { defaultNoticePeriodDays: true },
+      }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        offboarding,
+        responsibilities: {
+          departments: employee.managedDepartments,
+          branches: employee.managedBranches,
+        },
+        defaultNoticePeriodDays: organization?.defaultNoticePeriodDays ?? 0,
+      },
+      'Employee offboarding retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee offboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Start the offboarding of an employee
+ * POST /api/:orgSlug/employees/:id/offboarding
+ * Body: exitType (resignation|termination), reason, noticeDate?, noticePeriodDays?, lastWorkingDay?, successorEmployeeId?
+ * The notice date defaults to today, the notice period to the organization's default, and the last working day
+ * to the end of the notice period. The exit is scheduled as a resignation/termination event on the last working day.
+ */
+export const startOffboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+    const { exitType, reason } = req.body;
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({ where: { id: employeeId, organizationId } });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (employee.status === EMPLOYEE_STATUS.RESIGNED || employee.status === EMPLOYEE_STATUS.TERMINATED) {
+      return sendError(res, `Employee has already left (${employee.status})`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (!EXIT_TYPES.includes(exitType)) {
+      return sendError(res, `Exit type must be one of: ${EXIT_TYPES.join(', ')}`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (typeof reason !== 'string' || !reason.trim()) {
+      return sendError(res, 'Reason is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const [existing, scheduledExit, organization] = await Promise.all([
+      prisma.employeeOffboarding.findFirst({
+        where: { employeeId, status: OFFBOARDING.STATUS.IN_PROGRESS },
+        select: { id: true },
+      }),
+      prisma.employeeEvent.findFirst({
+        where: { employeeId, status: EMPLOYEE_EVENT_STATUS.SCHEDULED, eventType: { in: EXIT_TYPES } },
+        select: { id: true },
+      }),
+      prisma.organization.findUnique({
+        where: { id: organizationId },
+        select: { defaultNoticePeriodDays: true },
+      }),
+    ]);
+
+    if (existing) {
+      return sendError(res, 'Employee is already being offboarded', STATUS_CODES.CONFLICT);
+    }
+
+    if (scheduledExit) {
+      return sendError(
+        res,
+        'Employee already has a scheduled resignation or termination. Cancel it on the career timeline first',
+        STATUS_CODES.CONFLICT
+      );
+    }
+
+    const today = await getEventToday(organizationId);
+    const dates = parseOffboardingDates(req.body, {
+      noticeDate: today,
+      noticePeriodDays: organization?.defaultNoticePeriodDays ?? 0,
+      dateOfJoining: employee.dateOfJoining,
+    });
+    if (typeof dates === 'string') {
+      return sendError(res, dates, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const successorEmployeeId = await parseSuccessor(organizationId, employeeId, req.body.successorEmployeeId);
+    if (typeof successorEmployeeId === 'string') {
+      return sendError(res, successorEmployeeId, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const { items } = await getOffboardingChecklistTemplate(prisma, organizationId);
+
+    const { offboarding, applied } = await prisma.$transaction(async (tx) => {
+      const event = await tx.employeeEvent.create({
+        data: {
+          organizationId,
+          employeeId,
+          eventType: exitType,
+          effectiveDate: dates.lastWorkingDay,
+          reason: reason.trim(),
+          employeeStatus:
+            exitType === EMPLOYEE_EVENT_TYPES.RESIGNATION ? EMPLOYEE_STATUS.RESIGNED : EMPLOYEE_STATUS.TERMINATED,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+      });
+
+      // Created before the event is applied, so the exit finds the successor
+      const created = await tx.employeeOffboarding.create({
+        data: {
+          organizationId,
+          employeeId,
+          exitType,
+          ...dates,
+          reason: reason.trim(),
+          successorEmployeeId,
+          eventId: event.id,
+          createdBy: userId,
+          updatedBy: userId,
+          items: {
+            create: items.map((item, index) => ({
+              title: item.title,
+              category: item.category,
+              description: item.description || null,
+              sortOrder: index,
+            })),
+          },
+        },
+      });
+
+      const result = dates.lastWorkingDay <= today ? await applyEmployeeEvent(tx, event.id, userId) : null;
+      return { offboarding: created, applied: result };
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmployeeOffboarding',
+      entityId: offboarding.id,
+      newValues: offboarding,
+    });
+    await logAppliedExit(req, applied);
+
+    const result = await prisma.employeeOffboarding.findUnique({
+      where: { id: offboarding.id },
+      include: offboardingInclude,
+    });
+
+    return sendSuccess(
+      res,
+      { offboarding: result },
+      applied ? 'Offboarding started and exit applied' : 'Offboarding started successfully',
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    console.error('Start offboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Update the notice period, last working day, reason or successor of an offboarding
+ * PUT /api/:orgSlug/employees/:id/offboarding
+ * Only until the exit is applied. A changed notice date or period moves the last working day unless one is given.
+ */
+export const updateOffboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+    const { reason } = req.body;
+
+    const offboarding = await findActiveOffboarding(organizationId, employeeId);
+    if (!offboarding) {
+      return sendError(res, 'No offboarding in progress for this employee', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (offboarding.exitedAt) {
+      return sendError(res, 'The exit has already been applied', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (reason !== undefined && (typeof reason !== 'string' || !reason.trim())) {
+      return sendError(res, 'Reason cannot be empty', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const datesChanged = ['noticeDate', 'noticePeriodDays', 'lastWorkingDay'].some((field) => req.body[field] !== undefined);
+    const dates = datesChanged
+      ? parseOffboardingDates(req.body, {
+          noticeDate: offboarding.noticeDate,
+          noticePeriodDays: offboarding.noticePeriodDays,
+          dateOfJoining: offboarding.employee.dateOfJoining,
+        })
+      : null;
+    if (typeof dates === 'string') {
+      return sendError(res, dates, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const successorEmployeeId =
+      req.body.successorEmployeeId !== undefined
+        ? await parseSuccessor(organizationId, employeeId, req.body.successorEmployeeId)
+        : undefined;
+    if (typeof successorEmployeeId === 'string') {
+      return sendError(res, successorEmployeeId, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const today = await getEventToday(organizationId);
+
+    const { updated, applied } = await prisma.$transaction(async (tx) => {
+      const result = await tx.employeeOffboarding.update({
+        where: { id: offboarding.id },
+        data: {
+          ...dates,
+          ...(reason !== undefined && { reason: reason.trim() }),
+          ...(successorEmployeeId !== undefined && { successorEmployeeId }),
+          updatedBy: userId,
+        },
+      });
+
+      if (!offboarding.eventId) {
+        return { updated: result, applied: null };
+      }
+
+      await tx.employeeEvent.update({
+        where: { id: offboarding.eventId },
+        data: {
+          effectiveDate: result.lastWorkingDay,
+          ...(reason !== undefined && { reason: reason.trim() }),
+          updatedBy: userId,
+        },
+      });
+
+      const exit = result.lastWorkingDay <= today ? await applyEmployeeEvent(tx, offboarding.eventId, userId) : null;
+      return { updated: result, applied: exit };
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeOffboarding',
+      entityId: offboarding.id,
+      oldValues: offboarding,
+      newValues: updated,
+    });
+    await logAppliedExit(req, applied);
+
+    const result = await prisma.employeeOffboarding.findUnique({
+      where: { id: offboarding.id },
+      include: offboardingInclude,
+    });
+
+    return sendSuccess(
+      res,
+      { offboarding: result },
+      applied ? 'Offboarding updated and exit applied' : 'Offboarding updated successfully'
+    );
+  } catch (error) {
+    console.error('Update offboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Cancel an offboarding (e.g. a withdrawn resignation) together with its scheduled exit
+ * PATCH /api/:orgSlug/employees/:id/offboarding/cancel
+ */
+export const cancelOffboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+
+    const offboarding = await findActiveOffboarding(organizationId, employeeId);
+    if (!offboarding) {
+      return sendError(res, 'No offboarding in progress for this employee', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (offboarding.exitedAt) {
+      return sendError(
+        res,
+        'The exit has already been applied. Reactivate the employee and their user account instead',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const now = new Date();
+    const cancelled = await prisma.$transaction(async (tx) => {
+      if (offboarding.eventId) {
+        await tx.employeeEvent.updateMany({
+          where: { id: offboarding.eventId, status: EMPLOYEE_EVENT_STATUS.SCHEDULED },
+          data: { status: EMPLOYEE_EVENT_STATUS.CANCELLED, cancelledAt: now, updatedBy: userId },
+        });
+      }
+
+      return tx.employeeOffboarding.update({
+        where: { id: offboarding.id },
+        data: { status: OFFBOARDING.STATUS.CANCELLED, cancelledAt: now, updatedBy: userId },
+        include: offboardingInclude,
+      });
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeOffboarding',
+      entityId: offboarding.id,
+      oldValues: offboarding,
+      newValues: cancelled,
+    });
+
+    return sendSuccess(res, { offboarding: cancelled }, 'Offboarding cancelled successfully');
+  } catch (error) {
+    console.error('Cancel offboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Complete or reopen an exit checklist item
+ * PATCH /api/:orgSlug/employees/:id/offboarding/items/:itemId
+ * Body: { isCompleted?: boolean, notes?: string }
+ * The offboarding is completed once the exit is applied and every item is done
+ */
+export const updateOffboardingItem = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+    const itemId = parseInt(req.params.itemId);
+    const { isCompleted, notes } = req.body;
+
+    const item = isNaN(employeeId) || isNaN(itemId)
+      ? null
+      : await prisma.offboardingChecklistItem.findFirst({
+          where: { id: itemId, offboarding: { organizationId, employeeId } },
+          include: { offboarding: { select: { id: true, status: true } } },
+        });
+
+    if (!item) {
+      return sendError(res, 'Checklist item not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (item.offboarding.status === OFFBOARDING.STATUS.CANCELLED) {
+      return sendError(res, 'The offboarding has been cancelled', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (isCompleted !== undefined && typeof isCompleted !== 'boolean') {
+      return sendError(res, 'isCompleted must be true or false', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.offboardingChecklistItem.update({
+        where: { id: item.id },
+        data: {
+          ...(isCompleted !== undefined && {
+            isCompleted,
+            completedAt: isCompleted ? item.completedAt ?? new Date() : null,
+            completedBy: isCompleted ? item.completedBy ?? userId : null,
+          }),
+          ...(notes !== undefined && { notes: notes ? String(notes).trim() : null }),
+        },
+      });
+
+      await refreshOffboardingStatus(tx, item.offboardingId);
+      return result;
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OffboardingChecklistItem',
+      entityId: item.id,
+      oldValues: item,
+      newValues: updated,
+    });
+
+    const offboarding = await prisma.employeeOffboarding.findUnique({
+      where: { id: item.offboardingId },
+      include: offboardingInclude,
+    });
+
+    return sendSuccess(res, { item: updated, offboarding }, 'Checklist item updated successfully');
+  } catch (error) {
+    console.error('Update offboarding item error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to find the offboarding in progress of an employee of the organization
+ */
+async function findActiveOffboarding(organizationId: number, employeeId: number) {
+  if (isNaN(employeeId)) return null;
+
+  return prisma.employeeOffboarding.findFirst({
+    where: { organizationId, employeeId, status: OFFBOARDING.STATUS.IN_PROGRESS },
+    include: { employee: { select: { dateOfJoining: true } } },
+  });
+}
+
+/**
+ * Helper function to read the notice date, notice period and last working day from the request body
+ * Returns an error message when they are invalid
+ */
+function parseOffboardingDates(
+  body: any,
+  defaults: { noticeDate: Date; noticePeriodDays: number; dateOfJoining: Date | null }
+): { noticeDate: Date; noticePeriodDays: number; lastWorkingDay: Date } | string {
+  const noticeDate = body.noticeDate !== undefined ? toDateOnly(body.noticeDate) : defaults.noticeDate;
+  if (!noticeDate) {
+    return 'Notice date must be a valid date';
+  }
+
+  const noticePeriodDays =
+    body.noticePeriodDays !== undefined && body.noticePeriodDays !== null && body.noticePeriodDays !== ''
+      ? Number(body.noticePeriodDays)
+      : defaults.noticePeriodDays;
+  if (!Number.isInteger(noticePeriodDays) || noticePeriodDays < 0 || noticePeriodDays > OFFBOARDING.MAX_NOTICE_PERIOD_DAYS) {
+    return `Notice period must be between 0 and ${OFFBOARDING.MAX_NOTICE_PERIOD_DAYS} days`;
+  }
+
+  const lastWorkingDay = body.lastWorkingDay
+    ? toDateOnly(body.lastWorkingDay)
+    : new Date(noticeDate.getTime() + noticePeriodDays * DAY_MS);
+  if (!lastWorkingDay) {
+    return 'Last working day must be a valid date';
+  }
+
+  if (lastWorkingDay < noticeDate) {
+    return 'Last working day cannot be before the notice date';
+  }
+
+  if (defaults.dateOfJoining && lastWorkingDay < toDateOnly(defaults.dateOfJoining)!) {
+    return 'Last working day cannot be before the date of joining';
+  }
+
+  return { noticeDate, noticePeriodDays, lastWorkingDay };
+}
+
+/**
+ * Helper function to check the successor taking over the employee's headships and branches
+ * Returns the employee ID (null when cleared), or an error message
+ */
+async function parseSuccessor(organizationId: number, employeeId: number, value: unknown): Promise<number | null | string> {
+  if (value === undefined || value === null || value === '') return null;
+
+  const successorId = parseInt(String(value));
+  if (isNaN(successorId) || successorId === employeeId) {
+    return 'Successor must be another employee';
+  }
+
+  const successor = await prisma.employee.findFirst({
+    where: { id: successorId, organizationId, isActive: true },
+    select: { id: true },
+  });
+
+  return successor ? successor.id : 'Successor not found or not active';
+}
+
+/**
+ * Helper function to audit an exit applied right away (the employee's own changes)
+ */
+async function logAppliedExit(req: Request, applied: AppliedEmployeeEvent | null): Promise<void> {
+  if (!applied) return;
+
+  await logAudit(req, {
+    action: AUDIT_ACTIONS.UPDATE,
+    entityType: 'Employee',
+    entityId: applied.event.employeeId,
+    oldValues: applied.before,
+    newValues: applied.after,
+  });
+}
@@ -0,0 +1,924 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { logAudit } from '../utils/audit';
+import { toDateOnly } from '../utils/attendance';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS, PAGINATION, ONBOARDING } from '../config/constants';
+import { getEventToday } from '../utils/employee-events';
+import { getEmployeeScopeWhere, isEmployeeInScope } from '../utils/data-scope';
+import {
+  createOnboarding,
+  findOnboardingTemplate,
+  refreshOnboardingStatus,
+  rescheduleOnboarding,
+  validateOnboardingTasks,
+  OnboardingTemplateTaskInput,
+} from '../utils/employee-onboarding';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const employeeSelect = { select: { id: true, employeeCode: true, firstName: true, lastName: true } };
+const candidateSelect = { select: { id: true, firstName: true, lastName: true, email: true } };
+
+const onboardingInclude = {
+  employee: employeeSelect,
+  candidate: candidateSelect,
+  tasks: { orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }] },
+};
+
+const templateInclude = {
+  department: { select: { id: true, name: true } },
+  employmentType: { select: { id: true, name: true } },
+  tasks: { orderBy: [{ sortOrder: 'asc' as const }, { id: 'asc' as const }] },
+};
+
+/**
+ * Get onboarding templates
+ * GET /api/:orgSlug/employees/onboarding/templates
+ */
+export const getOnboardingTemplates = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const templates = await prisma.onboardingTemplate.findMany({
+      where: { organizationId },
+      include: {
+        department: { select: { id: true, name: true } },
+        employmentType: { select: { id: true, name: true } },
+        _count: { select: { tasks: true, onboardings: true } },
+      },
+      orderBy: [{ isActive: 'desc' }, { name: 'asc' }],
+    });
+
+    return sendSuccess(
+      res,
+      { templates, assigneeRoles: ONBOARDING.ASSIGNEES },
+      'Onboarding templates retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get onboarding templates error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get an onboarding template with its tasks
+ * GET /api/:orgSlug/employees/onboarding/templates/:templateId
+ */
+export const getOnboardingTemplateById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const templateId = parseInt(req.params.templateId);
+
+    const template = isNaN(templateId)
+      ? null
+      : await prisma.onboardingTemplate.findFirst({
+          where: { id: templateId, organizationId },
+          include: templateInclude,
+        });
+
+    if (!template) {
+      return sendError(res, 'Onboarding template not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    return sendSuccess(res, { template }, 'Onboarding template retrieved successfully');
+  } catch (error) {
+    console.error('Get onboarding template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Create an onboarding template
+ * POST /api/:orgSlug/employees/onboarding/templates
+ * Body: name, description?, departmentId?, employmentTypeId?, isActive?,
+ *       tasks: [{ title, description?, assigneeRole (hr|manager|it|employee), dueDayOffset }] (in order)
+ */
+export const createOnboardingTemplate = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+
+    const parsed = await parseTemplateBody(organizationId, req.body);
+    if (typeof parsed === 'string') {
+      return sendError(res, parsed, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const conflict = await findConflictingTemplate(organizationId, parsed);
+    if (conflict) {
+      return sendError(res, conflict, STATUS_CODES.CONFLICT);
+    }
+
+    const { tasks, ...data } = parsed;
+    const template = await prisma.onboardingTemplate.create({
+      data: {
+        ...data,
+        organizationId,
+        createdBy: userId,
+        updatedBy: userId,
+        tasks: { create: tasks.map((task, index) => ({ ...task, sortOrder: index })) },
+      },
+      include: templateInclude,
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'OnboardingTemplate',
+      entityId: template.id,
+      newValues: template,
+    });
+
+    return sendSuccess(res, { template }, 'Onboarding template created successfully', STATUS_CODES.CREATED);
+  } catch (error) {
+    console.error('Create onboarding template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Update an onboarding template (the task list is replaced)
+ * PUT /api/:orgSlug/employees/onboarding/templates/:templateId
+ * Onboardings already started keep their tasks
+ */
+export const updateOnboardingTemplate = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const templateId = parseInt(req.params.templateId);
+
+    const existing = isNaN(templateId)
+      ? null
+      : await prisma.onboardingTemplate.findFirst({
+          where: { id: templateId, organizationId },
+          include: templateInclude,
+        });
+
+    if (!existing) {
+      return sendError(res, 'Onboarding template not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const parsed = await parseTemplateBody(organizationId, req.body);
+    if (typeof parsed === 'string') {
+      return sendError(res, parsed, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const conflict = await findConflictingTemplate(organizationId, parsed, existing.id);
+    if (conflict) {
+      return sendError(res, conflict, STATUS_CODES.CONFLICT);
+    }
+
+    const { tasks, ...data } = parsed;
+    const template = await prisma.$transaction(async (tx) => {
+      await tx.onboardingTemplateTask.deleteMany({ where: { templateId: existing.id } });
+
+      return tx.onboardingTemplate.update({
+        where: { id: existing.id },
+        data: {
+          ...data,
+          updatedBy: userId,
+          tasks: { create: tasks.map((task, index) => ({ ...task, sortOrder: index })) },
+        },
+        include: templateInclude,
+      });
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OnboardingTemplate',
+      entityId: template.id,
+      oldValues: existing,
+      newValues: template,
+    });
+
+    return sendSuccess(res, { template }, 'Onboarding template updated successfully');
+  } catch (error) {
+    console.error('Update onboarding template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Delete an onboarding template
+ * DELETE /api/:orgSlug/employees/onboarding/templates/:templateId
+ * Onboardings started from it keep their tasks and the template name
+ */
+export const deleteOnboardingTemplate = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const templateId = parseInt(req.params.templateId);
+
+    const template = isNaN(templateId)
+      ? null
+      : await prisma.onboardingTemplate.findFirst({
+          where: { id: templateId, organizationId },
+          include: templateInclude,
+        });
+
+    if (!template) {
+      return sendError(res, 'Onboarding template not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    await prisma.onboardingTemplate.delete({ where: { id: template.id } });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'OnboardingTemplate',
+      entityId: template.id,
+      oldValues: template,
+    });
+
+    return sendSuccess(res, null, 'Onboarding template deleted successfully');
+  } catch (error) {
+    console.error('Delete onboarding template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get onboardings (with task progress)
+ * GET /api/:orgSlug/employees/onboarding
+ * Query: ?status=in_progress|completed|cancelled&page=&limit=
+ */
+export const getOnboardings = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { page = 1, limit = 10, status } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string) || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const where = {
+      organizationId,
+      ...(status && { status: status as string }),
+      AND: [await getOnboardingScopeWhere(req)],
+    };
+
+    const [onboardings, total] = await Promise.all([
+      prisma.employeeOnboarding.findMany({
+        where,
+        include: {
+          employee: {
+            select: { ...employeeSelect.select, department: { select: { id: true, name: true } } },
+          },
+          candidate: candidateSelect,
+          tasks: { select: { isCompleted: true } },
+        },
+        orderBy: [{ joiningDate: 'asc' }, { id: 'asc' }],
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.employeeOnboarding.count({ where }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        onboardings: onboardings.map(({ tasks, ...onboarding }) => ({
+          ...onboarding,
+          progress: { total: tasks.length, completed: tasks.filter((task) => task.isCompleted).length },
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Onboardings retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get onboardings error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Onboarding dashboard: overdue tasks of onboardings in progress
+ * GET /api/:orgSlug/employees/onboarding/overdue
+ * Query: ?assigneeRole=hr|manager|it|employee&departmentId=&page=&limit=
+ */
+export const getOverdueOnboardingTasks = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { page = 1, limit = 20, assigneeRole, departmentId } = req.query;
+
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const limitNum = Math.min(parseInt(limit as string) || PAGINATION.DEFAULT_LIMIT, PAGINATION.MAX_LIMIT);
+    const today = await getEventToday(organizationId);
+    const scopeWhere = await getOnboardingScopeWhere(req);
+
+    const openTasks = {
+      isCompleted: false,
+      onboarding: {
+        organizationId,
+        status: ONBOARDING.STATUS.IN_PROGRESS,
+        ...(departmentId && { employee: { departmentId: parseInt(departmentId as string) } }),
+        AND: [scopeWhere],
+      },
+      ...(assigneeRole && { assigneeRole: assigneeRole as string }),
+    };
+    const overdueWhere = { ...openTasks, dueDate: { lt: today } };
+
+    const [tasks, total, dueThisWeek, byAssignee, inProgress] = await Promise.all([
+      prisma.employeeOnboardingTask.findMany({
+        where: overdueWhere,
+        include: {
+          onboarding: {
+            select: {
+              id: true,
+              joiningDate: true,
+              templateName: true,
+              employee: {
+                select: { ...employeeSelect.select, department: { select: { id: true, name: true } } },
+              },
+              candidate: candidateSelect,
+            },
+          },
+        },
+        orderBy: [{ dueDate: 'asc' }, { id: 'asc' }],
+        skip: (pageNum - 1) * limitNum,
+        take: limitNum,
+      }),
+      prisma.employeeOnboardingTask.count({ where: overdueWhere }),
+      prisma.employeeOnboardingTask.count({
+        where: { ...openTasks, dueDate: { gte: today, lt: new Date(today.getTime() + 7 * DAY_MS) } },
+      }),
+      prisma.employeeOnboardingTask.groupBy({
+        by: ['assigneeRole'],
+        where: overdueWhere,
+        _count: { _all: true },
+      }),
+      prisma.employeeOnboarding.count({
+        where: { organizationId, status: ONBOARDING.STATUS.IN_PROGRESS, AND: [scopeWhere] },
+      }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        summary: {
+          inProgress,
+          overdueTasks: total,
+          dueThisWeek,
+          overdueByAssignee: Object.fromEntries(
+            ONBOARDING.ASSIGNEES.map((role) => [
+              role,
+              byAssignee.find((group) => group.assigneeRole === role)?._count._all ?? 0,
+            ])
+          ),
+        },
+        tasks: tasks.map((task) => ({
+          ...task,
+          daysOverdue: Math.round((today.getTime() - task.dueDate.getTime()) / DAY_MS),
+        })),
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Overdue onboarding tasks retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get overdue onboarding tasks error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the onboarding of an employee (the latest one), with the template a new onboarding would use
+ * GET /api/:orgSlug/employees/:id/onboarding
+ */
+export const getEmployeeOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const employeeId = parseInt(req.params.id);
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({ where: { id: employeeId, organizationId } });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const [onboarding, suggestedTemplate] = await Promise.all([
+      prisma.employeeOnboarding.findFirst({
+        where: { organizationId, employeeId },
+        include: onboardingInclude,
+        orderBy: { createdAt: 'desc' },
+      }),
+      findOnboardingTemplate(prisma, organizationId, employee),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        onboarding,
+        suggestedTemplate: suggestedTemplate && { id: suggestedTemplate.id, name: suggestedTemplate.name },
+      },
+      'Employee onboarding retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Start the onboarding of an employee
+ * POST /api/:orgSlug/employees/:id/onboarding
+ * Body: templateId? (defaults to the template matching the employee's department and employment type),
+ *       joiningDate? (defaults to the date of joining)
+ */
+export const startEmployeeOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const employeeId = parseInt(req.params.id);
+
+    const employee = isNaN(employeeId)
+      ? null
+      : await prisma.employee.findFirst({ where: { id: employeeId, organizationId } });
+
+    if (!employee) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const existing = await prisma.employeeOnboarding.findFirst({
+      where: { employeeId, status: ONBOARDING.STATUS.IN_PROGRESS },
+      select: { id: true },
+    });
+    if (existing) {
+      return sendError(res, 'Employee already has an onboarding in progress', STATUS_CODES.CONFLICT);
+    }
+
+    const joiningDate = req.body.joiningDate
+      ? toDateOnly(req.body.joiningDate)
+      : toDateOnly(employee.dateOfJoining) ?? (await getEventToday(organizationId));
+    if (!joiningDate) {
+      return sendError(res, 'Joining date must be a valid date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const template = await resolveTemplate(organizationId, req.body.templateId, employee);
+    if (typeof template === 'string') {
+      return sendError(res, template, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const created = await createOnboarding(prisma, {
+      organizationId,
+      templateId: template.id,
+      joiningDate,
+      employeeId,
+      userId,
+    });
+
+    const onboarding = await prisma.employeeOnboarding.findUnique({
+      where: { id: created.id },
+      include: onboardingInclude,
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmployeeOnboarding',
+      entityId: created.id,
+      newValues: onboarding,
+    });
+
+    return sendSuccess(res, { onboarding }, 'Onboarding started successfully', STATUS_CODES.CREATED);
+  } catch (error) {
+    console.error('Start employee onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the onboarding of a candidate (the latest one, also after it moved to the employee)
+ * GET /api/:orgSlug/recruitment/candidates/:id/onboarding
+ */
+export const getCandidateOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const candidateId = parseInt(req.params.id);
+
+    const candidate = isNaN(candidateId)
+      ? null
+      : await prisma.candidate.findFirst({ where: { id: candidateId, organizationId }, select: { id: true } });
+
+    if (!candidate) {
+      return sendError(res, 'Candidate not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    const onboarding = await prisma.employeeOnboarding.findFirst({
+      where: { organizationId, candidateId },
+      include: onboardingInclude,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return sendSuccess(res, { onboarding }, 'Candidate onboarding retrieved successfully');
+  } catch (error) {
+    console.error('Get candidate onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Start the onboarding of a selected candidate, before they join
+ * POST /api/:orgSlug/recruitment/candidates/:id/onboarding
+ * Body: joiningDate, templateId? or departmentId?/employmentTypeId? (to pick the matching template)
+ * The onboarding moves to the employee created with this candidateId
+ */
+export const startCandidateOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const candidateId = parseInt(req.params.id);
+    const { departmentId, employmentTypeId } = req.body;
+
+    const candidate = isNaN(candidateId)
+      ? null
+      : await prisma.candidate.findFirst({ where: { id: candidateId, organizationId } });
+
+    if (!candidate) {
+      return sendError(res, 'Candidate not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (candidate.status !== 'Selected') {
+      return sendError(res, 'Only selected candidates can be onboarded', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const existing = await prisma.employeeOnboarding.findFirst({
+      where: { candidateId, status: ONBOARDING.STATUS.IN_PROGRESS },
+      select: { id: true },
+    });
+    if (existing) {
+      return sendError(res, 'Candidate already has an onboarding in progress', STATUS_CODES.CONFLICT);
+    }
+
+    const joiningDate = toDateOnly(req.body.joiningDate);
+    if (!joiningDate) {
+      return sendError(res, 'Joining date is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const template = await resolveTemplate(organizationId, req.body.templateId, {
+      departmentId: departmentId ? parseInt(departmentId) : null,
+      employmentTypeId: employmentTypeId ? parseInt(employmentTypeId) : null,
+    });
+    if (typeof template === 'string') {
+      return sendError(res, template, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const created = await createOnboarding(prisma, {
+      organizationId,
+      templateId: template.id,
+      joiningDate,
+      candidateId,
+      userId,
+    });
+
+    const onboarding = await prisma.employeeOnboarding.findUnique({
+      where: { id: created.id },
+      include: onboardingInclude,
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmployeeOnboarding',
+      entityId: created.id,
+      newValues: onboarding,
+    });
+
+    return sendSuccess(res, { onboarding }, 'Onboarding started successfully', STATUS_CODES.CREATED);
+  } catch (error) {
+    console.error('Start candidate onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Move an onboarding to another joining date (open tasks move with it), or link a candidate's onboarding
+ * to the employee created from them
+ * PUT /api/:orgSlug/employees/onboarding/:onboardingId
+ * Body: { joiningDate?, employeeId? } (linking moves it to the employee's date of joining unless one is given)
+ */
+export const updateOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+
+    const onboarding = await findOnboarding(req, req.params.onboardingId);
+    if (!onboarding) {
+      return sendError(res, 'Onboarding not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (onboarding.status !== ONBOARDING.STATUS.IN_PROGRESS) {
+      return sendError(res, `The onboarding is ${onboarding.status}`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    let employee: { id: number; dateOfJoining: Date | null } | null = null;
+    if (req.body.employeeId !== undefined) {
+      if (onboarding.employeeId) {
+        return sendError(res, 'The onboarding already belongs to an employee', STATUS_CODES.BAD_REQUEST);
+      }
+
+      const employeeId = parseInt(req.body.employeeId);
+      employee = isNaN(employeeId)
+        ? null
+        : await prisma.employee.findFirst({
+            where: { id: employeeId, organizationId },
+            select: { id: true, dateOfJoining: true },
+          });
+      // The employee the onboarding moves to must be in the user's data scope as well
+      if (employee && !(await isEmployeeInScope(prisma, (req as any).user, organizationId, 'employees', employee.id))) {
+        employee = null;
+      }
+      if (!employee) {
+        return sendError(res, 'Employee not found', STATUS_CODES.BAD_REQUEST);
+      }
+
+      const existing = await prisma.employeeOnboarding.findFirst({
+        where: { employeeId: employee.id, status: ONBOARDING.STATUS.IN_PROGRESS },
+        select: { id: true },
+      });
+      if (existing) {
+        return sendError(res, 'Employee already has an onboarding in progress', STATUS_CODES.CONFLICT);
+      }
+    }
+
+    const joiningDate = req.body.joiningDate
+      ? toDateOnly(req.body.joiningDate)
+      : toDateOnly(employee?.dateOfJoining) ?? (employee ? onboarding.joiningDate : null);
+    if (!joiningDate) {
+      return sendError(res, 'Joining date must be a valid date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      if (employee) {
+        await tx.employeeOnboarding.update({
+          where: { id: onboarding.id },
+          data: { employeeId: employee.id, updatedBy: userId },
+        });
+      }
+      await rescheduleOnboarding(tx, onboarding.id, joiningDate, userId);
+      return tx.employeeOnboarding.findUniqueOrThrow({ where: { id: onboarding.id }, include: onboardingInclude });
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeOnboarding',
+      entityId: onboarding.id,
+      oldValues: onboarding,
+      newValues: updated,
+    });
+
+    return sendSuccess(res, { onboarding: updated }, 'Onboarding updated successfully');
+  } catch (error) {
+    console.error('Update onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Cancel an onboarding (e.g. a candidate who did not join)
+ * PATCH /api/:orgSlug/employees/onboarding/:onboardingId/cancel
+ */
+export const cancelOnboarding = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const userId = (req as any).user?.userId;
+
+    const onboarding = await findOnboarding(req, req.params.onboardingId);
+    if (!onboarding) {
+      return sendError(res, 'Onboarding not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (onboarding.status !== ONBOARDING.STATUS.IN_PROGRESS) {
+      return sendError(res, `The onboarding is already ${onboarding.status}`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const cancelled = await prisma.employeeOnboarding.update({
+      where: { id: onboarding.id },
+      data: { status: ONBOARDING.STATUS.CANCELLED, cancelledAt: new Date(), updatedBy: userId },
+      include: onboardingInclude,
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeOnboarding',
+      entityId: onboarding.id,
+      oldValues: onboarding,
+      newValues: cancelled,
+    });
+
+    return sendSuccess(res, { onboarding: cancelled }, 'Onboarding cancelled successfully');
+  } catch (error) {
+    console.error('Cancel onboarding error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Complete or reopen an onboarding task
+ * PATCH /api/:orgSlug/employees/onboarding/:onboardingId/tasks/:taskId
+ * Body: { isCompleted?: boolean, notes?: string }
+ * The onboarding is completed once every task is done
+ */
+export const updateOnboardingTask = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const onboardingId = parseInt(req.params.onboardingId);
+    const taskId = parseInt(req.params.taskId);
+    const { isCompleted, notes } = req.body;
+
+    const task = isNaN(onboardingId) || isNaN(taskId)
+      ? null
+      : await prisma.employeeOnboardingTask.findFirst({
+          where: {
+            id: taskId,
+            onboardingId,
+            onboarding: { organizationId, AND: [await getOnboardingScopeWhere(req)] },
+          },
+          include: { onboarding: { select: { id: true, status: true } } },
+        });
+
+    if (!task) {
+      return sendError(res, 'Onboarding task not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (task.onboarding.status === ONBOARDING.STATUS.CANCELLED) {
+      return sendError(res, 'The onboarding has been cancelled', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (isCompleted !== undefined && typeof isCompleted !== 'boolean') {
+      return sendError(res, 'isCompleted must be true or false', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const updated = await prisma.$transaction(async (tx) => {
+      const result = await tx.employeeOnboardingTask.update({
+        where: { id: task.id },
+        data: {
+          ...(isCompleted !== undefined && {
+            isCompleted,
+            completedAt: isCompleted ? task.completedAt ?? new Date() : null,
+            completedBy: isCompleted ? task.completedBy ?? userId : null,
+          }),
+          ...(notes !== undefined && { notes: notes ? String(notes).trim() : null }),
+        },
+      });
+
+      await refreshOnboardingStatus(tx, task.onboardingId);
+      return result;
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmployeeOnboardingTask',
+      entityId: task.id,
+      oldValues: task,
+      newValues: updated,
+    });
+
+    const onboarding = await prisma.employeeOnboarding.findUnique({
+      where: { id: task.onboardingId },
+      include: onboardingInclude,
+    });
+
+    return sendSuccess(res, { task: updated, onboarding }, 'Onboarding task updated successfully');
+  } catch (error) {
+    console.error('Update onboarding task error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to find an onboarding of the organization within the user's data scope
+ */
+async function findOnboarding(req: Request, id: string) {
+  const onboardingId = parseInt(id);
+  if (isNaN(onboardingId)) return null;
+
+  return prisma.employeeOnboarding.findFirst({
+    where: {
+      id: onboardingId,
+      organizationId: (req as any).organizationId,
+      AND: [await getOnboardingScopeWhere(req)],
+    },
+    include: onboardingInclude,
+  });
+}
+
+/**
+ * Helper function to limit onboardings to the employees in the user's data scope
+ * Candidate onboardings have no employee yet, so only an organization-wide scope reaches them
+ */
+async function getOnboardingScopeWhere(req: Request): Promise<Prisma.EmployeeOnboardingWhereInput> {
+  const scopeWhere = await getEmployeeScopeWhere(prisma, (req as any).user, (req as any).organizationId, 'employees');
+  return Object.keys(scopeWhere).length === 0 ? {} : { employee: scopeWhere };
+}
+
+/**
+ * Helper function to pick the template for a new onboarding: the one requested, else the matching one
+ * Returns an error message when there is none
+ */
+async function resolveTemplate(
+  organizationId: number,
+  templateId: unknown,
+  hire: { departmentId?: number | null; employmentTypeId?: number | null }
+): Promise<{ id: number } | string> {
+  if (templateId !== undefined && templateId !== null && templateId !== '') {
+    const template = await prisma.onboardingTemplate.findFirst({
+      where: { id: parseInt(String(templateId)), organizationId, isActive: true },
+      select: { id: true },
+    });
+    return template ?? 'Onboarding template not found or inactive';
+  }
+
+  const template = await findOnboardingTemplate(prisma, organizationId, hire);
+  return template ?? 'No active onboarding template matches. Create one or pick a template';
+}
+
+/**
+ * Helper function to read and validate a template from the request body
+ * Returns an error message when it is invalid
+ */
+async function parseTemplateBody(
+  organizationId: number,
+  body: any
+): Promise<
+  | {
+      name: string;
+      description: string | null;
+      departmentId: number | null;
+      employmentTypeId: number | null;
+      isActive: boolean;
+      tasks: OnboardingTemplateTaskInput[];
+    }
+  | string
+> {
+  const name = typeof body.name === 'string' ? body.name.trim() : '';
+  if (!name) {
+    return 'Template name is required';
+  }
+  if (name.length > 100) {
+    return 'Template name must be at most 100 characters';
+  }
+
+  const tasksError = validateOnboardingTasks(body.tasks);
+  if (tasksError) {
+    return tasksError;
+  }
+
+  const departmentId = body.departmentId ? parseInt(body.departmentId) : null;
+  if (departmentId) {
+    const department = await prisma.department.findFirst({ where: { id: departmentId, organizationId } });
+    if (!department) return 'Department not found';
+  }
+
+  const employmentTypeId = body.employmentTypeId ? parseInt(body.employmentTypeId) : null;
+  if (employmentTypeId) {
+    const employmentType = await prisma.employmentType.findFirst({ where: { id: employmentTypeId, organizationId } });
+    if (!employmentType) return 'Employment type not found';
+  }
+
+  return {
+    name,
+    description: typeof body.description === 'string' && body.description.trim() ? body.description.trim() : null,
+    departmentId,
+    employmentTypeId,
+    isActive: body.isActive !== undefined ? body.isActive === true || body.isActive === 'true' : true,
+    tasks: body.tasks.map((task: any) => ({
+      title: task.title.trim(),
+      description: typeof task.description === 'string' && task.description.trim() ? task.description.trim() : null,
+      assigneeRole: task.assigneeRole,
+      dueDayOffset: Number(task.dueDayOffset ?? 0),
+    })),
+  };
+}
+
+/**
+ * Helper function to keep one active template per department and employment type combination,
+ * so the template a new hire gets is never ambiguous
+ */
+async function findConflictingTemplate(
+  organizationId: number,
+  template: { isActive: boolean; departmentId: number | null; employmentTypeId: number | null },
+  excludeId?: number
+): Promise<string | null> {
+  if (!template.isActive) return null;
+
+  const conflict = await prisma.onboardingTemplate.findFirst({
+    where: {
+      organizationId,
+      isActive: true,
+      departmentId: template.departmentId,
+      employmentTypeId: template.employmentTypeId,
+      ...(excludeId && { id: { not: excludeId } }),
+    },
+    select: { name: true },
+  });
+
+  return conflict
+    ? `"${conflict.name}" is already the active template for this department and employment type`
+    : null;
+}
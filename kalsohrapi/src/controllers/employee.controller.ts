@@ -1,9 +1,33 @@
 import { Request, Response } from 'express';
+import { Employee } from '@prisma/client';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
-import { deleteOldProfilePicture, deleteOldDocument } from '../middleware/upload.middleware';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS, EMPLOYEE_IMPORT, EMPLOYEE_EXPORT, EMPLOYEE_STATUS } from '../config/constants';
+import { deleteOrganizationFile } from '../utils/storage-usage';
 import { canViewAuditInfo } from '../utils/permissions';
+import { recordEmployeeChanges, getEventToday } from '../utils/employee-events';
+import { processEmployeeExit } from '../utils/employee-offboarding';
+import { startNewHireOnboarding } from '../utils/employee-onboarding';
+import { findHiringApplication, recordHire } from '../utils/headcount';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+import { getHiddenFieldGroups, maskEmployeeFields, stripHiddenFields } from '../utils/field-permissions';
+import { parseImportFile, mapImportHeaders, importEmployees, buildImportTemplate, IMPORT_COLUMNS } from '../utils/employee-import';
+import {
+  EXPORT_COLUMNS,
+  DEFAULT_EXPORT_COLUMNS,
+  EMPLOYEE_EXPORT_INCLUDE,
+  ExportFormat,
+  resolveExportColumns,
+  renderEmployeeExport,
+} from '../utils/employee-export';
+import {
+  getEmployeeCodeSettings,
+  generateEmployeeCode,
+  previewEmployeeCode,
+  validateEmployeeCodePattern,
+  isEmployeeCodeError,
+} from '../utils/employee-code';
 
 /**
  * Get all employees for the organization
@@ -13,59 +37,18 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<Resp
   try {
     const organizationId = (req as any).organizationId;
     const user = (req as any).user;
-    const {
-      page = 1,
-      limit = 10,
-      search,
-      departmentId,
-      designationId,
-      branchId,
-      employmentTypeId,
-      status,
-      isActive,
-      dateOfJoiningFrom,
-      dateOfJoiningTo,
-      salaryMin,
-      salaryMax,
-    } = req.query;
-
-    // Build where clause
-    const where: any = {
-      organizationId,
-    };
-
-    // Search across multiple fields
-    if (search) {
-      where.OR = [
-        { firstName: { contains: search as string } },
-        { lastName: { contains: search as string } },
-        { email: { contains: search as string } },
-        { employeeCode: { contains: search as string } },
-      ];
-    }
-
-    // Apply filters
-    if (departmentId) where.departmentId = parseInt(departmentId as string);
-    if (designationId) where.designationId = parseInt(designationId as string);
-    if (branchId) where.branchId = parseInt(branchId as string);
-    if (employmentTypeId) where.employmentTypeId = parseInt(employmentTypeId as string);
-    if (status) where.status = status as string;
-    if (isActive !== undefined) where.isActive = isActive === 'true';
-
-    // Date range filter
-    if (dateOfJoiningFrom || dateOfJoiningTo) {
-      where.dateOfJoining = {};
-      if (dateOfJoiningFrom) where.dateOfJoining.gte = new Date(dateOfJoiningFrom as string);
-      if (dateOfJoiningTo) where.dateOfJoining.lte = new Date(dateOfJoiningTo as string);
-    }
-
-    // Salary range filter
-    if (salaryMin || salaryMax) {
-      where.salary = {};
-      if (salaryMin) where.salary.gte = parseFloat(salaryMin as string);
-      if (salaryMax) where.salary.lte = parseFloat(salaryMax as string);
+    const { page = 1, limit = 10 } = req.query;
+
+    // Fields of the field groups the user's role may not see are masked
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, user);
+    if ((req.query.salaryMin || req.query.salaryMax) && hiddenFieldGroups.includes('compensation')) {
+      return sendError(res, 'You do not have permission to filter employees by salary', STATUS_CODES.FORBIDDEN);
     }
 
+    // Build where clause (limited to the employees in the user's data scope)
+    const where = buildEmployeeWhere(organizationId, req.query);
+    where.AND = [await getEmployeeScopeWhere(prisma, user, organizationId, 'employees')];
+
     // Calculate pagination
     const pageNum = parseInt(page as string);
     const limitNum = Math.min(parseInt(limit as string), 100); // Max 100 per page
@@ -159,7 +142,7 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<Resp
         _count: {
           select: {
             siblings: true,
-            documents: true,
+            documents: { where: { isLatest: true } },
             attendance: true,
             leaveRequests: true,
           },
@@ -200,7 +183,7 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<Resp
       return sendSuccess(
         res,
         {
-          employees: employeesWithAudit,
+          employees: maskEmployeeFields(employeesWithAudit, hiddenFieldGroups),
           pagination: {
             page: pageNum,
             limit: limitNum,
@@ -216,7 +199,7 @@ export const getAllEmployees = async (req: Request, res: Response): Promise<Resp
     return sendSuccess(
       res,
       {
-        employees,
+        employees: maskEmployeeFields(employees, hiddenFieldGroups),
         pagination: {
           page: pageNum,
           limit: limitNum,
@@ -345,7 +328,7 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<Resp
         },
         _count: {
           select: {
-            documents: true,
+            documents: { where: { isLatest: true } },
             attendance: true,
             leaveBalances: true,
             leaveRequests: true,
@@ -358,6 +341,8 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<Resp
       return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
     }
 
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, user);
+
     // Check if user has permission to view audit information
     const canViewAudit = await canViewAuditInfo(user, 'employees');
 
@@ -385,11 +370,15 @@ export const getEmployeeById = async (req: Request, res: Response): Promise<Resp
         updater: employee.updatedBy ? userMap.get(employee.updatedBy) : null,
       };
 
-      return sendSuccess(res, { employee: employeeWithAudit }, 'Employee retrieved successfully');
+      return sendSuccess(
+        res,
+        { employee: maskEmployeeFields(employeeWithAudit, hiddenFieldGroups) },
+        'Employee retrieved successfully'
+      );
     }
 
     // User doesn't have permission - return without audit info
-    return sendSuccess(res, { employee }, 'Employee retrieved successfully');
+    return sendSuccess(res, { employee: maskEmployeeFields(employee, hiddenFieldGroups) }, 'Employee retrieved successfully');
   } catch (error) {
     console.error('Get employee error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
@@ -404,7 +393,10 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
   try {
     const organizationId = (req as any).organizationId;
     const userId = (req as any).user?.userId;
-    const data = req.body;
+
+    // Fields of the field groups the user's role may not see are ignored
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+    const data = stripHiddenFields(req.body, hiddenFieldGroups);
 
     // Parse FormData fields - when multipart/form-data is used, numeric fields come as strings
     const numericFields = [
@@ -443,7 +435,9 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
       return sendError(res, 'Last name is required', STATUS_CODES.BAD_REQUEST);
     }
 
-    if (!data.employeeCode) {
+    // Without automatic codes the employee code must be entered
+    const codeSettings = await getEmployeeCodeSettings(organizationId);
+    if (!data.employeeCode && !codeSettings.autoGenerate) {
       return sendError(res, 'Employee code is required', STATUS_CODES.BAD_REQUEST);
     }
 
@@ -510,20 +504,22 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
       }
     }
 
-    // Check employee code uniqueness within organization
-    const existingEmployee = await prisma.employee.findFirst({
-      where: {
-        organizationId,
-        employeeCode: data.employeeCode,
-      },
-    });
+    // Check employee code uniqueness within organization (generated codes skip taken ones)
+    if (data.employeeCode) {
+      const existingEmployee = await prisma.employee.findFirst({
+        where: {
+          organizationId,
+          employeeCode: data.employeeCode,
+        },
+      });
 
-    if (existingEmployee) {
-      return sendError(
-        res,
-        'Employee with this code already exists in your organization',
-        STATUS_CODES.BAD_REQUEST
-      );
+      if (existingEmployee) {
+        return sendError(
+          res,
+          'Employee with this code already exists in your organization',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
     }
 
     // Validate email format if provided
@@ -665,6 +661,37 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
       }
     }
 
+    // Candidate this employee was hired from: their onboarding moves to the employee, and the application
+    // they were selected through records the hire (placing them in the seat the job position was raised for)
+    const candidateId = data.candidateId ? parseInt(data.candidateId) : null;
+    const applicationId = data.applicationId ? parseInt(data.applicationId) : null;
+    delete data.candidateId;
+    delete data.applicationId;
+    let hiringApplication: Awaited<ReturnType<typeof findHiringApplication>> = null;
+    if (candidateId) {
+      const candidate = await prisma.candidate.findFirst({
+        where: { id: candidateId, organizationId },
+        select: { id: true },
+      });
+      if (!candidate) {
+        return sendError(res, 'Candidate not found', STATUS_CODES.BAD_REQUEST);
+      }
+
+      hiringApplication = await findHiringApplication(prisma, organizationId, candidateId, applicationId);
+      if (applicationId && !hiringApplication) {
+        return sendError(
+          res,
+          'Application not found for this candidate, or a candidate was already hired through it',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+
+      const seatId = hiringApplication?.jobPosition.organizationalPositionId;
+      if (seatId && !data.organizationalPositionId) {
+        data.organizationalPositionId = seatId;
+      }
+    }
+
     if (data.organizationalPositionId) {
       const orgPosition = await prisma.organizationalPosition.findFirst({
         where: { id: data.organizationalPositionId, organizationId },
@@ -742,7 +769,7 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
     });
 
     if (profilePictureFile) {
-      data.profilePicture = `/uploads/profiles/${profilePictureFile.filename}`;
+      data.profilePicture = profilePictureFile.path;
       console.log('✅ Profile picture set:', data.profilePicture);
     } else {
       console.log('⚠️  No profile picture uploaded');
@@ -753,7 +780,7 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
     }
 
     if (idProofFile) {
-      data.idProof = `/uploads/documents/${idProofFile.filename}`;
+      data.idProof = idProofFile.path;
       console.log('✅ ID proof set:', data.idProof);
     } else {
       console.log('⚠️  No ID proof uploaded');
@@ -774,12 +801,25 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
       }
     });
 
-    // Create employee with siblings in transaction
-    const employee = await prisma.$transaction(async (tx) => {
+    const today = await getEventToday(organizationId);
+
+    // Create employee with siblings (and their onboarding) in transaction
+    const { employee, onboarding, hire } = await prisma.$transaction(async (tx) => {
+      // Generate the code in the same transaction so its number is only used if the employee is created
+      const employeeCode =
+        data.employeeCode ||
+        (await generateEmployeeCode(
+          tx,
+          organizationId,
+          { branchId: data.branchId, departmentId: data.departmentId, dateOfJoining: data.dateOfJoining },
+          { pattern: codeSettings.pattern }
+        ));
+
       // Create employee
       const newEmployee = await tx.employee.create({
         data: {
           ...data,
+          employeeCode,
           organizationId,
           status: data.status || 'Active',
           isActive: data.isActive !== undefined ? data.isActive : true,
@@ -813,11 +853,30 @@ export const createEmployee = async (req: Request, res: Response): Promise<Respo
         });
       }
 
-      return newEmployee;
+      return {
+        employee: newEmployee,
+        onboarding: await startNewHireOnboarding(tx, newEmployee, { candidateId, today, userId }),
+        hire: hiringApplication ? await recordHire(tx, hiringApplication, newEmployee, userId) : null,
+      };
     });
 
-    return sendSuccess(res, { employee }, 'Employee created successfully', STATUS_CODES.CREATED);
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Employee',
+      entityId: employee.id,
+      newValues: employee,
+    });
+
+    return sendSuccess(
+      res,
+      { employee: maskEmployeeFields(employee, hiddenFieldGroups), onboardingId: onboarding?.id ?? null, hire },
+      onboarding ? 'Employee created and onboarding started' : 'Employee created successfully',
+      STATUS_CODES.CREATED
+    );
   } catch (error) {
+    if (isEmployeeCodeError(error)) {
+      return sendError(res, error.message, STATUS_CODES.BAD_REQUEST);
+    }
     console.error('Create employee error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
   }
@@ -832,7 +891,10 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
     const organizationId = (req as any).organizationId;
     const userId = (req as any).user?.userId;
     const { id } = req.params;
-    const data = req.body;
+
+    // Fields of the field groups the user's role may not see are ignored (and keep their stored values)
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+    const data = stripHiddenFields(req.body, hiddenFieldGroups);
 
     // Parse FormData fields - when multipart/form-data is used, numeric fields come as strings
     const numericFields = [
@@ -1045,10 +1107,10 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
       console.log('✅ Profile picture file received, deleting old and setting new');
       // Delete old profile picture if exists
       if (existingEmployee.profilePicture) {
-        deleteOldProfilePicture(existingEmployee.profilePicture);
+        await deleteOrganizationFile(existingEmployee.profilePicture);
       }
       // Set new profile picture path
-      data.profilePicture = `/uploads/profiles/${profilePictureFile.filename}`;
+      data.profilePicture = profilePictureFile.path;
       console.log('✅ Profile picture set:', data.profilePicture);
     } else {
       console.log('⚠️  No profile picture uploaded');
@@ -1062,10 +1124,10 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
       console.log('✅ ID proof file received, deleting old and setting new');
       // Delete old ID proof if exists
       if (existingEmployee.idProof) {
-        deleteOldDocument(existingEmployee.idProof);
+        await deleteOrganizationFile(existingEmployee.idProof);
       }
       // Set new ID proof path
-      data.idProof = `/uploads/documents/${idProofFile.filename}`;
+      data.idProof = idProofFile.path;
       console.log('✅ ID proof set:', data.idProof);
     } else {
       console.log('⚠️  No ID proof uploaded');
@@ -1073,7 +1135,7 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
       if (data.idProof === null || data.idProof === '') {
         // Delete old ID proof file if exists
         if (existingEmployee.idProof) {
-          deleteOldDocument(existingEmployee.idProof);
+          await deleteOrganizationFile(existingEmployee.idProof);
         }
         data.idProof = null;
       } else if (typeof data.idProof !== 'string' || data.idProof === '') {
@@ -1137,6 +1199,10 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
       },
     });
 
+    // Keep the career timeline complete when department, designation, branch, salary or status are edited directly
+    await recordEmployeeChanges(prisma, existingEmployee, employee, { userId });
+    await processExitOnStatusChange(existingEmployee, employee, userId);
+
     // Update siblings if provided (delete all and recreate)
     if (siblingsData !== undefined) {
       await prisma.$transaction(async (tx) => {
@@ -1158,7 +1224,15 @@ export const updateEmployee = async (req: Request, res: Response): Promise<Respo
       });
     }
 
-    return sendSuccess(res, { employee }, 'Employee updated successfully');
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Employee',
+      entityId: employee.id,
+      oldValues: existingEmployee,
+      newValues: employee,
+    });
+
+    return sendSuccess(res, { employee: maskEmployeeFields(employee, hiddenFieldGroups) }, 'Employee updated successfully');
   } catch (error) {
     console.error('Update employee error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
@@ -1214,10 +1288,17 @@ export const deleteEmployee = async (req: Request, res: Response): Promise<Respo
 
     // Clean up files before deleting employee
     if (employee.profilePicture) {
-      deleteOldProfilePicture(employee.profilePicture);
+      await deleteOrganizationFile(employee.profilePicture);
     }
     if (employee.idProof) {
-      deleteOldDocument(employee.idProof);
+      await deleteOrganizationFile(employee.idProof);
+    }
+    const documents = await prisma.employeeDocument.findMany({
+      where: { employeeId: employee.id },
+      select: { filePath: true },
+    });
+    for (const document of documents) {
+      await deleteOrganizationFile(document.filePath);
     }
 
     // Delete employee (cascade will handle siblings, documents, attendance, leave)
@@ -1225,6 +1306,13 @@ export const deleteEmployee = async (req: Request, res: Response): Promise<Respo
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Employee',
+      entityId: employee.id,
+      oldValues: employee,
+    });
+
     return sendSuccess(res, null, 'Employee deleted successfully');
   } catch (error) {
     console.error('Delete employee error:', error);
@@ -1233,102 +1321,285 @@ export const deleteEmployee = async (req: Request, res: Response): Promise<Respo
 };
 
 /**
- * Bulk export employees to CSV
- * GET /api/:orgSlug/employees/export/csv
+ * Preview the next generated employee code
+ * GET /api/:orgSlug/employees/code-preview?branchId=1&departmentId=2&dateOfJoining=2026-01-15
+ * `pattern` previews an unsaved pattern (e.g. from the settings page) instead of the organization's
+ * The code is not reserved: the number is only taken when the employee is created
+ */
+export const previewNextEmployeeCode = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { branchId, departmentId, dateOfJoining, pattern: patternOverride } = req.query;
+
+    const settings = await getEmployeeCodeSettings(organizationId);
+    const pattern = patternOverride ? String(patternOverride) : settings.pattern;
+
+    const patternError = validateEmployeeCodePattern(pattern);
+    if (patternError) {
+      return sendError(res, patternError, STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Without the branch or department the pattern needs, there is no code yet: `error` says what is missing
+    let code: string | null = null;
+    let codeError: string | null = null;
+    try {
+      code = await previewEmployeeCode(
+        organizationId,
+        {
+          branchId: branchId ? parseInt(branchId as string) : null,
+          departmentId: departmentId ? parseInt(departmentId as string) : null,
+          dateOfJoining: (dateOfJoining as string) || null,
+        },
+        pattern
+      );
+    } catch (error) {
+      if (!isEmployeeCodeError(error)) throw error;
+      codeError = error.message;
+    }
+
+    return sendSuccess(
+      res,
+      { autoGenerate: settings.autoGenerate, pattern, code, error: codeError },
+      'Employee code preview generated successfully'
+    );
+  } catch (error) {
+    console.error('Preview employee code error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the columns available for the employee export
+ * GET /api/:orgSlug/employees/export/columns
+ */
+export const getEmployeeExportColumns = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+
+    const columns = EXPORT_COLUMNS.map((column) => ({
+      key: column.key,
+      header: column.header,
+      group: column.group,
+      fieldGroup: column.fieldGroup ?? null,
+      allowed: !column.fieldGroup || !hiddenFieldGroups.includes(column.fieldGroup),
+    }));
+
+    return sendSuccess(
+      res,
+      { columns, defaultColumns: DEFAULT_EXPORT_COLUMNS, hiddenFieldGroups },
+      'Export columns retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get employee export columns error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Export employees as CSV, XLSX or a PDF roster
+ * GET /api/:orgSlug/employees/export?format=csv|xlsx|pdf&columns=employeeCode,fullName,...
+ * Takes the same filters and data scope as the employee list, plus employeeIds (comma separated) to export a selection
+ * Columns of the field groups the user's role may not see are left out; the salary filter needs canViewCompensation
+ * GET /api/:orgSlug/employees/export/csv is kept as an alias (defaults: CSV with the default columns)
  */
 export const bulkExportEmployees = async (req: Request, res: Response): Promise<any> => {
   try {
     const organizationId = (req as any).organizationId;
-    const {
-      search,
-      departmentId,
-      designationId,
-      branchId,
-      employmentTypeId,
-      status,
-      isActive,
-    } = req.query;
-
-    // Build where clause (same as getAllEmployees)
-    const where: any = { organizationId };
-
-    if (search) {
-      where.OR = [
-        { firstName: { contains: search as string, mode: 'insensitive' } },
-        { lastName: { contains: search as string, mode: 'insensitive' } },
-        { email: { contains: search as string, mode: 'insensitive' } },
-        { employeeCode: { contains: search as string, mode: 'insensitive' } },
-      ];
-    }
-
-    if (departmentId) where.departmentId = parseInt(departmentId as string);
-    if (designationId) where.designationId = parseInt(designationId as string);
-    if (branchId) where.branchId = parseInt(branchId as string);
-    if (employmentTypeId) where.employmentTypeId = parseInt(employmentTypeId as string);
-    if (status) where.status = status as string;
-    if (isActive !== undefined) where.isActive = isActive === 'true';
-
-    // Get all matching employees
+    const format = ((req.query.format as string) || 'csv').toLowerCase() as ExportFormat;
+
+    if (!['csv', 'xlsx', 'pdf'].includes(format)) {
+      return sendError(res, 'Invalid format. Must be one of: csv, xlsx, pdf', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const resolved = resolveExportColumns(req.query.columns);
+    if (resolved.unknown.length > 0) {
+      return sendError(res, `Unknown export column(s): ${resolved.unknown.join(', ')}`, STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Fields of the field groups the user's role may not see are omitted from the file
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+    if ((req.query.salaryMin || req.query.salaryMax) && hiddenFieldGroups.includes('compensation')) {
+      return sendError(res, 'You do not have permission to filter employees by salary', STATUS_CODES.FORBIDDEN);
+    }
+
+    const columns = resolved.columns.filter(
+      (column) => !column.fieldGroup || !hiddenFieldGroups.includes(column.fieldGroup)
+    );
+
+    if (columns.length === 0) {
+      return sendError(
+        res,
+        resolved.columns.length > 0
+          ? 'You do not have permission to export any of the selected columns'
+          : 'Select at least one column to export',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (format === 'pdf' && columns.length > EMPLOYEE_EXPORT.MAX_PDF_COLUMNS) {
+      return sendError(
+        res,
+        `A PDF roster can have at most ${EMPLOYEE_EXPORT.MAX_PDF_COLUMNS} columns. Use CSV or XLSX for more`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const where = buildEmployeeWhere(organizationId, req.query);
+    where.AND = [await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'employees')];
+
+    if (req.query.employeeIds) {
+      const employeeIds = String(req.query.employeeIds)
+        .split(',')
+        .map((id) => parseInt(id))
+        .filter((id) => !isNaN(id));
+      where.id = { in: employeeIds };
+    }
+
+    const total = await prisma.employee.count({ where });
+    if (total > EMPLOYEE_EXPORT.MAX_ROWS) {
+      return sendError(
+        res,
+        `The export is limited to ${EMPLOYEE_EXPORT.MAX_ROWS} employees. Please narrow the filters`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
     const employees = await prisma.employee.findMany({
       where,
-      select: {
-        employeeCode: true,
-        firstName: true,
-        middleName: true,
-        lastName: true,
-        email: true,
-        phone: true,
-        dateOfJoining: true,
-        status: true,
-        department: { select: { name: true } },
-        designation: { select: { name: true } },
-        branch: { select: { name: true } },
-      },
+      include: EMPLOYEE_EXPORT_INCLUDE,
       orderBy: { employeeCode: 'asc' },
     });
 
-    // Generate CSV
-    const csvHeaders = [
-      'Employee Code',
-      'First Name',
-      'Middle Name',
-      'Last Name',
-      'Email',
-      'Phone',
-      'Department',
-      'Designation',
-      'Branch',
-      'Date of Joining',
-      'Status',
-    ].join(',');
-
-    const csvRows = employees.map((emp) => [
-      emp.employeeCode,
-      emp.firstName,
-      emp.middleName || '',
-      emp.lastName || '',
-      emp.email || '',
-      emp.phone || '',
-      emp.department?.name || '',
-      emp.designation?.name || '',
-      emp.branch?.name || '',
-      emp.dateOfJoining ? new Date(emp.dateOfJoining).toLocaleDateString() : '',
-      emp.status,
-    ].join(','));
-
-    const csv = [csvHeaders, ...csvRows].join('\n');
-
-    // Set response headers for CSV download
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', `attachment; filename=employees_${Date.now()}.csv`);
-
-    return res.send(csv);
+    const organizationName = (req as any).organization?.name || 'Employees';
+    const { body, contentType, extension } = await renderEmployeeExport(
+      format,
+      columns,
+      employees,
+      `${organizationName} - Employee Roster`
+    );
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename=employees_${Date.now()}.${extension}`);
+
+    return res.send(body);
   } catch (error) {
     console.error('Bulk export employees error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
   }
 };
 
+/**
+ * Import employees from a CSV or XLSX file (or validate it with dryRun)
+ * POST /api/:orgSlug/employees/import?dryRun=true
+ * Multipart field "file". Every row is validated first and nothing is imported when any row has an error
+ */
+export const importEmployeesFromFile = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const file = (req as any).file as Express.Multer.File | undefined;
+    const dryRun = req.query.dryRun === 'true' || req.body?.dryRun === 'true' || req.body?.dryRun === true;
+
+    if (!file) {
+      return sendError(res, 'Import file is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    let parsed: Awaited<ReturnType<typeof parseImportFile>>;
+    try {
+      parsed = await parseImportFile(file.buffer, file.originalname);
+    } catch (error) {
+      return sendError(res, 'The file could not be read. Please upload a valid CSV or XLSX file', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const { headers, rows } = parsed;
+
+    // Every required column must be present in the header row (employee codes are optional when generated)
+    const mappedKeys = mapImportHeaders(headers);
+    const { autoGenerate } = await getEmployeeCodeSettings(organizationId);
+    const missingColumns = IMPORT_COLUMNS.filter(
+      (column) =>
+        column.required && !mappedKeys.includes(column.key) && !(column.key === 'employeeCode' && autoGenerate)
+    );
+    if (missingColumns.length > 0) {
+      return sendError(
+        res,
+        `Missing required column(s): ${missingColumns.map((column) => column.header).join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (rows.length === 0) {
+      return sendError(res, 'The file has no employee rows', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (rows.length > EMPLOYEE_IMPORT.MAX_ROWS) {
+      return sendError(
+        res,
+        `A file can contain at most ${EMPLOYEE_IMPORT.MAX_ROWS} employees. Please split it into smaller files`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const hiddenFieldGroups = await getHiddenFieldGroups(prisma, (req as any).user);
+    const result = await importEmployees({ organizationId, headers, rows, dryRun, userId, hiddenFieldGroups });
+
+    // One entry per employee so each record's history shows how it was created
+    for (const row of result.rows) {
+      if (row.status === 'created' && row.employeeId) {
+        await logAudit(req, {
+          action: AUDIT_ACTIONS.CREATE,
+          entityType: 'Employee',
+          entityId: row.employeeId,
+          newValues: { employeeCode: row.employeeCode, name: row.name, source: `import: ${file.originalname}` },
+        });
+      }
+    }
+
+    if (result.summary.invalidRows > 0) {
+      return sendSuccess(
+        res,
+        result,
+        `${result.summary.invalidRows} of ${result.summary.totalRows} row(s) have errors. ${dryRun ? 'Fix them before importing' : 'No employees were imported'}`
+      );
+    }
+
+    if (dryRun) {
+      return sendSuccess(res, result, `All ${result.summary.totalRows} row(s) are valid and ready to import`);
+    }
+
+    return sendSuccess(res, result, `${result.summary.created} employee(s) imported successfully`, STATUS_CODES.CREATED);
+  } catch (error) {
+    // A code could not be generated for some row; the whole import was rolled back
+    if (isEmployeeCodeError(error)) {
+      return sendError(res, `${error.message}. No employees were imported`, STATUS_CODES.BAD_REQUEST);
+    }
+    console.error('Import employees error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Download the employee import template
+ * GET /api/:orgSlug/employees/import/template?format=csv|xlsx
+ */
+export const downloadEmployeeImportTemplate = async (req: Request, res: Response): Promise<any> => {
+  try {
+    const format = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+    const template = await buildImportTemplate(format, await getHiddenFieldGroups(prisma, (req as any).user));
+
+    res.setHeader(
+      'Content-Type',
+      format === 'xlsx' ? 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' : 'text/csv'
+    );
+    res.setHeader('Content-Disposition', `attachment; filename=employee_import_template.${format}`);
+
+    return res.send(template);
+  } catch (error) {
+    console.error('Download employee import template error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
 /**
  * Bulk update employee status
  * PATCH /api/:orgSlug/employees/bulk-status
@@ -1357,11 +1628,12 @@ export const bulkUpdateEmployeeStatus = async (req: Request, res: Response): Pro
       );
     }
 
-    // Verify all employees exist and belong to organization
+    // Verify all employees exist, belong to organization and are in the user's data scope
     const employees = await prisma.employee.findMany({
       where: {
         id: { in: employeeIds.map((id: any) => parseInt(id)) },
         organizationId,
+        AND: [await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'employees')],
       },
     });
 
@@ -1387,6 +1659,19 @@ export const bulkUpdateEmployeeStatus = async (req: Request, res: Response): Pro
       data: updateData,
     });
 
+    // One entry per employee so each record's history (and career timeline) shows the status change
+    for (const employee of employees) {
+      await recordEmployeeChanges(prisma, employee, { ...employee, ...updateData }, { userId });
+      await processExitOnStatusChange(employee, { ...employee, ...updateData }, userId);
+      await logAudit(req, {
+        action: AUDIT_ACTIONS.UPDATE,
+        entityType: 'Employee',
+        entityId: employee.id,
+        oldValues: employee,
+        newValues: { ...employee, ...updateData },
+      });
+    }
+
     return sendSuccess(
       res,
       { count: result.count },
@@ -1398,6 +1683,76 @@ export const bulkUpdateEmployeeStatus = async (req: Request, res: Response): Pro
   }
 };
 
+/**
+ * Helper function to process the exit of an employee whose status was set to Resigned or Terminated
+ * (deactivates the linked user and hands over department headships and branches, see utils/employee-offboarding.ts)
+ */
+async function processExitOnStatusChange(before: Employee, after: Employee, userId?: number): Promise<void> {
+  const hasLeft = (status: string) => status === EMPLOYEE_STATUS.RESIGNED || status === EMPLOYEE_STATUS.TERMINATED;
+  if (!hasLeft(after.status) || hasLeft(before.status)) return;
+
+  const exitDate = await getEventToday(after.organizationId);
+  await prisma.$transaction((tx) => processEmployeeExit(tx, after, { exitDate, userId }));
+}
+
+/**
+ * Helper function to build the employee filters shared by the list and the export
+ * (search, department, designation, branch, employment type, status, joining date and salary ranges)
+ */
+function buildEmployeeWhere(organizationId: number, query: Request['query']): any {
+  const {
+    search,
+    departmentId,
+    designationId,
+    branchId,
+    employmentTypeId,
+    status,
+    isActive,
+    dateOfJoiningFrom,
+    dateOfJoiningTo,
+    salaryMin,
+    salaryMax,
+  } = query;
+
+  const where: any = {
+    organizationId,
+  };
+
+  // Search across multiple fields
+  if (search) {
+    where.OR = [
+      { firstName: { contains: search as string } },
+      { lastName: { contains: search as string } },
+      { email: { contains: search as string } },
+      { employeeCode: { contains: search as string } },
+    ];
+  }
+
+  // Apply filters
+  if (departmentId) where.departmentId = parseInt(departmentId as string);
+  if (designationId) where.designationId = parseInt(designationId as string);
+  if (branchId) where.branchId = parseInt(branchId as string);
+  if (employmentTypeId) where.employmentTypeId = parseInt(employmentTypeId as string);
+  if (status) where.status = status as string;
+  if (isActive !== undefined) where.isActive = isActive === 'true';
+
+  // Date range filter
+  if (dateOfJoiningFrom || dateOfJoiningTo) {
+    where.dateOfJoining = {};
+    if (dateOfJoiningFrom) where.dateOfJoining.gte = new Date(dateOfJoiningFrom as string);
+    if (dateOfJoiningTo) where.dateOfJoining.lte = new Date(dateOfJoiningTo as string);
+  }
+
+  // Salary range filter
+  if (salaryMin || salaryMax) {
+    where.salary = {};
+    if (salaryMin) where.salary.gte = parseFloat(salaryMin as string);
+    if (salaryMax) where.salary.lte = parseFloat(salaryMax as string);
+  }
+
+  return where;
+}
+
 /**
  * Helper function to validate email format
  */
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -184,6 +185,13 @@ export const createEmploymentType = async (req: Request, res: Response): Promise
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'EmploymentType',
+      entityId: employmentType.id,
+      newValues: employmentType,
+    });
+
     return sendSuccess(res, { employmentType }, 'Employment type created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create employment type error:', error);
@@ -243,6 +251,14 @@ export const updateEmploymentType = async (req: Request, res: Response): Promise
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'EmploymentType',
+      entityId: employmentType.id,
+      oldValues: existing,
+      newValues: employmentType,
+    });
+
     return sendSuccess(res, { employmentType }, 'Employment type updated successfully');
   } catch (error) {
     console.error('Update employment type error:', error);
@@ -287,6 +303,13 @@ export const deleteEmploymentType = async (req: Request, res: Response): Promise
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'EmploymentType',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Employment type deleted successfully');
   } catch (error) {
     console.error('Delete employment type error:', error);
@@ -0,0 +1,189 @@
+import { Request, Response } from 'express';
+import path from 'path';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES, FILE_ACCESS } from '../config/constants';
+import { hasOrgPermission } from '../utils/permissions';
+import { isEmployeeInScope } from '../utils/data-scope';
+import { readFile } from '../utils/storage';
+import {
+  normalizeFilePath,
+  resolveFileOwner,
+  signFileUrl,
+  verifyFileSignature,
+} from '../utils/file-access';
+
+// Served inline so browsers can preview them; anything else is downloaded
+const INLINE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.pdf'];
+
+/**
+ * Stream an uploaded file of the organization
+ * GET /api/:orgSlug/files?path=/uploads/...&download=true
+ */
+export const getFile = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const filePath = normalizeFilePath(req.query.path);
+    if (!filePath) {
+      return sendError(res, MESSAGES.FILE.INVALID_PATH, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const access = await checkFileAccess(req, filePath);
+    if (access !== 'allowed') {
+      return sendFileAccessError(res, access);
+    }
+
+    return streamFile(res, filePath, req.query.download === 'true');
+  } catch (error) {
+    console.error('Get file error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Create short-lived signed URLs for files of the organization (e.g. for <img> tags)
+ * POST /api/:orgSlug/files/signed-urls
+ * Body: { paths: string[] }
+ * Paths the user cannot read map to null
+ */
+export const getSignedFileUrls = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const { paths } = req.body;
+
+    if (!Array.isArray(paths)) {
+      return sendError(res, 'paths must be an array', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (paths.length > FILE_ACCESS.MAX_SIGNED_URLS_PER_REQUEST) {
+      return sendError(
+        res,
+        `At most ${FILE_ACCESS.MAX_SIGNED_URLS_PER_REQUEST} paths can be signed per request`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const urls: Record<string, string | null> = {};
+    let expiresAt: Date | null = null;
+
+    for (const requested of new Set<unknown>(paths)) {
+      if (typeof requested !== 'string') {
+        continue;
+      }
+
+      const filePath = normalizeFilePath(requested);
+      if (!filePath || (await checkFileAccess(req, filePath)) !== 'allowed') {
+        urls[requested] = null;
+        continue;
+      }
+
+      const signed = signFileUrl(filePath);
+      urls[requested] = signed.url;
+      expiresAt = signed.expiresAt;
+    }
+
+    return sendSuccess(res, { urls, expiresAt }, 'Signed file URLs created successfully');
+  } catch (error) {
+    console.error('Get signed file URLs error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Stream a file through a signed URL (no Authorization header needed)
+ * GET /api/files/signed?path=&expires=&signature=&download=true
+ */
+export const getSignedFile = async (req: Request, res: Response): Promise<Response | void> => {
+  try {
+    const filePath = normalizeFilePath(req.query.path);
+
+    if (!filePath || !verifyFileSignature(filePath, req.query.expires, req.query.signature)) {
+      return sendError(res, MESSAGES.FILE.LINK_EXPIRED, STATUS_CODES.FORBIDDEN);
+    }
+
+    // Signed URLs may be embedded by the admin app on another origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    return streamFile(res, filePath, req.query.download === 'true');
+  } catch (error) {
+    console.error('Get signed file error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to check that a file belongs to the request's organization
+ * and that the user can read the module that owns it (and, for employee files, the employee)
+ */
+async function checkFileAccess(
+  req: Request,
+  filePath: string
+): Promise<'allowed' | 'not_found' | 'forbidden'> {
+  const organizationId = (req as any).organizationId;
+
+  const owner = await resolveFileOwner(filePath);
+  if (!owner || owner.organizationId !== organizationId) {
+    return 'not_found';
+  }
+
+  if (!owner.moduleCode) {
+    return 'allowed';
+  }
+
+  const canRead = await hasOrgPermission(
+    (req as any).user,
+    organizationId,
+    owner.moduleCode,
+    'canRead',
+    (req as any).isImpersonating
+  );
+
+  if (!canRead) {
+    return 'forbidden';
+  }
+
+  // Employees outside the user's data scope are hidden, as on the employee routes
+  if (
+    owner.employeeId &&
+    !(await isEmployeeInScope(prisma, (req as any).user, organizationId, owner.moduleCode, owner.employeeId))
+  ) {
+    return 'not_found';
+  }
+
+  return 'allowed';
+}
+
+/**
+ * Helper function to send the error response for a denied file access
+ */
+function sendFileAccessError(res: Response, access: 'not_found' | 'forbidden'): Response {
+  if (access === 'forbidden') {
+    return sendError(res, MESSAGES.PERMISSION.DENIED, STATUS_CODES.FORBIDDEN);
+  }
+  return sendError(res, MESSAGES.FILE.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+}
+
+/**
+ * Helper function to stream a file from the storage backend
+ */
+async function streamFile(res: Response, filePath: string, download: boolean): Promise<Response | void> {
+  const file = await readFile(filePath);
+  if (!file) {
+    return sendError(res, MESSAGES.FILE.NOT_FOUND, STATUS_CODES.NOT_FOUND);
+  }
+
+  const fileName = path.posix.basename(filePath);
+  const extension = path.extname(fileName).toLowerCase();
+  const inline = !download && INLINE_EXTENSIONS.includes(extension);
+
+  res.type(extension || 'application/octet-stream');
+  if (file.contentLength !== undefined) {
+    res.setHeader('Content-Length', file.contentLength);
+  }
+  res.setHeader('Cache-Control', 'private, max-age=300');
+  res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename="${fileName.replace(/"/g, '')}"`);
+
+  file.body.on('error', (error) => {
+    console.error('Stream file error:', error);
+    res.destroy(error);
+  });
+  file.body.pipe(res);
+}
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -162,6 +163,13 @@ export const createGender = async (req: Request, res: Response): Promise<Respons
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Gender',
+      entityId: gender.id,
+      newValues: gender,
+    });
+
     return sendSuccess(res, { gender }, 'Gender created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create gender error:', error);
@@ -210,6 +218,14 @@ export const updateGender = async (req: Request, res: Response): Promise<Respons
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Gender',
+      entityId: gender.id,
+      oldValues: existingGender,
+      newValues: gender,
+    });
+
     return sendSuccess(res, { gender }, 'Gender updated successfully');
   } catch (error) {
     console.error('Update gender error:', error);
@@ -248,6 +264,13 @@ export const deleteGender = async (req: Request, res: Response): Promise<Respons
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Gender',
+      entityId: existingGender.id,
+      oldValues: existingGender,
+    });
+
     return sendSuccess(res, null, 'Gender deleted successfully');
   } catch (error) {
     console.error('Delete gender error:', error);
@@ -0,0 +1,32 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { buildHeadcountPlan } from '../utils/headcount';
+
+/**
+ * Get the headcount plan: planned, filled and open seats of the organizational positions
+ * per department or branch, with the seats already in recruitment
+ * GET /api/:orgSlug/employees/headcount-plan
+ * Query: groupBy? ('department' | 'branch'), includeInactive?
+ */
+export const getHeadcountPlan = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { groupBy, includeInactive } = req.query;
+
+    if (groupBy !== undefined && groupBy !== 'department' && groupBy !== 'branch') {
+      return sendError(res, "groupBy must be 'department' or 'branch'", STATUS_CODES.BAD_REQUEST);
+    }
+
+    const plan = await buildHeadcountPlan(prisma, organizationId, {
+      groupBy: groupBy ?? 'department',
+      includeInactive: includeInactive === 'true',
+    });
+
+    return sendSuccess(res, plan, 'Headcount plan retrieved successfully');
+  } catch (error) {
+    console.error('Get headcount plan error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
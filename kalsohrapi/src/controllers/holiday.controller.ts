@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 const VALID_HOLIDAY_TYPES = ['National', 'Religious', 'Company', 'Regional'];
@@ -240,6 +241,13 @@ export const createHoliday = async (req: Request, res: Response): Promise<Respon
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Holiday',
+      entityId: holiday.id,
+      newValues: holiday,
+    });
+
     return sendSuccess(res, { holiday }, 'Holiday created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create holiday error:', error);
@@ -320,6 +328,14 @@ export const updateHoliday = async (req: Request, res: Response): Promise<Respon
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Holiday',
+      entityId: holiday.id,
+      oldValues: existing,
+      newValues: holiday,
+    });
+
     return sendSuccess(res, { holiday }, 'Holiday updated successfully');
   } catch (error) {
     console.error('Update holiday error:', error);
@@ -352,6 +368,13 @@ export const deleteHoliday = async (req: Request, res: Response): Promise<Respon
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Holiday',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Holiday deleted successfully');
   } catch (error) {
     console.error('Delete holiday error:', error);
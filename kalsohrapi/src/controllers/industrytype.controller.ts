@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -166,6 +167,13 @@ export const createIndustryType = async (req: Request, res: Response): Promise<R
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'IndustryType',
+      entityId: industryType.id,
+      newValues: industryType,
+    });
+
     return sendSuccess(res, { industryType }, 'Industry type created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create industry type error:', error);
@@ -216,6 +224,14 @@ export const updateIndustryType = async (req: Request, res: Response): Promise<R
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'IndustryType',
+      entityId: industryType.id,
+      oldValues: existingIndustryType,
+      newValues: industryType,
+    });
+
     return sendSuccess(res, { industryType }, 'Industry type updated successfully');
   } catch (error) {
     console.error('Update industry type error:', error);
@@ -254,6 +270,13 @@ export const deleteIndustryType = async (req: Request, res: Response): Promise<R
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'IndustryType',
+      entityId: existingIndustryType.id,
+      oldValues: existingIndustryType,
+    });
+
     return sendSuccess(res, null, 'Industry type deleted successfully');
   } catch (error) {
     console.error('Delete industry type error:', error);
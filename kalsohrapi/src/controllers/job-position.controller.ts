@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
+import { getPositionSeats } from '../utils/headcount';
 
 const VALID_PRIORITIES = ['High', 'Medium', 'Low'];
 const VALID_STATUSES = ['Open', 'On Hold', 'Filled', 'Closed'];
@@ -40,6 +42,7 @@ export const getAllJobPositions = async (req: Request, res: Response): Promise<R
         code: true,
         description: true,
         departmentId: true,
+        organizationalPositionId: true,
         requiredSkills: true,
         requiredQualifications: true,
         minExperience: true,
@@ -58,6 +61,13 @@ export const getAllJobPositions = async (req: Request, res: Response): Promise<R
             code: true,
           },
         },
+        organizationalPosition: {
+          select: {
+            id: true,
+            title: true,
+            code: true,
+          },
+        },
         _count: {
           select: {
             applications: true,
@@ -95,6 +105,13 @@ export const getJobPositionById = async (req: Request, res: Response): Promise<R
             code: true,
           },
         },
+        organizationalPosition: {
+          select: {
+            id: true,
+            title: true,
+            code: true,
+          },
+        },
         _count: {
           select: {
             applications: true,
@@ -126,6 +143,7 @@ export const createJobPosition = async (req: Request, res: Response): Promise<Re
       code,
       description,
       departmentId,
+      organizationalPositionId,
       requiredSkills,
       requiredQualifications,
       minExperience,
@@ -198,6 +216,25 @@ export const createJobPosition = async (req: Request, res: Response): Promise<Re
       }
     }
 
+    // Validate the organizational position the job position is raised for (if provided)
+    let seat = null;
+    if (organizationalPositionId) {
+      seat = await prisma.organizationalPosition.findFirst({
+        where: {
+          id: organizationalPositionId,
+          organizationId,
+        },
+      });
+
+      if (!seat) {
+        return sendError(
+          res,
+          'Organizational position not found or does not belong to this organization',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
     // Validate dates
     if (postedDate && closingDate) {
       const posted = new Date(postedDate);
@@ -216,7 +253,8 @@ export const createJobPosition = async (req: Request, res: Response): Promise<Re
         title,
         code: code || null,
         description: description || null,
-        departmentId: departmentId || null,
+        departmentId: departmentId || seat?.departmentId || null,
+        organizationalPositionId: seat?.id ?? null,
         requiredSkills: requiredSkills || null,
         requiredQualifications: requiredQualifications || null,
         minExperience: minExp,
@@ -236,9 +274,23 @@ export const createJobPosition = async (req: Request, res: Response): Promise<Re
             code: true,
           },
         },
+        organizationalPosition: {
+          select: {
+            id: true,
+            title: true,
+            code: true,
+          },
+        },
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'JobPosition',
+      entityId: jobPosition.id,
+      newValues: jobPosition,
+    });
+
     return sendSuccess(res, { jobPosition }, 'Job position created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create job position error:', error);
@@ -259,6 +311,7 @@ export const updateJobPosition = async (req: Request, res: Response): Promise<Re
       code,
       description,
       departmentId,
+      organizationalPositionId,
       requiredSkills,
       requiredQualifications,
       minExperience,
@@ -339,6 +392,24 @@ export const updateJobPosition = async (req: Request, res: Response): Promise<Re
       }
     }
 
+    // Validate the organizational position the job position is raised for (if provided)
+    if (organizationalPositionId) {
+      const seat = await prisma.organizationalPosition.findFirst({
+        where: {
+          id: organizationalPositionId,
+          organizationId,
+        },
+      });
+
+      if (!seat) {
+        return sendError(
+          res,
+          'Organizational position not found or does not belong to this organization',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
     // Validate dates
     const posted = postedDate ? new Date(postedDate) : existing.postedDate;
     const closing = closingDate ? new Date(closingDate) : existing.closingDate;
@@ -358,6 +429,7 @@ export const updateJobPosition = async (req: Request, res: Response): Promise<Re
         ...(code !== undefined && { code }),
         ...(description !== undefined && { description }),
         ...(departmentId !== undefined && { departmentId }),
+        ...(organizationalPositionId !== undefined && { organizationalPositionId: organizationalPositionId || null }),
         ...(requiredSkills !== undefined && { requiredSkills }),
         ...(requiredQualifications !== undefined && { requiredQualifications }),
         ...(minExperience !== undefined && { minExperience }),
@@ -376,9 +448,24 @@ export const updateJobPosition = async (req: Request, res: Response): Promise<Re
             code: true,
           },
         },
+        organizationalPosition: {
+          select: {
+            id: true,
+            title: true,
+            code: true,
+          },
+        },
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'JobPosition',
+      entityId: jobPosition.id,
+      oldValues: existing,
+      newValues: jobPosition,
+    });
+
     return sendSuccess(res, { jobPosition }, 'Job position updated successfully');
   } catch (error) {
     console.error('Update job position error:', error);
@@ -423,9 +510,123 @@ export const deleteJobPosition = async (req: Request, res: Response): Promise<Re
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'JobPosition',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Job position deleted successfully');
   } catch (error) {
     console.error('Delete job position error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
   }
 };
+
+/**
+ * Raise a job position (requisition) for the open seats of an organizational position
+ * The job position takes the position's title and department; hiring through it fills the seat
+ * POST /api/:orgSlug/masters/organizational-positions/:id/requisitions
+ * Body: vacancies? (defaults to the open seats without a requisition), priority?, description?, closingDate?
+ */
+export const raiseRequisition = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const positionId = parseInt(req.params.id);
+    const { vacancies, priority, description, requiredSkills, requiredQualifications, minExperience, closingDate } =
+      req.body;
+
+    const [seats] = isNaN(positionId)
+      ? []
+      : await getPositionSeats(prisma, organizationId, { positionIds: [positionId], includeInactive: true });
+
+    if (!seats) {
+      return sendError(res, 'Organizational position not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (!seats.isActive) {
+      return sendError(res, 'Cannot raise a job position for an inactive organizational position', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (seats.uncovered < 1) {
+      return sendError(
+        res,
+        seats.open > 0
+          ? `All ${seats.open} open seat(s) of "${seats.title}" are already in recruitment`
+          : `"${seats.title}" has no open seats (${seats.filled}/${seats.planned} filled)`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const vac = vacancies !== undefined ? vacancies : seats.uncovered;
+    if (!Number.isInteger(vac) || vac < 1) {
+      return sendError(res, 'Vacancies must be at least 1', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (vac > seats.uncovered) {
+      return sendError(
+        res,
+        `"${seats.title}" has only ${seats.uncovered} open seat(s) without a job position`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (priority && !VALID_PRIORITIES.includes(priority)) {
+      return sendError(
+        res,
+        `Invalid priority. Must be one of: ${VALID_PRIORITIES.join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const jobPosition = await prisma.jobPosition.create({
+      data: {
+        title: seats.title,
+        description: description || null,
+        departmentId: seats.department.id,
+        organizationalPositionId: seats.id,
+        requiredSkills: requiredSkills || null,
+        requiredQualifications: requiredQualifications || null,
+        minExperience: minExperience || 0,
+        vacancies: vac,
+        priority: priority || 'Medium',
+        status: 'Open',
+        postedDate: new Date(),
+        closingDate: closingDate ? new Date(closingDate) : null,
+        organizationId,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      include: {
+        department: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
+        organizationalPosition: {
+          select: {
+            id: true,
+            title: true,
+            code: true,
+          },
+        },
+      },
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'JobPosition',
+      entityId: jobPosition.id,
+      newValues: jobPosition,
+    });
+
+    return sendSuccess(res, { jobPosition }, 'Job position raised successfully', STATUS_CODES.CREATED);
+  } catch (error) {
+    console.error('Raise requisition error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
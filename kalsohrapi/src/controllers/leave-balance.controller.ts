@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { allocateLeaveBalances } from '../utils/leave-allocation';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+
+/**
+ * Get leave balances for the organization
+ * GET /api/:orgSlug/leave/balances?year=2025&employeeId=1&leaveTypeId=1
+ */
+export const getAllLeaveBalances = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { year, employeeId, leaveTypeId, departmentId } = req.query;
+
+    const where: any = {
+      organizationId,
+      year: year ? parseInt(year as string) : new Date().getFullYear(),
+    };
+
+    if (employeeId) where.employeeId = parseInt(employeeId as string);
+    if (leaveTypeId) where.leaveTypeId = parseInt(leaveTypeId as string);
+    if (departmentId) where.employee = { departmentId: parseInt(departmentId as string) };
+
+    // Only the balances of employees in the user's data scope
+    where.AND = [{ employee: await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'leave') }];
+
+    const leaveBalances = await prisma.leaveBalance.findMany({
+      where,
+      orderBy: [{ employeeId: 'asc' }, { leaveTypeId: 'asc' }],
+      include: {
+        employee: {
+          select: {
+            id: true,
+            employeeCode: true,
+            firstName: true,
+            lastName: true,
+            department: { select: { id: true, name: true } },
+          },
+        },
+        leaveType: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+            isPaid: true,
+          },
+        },
+      },
+    });
+
+    return sendSuccess(res, { leaveBalances }, 'Leave balances retrieved successfully');
+  } catch (error) {
+    console.error('Get leave balances error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Allocate leave balances for a year (or preview the allocation)
+ * POST /api/:orgSlug/leave/balances/allocate
+ * Body: { year, employeeIds?, leaveTypeIds?, dryRun? }
+ * With dryRun: true nothing is written and the computed allocation is returned for review
+ */
+export const allocateBalances = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { year, employeeIds, leaveTypeIds, dryRun } = req.body;
+
+    const yearNum = year ? parseInt(year) : new Date().getFullYear();
+    if (isNaN(yearNum) || yearNum < 2000 || yearNum > 2100) {
+      return sendError(res, 'Invalid year', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (employeeIds !== undefined && !Array.isArray(employeeIds)) {
+      return sendError(res, 'Employee IDs must be an array', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (leaveTypeIds !== undefined && !Array.isArray(leaveTypeIds)) {
+      return sendError(res, 'Leave type IDs must be an array', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const isDryRun = dryRun === true || dryRun === 'true';
+
+    const result = await allocateLeaveBalances({
+      organizationId,
+      year: yearNum,
+      employeeIds: employeeIds?.map((id: any) => parseInt(id)),
+      leaveTypeIds: leaveTypeIds?.map((id: any) => parseInt(id)),
+      dryRun: isDryRun,
+      userId,
+      employeeScope: await getEmployeeScopeWhere(prisma, (req as any).user, organizationId, 'leave'),
+    });
+
+    if (isDryRun) {
+      return sendSuccess(res, result, 'Leave allocation preview generated successfully');
+    }
+
+    return sendSuccess(
+      res,
+      result,
+      `${result.summary.created + result.summary.updated} leave balance(s) allocated for ${yearNum}`,
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    console.error('Allocate leave balances error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
@@ -0,0 +1,573 @@
+import { Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES, LEAVE_STATUS } from '../config/constants';
+import { toDateOnly } from '../utils/attendance';
+import { getEmployeeScopeWhere } from '../utils/data-scope';
+import {
+  calculateLeaveDays,
+  getPendingLeaveDays,
+  getUnallocatedEntitlement,
+  applyApprovedLeave,
+  revertApprovedLeave,
+  isLeaveBalanceError,
+  spansCalendarYears,
+  LEAVE_SPANS_YEARS_MESSAGE,
+} from '../utils/leave';
+
+const leaveRequestInclude = {
+  employee: {
+    select: {
+      id: true,
+      employeeCode: true,
+      firstName: true,
+      lastName: true,
+      profilePicture: true,
+      department: { select: { id: true, name: true } },
+      designation: { select: { id: true, name: true } },
+    },
+  },
+  leaveType: {
+    select: {
+      id: true,
+      name: true,
+      code: true,
+      isPaid: true,
+      requiresApproval: true,
+    },
+  },
+  approver: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+    },
+  },
+};
+
+// Returned when the request's status changed between reading and updating it (e.g. two approvers at once)
+const LEAVE_REQUEST_CHANGED_MESSAGE = 'This leave request was updated by someone else. Please refresh and try again';
+
+/**
+ * Get all leave requests for the organization
+ * GET /api/:orgSlug/leave/requests?status=Pending&employeeId=1&leaveTypeId=1&startDate=2025-01-01&endDate=2025-12-31
+ */
+export const getAllLeaveRequests = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const {
+      page = 1,
+      limit = 20,
+      status,
+      employeeId,
+      leaveTypeId,
+      departmentId,
+      startDate,
+      endDate,
+    } = req.query;
+
+    const where: any = { organizationId };
+
+    if (status) where.status = status as string;
+    if (employeeId) where.employeeId = parseInt(employeeId as string);
+    if (leaveTypeId) where.leaveTypeId = parseInt(leaveTypeId as string);
+    if (departmentId) where.employee = { departmentId: parseInt(departmentId as string) };
+
+    // Requests overlapping the given window
+    if (startDate) where.endDate = { gte: toDateOnly(startDate) };
+    if (endDate) where.startDate = { lte: toDateOnly(endDate) };
+
+    // Only the requests of employees in the user's data scope
+    where.AND = [{ employee: await getLeaveScope(req) }];
+
+    const pageNum = parseInt(page as string);
+    const limitNum = Math.min(parseInt(limit as string), 100);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [total, leaveRequests] = await Promise.all([
+      prisma.leaveRequest.count({ where }),
+      prisma.leaveRequest.findMany({
+        where,
+        skip,
+        take: limitNum,
+        orderBy: { createdAt: 'desc' },
+        include: leaveRequestInclude,
+      }),
+    ]);
+
+    return sendSuccess(
+      res,
+      {
+        leaveRequests,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum),
+        },
+      },
+      'Leave requests retrieved successfully'
+    );
+  } catch (error) {
+    console.error('Get leave requests error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get leave request by ID
+ * GET /api/:orgSlug/leave/requests/:id
+ */
+export const getLeaveRequestById = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const leaveRequest = await prisma.leaveRequest.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getLeaveScope(req),
+      },
+      include: leaveRequestInclude,
+    });
+
+    if (!leaveRequest) {
+      return sendError(res, 'Leave request not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    return sendSuccess(res, { leaveRequest }, 'Leave request retrieved successfully');
+  } catch (error) {
+    console.error('Get leave request error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Apply for leave
+ * POST /api/:orgSlug/leave/requests
+ * Body: { employeeId?, leaveTypeId, startDate, endDate, isHalfDay?, reason? }
+ * employeeId defaults to the employee linked to the logged-in user
+ */
+export const createLeaveRequest = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { employeeId, leaveTypeId, reason, isHalfDay } = req.body;
+
+    if (!leaveTypeId) {
+      return sendError(res, 'Leave type is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const startDate = toDateOnly(req.body.startDate);
+    const endDate = toDateOnly(req.body.endDate || req.body.startDate);
+
+    if (!startDate || !endDate) {
+      return sendError(res, 'Valid start and end dates are required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (endDate < startDate) {
+      return sendError(res, 'End date cannot be before start date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    // Balances are tracked per calendar year
+    if (spansCalendarYears(startDate, endDate)) {
+      return sendError(res, LEAVE_SPANS_YEARS_MESSAGE, STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (isHalfDay && startDate.getTime() !== endDate.getTime()) {
+      return sendError(res, 'Half-day leave must start and end on the same date', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const employee = await prisma.employee.findFirst({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(employeeId ? { id: parseInt(employeeId) } : { userId }),
+        AND: [await getLeaveScope(req)],
+      },
+    });
+
+    if (!employee) {
+      return sendError(
+        res,
+        employeeId
+          ? 'Employee not found or is not active in this organization'
+          : 'Your user account is not linked to an employee record',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (employee.dateOfJoining && startDate < toDateOnly(employee.dateOfJoining)!) {
+      return sendError(res, 'Leave cannot start before the date of joining', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const leaveType = await prisma.leaveType.findFirst({
+      where: { id: parseInt(leaveTypeId), organizationId, isActive: true },
+    });
+
+    if (!leaveType) {
+      return sendError(res, 'Leave type not found or is inactive', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const { totalDays, leaveDates } = await calculateLeaveDays(
+      organizationId,
+      startDate,
+      endDate,
+      !!isHalfDay
+    );
+
+    if (totalDays === 0) {
+      return sendError(
+        res,
+        'The selected dates fall entirely on weekends or holidays',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (leaveType.maxConsecutiveDays && totalDays > leaveType.maxConsecutiveDays) {
+      return sendError(
+        res,
+        `${leaveType.name} cannot exceed ${leaveType.maxConsecutiveDays} consecutive day(s)`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    // Reject overlaps with other pending or approved leave
+    const overlapping = await prisma.leaveRequest.findFirst({
+      where: {
+        organizationId,
+        employeeId: employee.id,
+        status: { in: [LEAVE_STATUS.PENDING, LEAVE_STATUS.APPROVED] },
+        startDate: { lte: endDate },
+        endDate: { gte: startDate },
+      },
+    });
+
+    if (overlapping) {
+      return sendError(
+        res,
+        'Leave request overlaps with an existing pending or approved request',
+        STATUS_CODES.CONFLICT
+      );
+    }
+
+    // Paid leave is limited by the remaining balance minus pending requests
+    if (leaveType.isPaid) {
+      const year = startDate.getUTCFullYear();
+      const balance = await prisma.leaveBalance.findUnique({
+        where: {
+          employeeId_leaveTypeId_year: {
+            employeeId: employee.id,
+            leaveTypeId: leaveType.id,
+            year,
+          },
+        },
+      });
+
+      const remaining = balance
+        ? Number(balance.remainingDays)
+        : getUnallocatedEntitlement(leaveType, year, employee.dateOfJoining);
+      const pending = await getPendingLeaveDays(organizationId, employee.id, leaveType.id, year);
+      const available = remaining - pending;
+
+      if (totalDays > available) {
+        return sendError(
+          res,
+          `Insufficient ${leaveType.name} balance. Available: ${available} day(s), requested: ${totalDays} day(s)`,
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
+    // Leave types that do not require approval are approved immediately
+    const autoApprove = !leaveType.requiresApproval;
+
+    const leaveRequest = await prisma.$transaction(async (tx) => {
+      const created = await tx.leaveRequest.create({
+        data: {
+          organizationId,
+          employeeId: employee.id,
+          leaveTypeId: leaveType.id,
+          startDate,
+          endDate,
+          totalDays,
+          reason: reason || null,
+          status: autoApprove ? LEAVE_STATUS.APPROVED : LEAVE_STATUS.PENDING,
+          ...(autoApprove && { approvedAt: new Date() }),
+          createdBy: userId,
+          updatedBy: userId,
+        },
+        include: leaveRequestInclude,
+      });
+
+      if (autoApprove) {
+        await applyApprovedLeave(tx, created, leaveType, leaveDates, userId);
+      }
+
+      return created;
+    });
+
+    return sendSuccess(
+      res,
+      { leaveRequest },
+      autoApprove ? 'Leave approved successfully' : 'Leave request submitted successfully',
+      STATUS_CODES.CREATED
+    );
+  } catch (error) {
+    if (isLeaveBalanceError(error)) {
+      return sendError(res, error.message, STATUS_CODES.BAD_REQUEST);
+    }
+    console.error('Create leave request error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Approve leave request
+ * PATCH /api/:orgSlug/leave/requests/:id/approve
+ * Deducts the leave balance and marks attendance as Leave for each working day
+ */
+export const approveLeaveRequest = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id } = req.params;
+
+    const existing = await prisma.leaveRequest.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getLeaveScope(req),
+      },
+      include: { leaveType: true, employee: true },
+    });
+
+    if (!existing) {
+      return sendError(res, 'Leave request not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (existing.status !== LEAVE_STATUS.PENDING) {
+      return sendError(
+        res,
+        `Only pending leave requests can be approved. This request is ${existing.status}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (existing.employee.userId && existing.employee.userId === userId) {
+      return sendError(res, 'You cannot approve your own leave request', STATUS_CODES.FORBIDDEN);
+    }
+
+    // Requests submitted before year-spanning leave was rejected would draw the whole leave from one year
+    if (spansCalendarYears(existing.startDate, existing.endDate)) {
+      return sendError(
+        res,
+        `${LEAVE_SPANS_YEARS_MESSAGE}. Please reject or cancel this request`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    // Recompute days in case holidays changed since the request was submitted
+    const isHalfDay = Number(existing.totalDays) === 0.5;
+    const { totalDays, leaveDates } = await calculateLeaveDays(
+      organizationId,
+      existing.startDate,
+      existing.endDate,
+      isHalfDay
+    );
+
+    if (totalDays === 0) {
+      return sendError(
+        res,
+        'The requested dates now fall entirely on weekends or holidays. Please reject or cancel this request',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    // The remaining balance is checked when it is deducted (applyApprovedLeave), inside the transaction
+    const leaveRequest = await prisma.$transaction(async (tx) => {
+      // Only a request that is still pending is approved, so concurrent approvals cannot deduct the balance twice
+      const { count } = await tx.leaveRequest.updateMany({
+        where: { id: existing.id, status: LEAVE_STATUS.PENDING },
+        data: {
+          status: LEAVE_STATUS.APPROVED,
+          totalDays,
+          approvedBy: userId,
+          approvedAt: new Date(),
+          rejectionReason: null,
+          updatedBy: userId,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const updated = await tx.leaveRequest.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: leaveRequestInclude,
+      });
+
+      await applyApprovedLeave(tx, updated, existing.leaveType, leaveDates, userId);
+
+      return updated;
+    });
+
+    if (!leaveRequest) {
+      return sendError(res, LEAVE_REQUEST_CHANGED_MESSAGE, STATUS_CODES.CONFLICT);
+    }
+
+    return sendSuccess(res, { leaveRequest }, 'Leave request approved successfully');
+  } catch (error) {
+    if (isLeaveBalanceError(error)) {
+      return sendError(res, error.message, STATUS_CODES.BAD_REQUEST);
+    }
+    console.error('Approve leave request error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Reject leave request
+ * PATCH /api/:orgSlug/leave/requests/:id/reject
+ * Body: { rejectionReason }
+ */
+export const rejectLeaveRequest = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id } = req.params;
+    const { rejectionReason } = req.body;
+
+    if (!rejectionReason || !rejectionReason.trim()) {
+      return sendError(res, 'Rejection reason is required', STATUS_CODES.BAD_REQUEST);
+    }
+
+    const existing = await prisma.leaveRequest.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getLeaveScope(req),
+      },
+      include: { employee: true },
+    });
+
+    if (!existing) {
+      return sendError(res, 'Leave request not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (existing.status !== LEAVE_STATUS.PENDING) {
+      return sendError(
+        res,
+        `Only pending leave requests can be rejected. This request is ${existing.status}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (existing.employee.userId && existing.employee.userId === userId) {
+      return sendError(res, 'You cannot reject your own leave request', STATUS_CODES.FORBIDDEN);
+    }
+
+    const { count } = await prisma.leaveRequest.updateMany({
+      where: { id: existing.id, status: LEAVE_STATUS.PENDING },
+      data: {
+        status: LEAVE_STATUS.REJECTED,
+        rejectionReason: rejectionReason.trim(),
+        approvedBy: userId,
+        approvedAt: new Date(),
+        updatedBy: userId,
+      },
+    });
+
+    if (count === 0) {
+      return sendError(res, LEAVE_REQUEST_CHANGED_MESSAGE, STATUS_CODES.CONFLICT);
+    }
+
+    const leaveRequest = await prisma.leaveRequest.findUniqueOrThrow({
+      where: { id: existing.id },
+      include: leaveRequestInclude,
+    });
+
+    return sendSuccess(res, { leaveRequest }, 'Leave request rejected successfully');
+  } catch (error) {
+    console.error('Reject leave request error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Cancel leave request
+ * PATCH /api/:orgSlug/leave/requests/:id/cancel
+ * Cancelling an approved request restores the balance and clears Leave attendance
+ */
+export const cancelLeaveRequest = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+    const { id } = req.params;
+
+    const existing = await prisma.leaveRequest.findFirst({
+      where: {
+        id: parseInt(id),
+        organizationId,
+        employee: await getLeaveScope(req),
+      },
+      include: { leaveType: true },
+    });
+
+    if (!existing) {
+      return sendError(res, 'Leave request not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    if (![LEAVE_STATUS.PENDING, LEAVE_STATUS.APPROVED].includes(existing.status)) {
+      return sendError(
+        res,
+        `Only pending or approved leave requests can be cancelled. This request is ${existing.status}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const leaveRequest = await prisma.$transaction(async (tx) => {
+      // Guard on the status that was read, so an approval in between is not cancelled without restoring the balance
+      const { count } = await tx.leaveRequest.updateMany({
+        where: { id: existing.id, status: existing.status },
+        data: {
+          status: LEAVE_STATUS.CANCELLED,
+          updatedBy: userId,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      if (existing.status === LEAVE_STATUS.APPROVED) {
+        await revertApprovedLeave(tx, existing, existing.leaveType, userId);
+      }
+
+      return tx.leaveRequest.findUniqueOrThrow({
+        where: { id: existing.id },
+        include: leaveRequestInclude,
+      });
+    });
+
+    if (!leaveRequest) {
+      return sendError(res, LEAVE_REQUEST_CHANGED_MESSAGE, STATUS_CODES.CONFLICT);
+    }
+
+    return sendSuccess(res, { leaveRequest }, 'Leave request cancelled successfully');
+  } catch (error) {
+    console.error('Cancel leave request error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to get the employees in the user's data scope on leave
+ */
+function getLeaveScope(req: Request): Promise<Prisma.EmployeeWhereInput> {
+  return getEmployeeScopeWhere(prisma, (req as any).user, (req as any).organizationId, 'leave');
+}
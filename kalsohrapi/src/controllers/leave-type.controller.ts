@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -37,6 +38,11 @@ export const getAllLeaveTypes = async (req: Request, res: Response): Promise<Res
         isPaid: true,
         requiresApproval: true,
         maxConsecutiveDays: true,
+        isProrated: true,
+        carryForwardEnabled: true,
+        maxCarryForwardDays: true,
+        encashmentEnabled: true,
+        maxEncashmentDays: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -152,7 +158,21 @@ export const createLeaveType = async (req: Request, res: Response): Promise<Resp
   try {
     const organizationId = (req as any).organizationId;
     const userId = (req as any).user?.userId;
-    const { name, code, description, daysPerYear, isPaid, requiresApproval, maxConsecutiveDays, isActive } = req.body;
+    const {
+      name,
+      code,
+      description,
+      daysPerYear,
+      isPaid,
+      requiresApproval,
+      maxConsecutiveDays,
+      isProrated,
+      carryForwardEnabled,
+      maxCarryForwardDays,
+      encashmentEnabled,
+      maxEncashmentDays,
+      isActive,
+    } = req.body;
 
     // Validation
     if (!name) {
@@ -191,6 +211,12 @@ export const createLeaveType = async (req: Request, res: Response): Promise<Resp
       }
     }
 
+    // Carry-forward and encashment caps validation
+    const capError = validateAllocationCaps(maxCarryForwardDays, maxEncashmentDays);
+    if (capError) {
+      return sendError(res, capError, STATUS_CODES.BAD_REQUEST);
+    }
+
     // Check if code already exists for this organization
     if (code) {
       const existing = await prisma.leaveType.findFirst({
@@ -218,6 +244,11 @@ export const createLeaveType = async (req: Request, res: Response): Promise<Resp
         isPaid: isPaid !== undefined ? isPaid : true,
         requiresApproval: requiresApproval !== undefined ? requiresApproval : true,
         maxConsecutiveDays: maxConsecutiveDays || null,
+        isProrated: isProrated !== undefined ? isProrated : true,
+        carryForwardEnabled: carryForwardEnabled !== undefined ? carryForwardEnabled : false,
+        maxCarryForwardDays: maxCarryForwardDays ?? null,
+        encashmentEnabled: encashmentEnabled !== undefined ? encashmentEnabled : false,
+        maxEncashmentDays: maxEncashmentDays ?? null,
         organizationId,
         isActive: isActive !== undefined ? isActive : true,
         createdBy: userId,
@@ -225,6 +256,13 @@ export const createLeaveType = async (req: Request, res: Response): Promise<Resp
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'LeaveType',
+      entityId: leaveType.id,
+      newValues: leaveType,
+    });
+
     return sendSuccess(res, { leaveType }, 'Leave type created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create leave type error:', error);
@@ -241,7 +279,21 @@ export const updateLeaveType = async (req: Request, res: Response): Promise<Resp
     const organizationId = (req as any).organizationId;
     const userId = (req as any).user?.userId;
     const { id } = req.params;
-    const { name, code, description, daysPerYear, isPaid, requiresApproval, maxConsecutiveDays, isActive } = req.body;
+    const {
+      name,
+      code,
+      description,
+      daysPerYear,
+      isPaid,
+      requiresApproval,
+      maxConsecutiveDays,
+      isProrated,
+      carryForwardEnabled,
+      maxCarryForwardDays,
+      encashmentEnabled,
+      maxEncashmentDays,
+      isActive,
+    } = req.body;
 
     // Check if leave type exists and belongs to this organization
     const existing = await prisma.leaveType.findFirst({
@@ -286,6 +338,12 @@ export const updateLeaveType = async (req: Request, res: Response): Promise<Resp
       }
     }
 
+    // Carry-forward and encashment caps validation (if provided)
+    const capError = validateAllocationCaps(maxCarryForwardDays, maxEncashmentDays);
+    if (capError) {
+      return sendError(res, capError, STATUS_CODES.BAD_REQUEST);
+    }
+
     // If code is being changed, check for duplicates
     if (code && code.toUpperCase() !== existing.code) {
       const duplicate = await prisma.leaveType.findFirst({
@@ -314,11 +372,24 @@ export const updateLeaveType = async (req: Request, res: Response): Promise<Resp
         ...(isPaid !== undefined && { isPaid }),
         ...(requiresApproval !== undefined && { requiresApproval }),
         ...(maxConsecutiveDays !== undefined && { maxConsecutiveDays }),
+        ...(isProrated !== undefined && { isProrated }),
+        ...(carryForwardEnabled !== undefined && { carryForwardEnabled }),
+        ...(maxCarryForwardDays !== undefined && { maxCarryForwardDays }),
+        ...(encashmentEnabled !== undefined && { encashmentEnabled }),
+        ...(maxEncashmentDays !== undefined && { maxEncashmentDays }),
         ...(isActive !== undefined && { isActive }),
         updatedBy: userId,
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'LeaveType',
+      entityId: leaveType.id,
+      oldValues: existing,
+      newValues: leaveType,
+    });
+
     return sendSuccess(res, { leaveType }, 'Leave type updated successfully');
   } catch (error) {
     console.error('Update leave type error:', error);
@@ -373,9 +444,36 @@ export const deleteLeaveType = async (req: Request, res: Response): Promise<Resp
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'LeaveType',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'Leave type deleted successfully');
   } catch (error) {
     console.error('Delete leave type error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
   }
 };
+
+/**
+ * Helper function to validate carry-forward and encashment caps
+ * Caps are optional; null means no cap
+ */
+function validateAllocationCaps(maxCarryForwardDays: any, maxEncashmentDays: any): string | null {
+  if (maxCarryForwardDays !== undefined && maxCarryForwardDays !== null) {
+    if (typeof maxCarryForwardDays !== 'number' || maxCarryForwardDays < 0 || maxCarryForwardDays > 365) {
+      return 'Max carry forward days must be a number between 0 and 365';
+    }
+  }
+
+  if (maxEncashmentDays !== undefined && maxEncashmentDays !== null) {
+    if (typeof maxEncashmentDays !== 'number' || maxEncashmentDays < 0 || maxEncashmentDays > 365) {
+      return 'Max encashment days must be a number between 0 and 365';
+    }
+  }
+
+  return null;
+}
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -162,6 +163,13 @@ export const createMaritalStatus = async (req: Request, res: Response): Promise<
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'MaritalStatus',
+      entityId: maritalStatus.id,
+      newValues: maritalStatus,
+    });
+
     return sendSuccess(res, { maritalStatus }, 'Marital status created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create marital status error:', error);
@@ -210,6 +218,14 @@ export const updateMaritalStatus = async (req: Request, res: Response): Promise<
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'MaritalStatus',
+      entityId: maritalStatus.id,
+      oldValues: existingMaritalStatus,
+      newValues: maritalStatus,
+    });
+
     return sendSuccess(res, { maritalStatus }, 'Marital status updated successfully');
   } catch (error) {
     console.error('Update marital status error:', error);
@@ -248,6 +264,13 @@ export const deleteMaritalStatus = async (req: Request, res: Response): Promise<
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'MaritalStatus',
+      entityId: existingMaritalStatus.id,
+      oldValues: existingMaritalStatus,
+    });
+
     return sendSuccess(res, null, 'Marital status deleted successfully');
   } catch (error) {
     console.error('Delete marital status error:', error);
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, AUDIT_ACTIONS } from '../config/constants';
 
 /**
  * Get all platform modules (SuperAdmin only)
@@ -303,6 +304,11 @@ export const updateOrganizationModules = async (
       return sendError(res, 'Organization not found', STATUS_CODES.NOT_FOUND);
     }
 
+    const previousModules = await prisma.organizationModule.findMany({
+      where: { organizationId: Number(orgId) },
+      include: { orgModule: true },
+    });
+
     // Get plan module IDs
     const planModuleIds = new Set(
       org.subscriptionPlan?.planModules.map((pm) => pm.orgModuleId) || []
@@ -362,6 +368,21 @@ export const updateOrganizationModules = async (
       include: { orgModule: true },
     });
 
+    // Recorded as module code -> enabled flag; modules without a row count as disabled
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OrganizationModule',
+      entityId: org.id,
+      oldValues: Object.fromEntries(
+        updatedModules.map((om) => [
+          om.orgModule.code,
+          previousModules.find((prev) => prev.orgModuleId === om.orgModuleId)?.isEnabled ?? false,
+        ])
+      ),
+      newValues: Object.fromEntries(updatedModules.map((om) => [om.orgModule.code, om.isEnabled])),
+      organizationId: org.id,
+    });
+
     return sendSuccess(
       res,
       { modules: updatedModules },
@@ -0,0 +1,62 @@
+import { Request, Response } from 'express';
+import { prisma } from '../index';
+import { sendSuccess, sendError } from '../utils/response';
+import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { buildOrgChart, resolveReportingLine } from '../utils/org-chart';
+
+/**
+ * Get the org chart: the position hierarchy with the employees filling each position,
+ * vacancies (head count minus occupants) and rollups per subtree
+ * GET /api/:orgSlug/employees/org-chart
+ * Query: rootPositionId?, departmentId?, includeInactive?
+ */
+export const getOrgChart = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { rootPositionId, departmentId, includeInactive } = req.query;
+
+    const rootId = rootPositionId ? parseInt(rootPositionId as string) : undefined;
+    if (rootId !== undefined) {
+      const root = isNaN(rootId)
+        ? null
+        : await prisma.organizationalPosition.findFirst({ where: { id: rootId, organizationId }, select: { id: true } });
+
+      if (!root) {
+        return sendError(res, 'Organizational position not found', STATUS_CODES.NOT_FOUND);
+      }
+    }
+
+    const chart = await buildOrgChart(prisma, organizationId, {
+      rootPositionId: rootId,
+      departmentId: departmentId ? parseInt(departmentId as string) || undefined : undefined,
+      includeInactive: includeInactive === 'true',
+    });
+
+    return sendSuccess(res, chart, 'Org chart retrieved successfully');
+  } catch (error) {
+    console.error('Get org chart error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Get the reporting line of an employee: their manager(s), the chain above and their direct reports
+ * GET /api/:orgSlug/employees/:id/manager
+ */
+export const getEmployeeManager = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const employeeId = parseInt(req.params.id);
+
+    const reportingLine = isNaN(employeeId) ? null : await resolveReportingLine(prisma, organizationId, employeeId);
+
+    if (!reportingLine) {
+      return sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+    }
+
+    return sendSuccess(res, reportingLine, 'Reporting line retrieved successfully');
+  } catch (error) {
+    console.error('Get employee manager error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
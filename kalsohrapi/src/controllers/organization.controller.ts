@@ -2,8 +2,17 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES, ORG_STATUS } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, ORG_STATUS, AUDIT_ACTIONS, DOCUMENT_REMINDERS, OFFBOARDING } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
+import {
+  deleteOrganizationFile,
+  getStorageUsage,
+  getUsedBytesByOrganization,
+  toStorageUsage,
+} from '../utils/storage-usage';
+import { parseReminderDays } from '../utils/document-compliance';
+import { validateEmployeeCodePattern } from '../utils/employee-code';
 
 /**
  * Get all organizations (Super Admin only)
@@ -73,6 +82,7 @@ export const getAllOrganizations = async (
               id: true,
               name: true,
               code: true,
+              maxStorageMb: true,
             },
           },
           _count: {
@@ -87,6 +97,13 @@ export const getAllOrganizations = async (
       prisma.organization.count({ where }),
     ]);
 
+    // Attach storage usage against the plan limit
+    const usedBytes = await getUsedBytesByOrganization(organizations.map(org => org.id));
+    const organizationsWithUsage = organizations.map(org => ({
+      ...org,
+      storageUsage: toStorageUsage(usedBytes.get(org.id) || 0, org.subscriptionPlan.maxStorageMb),
+    }));
+
     // Only fetch and attach creator/updater details if user has permission
     if (canViewAudit) {
       const userIds = new Set<number>();
@@ -107,7 +124,7 @@ export const getAllOrganizations = async (
 
       const userMap = new Map(users.map(u => [u.id, u]));
 
-      const organizationsWithAudit = organizations.map(org => ({
+      const organizationsWithAudit = organizationsWithUsage.map(org => ({
         ...org,
         creator: org.createdBy ? userMap.get(org.createdBy) : null,
         updater: org.updatedBy ? userMap.get(org.updatedBy) : null,
@@ -131,7 +148,7 @@ export const getAllOrganizations = async (
     return sendSuccess(
       res,
       {
-        organizations,
+        organizations: organizationsWithUsage,
         pagination: {
           page: Number(page),
           limit: Number(limit),
@@ -193,6 +210,8 @@ export const getOrganizationById = async (
       );
     }
 
+    const storageUsage = await getStorageUsage(organization.id);
+
     if (canViewAudit) {
       const userIds: number[] = [];
       if (organization.createdBy) userIds.push(organization.createdBy);
@@ -212,6 +231,7 @@ export const getOrganizationById = async (
 
       const organizationWithAudit = {
         ...organization,
+        storageUsage,
         creator: organization.createdBy ? userMap.get(organization.createdBy) : null,
         updater: organization.updatedBy ? userMap.get(organization.updatedBy) : null,
       };
@@ -225,7 +245,7 @@ export const getOrganizationById = async (
 
     return sendSuccess(
       res,
-      { organization },
+      { organization: { ...organization, storageUsage } },
       'Organization retrieved successfully'
     );
   } catch (error) {
@@ -449,6 +469,10 @@ export const createOrganization = async (
           canDelete: true,
           canApprove: true,
           canExport: true,
+          canViewCompensation: true,
+          canViewGovernmentIds: true,
+          canViewBankDetails: true,
+          canViewFamilyDetails: true,
         })),
       });
     }
@@ -505,6 +529,14 @@ export const createOrganization = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Organization',
+      entityId: organization.id,
+      newValues: organization,
+      organizationId: organization.id,
+    });
+
     return sendSuccess(
       res,
       { organization: orgWithDetails },
@@ -639,6 +671,15 @@ export const updateOrganization = async (
       }
     }
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Organization',
+      entityId: organization.id,
+      oldValues: existingOrg,
+      newValues: organization,
+      organizationId: organization.id,
+    });
+
     return sendSuccess(
       res,
       { organization },
@@ -701,6 +742,15 @@ export const deleteOrganization = async (
       where: { id: Number(id) },
     });
 
+    // Not linked to the organization: its audit rows are removed with it (cascade)
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Organization',
+      entityId: organization.id,
+      oldValues: organization,
+      organizationId: null,
+    });
+
     return sendSuccess(
       res,
       null,
@@ -1048,6 +1098,13 @@ export const createSubscriptionPlan = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'SubscriptionPlan',
+      entityId: plan.id,
+      newValues: plan,
+    });
+
     return sendSuccess(
       res,
       { plan: planWithModules },
@@ -1154,6 +1211,14 @@ export const updateSubscriptionPlan = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'SubscriptionPlan',
+      entityId: plan.id,
+      oldValues: existingPlan,
+      newValues: plan,
+    });
+
     return sendSuccess(
       res,
       { plan },
@@ -1224,6 +1289,14 @@ export const deleteSubscriptionPlan = async (
       },
     });
 
+    // Soft delete: recorded as a deactivation
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'SubscriptionPlan',
+      entityId: plan.id,
+      oldValues: plan,
+    });
+
     return sendSuccess(
       res,
       null,
@@ -1382,10 +1455,13 @@ export const getOrganizationProfile = async (
       }),
     ]);
 
+    const storageUsage = await getStorageUsage(organization.id);
+
     const statistics = {
       totalUsers,
       totalEmployees,
-      storageUsedMb: 0, // Placeholder for future implementation
+      storageUsedMb: storageUsage.usedMb,
+      storageUsage,
       enabledModulesCount,
     };
 
@@ -1447,12 +1523,11 @@ export const updateOrganizationProfile = async (
     // Handle logo upload from multer
     let logoPath = undefined;
     if (req.file) {
-      logoPath = `/uploads/organizations/${req.file.filename}`;
+      logoPath = req.file.path;
 
       // Delete old logo if exists
       if (organization.logo) {
-        const { deleteOldProfilePicture } = require('../middleware/upload.middleware');
-        deleteOldProfilePicture(organization.logo);
+        await deleteOrganizationFile(organization.logo);
       }
     }
 
@@ -1594,6 +1669,14 @@ export const updateOrganizationProfile = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Organization',
+      entityId: organization.id,
+      oldValues: organization,
+      newValues: updatedOrg,
+    });
+
     return sendSuccess(
       res,
       { organization: updatedOrg },
@@ -1611,7 +1694,7 @@ export const updateOrganizationProfile = async (
 };
 
 /**
- * Update organization settings (timezone, etc.)
+ * Update organization settings (timezone, document reminder days, employee code generation, default notice period)
  * PUT /api/:orgSlug/organization/settings
  */
 export const updateOrganizationSettings = async (
@@ -1630,7 +1713,13 @@ export const updateOrganizationSettings = async (
       );
     }
 
-    const { timezone } = req.body;
+    const {
+      timezone,
+      documentReminderDays,
+      employeeCodeAutoGenerate,
+      employeeCodePattern,
+      defaultNoticePeriodDays,
+    } = req.body;
 
     // Validate timezone if provided
     if (timezone) {
@@ -1646,11 +1735,54 @@ export const updateOrganizationSettings = async (
       }
     }
 
+    // Validate document reminder days if provided (e.g. "30,7,0")
+    let reminderDays: number[] | null = null;
+    if (documentReminderDays !== undefined) {
+      reminderDays = parseReminderDays(documentReminderDays);
+      if (!reminderDays) {
+        return sendError(
+          res,
+          `Invalid document reminder days. Provide up to ${DOCUMENT_REMINDERS.MAX_STAGES} comma-separated numbers of days before expiry between 0 and ${DOCUMENT_REMINDERS.MAX_DAYS} (e.g. "30,7,0")`,
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
+    // Validate employee code settings if provided
+    if (employeeCodeAutoGenerate !== undefined && typeof employeeCodeAutoGenerate !== 'boolean') {
+      return sendError(res, 'employeeCodeAutoGenerate must be true or false', STATUS_CODES.BAD_REQUEST);
+    }
+
+    if (employeeCodePattern !== undefined) {
+      const patternError = validateEmployeeCodePattern(employeeCodePattern);
+      if (patternError) {
+        return sendError(res, patternError, STATUS_CODES.BAD_REQUEST);
+      }
+    }
+
+    // Validate default notice period if provided
+    if (
+      defaultNoticePeriodDays !== undefined &&
+      (!Number.isInteger(defaultNoticePeriodDays) ||
+        defaultNoticePeriodDays < 0 ||
+        defaultNoticePeriodDays > OFFBOARDING.MAX_NOTICE_PERIOD_DAYS)
+    ) {
+      return sendError(
+        res,
+        `Default notice period must be a whole number of days between 0 and ${OFFBOARDING.MAX_NOTICE_PERIOD_DAYS}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
     // Update organization settings
     const updatedOrg = await prisma.organization.update({
       where: { id: organization.id },
       data: {
         ...(timezone !== undefined && { timezone }),
+        ...(reminderDays && { documentReminderDays: reminderDays.join(',') }),
+        ...(employeeCodeAutoGenerate !== undefined && { employeeCodeAutoGenerate }),
+        ...(employeeCodePattern !== undefined && { employeeCodePattern: employeeCodePattern.trim() }),
+        ...(defaultNoticePeriodDays !== undefined && { defaultNoticePeriodDays }),
         updatedBy: userId,
       },
       select: {
@@ -1667,6 +1799,10 @@ export const updateOrganizationSettings = async (
         cityId: true,
         postalCode: true,
         timezone: true,
+        documentReminderDays: true,
+        employeeCodeAutoGenerate: true,
+        employeeCodePattern: true,
+        defaultNoticePeriodDays: true,
         organizationTypeId: true,
         industryTypeId: true,
         businessCategoryId: true,
@@ -1689,6 +1825,14 @@ export const updateOrganizationSettings = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Organization',
+      entityId: organization.id,
+      oldValues: organization,
+      newValues: updatedOrg,
+    });
+
     return sendSuccess(
       res,
       updatedOrg,
@@ -1,8 +1,17 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
+import { loadPositionGraph } from '../utils/org-chart';
+import {
+  applyPositionMove,
+  checkHierarchyIntegrity,
+  findCycleWithReportingPosition,
+  PositionMove,
+  previewPositionMove,
+} from '../utils/position-hierarchy';
 
 /**
  * Get all organizational positions for the organization
@@ -12,7 +21,7 @@ export const getAllOrganizationalPositions = async (req: Request, res: Response)
   try {
     const organizationId = (req as any).organizationId;
     const user = (req as any).user;
-    const { isActive, departmentId, designationId } = req.query;
+    const { isActive, departmentId, designationId, branchId } = req.query;
 
     const where: any = {
       organizationId,
@@ -30,6 +39,10 @@ export const getAllOrganizationalPositions = async (req: Request, res: Response)
       where.designationId = parseInt(designationId as string);
     }
 
+    if (branchId) {
+      where.branchId = parseInt(branchId as string);
+    }
+
     const canViewAudit = await canViewAuditInfo(user, 'master_data');
 
     const organizationalPositions = await prisma.organizationalPosition.findMany({
@@ -42,6 +55,7 @@ export const getAllOrganizationalPositions = async (req: Request, res: Response)
         description: true,
         departmentId: true,
         designationId: true,
+        branchId: true,
         reportingPositionId: true,
         headCount: true,
         isActive: true,
@@ -64,6 +78,13 @@ export const getAllOrganizationalPositions = async (req: Request, res: Response)
             level: true,
           },
         },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
         reportingPosition: {
           select: {
             id: true,
@@ -140,6 +161,13 @@ export const getOrganizationalPositionById = async (req: Request, res: Response)
             level: true,
           },
         },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
         reportingPosition: {
           select: {
             id: true,
@@ -167,50 +195,6 @@ export const getOrganizationalPositionById = async (req: Request, res: Response)
   }
 };
 
-/**
- * Helper function to check for circular reporting hierarchy
- */
-const checkCircularHierarchy = async (
-  positionId: number,
-  reportingPositionId: number,
-  organizationId: number
-): Promise<boolean> => {
-  let currentId: number | null = reportingPositionId;
-  const visited = new Set<number>();
-
-  while (currentId !== null) {
-    // If we encounter the position we're trying to update, it's circular
-    if (currentId === positionId) {
-      return true;
-    }
-
-    // Prevent infinite loops
-    if (visited.has(currentId)) {
-      return true;
-    }
-    visited.add(currentId);
-
-    // Get the next level up
-    const position: { reportingPositionId: number | null } | null = await prisma.organizationalPosition.findFirst({
-      where: {
-        id: currentId,
-        organizationId,
-      },
-      select: {
-        reportingPositionId: true,
-      },
-    });
-
-    if (!position) {
-      break;
-    }
-
-    currentId = position.reportingPositionId;
-  }
-
-  return false;
-};
-
 /**
  * Create organizational position
  * POST /api/:orgSlug/masters/organizational-positions
@@ -218,7 +202,7 @@ const checkCircularHierarchy = async (
 export const createOrganizationalPosition = async (req: Request, res: Response): Promise<Response> => {
   try {
     const organizationId = (req as any).organizationId;
-    const { title, code, description, departmentId, designationId, reportingPositionId, headCount, isActive } =
+    const { title, code, description, departmentId, designationId, branchId, reportingPositionId, headCount, isActive } =
       req.body;
 
     // Validation
@@ -272,6 +256,24 @@ export const createOrganizationalPosition = async (req: Request, res: Response):
       );
     }
 
+    // Verify branch exists and belongs to this organization (if provided)
+    if (branchId) {
+      const branch = await prisma.branch.findFirst({
+        where: {
+          id: branchId,
+          organizationId,
+        },
+      });
+
+      if (!branch) {
+        return sendError(
+          res,
+          'Branch not found or does not belong to this organization',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
     // Check if code already exists for this organization
     if (code) {
       const existingCode = await prisma.organizationalPosition.findFirst({
@@ -335,6 +337,7 @@ export const createOrganizationalPosition = async (req: Request, res: Response):
         description: description || null,
         departmentId,
         designationId,
+        branchId: branchId || null,
         reportingPositionId: reportingPositionId || null,
         headCount: hc,
         isActive: isActive !== undefined ? isActive : true,
@@ -356,6 +359,13 @@ export const createOrganizationalPosition = async (req: Request, res: Response):
             level: true,
           },
         },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
         reportingPosition: {
           select: {
             id: true,
@@ -366,6 +376,13 @@ export const createOrganizationalPosition = async (req: Request, res: Response):
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'OrganizationalPosition',
+      entityId: organizationalPosition.id,
+      newValues: organizationalPosition,
+    });
+
     return sendSuccess(
       res,
       { organizationalPosition },
@@ -386,7 +403,7 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
   try {
     const organizationId = (req as any).organizationId;
     const { id } = req.params;
-    const { title, code, description, departmentId, designationId, reportingPositionId, headCount, isActive } =
+    const { title, code, description, departmentId, designationId, branchId, reportingPositionId, headCount, isActive } =
       req.body;
 
     // Check if organizational position exists and belongs to this organization
@@ -442,6 +459,24 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
       }
     }
 
+    // Verify branch exists and belongs to this organization (if provided)
+    if (branchId) {
+      const branch = await prisma.branch.findFirst({
+        where: {
+          id: branchId,
+          organizationId,
+        },
+      });
+
+      if (!branch) {
+        return sendError(
+          res,
+          'Branch not found or does not belong to this organization',
+          STATUS_CODES.BAD_REQUEST
+        );
+      }
+    }
+
     // If code is being changed, check for duplicates
     if (code && code.toUpperCase() !== existing.code) {
       const duplicate = await prisma.organizationalPosition.findFirst({
@@ -508,13 +543,15 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
           );
         }
 
-        // Check for circular hierarchy
-        const isCircular = await checkCircularHierarchy(parseInt(id), reportingPositionId, organizationId);
+        // Check for circular hierarchy (including a position reporting to itself or to one of its subordinates)
+        const graph = await loadPositionGraph(prisma, organizationId);
+        const cycle = findCycleWithReportingPosition(graph, existing.id, reportingPositionId);
 
-        if (isCircular) {
+        if (cycle) {
+          const path = [...cycle, cycle[0]].map((position) => position.title).join(' → ');
           return sendError(
             res,
-            'Cannot set this reporting position as it would create a circular hierarchy',
+            `Cannot set this reporting position as it would create a circular hierarchy (${path})`,
             STATUS_CODES.BAD_REQUEST
           );
         }
@@ -529,6 +566,7 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
         ...(description !== undefined && { description }),
         ...(departmentId && { departmentId }),
         ...(designationId && { designationId }),
+        ...(branchId !== undefined && { branchId: branchId || null }),
         ...(reportingPositionId !== undefined && { reportingPositionId }),
         ...(headCount !== undefined && { headCount }),
         ...(isActive !== undefined && { isActive }),
@@ -549,6 +587,13 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
             level: true,
           },
         },
+        branch: {
+          select: {
+            id: true,
+            name: true,
+            code: true,
+          },
+        },
         reportingPosition: {
           select: {
             id: true,
@@ -559,6 +604,14 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OrganizationalPosition',
+      entityId: organizationalPosition.id,
+      oldValues: existing,
+      newValues: organizationalPosition,
+    });
+
     return sendSuccess(res, { organizationalPosition }, 'Organizational position updated successfully');
   } catch (error) {
     console.error('Update organizational position error:', error);
@@ -569,11 +622,14 @@ export const updateOrganizationalPosition = async (req: Request, res: Response):
 /**
  * Delete organizational position
  * DELETE /api/:orgSlug/masters/organizational-positions/:id
+ * Query: reattachSubordinates? - move the subordinate positions up to the deleted position's reporting position
  */
 export const deleteOrganizationalPosition = async (req: Request, res: Response): Promise<Response> => {
   try {
     const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
     const { id } = req.params;
+    const reattachSubordinates = req.query.reattachSubordinates === 'true';
 
     // Check if organizational position exists and belongs to this organization
     const existing = await prisma.organizationalPosition.findFirst({
@@ -584,6 +640,12 @@ export const deleteOrganizationalPosition = async (req: Request, res: Response):
       include: {
         employees: true,
         subordinatePositions: true,
+        reportingPosition: {
+          select: {
+            id: true,
+            title: true,
+          },
+        },
       },
     });
 
@@ -600,22 +662,175 @@ export const deleteOrganizationalPosition = async (req: Request, res: Response):
       );
     }
 
-    // Check if organizational position has subordinate positions
-    if (existing.subordinatePositions.length > 0) {
+    // Subordinate positions would be left without a reporting position unless they are moved up
+    if (existing.subordinatePositions.length > 0 && !reattachSubordinates) {
       return sendError(
         res,
-        `Cannot delete organizational position with ${existing.subordinatePositions.length} subordinate positions. Please reassign them first.`,
+        `Cannot delete organizational position with ${existing.subordinatePositions.length} subordinate positions. Please reassign them first, or move them up to ${
+          existing.reportingPosition ? existing.reportingPosition.title : 'the top of the hierarchy'
+        }.`,
         STATUS_CODES.BAD_REQUEST
       );
     }
 
-    await prisma.organizationalPosition.delete({
-      where: { id: parseInt(id) },
+    const reattached = await prisma.$transaction(async (tx) => {
+      const { count } = await tx.organizationalPosition.updateMany({
+        where: { organizationId, reportingPositionId: existing.id },
+        data: { reportingPositionId: existing.reportingPositionId, updatedBy: userId },
+      });
+
+      await tx.organizationalPosition.delete({
+        where: { id: existing.id },
+      });
+
+      return count;
     });
 
-    return sendSuccess(res, null, 'Organizational position deleted successfully');
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'OrganizationalPosition',
+      entityId: existing.id,
+      oldValues: existing,
+      ...(reattached > 0 && {
+        newValues: {
+          reattachedSubordinates: existing.subordinatePositions.map((position) => position.id),
+          reportingPositionId: existing.reportingPositionId,
+        },
+      }),
+    });
+
+    return sendSuccess(
+      res,
+      { reattachedSubordinates: reattached },
+      'Organizational position deleted successfully'
+    );
   } catch (error) {
     console.error('Delete organizational position error:', error);
     return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
   }
 };
+
+/**
+ * Check the position hierarchy for reporting cycles, missing reporting positions
+ * and active positions reporting to inactive ones
+ * GET /api/:orgSlug/masters/organizational-positions/hierarchy/issues
+ */
+export const getPositionHierarchyIssues = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const issues = await checkHierarchyIntegrity(prisma, organizationId);
+
+    return sendSuccess(res, { issues }, 'Position hierarchy checked successfully');
+  } catch (error) {
+    console.error('Check position hierarchy error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Preview moving a position: the positions that get a new reporting position
+ * and the employees whose manager changes, without saving anything
+ * POST /api/:orgSlug/masters/organizational-positions/:id/move/preview
+ * Body: reportingPositionId (null for the top of the hierarchy), mode? ('subtree' | 'position')
+ */
+export const previewMoveOrganizationalPosition = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+
+    const move = parseMove(req);
+    if (typeof move === 'string') {
+      return sendError(res, move, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const preview = await previewPositionMove(prisma, organizationId, move);
+    if ('error' in preview) {
+      return sendError(
+        res,
+        preview.error,
+        preview.error === 'Organizational position not found' ? STATUS_CODES.NOT_FOUND : STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    return sendSuccess(res, preview, 'Restructure preview generated successfully');
+  } catch (error) {
+    console.error('Preview move organizational position error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Move a position under a new reporting position in one transaction
+ * mode 'subtree' (default) moves the whole branch; mode 'position' moves only the position,
+ * and its subordinates move up to its old reporting position
+ * POST /api/:orgSlug/masters/organizational-positions/:id/move
+ * Body: reportingPositionId (null for the top of the hierarchy), mode? ('subtree' | 'position')
+ */
+export const moveOrganizationalPosition = async (req: Request, res: Response): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const userId = (req as any).user?.userId;
+
+    const move = parseMove(req);
+    if (typeof move === 'string') {
+      return sendError(res, move, STATUS_CODES.BAD_REQUEST);
+    }
+
+    const result = await prisma.$transaction((tx) => applyPositionMove(tx, organizationId, move, userId));
+    if ('error' in result) {
+      return sendError(
+        res,
+        result.error,
+        result.error === 'Organizational position not found' ? STATUS_CODES.NOT_FOUND : STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const { plan } = result;
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OrganizationalPosition',
+      entityId: plan.position.id,
+      oldValues: { reportingPositionId: plan.from?.id ?? null },
+      newValues: {
+        reportingPositionId: plan.to?.id ?? null,
+        mode: plan.mode,
+        changes: plan.changes.map((change) => ({
+          positionId: change.position.id,
+          from: change.from?.id ?? null,
+          to: change.to?.id ?? null,
+        })),
+      },
+    });
+
+    return sendSuccess(res, { plan }, 'Organizational position moved successfully');
+  } catch (error) {
+    console.error('Move organizational position error:', error);
+    return sendError(res, MESSAGES.GENERAL.ERROR, STATUS_CODES.INTERNAL_SERVER_ERROR, error);
+  }
+};
+
+/**
+ * Helper function to read a move from the request, or return the validation error
+ */
+function parseMove(req: Request): PositionMove | string {
+  const positionId = parseInt(req.params.id);
+  const { reportingPositionId, mode } = req.body;
+
+  if (isNaN(positionId)) {
+    return 'Invalid organizational position';
+  }
+
+  if (reportingPositionId === undefined) {
+    return 'Reporting position is required (null to move to the top of the hierarchy)';
+  }
+
+  if (reportingPositionId !== null && !Number.isInteger(reportingPositionId)) {
+    return 'Invalid reporting position';
+  }
+
+  if (mode !== undefined && mode !== 'subtree' && mode !== 'position') {
+    return "Mode must be 'subtree' or 'position'";
+  }
+
+  return { positionId, reportingPositionId, mode: mode ?? 'subtree' };
+}
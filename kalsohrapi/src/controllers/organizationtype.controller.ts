@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -164,6 +165,13 @@ export const createOrganizationType = async (req: Request, res: Response): Promi
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'OrganizationType',
+      entityId: organizationType.id,
+      newValues: organizationType,
+    });
+
     return sendSuccess(res, { organizationType }, 'Organization type created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create organization type error:', error);
@@ -213,6 +221,14 @@ export const updateOrganizationType = async (req: Request, res: Response): Promi
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'OrganizationType',
+      entityId: organizationType.id,
+      oldValues: existingOrganizationType,
+      newValues: organizationType,
+    });
+
     return sendSuccess(res, { organizationType }, 'Organization type updated successfully');
   } catch (error) {
     console.error('Update organization type error:', error);
@@ -251,6 +267,13 @@ export const deleteOrganizationType = async (req: Request, res: Response): Promi
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'OrganizationType',
+      entityId: existingOrganizationType.id,
+      oldValues: existingOrganizationType,
+    });
+
     return sendSuccess(res, null, 'Organization type deleted successfully');
   } catch (error) {
     console.error('Delete organization type error:', error);
@@ -1,7 +1,9 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, AUDIT_ACTIONS, DATA_SCOPES } from '../config/constants';
+import { isValidDataScope } from '../utils/data-scope';
 
 const prisma = new PrismaClient();
 
@@ -87,11 +89,16 @@ export const getRolePermissions = async (req: Request, res: Response) => {
         canDelete: true,
         canApprove: true,
         canExport: true,
+        canViewCompensation: true,
+        canViewGovernmentIds: true,
+        canViewBankDetails: true,
+        canViewFamilyDetails: true,
+        dataScope: true,
       },
     });
 
     // Create a map of module permissions (by moduleCode for backward compatibility)
-    const permissionMap: Record<string, { canRead: boolean; canWrite: boolean; canUpdate: boolean; canDelete: boolean; canApprove: boolean; canExport: boolean }> = {};
+    const permissionMap: Record<string, { canRead: boolean; canWrite: boolean; canUpdate: boolean; canDelete: boolean; canApprove: boolean; canExport: boolean; canViewCompensation: boolean; canViewGovernmentIds: boolean; canViewBankDetails: boolean; canViewFamilyDetails: boolean; dataScope: string }> = {};
     permissions.forEach((perm) => {
       permissionMap[perm.moduleCode] = {
         canRead: perm.canRead,
@@ -100,6 +107,11 @@ export const getRolePermissions = async (req: Request, res: Response) => {
         canDelete: perm.canDelete,
         canApprove: perm.canApprove,
         canExport: perm.canExport,
+        canViewCompensation: perm.canViewCompensation,
+        canViewGovernmentIds: perm.canViewGovernmentIds,
+        canViewBankDetails: perm.canViewBankDetails,
+        canViewFamilyDetails: perm.canViewFamilyDetails,
+        dataScope: perm.dataScope,
       };
     });
 
@@ -113,6 +125,11 @@ export const getRolePermissions = async (req: Request, res: Response) => {
         canDelete: false,
         canApprove: false,
         canExport: false,
+        canViewCompensation: false,
+        canViewGovernmentIds: false,
+        canViewBankDetails: false,
+        canViewFamilyDetails: false,
+        dataScope: DATA_SCOPES.ORGANIZATION,
       },
     }));
 
@@ -135,7 +152,8 @@ export const getRolePermissions = async (req: Request, res: Response) => {
 /**
  * Update permissions for a role
  * PUT /api/superadmin/permissions/:roleId
- * Body: { permissions: [{ moduleCode, canRead, canWrite, canUpdate, canDelete, canApprove, canExport }] }
+ * Body: { permissions: [{ moduleCode, canRead, canWrite, canUpdate, canDelete, canApprove, canExport, canViewCompensation, canViewGovernmentIds, canViewBankDetails, canViewFamilyDetails, dataScope }] }
+ * dataScope (own, reports, department, branch, organization) limits the employees, attendance and leave records reached
  */
 export const updateRolePermissions = async (req: Request, res: Response) => {
   try {
@@ -146,6 +164,15 @@ export const updateRolePermissions = async (req: Request, res: Response) => {
       return sendError(res, 'Permissions array is required', STATUS_CODES.BAD_REQUEST);
     }
 
+    const invalidScope = permissions.find((perm: any) => perm.dataScope !== undefined && !isValidDataScope(perm.dataScope));
+    if (invalidScope) {
+      return sendError(
+        res,
+        `Invalid data scope for ${invalidScope.moduleCode}. Must be one of: ${Object.values(DATA_SCOPES).join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
     // Check if role exists
     const role = await prisma.role.findUnique({
       where: { id: Number(roleId) },
@@ -164,6 +191,10 @@ export const updateRolePermissions = async (req: Request, res: Response) => {
       );
     }
 
+    const previousPermissions = await prisma.rolePermission.findMany({
+      where: { roleId: Number(roleId) },
+    });
+
     // Delete existing permissions for this role
     await prisma.rolePermission.deleteMany({
       where: {
@@ -174,7 +205,8 @@ export const updateRolePermissions = async (req: Request, res: Response) => {
     // Filter permissions to only include those with at least one permission enabled
     const activePermissions = permissions.filter((perm: any) =>
       perm.canRead || perm.canWrite || perm.canUpdate ||
-      perm.canDelete || perm.canApprove || perm.canExport
+      perm.canDelete || perm.canApprove || perm.canExport ||
+      perm.canViewCompensation || perm.canViewGovernmentIds || perm.canViewBankDetails || perm.canViewFamilyDetails
     );
 
     // Create new permissions (only for modules with at least one permission enabled)
@@ -190,11 +222,26 @@ export const updateRolePermissions = async (req: Request, res: Response) => {
             canDelete: perm.canDelete || false,
             canApprove: perm.canApprove || false,
             canExport: perm.canExport || false,
+            canViewCompensation: perm.canViewCompensation || false,
+            canViewGovernmentIds: perm.canViewGovernmentIds || false,
+            canViewBankDetails: perm.canViewBankDetails || false,
+            canViewFamilyDetails: perm.canViewFamilyDetails || false,
+            dataScope: perm.dataScope || DATA_SCOPES.ORGANIZATION,
           },
         })
       )
     );
 
+    const modules = [...previousPermissions, ...createdPermissions].map((perm) => perm.moduleCode);
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'RolePermission',
+      entityId: role.id,
+      oldValues: flattenPermissions(previousPermissions, modules),
+      newValues: flattenPermissions(createdPermissions, modules),
+      organizationId: role.organizationId,
+    });
+
     return sendSuccess(
       res,
       { permissions: createdPermissions },
@@ -213,7 +260,27 @@ export const updateRolePermissions = async (req: Request, res: Response) => {
 export const updateModulePermission = async (req: Request, res: Response) => {
   try {
     const { roleId, moduleCode } = req.params;
-    const { canRead, canWrite, canUpdate, canDelete, canApprove, canExport } = req.body;
+    const {
+      canRead,
+      canWrite,
+      canUpdate,
+      canDelete,
+      canApprove,
+      canExport,
+      canViewCompensation,
+      canViewGovernmentIds,
+      canViewBankDetails,
+      canViewFamilyDetails,
+      dataScope,
+    } = req.body;
+
+    if (dataScope !== undefined && !isValidDataScope(dataScope)) {
+      return sendError(
+        res,
+        `Invalid data scope. Must be one of: ${Object.values(DATA_SCOPES).join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
 
     // Check if role exists
     const role = await prisma.role.findUnique({
@@ -242,6 +309,15 @@ export const updateModulePermission = async (req: Request, res: Response) => {
       return sendError(res, 'Module not found', STATUS_CODES.NOT_FOUND);
     }
 
+    const previousPermission = await prisma.rolePermission.findUnique({
+      where: {
+        roleId_moduleCode: {
+          roleId: Number(roleId),
+          moduleCode,
+        },
+      },
+    });
+
     // Upsert permission
     const permission = await prisma.rolePermission.upsert({
       where: {
@@ -257,6 +333,11 @@ export const updateModulePermission = async (req: Request, res: Response) => {
         canDelete: canDelete !== undefined ? canDelete : undefined,
         canApprove: canApprove !== undefined ? canApprove : undefined,
         canExport: canExport !== undefined ? canExport : undefined,
+        canViewCompensation: canViewCompensation !== undefined ? canViewCompensation : undefined,
+        canViewGovernmentIds: canViewGovernmentIds !== undefined ? canViewGovernmentIds : undefined,
+        canViewBankDetails: canViewBankDetails !== undefined ? canViewBankDetails : undefined,
+        canViewFamilyDetails: canViewFamilyDetails !== undefined ? canViewFamilyDetails : undefined,
+        dataScope: dataScope !== undefined ? dataScope : undefined,
         orgModuleId: orgModule.id,
       },
       create: {
@@ -269,15 +350,59 @@ export const updateModulePermission = async (req: Request, res: Response) => {
         canDelete: canDelete || false,
         canApprove: canApprove || false,
         canExport: canExport || false,
+        canViewCompensation: canViewCompensation || false,
+        canViewGovernmentIds: canViewGovernmentIds || false,
+        canViewBankDetails: canViewBankDetails || false,
+        canViewFamilyDetails: canViewFamilyDetails || false,
+        dataScope: dataScope || DATA_SCOPES.ORGANIZATION,
       },
       include: {
         orgModule: true,
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'RolePermission',
+      entityId: role.id,
+      oldValues: flattenPermissions(previousPermission ? [previousPermission] : [], [moduleCode]),
+      newValues: flattenPermissions([permission], [moduleCode]),
+      organizationId: role.organizationId,
+    });
+
     return sendSuccess(res, { permission }, 'Permission updated successfully');
   } catch (error) {
     console.error('Error updating permission:', error);
     return sendError(res, 'Failed to update permission', STATUS_CODES.INTERNAL_SERVER_ERROR);
   }
 };
+
+/**
+ * Helper function to flatten role permissions into "module.flag" keys for audit diffs
+ * Modules without a permission row are recorded with every flag false (and the organization data scope)
+ */
+function flattenPermissions(permissions: any[], moduleCodes: string[]): Record<string, boolean | string> {
+  const flags = [
+    'canRead',
+    'canWrite',
+    'canUpdate',
+    'canDelete',
+    'canApprove',
+    'canExport',
+    'canViewCompensation',
+    'canViewGovernmentIds',
+    'canViewBankDetails',
+    'canViewFamilyDetails',
+  ];
+  const values: Record<string, boolean | string> = {};
+
+  for (const moduleCode of moduleCodes) {
+    const perm = permissions.find((p) => p.moduleCode === moduleCode);
+    for (const flag of flags) {
+      values[`${moduleCode}.${flag}`] = perm ? Boolean(perm[flag]) : false;
+    }
+    values[`${moduleCode}.dataScope`] = perm?.dataScope ?? DATA_SCOPES.ORGANIZATION;
+  }
+
+  return values;
+}
@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -162,6 +163,13 @@ export const createReligion = async (req: Request, res: Response): Promise<Respo
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Religion',
+      entityId: religion.id,
+      newValues: religion,
+    });
+
     return sendSuccess(res, { religion }, 'Religion created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create religion error:', error);
@@ -210,6 +218,14 @@ export const updateReligion = async (req: Request, res: Response): Promise<Respo
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Religion',
+      entityId: religion.id,
+      oldValues: existingReligion,
+      newValues: religion,
+    });
+
     return sendSuccess(res, { religion }, 'Religion updated successfully');
   } catch (error) {
     console.error('Update religion error:', error);
@@ -248,6 +264,13 @@ export const deleteReligion = async (req: Request, res: Response): Promise<Respo
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Religion',
+      entityId: existingReligion.id,
+      oldValues: existingReligion,
+    });
+
     return sendSuccess(res, null, 'Religion deleted successfully');
   } catch (error) {
     console.error('Delete religion error:', error);
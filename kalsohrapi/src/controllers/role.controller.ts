@@ -1,8 +1,10 @@
 import { Request, Response } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, AUDIT_ACTIONS, DATA_SCOPES } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
+import { isValidDataScope } from '../utils/data-scope';
 
 const prisma = new PrismaClient();
 
@@ -31,6 +33,7 @@ export const getPlatformRoles = async (req: Request, res: Response) => {
         description: true,
         organizationId: true,
         isSystem: true,
+        requireTwoFactor: true,
         isActive: true,
         createdAt: true,
         updatedAt: true,
@@ -166,6 +169,7 @@ export const getAllRoles = async (req: Request, res: Response) => {
           description: true,
           organizationId: true,
           isSystem: true,
+          requireTwoFactor: true,
           isActive: true,
           createdAt: true,
           updatedAt: true,
@@ -277,6 +281,11 @@ export const getRoleById = async (req: Request, res: Response) => {
             canDelete: true,
             canApprove: true,
             canExport: true,
+            canViewCompensation: true,
+            canViewGovernmentIds: true,
+            canViewBankDetails: true,
+            canViewFamilyDetails: true,
+            dataScope: true,
           },
         },
         _count: {
@@ -305,13 +314,21 @@ export const getRoleById = async (req: Request, res: Response) => {
 export const createRole = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.userId;
-    const { name, code, description, organizationId, permissions } = req.body;
+    const { name, code, description, organizationId, permissions, requireTwoFactor } = req.body;
 
     // Validation
     if (!name) {
       return sendError(res, 'Role name is required', STATUS_CODES.BAD_REQUEST);
     }
 
+    if (Array.isArray(permissions) && permissions.some((perm: any) => perm.dataScope !== undefined && !isValidDataScope(perm.dataScope))) {
+      return sendError(
+        res,
+        `Invalid data scope. Must be one of: ${Object.values(DATA_SCOPES).join(', ')}`,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
     // If organizationId provided, verify organization exists
     if (organizationId) {
       const organization = await prisma.organization.findUnique({
@@ -351,6 +368,7 @@ export const createRole = async (req: Request, res: Response) => {
         description: description || undefined,
         organizationId: organizationId ? Number(organizationId) : null,
         isSystem: false,
+        requireTwoFactor: requireTwoFactor === true,
         isActive: true,
         createdBy: userId,
         updatedBy: userId,
@@ -380,12 +398,25 @@ export const createRole = async (req: Request, res: Response) => {
               canDelete: perm.canDelete || false,
               canApprove: perm.canApprove || false,
               canExport: perm.canExport || false,
+              canViewCompensation: perm.canViewCompensation || false,
+              canViewGovernmentIds: perm.canViewGovernmentIds || false,
+              canViewBankDetails: perm.canViewBankDetails || false,
+              canViewFamilyDetails: perm.canViewFamilyDetails || false,
+              dataScope: perm.dataScope || DATA_SCOPES.ORGANIZATION,
             },
           })
         )
       );
     }
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'Role',
+      entityId: role.id,
+      newValues: role,
+      organizationId: role.organizationId,
+    });
+
     return sendSuccess(res, { role }, 'Role created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Error creating role:', error);
@@ -401,19 +432,28 @@ export const updateRole = async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.userId;
     const { id } = req.params;
-    const { name, code, description, isActive } = req.body;
+    const { name, code, description, isActive, requireTwoFactor } = req.body;
 
     // Check if role exists
     const existingRole = await prisma.role.findUnique({
       where: { id: Number(id) },
     });
 
-    if (!existingRole) {
+    // Organization admins can only update roles of their own organization
+    const organizationId = (req as any).organizationId;
+    if (!existingRole || (organizationId && existingRole.organizationId !== organizationId)) {
       return sendError(res, 'Role not found', STATUS_CODES.NOT_FOUND);
     }
 
-    // Cannot modify system roles
-    if (existingRole.isSystem) {
+    // Cannot modify system roles, except for making two-factor mandatory (e.g. for org_admin)
+    const isTwoFactorOnlyUpdate =
+      requireTwoFactor !== undefined &&
+      name === undefined &&
+      code === undefined &&
+      description === undefined &&
+      isActive === undefined;
+
+    if (existingRole.isSystem && !isTwoFactorOnlyUpdate) {
       return sendError(res, 'Cannot modify system roles', STATUS_CODES.FORBIDDEN);
     }
 
@@ -425,6 +465,8 @@ export const updateRole = async (req: Request, res: Response) => {
         code: code || existingRole.code,
         description: description !== undefined ? description : existingRole.description,
         isActive: isActive !== undefined ? isActive : existingRole.isActive,
+        requireTwoFactor:
+          requireTwoFactor !== undefined ? Boolean(requireTwoFactor) : existingRole.requireTwoFactor,
         updatedBy: userId,
       },
       include: {
@@ -438,6 +480,15 @@ export const updateRole = async (req: Request, res: Response) => {
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'Role',
+      entityId: role.id,
+      oldValues: existingRole,
+      newValues: role,
+      organizationId: role.organizationId,
+    });
+
     return sendSuccess(res, { role }, 'Role updated successfully');
   } catch (error) {
     console.error('Error updating role:', error);
@@ -488,6 +539,14 @@ export const deleteRole = async (req: Request, res: Response) => {
       where: { id: Number(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'Role',
+      entityId: role.id,
+      oldValues: role,
+      organizationId: role.organizationId,
+    });
+
     return sendSuccess(res, null, 'Role deleted successfully');
   } catch (error) {
     console.error('Error deleting role:', error);
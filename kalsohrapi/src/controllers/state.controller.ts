@@ -1,7 +1,8 @@
 import { Request, Response } from 'express';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -207,6 +208,13 @@ export const createState = async (req: Request, res: Response): Promise<Response
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'State',
+      entityId: state.id,
+      newValues: state,
+    });
+
     return sendSuccess(res, { state }, 'State created successfully', STATUS_CODES.CREATED);
   } catch (error) {
     console.error('Create state error:', error);
@@ -270,6 +278,14 @@ export const updateState = async (req: Request, res: Response): Promise<Response
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'State',
+      entityId: state.id,
+      oldValues: existing,
+      newValues: state,
+    });
+
     return sendSuccess(res, { state }, 'State updated successfully');
   } catch (error) {
     console.error('Update state error:', error);
@@ -298,6 +314,13 @@ export const deleteState = async (req: Request, res: Response): Promise<Response
       where: { id: parseInt(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'State',
+      entityId: existing.id,
+      oldValues: existing,
+    });
+
     return sendSuccess(res, null, 'State deleted successfully');
   } catch (error) {
     console.error('Delete state error:', error);
@@ -1,8 +1,13 @@
 import { Request, Response } from 'express';
+import crypto from 'crypto';
 import bcrypt from 'bcryptjs';
 import { prisma } from '../index';
 import { sendSuccess, sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { logAudit } from '../utils/audit';
+import { revokeUserSessions } from '../utils/session';
+import { sendInviteEmail, sendVerificationEmail } from '../utils/account-email';
+import { removeTwoFactor } from '../utils/two-factor';
+import { STATUS_CODES, MESSAGES, AUDIT_ACTIONS, SESSION_REVOKE_REASONS } from '../config/constants';
 import { canViewAuditInfo } from '../utils/permissions';
 
 /**
@@ -62,6 +67,9 @@ export const getAllUsers = async (
           isActive: true,
           emailVerified: true,
           lastLoginAt: true,
+          failedLoginAttempts: true,
+          lockedUntil: true,
+          twoFactorEnabled: true,
           createdAt: true,
           updatedAt: true,
           createdBy: canViewAudit,
@@ -213,6 +221,9 @@ export const getUserById = async (
         emailVerified: true,
         isSuperAdmin: true,
         lastLoginAt: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+        twoFactorEnabled: true,
         createdAt: true,
         updatedAt: true,
         createdBy: canViewAudit,
@@ -311,13 +322,23 @@ export const createUser = async (
       roleId,
       isActive = true,
       isSuperAdmin = false,
+      sendInvite = false,
     } = req.body;
 
     // Validation
-    if (!email || !password || !firstName || !lastName) {
+    if (!email || !firstName || !lastName) {
       return sendError(
         res,
-        'Email, password, first name, and last name are required',
+        'Email, first name, and last name are required',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    // Invited users set their own password from the invitation email
+    if (!sendInvite && !password) {
+      return sendError(
+        res,
+        'Password is required unless an invitation is sent',
         STATUS_CODES.BAD_REQUEST
       );
     }
@@ -419,8 +440,11 @@ export const createUser = async (
       }
     }
 
-    // Hash password
-    const passwordHash = await bcrypt.hash(password, 10);
+    // Hash password (a random, unknown password until an invited user accepts)
+    const passwordHash = await bcrypt.hash(
+      sendInvite ? crypto.randomBytes(32).toString('hex') : password,
+      10
+    );
 
     // Create user
     const user = await prisma.user.create({
@@ -462,10 +486,31 @@ export const createUser = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.CREATE,
+      entityType: 'User',
+      entityId: user.id,
+      newValues: { ...user, roleId: user.role?.id ?? null, isSuperAdmin },
+      organizationId: user.organization?.id ?? null,
+    });
+
+    // The user is created even if the email cannot be delivered; the invite can be resent
+    let emailSent = true;
+    try {
+      if (sendInvite) {
+        await sendInviteEmail(user, user.organization?.name ?? null);
+      } else {
+        await sendVerificationEmail(user);
+      }
+    } catch (mailError) {
+      console.error('Create user email error:', mailError);
+      emailSent = false;
+    }
+
     return sendSuccess(
       res,
-      { user },
-      'User created successfully',
+      { user, emailSent },
+      sendInvite && emailSent ? MESSAGES.AUTH.INVITE_SENT : 'User created successfully',
       STATUS_CODES.CREATED
     );
   } catch (error) {
@@ -604,6 +649,7 @@ export const updateUser = async (
     // Hash new password if provided
     if (password) {
       updateData.passwordHash = await bcrypt.hash(password, 10);
+      updateData.passwordChangedAt = new Date();
     }
 
     // Update user
@@ -634,6 +680,34 @@ export const updateUser = async (
       },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: existingUser,
+      newValues: { ...existingUser, ...updateData },
+      organizationId: existingUser.organizationId,
+    });
+
+    // Sign the user out everywhere when their access changes
+    // (an admin changing their own password keeps the current session)
+    let revokeReason: string | null = null;
+    if (isActive === false && existingUser.isActive) {
+      revokeReason = SESSION_REVOKE_REASONS.DEACTIVATED;
+    } else if (password) {
+      revokeReason = SESSION_REVOKE_REASONS.PASSWORD_CHANGED;
+    } else if (roleId !== undefined && (roleId ? Number(roleId) : null) !== existingUser.roleId) {
+      revokeReason = SESSION_REVOKE_REASONS.ROLE_CHANGED;
+    }
+
+    if (revokeReason) {
+      await revokeUserSessions(
+        user.id,
+        revokeReason,
+        user.id === userId ? (req as any).user?.sessionId : undefined
+      );
+    }
+
     return sendSuccess(
       res,
       { user },
@@ -650,6 +724,214 @@ export const updateUser = async (
   }
 };
 
+/**
+ * Unlock user account locked after failed logins
+ * POST /api/superadmin/users/:id/unlock
+ * POST /api/:orgSlug/users/:id/unlock
+ */
+export const unlockUser = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const userId = (req as any).user?.userId;
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: Number(id) },
+    });
+
+    // Organization admins can only unlock users of their own organization
+    if (!existingUser || (organizationId && existingUser.organizationId !== organizationId)) {
+      return sendError(
+        res,
+        MESSAGES.USER.NOT_FOUND,
+        STATUS_CODES.NOT_FOUND
+      );
+    }
+
+    if (existingUser.failedLoginAttempts === 0 && !existingUser.lockedUntil) {
+      return sendError(
+        res,
+        'User account is not locked',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: existingUser.id },
+      data: {
+        failedLoginAttempts: 0,
+        lockedUntil: null,
+        updatedBy: userId,
+      },
+      select: {
+        id: true,
+        email: true,
+        failedLoginAttempts: true,
+        lockedUntil: true,
+      },
+    });
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UNLOCK,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: {
+        failedLoginAttempts: existingUser.failedLoginAttempts,
+        lockedUntil: existingUser.lockedUntil,
+      },
+      newValues: {
+        failedLoginAttempts: user.failedLoginAttempts,
+        lockedUntil: user.lockedUntil,
+      },
+      organizationId: existingUser.organizationId,
+    });
+
+    return sendSuccess(
+      res,
+      { user },
+      'User unlocked successfully'
+    );
+  } catch (error) {
+    console.error('Unlock user error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Reset two-factor authentication of a user who lost their authenticator
+ * Signs the user out everywhere; they enrol again on next login if their role requires it
+ * POST /api/superadmin/users/:id/reset-2fa
+ * POST /api/:orgSlug/users/:id/reset-2fa
+ */
+export const resetTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id: Number(id) },
+    });
+
+    // Organization admins can only reset users of their own organization
+    if (!existingUser || (organizationId && existingUser.organizationId !== organizationId)) {
+      return sendError(
+        res,
+        MESSAGES.USER.NOT_FOUND,
+        STATUS_CODES.NOT_FOUND
+      );
+    }
+
+    if (!existingUser.twoFactorEnabled) {
+      return sendError(
+        res,
+        MESSAGES.AUTH.TWO_FACTOR_NOT_ENABLED,
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    await removeTwoFactor(existingUser.id);
+    await revokeUserSessions(existingUser.id, SESSION_REVOKE_REASONS.REVOKED);
+
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.UPDATE,
+      entityType: 'User',
+      entityId: existingUser.id,
+      oldValues: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: existingUser.twoFactorEnabledAt,
+      },
+      newValues: {
+        twoFactorEnabled: false,
+        twoFactorEnabledAt: null,
+      },
+      organizationId: existingUser.organizationId,
+    });
+
+    return sendSuccess(res, null, MESSAGES.AUTH.TWO_FACTOR_RESET);
+  } catch (error) {
+    console.error('Reset two-factor error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
+/**
+ * Resend invitation email to a user who has not accepted it yet
+ * POST /api/superadmin/users/:id/resend-invite
+ * POST /api/:orgSlug/users/:id/resend-invite
+ */
+export const resendInvite = async (
+  req: Request,
+  res: Response
+): Promise<Response> => {
+  try {
+    const organizationId = (req as any).organizationId;
+    const { id } = req.params;
+
+    const user = await prisma.user.findUnique({
+      where: { id: Number(id) },
+      include: {
+        organization: {
+          select: { name: true },
+        },
+      },
+    });
+
+    // Organization admins can only invite users of their own organization
+    if (!user || (organizationId && user.organizationId !== organizationId)) {
+      return sendError(
+        res,
+        MESSAGES.USER.NOT_FOUND,
+        STATUS_CODES.NOT_FOUND
+      );
+    }
+
+    // Accepting an invite (or any password change) verifies the account
+    if (user.emailVerified || user.passwordChangedAt) {
+      return sendError(
+        res,
+        'User has already activated their account',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    if (!user.isActive) {
+      return sendError(
+        res,
+        'Cannot invite an inactive user',
+        STATUS_CODES.BAD_REQUEST
+      );
+    }
+
+    await sendInviteEmail(user, user.organization?.name ?? null);
+
+    return sendSuccess(res, null, MESSAGES.AUTH.INVITE_SENT);
+  } catch (error) {
+    console.error('Resend invite error:', error);
+    return sendError(
+      res,
+      MESSAGES.GENERAL.ERROR,
+      STATUS_CODES.INTERNAL_SERVER_ERROR,
+      error
+    );
+  }
+};
+
 /**
  * Delete user (Super Admin only)
  * DELETE /api/superadmin/users/:id
@@ -688,6 +970,14 @@ export const deleteUser = async (
       where: { id: Number(id) },
     });
 
+    await logAudit(req, {
+      action: AUDIT_ACTIONS.DELETE,
+      entityType: 'User',
+      entityId: user.id,
+      oldValues: user,
+      organizationId: user.organizationId,
+    });
+
     return sendSuccess(
       res,
       null,
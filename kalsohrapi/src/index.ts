@@ -2,7 +2,6 @@ import express, { Application, Request, Response } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
-import path from 'path';
 import { PrismaClient } from '@prisma/client';
 
 // Load environment variables
@@ -12,6 +11,10 @@ dotenv.config();
 const app: Application = express();
 const PORT = process.env.PORT || 3000;
 
+// The API runs behind one reverse proxy (nginx): req.ip is the address that proxy saw, not a client-supplied
+// X-Forwarded-For entry
+app.set('trust proxy', 1);
+
 // Initialize Prisma Client
 export const prisma = new PrismaClient();
 
@@ -46,30 +49,6 @@ app.use(
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Serve uploaded files statically with CORS headers
-app.use('/uploads', (req, res, next) => {
-  const origin = req.headers.origin;
-  const allowedOrigins = process.env.ALLOWED_ORIGINS?.split(',') || ['http://localhost:3001'];
-
-  if (origin && allowedOrigins.includes(origin)) {
-    res.setHeader('Access-Control-Allow-Origin', origin);
-    res.setHeader('Access-Control-Allow-Credentials', 'true');
-  } else if (!origin) {
-    // Allow requests with no origin (direct access, Postman, etc.)
-    res.setHeader('Access-Control-Allow-Origin', '*');
-  }
-
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
-  res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
-
-  if (req.method === 'OPTIONS') {
-    return res.sendStatus(200);
-  }
-
-  return next();
-}, express.static(path.join(__dirname, '../uploads')));
-
 // Request logging middleware (development only)
 if (process.env.NODE_ENV === 'development') {
   app.use((req: Request, res: Response, next) => {
@@ -86,6 +65,8 @@ if (process.env.NODE_ENV === 'development') {
 import authRoutes from './routes/auth.routes';
 import superAdminRoutes from './routes/superadmin.routes';
 import tenantRoutes from './routes/tenant.routes';
+import fileRoutes from './routes/file.routes';
+import { handleUploadError } from './middleware/upload.middleware';
 
 // Health check endpoint
 app.get('/health', (req: Request, res: Response) => {
@@ -100,11 +81,13 @@ app.get('/health', (req: Request, res: Response) => {
 // API routes - v1
 app.use('/api/v1/auth', authRoutes);
 app.use('/api/v1/superadmin', superAdminRoutes);
+app.use('/api/v1/files', fileRoutes); // Signed file URLs (uploads are no longer served statically)
 app.use('/api/v1/:orgSlug', tenantRoutes); // Organization-scoped routes
 
 // Legacy routes (redirect to v1 for backward compatibility)
 app.use('/api/auth', authRoutes);
 app.use('/api/superadmin', superAdminRoutes);
+app.use('/api/files', fileRoutes);
 app.use('/api/:orgSlug', tenantRoutes);
 
 // 404 handler
@@ -116,6 +99,9 @@ app.use((req: Request, res: Response) => {
   });
 });
 
+// Uploads rejected by the storage quota
+app.use(handleUploadError);
+
 // Global error handler
 app.use((err: Error, req: Request, res: Response, next: any) => {
   console.error('Error:', err);
@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyToken } from '../utils/jwt';
+import { getActiveSession } from '../utils/session';
 import { sendError } from '../utils/response';
-import { STATUS_CODES, MESSAGES } from '../config/constants';
+import { STATUS_CODES, MESSAGES, TWO_FACTOR } from '../config/constants';
 
 /**
  * Authentication middleware
- * Verifies JWT token and attaches user to request
+ * Verifies JWT token and its session, and attaches user to request
  */
 export const authenticate = async (
   req: Request,
@@ -37,8 +38,19 @@ export const authenticate = async (
       );
     }
 
+    // Reject tokens whose session was logged out or revoked
+    const session = await getActiveSession(decoded.sessionId, decoded.userId, decoded.iat);
+    if (!session) {
+      return sendError(
+        res,
+        MESSAGES.AUTH.SESSION_REVOKED,
+        STATUS_CODES.UNAUTHORIZED
+      );
+    }
+
     // Attach user to request
     req.user = decoded;
+    req.twoFactorSetupRequired = session.twoFactorSetupRequired;
 
     next();
   } catch (error) {
@@ -51,6 +63,27 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Two-factor enrolment middleware
+ * Blocks users whose role makes two-factor mandatory until they have enrolled.
+ * Auth routes stay reachable so they can complete setup.
+ */
+export const requireTwoFactorEnrolment = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void | Response => {
+  if (req.twoFactorSetupRequired) {
+    return res.status(STATUS_CODES.FORBIDDEN).json({
+      success: false,
+      message: MESSAGES.AUTH.TWO_FACTOR_SETUP_REQUIRED,
+      code: TWO_FACTOR.SETUP_REQUIRED_CODE,
+    });
+  }
+
+  next();
+};
+
 /**
  * Super admin only middleware
  */
@@ -2,10 +2,21 @@ import { Request, Response, NextFunction } from 'express';
 import { PrismaClient } from '@prisma/client';
 import { sendError } from '../utils/response';
 import { STATUS_CODES } from '../config/constants';
+import { isEmployeeInScope } from '../utils/data-scope';
 
 const prisma = new PrismaClient();
 
-export type PermissionAction = 'canRead' | 'canWrite' | 'canUpdate' | 'canDelete' | 'canApprove' | 'canExport';
+export type PermissionAction =
+  | 'canRead'
+  | 'canWrite'
+  | 'canUpdate'
+  | 'canDelete'
+  | 'canApprove'
+  | 'canExport'
+  | 'canViewCompensation'
+  | 'canViewGovernmentIds'
+  | 'canViewBankDetails'
+  | 'canViewFamilyDetails';
 
 /**
  * Middleware to check if user has required permission for a module
@@ -457,3 +468,38 @@ export const checkAnyOrgPermission = (moduleCode: string) => {
     }
   };
 };
+
+/**
+ * Organization-scoped data scope check for routes of a single employee (/employees/:id/...)
+ * Use after checkOrgPermission. Employees outside the role's data scope are reported as not found
+ * Usage: checkEmployeeScope('employees')
+ */
+export const checkEmployeeScope = (moduleCode: string) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const employeeId = parseInt(req.params.id as string);
+      if (isNaN(employeeId)) {
+        sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+        return;
+      }
+
+      const inScope = await isEmployeeInScope(
+        prisma,
+        (req as any).user,
+        (req as any).organizationId,
+        moduleCode,
+        employeeId
+      );
+
+      if (!inScope) {
+        sendError(res, 'Employee not found', STATUS_CODES.NOT_FOUND);
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Employee scope check error:', error);
+      sendError(res, 'Permission check failed', STATUS_CODES.INTERNAL_SERVER_ERROR);
+    }
+  };
+};
@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import { sendError } from '../utils/response';
+import { getClientIp } from '../utils/audit';
+import { decodeToken } from '../utils/jwt';
+import { STATUS_CODES, MESSAGES, RATE_LIMITS } from '../config/constants';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+  // Returns the key to count the request against, or null to skip limiting
+  keyGenerator: (req: Request) => string | null;
+}
+
+interface RateLimitEntry {
+  count: number;
+  resetAt: number;
+}
+
+// Expired entries are swept once the store grows past this size
+const SWEEP_THRESHOLD = 10000;
+
+/**
+ * Fixed-window rate limiter
+ * Counters are kept in memory, so limits apply per API process
+ */
+export const rateLimit = (options: RateLimitOptions) => {
+  const hits = new Map<string, RateLimitEntry>();
+
+  return (req: Request, res: Response, next: NextFunction): void | Response => {
+    const key = options.keyGenerator(req);
+    if (!key) {
+      return next();
+    }
+
+    const now = Date.now();
+
+    if (hits.size > SWEEP_THRESHOLD) {
+      for (const [entryKey, entry] of hits) {
+        if (entry.resetAt <= now) hits.delete(entryKey);
+      }
+    }
+
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + options.windowMs };
+      hits.set(key, entry);
+    }
+
+    entry.count++;
+
+    if (entry.count > options.max) {
+      res.setHeader('Retry-After', Math.ceil((entry.resetAt - now) / 1000).toString());
+      return sendError(
+        res,
+        MESSAGES.AUTH.TOO_MANY_ATTEMPTS,
+        STATUS_CODES.TOO_MANY_REQUESTS
+      );
+    }
+
+    next();
+  };
+};
+
+/**
+ * Login throttling per client IP
+ */
+export const loginIpLimiter = rateLimit({
+  ...RATE_LIMITS.LOGIN_PER_IP,
+  keyGenerator: (req) => getClientIp(req),
+});
+
+/**
+ * Login throttling per account, regardless of IP (slows distributed guessing)
+ */
+export const loginEmailLimiter = rateLimit({
+  ...RATE_LIMITS.LOGIN_PER_EMAIL,
+  keyGenerator: (req) =>
+    typeof req.body?.email === 'string' ? req.body.email.trim().toLowerCase() : null,
+});
+
+/**
+ * Token refresh throttling per client IP
+ */
+export const refreshIpLimiter = rateLimit({
+  ...RATE_LIMITS.REFRESH_PER_IP,
+  keyGenerator: (req) => getClientIp(req),
+});
+
+/**
+ * Token refresh throttling per account
+ * The token is only decoded here to pick the counter; it is verified by the refresh handler
+ */
+export const refreshUserLimiter = rateLimit({
+  ...RATE_LIMITS.REFRESH_PER_USER,
+  keyGenerator: (req) => {
+    const decoded = typeof req.body?.refreshToken === 'string' ? decodeToken(req.body.refreshToken) : null;
+    return decoded?.userId ? `user:${decoded.userId}` : null;
+  },
+});
+
+/**
+ * Account email throttling (password reset, verification) per client IP
+ */
+export const accountEmailIpLimiter = rateLimit({
+  ...RATE_LIMITS.ACCOUNT_EMAIL_PER_IP,
+  keyGenerator: (req) => getClientIp(req),
+});
+
+/**
+ * Account email throttling per recipient, so one inbox cannot be flooded
+ * Uses the email in the body, or the signed-in user's email on authenticated routes
+ */
+export const accountEmailLimiter = rateLimit({
+  ...RATE_LIMITS.ACCOUNT_EMAIL_PER_EMAIL,
+  keyGenerator: (req) => {
+    const email = typeof req.body?.email === 'string' ? req.body.email : req.user?.email;
+    return email ? email.trim().toLowerCase() : null;
+  },
+});
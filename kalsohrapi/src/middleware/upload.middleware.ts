@@ -1,61 +1,80 @@
 import multer from 'multer';
 import path from 'path';
-import fs from 'fs';
-
-// Ensure upload directories exist
-const uploadDir = path.join(__dirname, '../../uploads/profiles');
-const documentDir = path.join(__dirname, '../../uploads/documents');
-const organizationDir = path.join(__dirname, '../../uploads/organizations');
-const candidateProfileDir = path.join(__dirname, '../../uploads/candidates/profiles');
-const candidateResumeDir = path.join(__dirname, '../../uploads/candidates/resumes');
-
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-if (!fs.existsSync(documentDir)) {
-  fs.mkdirSync(documentDir, { recursive: true });
-}
-
-if (!fs.existsSync(organizationDir)) {
-  fs.mkdirSync(organizationDir, { recursive: true });
-}
-
-if (!fs.existsSync(candidateProfileDir)) {
-  fs.mkdirSync(candidateProfileDir, { recursive: true });
-}
+import { Request, Response, NextFunction } from 'express';
+import { saveFile } from '../utils/storage';
+import { saveOrganizationFile, deleteOrganizationFile, isStorageQuotaError } from '../utils/storage-usage';
+import { STATUS_CODES, STORAGE_QUOTA, EMPLOYEE_IMPORT } from '../config/constants';
+
+// Storage directories (keys are <directory>/<filename> in the configured storage backend)
+const uploadDir = 'profiles';
+const documentDir = 'documents';
+const organizationDir = 'organizations';
+const candidateProfileDir = 'candidates/profiles';
+const candidateResumeDir = 'candidates/resumes';
+
+// Generate unique filename: timestamp-randomstring-originalname
+const uniqueFilename = (req: Request, file: Express.Multer.File): string => {
+  const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
+  const ext = path.extname(file.originalname);
+  const nameWithoutExt = path.basename(file.originalname, ext);
+  return `${nameWithoutExt}-${uniqueSuffix}${ext}`;
+};
 
-if (!fs.existsSync(candidateResumeDir)) {
-  fs.mkdirSync(candidateResumeDir, { recursive: true });
-}
+/**
+ * Multer storage engine that writes through the configured storage backend
+ * file.path is set to the stored path to keep in the database (e.g. /uploads/profiles/x.jpg)
+ * Tenant uploads count towards the organization's storage quota and are removed again if the request fails
+ */
+const createStorageEngine = (options: {
+  directory: (req: Request, file: Express.Multer.File) => string | null;
+  filename?: (req: Request, file: Express.Multer.File) => string;
+}): multer.StorageEngine => ({
+  _handleFile: (req, file, cb) => {
+    const directory = options.directory(req, file);
+    if (!directory) {
+      return cb(new Error('Invalid field name'));
+    }
 
-// Configure storage for profile pictures
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadDir);
+    const filename = (options.filename || uniqueFilename)(req, file);
+    const chunks: Buffer[] = [];
+
+    file.stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+    file.stream.on('error', cb);
+    file.stream.on('end', () => {
+      const body = Buffer.concat(chunks);
+      const key = `${directory}/${filename}`;
+      const organizationId: number | undefined = (req as any).organizationId;
+
+      const save = organizationId
+        ? saveOrganizationFile(organizationId, key, body, file.mimetype)
+        : saveFile(key, body, file.mimetype);
+
+      save
+        .then((storedPath) => {
+          req.res?.once('finish', () => {
+            if (req.res!.statusCode >= 400) {
+              deleteOrganizationFile(storedPath).catch((error) =>
+                console.error(`Error removing upload ${storedPath} of a failed request:`, error)
+              );
+            }
+          });
+          cb(null, { filename, path: storedPath, size: body.length });
+        })
+        .catch(cb);
+    });
   },
-  filename: (req, file, cb) => {
-    // Generate unique filename: timestamp-randomstring-originalname
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    const ext = path.extname(file.originalname);
-    const nameWithoutExt = path.basename(file.originalname, ext);
-    cb(null, `${nameWithoutExt}-${uniqueSuffix}${ext}`);
+  _removeFile: (req, file, cb) => {
+    deleteOrganizationFile(file.path)
+      .then(() => cb(null))
+      .catch(cb);
   },
 });
 
+// Configure storage for profile pictures
+const storage = createStorageEngine({ directory: () => uploadDir });
+
 // Configure storage for documents
-const documentStorage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, documentDir);
-  },
-  filename: (req, file, cb) => {
-    // Generate unique filename: timestamp-randomstring-originalname
-    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-    const ext = path.extname(file.originalname);
-    const nameWithoutExt = path.basename(file.originalname, ext);
-    cb(null, `${nameWithoutExt}-${uniqueSuffix}${ext}`);
-  },
-});
+const documentStorage = createStorageEngine({ directory: () => documentDir });
 
 // File filter - only allow images (for profile pictures)
 const fileFilter = (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
@@ -97,25 +116,33 @@ const documentUpload = multer({
   },
 });
 
+// Single document for the employee document vault
+export const employeeDocumentUpload = documentUpload.single('file');
+
+// Employee import file (CSV/XLSX), kept in memory only since it is parsed and not stored
+export const employeeImportUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+    // Browsers report CSV files with different MIME types, so check the extension
+    if (/\.(csv|xlsx)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Invalid file type. Only CSV and XLSX files are allowed.'));
+    }
+  },
+  limits: {
+    fileSize: EMPLOYEE_IMPORT.MAX_FILE_SIZE,
+  },
+}).single('file');
+
 // Combined upload for employee (profile picture + ID proof)
 export const employeeUpload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      // Route to appropriate directory based on field name
-      if (file.fieldname === 'profilePicture') {
-        cb(null, uploadDir);
-      } else if (file.fieldname === 'idProof') {
-        cb(null, documentDir);
-      } else {
-        cb(new Error('Invalid field name'), '');
-      }
-    },
-    filename: (req, file, cb) => {
-      // Generate unique filename: timestamp-randomstring-originalname
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-      const ext = path.extname(file.originalname);
-      const nameWithoutExt = path.basename(file.originalname, ext);
-      cb(null, `${nameWithoutExt}-${uniqueSuffix}${ext}`);
+  storage: createStorageEngine({
+    // Route to appropriate directory based on field name
+    directory: (req, file) => {
+      if (file.fieldname === 'profilePicture') return uploadDir;
+      if (file.fieldname === 'idProof') return documentDir;
+      return null;
     },
   }),
   fileFilter: (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
@@ -138,23 +165,12 @@ export const employeeUpload = multer({
 
 // Combined upload for candidate (resume + profile picture)
 export const candidateUpload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      // Route to appropriate directory based on field name
-      if (file.fieldname === 'profilePicture') {
-        cb(null, candidateProfileDir);
-      } else if (file.fieldname === 'resume') {
-        cb(null, candidateResumeDir);
-      } else {
-        cb(new Error('Invalid field name'), '');
-      }
-    },
-    filename: (req, file, cb) => {
-      // Generate unique filename: timestamp-randomstring-originalname
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-      const ext = path.extname(file.originalname);
-      const nameWithoutExt = path.basename(file.originalname, ext);
-      cb(null, `${nameWithoutExt}-${uniqueSuffix}${ext}`);
+  storage: createStorageEngine({
+    // Route to appropriate directory based on field name
+    directory: (req, file) => {
+      if (file.fieldname === 'profilePicture') return candidateProfileDir;
+      if (file.fieldname === 'resume') return candidateResumeDir;
+      return null;
     },
   }),
   fileFilter: (req: any, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
@@ -189,15 +205,13 @@ export const candidateUpload = multer({
 
 // Configure multer for organization logos
 export const organizationLogoUpload = multer({
-  storage: multer.diskStorage({
-    destination: (req, file, cb) => {
-      cb(null, organizationDir);
-    },
-    filename: (req, file, cb) => {
+  storage: createStorageEngine({
+    directory: () => organizationDir,
+    filename: (req, file) => {
       const ext = path.extname(file.originalname);
       const slug = (req as any).organization?.slug || 'org';
       const uniqueSuffix = Date.now() + '-' + Math.random().toString(36).substring(7);
-      cb(null, `${slug}-logo-${uniqueSuffix}${ext}`);
+      return `${slug}-logo-${uniqueSuffix}${ext}`;
     },
   }),
   fileFilter,
@@ -206,42 +220,23 @@ export const organizationLogoUpload = multer({
   },
 });
 
-// Helper to delete old profile picture
-export const deleteOldProfilePicture = (filePath: string | null) => {
-  if (!filePath) return;
-
-  // Check if it's a local file (not a URL)
-  if (filePath.startsWith('/uploads/') || filePath.startsWith('uploads/')) {
-    const fullPath = path.join(__dirname, '../../', filePath);
-    if (fs.existsSync(fullPath)) {
-      fs.unlinkSync(fullPath);
-    }
-  }
-};
-
-// Helper to delete old document
-export const deleteOldDocument = (filePath: string | null) => {
-  if (!filePath) return;
-
-  // Check if it's a local file (not a URL)
-  if (filePath.startsWith('/uploads/') || filePath.startsWith('uploads/')) {
-    const fullPath = path.join(__dirname, '../../', filePath);
-    if (fs.existsSync(fullPath)) {
-      fs.unlinkSync(fullPath);
-    }
+/**
+ * Error handler for uploads that would exceed the organization's storage quota
+ * Other upload errors are passed on to the default error handler
+ */
+export const handleUploadError = (
+  err: Error,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void | Response => {
+  if (isStorageQuotaError(err)) {
+    return res.status(STATUS_CODES.BAD_REQUEST).json({
+      success: false,
+      message: err.message,
+      code: STORAGE_QUOTA.EXCEEDED_CODE,
+    });
   }
-};
-
-// Generic helper to delete old file from any subdirectory
-export const deleteOldFile = (fileName: string | null, subdirectory: string) => {
-  if (!fileName) return;
 
-  const fullPath = path.join(__dirname, '../../uploads/', subdirectory, fileName);
-  if (fs.existsSync(fullPath)) {
-    try {
-      fs.unlinkSync(fullPath);
-    } catch (error) {
-      console.error(`Error deleting file ${fullPath}:`, error);
-    }
-  }
+  next(err);
 };
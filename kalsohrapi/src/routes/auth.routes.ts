@@ -1,15 +1,50 @@
 import { Router } from 'express';
-import { login, getCurrentUser, logout, refreshToken } from '../controllers/auth.controller';
+import {
+  login,
+  getCurrentUser,
+  logout,
+  refreshToken,
+  getSessions,
+  deleteSession,
+  deleteOtherSessions,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  getInvite,
+  acceptInvite,
+  verifyLoginTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateTwoFactorRecoveryCodes,
+} from '../controllers/auth.controller';
 import { authenticate } from '../middleware/auth.middleware';
+import {
+  loginIpLimiter,
+  loginEmailLimiter,
+  refreshIpLimiter,
+  refreshUserLimiter,
+  accountEmailIpLimiter,
+  accountEmailLimiter,
+} from '../middleware/rate-limit.middleware';
 
 const router = Router();
 
 /**
  * @route   POST /api/auth/login
- * @desc    Login user
+ * @desc    Login user (throttled per IP and per email)
  * @access  Public
  */
-router.post('/login', login);
+router.post('/login', loginIpLimiter, loginEmailLimiter, login);
+
+/**
+ * @route   POST /api/auth/login/2fa
+ * @desc    Complete login with an authenticator or recovery code (throttled per IP)
+ * @access  Public
+ */
+router.post('/login/2fa', loginIpLimiter, verifyLoginTwoFactor);
 
 /**
  * @route   POST /api/auth/logout
@@ -27,9 +62,107 @@ router.get('/me', authenticate, getCurrentUser);
 
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh access token
+ * @desc    Refresh access token (throttled per IP and per user)
+ * @access  Public
+ */
+router.post('/refresh', refreshIpLimiter, refreshUserLimiter, refreshToken);
+
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions of the current user
+ * @access  Private
+ */
+router.get('/sessions', authenticate, getSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions
+ * @desc    Revoke all sessions except the current one
+ * @access  Private
+ */
+router.delete('/sessions', authenticate, deleteOtherSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:id
+ * @desc    Revoke a session of the current user
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticate, deleteSession);
+
+/**
+ * @route   POST /api/auth/forgot-password
+ * @desc    Email a password reset link (throttled per IP and per email)
+ * @access  Public
+ */
+router.post('/forgot-password', accountEmailIpLimiter, accountEmailLimiter, forgotPassword);
+
+/**
+ * @route   POST /api/auth/reset-password
+ * @desc    Set a new password with a reset token
+ * @access  Public
+ */
+router.post('/reset-password', resetPassword);
+
+/**
+ * @route   POST /api/auth/change-password
+ * @desc    Change password of the current user
+ * @access  Private
+ */
+router.post('/change-password', authenticate, changePassword);
+
+/**
+ * @route   POST /api/auth/verify-email
+ * @desc    Verify email address with a verification token
  * @access  Public
  */
-router.post('/refresh', refreshToken);
+router.post('/verify-email', verifyEmail);
+
+/**
+ * @route   POST /api/auth/resend-verification
+ * @desc    Resend the verification email to the current user (throttled)
+ * @access  Private
+ */
+router.post('/resend-verification', authenticate, accountEmailIpLimiter, accountEmailLimiter, resendVerification);
+
+/**
+ * @route   GET /api/auth/invite
+ * @desc    Get invitation details for an invite token
+ * @access  Public
+ */
+router.get('/invite', getInvite);
+
+/**
+ * @route   POST /api/auth/accept-invite
+ * @desc    Accept an invitation by setting a password
+ * @access  Public
+ */
+router.post('/accept-invite', acceptInvite);
+
+/**
+ * @route   POST /api/auth/2fa/setup
+ * @desc    Start two-factor enrolment (returns secret and QR code)
+ * @access  Private
+ */
+router.post('/2fa/setup', authenticate, setupTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/enable
+ * @desc    Confirm enrolment with a code and receive recovery codes
+ * @access  Private
+ */
+router.post('/2fa/enable', authenticate, enableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/disable
+ * @desc    Disable two-factor authentication (password and code required)
+ * @access  Private
+ */
+router.post('/2fa/disable', authenticate, disableTwoFactor);
+
+/**
+ * @route   POST /api/auth/2fa/recovery-codes
+ * @desc    Replace recovery codes
+ * @access  Private
+ */
+router.post('/2fa/recovery-codes', authenticate, regenerateTwoFactorRecoveryCodes);
 
 export default router;
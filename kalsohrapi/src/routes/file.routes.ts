@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getSignedFile } from '../controllers/file.controller';
+
+const router = Router();
+
+/**
+ * @route   GET /api/files/signed
+ * @desc    Stream an uploaded file through a signed, short-lived URL
+ *          (URLs are issued by POST /api/:orgSlug/files/signed-urls)
+ * @access  Public (signature required)
+ */
+router.get('/signed', getSignedFile);
+
+export default router;
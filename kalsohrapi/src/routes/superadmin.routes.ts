@@ -1,5 +1,5 @@
 import { Router } from 'express';
-import { authenticate, requireSuperAdmin } from '../middleware/auth.middleware';
+import { authenticate, requireSuperAdmin, requireTwoFactorEnrolment } from '../middleware/auth.middleware';
 import { checkPermission, checkAnyPermission } from '../middleware/permission.middleware';
 import { getDashboardStats } from '../controllers/dashboard.controller';
 import {
@@ -28,6 +28,9 @@ import {
   createUser,
   updateUser,
   deleteUser,
+  unlockUser,
+  resendInvite,
+  resetTwoFactor,
 } from '../controllers/user.controller';
 import {
   getPlatformRoles,
@@ -127,11 +130,16 @@ import {
   updateBusinessCategory,
   deleteBusinessCategory,
 } from '../controllers/businesscategory.controller';
+import {
+  getPlatformAuditLogs,
+  getPlatformAuditEntityTypes,
+  getPlatformAuditLogById,
+} from '../controllers/audit-log.controller';
 
 const router = Router();
 
 // All super admin routes require authentication and super admin role
-router.use(authenticate, requireSuperAdmin);
+router.use(authenticate, requireSuperAdmin, requireTwoFactorEnrolment);
 
 // ============================================
 // DASHBOARD ROUTES
@@ -215,6 +223,27 @@ router.post('/users', createUser);
  */
 router.put('/users/:id', updateUser);
 
+/**
+ * @route   POST /api/superadmin/users/:id/unlock
+ * @desc    Unlock user locked after failed logins
+ * @access  Super Admin
+ */
+router.post('/users/:id/unlock', unlockUser);
+
+/**
+ * @route   POST /api/superadmin/users/:id/resend-invite
+ * @desc    Resend invitation email
+ * @access  Super Admin
+ */
+router.post('/users/:id/resend-invite', resendInvite);
+
+/**
+ * @route   POST /api/superadmin/users/:id/reset-2fa
+ * @desc    Reset two-factor authentication (lost authenticator)
+ * @access  Super Admin
+ */
+router.post('/users/:id/reset-2fa', resetTwoFactor);
+
 /**
  * @route   DELETE /api/superadmin/users/:id
  * @desc    Delete user
@@ -853,4 +882,29 @@ router.put('/masters/business-categories/:id', checkPermission('master_data', 'c
  */
 router.delete('/masters/business-categories/:id', checkPermission('master_data', 'canDelete'), deleteBusinessCategory);
 
+// ============================================
+// AUDIT LOG ROUTES
+// ============================================
+
+/**
+ * @route   GET /api/superadmin/audit-logs
+ * @desc    Get audit logs across all organizations with filters
+ * @access  Super Admin with 'audit_logs' read permission
+ */
+router.get('/audit-logs', checkPermission('audit_logs', 'canRead'), getPlatformAuditLogs);
+
+/**
+ * @route   GET /api/superadmin/audit-logs/entity-types
+ * @desc    Get entity types present in the audit log
+ * @access  Super Admin with 'audit_logs' read permission
+ */
+router.get('/audit-logs/entity-types', checkPermission('audit_logs', 'canRead'), getPlatformAuditEntityTypes);
+
+/**
+ * @route   GET /api/superadmin/audit-logs/:id
+ * @desc    Get audit log entry by ID
+ * @access  Super Admin with 'audit_logs' read permission
+ */
+router.get('/audit-logs/:id', checkPermission('audit_logs', 'canRead'), getPlatformAuditLogById);
+
 export default router;
@@ -1,8 +1,15 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, requireTwoFactorEnrolment } from '../middleware/auth.middleware';
 import { tenantContext } from '../middleware/tenant.middleware';
-import { checkOrgPermission, checkAnyOrgPermission } from '../middleware/permission.middleware';
-import { upload, employeeUpload, organizationLogoUpload, candidateUpload } from '../middleware/upload.middleware';
+import { checkOrgPermission, checkAnyOrgPermission, checkEmployeeScope } from '../middleware/permission.middleware';
+import {
+  upload,
+  employeeUpload,
+  employeeDocumentUpload,
+  employeeImportUpload,
+  organizationLogoUpload,
+  candidateUpload,
+} from '../middleware/upload.middleware';
 import {
   getAllRoles,
   getRoleById,
@@ -20,6 +27,9 @@ import {
   createUser,
   updateUser,
   deleteUser,
+  unlockUser,
+  resendInvite,
+  resetTwoFactor,
 } from '../controllers/user.controller';
 import {
   getAllCountries,
@@ -71,6 +81,9 @@ import {
   createOrganizationalPosition,
   updateOrganizationalPosition,
   deleteOrganizationalPosition,
+  getPositionHierarchyIssues,
+  previewMoveOrganizationalPosition,
+  moveOrganizationalPosition,
 } from '../controllers/organizational-position.controller';
 import {
   getAllJobPositions,
@@ -78,6 +91,7 @@ import {
   createJobPosition,
   updateJobPosition,
   deleteJobPosition,
+  raiseRequisition,
 } from '../controllers/job-position.controller';
 import {
   getAllHolidays,
@@ -93,8 +107,57 @@ import {
   updateEmployee,
   deleteEmployee,
   bulkExportEmployees,
+  getEmployeeExportColumns,
+  previewNextEmployeeCode,
   bulkUpdateEmployeeStatus,
+  importEmployeesFromFile,
+  downloadEmployeeImportTemplate,
 } from '../controllers/employee.controller';
+import {
+  getEmployeeDocuments,
+  getEmployeeDocumentVersions,
+  uploadEmployeeDocument,
+  updateEmployeeDocument,
+  deleteEmployeeDocument,
+  getMissingMandatoryDocuments,
+  getDocumentComplianceDashboard,
+  sendDocumentExpiryReminders,
+} from '../controllers/employee-document.controller';
+import {
+  getEmployeeEvents,
+  createEmployeeEvent,
+  cancelEmployeeEvent,
+  applyDueEvents,
+} from '../controllers/employee-event.controller';
+import {
+  getOffboardings,
+  getChecklistTemplate,
+  updateChecklistTemplate,
+  getEmployeeOffboarding,
+  startOffboarding,
+  updateOffboarding,
+  cancelOffboarding,
+  updateOffboardingItem,
+} from '../controllers/employee-offboarding.controller';
+import {
+  getOnboardingTemplates,
+  getOnboardingTemplateById,
+  createOnboardingTemplate,
+  updateOnboardingTemplate,
+  deleteOnboardingTemplate,
+  getOnboardings,
+  getOverdueOnboardingTasks,
+  getEmployeeOnboarding,
+  startEmployeeOnboarding,
+  getCandidateOnboarding,
+  startCandidateOnboarding,
+  updateOnboarding,
+  cancelOnboarding,
+  updateOnboardingTask,
+} from '../controllers/employee-onboarding.controller';
+import { getOrgChart, getEmployeeManager } from '../controllers/org-chart.controller';
+import { getHeadcountPlan } from '../controllers/headcount.controller';
+import { getAllDocumentTypes } from '../controllers/documenttype.controller';
 import {
   getAllMaritalStatuses,
   getMaritalStatusById,
@@ -157,6 +220,40 @@ import {
   submitFeedback,
   deleteInterviewSchedule,
 } from '../controllers/interview-schedule.controller';
+import {
+  getAllAttendance,
+  getAttendanceById,
+  markAttendance,
+  bulkMarkAttendance,
+  checkIn,
+  checkOut,
+  updateAttendance,
+  deleteAttendance,
+  getMonthlyRegister,
+} from '../controllers/attendance.controller';
+import {
+  getAllLeaveRequests,
+  getLeaveRequestById,
+  createLeaveRequest,
+  approveLeaveRequest,
+  rejectLeaveRequest,
+  cancelLeaveRequest,
+} from '../controllers/leave-request.controller';
+import {
+  getAllLeaveBalances,
+  allocateBalances,
+} from '../controllers/leave-balance.controller';
+import {
+  getAllAuditLogs,
+  getAuditEntityTypes,
+  getAuditLogById,
+  getEmployeeHistory,
+  getCandidateHistory,
+} from '../controllers/audit-log.controller';
+import {
+  getFile,
+  getSignedFileUrls,
+} from '../controllers/file.controller';
 
 const router = Router({ mergeParams: true }); // mergeParams: true to access :orgSlug
 
@@ -164,12 +261,14 @@ const router = Router({ mergeParams: true }); // mergeParams: true to access :or
  * All tenant routes are prefixed with /api/:orgSlug
  * Middleware chain:
  * 1. authenticate - Ensures user is logged in
+ *    requireTwoFactorEnrolment - Blocks users who must enrol in two-factor authentication first
  * 2. tenantContext - Validates org exists, is active, and user belongs to it (blocks super admins)
  * 3. checkOrgPermission - Validates module is enabled and user has required permission
  */
 
-// Apply authentication and tenant context to ALL routes
+// Apply authentication, two-factor enrolment and tenant context to ALL routes
 router.use(authenticate);
+router.use(requireTwoFactorEnrolment);
 router.use(tenantContext);
 
 /**
@@ -274,6 +373,27 @@ router.put(
   updateUser
 );
 
+// Unlock user locked after failed logins
+router.post(
+  '/users/:id/unlock',
+  checkOrgPermission('users', 'canUpdate'),
+  unlockUser
+);
+
+// Resend invitation email
+router.post(
+  '/users/:id/resend-invite',
+  checkOrgPermission('users', 'canWrite'),
+  resendInvite
+);
+
+// Reset two-factor authentication (lost authenticator)
+router.post(
+  '/users/:id/reset-2fa',
+  checkOrgPermission('users', 'canUpdate'),
+  resetTwoFactor
+);
+
 // Delete user
 router.delete(
   '/users/:id',
@@ -350,6 +470,34 @@ router.put(
   updateOrganizationSettings
 );
 
+/**
+ * Audit Log Routes
+ * /api/:orgSlug/audit-logs
+ * Access: Organization admins (settings read permission)
+ */
+
+// Get audit logs with filters (user, entity, action, date range)
+router.get('/audit-logs', checkOrgPermission('settings', 'canRead'), getAllAuditLogs);
+
+// Get entity types present in the audit log (for filters)
+router.get('/audit-logs/entity-types', checkOrgPermission('settings', 'canRead'), getAuditEntityTypes);
+
+// Get single audit log entry with full diff
+router.get('/audit-logs/:id', checkOrgPermission('settings', 'canRead'), getAuditLogById);
+
+/**
+ * File Routes
+ * /api/:orgSlug/files
+ * Access: Files are checked against the owning record - it must belong to this organization
+ * and the user needs read permission on its module (employees, recruitment)
+ */
+
+// Stream an uploaded file (?path=/uploads/...)
+router.get('/files', getFile);
+
+// Create short-lived signed URLs for <img> tags and download links
+router.post('/files/signed-urls', getSignedFileUrls);
+
 /**
  * Master Data Routes (Read-only for organizations)
  * /api/:orgSlug/masters/*
@@ -364,6 +512,9 @@ router.get('/masters/states', getAllStates);
 // Get all cities (read-only, supports ?stateId filter)
 router.get('/masters/cities', getAllCities);
 
+// Get all document types (read-only, supports ?category filter)
+router.get('/masters/document-types', getAllDocumentTypes);
+
 /**
  * Organization Master Data Routes
  * /api/:orgSlug/masters/*
@@ -407,10 +558,14 @@ router.delete('/masters/branches/:id', checkOrgPermission('master_data', 'canDel
 
 // Organizational Positions
 router.get('/masters/organizational-positions', checkOrgPermission('master_data', 'canRead'), getAllOrganizationalPositions);
+router.get('/masters/organizational-positions/hierarchy/issues', checkOrgPermission('master_data', 'canRead'), getPositionHierarchyIssues);
 router.get('/masters/organizational-positions/:id', checkOrgPermission('master_data', 'canRead'), getOrganizationalPositionById);
 router.post('/masters/organizational-positions', checkOrgPermission('master_data', 'canWrite'), createOrganizationalPosition);
 router.put('/masters/organizational-positions/:id', checkOrgPermission('master_data', 'canUpdate'), updateOrganizationalPosition);
 router.delete('/masters/organizational-positions/:id', checkOrgPermission('master_data', 'canDelete'), deleteOrganizationalPosition);
+router.post('/masters/organizational-positions/:id/move/preview', checkOrgPermission('master_data', 'canUpdate'), previewMoveOrganizationalPosition);
+router.post('/masters/organizational-positions/:id/move', checkOrgPermission('master_data', 'canUpdate'), moveOrganizationalPosition);
+router.post('/masters/organizational-positions/:id/requisitions', checkOrgPermission('master_data', 'canWrite'), raiseRequisition);
 
 // Job Positions (Recruitment)
 router.get('/masters/job-positions', checkOrgPermission('master_data', 'canRead'), getAllJobPositions);
@@ -452,29 +607,211 @@ router.get('/masters/education-levels/:id', checkOrgPermission('master_data', 'c
  * Employee Management Routes
  * /api/:orgSlug/employees
  * Full CRUD operations for organization employees with advanced features
+ * Only employees in the data scope of the user's role are listed, exported or reachable by ID (checkEmployeeScope)
  */
 
 // Get all employees (with pagination, search, and filters)
 router.get('/employees', checkOrgPermission('employees', 'canRead'), getAllEmployees);
 
-// Export employees to CSV (specific route BEFORE parameterized route)
+// Export employees as CSV/XLSX/PDF (specific routes BEFORE parameterized route)
+router.get('/employees/export/columns', checkOrgPermission('employees', 'canExport'), getEmployeeExportColumns);
+router.get('/employees/export', checkOrgPermission('employees', 'canExport'), bulkExportEmployees);
 router.get('/employees/export/csv', checkOrgPermission('employees', 'canExport'), bulkExportEmployees);
 
+// Preview the next generated employee code (when the organization uses automatic codes)
+router.get('/employees/code-preview', checkOrgPermission('employees', 'canWrite'), previewNextEmployeeCode);
+
+// Import template and bulk import from CSV/XLSX (?dryRun=true only validates)
+router.get('/employees/import/template', checkOrgPermission('employees', 'canWrite'), downloadEmployeeImportTemplate);
+router.post('/employees/import', checkOrgPermission('employees', 'canWrite'), employeeImportUpload, importEmployeesFromFile);
+
+// Active employees without a valid document of every mandatory type
+router.get('/employees/documents/missing-mandatory', checkOrgPermission('employees', 'canRead'), getMissingMandatoryDocuments);
+
+// Document compliance dashboard: expiring, expired and missing documents by department/branch (?days=30)
+router.get('/employees/documents/compliance', checkOrgPermission('employees', 'canRead'), getDocumentComplianceDashboard);
+
+// Send the document expiry reminders that are due now (also run daily by `npm run documents:remind`)
+router.post('/employees/documents/reminders', checkOrgPermission('employees', 'canUpdate'), sendDocumentExpiryReminders);
+
+// Apply the scheduled lifecycle events that are due now (also run daily by `npm run employees:apply-events`)
+router.post('/employees/events/apply-due', checkOrgPermission('employees', 'canUpdate'), applyDueEvents);
+
+// Offboardings with checklist progress (?status=in_progress|completed|cancelled)
+router.get('/employees/offboarding', checkOrgPermission('employees', 'canRead'), getOffboardings);
+
+// Exit checklist template used for new offboardings
+router.get('/employees/offboarding/checklist-template', checkOrgPermission('employees', 'canRead'), getChecklistTemplate);
+router.put('/employees/offboarding/checklist-template', checkOrgPermission('employees', 'canUpdate'), updateChecklistTemplate);
+
+// Onboarding templates, picked for new hires by department and employment type
+router.get('/employees/onboarding/templates', checkOrgPermission('employees', 'canRead'), getOnboardingTemplates);
+router.get('/employees/onboarding/templates/:templateId', checkOrgPermission('employees', 'canRead'), getOnboardingTemplateById);
+router.post('/employees/onboarding/templates', checkOrgPermission('employees', 'canUpdate'), createOnboardingTemplate);
+router.put('/employees/onboarding/templates/:templateId', checkOrgPermission('employees', 'canUpdate'), updateOnboardingTemplate);
+router.delete('/employees/onboarding/templates/:templateId', checkOrgPermission('employees', 'canUpdate'), deleteOnboardingTemplate);
+
+// Onboardings with task progress (?status=in_progress|completed|cancelled) and overdue tasks dashboard
+router.get('/employees/onboarding', checkOrgPermission('employees', 'canRead'), getOnboardings);
+router.get('/employees/onboarding/overdue', checkOrgPermission('employees', 'canRead'), getOverdueOnboardingTasks);
+
+// Move to another joining date or link to an employee, cancel, and complete tasks (employee and candidate onboardings)
+router.put('/employees/onboarding/:onboardingId', checkOrgPermission('employees', 'canUpdate'), updateOnboarding);
+router.patch('/employees/onboarding/:onboardingId/cancel', checkOrgPermission('employees', 'canUpdate'), cancelOnboarding);
+router.patch('/employees/onboarding/:onboardingId/tasks/:taskId', checkOrgPermission('employees', 'canUpdate'), updateOnboardingTask);
+
+// Org chart: position hierarchy with occupants, vacancies and subtree rollups
+router.get('/employees/org-chart', checkOrgPermission('employees', 'canRead'), getOrgChart);
+
+// Headcount plan: planned, filled and open seats per department (?groupBy=branch for branches)
+router.get('/employees/headcount-plan', checkOrgPermission('employees', 'canRead'), getHeadcountPlan);
+
 // Get single employee by ID (with all relations and siblings)
-router.get('/employees/:id', checkOrgPermission('employees', 'canRead'), getEmployeeById);
+router.get('/employees/:id', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeById);
+
+// Get change history of an employee (audit info requires approve permission)
+router.get('/employees/:id/history', checkOrgPermission('employees', 'canApprove'), checkEmployeeScope('employees'), getEmployeeHistory);
 
 // Create new employee for this organization (with optional profile picture and ID proof upload)
 router.post('/employees', checkOrgPermission('employees', 'canWrite'), employeeUpload, createEmployee);
 
 // Update employee (with optional profile picture and ID proof upload)
-router.put('/employees/:id', checkOrgPermission('employees', 'canUpdate'), employeeUpload, updateEmployee);
+router.put('/employees/:id', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), employeeUpload, updateEmployee);
 
 // Delete employee
-router.delete('/employees/:id', checkOrgPermission('employees', 'canDelete'), deleteEmployee);
+router.delete('/employees/:id', checkOrgPermission('employees', 'canDelete'), checkEmployeeScope('employees'), deleteEmployee);
 
 // Bulk update employee status
 router.patch('/employees/bulk-status', checkOrgPermission('employees', 'canUpdate'), bulkUpdateEmployeeStatus);
 
+/**
+ * Employee Document Vault Routes
+ * /api/:orgSlug/employees/:id/documents
+ * Typed documents with issue/expiry dates; replacing a document keeps the earlier versions
+ */
+
+// Get the latest version of each document (supports ?documentTypeId and ?category filters)
+router.get('/employees/:id/documents', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeDocuments);
+
+// Get all versions of a document
+router.get('/employees/:id/documents/:documentId/versions', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeDocumentVersions);
+
+// Upload a document (multipart: file, documentTypeId, documentName, issueDate, expiryDate, notes)
+router.post('/employees/:id/documents', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), employeeDocumentUpload, uploadEmployeeDocument);
+
+// Update document details, or upload a new version when a file is sent
+router.put('/employees/:id/documents/:documentId', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), employeeDocumentUpload, updateEmployeeDocument);
+
+// Delete a document with all its versions
+router.delete('/employees/:id/documents/:documentId', checkOrgPermission('employees', 'canDelete'), checkEmployeeScope('employees'), deleteEmployeeDocument);
+
+/**
+ * Employee Lifecycle Event Routes
+ * /api/:orgSlug/employees/:id/events
+ * Promotions, transfers, salary revisions, confirmations and exits; future-dated events are applied on their effective date
+ */
+
+// Get the career timeline of an employee
+router.get('/employees/:id/events', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeEvents);
+
+// Record an event (applied right away when effective today or earlier)
+router.post('/employees/:id/events', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), createEmployeeEvent);
+
+// Cancel a scheduled event
+router.patch('/employees/:id/events/:eventId/cancel', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), cancelEmployeeEvent);
+
+/**
+ * Reporting Line Routes
+ * /api/:orgSlug/employees/:id/manager
+ * Resolved from the organizational position tree (vacant positions are skipped), falling back to the
+ * department head and branch manager
+ */
+
+// Get the employee's manager(s), the chain above and their direct reports
+router.get('/employees/:id/manager', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeManager);
+
+/**
+ * Employee Onboarding Routes
+ * /api/:orgSlug/employees/:id/onboarding
+ * Checklist of a new hire; started automatically when an employee is created and a template matches
+ */
+
+// Get the employee's onboarding and the template a new one would use
+router.get('/employees/:id/onboarding', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeOnboarding);
+
+// Start an onboarding (from the matching template unless templateId is given)
+router.post('/employees/:id/onboarding', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), startEmployeeOnboarding);
+
+/**
+ * Employee Offboarding Routes
+ * /api/:orgSlug/employees/:id/offboarding
+ * Notice period, last working day and exit checklist; the exit is applied on the last working day
+ */
+
+// Get the employee's offboarding and the headships/branches they hand over
+router.get('/employees/:id/offboarding', checkOrgPermission('employees', 'canRead'), checkEmployeeScope('employees'), getEmployeeOffboarding);
+
+// Start an offboarding (schedules the resignation/termination on the last working day)
+router.post('/employees/:id/offboarding', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), startOffboarding);
+
+// Update notice period, last working day, reason or successor (until the exit is applied)
+router.put('/employees/:id/offboarding', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), updateOffboarding);
+
+// Cancel the offboarding and its scheduled exit
+router.patch('/employees/:id/offboarding/cancel', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), cancelOffboarding);
+
+// Complete or reopen a checklist item
+router.patch('/employees/:id/offboarding/items/:itemId', checkOrgPermission('employees', 'canUpdate'), checkEmployeeScope('employees'), updateOffboardingItem);
+
+/**
+ * Attendance Management Routes
+ * /api/:orgSlug/attendance
+ * Daily marking, check-in/check-out and monthly registers
+ */
+
+// Get attendance records (with pagination and date/employee/branch/department filters)
+router.get('/attendance', checkOrgPermission('attendance', 'canRead'), getAllAttendance);
+
+// Monthly register (specific routes BEFORE parameterized route)
+router.get('/attendance/register', checkOrgPermission('attendance', 'canRead'), getMonthlyRegister);
+
+// Get single attendance record
+router.get('/attendance/:id', checkOrgPermission('attendance', 'canRead'), getAttendanceById);
+
+// Mark attendance for one employee
+router.post('/attendance', checkOrgPermission('attendance', 'canWrite'), markAttendance);
+
+// Mark attendance for many employees on one date
+router.post('/attendance/bulk', checkOrgPermission('attendance', 'canWrite'), bulkMarkAttendance);
+
+// Check-in / check-out for today
+router.post('/attendance/check-in', checkOrgPermission('attendance', 'canWrite'), checkIn);
+router.post('/attendance/check-out', checkOrgPermission('attendance', 'canWrite'), checkOut);
+
+// Update attendance record
+router.put('/attendance/:id', checkOrgPermission('attendance', 'canUpdate'), updateAttendance);
+
+// Delete attendance record
+router.delete('/attendance/:id', checkOrgPermission('attendance', 'canDelete'), deleteAttendance);
+
+/**
+ * Leave Management Routes
+ * /api/:orgSlug/leave
+ * Leave requests with approval workflow and balance deduction
+ */
+
+// Leave Requests
+router.get('/leave/requests', checkOrgPermission('leave', 'canRead'), getAllLeaveRequests);
+router.get('/leave/requests/:id', checkOrgPermission('leave', 'canRead'), getLeaveRequestById);
+router.post('/leave/requests', checkOrgPermission('leave', 'canWrite'), createLeaveRequest);
+router.patch('/leave/requests/:id/approve', checkOrgPermission('leave', 'canApprove'), approveLeaveRequest);
+router.patch('/leave/requests/:id/reject', checkOrgPermission('leave', 'canApprove'), rejectLeaveRequest);
+router.patch('/leave/requests/:id/cancel', checkOrgPermission('leave', 'canWrite'), cancelLeaveRequest);
+
+// Leave Balances
+router.get('/leave/balances', checkOrgPermission('leave', 'canRead'), getAllLeaveBalances);
+router.post('/leave/balances/allocate', checkOrgPermission('leave', 'canWrite'), allocateBalances);
+
 /**
  * Recruitment Module Routes
  * /api/:orgSlug/recruitment/*
@@ -485,10 +822,15 @@ router.patch('/employees/bulk-status', checkOrgPermission('employees', 'canUpdat
 router.get('/recruitment/candidates', checkOrgPermission('recruitment', 'canRead'), getAllCandidates);
 router.get('/recruitment/candidates/export/csv', checkOrgPermission('recruitment', 'canExport'), bulkExportCandidates);
 router.get('/recruitment/candidates/:id', checkOrgPermission('recruitment', 'canRead'), getCandidateById);
+router.get('/recruitment/candidates/:id/history', checkOrgPermission('recruitment', 'canApprove'), getCandidateHistory);
 router.post('/recruitment/candidates', checkOrgPermission('recruitment', 'canWrite'), candidateUpload, createCandidate);
 router.put('/recruitment/candidates/:id', checkOrgPermission('recruitment', 'canUpdate'), candidateUpload, updateCandidate);
 router.delete('/recruitment/candidates/:id', checkOrgPermission('recruitment', 'canDelete'), deleteCandidate);
 
+// Onboarding of a selected candidate before they join (moves to the employee created with this candidateId)
+router.get('/recruitment/candidates/:id/onboarding', checkOrgPermission('recruitment', 'canRead'), getCandidateOnboarding);
+router.post('/recruitment/candidates/:id/onboarding', checkOrgPermission('recruitment', 'canUpdate'), startCandidateOnboarding);
+
 // Candidate Comments Routes
 router.get('/recruitment/candidates/:candidateId/comments', checkOrgPermission('recruitment', 'canRead'), getCandidateComments);
 router.post('/recruitment/candidates/:candidateId/comments', checkOrgPermission('recruitment', 'canWrite'), createCandidateComment);
@@ -4,6 +4,7 @@ declare global {
   namespace Express {
     interface Request {
       user?: JWTPayload;
+      twoFactorSetupRequired?: boolean;
       organizationId?: number;
       organization?: {
         id: number;
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { generateAccountToken, verifyAccountToken, AccountTokenPurpose, AccountTokenPayload } from './jwt';
+import { sendMail } from './mailer';
+import { TOKEN_EXPIRY, PASSWORD_POLICY } from '../config/constants';
+
+/**
+ * Account Email Utilities
+ * Issues and validates the one-time links for password reset, email verification and invites
+ */
+
+export interface AccountEmailUser {
+  id: number;
+  email: string;
+  firstName: string | null;
+}
+
+const FRONTEND_URL = (process.env.FRONTEND_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+/**
+ * Email a password reset link
+ */
+export async function sendPasswordResetEmail(user: AccountEmailUser): Promise<void> {
+  const token = generateAccountToken({ userId: user.id, email: user.email }, 'password_reset', TOKEN_EXPIRY.PASSWORD_RESET);
+  const link = `${FRONTEND_URL}/reset-password?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your KalsoHR password',
+    ...renderEmail(
+      `Hi ${user.firstName || 'there'},`,
+      [
+        'We received a request to reset the password for your KalsoHR account.',
+        'This link expires in 1 hour. If you did not request a reset, you can ignore this email.',
+      ],
+      'Reset password',
+      link
+    ),
+  });
+}
+
+/**
+ * Email an address verification link
+ */
+export async function sendVerificationEmail(user: AccountEmailUser): Promise<void> {
+  const token = generateAccountToken({ userId: user.id, email: user.email }, 'email_verification', TOKEN_EXPIRY.EMAIL_VERIFICATION);
+  const link = `${FRONTEND_URL}/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your email address',
+    ...renderEmail(
+      `Hi ${user.firstName || 'there'},`,
+      ['Please confirm that this is your email address. This link expires in 24 hours.'],
+      'Verify email',
+      link
+    ),
+  });
+}
+
+/**
+ * Email an invitation to set a password and join an organization
+ */
+export async function sendInviteEmail(
+  user: AccountEmailUser,
+  organizationName: string | null
+): Promise<void> {
+  const token = generateAccountToken({ userId: user.id, email: user.email }, 'invite', TOKEN_EXPIRY.INVITE);
+  const link = `${FRONTEND_URL}/accept-invite?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: organizationName ? `You're invited to ${organizationName} on KalsoHR` : "You're invited to KalsoHR",
+    ...renderEmail(
+      `Hi ${user.firstName || 'there'},`,
+      [
+        `You have been invited to ${organizationName || 'KalsoHR'}. Set your password to activate your account.`,
+        'This invitation expires in 7 days.',
+      ],
+      'Set password',
+      link
+    ),
+  });
+}
+
+/**
+ * Resolve the user behind an account link token
+ * Rejects tokens for another purpose, for a changed email address, for inactive users,
+ * tokens issued before the user's last password change, and links already used (see consumeAccountToken)
+ */
+export async function resolveAccountToken(token: string, purpose: AccountTokenPurpose) {
+  const decoded = verifyAccountToken(token, purpose);
+  if (!decoded) {
+    return null;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: decoded.userId },
+    include: {
+      organization: {
+        select: { id: true, name: true, slug: true },
+      },
+    },
+  });
+
+  if (!user || !user.isActive || user.email !== decoded.email) {
+    return null;
+  }
+
+  if (isIssuedBeforePasswordChange(decoded.iat, user.passwordChangedAt)) {
+    return null;
+  }
+
+  const used = await prisma.usedAccountToken.findUnique({ where: { id: getAccountTokenId(token, decoded) } });
+  if (used) {
+    return null;
+  }
+
+  return user;
+}
+
+/**
+ * Mark a password reset or invite link as used, right before it sets the password
+ * Returns false when the link was already used, including by a concurrent request with the same link
+ */
+export async function consumeAccountToken(
+  token: string,
+  purpose: AccountTokenPurpose,
+  userId: number
+): Promise<boolean> {
+  const decoded = verifyAccountToken(token, purpose);
+  if (!decoded) {
+    return false;
+  }
+
+  try {
+    await prisma.usedAccountToken.create({
+      data: {
+        id: getAccountTokenId(token, decoded),
+        userId,
+        purpose,
+        expiresAt: decoded.exp ? new Date(decoded.exp * 1000) : new Date(),
+      },
+    });
+    return true;
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Release a link marked as used when setting the password failed, so it can be tried again
+ */
+export async function releaseAccountToken(token: string, purpose: AccountTokenPurpose): Promise<void> {
+  const decoded = verifyAccountToken(token, purpose);
+  if (decoded) {
+    await prisma.usedAccountToken.deleteMany({ where: { id: getAccountTokenId(token, decoded) } });
+  }
+}
+
+/**
+ * Check a token's issue time (JWT iat, seconds) against the user's last password change
+ */
+export function isIssuedBeforePasswordChange(issuedAt: number | undefined, passwordChangedAt: Date | null): boolean {
+  if (!passwordChangedAt || !issuedAt) {
+    return false;
+  }
+  return issuedAt < Math.floor(passwordChangedAt.getTime() / 1000);
+}
+
+/**
+ * Helper function to get the id a link is recorded under once used
+ */
+function getAccountTokenId(token: string, decoded: AccountTokenPayload): string {
+  return decoded.jti || crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Check a new password against the password policy
+ */
+export function isStrongPassword(password: unknown): password is string {
+  return (
+    typeof password === 'string' &&
+    password.length >= PASSWORD_POLICY.MIN_LENGTH &&
+    /[A-Z]/.test(password) &&
+    /[a-z]/.test(password) &&
+    /[0-9]/.test(password)
+  );
+}
+
+/**
+ * Helper function to render a simple transactional email with one call to action
+ */
+function renderEmail(
+  greeting: string,
+  paragraphs: string[],
+  actionLabel: string,
+  actionUrl: string
+): { text: string; html: string } {
+  const text = [greeting, '', ...paragraphs, '', `${actionLabel}: ${actionUrl}`].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 560px; margin: 0 auto; color: #111827;">
+      <p>${escapeHtml(greeting)}</p>
+      ${paragraphs.map((paragraph) => `<p>${escapeHtml(paragraph)}</p>`).join('\n      ')}
+      <p style="margin: 32px 0;">
+        <a href="${escapeHtml(actionUrl)}" style="background: #2563eb; color: #ffffff; padding: 12px 24px; border-radius: 6px; text-decoration: none;">
+          ${escapeHtml(actionLabel)}
+        </a>
+      </p>
+      <p style="font-size: 12px; color: #6b7280;">If the button does not work, copy this link into your browser:<br>${escapeHtml(actionUrl)}</p>
+    </div>
+  `;
+
+  return { text, html };
+}
+
+/**
+ * Helper function to escape text for HTML email bodies
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,92 @@
+import { WORK_HOURS } from '../config/constants';
+
+/**
+ * Attendance Utilities
+ * Date and work-hour helpers shared by attendance and leave processing
+ */
+
+/**
+ * Parse a date string (YYYY-MM-DD or ISO) into a UTC midnight Date
+ * Attendance and leave dates are stored as @db.Date, so the time part is discarded
+ * Returns null when the input is missing or not a valid date
+ */
+export function toDateOnly(value: any): Date | null {
+  if (!value) return null;
+
+  const raw = typeof value === 'string' && !/T/.test(value) ? `${value}T00:00:00.000Z` : value;
+  const date = new Date(raw);
+
+  if (isNaN(date.getTime())) return null;
+
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Format a date-only value as YYYY-MM-DD
+ */
+export function formatDateKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Get today's date (YYYY-MM-DD) in the organization's timezone
+ */
+export function getTodayInTimezone(timezone?: string | null): Date {
+  return getDateInTimezone(new Date(), timezone);
+}
+
+/**
+ * Get the date (YYYY-MM-DD) an instant falls on in the organization's timezone
+ */
+export function getDateInTimezone(instant: Date, timezone?: string | null): Date {
+  try {
+    // en-CA formats dates as YYYY-MM-DD
+    const date = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone || 'UTC',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    }).format(instant);
+    return toDateOnly(date) as Date;
+  } catch (error) {
+    return toDateOnly(instant.toISOString()) as Date;
+  }
+}
+
+/**
+ * Compute work and overtime hours between check-in and check-out
+ * Both values are rounded to 2 decimals to fit Decimal(4, 2) columns
+ */
+export function computeWorkHours(
+  checkInTime: Date,
+  checkOutTime: Date
+): { workHours: number; overtimeHours: number } {
+  const diffHours = (checkOutTime.getTime() - checkInTime.getTime()) / (1000 * 60 * 60);
+  const workHours = Math.round(Math.max(diffHours, 0) * 100) / 100;
+  const overtimeHours = Math.round(Math.max(workHours - WORK_HOURS.STANDARD, 0) * 100) / 100;
+
+  return { workHours, overtimeHours };
+}
+
+/**
+ * Check whether a date falls on a weekend (Saturday or Sunday)
+ */
+export function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * List every date (UTC midnight) between start and end, inclusive
+ */
+export function eachDateInRange(startDate: Date, endDate: Date): Date[] {
+  const dates: Date[] = [];
+  const current = new Date(startDate.getTime());
+
+  while (current <= endDate) {
+    dates.push(new Date(current.getTime()));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
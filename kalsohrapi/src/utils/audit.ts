@@ -0,0 +1,135 @@
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { AUDIT_ACTIONS } from '../config/constants';
+
+/**
+ * Audit Log Utilities
+ * Records create/update/delete operations with before/after values into the audit_logs table
+ */
+
+export interface AuditEntry {
+  action: string;
+  entityType: string;
+  entityId?: number | null;
+  oldValues?: Record<string, any> | null;
+  newValues?: Record<string, any> | null;
+  // Overrides the tenant org from the request (e.g. superadmin actions on an organization)
+  organizationId?: number | null;
+}
+
+// Never persisted in audit values
+const REDACTED_FIELDS = ['passwordHash', 'password', 'refreshToken', 'token', 'twoFactorSecret'];
+
+// Bookkeeping fields that change on every write and carry no audit value
+const IGNORED_FIELDS = ['createdAt', 'updatedAt', 'createdBy', 'updatedBy'];
+
+/**
+ * Convert a record into a flat JSON-safe object of scalar fields
+ * Relations (nested objects/arrays) are dropped; Dates, Decimals and BigInts are serialized
+ */
+export function toAuditValues(
+  record: Record<string, any> | null | undefined,
+  redact: boolean = true
+): Record<string, any> | null {
+  if (!record) return null;
+
+  const values: Record<string, any> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+
+    if (redact && REDACTED_FIELDS.includes(key)) {
+      values[key] = '[REDACTED]';
+    } else if (value === null || value === undefined) {
+      values[key] = null;
+    } else if (value instanceof Date) {
+      values[key] = value.toISOString();
+    } else if (Prisma.Decimal.isDecimal(value)) {
+      values[key] = Number(value);
+    } else if (typeof value === 'bigint') {
+      values[key] = value.toString();
+    } else if (typeof value !== 'object') {
+      values[key] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Compute the changed fields between two versions of a record
+ * Returns only the keys whose values differ, or null when nothing changed.
+ * Redacted fields are compared on their real values so e.g. a password change is still recorded.
+ */
+export function diffAuditValues(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { oldValues: Record<string, any>; newValues: Record<string, any> } | null {
+  const oldAll = toAuditValues(before, false) || {};
+  const newAll = toAuditValues(after, false) || {};
+
+  const oldValues: Record<string, any> = {};
+  const newValues: Record<string, any> = {};
+
+  for (const key of Object.keys(newAll)) {
+    if (!(key in oldAll)) continue;
+    if (JSON.stringify(oldAll[key]) !== JSON.stringify(newAll[key])) {
+      const redacted = REDACTED_FIELDS.includes(key);
+      oldValues[key] = redacted ? '[REDACTED]' : oldAll[key];
+      newValues[key] = redacted ? '[REDACTED]' : newAll[key];
+    }
+  }
+
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : null;
+}
+
+/**
+ * Write an audit log entry for the current request
+ * Updates are stored as a diff of changed fields only; no-op updates are not logged.
+ * Failures are logged and swallowed so auditing never breaks the business operation.
+ */
+export async function logAudit(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    let oldValues = toAuditValues(entry.oldValues);
+    let newValues = toAuditValues(entry.newValues);
+
+    if (entry.action === AUDIT_ACTIONS.UPDATE && entry.oldValues && entry.newValues) {
+      const diff = diffAuditValues(entry.oldValues, entry.newValues);
+      if (!diff) return;
+      oldValues = diff.oldValues;
+      newValues = diff.newValues;
+    }
+
+    const organizationId =
+      entry.organizationId !== undefined ? entry.organizationId : (req as any).organizationId || null;
+
+    await prisma.auditLog.create({
+      data: {
+        organizationId,
+        userId: (req as any).user?.userId || null,
+        action: entry.action,
+        entityType: entry.entityType,
+        entityId: entry.entityId ?? null,
+        oldValues: oldValues ?? Prisma.JsonNull,
+        newValues: newValues ?? Prisma.JsonNull,
+        ipAddress: getClientIp(req),
+        userAgent: req.headers['user-agent'] || null,
+        isImpersonation: (req as any).isImpersonating === true,
+      },
+    });
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+}
+
+/**
+ * Resolve the client IP
+ * Uses req.ip, which only trusts the forwarded address added by our own proxy ('trust proxy' in index.ts);
+ * the leftmost X-Forwarded-For entry is client-supplied and must not be used for throttling or audit
+ */
+export function getClientIp(req: Request): string | null {
+  const ip = req.ip || req.socket?.remoteAddress;
+
+  return ip ? ip.substring(0, 45) : null;
+}
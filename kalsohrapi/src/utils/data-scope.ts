@@ -0,0 +1,150 @@
+import { Prisma } from '@prisma/client';
+import { DATA_SCOPES, DATA_SCOPED_MODULES } from '../config/constants';
+
+/**
+ * Data Scopes
+ * A role's permissions on the employees, attendance and leave modules reach only the employees in its
+ * data scope (RolePermission.dataScope): the user's own record, their direct and indirect reports down the
+ * organizational position tree, their department, their branch, or the whole organization.
+ *
+ * The scope is resolved from the employee linked to the logged-in user, and every scope includes that
+ * employee. A user without a linked employee sees nobody unless the scope is the whole organization.
+ * Super admins in support mode always see the whole organization.
+ */
+
+export type DataScope = 'own' | 'reports' | 'department' | 'branch' | 'organization';
+
+const VALID_DATA_SCOPES: string[] = Object.values(DATA_SCOPES);
+
+/**
+ * Check whether a value is a known data scope
+ */
+export function isValidDataScope(value: unknown): value is DataScope {
+  return typeof value === 'string' && VALID_DATA_SCOPES.includes(value);
+}
+
+/**
+ * Get the data scope of the user's role on a module
+ * Modules without employee records (and super admins) are always organization-wide
+ */
+export async function getDataScope(
+  client: Prisma.TransactionClient,
+  user: any,
+  moduleCode: string
+): Promise<DataScope> {
+  if (user?.isSuperAdmin || !DATA_SCOPED_MODULES.includes(moduleCode)) {
+    return 'organization';
+  }
+
+  if (!user?.roleId) {
+    return 'own';
+  }
+
+  const permission = await client.rolePermission.findUnique({
+    where: { roleId_moduleCode: { roleId: user.roleId, moduleCode } },
+    select: { dataScope: true },
+  });
+
+  // An unknown value never widens access
+  return permission && isValidDataScope(permission.dataScope) ? permission.dataScope : 'own';
+}
+
+/**
+ * Build the employee filter for the user's data scope on a module
+ * Returns an empty filter for the whole organization; combine it with AND so it never replaces other filters
+ */
+export async function getEmployeeScopeWhere(
+  client: Prisma.TransactionClient,
+  user: any,
+  organizationId: number,
+  moduleCode: string
+): Promise<Prisma.EmployeeWhereInput> {
+  const scope = await getDataScope(client, user, moduleCode);
+  if (scope === 'organization') {
+    return {};
+  }
+
+  const self = user?.userId
+    ? await client.employee.findFirst({
+        where: { organizationId, userId: user.userId },
+        select: { id: true, departmentId: true, branchId: true, organizationalPositionId: true },
+      })
+    : null;
+
+  if (!self) {
+    return { id: { in: [] } };
+  }
+
+  switch (scope) {
+    case 'reports': {
+      const positionIds = self.organizationalPositionId
+        ? await findReportPositionIds(client, organizationId, self.organizationalPositionId)
+        : [];
+      return positionIds.length > 0
+        ? { OR: [{ id: self.id }, { organizationalPositionId: { in: positionIds } }] }
+        : { id: self.id };
+    }
+    case 'department':
+      return self.departmentId ? { OR: [{ id: self.id }, { departmentId: self.departmentId }] } : { id: self.id };
+    case 'branch':
+      return self.branchId ? { OR: [{ id: self.id }, { branchId: self.branchId }] } : { id: self.id };
+    default:
+      return { id: self.id };
+  }
+}
+
+/**
+ * Check whether an employee of the organization is within the user's data scope on a module
+ */
+export async function isEmployeeInScope(
+  client: Prisma.TransactionClient,
+  user: any,
+  organizationId: number,
+  moduleCode: string,
+  employeeId: number
+): Promise<boolean> {
+  const scopeWhere = await getEmployeeScopeWhere(client, user, organizationId, moduleCode);
+  const count = await client.employee.count({
+    where: { id: employeeId, organizationId, AND: [scopeWhere] },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Helper function to find every position below a position (direct and indirect reports)
+ * Inactive positions are walked through so a closed position does not cut off the ones below it
+ */
+async function findReportPositionIds(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  positionId: number
+): Promise<number[]> {
+  const positions = await client.organizationalPosition.findMany({
+    where: { organizationId },
+    select: { id: true, reportingPositionId: true },
+  });
+
+  const children = new Map<number, number[]>();
+  for (const position of positions) {
+    if (!position.reportingPositionId) continue;
+    const siblings = children.get(position.reportingPositionId) ?? [];
+    siblings.push(position.id);
+    children.set(position.reportingPositionId, siblings);
+  }
+
+  // The visited set also guards against a reporting cycle left in the tree
+  const visited = new Set<number>([positionId]);
+  const pending = [...(children.get(positionId) ?? [])];
+  const reports: number[] = [];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    reports.push(id);
+    pending.push(...(children.get(id) ?? []));
+  }
+
+  return reports;
+}
@@ -0,0 +1,335 @@
+import { PrismaClient } from '@prisma/client';
+import { sendMail } from './mailer';
+import { getTodayInTimezone, formatDateKey } from './attendance';
+import { DOCUMENT_REMINDERS } from '../config/constants';
+
+// Own client so the reminder script can run without starting the HTTP server
+const prisma = new PrismaClient();
+
+/**
+ * Document Compliance Utilities
+ * Expiry status and mandatory document checks for the employee document vault,
+ * and the expiry reminders sent to HR and employees (npm run documents:remind)
+ */
+
+export interface MandatoryDocumentType {
+  id: number;
+  name: string;
+  code: string;
+  category: string;
+}
+
+export interface MissingDocumentType extends MandatoryDocumentType {
+  reason: 'missing' | 'expired';
+}
+
+export interface ReminderOptions {
+  organizationId: number;
+  dryRun?: boolean;
+}
+
+export interface ReminderRow {
+  documentId: number;
+  documentName: string;
+  documentType: string | null;
+  employeeId: number;
+  employeeCode: string;
+  employeeName: string;
+  expiryDate: string;
+  daysUntilExpiry: number;
+  stage: number;
+}
+
+export interface ReminderResult {
+  reminders: ReminderRow[];
+  summary: {
+    documentsDue: number;
+    hrRecipients: number;
+    employeeEmails: number;
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const FRONTEND_URL = (process.env.FRONTEND_URL || 'http://localhost:3001').replace(/\/$/, '');
+
+/**
+ * Today's date in the organization's timezone
+ */
+export async function getOrganizationToday(organizationId: number): Promise<Date> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+
+  return getTodayInTimezone(organization?.timezone);
+}
+
+/**
+ * Active document types that every employee must have
+ */
+export async function getMandatoryDocumentTypes(): Promise<MandatoryDocumentType[]> {
+  return prisma.documentType.findMany({
+    where: { isActive: true, isMandatory: true },
+    select: { id: true, name: true, code: true, category: true },
+    orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * List the mandatory types without a valid (present and unexpired) document
+ */
+export function findMissingMandatoryTypes(
+  documents: { documentTypeId: number | null; expiryDate: Date | null }[],
+  mandatoryTypes: MandatoryDocumentType[],
+  today: Date
+): MissingDocumentType[] {
+  const missing: MissingDocumentType[] = [];
+
+  for (const type of mandatoryTypes) {
+    const ofType = documents.filter((document) => document.documentTypeId === type.id);
+
+    if (ofType.length === 0) {
+      missing.push({ ...type, reason: 'missing' });
+    } else if (ofType.every((document) => document.expiryDate && document.expiryDate < today)) {
+      missing.push({ ...type, reason: 'expired' });
+    }
+  }
+
+  return missing;
+}
+
+/**
+ * Days from today until a document expires (negative once expired, null when it does not expire)
+ */
+export function getDaysUntilExpiry(expiryDate: Date | null, today: Date): number | null {
+  return expiryDate ? Math.round((expiryDate.getTime() - today.getTime()) / DAY_MS) : null;
+}
+
+/**
+ * Add the expiry status to a document
+ */
+export function withExpiryStatus<T extends { expiryDate: Date | null }>(document: T, today: Date) {
+  const daysUntilExpiry = getDaysUntilExpiry(document.expiryDate, today);
+
+  return {
+    ...document,
+    isExpired: daysUntilExpiry !== null && daysUntilExpiry < 0,
+    daysUntilExpiry,
+  };
+}
+
+/**
+ * Parse an organization's reminder days ("30,7,0"), largest first
+ * Returns null when the value is not a valid list
+ */
+export function parseReminderDays(value: unknown): number[] | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const days = value.split(',').map((part) => Number(part.trim()));
+  if (
+    days.length > DOCUMENT_REMINDERS.MAX_STAGES ||
+    days.some((day) => !Number.isInteger(day) || day < 0 || day > DOCUMENT_REMINDERS.MAX_DAYS)
+  ) {
+    return null;
+  }
+
+  return Array.from(new Set(days)).sort((a, b) => b - a);
+}
+
+/**
+ * Reminder stage a document is in: the smallest reminder threshold it has reached, or null if none yet
+ */
+export function getReminderStage(daysUntilExpiry: number, reminderDays: number[]): number | null {
+  const reached = reminderDays.filter((days) => daysUntilExpiry <= days);
+  return reached.length > 0 ? Math.min(...reached) : null;
+}
+
+/**
+ * Send the expiry reminders that are due for an organization
+ * Each document gets one reminder per stage (e.g. 30 and 7 days before, and on expiry): HR users with
+ * update permission on employees receive a digest and each employee an email about their own documents
+ */
+export async function sendDocumentReminders(options: ReminderOptions): Promise<ReminderResult> {
+  const { organizationId, dryRun = false } = options;
+
+  const organization = await prisma.organization.findUniqueOrThrow({
+    where: { id: organizationId },
+    select: { id: true, name: true, slug: true, email: true, timezone: true, documentReminderDays: true },
+  });
+
+  const reminderDays = parseReminderDays(organization.documentReminderDays) ?? DOCUMENT_REMINDERS.DEFAULT_DAYS;
+  const today = getTodayInTimezone(organization.timezone);
+  const horizon = new Date(today.getTime() + Math.max(...reminderDays) * DAY_MS);
+
+  const documents = await prisma.employeeDocument.findMany({
+    where: {
+      organizationId,
+      isLatest: true,
+      expiryDate: { not: null, lte: horizon },
+      employee: { isActive: true },
+    },
+    include: {
+      documentTypeMaster: { select: { name: true } },
+      employee: { select: { id: true, employeeCode: true, firstName: true, lastName: true, email: true } },
+      reminders: { select: { stage: true } },
+    },
+    orderBy: { expiryDate: 'asc' },
+  });
+
+  const due: (ReminderRow & { employeeEmail: string | null })[] = [];
+
+  for (const document of documents) {
+    const daysUntilExpiry = getDaysUntilExpiry(document.expiryDate, today) as number;
+    const stage = getReminderStage(daysUntilExpiry, reminderDays);
+
+    // Skip documents not yet in a stage, or already reminded at this or a later stage
+    if (stage === null || document.reminders.some((reminder) => reminder.stage <= stage)) {
+      continue;
+    }
+
+    due.push({
+      documentId: document.id,
+      documentName: document.documentName,
+      documentType: document.documentTypeMaster?.name || null,
+      employeeId: document.employee.id,
+      employeeCode: document.employee.employeeCode,
+      employeeName: [document.employee.firstName, document.employee.lastName].filter(Boolean).join(' '),
+      employeeEmail: document.employee.email,
+      expiryDate: formatDateKey(document.expiryDate as Date),
+      daysUntilExpiry,
+      stage,
+    });
+  }
+
+  const hrRecipients = due.length > 0 ? await getHrRecipients(organizationId, organization.email) : [];
+  const employeeEmails = Array.from(new Set(due.map((row) => row.employeeEmail).filter(Boolean))) as string[];
+
+  if (!dryRun && due.length > 0) {
+    for (const email of hrRecipients) {
+      await sendMail({
+        to: email,
+        subject: `${due.length} employee document(s) expiring at ${organization.name}`,
+        ...renderReminderEmail(
+          'Hi,',
+          'The following employee documents have expired or are about to expire:',
+          due,
+          `${FRONTEND_URL}/${organization.slug}/documents`
+        ),
+      });
+    }
+
+    for (const email of employeeEmails) {
+      const rows = due.filter((row) => row.employeeEmail === email);
+      await sendMail({
+        to: email,
+        subject: 'Your documents on file are expiring',
+        ...renderReminderEmail(
+          `Hi ${rows[0].employeeName},`,
+          `Please share renewed copies of these documents with HR at ${organization.name}:`,
+          rows
+        ),
+      });
+    }
+
+    await prisma.documentReminder.createMany({
+      data: due.map((row) => ({
+        organizationId,
+        documentId: row.documentId,
+        employeeId: row.employeeId,
+        stage: row.stage,
+        expiryDate: new Date(`${row.expiryDate}T00:00:00.000Z`),
+        recipients: [...hrRecipients, ...(row.employeeEmail ? [row.employeeEmail] : [])].join(','),
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  return {
+    reminders: due.map(({ employeeEmail, ...row }) => row),
+    summary: {
+      documentsDue: due.length,
+      hrRecipients: hrRecipients.length,
+      employeeEmails: employeeEmails.length,
+    },
+  };
+}
+
+/**
+ * Helper function to find the HR users to remind: active users whose role can update employees
+ * Falls back to the organization's contact email
+ */
+async function getHrRecipients(organizationId: number, organizationEmail: string | null): Promise<string[]> {
+  const users = await prisma.user.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      role: {
+        isActive: true,
+        permissions: { some: { moduleCode: 'employees', canUpdate: true } },
+      },
+    },
+    select: { email: true },
+  });
+
+  if (users.length > 0) {
+    return users.map((user) => user.email);
+  }
+
+  return organizationEmail ? [organizationEmail] : [];
+}
+
+/**
+ * Helper function to render a reminder email listing documents and their expiry
+ */
+function renderReminderEmail(
+  greeting: string,
+  intro: string,
+  rows: ReminderRow[],
+  actionUrl?: string
+): { text: string; html: string } {
+  const describe = (row: ReminderRow) =>
+    row.daysUntilExpiry < 0
+      ? `expired on ${row.expiryDate}`
+      : row.daysUntilExpiry === 0
+        ? 'expires today'
+        : `expires on ${row.expiryDate} (in ${row.daysUntilExpiry} day${row.daysUntilExpiry === 1 ? '' : 's'})`;
+
+  const lines = rows.map(
+    (row) => `- ${row.employeeName} (${row.employeeCode}): ${row.documentType || row.documentName} ${describe(row)}`
+  );
+
+  const text = [greeting, '', intro, ...lines, ...(actionUrl ? ['', `Review documents: ${actionUrl}`] : [])].join('\n');
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 640px; margin: 0 auto; color: #111827;">
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(intro)}</p>
+      <ul>
+        ${rows
+          .map(
+            (row) =>
+              `<li><strong>${escapeHtml(row.employeeName)}</strong> (${escapeHtml(row.employeeCode)}): ` +
+              `${escapeHtml(row.documentType || row.documentName)} ${escapeHtml(describe(row))}</li>`
+          )
+          .join('\n        ')}
+      </ul>
+      ${actionUrl ? `<p><a href="${escapeHtml(actionUrl)}">Review documents</a></p>` : ''}
+    </div>
+  `;
+
+  return { text, html };
+}
+
+/**
+ * Helper function to escape text for HTML email bodies
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,301 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { EMPLOYEE_CODE } from '../config/constants';
+
+/**
+ * Employee Codes
+ * Generates employee codes from the organization's pattern when automatic codes are enabled.
+ *
+ * Pattern tokens:
+ *   {ORG}      organization code
+ *   {BRANCH}   branch code
+ *   {DEPT}     department code
+ *   {YYYY}     year of joining (4 digits), {YY} (2 digits)
+ *   {MM}       month of joining
+ *   {SEQ:n}    sequence number zero-padded to n digits ({SEQ} is not padded), required exactly once
+ *
+ * Anything else in the pattern must be letters, digits or - _ / .
+ * Each distinct rendering of the pattern (e.g. "ACME-HQ-2026-{SEQ}") has its own counter, so patterns
+ * with a branch or a year number each branch or year from 1.
+ */
+
+export interface EmployeeCodeContext {
+  branchId?: number | null;
+  departmentId?: number | null;
+  dateOfJoining?: Date | string | null;
+}
+
+export interface EmployeeCodeSettings {
+  autoGenerate: boolean;
+  pattern: string;
+}
+
+const TOKEN_REGEX = /\{([A-Z]+)(?::(\d+))?\}/g;
+const LITERAL_REGEX = /^[A-Za-z0-9\-_/.]*$/;
+const SEQ_PLACEHOLDER = '{SEQ}';
+
+/**
+ * Validate an employee code pattern
+ * Returns an error message, or null when the pattern is valid
+ */
+export function validateEmployeeCodePattern(pattern: unknown): string | null {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    return 'Employee code pattern is required';
+  }
+
+  if (pattern.length > EMPLOYEE_CODE.MAX_PATTERN_LENGTH) {
+    return `Employee code pattern must be at most ${EMPLOYEE_CODE.MAX_PATTERN_LENGTH} characters`;
+  }
+
+  let sequences = 0;
+  for (const [token, name, digits] of pattern.matchAll(TOKEN_REGEX)) {
+    if (name === 'SEQ') {
+      sequences++;
+      if (digits !== undefined && (Number(digits) < 1 || Number(digits) > EMPLOYEE_CODE.MAX_SEQ_DIGITS)) {
+        return `The sequence in ${token} must have between 1 and ${EMPLOYEE_CODE.MAX_SEQ_DIGITS} digits`;
+      }
+    } else if (!['ORG', 'BRANCH', 'DEPT', 'YYYY', 'YY', 'MM'].includes(name) || digits !== undefined) {
+      return `Unknown token ${token}. Use {ORG}, {BRANCH}, {DEPT}, {YYYY}, {YY}, {MM} and {SEQ:n}`;
+    }
+  }
+
+  if (sequences !== 1) {
+    return 'Employee code pattern must contain the sequence token {SEQ} (or {SEQ:n}) exactly once';
+  }
+
+  if (!LITERAL_REGEX.test(pattern.replace(TOKEN_REGEX, ''))) {
+    return 'Besides the tokens, employee code patterns may only contain letters, digits and - _ / .';
+  }
+
+  return null;
+}
+
+/**
+ * Get an organization's employee code settings
+ */
+export async function getEmployeeCodeSettings(organizationId: number): Promise<EmployeeCodeSettings> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { employeeCodeAutoGenerate: true, employeeCodePattern: true },
+  });
+
+  return {
+    autoGenerate: !!organization?.employeeCodeAutoGenerate,
+    pattern: organization?.employeeCodePattern || EMPLOYEE_CODE.DEFAULT_PATTERN,
+  };
+}
+
+/**
+ * Generate the next employee code and advance its counter
+ * Must run inside the transaction that creates the employee: the counter row stays locked until the
+ * transaction ends, so concurrent requests get consecutive numbers, and a rolled back create frees its number again.
+ * Codes that are already taken (or listed in `exclude`) are skipped.
+ * Throws an error with code EMPLOYEE_CODE.GENERATION_FAILED_CODE when the pattern cannot be filled in.
+ */
+export async function generateEmployeeCode(
+  tx: Prisma.TransactionClient,
+  organizationId: number,
+  context: EmployeeCodeContext,
+  options: { pattern?: string; exclude?: Set<string> } = {}
+): Promise<string> {
+  const pattern = options.pattern || (await getEmployeeCodeSettings(organizationId)).pattern;
+  const scope = await renderScope(tx, organizationId, pattern, context);
+
+  for (let attempt = 0; attempt < EMPLOYEE_CODE.MAX_ATTEMPTS; attempt++) {
+    const code = applySequence(pattern, scope, await nextSequenceValue(tx, organizationId, scope));
+
+    if (!(await isCodeTaken(tx, organizationId, code, options.exclude))) {
+      return code;
+    }
+  }
+
+  throw generationError(
+    `Could not find a free employee code for ${scope} after ${EMPLOYEE_CODE.MAX_ATTEMPTS} attempts. Please enter the code manually`
+  );
+}
+
+/**
+ * Preview the code the next employee would get, without advancing the counter
+ * The code is not reserved: another employee created first takes it
+ */
+export async function previewEmployeeCode(
+  organizationId: number,
+  context: EmployeeCodeContext,
+  pattern: string
+): Promise<string> {
+  const scope = await renderScope(prisma, organizationId, pattern, context);
+
+  const sequence = await prisma.employeeCodeSequence.findUnique({
+    where: { organizationId_scope: { organizationId, scope } },
+    select: { lastValue: true },
+  });
+  let value = sequence ? sequence.lastValue : await highestExistingSequence(prisma, organizationId, scope);
+
+  for (let attempt = 0; attempt < EMPLOYEE_CODE.MAX_ATTEMPTS; attempt++) {
+    const code = applySequence(pattern, scope, ++value);
+    if (!(await isCodeTaken(prisma, organizationId, code))) {
+      return code;
+    }
+  }
+
+  throw generationError(`Could not find a free employee code for ${scope}. Please enter the code manually`);
+}
+
+/**
+ * Whether an error was raised because an employee code could not be generated
+ */
+export function isEmployeeCodeError(error: unknown): error is Error & { code: string } {
+  return error instanceof Error && (error as any).code === EMPLOYEE_CODE.GENERATION_FAILED_CODE;
+}
+
+/**
+ * Helper function to fill in every token but the sequence (which is normalized to {SEQ})
+ */
+async function renderScope(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  pattern: string,
+  context: EmployeeCodeContext
+): Promise<string> {
+  const tokens = new Set(Array.from(pattern.matchAll(TOKEN_REGEX), (match) => match[1]));
+
+  const [organization, branch, department] = await Promise.all([
+    client.organization.findUnique({ where: { id: organizationId }, select: { code: true } }),
+    tokens.has('BRANCH') && context.branchId
+      ? client.branch.findFirst({ where: { id: context.branchId, organizationId }, select: { name: true, code: true } })
+      : null,
+    tokens.has('DEPT') && context.departmentId
+      ? client.department.findFirst({
+          where: { id: context.departmentId, organizationId },
+          select: { name: true, code: true },
+        })
+      : null,
+  ]);
+
+  if (tokens.has('BRANCH')) {
+    if (!branch) throw generationError('Select a branch to generate the employee code');
+    if (!branch.code) {
+      throw generationError(`Branch "${branch.name}" has no code. Add one in master data to generate employee codes`);
+    }
+  }
+
+  if (tokens.has('DEPT')) {
+    if (!department) throw generationError('Select a department to generate the employee code');
+    if (!department.code) {
+      throw generationError(
+        `Department "${department.name}" has no code. Add one in master data to generate employee codes`
+      );
+    }
+  }
+
+  const date = context.dateOfJoining ? new Date(context.dateOfJoining) : new Date();
+  const joining = isNaN(date.getTime()) ? new Date() : date;
+  const year = String(joining.getUTCFullYear());
+
+  const values: Record<string, string> = {
+    ORG: organization?.code || '',
+    BRANCH: branch?.code || '',
+    DEPT: department?.code || '',
+    YYYY: year,
+    YY: year.slice(-2),
+    MM: String(joining.getUTCMonth() + 1).padStart(2, '0'),
+  };
+
+  return pattern.replace(TOKEN_REGEX, (_, name: string) => (name === 'SEQ' ? SEQ_PLACEHOLDER : values[name]));
+}
+
+/**
+ * Helper function to put the (padded) sequence number into a rendered scope
+ */
+function applySequence(pattern: string, scope: string, value: number): string {
+  const digits = Number(/\{SEQ:(\d+)\}/.exec(pattern)?.[1] || 1);
+  const code = scope.replace(SEQ_PLACEHOLDER, String(value).padStart(digits, '0'));
+
+  if (code.length > EMPLOYEE_CODE.MAX_LENGTH) {
+    throw generationError(`Generated employee code ${code} is longer than ${EMPLOYEE_CODE.MAX_LENGTH} characters`);
+  }
+
+  return code;
+}
+
+/**
+ * Helper function to advance the counter of a scope and return the new value
+ * A new counter starts after the highest matching code already in use (e.g. codes entered before opting in)
+ */
+async function nextSequenceValue(tx: Prisma.TransactionClient, organizationId: number, scope: string): Promise<number> {
+  const where = { organizationId_scope: { organizationId, scope } };
+
+  const existing = await tx.employeeCodeSequence.findUnique({ where, select: { id: true } });
+  if (!existing) {
+    const start = await highestExistingSequence(tx, organizationId, scope);
+    try {
+      const created = await tx.employeeCodeSequence.create({
+        data: { organizationId, scope, lastValue: start + 1 },
+      });
+      return created.lastValue;
+    } catch (error) {
+      // Another request created the counter first: increment that one instead
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+        throw error;
+      }
+    }
+  }
+
+  // The increment locks the counter row until the transaction ends
+  const updated = await tx.employeeCodeSequence.update({
+    where,
+    data: { lastValue: { increment: 1 } },
+    select: { lastValue: true },
+  });
+
+  return updated.lastValue;
+}
+
+/**
+ * Helper function to find the highest sequence number among the existing codes of a scope
+ */
+async function highestExistingSequence(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  scope: string
+): Promise<number> {
+  const [prefix, suffix] = scope.split(SEQ_PLACEHOLDER);
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+  const matcher = new RegExp(`^${escape(prefix)}(\\d+)${escape(suffix)}$`, 'i');
+
+  const employees = await client.employee.findMany({
+    where: { organizationId, ...(prefix && { employeeCode: { startsWith: prefix } }) },
+    select: { employeeCode: true },
+  });
+
+  return employees.reduce((highest, employee) => {
+    const match = matcher.exec(employee.employeeCode);
+    return match ? Math.max(highest, Number(match[1])) : highest;
+  }, 0);
+}
+
+/**
+ * Helper function to check whether a code is used by an employee of the organization
+ */
+async function isCodeTaken(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  code: string,
+  exclude?: Set<string>
+): Promise<boolean> {
+  if (exclude?.has(code.toLowerCase())) return true;
+
+  const employee = await client.employee.findFirst({
+    where: { organizationId, employeeCode: code },
+    select: { id: true },
+  });
+
+  return !!employee;
+}
+
+/**
+ * Helper function to create an error that is reported to the client as a 400
+ */
+function generationError(message: string): Error {
+  return Object.assign(new Error(message), { code: EMPLOYEE_CODE.GENERATION_FAILED_CODE });
+}
@@ -0,0 +1,225 @@
+import { Employee, EmployeeEvent, Prisma, PrismaClient } from '@prisma/client';
+import { getTodayInTimezone } from './attendance';
+import { processEmployeeExit, EmployeeExitResult } from './employee-offboarding';
+import { EMPLOYEE_EVENT_STATUS, EMPLOYEE_EVENT_TYPES, EMPLOYEE_STATUS } from '../config/constants';
+
+// Own client so the scheduled events script can run without starting the HTTP server
+const prisma = new PrismaClient();
+
+/**
+ * Employee Lifecycle Events
+ * Promotions, transfers, salary revisions, confirmations and exits with an effective date.
+ * Events effective today or earlier are applied to the employee when they are recorded; future-dated
+ * events stay scheduled until their date and are applied by `npm run employees:apply-events`.
+ *
+ * What an event changes:
+ *   promotion        designation (and optionally department, branch and salary)
+ *   transfer         department and/or branch
+ *   salary_revision  salary
+ *   confirmation     nothing (marks the end of probation on the timeline)
+ *   resignation      status Resigned, inactive, date of leaving = effective date
+ *   termination      status Terminated, inactive, date of leaving = effective date
+ *   update           recorded after direct edits of these fields, already applied
+ *
+ * Applying a resignation or termination also processes the exit (see utils/employee-offboarding.ts).
+ */
+
+export interface AppliedEmployeeEvent {
+  event: EmployeeEvent;
+  before: Employee;
+  after: Employee;
+  exit: EmployeeExitResult | null; // for resignations and terminations
+}
+
+export interface ApplyDueOptions {
+  organizationId: number;
+  dryRun?: boolean;
+  userId?: number;
+}
+
+export interface ApplyDueResult {
+  applied: AppliedEmployeeEvent[];
+  due: number;
+  failed: { eventId: number; employeeId: number; error: string }[];
+}
+
+// Event types that can be recorded through the API (updates are only recorded automatically)
+export const RECORDABLE_EVENT_TYPES = Object.values(EMPLOYEE_EVENT_TYPES).filter(
+  (type) => type !== EMPLOYEE_EVENT_TYPES.UPDATE
+);
+
+// Employee fields tracked on the timeline
+const TRACKED_FIELDS = ['departmentId', 'designationId', 'branchId', 'salary', 'status'] as const;
+
+/**
+ * Today's date in the organization's timezone
+ */
+export async function getEventToday(
+  organizationId: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<Date> {
+  const organization = await client.organization.findUnique({
+    where: { id: organizationId },
+    select: { timezone: true },
+  });
+
+  return getTodayInTimezone(organization?.timezone);
+}
+
+/**
+ * Apply a scheduled event to its employee
+ * Records the values the event replaces, so the timeline shows both sides of every change
+ */
+export async function applyEmployeeEvent(
+  tx: Prisma.TransactionClient,
+  eventId: number,
+  userId?: number
+): Promise<AppliedEmployeeEvent> {
+  const event = await tx.employeeEvent.findUniqueOrThrow({ where: { id: eventId } });
+
+  if (event.status !== EMPLOYEE_EVENT_STATUS.SCHEDULED) {
+    throw new Error(`Employee event ${eventId} is ${event.status}, not scheduled`);
+  }
+
+  const before = await tx.employee.findUniqueOrThrow({ where: { id: event.employeeId } });
+
+  const after = await tx.employee.update({
+    where: { id: event.employeeId },
+    data: { ...getEventChanges(event), updatedBy: userId ?? before.updatedBy },
+  });
+
+  const exit = isExitEvent(event.eventType)
+    ? await processEmployeeExit(tx, after, { exitDate: event.effectiveDate, userId })
+    : null;
+
+  const applied = await tx.employeeEvent.update({
+    where: { id: event.id },
+    data: {
+      status: EMPLOYEE_EVENT_STATUS.APPLIED,
+      appliedAt: new Date(),
+      previousDepartmentId: before.departmentId,
+      previousDesignationId: before.designationId,
+      previousBranchId: before.branchId,
+      previousSalary: before.salary,
+      previousStatus: before.status,
+      updatedBy: userId,
+    },
+  });
+
+  return { event: applied, before, after, exit };
+}
+
+/**
+ * Apply the organization's scheduled events whose effective date has come
+ * Events are applied oldest first, each in its own transaction, so one failure does not hold back the rest
+ */
+export async function applyDueEmployeeEvents(options: ApplyDueOptions): Promise<ApplyDueResult> {
+  const { organizationId, dryRun = false, userId } = options;
+  const today = await getEventToday(organizationId);
+
+  const dueEvents = await prisma.employeeEvent.findMany({
+    where: {
+      organizationId,
+      status: EMPLOYEE_EVENT_STATUS.SCHEDULED,
+      effectiveDate: { lte: today },
+    },
+    select: { id: true, employeeId: true },
+    orderBy: [{ effectiveDate: 'asc' }, { id: 'asc' }],
+  });
+
+  const result: ApplyDueResult = { applied: [], due: dueEvents.length, failed: [] };
+  if (dryRun) return result;
+
+  for (const due of dueEvents) {
+    try {
+      result.applied.push(await prisma.$transaction((tx) => applyEmployeeEvent(tx, due.id, userId)));
+    } catch (error) {
+      result.failed.push({
+        eventId: due.id,
+        employeeId: due.employeeId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Record direct edits of the tracked fields (department, designation, branch, salary, status)
+ * as an applied "update" event effective today, so the timeline stays complete
+ * Returns null when none of the tracked fields changed
+ */
+export async function recordEmployeeChanges(
+  client: Prisma.TransactionClient,
+  before: Employee,
+  after: Employee,
+  options: { userId?: number; reason?: string } = {}
+): Promise<EmployeeEvent | null> {
+  const changed = TRACKED_FIELDS.filter((field) =>
+    field === 'salary'
+      ? toNumber(before.salary) !== toNumber(after.salary)
+      : before[field] !== after[field]
+  );
+
+  if (changed.length === 0) return null;
+
+  const has = (field: (typeof TRACKED_FIELDS)[number]) => changed.includes(field);
+  const now = new Date();
+
+  return client.employeeEvent.create({
+    data: {
+      organizationId: after.organizationId,
+      employeeId: after.id,
+      eventType: EMPLOYEE_EVENT_TYPES.UPDATE,
+      effectiveDate: await getEventToday(after.organizationId, client),
+      reason: options.reason || null,
+      status: EMPLOYEE_EVENT_STATUS.APPLIED,
+      appliedAt: now,
+      ...(has('departmentId') && { departmentId: after.departmentId, previousDepartmentId: before.departmentId }),
+      ...(has('designationId') && { designationId: after.designationId, previousDesignationId: before.designationId }),
+      ...(has('branchId') && { branchId: after.branchId, previousBranchId: before.branchId }),
+      ...(has('salary') && { salary: after.salary, previousSalary: before.salary }),
+      ...(has('status') && { employeeStatus: after.status, previousStatus: before.status }),
+      createdBy: options.userId,
+      updatedBy: options.userId,
+    },
+  });
+}
+
+/**
+ * Whether an event type ends the employment
+ */
+export function isExitEvent(eventType: string): boolean {
+  return eventType === EMPLOYEE_EVENT_TYPES.RESIGNATION || eventType === EMPLOYEE_EVENT_TYPES.TERMINATION;
+}
+
+/**
+ * Helper function to build the employee update an event makes
+ * Only the values the event sets are changed; the rest of the employee is left as it is
+ */
+function getEventChanges(event: EmployeeEvent): Prisma.EmployeeUncheckedUpdateInput {
+  const changes: Prisma.EmployeeUncheckedUpdateInput = {
+    ...(event.departmentId !== null && { departmentId: event.departmentId }),
+    ...(event.designationId !== null && { designationId: event.designationId }),
+    ...(event.branchId !== null && { branchId: event.branchId }),
+    ...(event.salary !== null && { salary: event.salary }),
+    ...(event.employeeStatus !== null && { status: event.employeeStatus }),
+  };
+
+  if (isExitEvent(event.eventType)) {
+    changes.status =
+      event.eventType === EMPLOYEE_EVENT_TYPES.RESIGNATION ? EMPLOYEE_STATUS.RESIGNED : EMPLOYEE_STATUS.TERMINATED;
+    changes.isActive = false;
+    changes.dateOfLeaving = event.effectiveDate;
+  }
+
+  return changes;
+}
+
+/**
+ * Helper function to compare decimal salaries by value
+ */
+function toNumber(value: Prisma.Decimal | null): number | null {
+  return value === null ? null : Number(value);
+}
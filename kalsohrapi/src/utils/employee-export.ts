@@ -0,0 +1,341 @@
+import ExcelJS from 'exceljs';
+import PDFDocument from 'pdfkit';
+import { Prisma } from '@prisma/client';
+import { formatDateKey } from './attendance';
+import { FieldGroup } from './field-permissions';
+
+/**
+ * Employee Export
+ * Column definitions covering every employee field and relation, and the CSV (RFC 4180),
+ * XLSX and PDF roster renderers used by the employee export
+ */
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+export type ExportColumnGroup = 'Basic' | 'Employment' | 'Personal' | 'Contact' | 'Family' | 'Sensitive' | 'Record';
+
+type ExportValue = string | number | Date | null;
+
+export interface ExportColumn {
+  key: string;
+  header: string;
+  group: ExportColumnGroup;
+  // Columns of a field group are left out of the export for roles that may not see the group
+  fieldGroup?: FieldGroup;
+  type?: 'date' | 'number';
+  width?: number; // relative width in the PDF roster
+  value: (employee: ExportEmployee) => ExportValue;
+}
+
+/**
+ * Relations loaded for the export
+ */
+export const EMPLOYEE_EXPORT_INCLUDE = {
+  department: { select: { name: true } },
+  designation: { select: { name: true } },
+  branch: { select: { name: true } },
+  employmentType: { select: { name: true } },
+  organizationalPosition: { select: { title: true } },
+  genderMaster: { select: { name: true } },
+  maritalStatusMaster: { select: { name: true } },
+  bloodGroupMaster: { select: { name: true } },
+  religionMaster: { select: { name: true } },
+  educationLevelMaster: { select: { name: true } },
+  cityMaster: { select: { name: true, state: { select: { name: true } } } },
+  user: { select: { email: true } },
+} satisfies Prisma.EmployeeInclude;
+
+export type ExportEmployee = Prisma.EmployeeGetPayload<{ include: typeof EMPLOYEE_EXPORT_INCLUDE }>;
+
+const fullName = (employee: ExportEmployee) =>
+  [employee.firstName, employee.middleName, employee.lastName].filter(Boolean).join(' ');
+
+/**
+ * Every exportable column, in export order
+ */
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  // Basic
+  { key: 'employeeCode', header: 'Employee Code', group: 'Basic', width: 1, value: (e) => e.employeeCode },
+  { key: 'fullName', header: 'Full Name', group: 'Basic', width: 2, value: fullName },
+  { key: 'firstName', header: 'First Name', group: 'Basic', width: 1.2, value: (e) => e.firstName },
+  { key: 'middleName', header: 'Middle Name', group: 'Basic', width: 1.2, value: (e) => e.middleName },
+  { key: 'lastName', header: 'Last Name', group: 'Basic', width: 1.2, value: (e) => e.lastName },
+  { key: 'email', header: 'Email', group: 'Basic', width: 2, value: (e) => e.email },
+  { key: 'phone', header: 'Phone', group: 'Basic', width: 1.1, value: (e) => e.phone },
+  { key: 'alternatePhone', header: 'Alternate Phone', group: 'Basic', width: 1.1, value: (e) => e.alternatePhone },
+  { key: 'status', header: 'Status', group: 'Basic', width: 0.9, value: (e) => e.status },
+  { key: 'isActive', header: 'Active', group: 'Basic', width: 0.7, value: (e) => (e.isActive ? 'Yes' : 'No') },
+
+  // Employment
+  { key: 'department', header: 'Department', group: 'Employment', width: 1.4, value: (e) => e.department?.name ?? null },
+  { key: 'designation', header: 'Designation', group: 'Employment', width: 1.4, value: (e) => e.designation?.name ?? null },
+  { key: 'branch', header: 'Branch', group: 'Employment', width: 1.4, value: (e) => e.branch?.name ?? null },
+  { key: 'employmentType', header: 'Employment Type', group: 'Employment', width: 1.2, value: (e) => e.employmentType?.name ?? null },
+  { key: 'organizationalPosition', header: 'Position', group: 'Employment', width: 1.4, value: (e) => e.organizationalPosition?.title ?? null },
+  { key: 'dateOfJoining', header: 'Date of Joining', group: 'Employment', type: 'date', width: 1, value: (e) => e.dateOfJoining },
+  { key: 'dateOfLeaving', header: 'Date of Leaving', group: 'Employment', type: 'date', width: 1, value: (e) => e.dateOfLeaving },
+  { key: 'userAccount', header: 'User Account', group: 'Employment', width: 2, value: (e) => e.user?.email ?? null },
+
+  // Personal
+  { key: 'dateOfBirth', header: 'Date of Birth', group: 'Personal', type: 'date', width: 1, value: (e) => e.dateOfBirth },
+  { key: 'gender', header: 'Gender', group: 'Personal', width: 0.8, value: (e) => e.genderMaster?.name ?? e.gender },
+  { key: 'maritalStatus', header: 'Marital Status', group: 'Personal', width: 1, value: (e) => e.maritalStatusMaster?.name ?? null },
+  { key: 'bloodGroup', header: 'Blood Group', group: 'Personal', width: 0.7, value: (e) => e.bloodGroupMaster?.name ?? e.bloodGroup },
+  { key: 'religion', header: 'Religion', group: 'Personal', width: 1, value: (e) => e.religionMaster?.name ?? e.religion },
+  { key: 'community', header: 'Community', group: 'Personal', width: 1, value: (e) => e.community },
+  { key: 'educationLevel', header: 'Education Level', group: 'Personal', width: 1.2, value: (e) => e.educationLevelMaster?.name ?? e.educationLevel },
+  { key: 'degrees', header: 'Degrees', group: 'Personal', width: 1.5, value: (e) => e.degrees },
+
+  // Contact
+  { key: 'currentAddress', header: 'Current Address', group: 'Contact', width: 2.5, value: (e) => e.currentAddress },
+  { key: 'permanentAddress', header: 'Permanent Address', group: 'Contact', width: 2.5, value: (e) => e.permanentAddress },
+  { key: 'city', header: 'City', group: 'Contact', width: 1, value: (e) => e.cityMaster?.name ?? e.city },
+  { key: 'state', header: 'State', group: 'Contact', width: 1, value: (e) => e.cityMaster?.state.name ?? e.state },
+  { key: 'postalCode', header: 'Postal Code', group: 'Contact', width: 0.8, value: (e) => e.postalCode },
+  { key: 'emergencyContactName', header: 'Emergency Contact Name', group: 'Contact', width: 1.4, value: (e) => e.emergencyContactName },
+  { key: 'emergencyContactPhone', header: 'Emergency Contact Phone', group: 'Contact', width: 1.1, value: (e) => e.emergencyContactPhone },
+
+  // Family
+  { key: 'fatherName', header: 'Father Name', group: 'Family', fieldGroup: 'familyDetails', width: 1.4, value: (e) => e.fatherName },
+  { key: 'fatherOccupation', header: 'Father Occupation', group: 'Family', fieldGroup: 'familyDetails', width: 1.2, value: (e) => e.fatherOccupation },
+  { key: 'fatherContact', header: 'Father Contact', group: 'Family', fieldGroup: 'familyDetails', width: 1.1, value: (e) => e.fatherContact },
+  { key: 'fatherStatus', header: 'Father Status', group: 'Family', fieldGroup: 'familyDetails', width: 0.9, value: (e) => e.fatherStatus },
+  { key: 'motherName', header: 'Mother Name', group: 'Family', fieldGroup: 'familyDetails', width: 1.4, value: (e) => e.motherName },
+  { key: 'motherOccupation', header: 'Mother Occupation', group: 'Family', fieldGroup: 'familyDetails', width: 1.2, value: (e) => e.motherOccupation },
+  { key: 'motherContact', header: 'Mother Contact', group: 'Family', fieldGroup: 'familyDetails', width: 1.1, value: (e) => e.motherContact },
+  { key: 'motherStatus', header: 'Mother Status', group: 'Family', fieldGroup: 'familyDetails', width: 0.9, value: (e) => e.motherStatus },
+  { key: 'familyAddress', header: 'Family Address', group: 'Family', fieldGroup: 'familyDetails', width: 2.5, value: (e) => e.familyAddress },
+
+  // Sensitive
+  { key: 'salary', header: 'Salary', group: 'Sensitive', fieldGroup: 'compensation', type: 'number', width: 1, value: (e) => (e.salary === null ? null : Number(e.salary)) },
+  { key: 'aadharNumber', header: 'Aadhar Number', group: 'Sensitive', fieldGroup: 'governmentIds', width: 1.2, value: (e) => e.aadharNumber },
+  { key: 'panNumber', header: 'PAN Number', group: 'Sensitive', fieldGroup: 'governmentIds', width: 1, value: (e) => e.panNumber },
+  { key: 'bankAccountNumber', header: 'Bank Account Number', group: 'Sensitive', fieldGroup: 'bankDetails', width: 1.3, value: (e) => e.bankAccountNumber },
+  { key: 'bankIfscCode', header: 'IFSC Code', group: 'Sensitive', fieldGroup: 'bankDetails', width: 1, value: (e) => e.bankIfscCode },
+  { key: 'uanNumber', header: 'UAN Number', group: 'Sensitive', fieldGroup: 'governmentIds', width: 1.2, value: (e) => e.uanNumber },
+
+  // Record
+  { key: 'createdAt', header: 'Created At', group: 'Record', type: 'date', width: 1, value: (e) => e.createdAt },
+  { key: 'updatedAt', header: 'Updated At', group: 'Record', type: 'date', width: 1, value: (e) => e.updatedAt },
+];
+
+/**
+ * Columns exported when none are picked (the columns of the original CSV export)
+ */
+export const DEFAULT_EXPORT_COLUMNS = [
+  'employeeCode',
+  'firstName',
+  'middleName',
+  'lastName',
+  'email',
+  'phone',
+  'department',
+  'designation',
+  'branch',
+  'dateOfJoining',
+  'status',
+];
+
+/**
+ * Resolve a comma-separated list of column keys
+ * Unknown keys are returned separately so the caller can reject them
+ */
+export function resolveExportColumns(value: unknown): { columns: ExportColumn[]; unknown: string[] } {
+  const keys =
+    typeof value === 'string' && value.trim()
+      ? Array.from(new Set(value.split(',').map((key) => key.trim()).filter(Boolean)))
+      : DEFAULT_EXPORT_COLUMNS;
+
+  const columns: ExportColumn[] = [];
+  const unknown: string[] = [];
+
+  for (const key of keys) {
+    const column = EXPORT_COLUMNS.find((candidate) => candidate.key === key);
+    if (column) {
+      columns.push(column);
+    } else {
+      unknown.push(key);
+    }
+  }
+
+  return { columns, unknown };
+}
+
+/**
+ * Render the employees in the requested format
+ */
+export async function renderEmployeeExport(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  employees: ExportEmployee[],
+  title: string
+): Promise<{ body: Buffer; contentType: string; extension: string }> {
+  if (format === 'xlsx') {
+    return {
+      body: await renderXlsx(columns, employees),
+      contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      extension: 'xlsx',
+    };
+  }
+
+  if (format === 'pdf') {
+    return { body: await renderPdf(columns, employees, title), contentType: 'application/pdf', extension: 'pdf' };
+  }
+
+  return { body: renderCsv(columns, employees), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+}
+
+/**
+ * Helper function to format a value as text (dates as YYYY-MM-DD)
+ */
+function toText(value: ExportValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateKey(value);
+  return String(value);
+}
+
+/**
+ * Helper function to keep spreadsheet apps from running a text value as a formula (e.g. a name entered as
+ * =HYPERLINK(...)): values starting with =, +, -, @, tab or carriage return are prefixed with '
+ */
+function neutralizeFormula(text: string): string {
+  return /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+}
+
+/**
+ * Helper function to quote a CSV field when it contains a comma, quote or line break (RFC 4180)
+ */
+function escapeCsv(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Helper function to render CSV with CRLF line endings
+ * Starts with a byte order mark so Excel opens UTF-8 names correctly
+ */
+function renderCsv(columns: ExportColumn[], employees: ExportEmployee[]): Buffer {
+  const lines = [
+    columns.map((column) => escapeCsv(column.header)).join(','),
+    ...employees.map((employee) =>
+      columns.map((column) => escapeCsv(neutralizeFormula(toText(column.value(employee))))).join(',')
+    ),
+  ];
+
+  return Buffer.from('\uFEFF' + lines.join('\r\n') + '\r\n', 'utf8');
+}
+
+/**
+ * Helper function to render an XLSX workbook with typed date and number cells
+ */
+async function renderXlsx(columns: ExportColumn[], employees: ExportEmployee[]): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Employees', { views: [{ state: 'frozen', ySplit: 1 }] });
+
+  sheet.columns = columns.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(column.header.length + 2, Math.round((column.width || 1) * 14)),
+    style: column.type === 'date' ? { numFmt: 'yyyy-mm-dd' } : column.type === 'number' ? { numFmt: '#,##0.00' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  for (const employee of employees) {
+    sheet.addRow(
+      columns.map((column) => {
+        const value = column.value(employee);
+        return typeof value === 'string' ? neutralizeFormula(value) : value;
+      })
+    );
+  }
+
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+/**
+ * Helper function to render a landscape PDF roster with a repeated header row and page numbers
+ */
+function renderPdf(columns: ExportColumn[], employees: ExportEmployee[], title: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', layout: 'landscape', margin: 30, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const tableWidth = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const bottom = doc.page.height - doc.page.margins.bottom - 15;
+    const totalWeight = columns.reduce((sum, column) => sum + (column.width || 1), 0);
+    const widths = columns.map((column) => ((column.width || 1) / totalWeight) * tableWidth);
+    const padding = 3;
+    const fontSize = columns.length > 8 ? 7 : 8;
+
+    const rowHeight = (cells: string[]) =>
+      Math.max(...cells.map((cell, index) => doc.heightOfString(cell || ' ', { width: widths[index] - padding * 2 }))) +
+      padding * 2;
+
+    const drawRow = (cells: string[], y: number, height: number, fill?: string) => {
+      let x = left;
+      if (fill) {
+        doc.rect(left, y, tableWidth, height).fill(fill);
+        doc.fillColor('#111827');
+      }
+      cells.forEach((cell, index) => {
+        doc.text(cell, x + padding, y + padding, { width: widths[index] - padding * 2 });
+        x += widths[index];
+      });
+      doc.moveTo(left, y + height).lineTo(left + tableWidth, y + height).strokeColor('#e5e7eb').stroke();
+    };
+
+    const headers = columns.map((column) => column.header);
+    const drawHeader = (y: number) => {
+      doc.font('Helvetica-Bold').fontSize(fontSize);
+      const height = rowHeight(headers);
+      drawRow(headers, y, height, '#f3f4f6');
+      doc.font('Helvetica').fontSize(fontSize);
+      return y + height;
+    };
+
+    doc.font('Helvetica-Bold').fontSize(14).fillColor('#111827').text(title, left, doc.page.margins.top);
+    doc
+      .font('Helvetica')
+      .fontSize(9)
+      .fillColor('#6b7280')
+      .text(`${employees.length} employee(s) · generated ${formatDateKey(new Date())}`);
+    doc.fillColor('#111827');
+
+    let y = drawHeader(doc.y + 8);
+
+    for (const employee of employees) {
+      const cells = columns.map((column) => toText(column.value(employee)));
+      const height = rowHeight(cells);
+
+      if (y + height > bottom) {
+        doc.addPage();
+        y = drawHeader(doc.page.margins.top);
+      }
+
+      drawRow(cells, y, height);
+      y += height;
+    }
+
+    // Page numbers
+    const range = doc.bufferedPageRange();
+    for (let index = range.start; index < range.start + range.count; index++) {
+      doc.switchToPage(index);
+      doc
+        .font('Helvetica')
+        .fontSize(7)
+        .fillColor('#6b7280')
+        .text(`Page ${index + 1} of ${range.count}`, left, doc.page.height - doc.page.margins.bottom - 8, {
+          width: tableWidth,
+          align: 'right',
+          lineBreak: false,
+        });
+    }
+
+    doc.end();
+  });
+}
@@ -0,0 +1,655 @@
+import ExcelJS from 'exceljs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { EMPLOYEE_IMPORT } from '../config/constants';
+import { formatDateKey } from './attendance';
+import { generateEmployeeCode } from './employee-code';
+import { FIELD_GROUPS, FieldGroup } from './field-permissions';
+
+/**
+ * Employee Import
+ * Reads CSV/XLSX files of employees, maps their columns to Employee fields, resolves master data
+ * names to IDs and validates every row before anything is written (all rows are imported or none)
+ * When the organization generates employee codes, rows without a code get the next generated one
+ * Columns of field groups the importing user may not see are not imported (see utils/field-permissions.ts)
+ */
+
+type ColumnType = 'text' | 'date' | 'number' | 'master';
+
+interface ImportColumn {
+  key: string;
+  header: string;
+  aliases?: string[];
+  type?: ColumnType;
+  required?: boolean;
+  maxLength?: number; // column size in the employees table
+  fieldGroup?: FieldGroup; // sensitive columns: only imported when the user's role may see the group
+}
+
+export interface ImportFileRow {
+  row: number;
+  values: string[];
+}
+
+export interface ImportRowResult {
+  row: number; // row number in the file (the header is row 1)
+  employeeCode: string | null;
+  name: string | null;
+  status: 'valid' | 'invalid' | 'created';
+  errors: string[];
+  hiddenColumns: string[]; // headers of hidden field group columns with a value in this row (not imported)
+  employeeId?: number;
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  imported: boolean;
+  summary: {
+    totalRows: number;
+    validRows: number;
+    invalidRows: number;
+    created: number;
+  };
+  columns: {
+    mapped: string[];
+    ignored: string[];
+    hidden: string[]; // recognised, but of a field group the user may not see
+  };
+  employeeLimit: {
+    max: number;
+    current: number;
+    remaining: number;
+  } | null;
+  rows: ImportRowResult[];
+}
+
+export interface ImportOptions {
+  organizationId: number;
+  headers: string[];
+  rows: ImportFileRow[];
+  dryRun?: boolean;
+  userId?: number | null;
+  hiddenFieldGroups?: FieldGroup[];
+}
+
+/**
+ * Columns accepted in an import file, in template order
+ * Master columns take the name (or code) of the master record and are stored as its ID
+ */
+export const IMPORT_COLUMNS: ImportColumn[] = [
+  { key: 'employeeCode', header: 'Employee Code', aliases: ['code', 'emp code', 'employee id'], required: true, maxLength: 50 },
+  { key: 'firstName', header: 'First Name', required: true, maxLength: 100 },
+  { key: 'middleName', header: 'Middle Name', maxLength: 100 },
+  { key: 'lastName', header: 'Last Name', aliases: ['surname'], required: true, maxLength: 100 },
+  { key: 'email', header: 'Email', aliases: ['email address'], required: true, maxLength: 255 },
+  { key: 'phone', header: 'Phone', aliases: ['mobile', 'phone number', 'mobile number'], maxLength: 20 },
+  { key: 'alternatePhone', header: 'Alternate Phone', maxLength: 20 },
+  { key: 'dateOfBirth', header: 'Date of Birth', aliases: ['dob', 'birth date'], type: 'date', required: true },
+  { key: 'gender', header: 'Gender', type: 'master' },
+  { key: 'maritalStatus', header: 'Marital Status', type: 'master' },
+  { key: 'bloodGroup', header: 'Blood Group', type: 'master' },
+  { key: 'religion', header: 'Religion', type: 'master' },
+  { key: 'community', header: 'Community', maxLength: 100 },
+  { key: 'department', header: 'Department', type: 'master', required: true },
+  { key: 'designation', header: 'Designation', type: 'master', required: true },
+  { key: 'branch', header: 'Branch', type: 'master', required: true },
+  { key: 'employmentType', header: 'Employment Type', type: 'master', required: true },
+  { key: 'dateOfJoining', header: 'Date of Joining', aliases: ['doj', 'joining date'], type: 'date', required: true },
+  { key: 'salary', header: 'Salary', type: 'number', fieldGroup: 'compensation' },
+  { key: 'currentAddress', header: 'Current Address', aliases: ['address'], required: true },
+  { key: 'permanentAddress', header: 'Permanent Address' },
+  { key: 'city', header: 'City', type: 'master', required: true },
+  { key: 'state', header: 'State', maxLength: 100 },
+  { key: 'postalCode', header: 'Postal Code', aliases: ['pincode', 'pin code', 'zip code'], maxLength: 20 },
+  { key: 'aadharNumber', header: 'Aadhar Number', aliases: ['aadhaar number', 'aadhar', 'aadhaar'], maxLength: 12, fieldGroup: 'governmentIds' },
+  { key: 'panNumber', header: 'PAN Number', aliases: ['pan'], maxLength: 10, fieldGroup: 'governmentIds' },
+  { key: 'bankAccountNumber', header: 'Bank Account Number', aliases: ['account number'], maxLength: 20, fieldGroup: 'bankDetails' },
+  { key: 'bankIfscCode', header: 'IFSC Code', aliases: ['ifsc', 'bank ifsc code'], maxLength: 11, fieldGroup: 'bankDetails' },
+  { key: 'uanNumber', header: 'UAN Number', aliases: ['uan'], maxLength: 12, fieldGroup: 'governmentIds' },
+  { key: 'fatherName', header: 'Father Name', aliases: ["father's name"], maxLength: 100, fieldGroup: 'familyDetails' },
+  { key: 'motherName', header: 'Mother Name', aliases: ["mother's name"], maxLength: 100, fieldGroup: 'familyDetails' },
+  { key: 'emergencyContactName', header: 'Emergency Contact Name', maxLength: 100 },
+  { key: 'emergencyContactPhone', header: 'Emergency Contact Phone', maxLength: 20 },
+];
+
+/**
+ * Read the header and data rows of an uploaded CSV or XLSX file
+ * Cell values are returned as trimmed strings (spreadsheet dates as YYYY-MM-DD); blank rows are skipped
+ */
+export async function parseImportFile(
+  buffer: Buffer,
+  filename: string
+): Promise<{ headers: string[]; rows: ImportFileRow[] }> {
+  const table = /\.xlsx$/i.test(filename) ? await readWorkbook(buffer) : parseCsv(buffer.toString('utf8'));
+
+  const [headerRow, ...dataRows] = table;
+  const headers = (headerRow?.values || []).map((header) => header.trim());
+  const rows = dataRows.filter((row) => row.values.some((value) => value.trim() !== ''));
+
+  return { headers, rows };
+}
+
+/**
+ * Map file headers to import columns (case-insensitive, by header or alias)
+ * Returns the column key for each header, or null when the header is not recognised
+ */
+export function mapImportHeaders(headers: string[]): (string | null)[] {
+  const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9']+/g, ' ').trim();
+  const lookup = new Map<string, string>();
+
+  for (const column of IMPORT_COLUMNS) {
+    for (const name of [column.header, column.key, ...(column.aliases || [])]) {
+      lookup.set(normalize(name), column.key);
+    }
+  }
+
+  const seen = new Set<string>();
+  return headers.map((header) => {
+    const key = lookup.get(normalize(header)) || null;
+    if (!key || seen.has(key)) return null; // duplicate columns: the first one wins
+    seen.add(key);
+    return key;
+  });
+}
+
+/**
+ * Validate (and unless dryRun, create) the employees of an import file
+ * Nothing is written when any row has an error
+ * Columns of hidden field groups are dropped (the employees are created without them) and reported per row
+ */
+export async function importEmployees(options: ImportOptions): Promise<ImportResult> {
+  const { organizationId, rows, headers, dryRun = false, userId = null, hiddenFieldGroups = [] } = options;
+
+  const keys = mapImportHeaders(headers);
+  const hiddenKeys = IMPORT_COLUMNS.filter(
+    (column) => column.fieldGroup && hiddenFieldGroups.includes(column.fieldGroup)
+  ).map((column) => column.key);
+  const isHidden = (index: number) => !!keys[index] && hiddenKeys.includes(keys[index]!);
+  const columns = {
+    mapped: headers.filter((_, index) => keys[index] && !isHidden(index)),
+    ignored: headers.filter((header, index) => !keys[index] && header),
+    hidden: headers.filter((_, index) => isHidden(index)),
+  };
+
+  // Cell values by column key, and the hidden columns each row has a value in
+  const records = rows.map((row) => {
+    const record: Record<string, string> = {};
+    keys.forEach((key, index) => {
+      if (key && !isHidden(index)) record[key] = (row.values[index] ?? '').trim();
+    });
+    return record;
+  });
+  const rowHiddenColumns = rows.map((row) =>
+    headers.filter((_, index) => isHidden(index) && (row.values[index] ?? '').trim() !== '')
+  );
+
+  const [masters, organization, activeEmployees] = await Promise.all([
+    loadMasters(organizationId),
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      include: { subscriptionPlan: true },
+    }),
+    prisma.employee.count({ where: { organizationId, isActive: true } }),
+  ]);
+
+  const codes = records.map((record) => record.employeeCode).filter(Boolean);
+  const phones = records.map((record) => record.phone).filter(Boolean);
+  const [existingCodes, existingPhones] = await Promise.all([
+    prisma.employee.findMany({
+      where: { organizationId, employeeCode: { in: codes } },
+      select: { employeeCode: true },
+    }),
+    prisma.employee.findMany({
+      where: { organizationId, phone: { in: phones } },
+      select: { phone: true },
+    }),
+  ]);
+  const takenCodes = new Set(existingCodes.map((employee) => employee.employeeCode.toLowerCase()));
+  const takenPhones = new Set(existingPhones.map((employee) => employee.phone));
+
+  const autoCodes = !!organization?.employeeCodeAutoGenerate;
+
+  const maxEmployees = organization?.subscriptionPlan?.maxEmployees || null;
+  let remainingSlots = maxEmployees ? Math.max(maxEmployees - activeEmployees, 0) : Infinity;
+
+  const fileCodes = new Map<string, number>();
+  const filePhones = new Map<string, number>();
+  const prepared: { result: ImportRowResult; data: Record<string, any> }[] = [];
+
+  records.forEach((record, index) => {
+    const rowNumber = rows[index].row;
+    const { data, errors } = buildEmployeeData(record, masters, autoCodes);
+
+    const code = data.employeeCode as string | undefined;
+    if (code) {
+      const codeKey = code.toLowerCase();
+      if (takenCodes.has(codeKey)) {
+        errors.push(`Employee code ${code} already exists in your organization`);
+      } else if (fileCodes.has(codeKey)) {
+        errors.push(`Employee code ${code} is repeated in row ${fileCodes.get(codeKey)}`);
+      } else {
+        fileCodes.set(codeKey, rowNumber);
+      }
+    }
+
+    if (data.phone) {
+      if (takenPhones.has(data.phone)) {
+        errors.push('An employee with this phone number already exists in your organization');
+      } else if (filePhones.has(data.phone)) {
+        errors.push(`Phone number is repeated in row ${filePhones.get(data.phone)}`);
+      } else {
+        filePhones.set(data.phone, rowNumber);
+      }
+    }
+
+    // Imported employees are active, so each one takes a seat of the plan's employee limit
+    if (errors.length === 0) {
+      if (remainingSlots <= 0) {
+        errors.push(
+          `Employee limit reached. Your ${organization?.subscriptionPlan?.name} plan allows a maximum of ${maxEmployees} employees`
+        );
+      } else {
+        remainingSlots--;
+      }
+    }
+
+    prepared.push({
+      result: {
+        row: rowNumber,
+        employeeCode: code || null,
+        name: [data.firstName, data.lastName].filter(Boolean).join(' ') || null,
+        status: errors.length > 0 ? 'invalid' : 'valid',
+        errors,
+        hiddenColumns: rowHiddenColumns[index],
+      },
+      data,
+    });
+  });
+
+  const invalidRows = prepared.filter((row) => row.result.status === 'invalid').length;
+  const canImport = !dryRun && rows.length > 0 && invalidRows === 0;
+
+  if (canImport) {
+    const created = await prisma.$transaction(
+      async (tx) => {
+        // Generated codes must not take a code that a later row of the file uses
+        const exclude = new Set(fileCodes.keys());
+        const ids: number[] = [];
+        for (const { data, result } of prepared) {
+          if (!data.employeeCode) {
+            data.employeeCode = await generateEmployeeCode(
+              tx,
+              organizationId,
+              { branchId: data.branchId, departmentId: data.departmentId, dateOfJoining: data.dateOfJoining },
+              { pattern: organization?.employeeCodePattern, exclude }
+            );
+            result.employeeCode = data.employeeCode;
+          }
+
+          const employee = await tx.employee.create({
+            data: {
+              ...(data as Prisma.EmployeeUncheckedCreateInput),
+              organizationId,
+              status: 'Active',
+              isActive: true,
+              createdBy: userId,
+              updatedBy: userId,
+            },
+            select: { id: true },
+          });
+          ids.push(employee.id);
+        }
+        return ids;
+      },
+      { timeout: EMPLOYEE_IMPORT.TRANSACTION_TIMEOUT_MS }
+    );
+
+    prepared.forEach((row, index) => {
+      row.result.status = 'created';
+      row.result.employeeId = created[index];
+    });
+  }
+
+  return {
+    dryRun,
+    imported: canImport,
+    summary: {
+      totalRows: rows.length,
+      validRows: rows.length - invalidRows,
+      invalidRows,
+      created: canImport ? rows.length : 0,
+    },
+    columns,
+    employeeLimit: maxEmployees
+      ? { max: maxEmployees, current: activeEmployees, remaining: Math.max(maxEmployees - activeEmployees, 0) }
+      : null,
+    rows: prepared.map((row) => row.result),
+  };
+}
+
+/**
+ * Build the import template (header row only) as CSV or XLSX
+ * Columns of hidden field groups are marked as not imported in XLSX, and left out of CSV (which has no notes)
+ */
+export async function buildImportTemplate(
+  format: 'csv' | 'xlsx',
+  hiddenFieldGroups: FieldGroup[] = []
+): Promise<Buffer> {
+  const isHidden = (column: ImportColumn) => !!column.fieldGroup && hiddenFieldGroups.includes(column.fieldGroup);
+
+  if (format === 'csv') {
+    const headers = IMPORT_COLUMNS.filter((column) => !isHidden(column)).map((column) => column.header);
+    return Buffer.from(headers.join(',') + '\n', 'utf8');
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Employees');
+  sheet.columns = IMPORT_COLUMNS.map((column) => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(column.header.length + 4, 14),
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  // Mark the required columns so they stand out when filling the sheet, and grey out the hidden ones
+  IMPORT_COLUMNS.forEach((column, index) => {
+    const cell = sheet.getRow(1).getCell(index + 1);
+    if (isHidden(column)) {
+      cell.note = `Not imported: your role cannot see ${FIELD_GROUPS[column.fieldGroup!].label.toLowerCase()}`;
+      cell.font = { bold: true, color: { argb: 'FF9CA3AF' } };
+    } else if (column.required) {
+      cell.note = 'Required';
+    }
+  });
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+interface MasterLookup {
+  department: Map<string, number>;
+  designation: Map<string, number>;
+  branch: Map<string, number>;
+  employmentType: Map<string, number>;
+  gender: Map<string, number>;
+  maritalStatus: Map<string, number>;
+  bloodGroup: Map<string, number>;
+  religion: Map<string, number>;
+  city: Map<string, { id: number; state: string }[]>;
+}
+
+/**
+ * Helper function to load the active master records used to resolve names (and codes) to IDs
+ */
+async function loadMasters(organizationId: number): Promise<MasterLookup> {
+  const orgWhere = { organizationId, isActive: true };
+  const globalWhere = { isActive: true };
+  const select = { id: true, name: true, code: true };
+
+  const [departments, designations, branches, employmentTypes, genders, maritalStatuses, bloodGroups, religions, cities] =
+    await Promise.all([
+      prisma.department.findMany({ where: orgWhere, select }),
+      prisma.designation.findMany({ where: orgWhere, select }),
+      prisma.branch.findMany({ where: orgWhere, select }),
+      prisma.employmentType.findMany({ where: orgWhere, select }),
+      prisma.gender.findMany({ where: globalWhere, select }),
+      prisma.maritalStatus.findMany({ where: globalWhere, select }),
+      prisma.bloodGroup.findMany({ where: globalWhere, select }),
+      prisma.religion.findMany({ where: globalWhere, select }),
+      prisma.city.findMany({
+        where: globalWhere,
+        select: { id: true, name: true, state: { select: { name: true } } },
+      }),
+    ]);
+
+  const toLookup = (records: { id: number; name: string; code: string | null }[]) => {
+    const lookup = new Map<string, number>();
+    // Codes first so that a name always wins over another record's identical code
+    records.forEach((record) => record.code && lookup.set(record.code.toLowerCase(), record.id));
+    records.forEach((record) => lookup.set(record.name.toLowerCase(), record.id));
+    return lookup;
+  };
+
+  const cityLookup = new Map<string, { id: number; state: string }[]>();
+  for (const city of cities) {
+    const key = city.name.toLowerCase();
+    cityLookup.set(key, [...(cityLookup.get(key) || []), { id: city.id, state: city.state.name.toLowerCase() }]);
+  }
+
+  return {
+    department: toLookup(departments),
+    designation: toLookup(designations),
+    branch: toLookup(branches),
+    employmentType: toLookup(employmentTypes),
+    gender: toLookup(genders),
+    maritalStatus: toLookup(maritalStatuses),
+    bloodGroup: toLookup(bloodGroups),
+    religion: toLookup(religions),
+    city: cityLookup,
+  };
+}
+
+/**
+ * Helper function to convert one file row into Employee create data, collecting every error of the row
+ * Uses the same rules as creating an employee from the form
+ */
+function buildEmployeeData(
+  raw: Record<string, string>,
+  masters: MasterLookup,
+  autoCodes: boolean
+): { data: Record<string, any>; errors: string[] } {
+  const data: Record<string, any> = {};
+  const errors: string[] = [];
+  const value = (key: string) => (raw[key] ?? '').trim();
+
+  for (const column of IMPORT_COLUMNS) {
+    const text = value(column.key);
+
+    if (!text) {
+      // Employee codes can be left blank to have them generated
+      const optional = column.key === 'employeeCode' && autoCodes;
+      if (column.required && !optional) errors.push(`${column.header} is required`);
+      continue;
+    }
+
+    if (column.type === 'date') {
+      const date = parseImportDate(text);
+      if (!date) {
+        errors.push(`${column.header} "${text}" is not a valid date (use YYYY-MM-DD or DD/MM/YYYY)`);
+      } else {
+        data[column.key] = date;
+      }
+    } else if (column.type === 'number') {
+      const number = Number(text.replace(/,/g, ''));
+      if (isNaN(number) || number < 0) {
+        errors.push(`${column.header} "${text}" is not a valid amount`);
+      } else {
+        data[column.key] = number;
+      }
+    } else if (column.type !== 'master') {
+      data[column.key] = text;
+    }
+  }
+
+  // Master data: organization masters (department, designation, branch, employment type) and global masters
+  const masterFields: [keyof Omit<MasterLookup, 'city'>, string, string][] = [
+    ['department', 'departmentId', 'Department'],
+    ['designation', 'designationId', 'Designation'],
+    ['branch', 'branchId', 'Branch'],
+    ['employmentType', 'employmentTypeId', 'Employment type'],
+    ['gender', 'genderId', 'Gender'],
+    ['maritalStatus', 'maritalStatusId', 'Marital status'],
+    ['bloodGroup', 'bloodGroupId', 'Blood group'],
+    ['religion', 'religionId', 'Religion'],
+  ];
+
+  for (const [key, field, label] of masterFields) {
+    const text = value(key);
+    if (!text) continue;
+
+    const id = masters[key].get(text.toLowerCase());
+    if (id) {
+      data[field] = id;
+    } else {
+      errors.push(`${label} "${text}" not found`);
+    }
+  }
+
+  const city = value('city');
+  if (city) {
+    const state = value('state').toLowerCase();
+    const matches = (masters.city.get(city.toLowerCase()) || []).filter((match) => !state || match.state === state);
+
+    if (matches.length === 1) {
+      data.cityId = matches[0].id;
+    } else if (matches.length > 1) {
+      errors.push(`City "${city}" exists in more than one state; fill in the State column`);
+    } else {
+      errors.push(`City "${city}"${state ? ` in ${value('state')}` : ''} not found`);
+    }
+  }
+
+  if (data.panNumber) data.panNumber = data.panNumber.toUpperCase();
+  if (data.bankIfscCode) data.bankIfscCode = data.bankIfscCode.toUpperCase();
+
+  if (data.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(data.email)) {
+    errors.push('Invalid email format');
+  }
+
+  if (data.phone && !/^\d{10}$/.test(data.phone)) {
+    errors.push('Phone number must be 10 digits');
+  }
+
+  if (data.aadharNumber && !/^\d{12}$/.test(data.aadharNumber)) {
+    errors.push('Aadhar number must be exactly 12 digits');
+  }
+
+  if (data.panNumber && !/^[A-Z]{5}\d{4}[A-Z]{1}$/.test(data.panNumber)) {
+    errors.push('Invalid PAN number format');
+  }
+
+  if (data.bankIfscCode && !/^[A-Z]{4}0[A-Z0-9]{6}$/.test(data.bankIfscCode)) {
+    errors.push('Invalid IFSC code format');
+  }
+
+  if (data.dateOfBirth) {
+    const age = (Date.now() - data.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24 * 365.25);
+    if (age < 18) errors.push('Employee must be at least 18 years old');
+  }
+
+  if (data.dateOfJoining && data.dateOfJoining > new Date()) {
+    errors.push('Date of joining cannot be in the future');
+  }
+
+  if (data.salary !== undefined && data.salary >= EMPLOYEE_IMPORT.MAX_SALARY) {
+    errors.push(`Salary must be less than ${EMPLOYEE_IMPORT.MAX_SALARY}`);
+  }
+
+  for (const column of IMPORT_COLUMNS) {
+    if (column.maxLength && typeof data[column.key] === 'string' && data[column.key].length > column.maxLength) {
+      errors.push(`${column.header} must be at most ${column.maxLength} characters`);
+    }
+  }
+
+  return { data, errors };
+}
+
+/**
+ * Helper function to parse a date cell: YYYY-MM-DD, or DD/MM/YYYY and DD-MM-YYYY
+ */
+function parseImportDate(text: string): Date | null {
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const [year, month, day] = match
+    ? [match[1], match[2], match[3]]
+    : (match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/))
+      ? [match[3], match[2], match[1]]
+      : [];
+
+  if (!year) return null;
+
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  // Reject overflowing dates such as 31/02/2024
+  return date.getUTCDate() === Number(day) && date.getUTCMonth() === Number(month) - 1 ? date : null;
+}
+
+/**
+ * Helper function to read the first worksheet of an XLSX file as rows of strings
+ */
+async function readWorkbook(buffer: Buffer): Promise<ImportFileRow[]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer as any);
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: ImportFileRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const values: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      values.push(cellToString(row.getCell(column).value));
+    }
+    rows.push({ row: rowNumber, values });
+  });
+
+  return rows;
+}
+
+/**
+ * Helper function to convert an XLSX cell value to text
+ */
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDateKey(value);
+  if (typeof value !== 'object') return String(value).trim();
+  if ('richText' in value) return value.richText.map((part) => part.text).join('').trim();
+  if ('text' in value) return String(value.text).trim(); // hyperlinks
+  if ('result' in value) return cellToString(value.result as ExcelJS.CellValue); // formulas
+  return '';
+}
+
+/**
+ * Helper function to parse CSV text (RFC 4180 quoting, comma separated) into rows of strings
+ * Rows are numbered by record, as a spreadsheet shows them (quoted line breaks stay in their cell)
+ */
+function parseCsv(text: string): ImportFileRow[] {
+  const rows: ImportFileRow[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, ''); // Excel adds a byte order mark to UTF-8 CSV files
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      values.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      values.push(field.trim());
+      rows.push({ row: rows.length + 1, values });
+      values = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || values.length > 0) {
+    values.push(field.trim());
+    rows.push({ row: rows.length + 1, values });
+  }
+
+  return rows;
+}
@@ -0,0 +1,171 @@
+import { Employee, Prisma } from '@prisma/client';
+import { OFFBOARDING, SESSION_REVOKE_REASONS } from '../config/constants';
+
+/**
+ * Employee Offboarding
+ * Exit processing and exit checklists. The functions take the Prisma client (or transaction) to use,
+ * so they run both from controllers and from the scheduled events job.
+ *
+ * When an employee exits (an applied resignation/termination event, or a status set to Resigned/Terminated):
+ *   - the employee is deactivated and gets a date of leaving
+ *   - the linked user is deactivated and signed out everywhere
+ *   - department headships and branch manager roles pass to the offboarding's successor, or are cleared
+ */
+
+export interface ChecklistTemplateItem {
+  title: string;
+  category: string;
+  description?: string | null;
+}
+
+export interface EmployeeExitResult {
+  userDeactivated: boolean;
+  departmentsReassigned: number;
+  branchesReassigned: number;
+  successorEmployeeId: number | null;
+  offboardingId: number | null;
+}
+
+/**
+ * Apply the exit of an employee
+ * Safe to run again for an employee who has already left (nothing left to change)
+ */
+export async function processEmployeeExit(
+  tx: Prisma.TransactionClient,
+  employee: Employee,
+  options: { exitDate: Date; userId?: number }
+): Promise<EmployeeExitResult> {
+  const offboarding = await tx.employeeOffboarding.findFirst({
+    where: { employeeId: employee.id, status: { not: OFFBOARDING.STATUS.CANCELLED } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, exitedAt: true, successorEmployeeId: true },
+  });
+
+  // A successor who has left in the meantime cannot take over
+  const successor = offboarding?.successorEmployeeId
+    ? await tx.employee.findFirst({
+        where: { id: offboarding.successorEmployeeId, organizationId: employee.organizationId, isActive: true },
+        select: { id: true },
+      })
+    : null;
+  const successorEmployeeId = successor?.id ?? null;
+
+  const [departments, branches] = await Promise.all([
+    tx.department.updateMany({
+      where: { organizationId: employee.organizationId, headEmployeeId: employee.id },
+      data: { headEmployeeId: successorEmployeeId, updatedBy: options.userId },
+    }),
+    tx.branch.updateMany({
+      where: { organizationId: employee.organizationId, managerId: employee.id },
+      data: { managerId: successorEmployeeId, updatedBy: options.userId },
+    }),
+  ]);
+
+  if (employee.isActive || !employee.dateOfLeaving) {
+    await tx.employee.update({
+      where: { id: employee.id },
+      data: { isActive: false, dateOfLeaving: employee.dateOfLeaving ?? options.exitDate },
+    });
+  }
+
+  let userDeactivated = false;
+  if (employee.userId) {
+    const users = await tx.user.updateMany({
+      where: { id: employee.userId, isActive: true },
+      data: { isActive: false, updatedBy: options.userId },
+    });
+    userDeactivated = users.count > 0;
+
+    // Same as revokeUserSessions, inside this transaction
+    await tx.userSession.updateMany({
+      where: { userId: employee.userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: SESSION_REVOKE_REASONS.DEACTIVATED },
+    });
+  }
+
+  if (offboarding && !offboarding.exitedAt) {
+    await tx.employeeOffboarding.update({
+      where: { id: offboarding.id },
+      data: { exitedAt: new Date(), updatedBy: options.userId },
+    });
+    await refreshOffboardingStatus(tx, offboarding.id);
+  }
+
+  return {
+    userDeactivated,
+    departmentsReassigned: departments.count,
+    branchesReassigned: branches.count,
+    successorEmployeeId,
+    offboardingId: offboarding?.id ?? null,
+  };
+}
+
+/**
+ * Mark an offboarding completed once the exit is applied and every checklist item is done
+ * (and back in progress when an item is reopened)
+ */
+export async function refreshOffboardingStatus(tx: Prisma.TransactionClient, offboardingId: number): Promise<void> {
+  const offboarding = await tx.employeeOffboarding.findUnique({
+    where: { id: offboardingId },
+    select: { status: true, exitedAt: true, items: { select: { isCompleted: true } } },
+  });
+
+  if (!offboarding || offboarding.status === OFFBOARDING.STATUS.CANCELLED) return;
+
+  const done = !!offboarding.exitedAt && offboarding.items.every((item) => item.isCompleted);
+  const status = done ? OFFBOARDING.STATUS.COMPLETED : OFFBOARDING.STATUS.IN_PROGRESS;
+
+  if (status !== offboarding.status) {
+    await tx.employeeOffboarding.update({
+      where: { id: offboardingId },
+      data: { status, completedAt: done ? new Date() : null },
+    });
+  }
+}
+
+/**
+ * Get the organization's exit checklist template
+ * Falls back to the default checklist until the organization saves its own
+ */
+export async function getOffboardingChecklistTemplate(
+  client: Prisma.TransactionClient,
+  organizationId: number
+): Promise<{ items: ChecklistTemplateItem[]; isDefault: boolean }> {
+  const templates = await client.offboardingTaskTemplate.findMany({
+    where: { organizationId },
+    select: { title: true, category: true, description: true },
+    orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }],
+  });
+
+  return templates.length > 0
+    ? { items: templates, isDefault: false }
+    : { items: OFFBOARDING.DEFAULT_CHECKLIST, isDefault: true };
+}
+
+/**
+ * Validate the items of an exit checklist template
+ * Returns an error message, or null when the items are valid
+ */
+export function validateChecklistItems(items: unknown): string | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return 'The checklist needs at least one item';
+  }
+
+  if (items.length > OFFBOARDING.MAX_CHECKLIST_ITEMS) {
+    return `The checklist can have at most ${OFFBOARDING.MAX_CHECKLIST_ITEMS} items`;
+  }
+
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item.title !== 'string' || !item.title.trim()) {
+      return `Item ${index + 1}: title is required`;
+    }
+    if (item.title.trim().length > 200) {
+      return `Item ${index + 1}: title must be at most 200 characters`;
+    }
+    if (!OFFBOARDING.CATEGORIES.includes(item.category)) {
+      return `Item ${index + 1}: category must be one of ${OFFBOARDING.CATEGORIES.join(', ')}`;
+    }
+  }
+
+  return null;
+}
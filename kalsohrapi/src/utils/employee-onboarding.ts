@@ -0,0 +1,238 @@
+import { Employee, EmployeeOnboarding, Prisma } from '@prisma/client';
+import { ONBOARDING } from '../config/constants';
+import { toDateOnly } from './attendance';
+
+/**
+ * Employee Onboarding
+ * Onboarding checklists for new hires, created from the organization's templates. The functions take the Prisma
+ * client (or transaction) to use, like utils/employee-offboarding.ts.
+ *
+ * Template selection (active templates only, most specific first):
+ *   1. department and employment type both match
+ *   2. department matches (no employment type set)
+ *   3. employment type matches (no department set)
+ *   4. general template (neither set)
+ *
+ * Each task is assigned to HR, the manager, IT or the employee, and is due a number of days before or after
+ * the date of joining. Moving the joining date moves the open tasks with it.
+ */
+
+export interface OnboardingTemplateTaskInput {
+  title: string;
+  description?: string | null;
+  assigneeRole: string;
+  dueDayOffset: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Find the template a new hire gets, from their department and employment type
+ */
+export async function findOnboardingTemplate(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  hire: { departmentId?: number | null; employmentTypeId?: number | null }
+) {
+  const templates = await client.onboardingTemplate.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      AND: [
+        { OR: [{ departmentId: null }, ...(hire.departmentId ? [{ departmentId: hire.departmentId }] : [])] },
+        {
+          OR: [
+            { employmentTypeId: null },
+            ...(hire.employmentTypeId ? [{ employmentTypeId: hire.employmentTypeId }] : []),
+          ],
+        },
+      ],
+    },
+    orderBy: { id: 'asc' },
+  });
+
+  const rank = (template: { departmentId: number | null; employmentTypeId: number | null }) =>
+    (template.departmentId ? 2 : 0) + (template.employmentTypeId ? 1 : 0);
+
+  return templates.sort((a, b) => rank(b) - rank(a))[0] ?? null;
+}
+
+/**
+ * Create the onboarding of a new hire (an employee, or a selected candidate) from a template
+ */
+export async function createOnboarding(
+  client: Prisma.TransactionClient,
+  options: {
+    organizationId: number;
+    templateId: number;
+    joiningDate: Date;
+    employeeId?: number | null;
+    candidateId?: number | null;
+    userId?: number;
+  }
+): Promise<EmployeeOnboarding> {
+  const template = await client.onboardingTemplate.findUniqueOrThrow({
+    where: { id: options.templateId },
+    include: { tasks: { orderBy: [{ sortOrder: 'asc' }, { id: 'asc' }] } },
+  });
+
+  return client.employeeOnboarding.create({
+    data: {
+      organizationId: options.organizationId,
+      employeeId: options.employeeId ?? null,
+      candidateId: options.candidateId ?? null,
+      templateId: template.id,
+      templateName: template.name,
+      joiningDate: options.joiningDate,
+      createdBy: options.userId,
+      updatedBy: options.userId,
+      tasks: {
+        create: template.tasks.map((task, index) => ({
+          title: task.title,
+          description: task.description,
+          assigneeRole: task.assigneeRole,
+          dueDayOffset: task.dueDayOffset,
+          dueDate: getDueDate(options.joiningDate, task.dueDayOffset),
+          sortOrder: index,
+        })),
+      },
+    },
+  });
+}
+
+/**
+ * Start the onboarding of a newly created employee
+ * The onboarding a candidate got when selected moves to the employee created from them; otherwise one is
+ * created from the matching template, unless the employee joined too long ago or no template matches
+ */
+export async function startNewHireOnboarding(
+  tx: Prisma.TransactionClient,
+  employee: Employee,
+  options: { candidateId?: number | null; today: Date; userId?: number }
+): Promise<EmployeeOnboarding | null> {
+  if (options.candidateId) {
+    const candidateOnboarding = await tx.employeeOnboarding.findFirst({
+      where: {
+        organizationId: employee.organizationId,
+        candidateId: options.candidateId,
+        employeeId: null,
+        status: ONBOARDING.STATUS.IN_PROGRESS,
+      },
+    });
+
+    if (candidateOnboarding) {
+      await tx.employeeOnboarding.update({
+        where: { id: candidateOnboarding.id },
+        data: { employeeId: employee.id, updatedBy: options.userId },
+      });
+      return employee.dateOfJoining
+        ? rescheduleOnboarding(tx, candidateOnboarding.id, toDateOnly(employee.dateOfJoining)!, options.userId)
+        : candidateOnboarding;
+    }
+  }
+
+  const joiningDate = toDateOnly(employee.dateOfJoining) ?? options.today;
+  if (joiningDate.getTime() < options.today.getTime() - ONBOARDING.AUTO_START_MAX_DAYS_AGO * DAY_MS) {
+    return null;
+  }
+
+  const template = await findOnboardingTemplate(tx, employee.organizationId, employee);
+  if (!template) return null;
+
+  return createOnboarding(tx, {
+    organizationId: employee.organizationId,
+    templateId: template.id,
+    joiningDate,
+    employeeId: employee.id,
+    candidateId: options.candidateId,
+    userId: options.userId,
+  });
+}
+
+/**
+ * Move an onboarding to a new joining date; open tasks keep their offset, completed ones their due date
+ */
+export async function rescheduleOnboarding(
+  tx: Prisma.TransactionClient,
+  onboardingId: number,
+  joiningDate: Date,
+  userId?: number
+): Promise<EmployeeOnboarding> {
+  const openTasks = await tx.employeeOnboardingTask.findMany({
+    where: { onboardingId, isCompleted: false },
+    select: { id: true, dueDayOffset: true },
+  });
+
+  for (const task of openTasks) {
+    await tx.employeeOnboardingTask.update({
+      where: { id: task.id },
+      data: { dueDate: getDueDate(joiningDate, task.dueDayOffset) },
+    });
+  }
+
+  return tx.employeeOnboarding.update({
+    where: { id: onboardingId },
+    data: { joiningDate, updatedBy: userId },
+  });
+}
+
+/**
+ * Mark an onboarding completed once every task is done (and back in progress when a task is reopened)
+ */
+export async function refreshOnboardingStatus(tx: Prisma.TransactionClient, onboardingId: number): Promise<void> {
+  const onboarding = await tx.employeeOnboarding.findUnique({
+    where: { id: onboardingId },
+    select: { status: true, tasks: { select: { isCompleted: true } } },
+  });
+
+  if (!onboarding || onboarding.status === ONBOARDING.STATUS.CANCELLED) return;
+
+  const done = onboarding.tasks.every((task) => task.isCompleted);
+  const status = done ? ONBOARDING.STATUS.COMPLETED : ONBOARDING.STATUS.IN_PROGRESS;
+
+  if (status !== onboarding.status) {
+    await tx.employeeOnboarding.update({
+      where: { id: onboardingId },
+      data: { status, completedAt: done ? new Date() : null },
+    });
+  }
+}
+
+/**
+ * Validate the tasks of an onboarding template
+ * Returns an error message, or null when the tasks are valid
+ */
+export function validateOnboardingTasks(tasks: unknown): string | null {
+  if (!Array.isArray(tasks) || tasks.length === 0) {
+    return 'The template needs at least one task';
+  }
+
+  if (tasks.length > ONBOARDING.MAX_TASKS) {
+    return `A template can have at most ${ONBOARDING.MAX_TASKS} tasks`;
+  }
+
+  for (const [index, task] of tasks.entries()) {
+    if (!task || typeof task.title !== 'string' || !task.title.trim()) {
+      return `Task ${index + 1}: title is required`;
+    }
+    if (task.title.trim().length > 200) {
+      return `Task ${index + 1}: title must be at most 200 characters`;
+    }
+    if (!ONBOARDING.ASSIGNEES.includes(task.assigneeRole)) {
+      return `Task ${index + 1}: assignee must be one of ${ONBOARDING.ASSIGNEES.join(', ')}`;
+    }
+    const offset = Number(task.dueDayOffset ?? 0);
+    if (!Number.isInteger(offset) || Math.abs(offset) > ONBOARDING.MAX_DUE_DAY_OFFSET) {
+      return `Task ${index + 1}: due day must be a whole number of days within ${ONBOARDING.MAX_DUE_DAY_OFFSET} of joining`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to compute a task's due date from the joining date
+ */
+function getDueDate(joiningDate: Date, dueDayOffset: number): Date {
+  return new Date(joiningDate.getTime() + dueDayOffset * DAY_MS);
+}
@@ -0,0 +1,141 @@
+import { Prisma } from '@prisma/client';
+import { MODULES } from '../config/constants';
+
+/**
+ * Field Permissions
+ * Sensitive employee fields are grouped (compensation, government IDs, bank details, family details) and each
+ * group is granted per role by a flag on the role's employees permission. Fields of a denied group are masked
+ * (null, siblings empty) in API responses, left out of exports, and ignored when sent on create or update.
+ *
+ * Super admins in support mode see no field group, as they cannot export or delete either.
+ */
+
+export type FieldGroup = 'compensation' | 'governmentIds' | 'bankDetails' | 'familyDetails';
+
+export type FieldGroupAction = 'canViewCompensation' | 'canViewGovernmentIds' | 'canViewBankDetails' | 'canViewFamilyDetails';
+
+export const FIELD_GROUPS: Record<FieldGroup, { action: FieldGroupAction; label: string; fields: string[] }> = {
+  compensation: {
+    action: 'canViewCompensation',
+    label: 'Compensation',
+    fields: ['salary'],
+  },
+  governmentIds: {
+    action: 'canViewGovernmentIds',
+    label: 'Government IDs',
+    fields: ['aadharNumber', 'panNumber', 'uanNumber'],
+  },
+  bankDetails: {
+    action: 'canViewBankDetails',
+    label: 'Bank Details',
+    fields: ['bankAccountNumber', 'bankIfscCode'],
+  },
+  familyDetails: {
+    action: 'canViewFamilyDetails',
+    label: 'Family Details',
+    fields: [
+      'fatherName',
+      'fatherOccupation',
+      'fatherContact',
+      'fatherStatus',
+      'motherName',
+      'motherOccupation',
+      'motherContact',
+      'motherStatus',
+      'familyAddress',
+      'siblings',
+    ],
+  },
+};
+
+export const FIELD_GROUP_KEYS = Object.keys(FIELD_GROUPS) as FieldGroup[];
+
+// List fields are masked as empty lists rather than null
+const LIST_FIELDS = ['siblings'];
+
+// Compensation values recorded outside the employee (e.g. the new and previous salary of a lifecycle event)
+const COMPENSATION_VALUE_FIELDS = ['salary', 'previousSalary'];
+
+/**
+ * Get the field groups the user's role may not see on employees
+ */
+export async function getHiddenFieldGroups(client: Prisma.TransactionClient, user: any): Promise<FieldGroup[]> {
+  if (user?.isSuperAdmin || !user?.roleId) {
+    return [...FIELD_GROUP_KEYS];
+  }
+
+  const permission = await client.rolePermission.findUnique({
+    where: { roleId_moduleCode: { roleId: user.roleId, moduleCode: MODULES.EMPLOYEES } },
+    select: {
+      canViewCompensation: true,
+      canViewGovernmentIds: true,
+      canViewBankDetails: true,
+      canViewFamilyDetails: true,
+    },
+  });
+
+  return FIELD_GROUP_KEYS.filter((group) => !permission?.[FIELD_GROUPS[group].action]);
+}
+
+/**
+ * Get the employee fields of the hidden field groups
+ */
+export function getHiddenFields(hidden: FieldGroup[]): string[] {
+  return hidden.flatMap((group) => FIELD_GROUPS[group].fields);
+}
+
+/**
+ * Mask the fields of the hidden field groups on an employee (or a list of employees)
+ * Returns copies; values that are not objects are returned unchanged
+ */
+export function maskEmployeeFields<T>(employee: T, hidden: FieldGroup[]): T {
+  if (hidden.length === 0 || employee === null || typeof employee !== 'object') {
+    return employee;
+  }
+
+  if (Array.isArray(employee)) {
+    return employee.map((item) => maskEmployeeFields(item, hidden)) as T;
+  }
+
+  const masked: Record<string, unknown> = { ...(employee as Record<string, unknown>) };
+  for (const field of getHiddenFields(hidden)) {
+    if (field in masked) {
+      masked[field] = LIST_FIELDS.includes(field) ? [] : null;
+    }
+  }
+
+  return masked as T;
+}
+
+/**
+ * Mask the compensation values anywhere in a stored record of any entity (e.g. audit log values), including
+ * nested records and lists, when the compensation group is hidden
+ */
+export function maskCompensationValues<T>(value: T, hidden: FieldGroup[]): T {
+  if (!hidden.includes('compensation') || value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => maskCompensationValues(item, hidden)) as T;
+  }
+
+  const masked: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value as Record<string, unknown>)) {
+    masked[key] = COMPENSATION_VALUE_FIELDS.includes(key) ? null : maskCompensationValues(item, hidden);
+  }
+
+  return masked as T;
+}
+
+/**
+ * Drop the fields of the hidden field groups from a create or update payload, so they keep their stored values
+ */
+export function stripHiddenFields<T extends Record<string, any>>(data: T, hidden: FieldGroup[]): T {
+  const stripped: Record<string, any> = { ...data };
+  for (const field of getHiddenFields(hidden)) {
+    delete stripped[field];
+  }
+
+  return stripped as T;
+}
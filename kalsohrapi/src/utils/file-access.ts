@@ -0,0 +1,131 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { FILE_ACCESS } from '../config/constants';
+import { parseStoredPath } from './storage';
+
+/**
+ * File Access Utilities
+ * Resolves which organization and module an uploaded file belongs to, and signs short-lived file URLs
+ * Signatures use FILE_SIGNING_SECRET, falling back to JWT_SECRET
+ */
+
+export interface FileOwner {
+  organizationId: number;
+  moduleCode: string | null; // null for organization-wide files such as the logo
+  employeeId?: number; // Employee the file belongs to (checked against the user's data scope)
+}
+
+export interface SignedFileUrl {
+  url: string;
+  expiresAt: Date;
+}
+
+const SIGNING_SECRET = process.env.FILE_SIGNING_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+
+/**
+ * Normalize a stored file path (e.g. /uploads/documents/id-123.pdf or s3://bucket/documents/id-123.pdf)
+ * Returns null for anything that is not a stored file
+ */
+export function normalizeFilePath(filePath: unknown): string | null {
+  return parseStoredPath(filePath)?.storedPath ?? null;
+}
+
+/**
+ * Find the record that references a file and derive its organization and owning module
+ * Returns null when no record references the path
+ */
+export async function resolveFileOwner(filePath: string): Promise<FileOwner | null> {
+  const subPath = parseStoredPath(filePath)?.key;
+  if (!subPath) {
+    return null;
+  }
+
+  // Employee profile pictures and ID proofs
+  if (subPath.startsWith('profiles/') || subPath.startsWith('documents/')) {
+    const employee = await prisma.employee.findFirst({
+      where: { OR: [{ profilePicture: filePath }, { idProof: filePath }] },
+      select: { id: true, organizationId: true },
+    });
+    if (employee) {
+      return { organizationId: employee.organizationId, moduleCode: 'employees', employeeId: employee.id };
+    }
+
+    // Employee document vault (any version)
+    const document = subPath.startsWith('documents/')
+      ? await prisma.employeeDocument.findFirst({
+          where: { filePath },
+          select: { organizationId: true, employeeId: true },
+        })
+      : null;
+    return document
+      ? { organizationId: document.organizationId, moduleCode: 'employees', employeeId: document.employeeId }
+      : null;
+  }
+
+  // Candidate resumes and profile pictures
+  if (subPath.startsWith('candidates/')) {
+    const candidate = await prisma.candidate.findFirst({
+      where: { OR: [{ resumePath: filePath }, { profilePicture: filePath }] },
+      select: { organizationId: true },
+    });
+    return candidate ? { organizationId: candidate.organizationId, moduleCode: 'recruitment' } : null;
+  }
+
+  // Organization logos are visible to every member of the organization
+  if (subPath.startsWith('organizations/')) {
+    const organization = await prisma.organization.findFirst({
+      where: { logo: filePath },
+      select: { id: true },
+    });
+    return organization ? { organizationId: organization.id, moduleCode: null } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Create a signed URL that serves a file without an Authorization header
+ * Only call this after checking that the caller may read the file
+ */
+export function signFileUrl(filePath: string): SignedFileUrl {
+  const expires = Math.floor(Date.now() / 1000) + FILE_ACCESS.SIGNED_URL_TTL_SECONDS;
+  const params = new URLSearchParams({
+    path: filePath,
+    expires: String(expires),
+    signature: createSignature(filePath, expires),
+  });
+
+  return {
+    url: `/api/v1/files/signed?${params.toString()}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Check the signature and expiry of a signed file URL
+ */
+export function verifyFileSignature(filePath: string, expires: unknown, signature: unknown): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+    return false;
+  }
+
+  if (typeof signature !== 'string') {
+    return false;
+  }
+
+  const expected = Buffer.from(createSignature(filePath, expiresAt));
+  const provided = Buffer.from(signature);
+
+  return expected.length === provided.length && crypto.timingSafeEqual(expected, provided);
+}
+
+/**
+ * Helper function to compute the HMAC of a file path and expiry time
+ */
+function createSignature(filePath: string, expires: number): string {
+  return crypto
+    .createHmac('sha256', SIGNING_SECRET)
+    .update(`${filePath}:${expires}`)
+    .digest('base64url');
+}
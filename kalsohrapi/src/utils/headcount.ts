@@ -0,0 +1,215 @@
+import { Application, Employee, Prisma } from '@prisma/client';
+
+/**
+ * Headcount Planning
+ * Organizational positions plan the seats (headCount); the active employees in a position fill them.
+ * Job positions raised from a position (organizationalPositionId) are its requisitions: while Open or
+ * On Hold, their vacancies not hired yet count as seats in recruitment.
+ *
+ * Hiring a candidate through a linked job position places the new employee in the position's seat,
+ * records the hire on the application, and marks the job position Filled once all its vacancies are hired.
+ */
+
+export const REQUISITION_ACTIVE_STATUSES = ['Open', 'On Hold'];
+
+export type HeadcountGroupBy = 'department' | 'branch';
+
+export interface HeadcountCounts {
+  planned: number;
+  filled: number; // occupied seats (never above the planned seats)
+  open: number; // planned minus filled
+  inRecruitment: number; // open seats covered by active requisitions
+  uncovered: number; // open seats without a requisition
+  overfilled: number; // employees above the planned seats
+}
+
+export interface PositionSeats extends HeadcountCounts {
+  id: number;
+  title: string;
+  code: string | null;
+  isActive: boolean;
+  department: { id: number; name: string };
+  designation: { id: number; name: string };
+  branch: { id: number; name: string } | null;
+  requisitions: { id: number; title: string; status: string; vacancies: number; hired: number }[];
+}
+
+export interface HeadcountGroup extends HeadcountCounts {
+  id: number | null; // null groups the positions without a branch
+  name: string;
+  positions: PositionSeats[];
+}
+
+type HiringApplication = Application & {
+  jobPosition: { id: number; vacancies: number; status: string; organizationalPositionId: number | null };
+};
+
+/**
+ * Count the planned, filled and open seats of the organization's positions
+ */
+export async function getPositionSeats(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  options: { positionIds?: number[]; includeInactive?: boolean } = {}
+): Promise<PositionSeats[]> {
+  const positions = await client.organizationalPosition.findMany({
+    where: {
+      organizationId,
+      ...(options.positionIds && { id: { in: options.positionIds } }),
+      ...(!options.includeInactive && { isActive: true }),
+    },
+    select: {
+      id: true,
+      title: true,
+      code: true,
+      isActive: true,
+      headCount: true,
+      department: { select: { id: true, name: true } },
+      designation: { select: { id: true, name: true } },
+      branch: { select: { id: true, name: true } },
+      _count: { select: { employees: { where: { isActive: true } } } },
+      jobPositions: {
+        where: { status: { in: REQUISITION_ACTIVE_STATUSES } },
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          vacancies: true,
+          _count: { select: { applications: { where: { hiredEmployeeId: { not: null } } } } },
+        },
+        orderBy: { id: 'asc' },
+      },
+    },
+    orderBy: [{ title: 'asc' }, { id: 'asc' }],
+  });
+
+  return positions.map(({ headCount, _count, jobPositions, ...position }) => {
+    const requisitions = jobPositions.map(({ _count: hires, ...requisition }) => ({
+      ...requisition,
+      hired: hires.applications,
+    }));
+    const filled = Math.min(_count.employees, headCount);
+    const open = headCount - filled;
+    const inRecruitment = Math.min(
+      requisitions.reduce((sum, requisition) => sum + Math.max(requisition.vacancies - requisition.hired, 0), 0),
+      open
+    );
+
+    return {
+      ...position,
+      planned: headCount,
+      filled,
+      open,
+      inRecruitment,
+      uncovered: open - inRecruitment,
+      overfilled: Math.max(_count.employees - headCount, 0),
+      requisitions,
+    };
+  });
+}
+
+/**
+ * Build the headcount plan: seats per department or per branch, with the positions in each group
+ */
+export async function buildHeadcountPlan(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  options: { groupBy: HeadcountGroupBy; includeInactive?: boolean }
+): Promise<{ groups: HeadcountGroup[]; totals: HeadcountCounts }> {
+  const seats = await getPositionSeats(client, organizationId, { includeInactive: options.includeInactive });
+
+  const groups = new Map<number | null, HeadcountGroup>();
+  for (const position of seats) {
+    const owner = options.groupBy === 'department' ? position.department : position.branch;
+    const key = owner?.id ?? null;
+
+    const group = groups.get(key) ?? { id: key, name: owner?.name ?? 'No branch', ...emptyCounts(), positions: [] };
+    addCounts(group, position);
+    group.positions.push(position);
+    groups.set(key, group);
+  }
+
+  const sorted = [...groups.values()].sort((a, b) =>
+    a.id === null ? 1 : b.id === null ? -1 : a.name.localeCompare(b.name)
+  );
+
+  return {
+    groups: sorted,
+    totals: sorted.reduce((totals, group) => addCounts(totals, group), emptyCounts()),
+  };
+}
+
+/**
+ * Find the application a candidate is hired through: the given one, or else their Selected application
+ * (preferring one raised for an organizational position). Applications already hired are skipped.
+ */
+export async function findHiringApplication(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  candidateId: number,
+  applicationId?: number | null
+): Promise<HiringApplication | null> {
+  const applications = await client.application.findMany({
+    where: {
+      organizationId,
+      candidateId,
+      hiredEmployeeId: null,
+      ...(applicationId ? { id: applicationId } : { status: 'Selected' }),
+    },
+    include: { jobPosition: { select: { id: true, vacancies: true, status: true, organizationalPositionId: true } } },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  return applications.find((application) => application.jobPosition.organizationalPositionId) ?? applications[0] ?? null;
+}
+
+/**
+ * Record the hire of an employee through an application
+ * The job position becomes Filled once every vacancy has been hired
+ */
+export async function recordHire(
+  tx: Prisma.TransactionClient,
+  application: HiringApplication,
+  employee: Employee,
+  userId?: number
+): Promise<{ applicationId: number; jobPositionId: number; jobPositionFilled: boolean }> {
+  await tx.application.update({
+    where: { id: application.id },
+    data: { hiredEmployeeId: employee.id, hiredAt: new Date(), updatedBy: userId },
+  });
+
+  const hired = await tx.application.count({
+    where: { jobPositionId: application.jobPositionId, hiredEmployeeId: { not: null } },
+  });
+
+  const jobPositionFilled =
+    hired >= application.jobPosition.vacancies && REQUISITION_ACTIVE_STATUSES.includes(application.jobPosition.status);
+  if (jobPositionFilled) {
+    await tx.jobPosition.update({
+      where: { id: application.jobPositionId },
+      data: { status: 'Filled', updatedBy: userId },
+    });
+  }
+
+  return { applicationId: application.id, jobPositionId: application.jobPositionId, jobPositionFilled };
+}
+
+/**
+ * Helper function to start a count at zero
+ */
+function emptyCounts(): HeadcountCounts {
+  return { planned: 0, filled: 0, open: 0, inRecruitment: 0, uncovered: 0, overfilled: 0 };
+}
+
+/**
+ * Helper function to add counts into a running total
+ */
+function addCounts<T extends HeadcountCounts>(total: T, counts: HeadcountCounts): T {
+  total.planned += counts.planned;
+  total.filled += counts.filled;
+  total.open += counts.open;
+  total.inRecruitment += counts.inRecruitment;
+  total.uncovered += counts.uncovered;
+  total.overfilled += counts.overfilled;
+  return total;
+}
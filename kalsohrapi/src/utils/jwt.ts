@@ -1,8 +1,10 @@
+import crypto from 'crypto';
 import jwt from 'jsonwebtoken';
 import type { StringValue } from 'ms';
 import { TOKEN_EXPIRY } from '../config/constants';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this';
+const JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || `${JWT_SECRET}-refresh`;
 
 export interface JWTPayload {
   userId: number;
@@ -10,38 +12,120 @@ export interface JWTPayload {
   organizationId: number | null;
   roleId: number | null;
   isSuperAdmin: boolean;
+  sessionId: string;
+}
+
+export interface RefreshTokenPayload {
+  userId: number;
+  sessionId: string;
+}
+
+// One-time links sent by email, and the short-lived two-factor login challenge
+export type AccountTokenPurpose = 'password_reset' | 'email_verification' | 'invite' | 'two_factor';
+
+export interface AccountTokenPayload {
+  userId: number;
+  email: string;
+  iat: number;
+  exp?: number;
+  jti?: string; // Missing on links issued before tokens carried an id
 }
 
 /**
  * Generate JWT access token
  */
 export const generateAccessToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, {
+  return jwt.sign({ ...payload, type: 'access' }, JWT_SECRET, {
     expiresIn: TOKEN_EXPIRY.ACCESS_TOKEN as StringValue,
   });
 };
 
 /**
  * Generate JWT refresh token
+ * Signed with a separate secret and carries a unique id so every rotation yields a distinct token
  */
-export const generateRefreshToken = (payload: JWTPayload): string => {
-  return jwt.sign(payload, JWT_SECRET, {
+export const generateRefreshToken = (payload: RefreshTokenPayload): string => {
+  return jwt.sign({ ...payload, type: 'refresh' }, JWT_REFRESH_SECRET, {
     expiresIn: TOKEN_EXPIRY.REFRESH_TOKEN as StringValue,
+    jwtid: crypto.randomUUID(),
   });
 };
 
 /**
- * Verify JWT token
+ * Verify JWT access token
+ * Refresh tokens are rejected
+ */
+export const verifyToken = (token: string): (JWTPayload & { iat?: number }) | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload & { type?: string; iat?: number };
+    if (decoded.type !== 'access' || !decoded.sessionId) {
+      return null;
+    }
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Verify JWT refresh token
+ * Access tokens are rejected
  */
-export const verifyToken = (token: string): JWTPayload | null => {
+export const verifyRefreshToken = (token: string): RefreshTokenPayload | null => {
   try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JWTPayload;
+    const decoded = jwt.verify(token, JWT_REFRESH_SECRET) as RefreshTokenPayload & { type?: string };
+    if (decoded.type !== 'refresh' || !decoded.sessionId) {
+      return null;
+    }
     return decoded;
   } catch (error) {
     return null;
   }
 };
 
+/**
+ * Generate token for an emailed account link (password reset, email verification, invite)
+ * or for a login waiting on its second factor
+ * Carries a unique id so single-use links can be marked as used
+ */
+export const generateAccountToken = (
+  payload: { userId: number; email: string },
+  purpose: AccountTokenPurpose,
+  expiresIn: string
+): string => {
+  return jwt.sign({ ...payload, type: purpose }, JWT_SECRET, {
+    expiresIn: expiresIn as StringValue,
+    jwtid: crypto.randomUUID(),
+  });
+};
+
+/**
+ * Verify token of an emailed account link
+ * Tokens issued for another purpose are rejected
+ */
+export const verifyAccountToken = (
+  token: string,
+  purpose: AccountTokenPurpose
+): AccountTokenPayload | null => {
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as AccountTokenPayload & { type?: string };
+    if (decoded.type !== purpose) {
+      return null;
+    }
+    return decoded;
+  } catch (error) {
+    return null;
+  }
+};
+
+/**
+ * Get the expiry date of a token
+ */
+export const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as { exp?: number } | null;
+  return decoded?.exp ? new Date(decoded.exp * 1000) : new Date();
+};
+
 /**
  * Decode JWT token without verification (for debugging)
  */
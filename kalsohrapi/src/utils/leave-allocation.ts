@@ -0,0 +1,326 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toDateOnly } from './attendance';
+
+// Own client so the year-opening script can run without starting the HTTP server
+const prisma = new PrismaClient();
+
+/**
+ * Leave Allocation Engine
+ * Opens a leave year by creating LeaveBalance rows for every active employee and leave type,
+ * prorating for mid-year joiners and closing out the previous year (carry forward / encashment)
+ * Balances created on the fly before the run (a leave approved early in the year) keep their allocation and usage,
+ * and get the closing of the previous year applied on top
+ */
+
+export interface AllocationOptions {
+  organizationId: number;
+  year: number;
+  employeeIds?: number[];
+  leaveTypeIds?: number[];
+  dryRun?: boolean;
+  userId?: number | null;
+  employeeScope?: Prisma.EmployeeWhereInput; // data scope of the user allocating (see utils/data-scope.ts)
+}
+
+export interface AllocationRow {
+  employeeId: number;
+  employeeCode: string;
+  employeeName: string;
+  leaveTypeId: number;
+  leaveTypeName: string;
+  action: 'create' | 'update' | 'skip';
+  reason?: string;
+  isProrated: boolean;
+  allocatedDays: number;
+  carriedForwardDays: number;
+  encashedDays: number;
+  lapsedDays: number;
+  totalDays: number;
+}
+
+export interface AllocationResult {
+  organizationId: number;
+  year: number;
+  dryRun: boolean;
+  summary: {
+    employees: number;
+    leaveTypes: number;
+    created: number;
+    updated: number;
+    skipped: number;
+    allocatedDays: number;
+    carriedForwardDays: number;
+    encashedDays: number;
+    lapsedDays: number;
+  };
+  allocations: AllocationRow[];
+}
+
+/**
+ * Round to the nearest half day
+ */
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+/**
+ * Prorated entitlement for an employee joining during the year
+ * Based on the calendar days remaining in the year from the joining date (inclusive)
+ */
+export function prorateEntitlement(daysPerYear: number, year: number, dateOfJoining: Date | null): number {
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const yearEnd = new Date(Date.UTC(year, 11, 31));
+  const joining = dateOfJoining ? toDateOnly(dateOfJoining) : null;
+
+  if (!joining || joining <= yearStart) return daysPerYear;
+  if (joining > yearEnd) return 0;
+
+  const dayMs = 1000 * 60 * 60 * 24;
+  const daysInYear = Math.round((yearEnd.getTime() - yearStart.getTime()) / dayMs) + 1;
+  const daysRemaining = Math.round((yearEnd.getTime() - joining.getTime()) / dayMs) + 1;
+
+  return roundToHalf((daysPerYear * daysRemaining) / daysInYear);
+}
+
+/**
+ * Split the previous year's unused balance into carried forward, encashed and lapsed days
+ */
+export function closePreviousBalance(
+  unusedDays: number,
+  leaveType: {
+    carryForwardEnabled: boolean;
+    maxCarryForwardDays: number | null;
+    encashmentEnabled: boolean;
+    maxEncashmentDays: number | null;
+  }
+): { carriedForwardDays: number; encashedDays: number; lapsedDays: number } {
+  const unused = Math.max(unusedDays, 0);
+
+  const carriedForwardDays = leaveType.carryForwardEnabled
+    ? Math.min(unused, leaveType.maxCarryForwardDays ?? unused)
+    : 0;
+
+  const afterCarry = unused - carriedForwardDays;
+  const encashedDays = leaveType.encashmentEnabled
+    ? Math.min(afterCarry, leaveType.maxEncashmentDays ?? afterCarry)
+    : 0;
+
+  return {
+    carriedForwardDays,
+    encashedDays,
+    lapsedDays: afterCarry - encashedDays,
+  };
+}
+
+/**
+ * Allocate (or preview) leave balances for an organization and year
+ * Balances already allocated for the year are reported as skipped; the ones created without an allocation get
+ * the previous year's carry forward added (and its encashment recorded) instead of being skipped
+ */
+export async function allocateLeaveBalances(options: AllocationOptions): Promise<AllocationResult> {
+  const { organizationId, year, employeeIds, leaveTypeIds, dryRun = false, userId = null, employeeScope } = options;
+
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+
+  const [employees, leaveTypes] = await Promise.all([
+    prisma.employee.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        OR: [{ dateOfLeaving: null }, { dateOfLeaving: { gte: yearStart } }],
+        ...(employeeIds && employeeIds.length > 0 && { id: { in: employeeIds } }),
+        ...(employeeScope && { AND: [employeeScope] }),
+      },
+      orderBy: { employeeCode: 'asc' },
+      select: {
+        id: true,
+        employeeCode: true,
+        firstName: true,
+        lastName: true,
+        dateOfJoining: true,
+      },
+    }),
+    prisma.leaveType.findMany({
+      where: {
+        organizationId,
+        isActive: true,
+        ...(leaveTypeIds && leaveTypeIds.length > 0 && { id: { in: leaveTypeIds } }),
+      },
+      orderBy: { name: 'asc' },
+    }),
+  ]);
+
+  const employeeIdList = employees.map((emp) => emp.id);
+  const leaveTypeIdList = leaveTypes.map((type) => type.id);
+
+  const [existingBalances, previousBalances] = await Promise.all([
+    prisma.leaveBalance.findMany({
+      where: { organizationId, year, employeeId: { in: employeeIdList }, leaveTypeId: { in: leaveTypeIdList } },
+      select: { id: true, employeeId: true, leaveTypeId: true, allocatedDays: true, totalDays: true, allocatedAt: true },
+    }),
+    prisma.leaveBalance.findMany({
+      where: { organizationId, year: year - 1, employeeId: { in: employeeIdList }, leaveTypeId: { in: leaveTypeIdList } },
+    }),
+  ]);
+
+  const balanceKey = (employeeId: number, leaveTypeId: number) => `${employeeId}:${leaveTypeId}`;
+  const existingMap = new Map(existingBalances.map((b) => [balanceKey(b.employeeId, b.leaveTypeId), b]));
+  const previousMap = new Map(previousBalances.map((b) => [balanceKey(b.employeeId, b.leaveTypeId), b]));
+
+  const allocations: AllocationRow[] = [];
+  const creates: any[] = [];
+  const updates: { id: number; carriedForwardDays: number }[] = [];
+  const previousUpdates: { id: number; encashedDays: number }[] = [];
+
+  for (const employee of employees) {
+    const employeeName = [employee.firstName, employee.lastName].filter(Boolean).join(' ');
+
+    for (const leaveType of leaveTypes) {
+      const key = balanceKey(employee.id, leaveType.id);
+      const base = {
+        employeeId: employee.id,
+        employeeCode: employee.employeeCode,
+        employeeName,
+        leaveTypeId: leaveType.id,
+        leaveTypeName: leaveType.name,
+      };
+
+      const existing = existingMap.get(key);
+      if (existing?.allocatedAt) {
+        allocations.push({
+          ...base,
+          action: 'skip',
+          reason: `Balance already allocated for ${year}`,
+          isProrated: false,
+          allocatedDays: 0,
+          carriedForwardDays: 0,
+          encashedDays: 0,
+          lapsedDays: 0,
+          totalDays: 0,
+        });
+        continue;
+      }
+
+      const previous = previousMap.get(key);
+      const closing = previous
+        ? closePreviousBalance(Number(previous.remainingDays), leaveType)
+        : { carriedForwardDays: 0, encashedDays: 0, lapsedDays: 0 };
+
+      if (previous && closing.encashedDays > 0) {
+        previousUpdates.push({ id: previous.id, encashedDays: closing.encashedDays });
+      }
+
+      // Created on the fly (see applyApprovedLeave): its allocation stands, the carry forward is added on top
+      if (existing) {
+        const allocatedDays = Number(existing.allocatedDays);
+
+        allocations.push({
+          ...base,
+          action: 'update',
+          isProrated: allocatedDays !== leaveType.daysPerYear,
+          allocatedDays,
+          ...closing,
+          totalDays: Number(existing.totalDays) + closing.carriedForwardDays,
+        });
+
+        updates.push({ id: existing.id, carriedForwardDays: closing.carriedForwardDays });
+        continue;
+      }
+
+      const joining = employee.dateOfJoining ? toDateOnly(employee.dateOfJoining) : null;
+      if (joining && joining.getUTCFullYear() > year) {
+        allocations.push({
+          ...base,
+          action: 'skip',
+          reason: `Joins after ${year}`,
+          isProrated: false,
+          allocatedDays: 0,
+          carriedForwardDays: 0,
+          encashedDays: 0,
+          lapsedDays: 0,
+          totalDays: 0,
+        });
+        continue;
+      }
+
+      const allocatedDays = leaveType.isProrated
+        ? prorateEntitlement(leaveType.daysPerYear, year, employee.dateOfJoining)
+        : leaveType.daysPerYear;
+      const isProrated = allocatedDays !== leaveType.daysPerYear;
+
+      const totalDays = allocatedDays + closing.carriedForwardDays;
+
+      allocations.push({
+        ...base,
+        action: 'create',
+        isProrated,
+        allocatedDays,
+        ...closing,
+        totalDays,
+      });
+
+      creates.push({
+        organizationId,
+        employeeId: employee.id,
+        leaveTypeId: leaveType.id,
+        year,
+        allocatedDays,
+        carriedForwardDays: closing.carriedForwardDays,
+        totalDays,
+        usedDays: 0,
+        remainingDays: totalDays,
+        allocatedAt: new Date(),
+        createdBy: userId,
+        updatedBy: userId,
+      });
+    }
+  }
+
+  if (!dryRun && (creates.length > 0 || updates.length > 0)) {
+    await prisma.$transaction([
+      prisma.leaveBalance.createMany({ data: creates, skipDuplicates: true }),
+      ...updates.map((update) =>
+        prisma.leaveBalance.updateMany({
+          where: { id: update.id, allocatedAt: null },
+          data: {
+            carriedForwardDays: update.carriedForwardDays,
+            totalDays: { increment: update.carriedForwardDays },
+            remainingDays: { increment: update.carriedForwardDays },
+            allocatedAt: new Date(),
+            updatedBy: userId,
+          },
+        })
+      ),
+      ...previousUpdates.map((update) =>
+        prisma.leaveBalance.update({
+          where: { id: update.id },
+          data: { encashedDays: update.encashedDays, updatedBy: userId },
+        })
+      ),
+    ]);
+  }
+
+  const created = allocations.filter((row) => row.action === 'create');
+  const updated = allocations.filter((row) => row.action === 'update');
+  const allocated = [...created, ...updated];
+  const sum = (field: keyof AllocationRow) =>
+    allocated.reduce((total, row) => total + (row[field] as number), 0);
+
+  return {
+    organizationId,
+    year,
+    dryRun,
+    summary: {
+      employees: employees.length,
+      leaveTypes: leaveTypes.length,
+      created: created.length,
+      updated: updated.length,
+      skipped: allocations.length - allocated.length,
+      allocatedDays: sum('allocatedDays'),
+      carriedForwardDays: sum('carriedForwardDays'),
+      encashedDays: sum('encashedDays'),
+      lapsedDays: sum('lapsedDays'),
+    },
+    allocations,
+  };
+}
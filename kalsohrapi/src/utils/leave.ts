@@ -0,0 +1,269 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../index';
+import { ATTENDANCE_STATUS, LEAVE_BALANCE, LEAVE_STATUS } from '../config/constants';
+import { eachDateInRange, formatDateKey, isWeekend } from './attendance';
+import { prorateEntitlement } from './leave-allocation';
+
+/**
+ * Leave Utilities
+ * Working-day calculation and balance/attendance bookkeeping for leave requests
+ */
+
+/**
+ * Calculate the leave days between two dates, excluding weekends and mandatory org holidays
+ * Half-day requests are only valid for single-day leave and count as 0.5
+ */
+export async function calculateLeaveDays(
+  organizationId: number,
+  startDate: Date,
+  endDate: Date,
+  isHalfDay: boolean = false
+): Promise<{ totalDays: number; leaveDates: Date[] }> {
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      organizationId,
+      isActive: true,
+      isOptional: false,
+      date: { gte: startDate, lte: endDate },
+    },
+    select: { date: true },
+  });
+
+  const holidayKeys = new Set(holidays.map((holiday) => formatDateKey(holiday.date)));
+
+  const leaveDates = eachDateInRange(startDate, endDate).filter(
+    (date) => !isWeekend(date) && !holidayKeys.has(formatDateKey(date))
+  );
+
+  const totalDays = isHalfDay && leaveDates.length === 1 ? 0.5 : leaveDates.length;
+
+  return { totalDays, leaveDates };
+}
+
+/**
+ * Whether a leave runs into the next calendar year
+ * Balances are tracked per calendar year and a request draws from the balance of its start year, so such
+ * requests are rejected (the employee submits one request per year)
+ */
+export function spansCalendarYears(startDate: Date, endDate: Date): boolean {
+  return startDate.getUTCFullYear() !== endDate.getUTCFullYear();
+}
+
+export const LEAVE_SPANS_YEARS_MESSAGE =
+  'Leave cannot span two calendar years. Please submit separate requests for each year';
+
+/**
+ * Sum of pending leave days for an employee/leave type in a year
+ * Pending requests reserve balance so employees cannot over-apply
+ */
+export async function getPendingLeaveDays(
+  organizationId: number,
+  employeeId: number,
+  leaveTypeId: number,
+  year: number,
+  excludeRequestId?: number
+): Promise<number> {
+  const pending = await prisma.leaveRequest.aggregate({
+    where: {
+      organizationId,
+      employeeId,
+      leaveTypeId,
+      status: LEAVE_STATUS.PENDING,
+      startDate: {
+        gte: new Date(Date.UTC(year, 0, 1)),
+        lte: new Date(Date.UTC(year, 11, 31)),
+      },
+      ...(excludeRequestId && { id: { not: excludeRequestId } }),
+    },
+    _sum: { totalDays: true },
+  });
+
+  return pending._sum.totalDays ? Number(pending._sum.totalDays) : 0;
+}
+
+/**
+ * Entitlement of an employee without a balance row for the year (the year-opening allocation has not run yet)
+ * Prorated from the joining date like the allocation engine, so a mid-year joiner cannot draw the full year
+ */
+export function getUnallocatedEntitlement(
+  leaveType: { daysPerYear: number; isProrated: boolean },
+  year: number,
+  dateOfJoining: Date | null
+): number {
+  return leaveType.isProrated
+    ? prorateEntitlement(leaveType.daysPerYear, year, dateOfJoining)
+    : leaveType.daysPerYear;
+}
+
+/**
+ * Apply an approved leave request: deduct the balance and mark attendance as Leave
+ * Must be called inside a transaction together with the status update
+ * The balance is only deducted while enough days remain, so concurrent approvals cannot overdraw it; otherwise
+ * throws an error with code LEAVE_BALANCE.INSUFFICIENT_CODE (rolling back the transaction)
+ */
+export async function applyApprovedLeave(
+  tx: Prisma.TransactionClient,
+  request: {
+    organizationId: number;
+    employeeId: number;
+    leaveTypeId: number;
+    startDate: Date;
+    endDate: Date;
+    totalDays: Prisma.Decimal | number;
+  },
+  leaveType: { name: string; isPaid: boolean; daysPerYear: number; isProrated: boolean },
+  leaveDates: Date[],
+  userId: number
+): Promise<void> {
+  const totalDays = Number(request.totalDays);
+
+  const employee = await tx.employee.findUnique({
+    where: { id: request.employeeId },
+    select: { branchId: true, dateOfJoining: true },
+  });
+
+  // Only paid leave draws down the balance, of the one year the leave falls in
+  if (leaveType.isPaid) {
+    if (spansCalendarYears(request.startDate, request.endDate)) {
+      throw new Error(LEAVE_SPANS_YEARS_MESSAGE);
+    }
+
+    const year = request.startDate.getUTCFullYear();
+    const entitlement = getUnallocatedEntitlement(leaveType, year, employee?.dateOfJoining ?? null);
+    const balanceWhere = {
+      employeeId_leaveTypeId_year: {
+        employeeId: request.employeeId,
+        leaveTypeId: request.leaveTypeId,
+        year,
+      },
+    };
+
+    await tx.leaveBalance.upsert({
+      where: balanceWhere,
+      create: {
+        organizationId: request.organizationId,
+        employeeId: request.employeeId,
+        leaveTypeId: request.leaveTypeId,
+        year,
+        // Fallback when the year-opening allocation has not run yet
+        allocatedDays: entitlement,
+        totalDays: entitlement,
+        usedDays: 0,
+        remainingDays: entitlement,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      update: {},
+    });
+
+    const { count } = await tx.leaveBalance.updateMany({
+      where: {
+        employeeId: request.employeeId,
+        leaveTypeId: request.leaveTypeId,
+        year,
+        remainingDays: { gte: totalDays },
+      },
+      data: {
+        usedDays: { increment: totalDays },
+        remainingDays: { decrement: totalDays },
+        updatedBy: userId,
+      },
+    });
+
+    if (count === 0) {
+      const balance = await tx.leaveBalance.findUnique({ where: balanceWhere, select: { remainingDays: true } });
+      throw Object.assign(
+        new Error(
+          `Insufficient ${leaveType.name} balance. Remaining: ${Number(balance?.remainingDays ?? 0)} day(s), requested: ${totalDays} day(s)`
+        ),
+        { code: LEAVE_BALANCE.INSUFFICIENT_CODE }
+      );
+    }
+  }
+
+  for (const attendanceDate of leaveDates) {
+    await tx.attendance.upsert({
+      where: {
+        organizationId_employeeId_attendanceDate: {
+          organizationId: request.organizationId,
+          employeeId: request.employeeId,
+          attendanceDate,
+        },
+      },
+      create: {
+        organizationId: request.organizationId,
+        employeeId: request.employeeId,
+        branchId: employee?.branchId || null,
+        attendanceDate,
+        status: ATTENDANCE_STATUS.LEAVE,
+        notes: `Leave: ${leaveType.name}`,
+        markedBy: userId,
+        createdBy: userId,
+        updatedBy: userId,
+      },
+      update: {
+        status: ATTENDANCE_STATUS.LEAVE,
+        checkInTime: null,
+        checkOutTime: null,
+        workHours: null,
+        overtimeHours: null,
+        notes: `Leave: ${leaveType.name}`,
+        absenceReason: null,
+        markedBy: userId,
+        markedAt: new Date(),
+        updatedBy: userId,
+      },
+    });
+  }
+}
+
+/**
+ * Whether an error was raised because an approved leave would overdraw the balance
+ */
+export function isLeaveBalanceError(error: unknown): error is Error & { code: string } {
+  return error instanceof Error && (error as any).code === LEAVE_BALANCE.INSUFFICIENT_CODE;
+}
+
+/**
+ * Reverse an approved leave request: restore the balance and clear Leave attendance
+ * Must be called inside a transaction together with the status update
+ */
+export async function revertApprovedLeave(
+  tx: Prisma.TransactionClient,
+  request: {
+    organizationId: number;
+    employeeId: number;
+    leaveTypeId: number;
+    startDate: Date;
+    endDate: Date;
+    totalDays: Prisma.Decimal | number;
+  },
+  leaveType: { isPaid: boolean },
+  userId: number
+): Promise<void> {
+  const totalDays = Number(request.totalDays);
+
+  if (leaveType.isPaid) {
+    await tx.leaveBalance.updateMany({
+      where: {
+        employeeId: request.employeeId,
+        leaveTypeId: request.leaveTypeId,
+        year: request.startDate.getUTCFullYear(),
+      },
+      data: {
+        usedDays: { decrement: totalDays },
+        remainingDays: { increment: totalDays },
+        updatedBy: userId,
+      },
+    });
+  }
+
+  await tx.attendance.deleteMany({
+    where: {
+      organizationId: request.organizationId,
+      employeeId: request.employeeId,
+      status: ATTENDANCE_STATUS.LEAVE,
+      attendanceDate: { gte: request.startDate, lte: request.endDate },
+    },
+  });
+}
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Mail Utilities
+ * Sends email through a pluggable transport selected with MAIL_TRANSPORT:
+ * - smtp: deliver through an SMTP server (SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS)
+ * - file: write each message as JSON to MAIL_FILE_DIR (local development, tests)
+ * - console: print messages to the server log (default)
+ */
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || 'KalsoHR <no-reply@kalsohr.com>';
+
+/**
+ * SMTP transport
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    ...(process.env.SMTP_USER && {
+      auth: {
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      },
+    }),
+  });
+
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    },
+  };
+};
+
+/**
+ * File transport - writes one JSON file per message
+ */
+export const createFileTransport = (
+  directory: string = process.env.MAIL_FILE_DIR || path.join(__dirname, '../../mail-outbox')
+): MailTransport => {
+  return {
+    name: 'file',
+    send: async (message) => {
+      await fs.promises.mkdir(directory, { recursive: true });
+      const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+      const fileName = `${Date.now()}-${Math.round(Math.random() * 1e6)}-${safeRecipient}.json`;
+      await fs.promises.writeFile(
+        path.join(directory, fileName),
+        JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+      );
+    },
+  };
+};
+
+/**
+ * Console transport - logs messages instead of sending them
+ */
+export const createConsoleTransport = (): MailTransport => {
+  return {
+    name: 'console',
+    send: async (message) => {
+      console.log(
+        `📧 Email (console transport)\n  From: ${message.from}\n  To: ${message.to}\n  Subject: ${message.subject}\n\n${message.text}\n`
+      );
+    },
+  };
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured mail transport
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!transport) {
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'smtp':
+        transport = createSmtpTransport();
+        break;
+      case 'file':
+        transport = createFileTransport();
+        break;
+      default:
+        transport = createConsoleTransport();
+    }
+  }
+
+  return transport;
+};
+
+/**
+ * Replace the mail transport (e.g. with an in-memory transport in tests)
+ */
+export const setMailTransport = (mailTransport: MailTransport): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getMailTransport().send({ from: MAIL_FROM, ...message });
+};
@@ -0,0 +1,358 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Org Chart
+ * The reporting lines of the organization follow the organizational position tree (reportingPositionId):
+ * an employee reports to the employees filling the position above their own. Vacant positions are skipped,
+ * so a team whose lead seat is empty reports to the next occupied position up the tree.
+ *
+ * Employees without a position (or with no occupied position above them) fall back to the head of their
+ * department, then the manager of their branch.
+ */
+
+export interface OrgChartOccupant {
+  id: number;
+  employeeCode: string;
+  firstName: string;
+  lastName: string | null;
+  email: string | null;
+  profilePicture: string | null;
+}
+
+export interface OrgChartRollup {
+  positions: number;
+  headCount: number;
+  employees: number;
+  vacancies: number;
+}
+
+export interface OrgChartNode {
+  id: number;
+  title: string;
+  code: string | null;
+  isActive: boolean;
+  department: { id: number; name: string };
+  designation: { id: number; name: string; level: number | null };
+  headCount: number;
+  occupants: OrgChartOccupant[];
+  vacancies: number; // headCount minus occupants (never negative)
+  rollup: OrgChartRollup; // this position and every position below it
+  children: OrgChartNode[];
+}
+
+export type ManagerSource = 'position' | 'department_head' | 'branch_manager';
+
+export interface ReportingLine {
+  position: { id: number; title: string } | null;
+  managers: OrgChartOccupant[];
+  managerSource: ManagerSource | null;
+  managerPosition: { id: number; title: string } | null;
+  skippedVacantPositions: { id: number; title: string }[];
+  // Occupied positions from the manager's up to the top of the tree
+  chain: { position: { id: number; title: string }; employees: OrgChartOccupant[] }[];
+  directReports: (OrgChartOccupant & { position: { id: number; title: string } })[];
+}
+
+export type PositionRow = Prisma.OrganizationalPositionGetPayload<{ include: typeof positionInclude }>;
+
+export interface PositionGraph {
+  positions: Map<number, PositionRow>;
+  children: Map<number | null, PositionRow[]>;
+  occupants: Map<number, OrgChartOccupant[]>;
+}
+
+const occupantSelect = {
+  id: true,
+  employeeCode: true,
+  firstName: true,
+  lastName: true,
+  email: true,
+  profilePicture: true,
+};
+
+const positionInclude = {
+  department: { select: { id: true, name: true } },
+  designation: { select: { id: true, name: true, level: true } },
+};
+
+// The employee fields needed to fall back to the department head or branch manager
+export const fallbackManagerSelect = {
+  department: { select: { headEmployee: { select: { ...occupantSelect, isActive: true } } } },
+  branch: { select: { manager: { select: { ...occupantSelect, isActive: true } } } },
+};
+
+type FallbackManagerFields = Prisma.EmployeeGetPayload<{ select: typeof fallbackManagerSelect }>;
+
+/**
+ * Build the org chart: the position tree with the active employees filling each position and subtree rollups
+ * A department filter keeps that department's positions; a position whose parent is filtered out becomes a root
+ */
+export async function buildOrgChart(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  options: { rootPositionId?: number; departmentId?: number; includeInactive?: boolean } = {}
+): Promise<{ roots: OrgChartNode[]; totals: OrgChartRollup; unassignedEmployees: number }> {
+  const graph = await loadPositionGraph(client, organizationId);
+
+  const included = (position: PositionRow) =>
+    (options.includeInactive || position.isActive) &&
+    (!options.departmentId || position.departmentId === options.departmentId);
+
+  const visited = new Set<number>();
+  const buildNode = (position: PositionRow): OrgChartNode => {
+    visited.add(position.id);
+
+    const children = (graph.children.get(position.id) ?? [])
+      .filter((child) => included(child) && !visited.has(child.id))
+      .map(buildNode);
+    const occupants = graph.occupants.get(position.id) ?? [];
+    const vacancies = Math.max(position.headCount - occupants.length, 0);
+
+    return {
+      id: position.id,
+      title: position.title,
+      code: position.code,
+      isActive: position.isActive,
+      department: position.department,
+      designation: position.designation,
+      headCount: position.headCount,
+      occupants,
+      vacancies,
+      rollup: children.reduce(
+        (rollup, child) => addRollups(rollup, child.rollup),
+        { positions: 1, headCount: position.headCount, employees: occupants.length, vacancies }
+      ),
+      children,
+    };
+  };
+
+  let roots: OrgChartNode[];
+  if (options.rootPositionId) {
+    const root = graph.positions.get(options.rootPositionId);
+    roots = root ? [buildNode(root)] : [];
+  } else {
+    const candidates = [...graph.positions.values()].filter(included);
+    roots = candidates
+      .filter((position) => {
+        const parent = position.reportingPositionId ? graph.positions.get(position.reportingPositionId) : null;
+        return !parent || !included(parent);
+      })
+      .map(buildNode);
+
+    // Positions caught in a reporting cycle have no root above them; list them from where the cycle is broken
+    for (const position of candidates) {
+      if (!visited.has(position.id)) roots.push(buildNode(position));
+    }
+  }
+
+  const unassignedEmployees = await client.employee.count({
+    where: {
+      organizationId,
+      isActive: true,
+      organizationalPositionId: null,
+      ...(options.departmentId && { departmentId: options.departmentId }),
+    },
+  });
+
+  return {
+    roots,
+    totals: roots.reduce((totals, root) => addRollups(totals, root.rollup), {
+      positions: 0,
+      headCount: 0,
+      employees: 0,
+      vacancies: 0,
+    }),
+    unassignedEmployees,
+  };
+}
+
+/**
+ * Resolve the reporting line of an employee: who they report to, the chain above and their direct reports
+ * Returns null when the employee does not belong to the organization
+ */
+export async function resolveReportingLine(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  employeeId: number
+): Promise<ReportingLine | null> {
+  const employee = await client.employee.findFirst({
+    where: { id: employeeId, organizationId },
+    select: {
+      id: true,
+      organizationalPositionId: true,
+      ...fallbackManagerSelect,
+    },
+  });
+
+  if (!employee) return null;
+
+  const graph = await loadPositionGraph(client, organizationId);
+  const position = employee.organizationalPositionId ? graph.positions.get(employee.organizationalPositionId) : null;
+
+  const line: ReportingLine = {
+    position: position ? { id: position.id, title: position.title } : null,
+    managers: [],
+    managerSource: null,
+    managerPosition: null,
+    skippedVacantPositions: [],
+    chain: [],
+    directReports: position ? getDirectReports(graph, position.id, employee.id) : [],
+  };
+
+  if (position) {
+    const above = findPositionManagers(graph, position.id, employee.id);
+    if (above.managers.length > 0) {
+      line.managers = above.managers;
+      line.managerSource = 'position';
+      line.managerPosition = above.managerPosition;
+    }
+    line.skippedVacantPositions = above.skippedVacantPositions;
+    line.chain = above.chain;
+  }
+
+  if (!line.managerSource) {
+    Object.assign(line, findFallbackManager(employee));
+  }
+
+  return line;
+}
+
+/**
+ * Find the manager of an employee with no occupied position above them:
+ * the head of their department, then the manager of their branch
+ */
+export function findFallbackManager(
+  employee: FallbackManagerFields & { id: number }
+): Pick<ReportingLine, 'managers' | 'managerSource'> {
+  const head = employee.department?.headEmployee;
+  const branchManager = employee.branch?.manager;
+
+  if (head && head.isActive && head.id !== employee.id) {
+    return { managers: [toOccupant(head)], managerSource: 'department_head' };
+  }
+  if (branchManager && branchManager.isActive && branchManager.id !== employee.id) {
+    return { managers: [toOccupant(branchManager)], managerSource: 'branch_manager' };
+  }
+  return { managers: [], managerSource: null };
+}
+
+/**
+ * Find who a position reports to: the occupants of the first occupied position above it
+ * (vacant positions are skipped), and the occupied positions further up
+ */
+export function findPositionManagers(
+  graph: PositionGraph,
+  positionId: number,
+  employeeId?: number
+): Pick<ReportingLine, 'managers' | 'managerPosition' | 'skippedVacantPositions' | 'chain'> {
+  const result: ReturnType<typeof findPositionManagers> = {
+    managers: [],
+    managerPosition: null,
+    skippedVacantPositions: [],
+    chain: [],
+  };
+
+  const visited = new Set<number>([positionId]);
+  let parentId = graph.positions.get(positionId)?.reportingPositionId ?? null;
+  while (parentId && !visited.has(parentId)) {
+    visited.add(parentId);
+    const parent = graph.positions.get(parentId);
+    if (!parent) break;
+
+    const occupants = (graph.occupants.get(parent.id) ?? []).filter((occupant) => occupant.id !== employeeId);
+    if (occupants.length > 0) {
+      if (!result.managerPosition) {
+        result.managers = occupants;
+        result.managerPosition = { id: parent.id, title: parent.title };
+      }
+      result.chain.push({ position: { id: parent.id, title: parent.title }, employees: occupants });
+    } else if (!result.managerPosition) {
+      result.skippedVacantPositions.push({ id: parent.id, title: parent.title });
+    }
+    parentId = parent.reportingPositionId;
+  }
+
+  return result;
+}
+
+/**
+ * Load the organization's positions and the active employees filling them
+ */
+export async function loadPositionGraph(client: Prisma.TransactionClient, organizationId: number): Promise<PositionGraph> {
+  const [positions, employees] = await Promise.all([
+    client.organizationalPosition.findMany({
+      where: { organizationId },
+      include: positionInclude,
+      orderBy: [{ title: 'asc' }, { id: 'asc' }],
+    }),
+    client.employee.findMany({
+      where: { organizationId, isActive: true, organizationalPositionId: { not: null } },
+      select: { ...occupantSelect, organizationalPositionId: true },
+      orderBy: [{ firstName: 'asc' }, { id: 'asc' }],
+    }),
+  ]);
+
+  const graph: PositionGraph = { positions: new Map(), children: new Map(), occupants: new Map() };
+
+  for (const position of positions) {
+    graph.positions.set(position.id, position);
+    const siblings = graph.children.get(position.reportingPositionId) ?? [];
+    siblings.push(position);
+    graph.children.set(position.reportingPositionId, siblings);
+  }
+
+  for (const { organizationalPositionId, ...employee } of employees) {
+    const occupants = graph.occupants.get(organizationalPositionId!) ?? [];
+    occupants.push(employee);
+    graph.occupants.set(organizationalPositionId!, occupants);
+  }
+
+  return graph;
+}
+
+/**
+ * Helper function to find the employees reporting directly to a position, looking through vacant positions below it
+ */
+function getDirectReports(
+  graph: PositionGraph,
+  positionId: number,
+  employeeId: number
+): ReportingLine['directReports'] {
+  const reports: ReportingLine['directReports'] = [];
+  const visited = new Set<number>([positionId]);
+  const pending = [...(graph.children.get(positionId) ?? [])];
+
+  while (pending.length > 0) {
+    const child = pending.shift()!;
+    if (visited.has(child.id)) continue;
+    visited.add(child.id);
+
+    const occupants = (graph.occupants.get(child.id) ?? []).filter((occupant) => occupant.id !== employeeId);
+    if (occupants.length > 0) {
+      reports.push(...occupants.map((occupant) => ({ ...occupant, position: { id: child.id, title: child.title } })));
+    } else {
+      pending.push(...(graph.children.get(child.id) ?? []));
+    }
+  }
+
+  return reports;
+}
+
+/**
+ * Helper function to add up two rollups
+ */
+function addRollups(a: OrgChartRollup, b: OrgChartRollup): OrgChartRollup {
+  return {
+    positions: a.positions + b.positions,
+    headCount: a.headCount + b.headCount,
+    employees: a.employees + b.employees,
+    vacancies: a.vacancies + b.vacancies,
+  };
+}
+
+/**
+ * Helper function to drop the fields that are not part of an occupant
+ */
+function toOccupant({ id, employeeCode, firstName, lastName, email, profilePicture }: OrgChartOccupant): OrgChartOccupant {
+  return { id, employeeCode, firstName, lastName, email, profilePicture };
+}
@@ -2,7 +2,17 @@ import { PrismaClient } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
-export type PermissionAction = 'canRead' | 'canWrite' | 'canUpdate' | 'canDelete' | 'canApprove' | 'canExport';
+export type PermissionAction =
+  | 'canRead'
+  | 'canWrite'
+  | 'canUpdate'
+  | 'canDelete'
+  | 'canApprove'
+  | 'canExport'
+  | 'canViewCompensation'
+  | 'canViewGovernmentIds'
+  | 'canViewBankDetails'
+  | 'canViewFamilyDetails';
 
 /**
  * Check if user has a specific permission for a module
@@ -44,6 +54,69 @@ export async function hasPermission(
   }
 }
 
+/**
+ * Check if user has a specific permission for a module within an organization
+ * Function form of checkOrgPermission for checks that depend on the request data
+ * @param user - User object from request
+ * @param organizationId - Organization from the tenant context
+ * @param moduleCode - Module code to check permission for
+ * @param action - Permission action to check
+ * @param isImpersonating - Whether a super admin is in support mode
+ * @returns true if user has permission, false otherwise
+ */
+export async function hasOrgPermission(
+  user: any,
+  organizationId: number,
+  moduleCode: string,
+  action: PermissionAction,
+  isImpersonating = false
+): Promise<boolean> {
+  try {
+    // Super admins in support mode use their platform role permissions
+    if (user?.isSuperAdmin) {
+      if (!isImpersonating) {
+        return false;
+      }
+      // Support mode never deletes, exports or sees sensitive employee fields
+      if (action === 'canDelete' || action === 'canExport' || action.startsWith('canView')) {
+        return false;
+      }
+      return hasPermission(user, moduleCode, action);
+    }
+
+    if (!user?.roleId) {
+      return false;
+    }
+
+    // Module must be enabled for the organization
+    const moduleRecord = await prisma.orgModule.findUnique({
+      where: { code: moduleCode },
+    });
+
+    if (!moduleRecord) {
+      return false;
+    }
+
+    const orgModuleEnabled = await prisma.organizationModule.findUnique({
+      where: {
+        organizationId_orgModuleId: {
+          organizationId,
+          orgModuleId: moduleRecord.id,
+        },
+      },
+    });
+
+    if (!orgModuleEnabled || !orgModuleEnabled.isEnabled) {
+      return false;
+    }
+
+    return hasPermission(user, moduleCode, action);
+  } catch (error) {
+    console.error('Org permission check error:', error);
+    return false;
+  }
+}
+
 /**
  * Check if user can view audit information (created by/updated by)
  * Users need "canApprove" permission to view audit trails
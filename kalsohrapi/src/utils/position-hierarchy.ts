@@ -0,0 +1,372 @@
+import { Prisma } from '@prisma/client';
+import {
+  fallbackManagerSelect,
+  findFallbackManager,
+  findPositionManagers,
+  loadPositionGraph,
+  ManagerSource,
+  OrgChartOccupant,
+  PositionGraph,
+  PositionRow,
+} from './org-chart';
+
+/**
+ * Position Hierarchy
+ * Integrity checks and restructuring of the organizational position tree (reportingPositionId).
+ *
+ * A position moves either with its subtree (everything below keeps reporting to it) or on its own,
+ * in which case its direct subordinates move up to its old reporting position. A move is checked
+ * against the whole tree so it can never leave a reporting cycle behind, and the preview lists the
+ * employees whose manager changes before anything is saved.
+ */
+
+export type PositionMoveMode = 'subtree' | 'position';
+
+export interface PositionMove {
+  positionId: number;
+  reportingPositionId: number | null;
+  mode: PositionMoveMode;
+}
+
+type PositionRef = { id: number; title: string };
+
+export interface PositionMovePlan {
+  position: PositionRef;
+  from: PositionRef | null;
+  to: PositionRef | null;
+  mode: PositionMoveMode;
+  // Every position whose reporting position changes: the moved one and, for a 'position' move, its subordinates
+  changes: { position: PositionRef; from: PositionRef | null; to: PositionRef | null }[];
+  movedPositions: number; // positions moving under the new reporting position (the subtree size for a 'subtree' move)
+  warnings: string[];
+}
+
+interface EffectiveManager {
+  managers: OrgChartOccupant[];
+  managerSource: ManagerSource | null;
+  managerPosition: PositionRef | null;
+}
+
+export interface ReportingLineChange {
+  employee: OrgChartOccupant;
+  position: PositionRef;
+  before: EffectiveManager;
+  after: EffectiveManager;
+}
+
+export type HierarchyIssueType = 'cycle' | 'missing_parent' | 'inactive_parent';
+
+export interface HierarchyIssue {
+  type: HierarchyIssueType;
+  positions: PositionRef[];
+  message: string;
+}
+
+/**
+ * Plan a move on the loaded position tree without saving it
+ * Returns an error message when the move is not possible (unknown position, self reference, cycle, no change)
+ */
+export function planPositionMove(
+  graph: PositionGraph,
+  move: PositionMove
+): { error: string } | { plan: PositionMovePlan; graph: PositionGraph } {
+  const position = graph.positions.get(move.positionId);
+  if (!position) {
+    return { error: 'Organizational position not found' };
+  }
+
+  const target = move.reportingPositionId ? graph.positions.get(move.reportingPositionId) : null;
+  if (move.reportingPositionId && !target) {
+    return { error: 'Reporting position not found or does not belong to this organization' };
+  }
+  if (target?.id === position.id) {
+    return { error: 'A position cannot report to itself' };
+  }
+
+  const parentOf = new Map([...graph.positions.values()].map((row) => [row.id, row.reportingPositionId]));
+  const subordinates = graph.children.get(position.id) ?? [];
+  if (move.mode === 'position') {
+    for (const subordinate of subordinates) {
+      parentOf.set(subordinate.id, position.reportingPositionId);
+    }
+  }
+  parentOf.set(position.id, target?.id ?? null);
+
+  const changes = [...parentOf]
+    .filter(([id, parentId]) => graph.positions.get(id)!.reportingPositionId !== parentId)
+    .map(([id, parentId]) => ({
+      position: toRef(graph.positions.get(id))!,
+      from: toRef(graph.positions.get(graph.positions.get(id)!.reportingPositionId ?? 0)),
+      to: toRef(graph.positions.get(parentId ?? 0)),
+    }));
+
+  if (changes.length === 0) {
+    return {
+      error: target
+        ? `${position.title} already reports to ${target.title}`
+        : `${position.title} is already at the top of the hierarchy`,
+    };
+  }
+
+  for (const change of changes) {
+    const cycle = findReportingCycle(parentOf, change.position.id);
+    if (cycle) {
+      const path = [...cycle, cycle[0]].map((id) => graph.positions.get(id)!.title).join(' → ');
+      return { error: `This move would create a circular hierarchy (${path})` };
+    }
+  }
+
+  const after = withReportingPositions(graph, parentOf);
+
+  const warnings: string[] = [];
+  if (target && !target.isActive && position.isActive) {
+    warnings.push(`${target.title} is inactive, so ${position.title} will not show under it on the org chart`);
+  }
+  if (move.mode === 'position' && subordinates.length > 0) {
+    const parent = graph.positions.get(position.reportingPositionId ?? 0);
+    warnings.push(
+      `${subordinates.length} subordinate position(s) of ${position.title} will report to ${
+        parent ? parent.title : 'nobody (top of the hierarchy)'
+      }`
+    );
+  }
+
+  return {
+    plan: {
+      position: toRef(position)!,
+      from: toRef(graph.positions.get(position.reportingPositionId ?? 0)),
+      to: toRef(target ?? undefined),
+      mode: move.mode,
+      changes,
+      movedPositions: move.mode === 'subtree' ? countSubtree(after, position.id) : 1,
+      warnings,
+    },
+    graph: after,
+  };
+}
+
+/**
+ * Preview a move: the plan and the employees whose manager changes with it
+ */
+export async function previewPositionMove(
+  client: Prisma.TransactionClient,
+  organizationId: number,
+  move: PositionMove
+): Promise<{ error: string } | { plan: PositionMovePlan; reportingLineChanges: ReportingLineChange[] }> {
+  const graph = await loadPositionGraph(client, organizationId);
+  const result = planPositionMove(graph, move);
+  if ('error' in result) return result;
+
+  // Compare the managers found up the tree before and after the move
+  const candidates: (ReportingLineChange & { id: number })[] = [];
+  for (const [positionId, occupants] of graph.occupants) {
+    for (const employee of occupants) {
+      const before = findPositionManagers(graph, positionId, employee.id);
+      const after = findPositionManagers(result.graph, positionId, employee.id);
+      if (sameManagers(before.managers, after.managers)) continue;
+
+      candidates.push({
+        id: employee.id,
+        employee,
+        position: toRef(graph.positions.get(positionId))!,
+        before: { ...before, managerSource: before.managers.length > 0 ? 'position' : null },
+        after: { ...after, managerSource: after.managers.length > 0 ? 'position' : null },
+      });
+    }
+  }
+
+  // Employees left without an occupied position above them fall back to their department head or branch manager
+  const needsFallback = candidates.filter((change) => !change.before.managerSource || !change.after.managerSource);
+  if (needsFallback.length > 0) {
+    const employees = await client.employee.findMany({
+      where: { id: { in: needsFallback.map((change) => change.id) } },
+      select: { id: true, ...fallbackManagerSelect },
+    });
+    const fallbacks = new Map(employees.map((employee) => [employee.id, findFallbackManager(employee)]));
+
+    for (const change of needsFallback) {
+      const fallback = fallbacks.get(change.id);
+      if (!fallback) continue;
+      if (!change.before.managerSource) Object.assign(change.before, fallback);
+      if (!change.after.managerSource) Object.assign(change.after, fallback);
+    }
+  }
+
+  return {
+    plan: result.plan,
+    reportingLineChanges: candidates
+      .filter((change) => !sameManagers(change.before.managers, change.after.managers))
+      .map(({ employee, position, before, after }) => ({
+        employee,
+        position,
+        before: pickManager(before),
+        after: pickManager(after),
+      })),
+  };
+}
+
+/**
+ * Apply a move inside a transaction: the tree is reloaded and checked again before anything is saved
+ */
+export async function applyPositionMove(
+  tx: Prisma.TransactionClient,
+  organizationId: number,
+  move: PositionMove,
+  userId?: number
+): Promise<{ error: string } | { plan: PositionMovePlan }> {
+  const graph = await loadPositionGraph(tx, organizationId);
+  const result = planPositionMove(graph, move);
+  if ('error' in result) return result;
+
+  for (const change of result.plan.changes) {
+    await tx.organizationalPosition.update({
+      where: { id: change.position.id },
+      data: { reportingPositionId: change.to?.id ?? null, updatedBy: userId },
+    });
+  }
+
+  return { plan: result.plan };
+}
+
+/**
+ * Check whether pointing a position at a reporting position would close a loop
+ * Returns the positions of the cycle, or null when the hierarchy stays a tree
+ */
+export function findCycleWithReportingPosition(
+  graph: PositionGraph,
+  positionId: number,
+  reportingPositionId: number | null
+): PositionRef[] | null {
+  const parentOf = new Map([...graph.positions.values()].map((row) => [row.id, row.reportingPositionId]));
+  parentOf.set(positionId, reportingPositionId);
+
+  const cycle = findReportingCycle(parentOf, positionId);
+  return cycle ? cycle.map((id) => toRef(graph.positions.get(id))!) : null;
+}
+
+/**
+ * Check the organization's position tree for reporting cycles, reporting positions that no longer
+ * exist in the organization, and active positions reporting to inactive ones
+ */
+export async function checkHierarchyIntegrity(
+  client: Prisma.TransactionClient,
+  organizationId: number
+): Promise<HierarchyIssue[]> {
+  const graph = await loadPositionGraph(client, organizationId);
+  const parentOf = new Map([...graph.positions.values()].map((row) => [row.id, row.reportingPositionId]));
+  const issues: HierarchyIssue[] = [];
+
+  const inCycle = new Set<number>();
+  for (const position of graph.positions.values()) {
+    if (inCycle.has(position.id)) continue;
+
+    const cycle = findReportingCycle(parentOf, position.id);
+    if (cycle && !cycle.some((id) => inCycle.has(id))) {
+      cycle.forEach((id) => inCycle.add(id));
+      const positions = cycle.map((id) => toRef(graph.positions.get(id))!);
+      issues.push({
+        type: 'cycle',
+        positions,
+        message: `Circular reporting: ${[...positions, positions[0]].map((p) => p.title).join(' → ')}`,
+      });
+    }
+  }
+
+  for (const position of graph.positions.values()) {
+    if (!position.reportingPositionId) continue;
+
+    const parent = graph.positions.get(position.reportingPositionId);
+    if (!parent) {
+      issues.push({
+        type: 'missing_parent',
+        positions: [toRef(position)!],
+        message: `${position.title} reports to a position that does not exist in this organization`,
+      });
+    } else if (position.isActive && !parent.isActive) {
+      issues.push({
+        type: 'inactive_parent',
+        positions: [toRef(position)!, toRef(parent)!],
+        message: `${position.title} is active but reports to the inactive position ${parent.title}`,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Helper function to walk up from a position and return the loop it runs into, if any
+ */
+function findReportingCycle(parentOf: Map<number, number | null>, positionId: number): number[] | null {
+  const path: number[] = [];
+  const seen = new Map<number, number>(); // position id -> index in path
+
+  let currentId: number | null | undefined = positionId;
+  while (currentId) {
+    const index = seen.get(currentId);
+    if (index !== undefined) {
+      return path.slice(index);
+    }
+    seen.set(currentId, path.length);
+    path.push(currentId);
+    currentId = parentOf.get(currentId);
+  }
+
+  return null;
+}
+
+/**
+ * Helper function to copy the position graph with new reporting positions
+ */
+function withReportingPositions(graph: PositionGraph, parentOf: Map<number, number | null>): PositionGraph {
+  const copy: PositionGraph = { positions: new Map(), children: new Map(), occupants: graph.occupants };
+
+  for (const row of graph.positions.values()) {
+    const position: PositionRow = { ...row, reportingPositionId: parentOf.get(row.id) ?? null };
+    copy.positions.set(position.id, position);
+    const siblings = copy.children.get(position.reportingPositionId) ?? [];
+    siblings.push(position);
+    copy.children.set(position.reportingPositionId, siblings);
+  }
+
+  return copy;
+}
+
+/**
+ * Helper function to count a position and every position below it
+ */
+function countSubtree(graph: PositionGraph, positionId: number): number {
+  const visited = new Set<number>();
+  const pending = [positionId];
+
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    pending.push(...(graph.children.get(id) ?? []).map((child) => child.id));
+  }
+
+  return visited.size;
+}
+
+/**
+ * Helper function to compare two sets of managers
+ */
+function sameManagers(a: OrgChartOccupant[], b: OrgChartOccupant[]): boolean {
+  const ids = new Set(a.map((manager) => manager.id));
+  return a.length === b.length && b.every((manager) => ids.has(manager.id));
+}
+
+/**
+ * Helper function to keep only the manager fields of a reporting line
+ */
+function pickManager({ managers, managerSource, managerPosition }: EffectiveManager): EffectiveManager {
+  return { managers, managerSource, managerPosition: managerSource === 'position' ? managerPosition : null };
+}
+
+/**
+ * Helper function to reduce a position to its id and title
+ */
+function toRef(position: PositionRow | undefined): PositionRef | null {
+  return position ? { id: position.id, title: position.title } : null;
+}
@@ -0,0 +1,250 @@
+import crypto from 'crypto';
+import { Request } from 'express';
+import { prisma } from '../index';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  getTokenExpiry,
+  verifyRefreshToken,
+  JWTPayload,
+} from './jwt';
+import { getClientIp } from './audit';
+import { isIssuedBeforePasswordChange } from './account-email';
+import { isTwoFactorSetupRequired } from './two-factor';
+import { SESSION_REVOKE_REASONS } from '../config/constants';
+
+/**
+ * Session Utilities
+ * Persists login sessions and their refresh tokens so they can be rotated, revoked and listed
+ */
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export interface ActiveSession {
+  // The user's role makes two-factor mandatory but they have not enrolled yet
+  twoFactorSetupRequired: boolean;
+}
+
+// lastActiveAt is only bumped when older than this, to avoid a write on every request
+const ACTIVITY_UPDATE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Start a new session for a user who just authenticated
+ */
+export async function createSession(
+  req: Request,
+  payload: Omit<JWTPayload, 'sessionId'>
+): Promise<SessionTokens> {
+  const session = await prisma.userSession.create({
+    data: {
+      id: crypto.randomUUID(),
+      userId: payload.userId,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'] || null,
+      expiresAt: new Date(),
+    },
+  });
+
+  return issueTokens(session.id, payload);
+}
+
+/**
+ * Exchange a refresh token for a new access/refresh token pair
+ * The presented token is consumed; presenting it again revokes the whole session (reuse detection)
+ * Returns null when the token is invalid, expired, already used or its session was revoked
+ */
+export async function rotateRefreshToken(token: string): Promise<SessionTokens | null> {
+  const decoded = verifyRefreshToken(token);
+  if (!decoded) {
+    return null;
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: {
+      session: {
+        include: {
+          user: {
+            select: {
+              id: true,
+              email: true,
+              organizationId: true,
+              roleId: true,
+              isSuperAdmin: true,
+              isActive: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!stored || stored.sessionId !== decoded.sessionId) {
+    return null;
+  }
+
+  const { session } = stored;
+
+  if (session.revokedAt || session.expiresAt <= new Date() || stored.expiresAt <= new Date()) {
+    return null;
+  }
+
+  if (!session.user.isActive) {
+    await revokeSession(session.id, SESSION_REVOKE_REASONS.DEACTIVATED);
+    return null;
+  }
+
+  // Consume the token; a concurrent or replayed use finds it already used
+  const consumed = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (consumed.count === 0) {
+    console.warn(`Refresh token reuse detected for session ${session.id} (user ${session.userId}), revoking session`);
+    await revokeSession(session.id, SESSION_REVOKE_REASONS.TOKEN_REUSE);
+    return null;
+  }
+
+  // Re-read user details so role changes are reflected in the new access token
+  return issueTokens(session.id, {
+    userId: session.user.id,
+    email: session.user.email,
+    organizationId: session.user.organizationId,
+    roleId: session.user.roleId,
+    isSuperAdmin: session.user.isSuperAdmin,
+  });
+}
+
+/**
+ * Issue a fresh token pair for an existing session, invalidating its outstanding refresh token
+ * Used after a password change so the current device stays signed in
+ */
+export async function reissueSessionTokens(
+  sessionId: string,
+  payload: Omit<JWTPayload, 'sessionId'>
+): Promise<SessionTokens> {
+  await prisma.refreshToken.updateMany({
+    where: { sessionId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return issueTokens(sessionId, payload);
+}
+
+/**
+ * Check that the session behind an access token is still active
+ * Tokens issued before the user's last password change are rejected as well
+ * Returns null for inactive sessions
+ */
+export async function getActiveSession(
+  sessionId: string,
+  userId: number,
+  issuedAt?: number
+): Promise<ActiveSession | null> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    select: {
+      userId: true,
+      revokedAt: true,
+      expiresAt: true,
+      lastActiveAt: true,
+      user: {
+        select: {
+          passwordChangedAt: true,
+          twoFactorEnabled: true,
+          role: { select: { requireTwoFactor: true } },
+        },
+      },
+    },
+  });
+
+  if (!session || session.userId !== userId || session.revokedAt || session.expiresAt <= new Date()) {
+    return null;
+  }
+
+  if (isIssuedBeforePasswordChange(issuedAt, session.user.passwordChangedAt)) {
+    return null;
+  }
+
+  if (Date.now() - session.lastActiveAt.getTime() > ACTIVITY_UPDATE_INTERVAL_MS) {
+    await prisma.userSession.update({
+      where: { id: sessionId },
+      data: { lastActiveAt: new Date() },
+    });
+  }
+
+  return {
+    twoFactorSetupRequired: isTwoFactorSetupRequired(session.user),
+  };
+}
+
+/**
+ * Revoke a single session
+ */
+export async function revokeSession(sessionId: string, reason: string): Promise<void> {
+  await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Revoke all active sessions of a user, optionally keeping the current one
+ * Returns the number of sessions revoked
+ */
+export async function revokeUserSessions(
+  userId: number,
+  reason: string,
+  exceptSessionId?: string
+): Promise<number> {
+  const result = await prisma.userSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+
+  return result.count;
+}
+
+/**
+ * Helper function to sign a token pair for a session and persist the refresh token
+ * Each rotation extends the session to the new refresh token's expiry
+ */
+async function issueTokens(
+  sessionId: string,
+  payload: Omit<JWTPayload, 'sessionId'>
+): Promise<SessionTokens> {
+  const accessToken = generateAccessToken({ ...payload, sessionId });
+  const refreshToken = generateRefreshToken({ userId: payload.userId, sessionId });
+  const expiresAt = getTokenExpiry(refreshToken);
+
+  await prisma.$transaction([
+    prisma.refreshToken.create({
+      data: {
+        sessionId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt,
+      },
+    }),
+    prisma.userSession.update({
+      where: { id: sessionId },
+      data: { expiresAt, lastActiveAt: new Date() },
+    }),
+  ]);
+
+  return { accessToken, refreshToken };
+}
+
+/**
+ * Helper function to hash a refresh token for storage and lookup
+ */
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
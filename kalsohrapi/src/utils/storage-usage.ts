@@ -0,0 +1,279 @@
+import { PrismaClient } from '@prisma/client';
+import { STORAGE_QUOTA } from '../config/constants';
+import { saveFile, deleteFile, parseStoredPath, getStorage } from './storage';
+
+// Own client so the storage scripts can run without starting the HTTP server
+const prisma = new PrismaClient();
+
+/**
+ * Storage Usage
+ * Tracks the size of every uploaded file per organization (organization_files)
+ * and enforces the subscription plan's maxStorageMb on uploads
+ */
+
+export interface StorageUsage {
+  usedBytes: number;
+  usedMb: number;
+  limitMb: number | null; // null when the plan has no storage limit
+  percentUsed: number | null;
+}
+
+export interface FileColumn {
+  label: string;
+  find: (organizationId?: number) => Promise<{ id: number; organizationId: number; path: string }[]>;
+  update: (id: number, from: string, to: string) => Promise<unknown>;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+// Every column that stores an uploaded file path
+export const FILE_COLUMNS: FileColumn[] = [
+  {
+    label: 'employees.profilePicture',
+    find: async (organizationId) => {
+      const rows = await prisma.employee.findMany({
+        where: { ...(organizationId && { organizationId }), profilePicture: { not: null } },
+        select: { id: true, organizationId: true, profilePicture: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.organizationId, path: row.profilePicture as string }));
+    },
+    update: (id, from, to) =>
+      prisma.employee.updateMany({ where: { id, profilePicture: from }, data: { profilePicture: to } }),
+  },
+  {
+    label: 'employees.idProof',
+    find: async (organizationId) => {
+      const rows = await prisma.employee.findMany({
+        where: { ...(organizationId && { organizationId }), idProof: { not: null } },
+        select: { id: true, organizationId: true, idProof: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.organizationId, path: row.idProof as string }));
+    },
+    update: (id, from, to) =>
+      prisma.employee.updateMany({ where: { id, idProof: from }, data: { idProof: to } }),
+  },
+  {
+    label: 'employeeDocuments.filePath',
+    find: async (organizationId) => {
+      const rows = await prisma.employeeDocument.findMany({
+        where: { ...(organizationId && { organizationId }) },
+        select: { id: true, organizationId: true, filePath: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.organizationId, path: row.filePath }));
+    },
+    update: (id, from, to) =>
+      prisma.employeeDocument.updateMany({ where: { id, filePath: from }, data: { filePath: to } }),
+  },
+  {
+    label: 'candidates.resumePath',
+    find: async (organizationId) => {
+      const rows = await prisma.candidate.findMany({
+        where: { ...(organizationId && { organizationId }), resumePath: { not: null } },
+        select: { id: true, organizationId: true, resumePath: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.organizationId, path: row.resumePath as string }));
+    },
+    update: (id, from, to) =>
+      prisma.candidate.updateMany({ where: { id, resumePath: from }, data: { resumePath: to } }),
+  },
+  {
+    label: 'candidates.profilePicture',
+    find: async (organizationId) => {
+      const rows = await prisma.candidate.findMany({
+        where: { ...(organizationId && { organizationId }), profilePicture: { not: null } },
+        select: { id: true, organizationId: true, profilePicture: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.organizationId, path: row.profilePicture as string }));
+    },
+    update: (id, from, to) =>
+      prisma.candidate.updateMany({ where: { id, profilePicture: from }, data: { profilePicture: to } }),
+  },
+  {
+    label: 'organizations.logo',
+    find: async (organizationId) => {
+      const rows = await prisma.organization.findMany({
+        where: { ...(organizationId && { id: organizationId }), logo: { not: null } },
+        select: { id: true, logo: true },
+      });
+      return rows.map((row) => ({ id: row.id, organizationId: row.id, path: row.logo as string }));
+    },
+    update: (id, from, to) =>
+      prisma.organization.updateMany({ where: { id, logo: from }, data: { logo: to } }),
+  },
+];
+
+/**
+ * Build a usage summary from a byte count and a limit in MB
+ */
+export function toStorageUsage(usedBytes: number, limitMb: number | null | undefined): StorageUsage {
+  const limit = limitMb ?? null;
+
+  return {
+    usedBytes,
+    usedMb: Math.round((usedBytes / BYTES_PER_MB) * 100) / 100,
+    limitMb: limit,
+    percentUsed: limit ? Math.min(100, Math.round((usedBytes / (limit * BYTES_PER_MB)) * 1000) / 10) : null,
+  };
+}
+
+/**
+ * Storage used by an organization against its subscription plan limit
+ */
+export async function getStorageUsage(organizationId: number): Promise<StorageUsage> {
+  const [organization, usage] = await Promise.all([
+    prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { subscriptionPlan: { select: { maxStorageMb: true } } },
+    }),
+    prisma.organizationFile.aggregate({
+      where: { organizationId },
+      _sum: { sizeBytes: true },
+    }),
+  ]);
+
+  return toStorageUsage(usage._sum.sizeBytes || 0, organization?.subscriptionPlan.maxStorageMb);
+}
+
+/**
+ * Bytes used by each of the given organizations (organizations without files are omitted)
+ */
+export async function getUsedBytesByOrganization(organizationIds: number[]): Promise<Map<number, number>> {
+  const rows = await prisma.organizationFile.groupBy({
+    by: ['organizationId'],
+    where: { organizationId: { in: organizationIds } },
+    _sum: { sizeBytes: true },
+  });
+
+  return new Map(rows.map((row) => [row.organizationId, row._sum.sizeBytes || 0]));
+}
+
+/**
+ * Save an uploaded file for an organization and track its size
+ * Throws an error with code STORAGE_QUOTA.EXCEEDED_CODE when it would exceed the plan's storage limit
+ * The bytes are reserved before the file is written, with the organization's row locked while usage is summed,
+ * so concurrent uploads cannot each pass the check and together exceed the limit
+ */
+export async function saveOrganizationFile(
+  organizationId: number,
+  key: string,
+  body: Buffer,
+  contentType?: string
+): Promise<string> {
+  const organization = await prisma.organization.findUnique({
+    where: { id: organizationId },
+    select: { subscriptionPlan: { select: { name: true, maxStorageMb: true } } },
+  });
+  const plan = organization?.subscriptionPlan;
+  const storedPath = getStorage().toStoredPath(key);
+
+  await prisma.$transaction(async (tx) => {
+    // Uploads of the same organization wait for each other here until the reservation is committed
+    await tx.$queryRaw`SELECT id FROM organizations WHERE id = ${organizationId} FOR UPDATE`;
+
+    if (plan?.maxStorageMb) {
+      // A file uploaded again under the same path replaces its previous size
+      const used = await tx.organizationFile.aggregate({
+        where: { organizationId, path: { not: storedPath } },
+        _sum: { sizeBytes: true },
+      });
+      const usage = toStorageUsage(used._sum.sizeBytes || 0, plan.maxStorageMb);
+
+      if (usage.usedBytes + body.length > plan.maxStorageMb * BYTES_PER_MB) {
+        throw Object.assign(
+          new Error(
+            `Storage limit reached. Your ${plan.name} plan allows ${plan.maxStorageMb} MB and ${usage.usedMb} MB is already in use. ` +
+              'Please remove unused files or upgrade your plan to upload more.'
+          ),
+          { code: STORAGE_QUOTA.EXCEEDED_CODE }
+        );
+      }
+    }
+
+    await tx.organizationFile.upsert({
+      where: { path: storedPath },
+      create: { organizationId, path: storedPath, sizeBytes: body.length },
+      update: { organizationId, sizeBytes: body.length },
+    });
+  });
+
+  try {
+    await saveFile(key, body, contentType);
+  } catch (error) {
+    // Release the reservation of a file that could not be written
+    await prisma.organizationFile.deleteMany({ where: { path: storedPath } });
+    throw error;
+  }
+
+  return storedPath;
+}
+
+/**
+ * Delete an uploaded file and stop counting it towards its organization's usage
+ */
+export async function deleteOrganizationFile(storedPath: string | null | undefined): Promise<void> {
+  const parsed = parseStoredPath(storedPath);
+  if (!parsed) {
+    return;
+  }
+
+  await deleteFile(parsed.storedPath);
+  await prisma.organizationFile.deleteMany({ where: { path: parsed.storedPath } });
+}
+
+/**
+ * Point the usage record of a file at its new stored path (after moving it to another backend)
+ */
+export async function renameOrganizationFile(from: string, to: string): Promise<void> {
+  await prisma.organizationFile.updateMany({ where: { path: from }, data: { path: to } });
+}
+
+/**
+ * Rebuild the usage records from the files the database references
+ * Files that no longer exist are skipped; records of unreferenced files are removed
+ */
+export async function recalculateStorageUsage(
+  organizationId?: number
+): Promise<{ tracked: number; missing: number; removed: number }> {
+  const referenced = new Set<string>();
+  let tracked = 0;
+  let missing = 0;
+
+  for (const column of FILE_COLUMNS) {
+    for (const row of await column.find(organizationId)) {
+      const parsed = parseStoredPath(row.path);
+      if (!parsed || referenced.has(parsed.storedPath)) {
+        continue;
+      }
+
+      const sizeBytes = await parsed.driver.size(parsed.key);
+      if (sizeBytes === null) {
+        missing++;
+        continue;
+      }
+
+      referenced.add(parsed.storedPath);
+      await prisma.organizationFile.upsert({
+        where: { path: parsed.storedPath },
+        create: { organizationId: row.organizationId, path: parsed.storedPath, sizeBytes },
+        update: { organizationId: row.organizationId, sizeBytes },
+      });
+      tracked++;
+    }
+  }
+
+  const removed = await prisma.organizationFile.deleteMany({
+    where: {
+      ...(organizationId && { organizationId }),
+      path: { notIn: Array.from(referenced) },
+    },
+  });
+
+  return { tracked, missing, removed: removed.count };
+}
+
+/**
+ * Whether an error was raised because an upload would exceed the storage limit
+ */
+export function isStorageQuotaError(error: unknown): error is Error & { code: string } {
+  return error instanceof Error && (error as any).code === STORAGE_QUOTA.EXCEEDED_CODE;
+}
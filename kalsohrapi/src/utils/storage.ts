@@ -0,0 +1,332 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { FILE_ACCESS } from '../config/constants';
+
+/**
+ * Storage Utilities
+ * Stores uploaded files through a pluggable driver selected with STORAGE_DRIVER:
+ * - local: files under the uploads directory, stored as /uploads/<key> (default)
+ * - s3: objects in an S3-compatible bucket, stored as s3://<bucket>/<key>
+ *   (S3_BUCKET, S3_REGION, S3_ENDPOINT, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY, S3_FORCE_PATH_STYLE)
+ * Stored paths name their driver, so files keep working after STORAGE_DRIVER changes
+ * until they are moved with `npm run storage:migrate`
+ */
+
+export interface StoredFile {
+  body: Readable;
+  contentLength?: number;
+  contentType?: string;
+}
+
+export interface StorageDriver {
+  name: string;
+  toStoredPath: (key: string) => string;
+  put: (key: string, body: Buffer, contentType?: string) => Promise<void>;
+  get: (key: string) => Promise<StoredFile | null>;
+  size: (key: string) => Promise<number | null>; // null when the file does not exist
+  remove: (key: string) => Promise<void>;
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  region?: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle?: boolean;
+}
+
+const S3_PATH_PREFIX = 's3://';
+
+/**
+ * Local disk driver
+ */
+export const createLocalStorage = (
+  root: string = path.join(__dirname, '../../uploads')
+): StorageDriver => {
+  return {
+    name: 'local',
+    toStoredPath: (key) => `${FILE_ACCESS.PATH_PREFIX}${key}`,
+    put: async (key, body) => {
+      const fullPath = path.join(root, key);
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, body);
+    },
+    get: async (key) => {
+      const fullPath = path.join(root, key);
+      try {
+        const stat = await fs.promises.stat(fullPath);
+        if (!stat.isFile()) {
+          return null;
+        }
+        return { body: fs.createReadStream(fullPath), contentLength: stat.size };
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    size: async (key) => {
+      try {
+        const stat = await fs.promises.stat(path.join(root, key));
+        return stat.isFile() ? stat.size : null;
+      } catch (error: any) {
+        if (error.code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+    remove: async (key) => {
+      try {
+        await fs.promises.unlink(path.join(root, key));
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    },
+  };
+};
+
+/**
+ * S3-compatible driver (AWS S3, MinIO, ...)
+ */
+export const createS3Storage = (options: S3StorageOptions = getS3Options()): StorageDriver => {
+  if (!options.bucket) {
+    throw new Error('S3_BUCKET is required when STORAGE_DRIVER is "s3"');
+  }
+
+  const client = new S3Client({
+    region: options.region || 'us-east-1',
+    ...(options.endpoint && { endpoint: options.endpoint }),
+    forcePathStyle: options.forcePathStyle,
+    ...(options.accessKeyId && {
+      credentials: {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey || '',
+      },
+    }),
+  });
+
+  return {
+    name: 's3',
+    toStoredPath: (key) => `${S3_PATH_PREFIX}${options.bucket}/${key}`,
+    put: async (key, body, contentType) => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: options.bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        })
+      );
+    },
+    get: async (key) => {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: options.bucket, Key: key }));
+        return {
+          body: object.Body as Readable,
+          contentLength: object.ContentLength,
+          contentType: object.ContentType,
+        };
+      } catch (error: any) {
+        if (error.name === 'NoSuchKey' || error.$metadata?.httpStatusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    size: async (key) => {
+      try {
+        const object = await client.send(new HeadObjectCommand({ Bucket: options.bucket, Key: key }));
+        return object.ContentLength ?? 0;
+      } catch (error: any) {
+        if (error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    remove: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: options.bucket, Key: key }));
+    },
+  };
+};
+
+let storage: StorageDriver | null = null;
+let fallbackLocalDriver: StorageDriver | null = null;
+const bucketDrivers = new Map<string, StorageDriver>();
+
+/**
+ * Get the configured storage driver (used for new uploads)
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    storage = createStorageDriver(process.env.STORAGE_DRIVER || 'local');
+  }
+
+  return storage;
+};
+
+/**
+ * Replace the storage driver (e.g. with an in-memory driver in tests)
+ */
+export const setStorage = (driver: StorageDriver): void => {
+  storage = driver;
+  fallbackLocalDriver = null;
+  bucketDrivers.clear();
+};
+
+/**
+ * Create a storage driver by name
+ */
+export const createStorageDriver = (name: string): StorageDriver => {
+  switch (name) {
+    case 'local':
+      return createLocalStorage();
+    case 's3':
+      return createS3Storage();
+    default:
+      throw new Error(`Unknown storage driver "${name}" (expected "local" or "s3")`);
+  }
+};
+
+/**
+ * Resolve a stored path (/uploads/<key> or s3://<bucket>/<key>) to its driver and key
+ * Returns null for anything else, including keys that try to leave their root
+ */
+export const parseStoredPath = (
+  storedPath: unknown
+): { driver: StorageDriver; key: string; storedPath: string } | null => {
+  if (typeof storedPath !== 'string' || !storedPath || storedPath.includes('\0')) {
+    return null;
+  }
+
+  if (storedPath.startsWith(S3_PATH_PREFIX)) {
+    const [bucket, ...rest] = storedPath.slice(S3_PATH_PREFIX.length).split('/');
+    const key = normalizeKey(rest.join('/'));
+    if (!bucket || !key) {
+      return null;
+    }
+    const driver = getS3DriverForBucket(bucket);
+    return { driver, key, storedPath: driver.toStoredPath(key) };
+  }
+
+  const withSlash = storedPath.startsWith('/') ? storedPath : `/${storedPath}`;
+  if (!withSlash.startsWith(FILE_ACCESS.PATH_PREFIX)) {
+    return null;
+  }
+
+  const key = normalizeKey(withSlash.slice(FILE_ACCESS.PATH_PREFIX.length));
+  if (!key) {
+    return null;
+  }
+
+  const driver = getStorage().name === 'local' ? getStorage() : getLocalDriver();
+  return { driver, key, storedPath: driver.toStoredPath(key) };
+};
+
+/**
+ * Save a file with the configured driver
+ * Returns the stored path to keep in the database
+ */
+export const saveFile = async (key: string, body: Buffer, contentType?: string): Promise<string> => {
+  const driver = getStorage();
+  await driver.put(key, body, contentType);
+  return driver.toStoredPath(key);
+};
+
+/**
+ * Open a stored file for reading
+ * Returns null when the path is invalid or the file does not exist
+ */
+export const readFile = async (storedPath: string): Promise<StoredFile | null> => {
+  const parsed = parseStoredPath(storedPath);
+  if (!parsed) {
+    return null;
+  }
+
+  return parsed.driver.get(parsed.key);
+};
+
+/**
+ * Delete a stored file; failures are logged rather than thrown
+ */
+export const deleteFile = async (storedPath: string | null | undefined): Promise<void> => {
+  const parsed = parseStoredPath(storedPath);
+  if (!parsed) {
+    return;
+  }
+
+  try {
+    await parsed.driver.remove(parsed.key);
+  } catch (error) {
+    console.error(`Error deleting file ${storedPath}:`, error);
+  }
+};
+
+/**
+ * Helper function to read the S3 settings from the environment
+ */
+function getS3Options(): S3StorageOptions {
+  return {
+    bucket: process.env.S3_BUCKET || '',
+    region: process.env.S3_REGION,
+    endpoint: process.env.S3_ENDPOINT,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  };
+}
+
+/**
+ * Helper function to get a driver for files in an S3 bucket
+ * The configured driver is reused for its own bucket; other buckets share its connection settings
+ */
+function getS3DriverForBucket(bucket: string): StorageDriver {
+  const current = getStorage();
+  if (current.name === 's3' && current.toStoredPath('') === `${S3_PATH_PREFIX}${bucket}/`) {
+    return current;
+  }
+
+  let driver = bucketDrivers.get(bucket);
+  if (!driver) {
+    driver = createS3Storage({ ...getS3Options(), bucket });
+    bucketDrivers.set(bucket, driver);
+  }
+
+  return driver;
+}
+
+/**
+ * Helper function to get a local driver when the configured driver is not local
+ */
+function getLocalDriver(): StorageDriver {
+  if (!fallbackLocalDriver) {
+    fallbackLocalDriver = createLocalStorage();
+  }
+
+  return fallbackLocalDriver;
+}
+
+/**
+ * Helper function to normalize a storage key, rejecting keys that escape the storage root
+ */
+function normalizeKey(key: string): string | null {
+  const normalized = path.posix.normalize(key);
+  if (!normalized || normalized === '.' || normalized === '..' || normalized.startsWith('../') || normalized.startsWith('/')) {
+    return null;
+  }
+
+  return normalized;
+}
@@ -0,0 +1,290 @@
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { prisma } from '../index';
+import { TWO_FACTOR } from '../config/constants';
+
+/**
+ * Two-Factor Authentication Utilities
+ * TOTP (RFC 6238) secrets, code verification and recovery codes.
+ * Secrets are stored encrypted (AES-256-GCM) with TWO_FACTOR_ENCRYPTION_KEY, falling back to JWT_SECRET.
+ */
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL of a PNG QR code
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean; // The user's role makes two-factor mandatory
+  setupRequired: boolean; // Required but not enrolled yet
+  recoveryCodesRemaining: number;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const ENCRYPTION_KEY = crypto
+  .createHash('sha256')
+  .update(process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET || 'your-secret-key')
+  .digest();
+
+/**
+ * Create a new TOTP secret with its provisioning URL and QR code
+ */
+export async function createTwoFactorSetup(email: string): Promise<TwoFactorSetup> {
+  const secret = base32Encode(crypto.randomBytes(20));
+  const label = encodeURIComponent(`${TWO_FACTOR.ISSUER}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TWO_FACTOR.ISSUER,
+    algorithm: 'SHA1',
+    digits: String(TWO_FACTOR.DIGITS),
+    period: String(TWO_FACTOR.PERIOD_SECONDS),
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Check a TOTP code against a secret
+ * Returns the matched time step, or null when the code is wrong or the step was already used
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null
+): number | null {
+  const normalized = String(code).replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${TWO_FACTOR.DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TWO_FACTOR.PERIOD_SECONDS);
+
+  for (let offset = -TWO_FACTOR.WINDOW; offset <= TWO_FACTOR.WINDOW; offset++) {
+    const step = currentStep + offset;
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    const expected = generateHotp(key, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Encrypt a TOTP secret for storage
+ */
+export function encryptSecret(secret: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [iv, tag, encrypted].map((part) => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a stored TOTP secret
+ */
+export function decryptSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split(':').map((part) => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', ENCRYPTION_KEY, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Replace a user's recovery codes with a fresh set
+ * Returns the plain codes; only their hashes are stored
+ */
+export async function regenerateRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: TWO_FACTOR.RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashRecoveryCode(code) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+/**
+ * Use up one of a user's recovery codes
+ * Returns false when the code is unknown or already used
+ */
+export async function consumeRecoveryCode(userId: number, code: string): Promise<boolean> {
+  const result = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return result.count > 0;
+}
+
+/**
+ * Number of unused recovery codes of a user
+ */
+export async function countRecoveryCodes(userId: number): Promise<number> {
+  return prisma.twoFactorRecoveryCode.count({
+    where: { userId, usedAt: null },
+  });
+}
+
+/**
+ * Verify a second factor: a TOTP code, or failing that a recovery code
+ * Records the used TOTP step so the same code cannot be replayed
+ */
+export async function verifySecondFactor(
+  user: { id: number; twoFactorSecret: string | null; twoFactorLastUsedStep: number | null },
+  code: string
+): Promise<'totp' | 'recovery_code' | null> {
+  if (!user.twoFactorSecret || !code) {
+    return null;
+  }
+
+  const step = verifyTotpCode(decryptSecret(user.twoFactorSecret), code, user.twoFactorLastUsedStep);
+  if (step !== null) {
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return 'totp';
+  }
+
+  if (await consumeRecoveryCode(user.id, code)) {
+    return 'recovery_code';
+  }
+
+  return null;
+}
+
+/**
+ * Turn two-factor authentication off for a user, removing the secret and recovery codes
+ */
+export async function removeTwoFactor(userId: number): Promise<void> {
+  await prisma.$transaction([
+    prisma.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorEnabledAt: null,
+        twoFactorLastUsedStep: null,
+      },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+/**
+ * Whether a user still has to enrol because their role makes two-factor mandatory
+ */
+export function isTwoFactorSetupRequired(user: {
+  twoFactorEnabled: boolean;
+  role?: { requireTwoFactor: boolean } | null;
+}): boolean {
+  return !user.twoFactorEnabled && !!user.role?.requireTwoFactor;
+}
+
+/**
+ * Enrolment status of a user, as exposed by /auth/me and the login response
+ */
+export async function getTwoFactorStatus(user: {
+  id: number;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt: Date | null;
+  role?: { requireTwoFactor: boolean } | null;
+}): Promise<TwoFactorStatus> {
+  return {
+    enabled: user.twoFactorEnabled,
+    enabledAt: user.twoFactorEnabledAt,
+    required: !!user.role?.requireTwoFactor,
+    setupRequired: isTwoFactorSetupRequired(user),
+    recoveryCodesRemaining: user.twoFactorEnabled ? await countRecoveryCodes(user.id) : 0,
+  };
+}
+
+/**
+ * Helper function to compute an HOTP code (RFC 4226) for a counter
+ */
+function generateHotp(key: Buffer, counter: number): string {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', key).update(buffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TWO_FACTOR.DIGITS).padStart(TWO_FACTOR.DIGITS, '0');
+}
+
+/**
+ * Helper function to hash a recovery code for storage and lookup
+ * Codes are compared case-insensitively and without separators
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Helper function to encode bytes as base32 (RFC 4648, no padding)
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Helper function to decode a base32 string (RFC 4648)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      continue;
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}